@@ -0,0 +1,276 @@
+// Checkout Test - multi-store charges, refunds of a failed checkout and stock holds
+// The database and Paystack are replaced by in-memory fakes, so these run without either
+
+const mockDb = {
+  products: [],
+  cartItems: [],
+  orders: [],
+  reservations: [],
+  transactions: []
+};
+
+jest.mock('../src/config/database', () => {
+  const matches = (record, where = {}) =>
+    Object.entries(where).every(([key, value]) => {
+      if (key === 'OR') return value.some((condition) => matches(record, condition));
+      if (value && typeof value === 'object' && !(value instanceof Date)) {
+        if ('gte' in value) return record[key] >= value.gte;
+      }
+      return record[key] === value;
+    });
+
+  const applyData = (record, data) => {
+    for (const [key, value] of Object.entries(data)) {
+      if (value && typeof value === 'object' && 'increment' in value) record[key] += value.increment;
+      else if (value && typeof value === 'object' && 'decrement' in value) record[key] -= value.decrement;
+      else if (!(value && typeof value === 'object' && !(value instanceof Date))) record[key] = value;
+    }
+    return record;
+  };
+
+  const table = (rows, prefix, defaults = {}) => ({
+    findMany: jest.fn(async ({ where } = {}) => rows().filter((row) => matches(row, where)).map((row) => ({ ...row }))),
+    findFirst: jest.fn(async ({ where }) => {
+      const row = rows().find((record) => matches(record, where));
+      return row ? { ...row } : null;
+    }),
+    findUnique: jest.fn(async ({ where }) => {
+      const row = rows().find((record) => matches(record, where));
+      return row ? { ...row } : null;
+    }),
+    create: jest.fn(async ({ data }) => {
+      const row = { id: `${prefix}_${rows().length + 1}`, createdAt: new Date(), ...defaults, ...data };
+      rows().push(row);
+      return { ...row };
+    }),
+    update: jest.fn(async ({ where, data }) => {
+      const row = rows().find((record) => matches(record, where));
+      if (!row) throw new Error('Record to update not found');
+      return { ...applyData(row, data) };
+    }),
+    updateMany: jest.fn(async ({ where, data }) => {
+      const found = rows().filter((record) => matches(record, where));
+      found.forEach((row) => applyData(row, data));
+      return { count: found.length };
+    })
+  });
+
+  const client = {
+    cart: {
+      findUnique: jest.fn(async () => ({
+        id: 'cart_1',
+        userId: 'customer',
+        items: mockDb.cartItems.map((item) => ({
+          ...item,
+          product: mockDb.products.find((product) => product.id === item.productId)
+        }))
+      }))
+    },
+    cartItem: {
+      update: jest.fn(),
+      deleteMany: jest.fn(async () => {
+        mockDb.cartItems.length = 0;
+      }),
+      createMany: jest.fn(async ({ data }) => {
+        data.forEach((item, index) => mockDb.cartItems.push({ id: `restored_${index + 1}`, ...item }));
+      })
+    },
+    product: table(() => mockDb.products, 'product'),
+    user: { findUnique: jest.fn(async () => ({ firstName: 'Ama', lastName: 'Owusu', phone: '+233241234567' })) },
+    location: { create: jest.fn(async ({ data }) => ({ id: 'location_1', ...data })) },
+    order: {
+      ...table(() => mockDb.orders, 'order'),
+      create: jest.fn(async ({ data }) => {
+        const { orderItems, delivery, ...fields } = data;
+        const order = { id: `order_${mockDb.orders.length + 1}`, ...fields };
+        mockDb.orders.push(order);
+        return { ...order, orderItems: orderItems.create, delivery: delivery.create, store: { id: fields.storeId } };
+      })
+    },
+    stockReservation: table(() => mockDb.reservations, 'reservation', { status: 'HELD' }),
+    transaction: table(() => mockDb.transactions, 'txn'),
+    paymentMethod: {
+      findFirst: jest.fn(async () => ({
+        id: 'pm_card',
+        type: 'CREDIT_CARD',
+        paystackAuthCode: 'AUTH_card',
+        user: { email: 'ama@tripsync.test' }
+      }))
+    }
+  };
+  client.$transaction = jest.fn(async (operations) =>
+    typeof operations === 'function' ? operations(client) : Promise.all(operations)
+  );
+
+  return { __esModule: true, default: client };
+});
+
+jest.mock('axios');
+
+jest.mock('../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+jest.mock('../src/services/store-delivery.service', () => ({
+  StoreDeliveryService: jest.fn().mockImplementation(() => ({
+    calculateStorePurchaseDeliveryEstimate: jest.fn(async () => ({ deliveryFee: 10 }))
+  }))
+}));
+
+jest.mock('../src/services/purchase-confirmation.service', () => ({
+  PurchaseConfirmationService: jest.fn().mockImplementation(() => ({
+    createPurchaseConfirmation: jest.fn(async (orderId) => ({ id: `confirmation_${orderId}` }))
+  }))
+}));
+
+jest.mock('../src/services/promotion.service', () => ({
+  PromotionService: jest.fn().mockImplementation(() => ({
+    releaseRedemptions: jest.fn(),
+    attachTransaction: jest.fn()
+  }))
+}));
+
+const axios = require('axios');
+const prisma = require('../src/config/database').default;
+const { CartService } = require('../src/services/cart.service');
+const { StockReservationService } = require('../src/services/stock-reservation.service');
+
+const product = (id, storeId, price, stockQuantity) => ({
+  id,
+  name: `Product ${id}`,
+  description: null,
+  price,
+  inStock: true,
+  stockQuantity,
+  storeId,
+  store: { id: storeId, locationId: `location_${storeId}` }
+});
+
+const checkout = () =>
+  new CartService().convertCartToOrder('customer', {
+    deliveryAddress: { latitude: 5.6037, longitude: -0.187, address: 'Osu, Accra' },
+    paymentMethodId: 'pm_card'
+  });
+
+// Paystack stand-in: charges succeed unless the amount (in pesewas) is listed as declined
+const paystack = ({ declined = [], refundAccepted = true } = {}) =>
+  axios.post.mockImplementation(async (url, data) => {
+    if (url.endsWith('/transaction/charge_authorization')) {
+      return declined.includes(data.amount)
+        ? { data: { status: false, message: 'Declined' } }
+        : { data: { status: true, data: { id: `paystack_${data.reference}`, status: 'success' } } };
+    }
+    if (url.endsWith('/refund')) {
+      return refundAccepted
+        ? { data: { status: true, data: { id: 7001, status: 'pending' } } }
+        : { data: { status: false, message: 'Refund not allowed' } };
+    }
+    throw new Error(`Unexpected Paystack call to ${url}`);
+  });
+
+describe('Checkout', () => {
+  beforeEach(() => {
+    Object.values(mockDb).forEach((rows) => (rows.length = 0));
+    jest.clearAllMocks();
+
+    mockDb.products.push(product('rice', 'store_a', 50, 5), product('oil', 'store_b', 30, 5));
+    mockDb.cartItems.push(
+      { id: 'item_1', cartId: 'cart_1', productId: 'rice', quantity: 1, unitPrice: 50 },
+      { id: 'item_2', cartId: 'cart_1', productId: 'oil', quantity: 1, unitPrice: 30 }
+    );
+  });
+
+  describe('multi-store orders', () => {
+    test('charge each store order separately', async () => {
+      paystack();
+
+      const result = await checkout();
+
+      // The service fee goes on the first order
+      expect(result.transactions.map((transaction) => transaction.amount)).toEqual([61.5, 40]);
+      expect(result.transactions.every((transaction) => transaction.status === 'COMPLETED')).toBe(true);
+      expect(mockDb.products.map((item) => item.stockQuantity)).toEqual([4, 4]);
+    });
+
+    test('refund the first store through Paystack when the second charge fails', async () => {
+      paystack({ declined: [4000] });
+
+      await expect(checkout()).rejects.toThrow('Anything already charged has been refunded');
+
+      const [firstCharge, secondCharge] = mockDb.transactions.filter((transaction) => transaction.type === 'PAYMENT');
+      expect(axios.post).toHaveBeenCalledWith(
+        expect.stringMatching(/\/refund$/),
+        expect.objectContaining({ transaction: firstCharge.paystackReference, amount: 6150 }),
+        expect.anything()
+      );
+      expect(firstCharge).toMatchObject({ status: 'REFUNDED', refundAmount: 61.5, refundReference: '7001' });
+      expect(secondCharge.status).toBe('FAILED');
+
+      const refunds = mockDb.transactions.filter((transaction) => transaction.type === 'REFUND');
+      expect(refunds).toHaveLength(1);
+      expect(refunds[0]).toMatchObject({ parentTransactionId: firstCharge.id, amount: 61.5 });
+
+      expect(mockDb.orders.map((order) => order.status)).toEqual(['CANCELLED', 'CANCELLED']);
+      expect(mockDb.products.map((item) => item.stockQuantity)).toEqual([5, 5]);
+      expect(mockDb.cartItems.map((item) => item.productId)).toEqual(['rice', 'oil']);
+    });
+
+    test('record no refund Paystack did not accept', async () => {
+      paystack({ declined: [4000], refundAccepted: false });
+
+      await expect(checkout()).rejects.toThrow('could not be refunded automatically');
+
+      const firstCharge = mockDb.transactions.find((transaction) => transaction.type === 'PAYMENT');
+      expect(firstCharge.status).toBe('COMPLETED');
+      expect(firstCharge.refundAmount).toBeUndefined();
+      expect(mockDb.transactions.filter((transaction) => transaction.type === 'REFUND')).toHaveLength(0);
+      expect(mockDb.orders.map((order) => order.status)).toEqual(['CANCELLED', 'CANCELLED']);
+    });
+  });
+
+  describe('stock holds', () => {
+    const stockReservationService = new StockReservationService();
+    const expiresAt = new Date(Date.now() + 20 * 60 * 1000);
+    const rice = (quantity = 1) => [{ productId: 'rice', name: 'Rice', quantity }];
+
+    test('give the last unit to only one of two simultaneous checkouts', async () => {
+      mockDb.products[0].stockQuantity = 1;
+
+      const results = await Promise.allSettled([
+        stockReservationService.reserve(prisma, 'order_1', rice(), expiresAt),
+        stockReservationService.reserve(prisma, 'order_2', rice(), expiresAt)
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find((result) => result.status === 'rejected').reason.message).toBe(
+        'Rice no longer has enough stock'
+      );
+      expect(mockDb.products[0].stockQuantity).toBe(0);
+      expect(mockDb.reservations).toHaveLength(1);
+    });
+
+    test('restock only once when an order is released twice', async () => {
+      await stockReservationService.reserve(prisma, 'order_1', rice(2), expiresAt);
+      expect(mockDb.products[0].stockQuantity).toBe(3);
+
+      await Promise.all([
+        stockReservationService.release('order_1', 'PAYMENT_FAILED'),
+        stockReservationService.release('order_1', 'EXPIRED')
+      ]);
+      await stockReservationService.release('order_1', 'EXPIRED');
+
+      expect(mockDb.products[0].stockQuantity).toBe(5);
+      expect(mockDb.reservations[0]).toMatchObject({ status: 'RELEASED', releaseReason: 'PAYMENT_FAILED' });
+    });
+
+    test('keep committed units sold when the order is released later', async () => {
+      await stockReservationService.reserve(prisma, 'order_1', rice(), expiresAt);
+      await stockReservationService.commit('order_1');
+
+      await stockReservationService.release('order_1', 'EXPIRED');
+
+      expect(mockDb.products[0].stockQuantity).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,252 @@
+// Fare Split Test - share amounts, declined and failed co-riders, and retried collections
+// The database is replaced by in-memory tables and card charges are stubbed, so these run without Postgres or Paystack
+
+const mockDb = {
+  bookings: [],
+  fareSplits: [],
+  transactions: [],
+  paymentMethods: []
+};
+
+jest.mock('../src/config/database', () => {
+  const matches = (record, where = {}) =>
+    Object.entries(where).every(([key, value]) => {
+      if (value && typeof value === 'object' && !(value instanceof Date)) {
+        if ('in' in value) return value.in.includes(record[key]);
+        if ('not' in value) return record[key] !== value.not;
+      }
+      return record[key] === value;
+    });
+
+  const table = (rows, prefix) => ({
+    findMany: jest.fn(async ({ where } = {}) =>
+      rows()
+        .filter((row) => matches(row, where))
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map((row) => ({ ...row }))
+    ),
+    findUnique: jest.fn(async ({ where }) => {
+      const row = rows().find((record) => matches(record, where));
+      return row ? { ...row } : null;
+    }),
+    create: jest.fn(async ({ data }) => {
+      const row = { id: `${prefix}_${rows().length + 1}`, createdAt: new Date(), ...data };
+      rows().push(row);
+      return { ...row };
+    }),
+    update: jest.fn(async ({ where, data }) => {
+      const row = rows().find((record) => matches(record, where));
+      if (!row) throw new Error('Record to update not found');
+      return { ...Object.assign(row, data) };
+    }),
+    updateMany: jest.fn(async ({ where, data }) => {
+      const found = rows().filter((record) => matches(record, where));
+      found.forEach((row) => Object.assign(row, data));
+      return { count: found.length };
+    })
+  });
+
+  const fareSplit = table(() => mockDb.fareSplits, 'split');
+  fareSplit.findFirst = jest.fn(async ({ where }) => {
+    const { status, ...rest } = where;
+    const split = mockDb.fareSplits.find((record) => matches(record, rest) && (!status || status.in.includes(record.status)));
+    return split ? { ...split, booking: mockDb.bookings.find((booking) => booking.id === split.bookingId) } : null;
+  });
+
+  return {
+    __esModule: true,
+    default: {
+      booking: table(() => mockDb.bookings, 'booking'),
+      fareSplit,
+      transaction: table(() => mockDb.transactions, 'txn'),
+      paymentMethod: {
+        ...table(() => mockDb.paymentMethods, 'pm'),
+        findFirst: jest.fn(async ({ where }) => mockDb.paymentMethods.find((method) => matches(method, where)) || null)
+      }
+    }
+  };
+});
+
+jest.mock('../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+jest.mock('../src/services/notification.service', () => ({
+  NotificationService: jest.fn().mockImplementation(() => ({ notifyCustomer: jest.fn() }))
+}));
+
+jest.mock('../src/services/promotion.service', () => ({
+  PromotionService: jest.fn().mockImplementation(() => ({ attachTransaction: jest.fn() }))
+}));
+
+const { PaymentService } = require('../src/services/payment.service');
+const { FareSplitService } = require('../src/services/fare-split.service');
+
+const card = (id, userId, authCode) => ({
+  id,
+  userId,
+  type: 'CREDIT_CARD',
+  isActive: true,
+  paystackAuthCode: authCode,
+  user: { email: `${userId}@tripsync.test`, phone: '+233241234567' }
+});
+
+const split = (id, userId, overrides = {}) => ({
+  id,
+  bookingId: 'booking_1',
+  inviterId: 'owner',
+  userId,
+  status: 'ACCEPTED',
+  sharePercent: null,
+  paymentMethodId: `pm_${userId}`,
+  amount: null,
+  transactionId: null,
+  createdAt: new Date(Date.now() - 1000 + mockDb.fareSplits.length),
+  ...overrides
+});
+
+const collectFare = (amount) =>
+  new PaymentService().processPayment({
+    userId: 'owner',
+    bookingId: 'booking_1',
+    amount,
+    paymentMethodId: 'pm_owner',
+    description: 'Ride fare'
+  });
+
+const chargedAmounts = (chargeCard) =>
+  Object.fromEntries(chargeCard.mock.calls.map(([data]) => [data.authorization_code, data.amount / 100]));
+
+describe('Fare splitting', () => {
+  let chargeCard;
+
+  beforeEach(() => {
+    Object.values(mockDb).forEach((rows) => (rows.length = 0));
+
+    mockDb.bookings.push({
+      id: 'booking_1',
+      bookingNumber: 'TRP123456',
+      status: 'IN_PROGRESS',
+      customerId: 'owner',
+      paymentMethodId: 'pm_owner',
+      promoCode: null,
+      discountAmount: 0,
+      corporateAccountId: null
+    });
+    mockDb.paymentMethods.push(
+      card('pm_owner', 'owner', 'AUTH_owner'),
+      card('pm_ama', 'ama', 'AUTH_ama'),
+      card('pm_kwesi', 'kwesi', 'AUTH_kwesi')
+    );
+
+    chargeCard = jest
+      .spyOn(PaymentService.prototype, 'chargeCard')
+      .mockImplementation(async (data) => ({ status: true, data: { id: data.reference, status: 'success' } }));
+  });
+
+  afterEach(() => {
+    chargeCard.mockRestore();
+  });
+
+  describe('shares', () => {
+    test('split equally, with the owner paying the rounding remainder', async () => {
+      mockDb.fareSplits.push(split('split_1', 'ama'), split('split_2', 'kwesi'));
+
+      await collectFare(100);
+
+      expect(chargedAmounts(chargeCard)).toEqual({ AUTH_ama: 33.33, AUTH_kwesi: 33.33, AUTH_owner: 33.34 });
+      expect(mockDb.fareSplits.map((fareSplit) => fareSplit.status)).toEqual(['PAID', 'PAID']);
+      expect(mockDb.fareSplits.map((fareSplit) => fareSplit.amount)).toEqual([33.33, 33.33]);
+    });
+
+    test('take custom shares off the top and split the rest equally', async () => {
+      mockDb.fareSplits.push(split('split_1', 'ama', { sharePercent: 30 }), split('split_2', 'kwesi'));
+
+      await collectFare(55.55);
+
+      // 30% of 55.55 is 16.665, rounded to 16.67; the remaining 38.88 is split between Kwesi and the owner
+      expect(chargedAmounts(chargeCard)).toEqual({ AUTH_ama: 16.67, AUTH_kwesi: 19.44, AUTH_owner: 19.44 });
+    });
+
+    test('always add up to the fare', async () => {
+      mockDb.fareSplits.push(split('split_1', 'ama'), split('split_2', 'kwesi', { sharePercent: 17 }));
+
+      await collectFare(23.47);
+
+      const total = Object.values(chargedAmounts(chargeCard)).reduce((sum, amount) => sum + amount, 0);
+      expect(Math.round(total * 100) / 100).toBe(23.47);
+    });
+  });
+
+  describe('co-riders who do not pay', () => {
+    test('leave a declined share with the owner', async () => {
+      mockDb.fareSplits.push(split('split_1', 'ama', { status: 'INVITED', paymentMethodId: null }), split('split_2', 'kwesi'));
+
+      await new FareSplitService().respond('ama', 'split_1', { accept: false });
+      await collectFare(90);
+
+      expect(mockDb.fareSplits[0].status).toBe('DECLINED');
+      expect(chargedAmounts(chargeCard)).toEqual({ AUTH_kwesi: 45, AUTH_owner: 45 });
+    });
+
+    test('close invitations nobody answered', async () => {
+      mockDb.fareSplits.push(split('split_1', 'ama', { status: 'INVITED', paymentMethodId: null }));
+
+      await collectFare(90);
+
+      expect(mockDb.fareSplits[0].status).toBe('CANCELLED');
+      expect(chargedAmounts(chargeCard)).toEqual({ AUTH_owner: 90 });
+    });
+
+    test('move a failed card charge onto the owner', async () => {
+      mockDb.fareSplits.push(split('split_1', 'ama'), split('split_2', 'kwesi'));
+      chargeCard.mockImplementation(async (data) =>
+        data.authorization_code === 'AUTH_ama'
+          ? { status: false, message: 'Insufficient funds' }
+          : { status: true, data: { id: data.reference, status: 'success' } }
+      );
+
+      await collectFare(90);
+
+      expect(mockDb.fareSplits[0]).toMatchObject({ status: 'FAILED', amount: 30, failureReason: 'Insufficient funds' });
+      expect(mockDb.fareSplits[1]).toMatchObject({ status: 'PAID', amount: 30 });
+      expect(chargedAmounts(chargeCard).AUTH_owner).toBe(60);
+
+      const amaTransaction = mockDb.transactions.find((transaction) => transaction.userId === 'ama');
+      expect(amaTransaction.status).toBe('FAILED');
+    });
+
+    test('move a share onto the owner when the co-rider removed their card', async () => {
+      mockDb.fareSplits.push(split('split_1', 'ama'));
+      mockDb.paymentMethods[1].isActive = false;
+
+      await collectFare(50);
+
+      expect(mockDb.fareSplits[0].status).toBe('FAILED');
+      expect(chargedAmounts(chargeCard)).toEqual({ AUTH_owner: 50 });
+    });
+  });
+
+  describe('retried collections', () => {
+    test('do not charge co-riders who already paid again', async () => {
+      mockDb.fareSplits.push(split('split_1', 'ama'), split('split_2', 'kwesi'));
+      chargeCard.mockImplementation(async (data) =>
+        data.authorization_code === 'AUTH_owner'
+          ? { status: false, message: 'Do not honour' }
+          : { status: true, data: { id: data.reference, status: 'success' } }
+      );
+
+      await collectFare(90);
+      expect(mockDb.fareSplits.map((fareSplit) => fareSplit.status)).toEqual(['PAID', 'PAID']);
+
+      chargeCard.mockClear();
+      chargeCard.mockImplementation(async (data) => ({ status: true, data: { id: data.reference, status: 'success' } }));
+      await collectFare(90);
+
+      // Only the owner's 30 is left to collect
+      expect(chargedAmounts(chargeCard)).toEqual({ AUTH_owner: 30 });
+      expect(mockDb.transactions.filter((transaction) => transaction.userId === 'ama')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+// Image Upload Test - type checks, metadata stripping, renditions and per-owner storage
+// Files are written by a LocalStorageAdapter into a temporary folder
+
+const fs = require('fs/promises');
+const os = require('os');
+const path = require('path');
+const sharp = require('sharp');
+
+jest.mock('../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const { LocalStorageAdapter } = require('../src/services/storage.service');
+const { FileUploadService } = require('../src/services/file-upload.service');
+
+// A photo as a phone would take it: landscape pixels, rotated by EXIF, with camera details attached
+const createPhoto = (options = {}) =>
+  sharp({
+    create: {
+      width: options.width || 1200,
+      height: options.height || 900,
+      channels: 3,
+      background: options.background || { r: 40, g: 120, b: 200 }
+    }
+  })
+    .jpeg()
+    .withMetadata({
+      orientation: 6,
+      exif: { IFD0: { Copyright: 'TripSync test', Make: 'TestPhone', Model: 'GPS 1' } }
+    })
+    .toBuffer();
+
+const toFile = (buffer, originalname = 'photo.jpg', mimetype = 'image/jpeg') => ({
+  buffer,
+  originalname,
+  mimetype,
+  size: buffer.length
+});
+
+describe('Image uploads', () => {
+  let rootDir;
+  let fileUploadService;
+
+  const storedFile = (url) => path.join(rootDir, url.replace(/^\/uploads\//, ''));
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tripsync-uploads-'));
+    fileUploadService = new FileUploadService(new LocalStorageAdapter(rootDir, '/uploads', 'test-secret'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  describe('type checks', () => {
+    test('reject files that are not images, whatever they claim to be', async () => {
+      const file = toFile(Buffer.from('<?php echo "not an image"; ?>'), 'avatar.jpg', 'image/jpeg');
+
+      await expect(fileUploadService.uploadAvatar(file, 'user_123')).rejects.toThrow('Unsupported image type');
+    });
+
+    test('reject images that cannot be decoded', async () => {
+      const truncated = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(32)]);
+
+      await expect(fileUploadService.uploadAvatar(toFile(truncated, 'avatar.png', 'image/png'), 'user_123')).rejects.toThrow(
+        'corrupt or too large'
+      );
+    });
+
+    test('accept images sent with the wrong content type', async () => {
+      const photo = await createPhoto();
+
+      const url = await fileUploadService.uploadAvatar(toFile(photo, 'avatar.png', 'application/octet-stream'), 'user_123');
+
+      expect(url).toMatch(/\/full\.jpg$/);
+    });
+  });
+
+  describe('metadata', () => {
+    test('strips EXIF and turns the image upright', async () => {
+      const photo = await createPhoto();
+      expect((await sharp(photo).metadata()).exif).toBeDefined();
+
+      const upload = await fileUploadService.uploadImageRenditions(toFile(photo), 'vehicles/vehicle_1');
+
+      for (const url of Object.values(upload.urls)) {
+        const metadata = await sharp(await fs.readFile(storedFile(url))).metadata();
+        expect(metadata.exif).toBeUndefined();
+        expect(metadata.orientation).toBeUndefined();
+        // Rotated from the EXIF orientation, so portrait now
+        expect(metadata.height).toBeGreaterThan(metadata.width);
+      }
+    });
+  });
+
+  describe('renditions', () => {
+    test('stores thumb, medium and full within their bounds', async () => {
+      const photo = await createPhoto({ width: 3000, height: 2000 });
+
+      const upload = await fileUploadService.uploadImageRenditions(toFile(photo), 'places/place_1');
+
+      const sizes = {};
+      for (const [name, url] of Object.entries(upload.urls)) {
+        const metadata = await sharp(await fs.readFile(storedFile(url))).metadata();
+        sizes[name] = Math.max(metadata.width, metadata.height);
+        expect(metadata.format).toBe('jpeg');
+      }
+
+      expect(sizes.thumb).toBeLessThanOrEqual(200);
+      expect(sizes.medium).toBeLessThanOrEqual(800);
+      expect(sizes.full).toBeLessThanOrEqual(2048);
+      expect(upload.width).toBe(1365);
+      expect(upload.height).toBe(2048);
+    });
+
+    test('keeps transparent images as PNG', async () => {
+      const logo = await sharp({
+        create: { width: 400, height: 400, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } }
+      })
+        .png()
+        .toBuffer();
+
+      const upload = await fileUploadService.uploadImageRenditions(toFile(logo, 'logo.png', 'image/png'), 'stores/store_1');
+
+      expect(upload.contentType).toBe('image/png');
+      expect(upload.urls.thumb).toMatch(/\/thumb\.png$/);
+    });
+
+    test('never enlarges small images', async () => {
+      const photo = await createPhoto({ width: 120, height: 90 });
+
+      const upload = await fileUploadService.uploadImageRenditions(toFile(photo), 'avatars/user_123');
+
+      const medium = await sharp(await fs.readFile(storedFile(upload.urls.medium))).metadata();
+      expect(Math.max(medium.width, medium.height)).toBe(120);
+    });
+  });
+
+  describe('storage', () => {
+    test('reuses the stored files when an owner uploads the same image again', async () => {
+      const photo = await createPhoto();
+
+      const first = await fileUploadService.uploadImageRenditions(toFile(photo), 'avatars/user_123');
+      const second = await fileUploadService.uploadImageRenditions(toFile(photo), 'avatars/user_123');
+
+      expect(second.urls).toEqual(first.urls);
+      expect(second.width).toBeUndefined();
+    });
+
+    test('keeps each owner\'s copy separate', async () => {
+      const photo = await createPhoto();
+
+      const mine = await fileUploadService.uploadImageRenditions(toFile(photo), 'avatars/user_123');
+      const theirs = await fileUploadService.uploadImageRenditions(toFile(photo), 'avatars/user_456');
+
+      expect(mine.urls.full).toContain('/images/avatars/user_123/');
+      expect(theirs.urls.full).toContain('/images/avatars/user_456/');
+
+      // Deleting one owner's image leaves the other's in place
+      await fileUploadService.deleteFile('images', mine.urls.full.replace('/uploads/images/', ''));
+      await expect(fs.access(storedFile(mine.urls.full))).rejects.toThrow();
+      await expect(fs.access(storedFile(theirs.urls.full))).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,329 @@
+// Payout Test - per-currency batching, commission deductions and retries
+// The database and Paystack are replaced by in-memory fakes, so these run without either
+
+const mockDb = {
+  transactions: [],
+  payouts: [],
+  fleets: [],
+  fleetEarnings: [],
+  bills: [],
+  commissionPayments: []
+};
+
+jest.mock('../src/config/database', () => {
+  const matches = (record, where = {}) =>
+    Object.entries(where).every(([key, value]) => {
+      if (key === 'OR') return value.some((condition) => matches(record, condition));
+      if (value && typeof value === 'object' && !(value instanceof Date)) {
+        if ('in' in value) return value.in.includes(record[key]);
+        if ('notIn' in value) return !value.notIn.includes(record[key]);
+        if ('not' in value) return record[key] !== value.not;
+        if ('hasSome' in value) return value.hasSome.some((item) => record[key].includes(item));
+        if ('lte' in value) return record[key] <= value.lte;
+        // Relation filters are not modelled: the fixtures only hold settled trips
+        return true;
+      }
+      return record[key] === value;
+    });
+
+  const table = (rows, prefix) => ({
+    findMany: jest.fn(async ({ where } = {}) => rows().filter((row) => matches(row, where)).map((row) => ({ ...row }))),
+    findUnique: jest.fn(async ({ where }) => {
+      const row = rows().find((record) => matches(record, where));
+      return row ? { ...row } : null;
+    }),
+    create: jest.fn(async ({ data }) => {
+      const row = { id: `${prefix}_${rows().length + 1}`, createdAt: new Date(), ...data };
+      rows().push(row);
+      return { ...row };
+    }),
+    update: jest.fn(async ({ where, data }) => {
+      const row = rows().find((record) => matches(record, where));
+      if (!row) throw new Error('Record to update not found');
+      return { ...Object.assign(row, data) };
+    }),
+    updateMany: jest.fn(async ({ where, data }) => {
+      const found = rows().filter((record) => matches(record, where));
+      found.forEach((row) => Object.assign(row, data));
+      return { count: found.length };
+    })
+  });
+
+  const client = {
+    transaction: {
+      ...table(() => mockDb.transactions, 'txn'),
+      findMany: jest.fn(async () => mockDb.transactions.filter((transaction) => !transaction.providerPaid))
+    },
+    providerPayout: {
+      ...table(() => mockDb.payouts, 'payout'),
+      findFirst: jest.fn(async ({ where }) => {
+        const found = mockDb.payouts.filter((payout) => matches(payout, where));
+        return found.sort((a, b) => b.createdAt - a.createdAt)[0] || null;
+      }),
+      count: jest.fn(async ({ where }) => mockDb.payouts.filter((payout) => matches(payout, where)).length)
+    },
+    fleet: {
+      findMany: jest.fn(async () =>
+        mockDb.fleets
+          .map((fleet) => ({
+            ...fleet,
+            earnings: [
+              ...new Set(
+                mockDb.fleetEarnings
+                  .filter((earning) => earning.fleetId === fleet.id && earning.payoutId === null)
+                  .map((earning) => earning.currency)
+              )
+            ].map((currency) => ({ currency }))
+          }))
+          .filter((fleet) => fleet.earnings.length > 0)
+      )
+    },
+    fleetEarning: table(() => mockDb.fleetEarnings, 'earning'),
+    monthlyCommissionBill: table(() => mockDb.bills, 'bill'),
+    commissionPayment: {
+      ...table(() => mockDb.commissionPayments, 'commission'),
+      aggregate: jest.fn(async ({ where }) => ({
+        _sum: {
+          amount: mockDb.commissionPayments
+            .filter((payment) => matches(payment, where))
+            .reduce((sum, payment) => sum + payment.amount, 0)
+        }
+      }))
+    },
+    driverProfile: { findUnique: jest.fn(async () => null) },
+    taxiDriverProfile: { findUnique: jest.fn(async () => null) },
+    user: {
+      findUnique: jest.fn(async ({ where }) => ({
+        id: where.id,
+        phone: '+233241234567',
+        firstName: 'Kofi',
+        lastName: 'Mensah',
+        mobileMoneyNumber: '0241234567',
+        mobileMoneyProvider: 'MTN_MOMO',
+        paystackRecipientCode: 'RCP_test',
+        bankAccountNumber: null
+      })),
+      update: jest.fn()
+    }
+  };
+  client.$transaction = jest.fn(async (callback) => callback(client));
+
+  return { __esModule: true, default: client };
+});
+
+jest.mock('../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+jest.mock('../src/services/payment.service', () => ({
+  PaymentService: jest.fn().mockImplementation(() => mockPaystack)
+}));
+
+jest.mock('../src/services/notification.service', () => ({
+  NotificationService: jest.fn().mockImplementation(() => ({ notifyProvider: jest.fn() }))
+}));
+
+const mockPaystack = {
+  initiateTransfer: jest.fn(),
+  verifyTransfer: jest.fn(),
+  createTransferRecipient: jest.fn()
+};
+
+const { PayoutService } = require('../src/services/payout.service');
+
+const earning = (id, amount, currency) => ({
+  id,
+  providerEarning: amount,
+  currency,
+  providerPaid: false,
+  booking: { providerId: 'driver_1', fleetEarning: null }
+});
+
+const payoutsIn = (currency) => mockDb.payouts.filter((payout) => payout.currency === currency);
+
+describe('Payouts', () => {
+  let payoutService;
+
+  beforeEach(() => {
+    Object.values(mockDb).forEach((rows) => (rows.length = 0));
+    jest.clearAllMocks();
+    Object.values(mockPaystack).forEach((mock) => mock.mockReset());
+    payoutService = new PayoutService();
+  });
+
+  describe('batching', () => {
+    test('builds one payout per currency and never adds currencies together', async () => {
+      mockDb.transactions.push(earning('txn_1', 80, 'GHS'), earning('txn_2', 20, 'GHS'), earning('txn_3', 5000, 'NGN'));
+
+      const result = await payoutService.buildPayoutBatches();
+
+      expect(result.payoutsCreated).toBe(2);
+      expect(payoutsIn('GHS')).toHaveLength(1);
+      expect(payoutsIn('GHS')[0].amount).toBe(100);
+      expect(payoutsIn('GHS')[0].transactionIds).toEqual(['txn_1', 'txn_2']);
+      expect(payoutsIn('NGN')[0].amount).toBe(5000);
+      expect(payoutsIn('NGN')[0].transactionIds).toEqual(['txn_3']);
+    });
+
+    test('keeps a separate schedule per currency', async () => {
+      mockDb.payouts.push({
+        id: 'payout_yesterday',
+        providerId: 'driver_1',
+        currency: 'GHS',
+        status: 'COMPLETED',
+        transactionIds: ['txn_old'],
+        createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000)
+      });
+      mockDb.transactions.push(earning('txn_1', 50, 'GHS'), earning('txn_2', 5000, 'NGN'));
+
+      const result = await payoutService.buildPayoutBatches();
+
+      // The cedi payout went out yesterday, so only the naira one is due this week
+      expect(result.payoutsCreated).toBe(1);
+      expect(payoutsIn('NGN')).toHaveLength(1);
+      expect(payoutsIn('GHS')).toHaveLength(1);
+    });
+
+    test('only deducts cedi commission bills from cedi payouts', async () => {
+      mockDb.transactions.push(earning('txn_1', 100, 'GHS'), earning('txn_2', 5000, 'NGN'));
+      mockDb.bills.push({
+        id: 'bill_1',
+        userId: 'driver_1',
+        status: 'PENDING',
+        finalCommissionDue: 30,
+        dueDate: new Date()
+      });
+
+      await payoutService.buildPayoutBatches();
+
+      expect(payoutsIn('GHS')[0]).toMatchObject({ amount: 70, commissionDeducted: 30 });
+      expect(payoutsIn('NGN')[0]).toMatchObject({ amount: 5000, commissionDeducted: 0 });
+      expect(mockDb.commissionPayments).toHaveLength(1);
+      expect(mockDb.commissionPayments[0]).toMatchObject({ billId: 'bill_1', amount: 30, currency: 'GHS' });
+    });
+
+    test('pays fleet owners one payout per currency', async () => {
+      mockDb.fleets.push({ id: 'fleet_1', ownerId: 'owner_1' });
+      mockDb.fleetEarnings.push(
+        { id: 'earning_1', fleetId: 'fleet_1', operatorShare: 12.5, currency: 'GHS', payoutId: null },
+        { id: 'earning_2', fleetId: 'fleet_1', operatorShare: 7.5, currency: 'GHS', payoutId: null },
+        { id: 'earning_3', fleetId: 'fleet_1', operatorShare: 900, currency: 'NGN', payoutId: null }
+      );
+
+      const result = await payoutService.buildPayoutBatches();
+
+      expect(result.payoutsCreated).toBe(2);
+      expect(payoutsIn('GHS')[0]).toMatchObject({ providerId: 'owner_1', amount: 20 });
+      expect(payoutsIn('NGN')[0]).toMatchObject({ providerId: 'owner_1', amount: 900 });
+      expect(mockDb.fleetEarnings.map((fleetEarning) => fleetEarning.payoutId)).toEqual([
+        payoutsIn('GHS')[0].id,
+        payoutsIn('GHS')[0].id,
+        payoutsIn('NGN')[0].id
+      ]);
+    });
+  });
+
+  describe('retries', () => {
+    const pendingPayout = (overrides = {}) => ({
+      id: 'payout_1',
+      providerId: 'driver_1',
+      amount: 100,
+      currency: 'GHS',
+      status: 'PENDING',
+      payoutMethod: 'MOBILE_MONEY',
+      paystackReference: 'pyt_ref_1',
+      paystackRecipientCode: 'RCP_test',
+      paystackTransferCode: null,
+      transactionIds: ['txn_1'],
+      commissionDeducted: 0,
+      retryCount: 0,
+      maxRetries: 3,
+      scheduledFor: null,
+      createdAt: new Date(),
+      ...overrides
+    });
+
+    beforeEach(() => {
+      mockDb.transactions.push(earning('txn_1', 100, 'GHS'));
+    });
+
+    test('checks Paystack before sending a retried transfer again', async () => {
+      mockDb.payouts.push(pendingPayout({ retryCount: 1 }));
+      mockPaystack.verifyTransfer.mockResolvedValue({
+        status: true,
+        data: { status: 'success', transfer_code: 'TRF_1' }
+      });
+
+      await payoutService.processPendingPayouts();
+
+      expect(mockPaystack.verifyTransfer).toHaveBeenCalledWith('pyt_ref_1');
+      expect(mockPaystack.initiateTransfer).not.toHaveBeenCalled();
+      expect(mockDb.payouts[0].status).toBe('COMPLETED');
+      expect(mockDb.transactions[0].providerPaid).toBe(true);
+    });
+
+    test('sends the transfer under the same reference when Paystack never received it', async () => {
+      mockDb.payouts.push(pendingPayout({ retryCount: 1 }));
+      mockPaystack.verifyTransfer.mockRejectedValue(new Error('Transfer not found'));
+      mockPaystack.initiateTransfer.mockResolvedValue({
+        status: true,
+        data: { status: 'success', transfer_code: 'TRF_1' }
+      });
+
+      await payoutService.processPendingPayouts();
+
+      expect(mockPaystack.initiateTransfer).toHaveBeenCalledTimes(1);
+      expect(mockPaystack.initiateTransfer).toHaveBeenCalledWith(
+        expect.objectContaining({ reference: 'pyt_ref_1', amount: 10000, currency: 'GHS' })
+      );
+      expect(mockDb.payouts[0].status).toBe('COMPLETED');
+    });
+
+    test('does not transfer twice when the first attempt timed out after reaching Paystack', async () => {
+      mockDb.payouts.push(pendingPayout());
+      mockPaystack.initiateTransfer.mockRejectedValueOnce(new Error('socket hang up'));
+
+      await payoutService.processPendingPayouts();
+
+      expect(mockDb.payouts[0]).toMatchObject({ status: 'PENDING', retryCount: 1, failureReason: 'socket hang up' });
+
+      mockPaystack.verifyTransfer.mockResolvedValue({
+        status: true,
+        data: { status: 'success', transfer_code: 'TRF_1' }
+      });
+      await payoutService.processPendingPayouts();
+
+      expect(mockPaystack.initiateTransfer).toHaveBeenCalledTimes(1);
+      expect(mockDb.payouts[0].status).toBe('COMPLETED');
+    });
+
+    test('fails the payout once its retries run out', async () => {
+      mockDb.payouts.push(pendingPayout({ retryCount: 2 }));
+      mockPaystack.verifyTransfer.mockRejectedValue(new Error('Transfer not found'));
+      mockPaystack.initiateTransfer.mockRejectedValue(new Error('Insufficient balance'));
+
+      await payoutService.processPendingPayouts();
+
+      expect(mockDb.payouts[0]).toMatchObject({ status: 'FAILED', retryCount: 3 });
+    });
+
+    test('re-queues a failed payout under a new reference', async () => {
+      mockDb.payouts.push(pendingPayout({ status: 'FAILED', retryCount: 3, paystackTransferCode: 'TRF_1' }));
+
+      const retried = await payoutService.retryPayout('payout_1');
+
+      expect(retried).toMatchObject({ status: 'PENDING', retryCount: 0, paystackTransferCode: null });
+      expect(retried.paystackReference).not.toBe('pyt_ref_1');
+    });
+
+    test('refuses to retry earnings a newer payout already covers', async () => {
+      mockDb.payouts.push(
+        pendingPayout({ status: 'FAILED' }),
+        pendingPayout({ id: 'payout_2', paystackReference: 'pyt_ref_2' })
+      );
+
+      await expect(payoutService.retryPayout('payout_1')).rejects.toThrow('already been included in a newer payout');
+    });
+  });
+});
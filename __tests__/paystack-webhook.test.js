@@ -0,0 +1,223 @@
+// Paystack Webhook Test - event claiming, replays and refunds
+// The database is replaced by in-memory tables, so these run without Postgres or Paystack
+
+const mockDb = {
+  events: [],
+  transactions: [],
+  bookings: []
+};
+
+jest.mock('../src/config/database', () => {
+  const { Prisma } = require('@prisma/client');
+
+  const matches = (record, where = {}) =>
+    Object.entries(where).every(([key, value]) => {
+      if (key === 'OR') return value.some((condition) => matches(record, condition));
+      if (value && typeof value === 'object' && !(value instanceof Date)) {
+        if ('in' in value) return value.in.includes(record[key]);
+        if ('lt' in value) return record[key] < value.lt;
+        if ('not' in value) return record[key] !== value.not;
+      }
+      return record[key] === value;
+    });
+
+  const applyData = (record, data) => {
+    for (const [key, value] of Object.entries(data)) {
+      record[key] = value && typeof value === 'object' && 'increment' in value ? (record[key] || 0) + value.increment : value;
+    }
+    record.updatedAt = new Date();
+    return record;
+  };
+
+  const table = (rows, options = {}) => ({
+    create: jest.fn(async ({ data }) => {
+      if (options.unique && rows().some((row) => row[options.unique] === data[options.unique])) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+      }
+      const row = { id: `${options.prefix}_${rows().length + 1}`, createdAt: new Date(), updatedAt: new Date(), ...data };
+      rows().push(row);
+      return { ...row };
+    }),
+    findUnique: jest.fn(async ({ where }) => {
+      const row = rows().find((record) => matches(record, where));
+      return row ? { ...row } : null;
+    }),
+    update: jest.fn(async ({ where, data }) => {
+      const row = rows().find((record) => matches(record, where));
+      if (!row) throw new Error('Record to update not found');
+      return { ...applyData(row, data) };
+    }),
+    updateMany: jest.fn(async ({ where, data }) => {
+      const found = rows().filter((record) => matches(record, where));
+      found.forEach((row) => applyData(row, data));
+      return { count: found.length };
+    })
+  });
+
+  const client = {
+    paystackWebhookEvent: table(() => mockDb.events, { unique: 'eventId', prefix: 'evt' }),
+    transaction: table(() => mockDb.transactions, { prefix: 'txn' }),
+    booking: table(() => mockDb.bookings, { prefix: 'bkg' }),
+    providerPayout: { findFirst: jest.fn(async () => null) }
+  };
+  client.$transaction = jest.fn(async (callback) => callback(client));
+
+  return { __esModule: true, default: client };
+});
+
+jest.mock('../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+jest.mock('../src/services/payout.service', () => ({
+  PayoutService: jest.fn().mockImplementation(() => ({ completePayout: jest.fn(), failPayout: jest.fn() }))
+}));
+
+const prisma = require('../src/config/database').default;
+const { PaystackWebhookService } = require('../src/services/paystack-webhook.service');
+
+const chargeSuccess = (overrides = {}) => ({
+  event: 'charge.success',
+  data: { id: 9001, reference: 'trp_ref_1', status: 'success', fees: 150, ...overrides }
+});
+
+describe('Paystack webhooks', () => {
+  let webhookService;
+
+  beforeEach(() => {
+    mockDb.events.length = 0;
+    mockDb.transactions.length = 0;
+    mockDb.bookings.length = 0;
+
+    mockDb.bookings.push({ id: 'booking_1', paymentStatus: 'PENDING' });
+    mockDb.transactions.push({
+      id: 'txn_1',
+      bookingId: 'booking_1',
+      paystackReference: 'trp_ref_1',
+      amount: 100,
+      status: 'PENDING',
+      refundAmount: null,
+      refundReason: null,
+      paystackFees: null
+    });
+
+    webhookService = new PaystackWebhookService();
+  });
+
+  describe('event claiming', () => {
+    test('applies an event once and reports replays as duplicates', async () => {
+      const first = await webhookService.handleEvent(chargeSuccess());
+      const replay = await webhookService.handleEvent(chargeSuccess());
+
+      expect(first.status).toBe('PROCESSED');
+      expect(replay.status).toBe('DUPLICATE');
+      expect(mockDb.transactions[0].status).toBe('COMPLETED');
+      expect(mockDb.transactions[0].paystackFees).toBe(1.5);
+      expect(mockDb.bookings[0].paymentStatus).toBe('COMPLETED');
+      expect(mockDb.events).toHaveLength(1);
+      expect(prisma.transaction.update).toHaveBeenCalledTimes(1);
+    });
+
+    test('lets only one of two simultaneous deliveries apply the event', async () => {
+      const results = await Promise.all([
+        webhookService.handleEvent(chargeSuccess()),
+        webhookService.handleEvent(chargeSuccess())
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual(['DUPLICATE', 'PROCESSED']);
+      expect(prisma.transaction.update).toHaveBeenCalledTimes(1);
+    });
+
+    test('lets a retry take over an event that failed', async () => {
+      prisma.transaction.update.mockRejectedValueOnce(new Error('connection reset'));
+
+      await expect(webhookService.handleEvent(chargeSuccess())).rejects.toThrow('connection reset');
+      expect(mockDb.events[0].status).toBe('FAILED');
+      expect(mockDb.events[0].failureReason).toBe('connection reset');
+
+      const retry = await webhookService.handleEvent(chargeSuccess());
+      expect(retry.status).toBe('PROCESSED');
+      expect(mockDb.events[0].status).toBe('PROCESSED');
+      expect(mockDb.transactions[0].status).toBe('COMPLETED');
+    });
+
+    test('takes over an event left processing by a delivery that died', async () => {
+      await webhookService.handleEvent(chargeSuccess());
+      Object.assign(mockDb.events[0], { status: 'PROCESSING', updatedAt: new Date(Date.now() - 11 * 60 * 1000) });
+
+      const retry = await webhookService.handleEvent(chargeSuccess());
+
+      expect(retry.status).toBe('PROCESSED');
+    });
+
+    test('does not take over an event another delivery is still processing', async () => {
+      await webhookService.handleEvent(chargeSuccess());
+      Object.assign(mockDb.events[0], { status: 'PROCESSING', updatedAt: new Date() });
+
+      const retry = await webhookService.handleEvent(chargeSuccess());
+
+      expect(retry.status).toBe('DUPLICATE');
+    });
+
+    test('identifies events without an id by their body', async () => {
+      const payload = { event: 'subscription.disable', data: { plan: 'basic' } };
+
+      const first = await webhookService.handleEvent(payload, JSON.stringify(payload));
+      const replay = await webhookService.handleEvent(payload, JSON.stringify(payload));
+      const other = await webhookService.handleEvent(
+        { event: 'subscription.disable', data: { plan: 'premium' } },
+        JSON.stringify({ event: 'subscription.disable', data: { plan: 'premium' } })
+      );
+
+      expect(first.eventId).toMatch(/^subscription\.disable:sha256:[0-9a-f]{64}$/);
+      expect(first.status).toBe('IGNORED');
+      expect(replay.status).toBe('DUPLICATE');
+      expect(other.eventId).not.toBe(first.eventId);
+      expect(other.status).toBe('IGNORED');
+    });
+  });
+
+  describe('refunds', () => {
+    const refundProcessed = (id, amount) => ({
+      event: 'refund.processed',
+      data: { id, amount: amount * 100, transaction_reference: 'trp_ref_1', merchant_note: 'Trip cut short' }
+    });
+
+    beforeEach(() => {
+      Object.assign(mockDb.transactions[0], { status: 'COMPLETED' });
+      Object.assign(mockDb.bookings[0], { paymentStatus: 'COMPLETED' });
+    });
+
+    test('add partial refunds up until the charge is fully refunded', async () => {
+      await webhookService.handleEvent(refundProcessed(501, 30));
+
+      expect(mockDb.transactions[0].refundAmount).toBe(30);
+      expect(mockDb.transactions[0].status).toBe('COMPLETED');
+      expect(mockDb.bookings[0].paymentStatus).toBe('PARTIALLY_REFUNDED');
+
+      await webhookService.handleEvent(refundProcessed(502, 70));
+
+      expect(mockDb.transactions[0].refundAmount).toBe(100);
+      expect(mockDb.transactions[0].status).toBe('REFUNDED');
+      expect(mockDb.bookings[0].paymentStatus).toBe('REFUNDED');
+    });
+
+    test('count a replayed refund once', async () => {
+      await webhookService.handleEvent(refundProcessed(501, 30));
+      const replay = await webhookService.handleEvent(refundProcessed(501, 30));
+
+      expect(replay.status).toBe('DUPLICATE');
+      expect(mockDb.transactions[0].refundAmount).toBe(30);
+    });
+
+    test('ignore refunds for unknown charges', async () => {
+      const result = await webhookService.handleEvent({
+        event: 'refund.processed',
+        data: { id: 503, amount: 1000, transaction_reference: 'trp_unknown' }
+      });
+
+      expect(result.status).toBe('IGNORED');
+    });
+  });
+});
@@ -0,0 +1,292 @@
+// SMS Test - OTP login codes, templates and delivery callbacks
+// Runs against the in-memory FakeSmsProvider, with the database replaced by in-memory tables
+
+const mockDb = {
+  smsMessages: [],
+  phoneOtps: [],
+  users: []
+};
+
+jest.mock('../src/config/database', () => {
+  const matches = (record, where = {}) =>
+    Object.entries(where).every(([key, value]) => {
+      if (value && typeof value === 'object' && !(value instanceof Date)) {
+        if ('in' in value) return value.in.includes(record[key]);
+        if ('gt' in value) return record[key] > value.gt;
+        if ('gte' in value) return record[key] >= value.gte;
+      }
+      return record[key] === value;
+    });
+  const latestFirst = (records) => [...records].sort((a, b) => b.createdAt - a.createdAt);
+
+  return {
+    __esModule: true,
+    default: {
+      smsMessage: {
+        create: jest.fn(async ({ data }) => {
+          const message = {
+            id: `sms_${mockDb.smsMessages.length + 1}`,
+            providerMessageId: null,
+            status: 'QUEUED',
+            errorCode: null,
+            createdAt: new Date(),
+            ...data
+          };
+          mockDb.smsMessages.push(message);
+          return { ...message };
+        }),
+        update: jest.fn(async ({ where, data }) => {
+          const message = mockDb.smsMessages.find((record) => record.id === where.id);
+          Object.assign(message, data);
+          return { ...message };
+        }),
+        findUnique: jest.fn(async ({ where }) => {
+          const message = mockDb.smsMessages.find((record) => matches(record, where));
+          return message ? { ...message } : null;
+        })
+      },
+      phoneOtp: {
+        findMany: jest.fn(async ({ where }) => latestFirst(mockDb.phoneOtps.filter((otp) => matches(otp, where)))),
+        findFirst: jest.fn(async ({ where }) => latestFirst(mockDb.phoneOtps.filter((otp) => matches(otp, where)))[0] || null),
+        create: jest.fn(async ({ data }) => {
+          const otp = {
+            id: `otp_${mockDb.phoneOtps.length + 1}`,
+            attempts: 0,
+            consumedAt: null,
+            createdAt: new Date(),
+            ...data
+          };
+          mockDb.phoneOtps.push(otp);
+          return otp;
+        }),
+        update: jest.fn(async ({ where, data }) => {
+          const otp = mockDb.phoneOtps.find((record) => record.id === where.id);
+          if (data.attempts && data.attempts.increment) otp.attempts += data.attempts.increment;
+          return otp;
+        }),
+        updateMany: jest.fn(async ({ where, data }) => {
+          const otps = mockDb.phoneOtps.filter((otp) => matches(otp, where));
+          otps.forEach((otp) => Object.assign(otp, data));
+          return { count: otps.length };
+        })
+      },
+      user: {
+        findFirst: jest.fn(async ({ where }) => mockDb.users.find((user) => matches(user, where)) || null),
+        findUnique: jest.fn(async ({ where }) => mockDb.users.find((user) => user.id === where.id) || null)
+      }
+    }
+  };
+});
+
+jest.mock('../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const { FakeSmsProvider, SMS_TEMPLATES, SmsService, setSmsProvider } = require('../src/services/sms.service');
+const { OtpService } = require('../src/services/otp.service');
+const logger = require('../src/utils/logger').default;
+
+describe('SMS', () => {
+  let provider;
+  let smsService;
+
+  beforeEach(() => {
+    mockDb.smsMessages.length = 0;
+    mockDb.phoneOtps.length = 0;
+    mockDb.users.length = 0;
+    mockDb.users.push({ id: 'user_customer_123', phone: '0241234567', isActive: true });
+
+    provider = new FakeSmsProvider('test-signature');
+    setSmsProvider(provider);
+    smsService = new SmsService();
+    process.env.SMS_STATUS_CALLBACK_URL = 'https://api.tripsync.test/api/sms/status-callback';
+  });
+
+  describe('OTP login codes', () => {
+    test('texts the code and accepts it once', async () => {
+      const otpService = new OtpService();
+
+      const result = await otpService.requestLoginCode('0241234567');
+      expect(result.phone).toBe('+233241234567');
+
+      const sent = provider.lastMessageTo('+233241234567');
+      expect(sent).not.toBeNull();
+      const code = sent.body.match(/code is (\d{6})/)[1];
+
+      // The stored copy masks the code
+      expect(mockDb.smsMessages[0].body).not.toContain(code);
+      expect(mockDb.smsMessages[0].body).toContain('******');
+      expect(mockDb.smsMessages[0].status).toBe('SENT');
+
+      const user = await otpService.verifyLoginCode('0241234567', code);
+      expect(user.id).toBe('user_customer_123');
+
+      await expect(otpService.verifyLoginCode('0241234567', code)).rejects.toThrow('Code expired or not found');
+    });
+
+    test('rejects a wrong code and counts the attempt', async () => {
+      const otpService = new OtpService();
+      await otpService.requestLoginCode('0241234567');
+
+      const code = provider.lastMessageTo('+233241234567').body.match(/code is (\d{6})/)[1];
+      const wrongCode = code === '000000' ? '111111' : '000000';
+
+      await expect(otpService.verifyLoginCode('0241234567', wrongCode)).rejects.toThrow('Invalid code');
+      expect(mockDb.phoneOtps[0].attempts).toBe(1);
+    });
+
+    test('sends nothing to numbers without an account', async () => {
+      const otpService = new OtpService();
+
+      const result = await otpService.requestLoginCode('+233201112222');
+
+      expect(result.phone).toBe('+233201112222');
+      expect(provider.sent).toHaveLength(0);
+      expect(mockDb.phoneOtps[0].consumedAt).toBeInstanceOf(Date);
+    });
+
+    test('never logs the message body', async () => {
+      await new OtpService().requestLoginCode('0241234567');
+
+      const code = provider.lastMessageTo('+233241234567').body.match(/code is (\d{6})/)[1];
+      const logged = [...logger.info.mock.calls, ...logger.debug.mock.calls].flat().join(' ');
+      expect(logged).not.toContain(code);
+    });
+  });
+
+  describe('templates', () => {
+    test('OTP states the code and its expiry', () => {
+      expect(SMS_TEMPLATES.OTP({ code: '123456', minutes: 5 })).toBe(
+        'Your TripSync code is 123456. It expires in 5 minutes. Never share this code with anyone.'
+      );
+    });
+
+    test('notifications carry the title and body', () => {
+      expect(SMS_TEMPLATES.NOTIFICATION({ title: 'Ride booked', body: 'Your driver is on the way' })).toBe(
+        'TripSync: Ride booked. Your driver is on the way'
+      );
+    });
+
+    test('emergency shares link the live tracking page when there is one', () => {
+      const text = SMS_TEMPLATES.EMERGENCY_LOCATION_SHARE({
+        name: 'Ama',
+        latitude: 5.6037,
+        longitude: -0.187,
+        address: 'Osu',
+        isRealTime: true,
+        trackingUrl: 'https://tripsync.test/track/abc'
+      });
+
+      expect(text).toContain('Ama has shared their live location');
+      expect(text).toContain('near Osu');
+      expect(text).toContain('https://tripsync.test/track/abc');
+    });
+
+    test('emergency shares fall back to a map link', () => {
+      const text = SMS_TEMPLATES.EMERGENCY_LOCATION_SHARE({ name: 'Ama', latitude: 5.6037, longitude: -0.187 });
+
+      expect(text).toContain('https://maps.google.com/?q=5.6037,-0.187');
+    });
+
+    test('sends from the sender ID configured for the country', async () => {
+      process.env.SMS_SENDER_IDS = 'GH:TripSync,NG:TripSyncNG';
+
+      await smsService.send('+2348031234567', 'NOTIFICATION', { title: 'Hi', body: 'There' });
+
+      expect(provider.lastMessageTo('+2348031234567').from).toBe('TripSyncNG');
+      expect(mockDb.smsMessages[0].countryCode).toBe('NG');
+      delete process.env.SMS_SENDER_IDS;
+    });
+  });
+
+  describe('delivery callbacks', () => {
+    test('only accept the provider signature', () => {
+      expect(smsService.verifyStatusCallback('test-signature', {})).toBe(true);
+      expect(smsService.verifyStatusCallback('forged', {})).toBe(false);
+      expect(smsService.verifyStatusCallback(undefined, {})).toBe(false);
+    });
+
+    test('mark messages delivered', async () => {
+      const message = await smsService.send('0241234567', 'NOTIFICATION', { title: 'Hi', body: 'There' });
+
+      const updated = await smsService.handleStatusCallback({
+        MessageSid: message.providerMessageId,
+        MessageStatus: 'delivered'
+      });
+
+      expect(updated.status).toBe('DELIVERED');
+      expect(updated.deliveredAt).toBeInstanceOf(Date);
+    });
+
+    test('never move a delivered message backwards', async () => {
+      const message = await smsService.send('0241234567', 'NOTIFICATION', { title: 'Hi', body: 'There' });
+      await smsService.handleStatusCallback({ MessageSid: message.providerMessageId, MessageStatus: 'delivered' });
+
+      const late = await smsService.handleStatusCallback({
+        MessageSid: message.providerMessageId,
+        MessageStatus: 'sent'
+      });
+
+      expect(late.status).toBe('DELIVERED');
+    });
+
+    test('record failures with the provider error code', async () => {
+      const message = await smsService.send('0241234567', 'NOTIFICATION', { title: 'Hi', body: 'There' });
+
+      const failed = await smsService.handleStatusCallback({
+        MessageSid: message.providerMessageId,
+        MessageStatus: 'undelivered',
+        ErrorCode: '30003'
+      });
+
+      expect(failed.status).toBe('UNDELIVERED');
+      expect(failed.errorCode).toBe('30003');
+    });
+
+    test('ignore unknown messages', async () => {
+      const result = await smsService.handleStatusCallback({ MessageSid: 'SM_unknown', MessageStatus: 'delivered' });
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('provider selection', () => {
+    const environment = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...environment };
+    });
+
+    const loadProvider = () => {
+      let provider;
+      jest.isolateModules(() => {
+        provider = require('../src/services/sms.service').getSmsProvider();
+      });
+      return provider;
+    };
+
+    test('uses the fake in tests without Twilio credentials', () => {
+      delete process.env.SMS_PROVIDER;
+      delete process.env.TWILIO_ACCOUNT_SID;
+
+      expect(loadProvider().name).toBe('fake');
+    });
+
+    test('refuses to fall back to the fake in production', () => {
+      process.env.NODE_ENV = 'production';
+      delete process.env.SMS_PROVIDER;
+      delete process.env.TWILIO_ACCOUNT_SID;
+      delete process.env.TWILIO_AUTH_TOKEN;
+
+      expect(loadProvider).toThrow('SMS is not configured');
+    });
+
+    test('uses the fake anywhere when asked to explicitly', () => {
+      process.env.NODE_ENV = 'production';
+      process.env.SMS_PROVIDER = 'fake';
+
+      expect(loadProvider().name).toBe('fake');
+    });
+  });
+});
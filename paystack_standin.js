@@ -0,0 +1,150 @@
+// Local Paystack stand-in for exercising charges and provider payouts without hitting api.paystack.co
+//
+// Usage:
+//   PAYSTACK_SECRET_KEY=sk_test_local node paystack_standin.js
+//   # in the API's .env
+//   PAYSTACK_BASE_URL=http://localhost:4010
+//   PAYSTACK_SECRET_KEY=sk_test_local
+//
+// Transfers are accepted as "pending" and settled shortly after through a signed
+// transfer.success webhook sent to STANDIN_WEBHOOK_URL. Account numbers ending in
+// "000" produce a transfer.failed webhook instead.
+
+const crypto = require('crypto');
+const express = require('express');
+const axios = require('axios');
+
+const PORT = process.env.STANDIN_PORT || 4010;
+const SECRET_KEY = process.env.PAYSTACK_SECRET_KEY || 'sk_test_local';
+const WEBHOOK_URL = process.env.STANDIN_WEBHOOK_URL || 'http://localhost:5000/api/payments/webhooks/paystack';
+const SETTLE_DELAY_MS = Number(process.env.STANDIN_SETTLE_DELAY_MS || 1000);
+
+const app = express();
+app.use(express.json());
+
+const recipients = new Map();
+const transfers = new Map();
+const transactions = new Map();
+let sequence = 1000;
+
+const nextId = () => ++sequence;
+const code = (prefix) => `${prefix}_${crypto.randomBytes(6).toString('hex')}`;
+
+// Every call must carry the secret key, like the real API
+app.use((req, res, next) => {
+  if (req.headers.authorization !== `Bearer ${SECRET_KEY}`) {
+    return res.status(401).json({ status: false, message: 'Invalid key' });
+  }
+  next();
+});
+
+async function sendWebhook(event, data) {
+  const body = JSON.stringify({ event, data });
+  const signature = crypto.createHmac('sha512', SECRET_KEY).update(body).digest('hex');
+
+  try {
+    await axios.post(WEBHOOK_URL, body, {
+      headers: { 'Content-Type': 'application/json', 'x-paystack-signature': signature }
+    });
+    console.log(`📨 ${event} webhook delivered for ${data.reference}`);
+  } catch (error) {
+    console.error(`❌ ${event} webhook failed:`, error.response?.status || error.message);
+  }
+}
+
+app.post('/transferrecipient', (req, res) => {
+  const { type, name, account_number, bank_code, currency } = req.body;
+  if (!type || !name || !account_number || !bank_code) {
+    return res.status(400).json({ status: false, message: 'Missing recipient details' });
+  }
+
+  const recipient = {
+    id: nextId(),
+    recipient_code: code('RCP'),
+    type,
+    name,
+    currency: currency || 'GHS',
+    details: { account_number, bank_code }
+  };
+  recipients.set(recipient.recipient_code, recipient);
+
+  res.status(201).json({ status: true, message: 'Transfer recipient created successfully', data: recipient });
+});
+
+app.post('/transfer', (req, res) => {
+  const { amount, recipient, reference, reason, currency } = req.body;
+  const savedRecipient = recipients.get(recipient);
+
+  if (!savedRecipient) {
+    return res.status(400).json({ status: false, message: 'Recipient not found' });
+  }
+
+  if ([...transfers.values()].some((transfer) => transfer.reference === reference)) {
+    return res.status(400).json({ status: false, message: 'Duplicate Transfer Reference' });
+  }
+
+  const transfer = {
+    id: nextId(),
+    transfer_code: code('TRF'),
+    amount,
+    currency: currency || savedRecipient.currency,
+    reference,
+    reason,
+    recipient: savedRecipient,
+    status: 'pending',
+    createdAt: new Date().toISOString()
+  };
+  transfers.set(transfer.transfer_code, transfer);
+
+  setTimeout(() => {
+    const failed = savedRecipient.details.account_number.endsWith('000');
+    transfer.status = failed ? 'failed' : 'success';
+    if (failed) transfer.reason = 'Account could not be credited';
+    sendWebhook(failed ? 'transfer.failed' : 'transfer.success', transfer);
+  }, SETTLE_DELAY_MS);
+
+  res.json({ status: true, message: 'Transfer has been queued', data: transfer });
+});
+
+app.get('/transfer/verify/:reference', (req, res) => {
+  const transfer = [...transfers.values()].find((item) => item.reference === req.params.reference);
+  if (!transfer) {
+    return res.status(404).json({ status: false, message: 'Transfer not found' });
+  }
+  res.json({ status: true, message: 'Transfer retrieved', data: transfer });
+});
+
+app.post('/transaction/initialize', (req, res) => {
+  const { email, amount, reference } = req.body;
+  const access_code = code('ACS');
+  transactions.set(reference, { id: nextId(), email, amount, reference, status: 'abandoned' });
+
+  res.json({
+    status: true,
+    message: 'Authorization URL created',
+    data: { authorization_url: `http://localhost:${PORT}/checkout/${access_code}`, access_code, reference }
+  });
+});
+
+app.post('/transaction/charge_authorization', (req, res) => {
+  const { email, amount, reference } = req.body;
+  const transaction = { id: nextId(), email, amount, reference, status: 'success', fees: Math.round(amount * 0.015) };
+  transactions.set(reference, transaction);
+
+  setTimeout(() => sendWebhook('charge.success', transaction), SETTLE_DELAY_MS);
+
+  res.json({ status: true, message: 'Charge attempted', data: transaction });
+});
+
+app.get('/transaction/verify/:reference', (req, res) => {
+  const transaction = transactions.get(req.params.reference);
+  if (!transaction) {
+    return res.status(404).json({ status: false, message: 'Transaction reference not found' });
+  }
+  res.json({ status: true, message: 'Verification successful', data: transaction });
+});
+
+app.listen(PORT, () => {
+  console.log(`🧪 Paystack stand-in listening on http://localhost:${PORT}`);
+  console.log(`📨 Webhooks will be sent to ${WEBHOOK_URL}`);
+});
@@ -1,4 +1,4 @@
-import { PrismaClient, ServiceCategory, SubscriptionTier, RideType } from "@prisma/client"
+import { PrismaClient, ServiceCategory, SubscriptionTier, RideType, LoyaltyRewardCategory } from "@prisma/client"
 import { RBACService } from "../src/services/rbac.service"
 
 const prisma = new PrismaClient()
@@ -8,15 +8,31 @@ async function main() {
 
   // Clear existing data (optional, but good for a fresh foundation seed)
   // Be cautious with this in production environments!
+  await prisma.job.deleteMany({})
   await prisma.auditLog.deleteMany({})
+  await prisma.deviceToken.deleteMany({})
+  await prisma.notificationPreference.deleteMany({})
+  await prisma.notificationSettings.deleteMany({})
   await prisma.userSession.deleteMany({})
   await prisma.commissionPayment.deleteMany({})
   await prisma.monthlyCommissionBill.deleteMany({})
+  await prisma.chatMessage.deleteMany({})
+  await prisma.promoUserUsage.deleteMany({})
+  await prisma.promoRedemption.deleteMany({})
+  await prisma.rewardRedemption.deleteMany({})
+  await prisma.loyaltyTransaction.deleteMany({})
+  await prisma.fleetEarning.deleteMany({})
+  await prisma.fleetShift.deleteMany({})
+  await prisma.fleetDriver.deleteMany({})
+  await prisma.fleet.deleteMany({})
+  await prisma.fareSplit.deleteMany({})
   await prisma.transaction.deleteMany({})
   await prisma.paymentMethod.deleteMany({})
   await prisma.providerPayout.deleteMany({})
   await prisma.userSubscription.deleteMany({})
   await prisma.scheduledNotification.deleteMany({})
+  await prisma.smsMessage.deleteMany({})
+  await prisma.phoneOtp.deleteMany({})
   await prisma.customerProfile.deleteMany({})
   await prisma.driverProfile.deleteMany({})
   await prisma.taxiDriverProfile.deleteMany({})
@@ -26,7 +42,15 @@ async function main() {
   await prisma.businessProfile.deleteMany({})
   await prisma.storeOwnerProfile.deleteMany({})
   await prisma.placeOwnerProfile.deleteMany({})
+  await prisma.emergencyDispatchEvent.deleteMany({})
+  await prisma.tripShare.deleteMany({})
   await prisma.booking.deleteMany({})
+  await prisma.corporateInvoice.deleteMany({})
+  await prisma.corporateMember.deleteMany({})
+  await prisma.corporatePolicy.deleteMany({})
+  await prisma.corporateCostCenter.deleteMany({})
+  await prisma.corporateAccount.deleteMany({})
+  await prisma.recurringBookingSeries.deleteMany({})
   await prisma.dayBookingConfig.deleteMany({})
   await prisma.dayBookingAvailability.deleteMany({})
   await prisma.driverNotification.deleteMany({})
@@ -46,8 +70,11 @@ async function main() {
   await prisma.supportTicket.deleteMany({})
   await prisma.supportMessage.deleteMany({})
   await prisma.dailyAnalytics.deleteMany({})
+  await prisma.analyticsRollup.deleteMany({})
+  await prisma.analyticsEvent.deleteMany({})
   await prisma.trackingUpdate.deleteMany({})
   await prisma.orderItem.deleteMany({})
+  await prisma.stockReservation.deleteMany({})
   await prisma.movingInventoryItem.deleteMany({})
   await prisma.emergencyContact.deleteMany({})
   await prisma.favoriteLocation.deleteMany({})
@@ -72,6 +99,8 @@ async function main() {
   await prisma.serviceType.deleteMany({})
   await prisma.placeCategory.deleteMany({})
   await prisma.subscriptionPlan.deleteMany({})
+  await prisma.loyaltyReward.deleteMany({})
+  await prisma.promoCampaign.deleteMany({})
   await prisma.location.deleteMany({})
   await prisma.serviceZone.deleteMany({})
 
@@ -260,6 +289,40 @@ async function main() {
   }
   console.log("✅ Foundational subscription plans created.")
 
+  // Create the default loyalty reward catalog
+  const loyaltyRewards = [
+    {
+      name: "10% Discount",
+      description: "Get 10% off your next ride",
+      pointsCost: 500,
+      category: LoyaltyRewardCategory.DISCOUNT,
+      value: 10,
+      isActive: true,
+      expiryDays: 30,
+      usageLimit: 1,
+    },
+    {
+      name: "Free Ride",
+      description: "Get a free ride up to GH₵50",
+      pointsCost: 2000,
+      category: LoyaltyRewardCategory.FREE_RIDE,
+      value: 50,
+      isActive: true,
+      expiryDays: 60,
+      usageLimit: 1,
+      tierRequirement: "SILVER",
+    },
+  ]
+
+  for (const reward of loyaltyRewards) {
+    await prisma.loyaltyReward.upsert({
+      where: { name: reward.name },
+      update: reward,
+      create: reward,
+    })
+  }
+  console.log("✅ Default loyalty rewards created.")
+
   console.log("🎉 Database seeded with foundational data successfully!")
 }
 
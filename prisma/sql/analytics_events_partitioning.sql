@@ -0,0 +1,60 @@
+-- Turns analytics_events into a table range-partitioned by month on "day".
+--
+-- `prisma db push` can only create a plain table, so run this once after it:
+--   npm run db:partition-analytics
+-- Existing events are copied into monthly partitions. Running it again does nothing once the
+-- table is partitioned. AnalyticsService.ensureEventPartitions() creates the partitions for the
+-- months ahead and pruneEvents() drops the ones past the retention period.
+
+DO $$
+DECLARE
+  month date;
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM pg_partitioned_table p
+    JOIN pg_class c ON c.oid = p.partrelid
+    WHERE c.relname = 'analytics_events' AND c.relnamespace = current_schema()::regnamespace
+  ) THEN
+    RAISE NOTICE 'analytics_events is already partitioned';
+    RETURN;
+  END IF;
+
+  LOCK TABLE analytics_events IN ACCESS EXCLUSIVE MODE;
+
+  CREATE TABLE analytics_events_partitioned (LIKE analytics_events INCLUDING DEFAULTS)
+    PARTITION BY RANGE ("day");
+  -- The partition key has to be part of the primary key
+  ALTER TABLE analytics_events_partitioned
+    ADD CONSTRAINT analytics_events_partitioned_pkey PRIMARY KEY ("id", "day");
+
+  -- One partition per month from the oldest event to two months ahead
+  FOR month IN
+    SELECT series::date
+    FROM generate_series(
+      date_trunc('month', LEAST(COALESCE((SELECT MIN("day") FROM analytics_events), CURRENT_DATE), CURRENT_DATE)),
+      date_trunc('month', CURRENT_DATE) + interval '2 months',
+      interval '1 month'
+    ) AS series
+  LOOP
+    EXECUTE format(
+      'CREATE TABLE %I PARTITION OF analytics_events_partitioned FOR VALUES FROM (%L) TO (%L)',
+      'analytics_events_' || to_char(month, 'YYYY_MM'),
+      month,
+      (month + interval '1 month')::date
+    );
+  END LOOP;
+
+  INSERT INTO analytics_events_partitioned SELECT * FROM analytics_events;
+
+  DROP TABLE analytics_events;
+  ALTER TABLE analytics_events_partitioned RENAME TO analytics_events;
+  ALTER TABLE analytics_events RENAME CONSTRAINT analytics_events_partitioned_pkey TO analytics_events_pkey;
+
+  -- Same names as the indexes Prisma creates, so `prisma db push` sees no difference
+  CREATE INDEX "analytics_events_day_eventType_idx" ON analytics_events ("day", "eventType");
+  CREATE INDEX "analytics_events_eventType_occurredAt_idx" ON analytics_events ("eventType", "occurredAt");
+  CREATE INDEX "analytics_events_userId_occurredAt_idx" ON analytics_events ("userId", "occurredAt");
+  CREATE INDEX "analytics_events_sessionId_idx" ON analytics_events ("sessionId");
+END
+$$;
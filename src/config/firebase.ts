@@ -0,0 +1,29 @@
+import { cert, getApps, initializeApp } from "firebase-admin/app"
+import { getMessaging, type Messaging } from "firebase-admin/messaging"
+import logger from "../utils/logger"
+
+const projectId = process.env.FIREBASE_PROJECT_ID
+const clientEmail = process.env.FIREBASE_CLIENT_EMAIL
+// Keys in .env files usually have their newlines escaped
+const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, "\n")
+
+let messaging: Messaging | null = null
+
+if (projectId && clientEmail && privateKey) {
+  try {
+    const app = getApps()[0] || initializeApp({ credential: cert({ projectId, clientEmail, privateKey }) })
+    messaging = getMessaging(app)
+    logger.info("✅ Firebase Cloud Messaging configured")
+  } catch (error) {
+    logger.error("❌ Firebase initialization failed:", error)
+  }
+} else {
+  logger.warn("Firebase credentials not configured. Push notifications are disabled.")
+}
+
+/**
+ * FCM client, or null when Firebase is not configured
+ */
+export function getFirebaseMessaging(): Messaging | null {
+  return messaging
+}
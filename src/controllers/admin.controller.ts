@@ -1,13 +1,18 @@
 import type { Response } from "express"
+import type { JobStatus } from "@prisma/client"
 import type { AuthenticatedRequest } from "../types"
 import prisma from "../config/database"
 import { AdminService } from "../services/admin.service"
 import { VerificationService } from "../services/verification.service"
+import type { DocumentKind } from "../services/document-access.service"
+import { DocumentAccessService } from "../services/document-access.service"
+import { jobQueueService } from "../services/job-queue.service"
 import logger from "../utils/logger"
 
 export class AdminController {
   private adminService = new AdminService()
   private verificationService = new VerificationService()
+  private documentAccessService = new DocumentAccessService()
 
   getDashboard = async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -70,6 +75,25 @@ export class AdminController {
     }
   }
 
+  eraseUser = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await this.adminService.eraseUser(req.params.userId, req.user!.id)
+
+      res.json({
+        success: true,
+        message: "User erased successfully",
+        data: result,
+      })
+    } catch (error) {
+      logger.error("Erase user error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to erase user",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
   getSystemMetrics = async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { from, to } = req.query
@@ -135,6 +159,29 @@ export class AdminController {
     }
   }
 
+  getDocumentUrl = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const link = await this.documentAccessService.getDocumentUrl(
+        req.user!,
+        req.params.kind as DocumentKind,
+        req.params.documentId,
+      )
+
+      res.json({
+        success: true,
+        message: "Document link created",
+        data: link,
+      })
+    } catch (error) {
+      logger.error("Get document URL error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to get document link",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
   getUsersByType = async (req: AuthenticatedRequest, res: Response) => {
     try {
       const {
@@ -302,6 +349,90 @@ export class AdminController {
     }
   }
 
+  getJobs = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { status, type, page = 1, limit = 50 } = req.query
+
+      const result = await jobQueueService.listJobs({
+        status: status as JobStatus | undefined,
+        type: type as string | undefined,
+        page: Number(page),
+        limit: Number(limit),
+      })
+
+      res.json({
+        success: true,
+        message: "Jobs retrieved successfully",
+        data: result.jobs,
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("Get jobs error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve jobs",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getJobStats = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const stats = await jobQueueService.getStats()
+
+      res.json({
+        success: true,
+        message: "Job statistics retrieved successfully",
+        data: stats,
+      })
+    } catch (error) {
+      logger.error("Get job stats error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve job statistics",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  retryJob = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const job = await jobQueueService.retryJob(req.params.jobId)
+
+      res.json({
+        success: true,
+        message: "Job queued for retry",
+        data: job,
+      })
+    } catch (error) {
+      logger.error("Retry job error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to retry job",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  cancelJob = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const job = await jobQueueService.cancelJob(req.params.jobId)
+
+      res.json({
+        success: true,
+        message: "Job cancelled successfully",
+        data: job,
+      })
+    } catch (error) {
+      logger.error("Cancel job error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to cancel job",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
   private async getUserTypeStats() {
     try {
       const [
@@ -0,0 +1,230 @@
+import type { Response } from "express"
+import type { AuthenticatedRequest } from "../types"
+import type { CohortPeriod } from "../services/analytics.service"
+import type { KpiComparison, KpiInterval } from "../services/analytics-rollup.service"
+import { AnalyticsService } from "../services/analytics.service"
+import { AnalyticsRollupService } from "../services/analytics-rollup.service"
+import logger from "../utils/logger"
+
+export class AnalyticsController {
+  private analyticsService = new AnalyticsService()
+  private analyticsRollupService = new AnalyticsRollupService()
+
+  // Apps
+  trackEvents = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await this.analyticsService.trackClientEvents(req.user!.id, req.body.events)
+
+      res.status(202).json({
+        success: true,
+        message: "Events received",
+        data: result,
+      })
+    } catch (error) {
+      logger.error("Track client events error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to track events",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  // Admin
+  getUserBehavior = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { userId, from, to } = req.query as any
+      const dateRange = from && to ? { from: new Date(from), to: new Date(to) } : undefined
+
+      const analytics = await this.analyticsService.getUserBehaviorAnalytics(userId, dateRange)
+
+      res.json({
+        success: true,
+        message: "User behavior analytics retrieved successfully",
+        data: analytics,
+      })
+    } catch (error) {
+      logger.error("Get user behavior analytics error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve user behavior analytics",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getFunnel = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { from, to, steps, conversionWindowHours, properties } = req.query as any
+
+      const funnel = await this.analyticsService.getFunnel({
+        dateRange: { from: new Date(from), to: new Date(to) },
+        steps: steps ? steps.split(",") : undefined,
+        conversionWindowHours: conversionWindowHours ? Number(conversionWindowHours) : undefined,
+        properties,
+      })
+
+      res.json({
+        success: true,
+        message: "Funnel retrieved successfully",
+        data: funnel,
+      })
+    } catch (error) {
+      logger.error("Get funnel error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve funnel",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getRetention = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { from, to, period, periods, returnEvent } = req.query as any
+
+      const retention = await this.analyticsService.getRetentionCohorts({
+        dateRange: { from: new Date(from), to: new Date(to) },
+        period: period as CohortPeriod | undefined,
+        periods: periods ? Number(periods) : undefined,
+        returnEvent,
+      })
+
+      res.json({
+        success: true,
+        message: "Retention cohorts retrieved successfully",
+        data: retention,
+      })
+    } catch (error) {
+      logger.error("Get retention cohorts error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve retention cohorts",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  groupByProperty = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { from, to, property, eventType, properties, limit } = req.query as any
+
+      const groups = await this.analyticsService.groupByProperty(
+        property,
+        { eventType, properties, dateRange: { from: new Date(from), to: new Date(to) } },
+        limit ? Number(limit) : undefined,
+      )
+
+      res.json({
+        success: true,
+        message: "Event breakdown retrieved successfully",
+        data: groups,
+      })
+    } catch (error) {
+      logger.error("Group events by property error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve event breakdown",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  generateReport = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { dateRange, ...config } = req.body
+
+      const report = await this.analyticsService.generateCustomReport({
+        ...config,
+        dateRange: { from: new Date(dateRange.from), to: new Date(dateRange.to) },
+      })
+
+      res.json({
+        success: true,
+        message: "Report generated successfully",
+        data: report,
+      })
+    } catch (error) {
+      logger.error("Generate custom report error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to generate report",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getKpiSeries = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { from, to, interval, compare, serviceTypeId, serviceZoneId } = req.query as any
+
+      const series = await this.analyticsRollupService.getTimeSeries({
+        dateRange: { from: new Date(from), to: new Date(to) },
+        interval: interval as KpiInterval,
+        compare: compare as KpiComparison | undefined,
+        filters: { serviceTypeId, serviceZoneId },
+      })
+
+      res.json({
+        success: true,
+        message: "KPI series retrieved successfully",
+        data: series,
+      })
+    } catch (error) {
+      logger.error("Get KPI time series error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to retrieve KPI series",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getKpiBreakdown = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { from, to, by, compare } = req.query as any
+
+      const breakdown = await this.analyticsRollupService.getBreakdown({
+        dateRange: { from: new Date(from), to: new Date(to) },
+        by,
+        compare: compare as KpiComparison | undefined,
+      })
+
+      res.json({
+        success: true,
+        message: "KPI breakdown retrieved successfully",
+        data: breakdown,
+      })
+    } catch (error) {
+      logger.error("Get KPI breakdown error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve KPI breakdown",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  backfillRollups = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await this.analyticsRollupService.scheduleBackfill(
+        req.user!.id,
+        new Date(req.body.from),
+        new Date(req.body.to),
+      )
+
+      res.status(202).json({
+        success: true,
+        message: `Rollups for ${result.days} days queued`,
+        data: result,
+      })
+    } catch (error) {
+      logger.error("Schedule analytics backfill error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to schedule backfill",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+}
@@ -3,6 +3,9 @@ import prisma from "../config/database"
 import { RBACService } from "../services/rbac.service"
 import { NotificationService } from "../services/notification.service"
 import { EmailService } from "../services/email.service"
+import { ReferralService } from "../services/referral.service"
+import { OtpService } from "../services/otp.service"
+import { FcmService } from "../services/fcm.service"
 import logger from "../utils/logger"
 import bcrypt from "bcryptjs"
 import jwt, { type SignOptions, type Secret } from "jsonwebtoken"
@@ -15,6 +18,9 @@ export class AuthController {
   private rbacService = new RBACService()
   private notificationService = new NotificationService()
   private emailService = new EmailService()
+  private referralService = new ReferralService()
+  private otpService = new OtpService()
+  private fcmService = new FcmService()
 
   register = async (req: Request, res: Response) => {
     try {
@@ -43,18 +49,7 @@ export class AuthController {
       const passwordHash = await bcrypt.hash(password, 10)
 
       // Generate referral code
-      const userReferralCode = this.generateReferralCode()
-
-      // Handle referral
-      let referredBy = null
-      if (referralCode) {
-        const referrer = await prisma.user.findUnique({
-          where: { referralCode },
-        })
-        if (referrer) {
-          referredBy = referrer.id
-        }
-      }
+      const userReferralCode = await this.referralService.generateReferralCode(firstName)
 
       // Create user
       const user = await prisma.user.create({
@@ -66,7 +61,6 @@ export class AuthController {
           lastName,
           role: role as any,
           referralCode: userReferralCode,
-          referredBy,
           isActive: true,
           isVerified: true,
           subscriptionStatus: "ACTIVE",
@@ -91,6 +85,7 @@ export class AuthController {
           token: token,
           expiresAt: new Date(Date.now() + 1000 * 60 * 60),
           isActive: true,
+          ...this.getClientContext(req),
         },
       })
 
@@ -105,9 +100,20 @@ export class AuthController {
       // Send welcome email
       await this.emailService.sendWelcomeEmail(user.email, user.firstName || "User")
 
-      // Handle referral bonus
-      if (referredBy) {
-        await this.handleReferralBonus(referredBy, user.id)
+      // Attribute the referral - rewards are released after the first completed booking
+      if (referralCode) {
+        try {
+          const clientContext = this.getClientContext(req)
+          await this.referralService.attributeReferral({
+            refereeId: user.id,
+            referralCode,
+            ipAddress: clientContext.ipAddress,
+            deviceId: clientContext.deviceInfo,
+          })
+        } catch (referralError) {
+          logger.error("Referral attribution failed:", referralError)
+          // Don't fail the registration, just log the error
+        }
       }
 
       res.status(201).json({
@@ -195,6 +201,7 @@ export class AuthController {
           token: token,
           expiresAt: new Date(Date.now() + 1000 * 60 * 60),
           isActive: true,
+          ...this.getClientContext(req),
         },
       })
 
@@ -331,6 +338,7 @@ export class AuthController {
           token: token,
           expiresAt: new Date(Date.now() + 1000 * 60 * 60),
           isActive: true,
+          ...this.getClientContext(req),
         },
       })
 
@@ -423,6 +431,101 @@ export class AuthController {
     }
   }
 
+  requestPhoneOtp = async (req: Request, res: Response) => {
+    try {
+      const result = await this.otpService.requestLoginCode(req.body.phone)
+
+      res.json({
+        success: true,
+        message: "If this number belongs to an account, a login code has been sent",
+        data: result,
+      })
+    } catch (error) {
+      logger.error("Request phone OTP error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to send login code",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  verifyPhoneOtp = async (req: Request, res: Response) => {
+    try {
+      const { phone, code } = req.body
+
+      let user
+      try {
+        user = await this.otpService.verifyLoginCode(phone, code)
+      } catch (error) {
+        return res.status(401).json({
+          success: false,
+          message: "Phone login failed",
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+      }
+
+      // Check commission status for service providers
+      if (["DRIVER", "STORE_OWNER", "PLACE_OWNER"].includes(user.role) && !user.isCommissionCurrent) {
+        return res.status(403).json({
+          success: false,
+          message: "Account suspended due to outstanding commission payments",
+          code: "COMMISSION_OVERDUE",
+        })
+      }
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { lastLoginAt: new Date() },
+      })
+
+      const permissions = await this.rbacService.getUserPermissions(user.role)
+
+      const token = jwt.sign({ userId: user.id, role: user.role, permissions }, JWT_SECRET, {
+        expiresIn: JWT_EXPIRES_IN,
+      } as SignOptions)
+
+      await prisma.userSession.create({
+        data: {
+          userId: user.id,
+          token: token,
+          expiresAt: new Date(Date.now() + 1000 * 60 * 60),
+          isActive: true,
+          ...this.getClientContext(req),
+        },
+      })
+
+      res.json({
+        success: true,
+        message: "Login successful",
+        data: {
+          user: {
+            id: user.id,
+            email: user.email,
+            phone: user.phone,
+            firstName: user.firstName,
+            lastName: user.lastName,
+            role: user.role,
+            isVerified: user.isVerified,
+            avatar: user.avatar,
+            subscriptionTier: user.subscriptionTier,
+            subscriptionStatus: user.subscriptionStatus,
+            isCommissionCurrent: user.isCommissionCurrent,
+            permissions,
+          },
+          token,
+        },
+      })
+    } catch (error) {
+      logger.error("Verify phone OTP error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Login failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
   logout = async (req: Request, res: Response) => {
     try {
       const authHeader = req.headers.authorization
@@ -433,6 +536,7 @@ export class AuthController {
           where: { token: token },
           data: { isActive: false },
         })
+        await this.fcmService.deactivateSessionDevices(token)
       }
 
       res.json({
@@ -593,23 +697,12 @@ export class AuthController {
     }
   }
 
-  private generateReferralCode(): string {
-    return Math.random().toString(36).substring(2, 8).toUpperCase()
-  }
-
-  private async handleReferralBonus(referrerId: string, newUserId: string) {
-    try {
-      await this.notificationService.notifyCustomer(referrerId, {
-        type: NotificationType.REFERRAL_BONUS,
-        title: "Referral Bonus Earned!",
-        body: "You've earned a bonus for referring a new user.",
-        data: { newUserId },
-        priority: PriorityLevel.STANDARD,
-      })
-
-      logger.info(`Referral bonus processed: ${referrerId} referred ${newUserId}`)
-    } catch (error) {
-      logger.error("Handle referral bonus error:", error)
+  // Recorded on sessions for the referral fraud check. Apps send a stable X-Device-Id; the
+  // user agent is not used as it is shared by everyone on the same phone model
+  private getClientContext(req: Request): { ipAddress?: string; deviceInfo?: string } {
+    return {
+      ipAddress: req.ip,
+      deviceInfo: req.headers["x-device-id"] as string | undefined,
     }
   }
 }
@@ -1,5 +1,6 @@
 import type { Response } from "express"
-import type { AuthenticatedRequest, ServiceEstimate } from "../types"
+import type { Prisma } from "@prisma/client"
+import type { AuthenticatedRequest, ServiceEstimate, PromoQuote } from "../types"
 import prisma from "../config/database"
 import { BookingService } from "../services/booking.service"
 import { PricingService } from "../services/pricing.service"
@@ -12,6 +13,10 @@ import logger from "../utils/logger"
 import { LocationService } from "../services/location.service"
 import { DayBookingService } from "../services/day-booking.service"
 import { WebSocketService } from "../services/websocket.service"
+import { PromotionService } from "../services/promotion.service"
+import { FareSplitService } from "../services/fare-split.service"
+import { AnalyticsService } from "../services/analytics.service"
+import { jobQueueService } from "../services/job-queue.service"
 
 export class BookingController {
   private bookingService = new BookingService()
@@ -23,6 +28,9 @@ export class BookingController {
   private serviceZoneService = new ServiceZoneService()
   private dayBookingService = new DayBookingService()
   private webhookService = new WebhookService()
+  private promotionService = new PromotionService()
+  private fareSplitService = new FareSplitService()
+  private analyticsService = new AnalyticsService()
 
   createBooking = async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -32,6 +40,8 @@ export class BookingController {
       // Create booking based on service type
       const booking = await this.bookingService.createBooking(userId, bookingData)
 
+      await this.analyticsService.trackBookingEvent(booking.id, "CREATED")
+
       res.status(201).json({
         success: true,
         message: "Booking created successfully",
@@ -103,6 +113,7 @@ export class BookingController {
         scheduledAt,
         paymentMethodId,
         notes,
+        promoCode,
         shareLocationWithEmergencyContacts = false,
         // FIXED: Remove userId from body since we get it from authenticated user
       } = req.body
@@ -150,6 +161,7 @@ export class BookingController {
           rideType,
           scheduledAt,
           notes,
+          promoCode,
         })
       }
 
@@ -187,6 +199,8 @@ export class BookingController {
         }
       }
 
+      await this.analyticsService.trackBookingEvent(booking.id, "CREATED")
+
       res.status(201).json({
         success: true,
         message: interRegionalCheck.route
@@ -300,9 +314,19 @@ export class BookingController {
     rideType: string
     scheduledAt?: string
     notes?: string
+    promoCode?: string
   }) {
-    const { userId, pickupLatitude, pickupLongitude, dropoffLatitude, dropoffLongitude, rideType, scheduledAt, notes } =
-      params
+    const {
+      userId,
+      pickupLatitude,
+      pickupLongitude,
+      dropoffLatitude,
+      dropoffLongitude,
+      rideType,
+      scheduledAt,
+      notes,
+      promoCode,
+    } = params
 
     // Get service estimate
     const estimate = await this.pricingService.calculateRideEstimate({
@@ -311,47 +335,56 @@ export class BookingController {
       dropoffLatitude,
       dropoffLongitude,
       rideType,
+      userId,
+      promoCode,
     })
 
+    // Promotions are platform funded, so the driver earns on the undiscounted fare
+    const grossPrice = estimate.promotion?.originalAmount ?? estimate.estimatedPrice
+
     // Create ride booking
-    const booking = await prisma.booking.create({
-      data: {
-        bookingNumber: await this.generateBookingNumber(),
-        customerId: userId,
-        serviceTypeId: await this.getServiceTypeId("RIDE"),
-        status: "PENDING",
-        type: scheduledAt ? "SCHEDULED" : "IMMEDIATE",
-        scheduledAt: scheduledAt ? new Date(scheduledAt) : null,
-        pickupLatitude,
-        pickupLongitude,
-        dropoffLatitude,
-        dropoffLongitude,
-        estimatedDistance: estimate.estimatedDistance,
-        estimatedDuration: estimate.estimatedDuration,
-        estimatedPrice: estimate.estimatedPrice,
-        surgePricing: estimate.surgePricing,
-        currency: "GHS",
-        serviceData: {
-          rideType,
+    const booking = await this.createBookingWithPromotion(userId, estimate.promotion, async (tx) =>
+      tx.booking.create({
+        data: {
+          bookingNumber: await this.generateBookingNumber(),
+          customerId: userId,
+          serviceTypeId: await this.getServiceTypeId("RIDE"),
+          status: "PENDING",
+          type: scheduledAt ? "SCHEDULED" : "IMMEDIATE",
+          scheduledAt: scheduledAt ? new Date(scheduledAt) : null,
+          pickupLatitude,
+          pickupLongitude,
+          dropoffLatitude,
+          dropoffLongitude,
+          estimatedDistance: estimate.estimatedDistance,
+          estimatedDuration: estimate.estimatedDuration,
+          estimatedPrice: estimate.estimatedPrice,
           surgePricing: estimate.surgePricing,
-          availableDrivers: estimate.availableProviders,
+          currency: "GHS",
+          serviceData: {
+            rideType,
+            surgePricing: estimate.surgePricing,
+            availableDrivers: estimate.availableProviders,
+          },
+          notes,
+          platformCommission: estimate.estimatedPrice - grossPrice * 0.82,
+          providerEarning: grossPrice * 0.82,
+          promoCode: estimate.promotion?.code,
+          discountAmount: estimate.promotion?.discountAmount || 0,
         },
-        notes,
-        platformCommission: estimate.estimatedPrice * 0.18,
-        providerEarning: estimate.estimatedPrice * 0.82,
-      },
-      include: {
-        serviceType: true,
-        customer: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            phone: true,
+        include: {
+          serviceType: true,
+          customer: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              phone: true,
+            },
           },
         },
-      },
-    })
+      }),
+    )
 
     // Find and notify available drivers
     if (!scheduledAt) {
@@ -636,6 +669,8 @@ export class BookingController {
         ? `Shared ride booking created successfully. Joined existing ride with ${compatibleRides[0].currentPassengers} other passenger(s).`
         : "Shared ride booking created successfully. Waiting for passengers going along the same route..."
 
+      await this.analyticsService.trackBookingEvent(booking.id, "CREATED")
+
       res.status(201).json({
         success: true,
         message: responseMessage,
@@ -694,6 +729,8 @@ export class BookingController {
 
       logger.info(`✅ Enhanced day booking ${booking.id} created successfully with webhook integration`)
 
+      await this.analyticsService.trackBookingEvent(booking.id, "CREATED")
+
       res.status(201).json({
         success: true,
         message: "Enhanced day booking created successfully with real-time monitoring",
@@ -718,7 +755,7 @@ export class BookingController {
   createStoreDelivery = async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user!.id
-      const { storeId, deliveryAddress, orderItems, deliveryInstructions, paymentMethodId } = req.body
+      const { storeId, deliveryAddress, orderItems, deliveryInstructions, paymentMethodId, promoCode } = req.body
 
       // Get store information
       const store = await prisma.store.findUnique({
@@ -738,7 +775,7 @@ export class BookingController {
 
       // Calculate order total and delivery fee
       let orderTotal = 0
-      const validatedItems = []
+      const validatedItems: any[] = []
 
       for (const item of orderItems) {
         const product = store.products.find((p) => p.id === item.productId)
@@ -766,38 +803,46 @@ export class BookingController {
         pickupLongitude: store.location!.longitude,
         dropoffLatitude: deliveryAddress.latitude,
         dropoffLongitude: deliveryAddress.longitude,
+        serviceType: "STORE_DELIVERY",
+        userId,
+        promoCode,
       })
 
       const totalAmount = orderTotal + deliveryEstimate.estimatedPrice
+      const grossDeliveryFee = deliveryEstimate.promotion?.originalAmount ?? deliveryEstimate.estimatedPrice
 
       // Create store delivery booking
-      const booking = await prisma.booking.create({
-        data: {
-          bookingNumber: await this.generateBookingNumber(),
-          customerId: userId,
-          serviceTypeId: await this.getServiceTypeId("STORE_DELIVERY"),
-          status: "CONFIRMED",
-          type: "IMMEDIATE",
-          pickupLatitude: store.location!.latitude,
-          pickupLongitude: store.location!.longitude,
-          dropoffLatitude: deliveryAddress.latitude,
-          dropoffLongitude: deliveryAddress.longitude,
-          estimatedPrice: totalAmount,
-          finalPrice: totalAmount,
-          currency: "GHS",
-          serviceData: {
-            storeId,
-            storeName: store.name,
-            orderItems: validatedItems,
-            deliveryInstructions,
-            orderTotal,
-            deliveryFee: deliveryEstimate.estimatedPrice,
-            preparationTime: 20,
+      const booking = await this.createBookingWithPromotion(userId, deliveryEstimate.promotion, async (tx) =>
+        tx.booking.create({
+          data: {
+            bookingNumber: await this.generateBookingNumber(),
+            customerId: userId,
+            serviceTypeId: await this.getServiceTypeId("STORE_DELIVERY"),
+            status: "CONFIRMED",
+            type: "IMMEDIATE",
+            pickupLatitude: store.location!.latitude,
+            pickupLongitude: store.location!.longitude,
+            dropoffLatitude: deliveryAddress.latitude,
+            dropoffLongitude: deliveryAddress.longitude,
+            estimatedPrice: totalAmount,
+            finalPrice: totalAmount,
+            currency: "GHS",
+            serviceData: {
+              storeId,
+              storeName: store.name,
+              orderItems: validatedItems,
+              deliveryInstructions,
+              orderTotal,
+              deliveryFee: deliveryEstimate.estimatedPrice,
+              preparationTime: 20,
+            },
+            platformCommission: totalAmount * 0.18,
+            providerEarning: grossDeliveryFee * 0.82,
+            promoCode: deliveryEstimate.promotion?.code,
+            discountAmount: deliveryEstimate.promotion?.discountAmount || 0,
           },
-          platformCommission: totalAmount * 0.18,
-          providerEarning: deliveryEstimate.estimatedPrice * 0.82,
-        },
-      })
+        }),
+      )
 
       // Create order items
       for (const item of validatedItems) {
@@ -835,6 +880,8 @@ export class BookingController {
         },
       })
 
+      await this.analyticsService.trackBookingEvent(booking.id, "CREATED")
+
       res.status(201).json({
         success: true,
         message: "Store delivery booking created successfully",
@@ -998,8 +1045,16 @@ export class BookingController {
 
   getBookingEstimate = async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const { serviceType, pickupLatitude, pickupLongitude, dropoffLatitude, dropoffLongitude, rideType, scheduledAt } =
-        req.body
+      const {
+        serviceType,
+        pickupLatitude,
+        pickupLongitude,
+        dropoffLatitude,
+        dropoffLongitude,
+        rideType,
+        scheduledAt,
+        promoCode,
+      } = req.body
 
       console.log("📡 Backend: Received estimate request:", {
         serviceType,
@@ -1027,6 +1082,8 @@ export class BookingController {
             dropoffLongitude,
             rideType: finalRideType,
             scheduledAt,
+            userId: req.user?.id,
+            promoCode,
           })
 
           console.log("📡 Backend: Ride estimate calculated:", estimate)
@@ -1073,11 +1130,16 @@ export class BookingController {
           console.log("📡 Backend: Day booking estimate calculated:", estimate)
           break
         case "STORE_DELIVERY":
+        case "FOOD_DELIVERY":
+        case "PACKAGE_DELIVERY":
           estimate = await this.pricingService.calculateDeliveryEstimate({
             pickupLatitude,
             pickupLongitude,
             dropoffLatitude,
             dropoffLongitude,
+            serviceType,
+            userId: req.user?.id,
+            promoCode,
           })
           break
         default:
@@ -1087,6 +1149,21 @@ export class BookingController {
           })
       }
 
+      if (req.user) {
+        await this.analyticsService.trackEvent({
+          userId: req.user.id,
+          eventType: "ESTIMATE_REQUESTED",
+          eventData: {
+            serviceType,
+            rideType,
+            estimatedPrice: estimate.estimatedPrice,
+            surgePricing: estimate.surgePricing,
+            promoCode,
+          },
+          timestamp: new Date(),
+        })
+      }
+
       console.log("📡 Backend: Sending estimate response:", {
         success: true,
         data: estimate
@@ -1159,6 +1236,13 @@ export class BookingController {
         },
       })
 
+      // Hand the promo usage back so the customer can use the code again
+      await this.promotionService.releaseRedemptions({ bookingId })
+      await this.fareSplitService.cancelForBooking(bookingId)
+
+      // Drop any pending timeouts and day booking monitors for the booking
+      await jobQueueService.cancelByPrefix(`booking:${bookingId}:`)
+
       // Update provider availability if assigned
       if (booking.providerId) {
         await this.updateProviderAvailability(booking.providerId, true)
@@ -1166,6 +1250,10 @@ export class BookingController {
 
       // Notify relevant parties
       const isCustomerCancelling = booking.customerId === userId
+      await this.analyticsService.trackBookingEvent(bookingId, "CANCELLED", {
+        cancelledBy: isCustomerCancelling ? "CUSTOMER" : "PROVIDER",
+        status: booking.status,
+      })
       if (isCustomerCancelling && booking.providerId) {
         await this.notificationService.notifyProvider(booking.providerId, {
           type: "BOOKING_CANCELLED",
@@ -1255,6 +1343,7 @@ export class BookingController {
         dropoffLongitude,
         taxiZone,
         pricingType = "METERED",
+        promoCode,
       } = req.body
 
       // Find available licensed taxi drivers
@@ -1278,35 +1367,41 @@ export class BookingController {
         dropoffLatitude,
         dropoffLongitude,
         rideType: "TAXI",
+        userId,
+        promoCode,
       })
 
       // Create taxi booking
-      const booking = await prisma.booking.create({
-        data: {
-          bookingNumber: `TAXI-${await this.generateTaxiNumber()}`,
-          customerId: userId,
-          serviceTypeId: await this.getServiceTypeId("TAXI"),
-          status: "PENDING",
-          type: "IMMEDIATE",
-          pickupLatitude,
-          pickupLongitude,
-          dropoffLatitude,
-          dropoffLongitude,
-          estimatedPrice: estimatedFare.estimatedPrice,
-          currency: "GHS",
-          serviceData: {
-            serviceType: "TAXI",
-            taxiZone,
-            pricingType,
-            regulatoryCompliance: {
-              licenseRequired: true,
-              meterRequired: pricingType === "METERED",
-              receiptRequired: true,
+      const booking = await this.createBookingWithPromotion(userId, estimatedFare.promotion, async (tx) =>
+        tx.booking.create({
+          data: {
+            bookingNumber: `TAXI-${await this.generateTaxiNumber()}`,
+            customerId: userId,
+            serviceTypeId: await this.getServiceTypeId("TAXI"),
+            status: "PENDING",
+            type: "IMMEDIATE",
+            pickupLatitude,
+            pickupLongitude,
+            dropoffLatitude,
+            dropoffLongitude,
+            estimatedPrice: estimatedFare.estimatedPrice,
+            currency: "GHS",
+            promoCode: estimatedFare.promotion?.code,
+            discountAmount: estimatedFare.promotion?.discountAmount || 0,
+            serviceData: {
+              serviceType: "TAXI",
+              taxiZone,
+              pricingType,
+              regulatoryCompliance: {
+                licenseRequired: true,
+                meterRequired: pricingType === "METERED",
+                receiptRequired: true,
+              },
+              estimatedWaitTime: Math.min(...availableTaxis.map((t) => t.estimatedArrival)),
             },
-            estimatedWaitTime: Math.min(...availableTaxis.map((t) => t.estimatedArrival)),
           },
-        },
-      })
+        }),
+      )
 
       // Dispatch to nearest taxi
       const nearestTaxi = availableTaxis[0]
@@ -1325,6 +1420,8 @@ export class BookingController {
         logger.warn("Failed to send taxi booking request webhook:", webhookError)
       }
 
+      await this.analyticsService.trackBookingEvent(booking.id, "CREATED")
+
       res.status(201).json({
         success: true,
         message: "Taxi booking created successfully",
@@ -1343,8 +1440,15 @@ export class BookingController {
   createPackageDelivery = async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user!.id
-      const { pickupAddress, dropoffAddress, packageDetails, recipientInfo, scheduledPickup, deliveryInstructions } =
-        req.body
+      const {
+        pickupAddress,
+        dropoffAddress,
+        packageDetails,
+        recipientInfo,
+        scheduledPickup,
+        deliveryInstructions,
+        promoCode,
+      } = req.body
 
       // Calculate delivery pricing using delivery estimate
       const pricing = await this.pricingService.calculateDeliveryEstimate({
@@ -1352,34 +1456,43 @@ export class BookingController {
         pickupLongitude: pickupAddress.longitude,
         dropoffLatitude: dropoffAddress.latitude,
         dropoffLongitude: dropoffAddress.longitude,
+        serviceType: "PACKAGE_DELIVERY",
+        userId,
+        promoCode,
       })
 
       // Create package delivery booking
-      const booking = await prisma.booking.create({
-        data: {
-          bookingNumber: await this.generateBookingNumber(),
-          customerId: userId,
-          serviceTypeId: await this.getServiceTypeId("PACKAGE_DELIVERY"),
-          status: "CONFIRMED",
-          type: scheduledPickup ? "SCHEDULED" : "IMMEDIATE",
-          scheduledAt: scheduledPickup ? new Date(scheduledPickup) : null,
-          pickupLatitude: pickupAddress.latitude,
-          pickupLongitude: pickupAddress.longitude,
-          dropoffLatitude: dropoffAddress.latitude,
-          dropoffLongitude: dropoffAddress.longitude,
-          estimatedPrice: pricing.estimatedPrice,
-          finalPrice: pricing.estimatedPrice,
-          currency: "GHS",
-          serviceData: {
-            packageDetails,
-            recipientInfo,
-            deliveryInstructions,
-            trackingNumber: this.generateTrackingNumber(),
-            requiresSignature: packageDetails.requiresSignature || false,
-            isFragile: packageDetails.isFragile || false,
+      const booking = await this.createBookingWithPromotion(userId, pricing.promotion, async (tx) =>
+        tx.booking.create({
+          data: {
+            bookingNumber: await this.generateBookingNumber(),
+            customerId: userId,
+            serviceTypeId: await this.getServiceTypeId("PACKAGE_DELIVERY"),
+            status: "CONFIRMED",
+            type: scheduledPickup ? "SCHEDULED" : "IMMEDIATE",
+            scheduledAt: scheduledPickup ? new Date(scheduledPickup) : null,
+            pickupLatitude: pickupAddress.latitude,
+            pickupLongitude: pickupAddress.longitude,
+            dropoffLatitude: dropoffAddress.latitude,
+            dropoffLongitude: dropoffAddress.longitude,
+            estimatedPrice: pricing.estimatedPrice,
+            finalPrice: pricing.estimatedPrice,
+            currency: "GHS",
+            promoCode: pricing.promotion?.code,
+            discountAmount: pricing.promotion?.discountAmount || 0,
+            serviceData: {
+              packageDetails,
+              recipientInfo,
+              deliveryInstructions,
+              trackingNumber: this.generateTrackingNumber(),
+              requiresSignature: packageDetails.requiresSignature || false,
+              isFragile: packageDetails.isFragile || false,
+            },
           },
-        },
-      })
+        }),
+      )
+
+      await this.analyticsService.trackBookingEvent(booking.id, "CREATED")
 
       res.status(201).json({
         success: true,
@@ -1399,7 +1512,7 @@ export class BookingController {
   createFoodDelivery = async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user!.id
-      const { restaurantId, deliveryAddress, orderItems, deliveryInstructions, paymentMethodId } = req.body
+      const { restaurantId, deliveryAddress, orderItems, deliveryInstructions, paymentMethodId, promoCode } = req.body
 
       // Get restaurant information from store (assuming restaurants are stores)
       const restaurant = await prisma.store.findUnique({
@@ -1419,7 +1532,7 @@ export class BookingController {
 
       // Validate and calculate order total
       let orderTotal = 0
-      const validatedItems = []
+      const validatedItems: any[] = []
 
       for (const item of orderItems) {
         const menuItem = restaurant.products.find((mi: any) => mi.id === item.menuItemId)
@@ -1448,36 +1561,43 @@ export class BookingController {
         pickupLongitude: restaurant.location!.longitude,
         dropoffLatitude: deliveryAddress.latitude,
         dropoffLongitude: deliveryAddress.longitude,
+        serviceType: "FOOD_DELIVERY",
+        userId,
+        promoCode,
       })
 
       const totalAmount = orderTotal + deliveryEstimate.estimatedPrice
 
       // Create food delivery booking
-      const booking = await prisma.booking.create({
-        data: {
-          bookingNumber: await this.generateBookingNumber(),
-          customerId: userId,
-          serviceTypeId: await this.getServiceTypeId("FOOD_DELIVERY"),
-          status: "CONFIRMED",
-          type: "IMMEDIATE",
-          pickupLatitude: restaurant.location!.latitude,
-          pickupLongitude: restaurant.location!.longitude,
-          dropoffLatitude: deliveryAddress.latitude,
-          dropoffLongitude: deliveryAddress.longitude,
-          estimatedPrice: totalAmount,
-          finalPrice: totalAmount,
-          currency: "GHS",
-          serviceData: {
-            restaurantId,
-            restaurantName: restaurant.name,
-            orderItems: validatedItems,
-            deliveryInstructions,
-            orderTotal,
-            deliveryFee: deliveryEstimate.estimatedPrice,
-            preparationTime: 25,
+      const booking = await this.createBookingWithPromotion(userId, deliveryEstimate.promotion, async (tx) =>
+        tx.booking.create({
+          data: {
+            bookingNumber: await this.generateBookingNumber(),
+            customerId: userId,
+            serviceTypeId: await this.getServiceTypeId("FOOD_DELIVERY"),
+            status: "CONFIRMED",
+            type: "IMMEDIATE",
+            pickupLatitude: restaurant.location!.latitude,
+            pickupLongitude: restaurant.location!.longitude,
+            dropoffLatitude: deliveryAddress.latitude,
+            dropoffLongitude: deliveryAddress.longitude,
+            estimatedPrice: totalAmount,
+            finalPrice: totalAmount,
+            currency: "GHS",
+            serviceData: {
+              restaurantId,
+              restaurantName: restaurant.name,
+              orderItems: validatedItems,
+              deliveryInstructions,
+              orderTotal,
+              deliveryFee: deliveryEstimate.estimatedPrice,
+              preparationTime: 25,
+            },
+            promoCode: deliveryEstimate.promotion?.code,
+            discountAmount: deliveryEstimate.promotion?.discountAmount || 0,
           },
-        },
-      })
+        }),
+      )
 
       // Create order items
       for (const item of validatedItems) {
@@ -1505,6 +1625,8 @@ export class BookingController {
         },
       })
 
+      await this.analyticsService.trackBookingEvent(booking.id, "CREATED")
+
       res.status(201).json({
         success: true,
         message: "Food delivery booking created successfully",
@@ -1582,6 +1704,8 @@ export class BookingController {
         },
       })
 
+      await this.analyticsService.trackBookingEvent(booking.id, "CREATED")
+
       res.status(201).json({
         success: true,
         message: "House moving booking created successfully",
@@ -1598,6 +1722,27 @@ export class BookingController {
   }
 
   // Helper methods
+
+  /**
+   * Creates the booking and its promo redemption together, so hitting a usage cap at the
+   * last moment does not leave a discounted booking behind.
+   */
+  private async createBookingWithPromotion<T extends { id: string }>(
+    userId: string,
+    promotion: PromoQuote | undefined,
+    createBooking: (tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T> {
+    if (!promotion) {
+      return createBooking(prisma)
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const booking = await createBooking(tx)
+      await this.promotionService.redeemPromoCode(promotion, { userId, bookingId: booking.id }, tx)
+      return booking
+    })
+  }
+
   private async generateBookingNumber(): Promise<string> {
     const timestamp = Date.now().toString().slice(-6)
     const random = Math.random().toString(36).substring(2, 5).toUpperCase()
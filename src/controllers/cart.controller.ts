@@ -213,7 +213,7 @@ export class CartController {
   checkoutFromCart = async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user!.id
-      const { deliveryAddress, paymentMethodId, specialInstructions } = req.body
+      const { deliveryAddress, paymentMethodId, specialInstructions, promoCode } = req.body
 
       // Validate cart first
       const validation = await this.cartService.validateCartForCheckout(userId)
@@ -229,7 +229,8 @@ export class CartController {
       const orderData = await this.cartService.convertCartToOrder(userId, {
         deliveryAddress,
         paymentMethodId,
-        specialInstructions
+        specialInstructions,
+        promoCode
       })
 
       res.json({
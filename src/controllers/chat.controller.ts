@@ -0,0 +1,195 @@
+import type { Response } from "express"
+import type { ChatMessage } from "@prisma/client"
+import type { AuthenticatedRequest } from "../types"
+import { ChatService, type ChatTarget } from "../services/chat.service"
+import logger from "../utils/logger"
+
+export class ChatController {
+  private chatService = new ChatService()
+
+  getMessages = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { page = 1, limit = 50 } = req.query
+
+      const result = await this.chatService.getHistory(req.user!.id, this.getTarget(req), {
+        page: Number(page),
+        limit: Math.min(Number(limit), 100),
+      })
+
+      res.json({
+        success: true,
+        message: "Chat history retrieved successfully",
+        data: { messages: result.messages, unreadCount: result.unreadCount },
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("Get chat history error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to retrieve chat history",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  sendMessage = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const message = await this.chatService.sendMessage(req.user!.id, this.getTarget(req), req.body)
+      await this.broadcast(message)
+
+      res.status(201).json({
+        success: true,
+        message: "Message sent successfully",
+        data: this.chatService.serializeMessage(message),
+      })
+    } catch (error) {
+      logger.error("Send chat message error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to send message",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  sendAttachment = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          message: "An image or voice note file is required",
+        })
+      }
+
+      const message = await this.chatService.sendAttachment(req.user!.id, this.getTarget(req), req.file, {
+        caption: req.body.caption,
+        duration: req.body.duration ? Number(req.body.duration) : undefined,
+      })
+      await this.broadcast(message)
+
+      res.status(201).json({
+        success: true,
+        message: "Attachment sent successfully",
+        data: this.chatService.serializeMessage(message),
+      })
+    } catch (error) {
+      logger.error("Send chat attachment error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to send attachment",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  markRead = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const target = this.getTarget(req)
+      const result = await this.chatService.markConversationRead(req.user!.id, target)
+
+      try {
+        const { io } = await import("../server")
+        io.broadcastChatRead(target, { readerId: req.user!.id, messageIds: result.messageIds, readAt: result.readAt })
+      } catch (error) {
+        logger.warn("Failed to broadcast chat read receipt:", error)
+      }
+
+      res.json({
+        success: true,
+        message: "Messages marked as read",
+        data: { messageIds: result.messageIds, readAt: result.readAt },
+      })
+    } catch (error) {
+      logger.error("Mark chat read error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to mark messages as read",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  reportChat = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const ticket = await this.chatService.reportConversation(req.user!.id, this.getTarget(req), req.body)
+
+      res.status(201).json({
+        success: true,
+        message: "Chat reported. Our support team will review it.",
+        data: { ticketId: ticket.id },
+      })
+    } catch (error) {
+      logger.error("Report chat error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to report chat",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getTicketChat = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await this.chatService.getTicketChat(req.params.ticketId)
+
+      res.json({
+        success: true,
+        message: "Ticket chat retrieved successfully",
+        data: result,
+      })
+    } catch (error) {
+      logger.error("Get ticket chat error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to retrieve ticket chat",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  hideMessage = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const message = await this.chatService.hideMessage(req.params.id, req.user!.id, req.body.reason)
+
+      try {
+        const { io } = await import("../server")
+        await io.emitToRoom(
+          this.chatService.getRoom({
+            bookingId: message.bookingId || undefined,
+            deliveryId: message.deliveryId || undefined,
+          }),
+          "chat:message_hidden",
+          this.chatService.serializeMessage(message),
+        )
+      } catch (error) {
+        logger.warn("Failed to broadcast hidden chat message:", error)
+      }
+
+      res.json({
+        success: true,
+        message: "Message hidden successfully",
+        data: message,
+      })
+    } catch (error) {
+      logger.error("Hide chat message error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to hide message",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  private getTarget(req: AuthenticatedRequest): ChatTarget {
+    return req.params.deliveryId ? { deliveryId: req.params.deliveryId } : { bookingId: req.params.bookingId }
+  }
+
+  private async broadcast(message: ChatMessage) {
+    try {
+      const { io } = await import("../server")
+      await io.broadcastChatMessage(message)
+    } catch (error) {
+      logger.warn("Failed to broadcast chat message:", error)
+    }
+  }
+}
@@ -0,0 +1,368 @@
+import type { Response } from "express"
+import type { BookingStatus } from "@prisma/client"
+import type { AuthenticatedRequest } from "../types"
+import { CorporateService } from "../services/corporate.service"
+import logger from "../utils/logger"
+
+export class CorporateController {
+  private corporateService = new CorporateService()
+
+  // Employees
+  getMyMemberships = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const memberships = await this.corporateService.getMyMemberships(req.user!.id)
+
+      res.json({
+        success: true,
+        message: "Company accounts retrieved successfully",
+        data: memberships,
+      })
+    } catch (error) {
+      logger.error("Get corporate memberships error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve company accounts",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  // Company admins
+  getAccount = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const account = await this.corporateService.getAccount(req.user!.id, req.params.accountId)
+
+      res.json({
+        success: true,
+        message: "Company account retrieved successfully",
+        data: account,
+      })
+    } catch (error) {
+      logger.error("Get corporate account error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to retrieve company account",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  listMembers = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const members = await this.corporateService.listMembers(req.user!.id, req.params.accountId)
+
+      res.json({
+        success: true,
+        message: "Members retrieved successfully",
+        data: members,
+      })
+    } catch (error) {
+      logger.error("List corporate members error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to retrieve members",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  addMember = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const member = await this.corporateService.addMember(req.user!.id, req.params.accountId, req.body)
+
+      res.status(201).json({
+        success: true,
+        message: "Employee added to the company account",
+        data: member,
+      })
+    } catch (error) {
+      logger.error("Add corporate member error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to add employee",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  updateMember = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const member = await this.corporateService.updateMember(
+        req.user!.id,
+        req.params.accountId,
+        req.params.memberId,
+        req.body,
+      )
+
+      res.json({
+        success: true,
+        message: "Member updated successfully",
+        data: member,
+      })
+    } catch (error) {
+      logger.error("Update corporate member error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to update member",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  listPolicies = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const policies = await this.corporateService.listPolicies(req.user!.id, req.params.accountId)
+
+      res.json({
+        success: true,
+        message: "Policies retrieved successfully",
+        data: policies,
+      })
+    } catch (error) {
+      logger.error("List corporate policies error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to retrieve policies",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  createPolicy = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const policy = await this.corporateService.createPolicy(req.user!.id, req.params.accountId, req.body)
+
+      res.status(201).json({
+        success: true,
+        message: "Policy created successfully",
+        data: policy,
+      })
+    } catch (error) {
+      logger.error("Create corporate policy error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to create policy",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  updatePolicy = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const policy = await this.corporateService.updatePolicy(
+        req.user!.id,
+        req.params.accountId,
+        req.params.policyId,
+        req.body,
+      )
+
+      res.json({
+        success: true,
+        message: "Policy updated successfully",
+        data: policy,
+      })
+    } catch (error) {
+      logger.error("Update corporate policy error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to update policy",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  listCostCenters = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const costCenters = await this.corporateService.listCostCenters(req.user!.id, req.params.accountId)
+
+      res.json({
+        success: true,
+        message: "Cost centres retrieved successfully",
+        data: costCenters,
+      })
+    } catch (error) {
+      logger.error("List cost centres error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to retrieve cost centres",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  createCostCenter = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const costCenter = await this.corporateService.createCostCenter(req.user!.id, req.params.accountId, req.body)
+
+      res.status(201).json({
+        success: true,
+        message: "Cost centre created successfully",
+        data: costCenter,
+      })
+    } catch (error) {
+      logger.error("Create cost centre error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to create cost centre",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  updateCostCenter = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const costCenter = await this.corporateService.updateCostCenter(
+        req.user!.id,
+        req.params.accountId,
+        req.params.costCenterId,
+        req.body,
+      )
+
+      res.json({
+        success: true,
+        message: "Cost centre updated successfully",
+        data: costCenter,
+      })
+    } catch (error) {
+      logger.error("Update cost centre error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to update cost centre",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  listTrips = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { page = 1, limit = 20, memberId, costCenterId, status, from, to } = req.query
+
+      const result = await this.corporateService.listTrips(req.user!.id, req.params.accountId, {
+        page: Number(page),
+        limit: Number(limit),
+        memberId: memberId as string | undefined,
+        costCenterId: costCenterId as string | undefined,
+        status: status as BookingStatus | undefined,
+        from: from ? new Date(from as string) : undefined,
+        to: to ? new Date(to as string) : undefined,
+      })
+
+      res.json({
+        success: true,
+        message: "Employee trips retrieved successfully",
+        data: { trips: result.trips, totalSpend: result.totalSpend },
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("List corporate trips error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to retrieve employee trips",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  listInvoices = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const invoices = await this.corporateService.listInvoices(req.user!.id, req.params.accountId)
+
+      res.json({
+        success: true,
+        message: "Invoices retrieved successfully",
+        data: invoices,
+      })
+    } catch (error) {
+      logger.error("List corporate invoices error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to retrieve invoices",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getInvoice = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const invoice = await this.corporateService.getInvoice(req.user!.id, req.params.accountId, req.params.invoiceId)
+
+      res.json({
+        success: true,
+        message: "Invoice retrieved successfully",
+        data: invoice,
+      })
+    } catch (error) {
+      logger.error("Get corporate invoice error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to retrieve invoice",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  // Admin
+  createAccount = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const account = await this.corporateService.createAccount(req.user!.id, req.body)
+
+      res.status(201).json({
+        success: true,
+        message: "Company account created successfully",
+        data: account,
+      })
+    } catch (error) {
+      logger.error("Create corporate account error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to create company account",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  listAccounts = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { page = 1, limit = 20 } = req.query
+
+      const result = await this.corporateService.listAccounts({ page: Number(page), limit: Number(limit) })
+
+      res.json({
+        success: true,
+        message: "Company accounts retrieved successfully",
+        data: result.accounts,
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("List corporate accounts error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve company accounts",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  markInvoicePaid = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const invoice = await this.corporateService.markInvoicePaid(
+        req.user!.id,
+        req.params.invoiceId,
+        req.body.paymentReference,
+      )
+
+      res.json({
+        success: true,
+        message: "Invoice marked as paid",
+        data: invoice,
+      })
+    } catch (error) {
+      logger.error("Mark corporate invoice paid error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to mark invoice as paid",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+}
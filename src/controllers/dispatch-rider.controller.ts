@@ -2,6 +2,7 @@ import type { Response } from "express"
 import type { AuthenticatedRequest } from "../types"
 import { DispatchRiderService } from "../services/dispatch-rider.service"
 import { FileUploadService } from "../services/file-upload.service"
+import { DocumentAccessService } from "../services/document-access.service"
 import { WebhookService } from "../services/webhook.service"
 import logger from "../utils/logger"
 
@@ -9,6 +10,7 @@ export class DispatchRiderController {
   private dispatchRiderService = new DispatchRiderService()
   private fileUploadService = new FileUploadService()
   private webhookService = new WebhookService()
+  private documentAccessService = new DocumentAccessService()
 
   async onboardDispatchRider(req: AuthenticatedRequest, res: Response) {
     try {
@@ -265,6 +267,43 @@ export class DispatchRiderController {
     }
   }
 
+  getDocumentUrl = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const link = await this.documentAccessService.getDocumentUrl(req.user!, "dispatch-rider", req.params.id)
+
+      res.json({
+        success: true,
+        message: "Document link created",
+        data: link,
+      })
+    } catch (error) {
+      logger.error("Get delivery document URL error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to get document link",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  deleteDocument = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      await this.documentAccessService.deleteDocument(req.user!.id, "dispatch-rider", req.params.id)
+
+      res.json({
+        success: true,
+        message: "Document deleted successfully",
+      })
+    } catch (error) {
+      logger.error("Delete delivery document error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to delete document",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
   async updateAvailability(req: AuthenticatedRequest, res: Response) {
     try {
       console.log("=== UPDATE DISPATCH AVAILABILITY REQUEST ===")
@@ -5,7 +5,9 @@ import { DriverService } from "../services/driver.service"
 import { LocationService } from "../services/location.service"
 import { NotificationService } from "../services/notification.service"
 import { FileUploadService } from "../services/file-upload.service"
+import { DocumentAccessService } from "../services/document-access.service"
 import { ServiceZoneService } from "../services/service-zone.service"
+import { GEO_INDEXES, geoIndexService } from "../services/geo-index.service"
 import logger from "../utils/logger"
 import bcrypt from "bcryptjs"
 import { ServiceCategory, ServiceZoneType } from "@prisma/client"
@@ -16,6 +18,7 @@ export class DriverController {
   private notificationService = new NotificationService()
   private fileUploadService = new FileUploadService()
   private serviceZoneService = new ServiceZoneService()
+  private documentAccessService = new DocumentAccessService()
 
   onboardDriver = async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -950,6 +953,7 @@ export class DriverController {
           heading,
         },
       })
+      await geoIndexService.updatePosition(GEO_INDEXES.DRIVERS, userId, latitude, longitude)
 
       // Warn if driver is in unauthorized zone
       if (detectedZone && !isAuthorizedInZone && zoneChanged) {
@@ -1850,6 +1854,43 @@ export class DriverController {
     }
   }
 
+  getDocumentUrl = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const link = await this.documentAccessService.getDocumentUrl(req.user!, "driver", req.params.id)
+
+      res.json({
+        success: true,
+        message: "Document link created",
+        data: link,
+      })
+    } catch (error) {
+      logger.error("Get document URL error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to get document link",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  deleteDocument = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      await this.documentAccessService.deleteDocument(req.user!.id, "driver", req.params.id)
+
+      res.json({
+        success: true,
+        message: "Document deleted successfully",
+      })
+    } catch (error) {
+      logger.error("Delete document error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to delete document",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
   // Zone Management Methods
   getServiceZones = async (req: AuthenticatedRequest, res: Response) => {
     try {
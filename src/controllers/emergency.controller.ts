@@ -1,15 +1,17 @@
-import type { Response } from "express"
+import type { Request, Response } from "express"
 import type { AuthenticatedRequest } from "../types"
 import prisma from "../config/database"
 import { EmergencyService } from "../services/emergency.service"
 import { LocationService } from "../services/location.service"
 import { NotificationService } from "../services/notification.service"
+import { TripShareService } from "../services/trip-share.service"
 import logger from "../utils/logger"
 
 export class EmergencyController {
   private emergencyService = new EmergencyService()
   private locationService = new LocationService()
   private notificationService = new NotificationService()
+  private tripShareService = new TripShareService()
 
   createEmergencyBooking = async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -150,6 +152,25 @@ export class EmergencyController {
     }
   }
 
+  getDispatchTimeline = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const timeline = await this.emergencyService.getDispatchTimeline(req.params.id, req.user!.id, req.user!.role)
+
+      res.json({
+        success: true,
+        message: "Dispatch timeline retrieved successfully",
+        data: timeline,
+      })
+    } catch (error) {
+      logger.error("Get dispatch timeline error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to retrieve dispatch timeline",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
   completeEmergencyCall = async (req: AuthenticatedRequest, res: Response) => {
     try {
       const bookingId = req.params.id
@@ -801,4 +822,42 @@ export class EmergencyController {
       })
     }
   }
-}
\ No newline at end of file
+
+  raiseRideSos = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await this.tripShareService.raiseRideSos(req.user!.id, req.params.bookingId, req.body)
+
+      res.status(201).json({
+        success: true,
+        message: `SOS raised. Live trip link shared with ${result.contactsNotified} emergency contacts`,
+        data: result,
+      })
+    } catch (error) {
+      logger.error("Raise ride SOS error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to raise SOS",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getSharedTrip = async (req: Request, res: Response) => {
+    try {
+      const trip = await this.tripShareService.getSharedTrip(req.params.token)
+
+      res.json({
+        success: true,
+        message: "Shared trip retrieved successfully",
+        data: trip,
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error"
+      res.status(message === "This trip link has expired" ? 410 : 404).json({
+        success: false,
+        message: "Failed to retrieve shared trip",
+        error: message,
+      })
+    }
+  }
+}
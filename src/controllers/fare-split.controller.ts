@@ -0,0 +1,109 @@
+import type { Response } from "express"
+import type { AuthenticatedRequest } from "../types"
+import { FareSplitService } from "../services/fare-split.service"
+import logger from "../utils/logger"
+
+export class FareSplitController {
+  private fareSplitService = new FareSplitService()
+
+  // Booking owners
+  inviteCoRider = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const split = await this.fareSplitService.inviteCoRider(req.user!.id, req.params.bookingId, req.body)
+
+      res.status(201).json({
+        success: true,
+        message: "Co-rider invited to split the fare",
+        data: split,
+      })
+    } catch (error) {
+      logger.error("Invite co-rider error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to invite co-rider",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getBookingSplits = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const splits = await this.fareSplitService.getBookingSplits(req.user!.id, req.params.bookingId)
+
+      res.json({
+        success: true,
+        message: "Fare splits retrieved successfully",
+        data: splits,
+      })
+    } catch (error) {
+      logger.error("Get fare splits error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to retrieve fare splits",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  cancelInvitation = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const split = await this.fareSplitService.cancelInvitation(
+        req.user!.id,
+        req.params.bookingId,
+        req.params.splitId,
+      )
+
+      res.json({
+        success: true,
+        message: "Fare split cancelled",
+        data: split,
+      })
+    } catch (error) {
+      logger.error("Cancel fare split error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to cancel fare split",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  // Co-riders
+  getMyInvitations = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const invitations = await this.fareSplitService.getMyInvitations(req.user!.id)
+
+      res.json({
+        success: true,
+        message: "Fare split invitations retrieved successfully",
+        data: invitations,
+      })
+    } catch (error) {
+      logger.error("Get fare split invitations error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve fare split invitations",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  respond = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const split = await this.fareSplitService.respond(req.user!.id, req.params.splitId, req.body)
+
+      res.json({
+        success: true,
+        message: req.body.accept ? "You will pay your share when the trip ends" : "Fare split declined",
+        data: split,
+      })
+    } catch (error) {
+      logger.error("Respond to fare split error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to respond to fare split",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+}
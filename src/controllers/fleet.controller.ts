@@ -0,0 +1,462 @@
+import type { Response } from "express"
+import type { FleetDriverStatus, FleetShiftStatus, VerificationStatus } from "@prisma/client"
+import type { AuthenticatedRequest } from "../types"
+import { FleetService } from "../services/fleet.service"
+import { DriverService } from "../services/driver.service"
+import logger from "../utils/logger"
+
+export class FleetController {
+  private fleetService = new FleetService()
+  private driverService = new DriverService()
+
+  // Fleet operator
+  registerFleet = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const fleet = await this.fleetService.registerFleet(req.user!.id, req.body)
+
+      res.status(201).json({
+        success: true,
+        message: "Fleet registered and awaiting verification",
+        data: fleet,
+      })
+    } catch (error) {
+      logger.error("Register fleet error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to register fleet",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getMyFleet = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const fleet = await this.fleetService.getFleet(req.user!.id)
+
+      res.json({
+        success: true,
+        message: "Fleet retrieved successfully",
+        data: fleet,
+      })
+    } catch (error) {
+      logger.error("Get fleet error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to retrieve fleet",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  updateFleet = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const fleet = await this.fleetService.updateFleet(req.user!.id, req.body)
+
+      res.json({
+        success: true,
+        message: "Fleet updated successfully",
+        data: fleet,
+      })
+    } catch (error) {
+      logger.error("Update fleet error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to update fleet",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getDrivers = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const drivers = await this.fleetService.getDrivers(
+        req.user!.id,
+        req.query.status as FleetDriverStatus | undefined,
+      )
+
+      res.json({
+        success: true,
+        message: "Fleet drivers retrieved successfully",
+        data: drivers,
+      })
+    } catch (error) {
+      logger.error("Get fleet drivers error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve fleet drivers",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  inviteDriver = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const membership = await this.fleetService.inviteDriver(req.user!.id, req.body)
+
+      res.status(201).json({
+        success: true,
+        message: "Driver invited to the fleet",
+        data: membership,
+      })
+    } catch (error) {
+      logger.error("Invite fleet driver error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to invite driver",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  updateDriver = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const membership = await this.fleetService.updateDriver(req.user!.id, req.params.driverId, req.body)
+
+      res.json({
+        success: true,
+        message: "Driver earnings split updated",
+        data: membership,
+      })
+    } catch (error) {
+      logger.error("Update fleet driver error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to update driver",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  removeDriver = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await this.fleetService.removeDriver(req.user!.id, req.params.driverId)
+
+      res.json({
+        success: true,
+        message: "Driver removed from the fleet",
+        data: result,
+      })
+    } catch (error) {
+      logger.error("Remove fleet driver error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to remove driver",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getVehicles = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const vehicles = await this.fleetService.getVehicles(req.user!.id)
+
+      res.json({
+        success: true,
+        message: "Fleet vehicles retrieved successfully",
+        data: vehicles,
+      })
+    } catch (error) {
+      logger.error("Get fleet vehicles error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve fleet vehicles",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  addVehicle = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const vehicle = await this.fleetService.addVehicle(req.user!.id, req.body)
+
+      res.status(201).json({
+        success: true,
+        message: "Vehicle added to the fleet",
+        data: vehicle,
+      })
+    } catch (error) {
+      logger.error("Add fleet vehicle error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to add vehicle",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  deactivateVehicle = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const vehicle = await this.fleetService.deactivateVehicle(req.user!.id, req.params.vehicleId)
+
+      res.json({
+        success: true,
+        message: "Vehicle deactivated",
+        data: vehicle,
+      })
+    } catch (error) {
+      logger.error("Deactivate fleet vehicle error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to deactivate vehicle",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getShifts = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { from, to, vehicleId, driverId, status } = req.query
+
+      const shifts = await this.fleetService.getShifts(req.user!.id, {
+        from: from ? new Date(from as string) : undefined,
+        to: to ? new Date(to as string) : undefined,
+        vehicleId: vehicleId as string | undefined,
+        driverId: driverId as string | undefined,
+        status: status as FleetShiftStatus | undefined,
+      })
+
+      res.json({
+        success: true,
+        message: "Fleet shifts retrieved successfully",
+        data: shifts,
+      })
+    } catch (error) {
+      logger.error("Get fleet shifts error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve fleet shifts",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  createShift = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const shift = await this.fleetService.createShift(req.user!.id, req.body)
+
+      res.status(201).json({
+        success: true,
+        message: "Shift scheduled successfully",
+        data: shift,
+      })
+    } catch (error) {
+      logger.error("Create fleet shift error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to schedule shift",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  cancelShift = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const shift = await this.fleetService.cancelShift(req.user!.id, req.params.shiftId)
+
+      res.json({
+        success: true,
+        message: "Shift cancelled",
+        data: shift,
+      })
+    } catch (error) {
+      logger.error("Cancel fleet shift error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to cancel shift",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getEarnings = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { period = "week", startDate, endDate } = req.query
+      const fleet = await this.fleetService.getFleetForOwner(req.user!.id)
+
+      const earnings = await this.driverService.getFleetEarnings(fleet.id, {
+        period: period as string,
+        startDate: startDate as string,
+        endDate: endDate as string,
+      })
+
+      res.json({
+        success: true,
+        message: "Fleet earnings retrieved successfully",
+        data: earnings,
+      })
+    } catch (error) {
+      logger.error("Get fleet earnings error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve fleet earnings",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getAnalytics = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const fleet = await this.fleetService.getFleetForOwner(req.user!.id)
+      const analytics = await this.driverService.getFleetAnalytics(fleet.id)
+
+      res.json({
+        success: true,
+        message: "Fleet analytics retrieved successfully",
+        data: analytics,
+      })
+    } catch (error) {
+      logger.error("Get fleet analytics error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve fleet analytics",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  // Fleet drivers
+  getDriverFleet = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const fleet = await this.fleetService.getDriverFleet(req.user!.id)
+
+      res.json({
+        success: true,
+        message: "Fleet membership retrieved successfully",
+        data: fleet,
+      })
+    } catch (error) {
+      logger.error("Get driver fleet error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve fleet membership",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  respondToInvitation = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const membership = await this.fleetService.respondToInvitation(
+        req.user!.id,
+        req.params.membershipId,
+        req.body.accept,
+      )
+
+      res.json({
+        success: true,
+        message: req.body.accept ? "You have joined the fleet" : "Invitation declined",
+        data: membership,
+      })
+    } catch (error) {
+      logger.error("Respond to fleet invitation error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to respond to invitation",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  leaveFleet = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await this.fleetService.leaveFleet(req.user!.id)
+
+      res.json({
+        success: true,
+        message: "You have left the fleet",
+        data: result,
+      })
+    } catch (error) {
+      logger.error("Leave fleet error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to leave fleet",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  startShift = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const shift = await this.fleetService.startShift(req.user!.id, req.params.shiftId)
+
+      res.json({
+        success: true,
+        message: "Shift started",
+        data: shift,
+      })
+    } catch (error) {
+      logger.error("Start fleet shift error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to start shift",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  endShift = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const shift = await this.fleetService.endShift(req.user!.id, req.params.shiftId)
+
+      res.json({
+        success: true,
+        message: "Shift ended",
+        data: shift,
+      })
+    } catch (error) {
+      logger.error("End fleet shift error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to end shift",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  // Admin
+  getAllFleets = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { page = 1, limit = 20, verificationStatus } = req.query
+
+      const result = await this.fleetService.getAllFleets({
+        page: Number(page),
+        limit: Number(limit),
+        verificationStatus: verificationStatus as VerificationStatus | undefined,
+      })
+
+      res.json({
+        success: true,
+        message: "Fleets retrieved successfully",
+        data: result.fleets,
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("Get all fleets error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve fleets",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  verifyFleet = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const fleet = await this.fleetService.verifyFleet(req.user!.id, req.params.id, req.body.status, req.body.reason)
+
+      res.json({
+        success: true,
+        message: "Fleet verification updated",
+        data: fleet,
+      })
+    } catch (error) {
+      logger.error("Verify fleet error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to update fleet verification",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import type { Response } from "express"
+import type { LoyaltyTransactionType } from "@prisma/client"
+import type { AuthenticatedRequest } from "../types"
+import { LoyaltyService } from "../services/loyalty.service"
+import logger from "../utils/logger"
+
+export class LoyaltyController {
+  private loyaltyService = new LoyaltyService()
+
+  getStatus = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const status = await this.loyaltyService.getLoyaltyStatus(req.user!.id)
+
+      res.json({
+        success: true,
+        message: "Loyalty status retrieved successfully",
+        data: status,
+      })
+    } catch (error) {
+      logger.error("Get loyalty status error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve loyalty status",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getHistory = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { page = 1, limit = 20, type } = req.query
+
+      const result = await this.loyaltyService.getPointsHistory(req.user!.id, {
+        page: Number(page),
+        limit: Number(limit),
+        type: type as LoyaltyTransactionType | undefined,
+      })
+
+      res.json({
+        success: true,
+        message: "Points history retrieved successfully",
+        data: result.transactions,
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("Get points history error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve points history",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getRewards = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const [catalog, available] = await Promise.all([
+        this.loyaltyService.getRewardCatalog(),
+        this.loyaltyService.getAvailableRewards(req.user!.id),
+      ])
+      const availableIds = new Set(available.map((reward) => reward.id))
+
+      res.json({
+        success: true,
+        message: "Reward catalog retrieved successfully",
+        data: catalog.map((reward) => ({ ...reward, canRedeem: availableIds.has(reward.id) })),
+      })
+    } catch (error) {
+      logger.error("Get reward catalog error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve reward catalog",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  redeemReward = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await this.loyaltyService.redeemReward(req.user!.id, req.params.id)
+
+      res.json({
+        success: true,
+        message: "Reward redeemed successfully",
+        data: result,
+      })
+    } catch (error) {
+      logger.error("Redeem reward error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to redeem reward",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getRedemptions = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { page = 1, limit = 20, status } = req.query
+
+      const result = await this.loyaltyService.getRedemptions(req.user!.id, {
+        page: Number(page),
+        limit: Number(limit),
+        status: status as string | undefined,
+      })
+
+      res.json({
+        success: true,
+        message: "Reward redemptions retrieved successfully",
+        data: result.redemptions,
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("Get reward redemptions error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve reward redemptions",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getAllRewards = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const rewards = await this.loyaltyService.getRewardCatalog({ includeInactive: true })
+
+      res.json({
+        success: true,
+        message: "Loyalty rewards retrieved successfully",
+        data: rewards,
+      })
+    } catch (error) {
+      logger.error("Get loyalty rewards error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve loyalty rewards",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  createReward = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const reward = await this.loyaltyService.createReward(req.body)
+
+      res.status(201).json({
+        success: true,
+        message: "Loyalty reward created successfully",
+        data: reward,
+      })
+    } catch (error) {
+      logger.error("Create loyalty reward error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to create loyalty reward",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  updateReward = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const reward = await this.loyaltyService.updateReward(req.params.id, req.body)
+
+      res.json({
+        success: true,
+        message: "Loyalty reward updated successfully",
+        data: reward,
+      })
+    } catch (error) {
+      logger.error("Update loyalty reward error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to update loyalty reward",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getAnalytics = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { from, to } = req.query
+      const dateRange = from && to ? { from: new Date(from as string), to: new Date(to as string) } : undefined
+
+      const analytics = await this.loyaltyService.getLoyaltyAnalytics(dateRange)
+
+      res.json({
+        success: true,
+        message: "Loyalty analytics retrieved successfully",
+        data: analytics,
+      })
+    } catch (error) {
+      logger.error("Get loyalty analytics error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve loyalty analytics",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import type { Response } from "express"
+import type { ScheduledNotificationStatus } from "@prisma/client"
+import type { AuthenticatedRequest } from "../types"
+import { NotificationService } from "../services/notification.service"
+import { ScheduledNotificationService } from "../services/scheduled-notification.service"
+import logger from "../utils/logger"
+
+export class NotificationController {
+  private notificationService = new NotificationService()
+  private scheduledNotificationService = new ScheduledNotificationService()
+
+  getNotifications = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { page = 1, limit = 20, unreadOnly } = req.query
+
+      const result = await this.notificationService.getUserNotifications(req.user!.id, {
+        page: Number(page),
+        limit: Number(limit),
+        unreadOnly: unreadOnly === "true",
+      })
+
+      res.json({
+        success: true,
+        message: "Notifications retrieved successfully",
+        data: result.notifications,
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("Get notifications error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve notifications",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  markAsRead = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await this.notificationService.markAsRead(req.params.id, req.user!.id)
+      if (result.count === 0) {
+        throw new Error("Notification not found")
+      }
+
+      res.json({
+        success: true,
+        message: "Notification marked as read",
+      })
+    } catch (error) {
+      logger.error("Mark notification as read error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to mark notification as read",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  // Scheduled and campaign notifications
+  getScheduledNotifications = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { status, page = 1, limit = 20 } = req.query
+
+      const result = await this.scheduledNotificationService.listScheduledNotifications({
+        status: status as ScheduledNotificationStatus | undefined,
+        page: Number(page),
+        limit: Number(limit),
+      })
+
+      res.json({
+        success: true,
+        message: "Scheduled notifications retrieved successfully",
+        data: result.scheduledNotifications,
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("Get scheduled notifications error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve scheduled notifications",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getScheduledNotification = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const scheduled = await this.scheduledNotificationService.getScheduledNotification(req.params.id)
+
+      res.json({
+        success: true,
+        message: "Scheduled notification retrieved successfully",
+        data: scheduled,
+      })
+    } catch (error) {
+      logger.error("Get scheduled notification error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to retrieve scheduled notification",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  createScheduledNotification = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const scheduled = await this.scheduledNotificationService.createScheduledNotification(req.body, req.user!.id)
+
+      res.status(201).json({
+        success: true,
+        message: "Notification scheduled successfully",
+        data: scheduled,
+      })
+    } catch (error) {
+      logger.error("Create scheduled notification error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to schedule notification",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  updateScheduledNotification = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const scheduled = await this.scheduledNotificationService.updateScheduledNotification(
+        req.params.id,
+        req.body,
+        req.user!.id,
+      )
+
+      res.json({
+        success: true,
+        message: "Scheduled notification updated successfully",
+        data: scheduled,
+      })
+    } catch (error) {
+      logger.error("Update scheduled notification error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to update scheduled notification",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  cancelScheduledNotification = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const scheduled = await this.scheduledNotificationService.cancelScheduledNotification(req.params.id, req.user!.id)
+
+      res.json({
+        success: true,
+        message: "Scheduled notification cancelled",
+        data: scheduled,
+      })
+    } catch (error) {
+      logger.error("Cancel scheduled notification error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to cancel scheduled notification",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  previewSegment = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const preview = await this.scheduledNotificationService.previewSegment(req.body.segment)
+
+      res.json({
+        success: true,
+        message: "Segment size calculated successfully",
+        data: preview,
+      })
+    } catch (error) {
+      logger.error("Preview notification segment error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to preview segment",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+}
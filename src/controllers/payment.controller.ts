@@ -0,0 +1,161 @@
+import type { Response } from "express"
+import type { AuthenticatedRequest, RawBodyRequest } from "../types"
+import { PaystackWebhookService } from "../services/paystack-webhook.service"
+import { PayoutService } from "../services/payout.service"
+import logger from "../utils/logger"
+
+export class PaymentController {
+  private paystackWebhookService = new PaystackWebhookService()
+  private payoutService = new PayoutService()
+
+  handlePaystackWebhook = async (req: RawBodyRequest, res: Response) => {
+    try {
+      const signature = req.headers["x-paystack-signature"] as string | undefined
+      const rawBody = req.rawBody || Buffer.from(JSON.stringify(req.body || {}))
+
+      if (!this.paystackWebhookService.verifySignature(rawBody, signature)) {
+        logger.warn("Rejected Paystack webhook with invalid signature", { ip: req.ip })
+        return res.status(401).json({
+          success: false,
+          message: "Invalid webhook signature",
+        })
+      }
+
+      if (!req.body?.event) {
+        return res.status(400).json({
+          success: false,
+          message: "Webhook event is required",
+        })
+      }
+
+      const result = await this.paystackWebhookService.handleEvent(req.body, rawBody)
+
+      res.json({
+        success: true,
+        message: "Webhook received",
+        data: result,
+      })
+    } catch (error) {
+      logger.error("Paystack webhook error:", error)
+      // A non-2xx response makes Paystack retry the delivery
+      res.status(500).json({
+        success: false,
+        message: "Failed to process webhook",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getMyPayouts = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { page = 1, limit = 20, status } = req.query
+
+      const result = await this.payoutService.getProviderPayouts(req.user!.id, {
+        page: Number(page),
+        limit: Number(limit),
+        status: status as string | undefined,
+      })
+
+      res.json({
+        success: true,
+        message: "Payouts retrieved successfully",
+        data: {
+          payouts: result.payouts,
+          unpaidEarnings: result.unpaidEarnings,
+        },
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("Get payouts error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve payouts",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  requestPayout = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const payout = await this.payoutService.requestPayout(req.user!.id)
+
+      res.status(201).json({
+        success: true,
+        message: "Payout requested successfully",
+        data: payout,
+      })
+    } catch (error) {
+      logger.error("Request payout error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to request payout",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getAllPayouts = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { page = 1, limit = 20, status } = req.query
+
+      const result = await this.payoutService.getAllPayouts({
+        page: Number(page),
+        limit: Number(limit),
+        status: status as string | undefined,
+      })
+
+      res.json({
+        success: true,
+        message: "Payouts retrieved successfully",
+        data: result.payouts,
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("Get all payouts error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve payouts",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  runPayouts = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const batch = await this.payoutService.buildPayoutBatches()
+      const processing = await this.payoutService.processPendingPayouts()
+
+      res.json({
+        success: true,
+        message: "Payout run completed",
+        data: { batch, processing },
+      })
+    } catch (error) {
+      logger.error("Run payouts error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to run payouts",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  retryPayout = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const payout = await this.payoutService.retryPayout(req.params.id)
+
+      res.json({
+        success: true,
+        message: "Payout queued for retry",
+        data: payout,
+      })
+    } catch (error) {
+      logger.error("Retry payout error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to retry payout",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+}
@@ -2,6 +2,7 @@ import type { Response } from "express"
 import type { AuthenticatedRequest } from "../types"
 import prisma from "../config/database"
 import { PlaceService } from "../services/place.service"
+import { GEO_INDEXES, geoIndexService } from "../services/geo-index.service"
 import { LocationService } from "../services/location.service"
 import { FileUploadService } from "../services/file-upload.service"
 import { NotificationService } from "../services/notification.service"
@@ -131,6 +132,7 @@ export class PlaceController {
           location: true,
         },
       })
+      await geoIndexService.updatePosition(GEO_INDEXES.PLACES, place.id, location.latitude, location.longitude)
 
       // Send notification for approval if not auto-approved
       if (!place.isApproved) {
@@ -679,6 +681,7 @@ export class PlaceController {
         where: { id: placeId },
         data: { isActive: false },
       })
+      await geoIndexService.remove(GEO_INDEXES.PLACES, placeId)
 
       res.json({
         success: true,
@@ -0,0 +1,177 @@
+import type { Response } from "express"
+import type { AuthenticatedRequest } from "../types"
+import { PricingService } from "../services/pricing.service"
+import { PricingRuleService } from "../services/pricing-rule.service"
+import logger from "../utils/logger"
+
+export class PricingController {
+  private pricingService = new PricingService()
+  private pricingRuleService = new PricingRuleService()
+
+  getRules = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { serviceType, zoneId, includeInactive } = req.query
+
+      const rules = await this.pricingRuleService.listRules({
+        serviceType: serviceType as string | undefined,
+        zoneId: zoneId as string | undefined,
+        includeInactive: includeInactive === "true",
+      })
+
+      res.json({
+        success: true,
+        message: "Pricing rules retrieved successfully",
+        data: rules,
+      })
+    } catch (error) {
+      logger.error("Get pricing rules error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve pricing rules",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getRule = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const rule = await this.pricingRuleService.getRule(req.params.id)
+
+      res.json({
+        success: true,
+        message: "Pricing rule retrieved successfully",
+        data: rule,
+      })
+    } catch (error) {
+      logger.error("Get pricing rule error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to retrieve pricing rule",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getRuleVersions = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const versions = await this.pricingRuleService.getRuleVersions(req.params.id)
+
+      res.json({
+        success: true,
+        message: "Pricing rule versions retrieved successfully",
+        data: versions,
+      })
+    } catch (error) {
+      logger.error("Get pricing rule versions error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to retrieve pricing rule versions",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  createRule = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const rule = await this.pricingRuleService.createRule(req.body, req.user!.id)
+
+      res.status(201).json({
+        success: true,
+        message: "Pricing rule created successfully",
+        data: rule,
+      })
+    } catch (error) {
+      logger.error("Create pricing rule error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to create pricing rule",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  updateRule = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const rule = await this.pricingRuleService.updateRule(req.params.id, req.body, req.user!.id)
+
+      res.json({
+        success: true,
+        message: `Pricing rule updated to version ${rule.version}`,
+        data: rule,
+      })
+    } catch (error) {
+      logger.error("Update pricing rule error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to update pricing rule",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  restoreVersion = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const rule = await this.pricingRuleService.restoreVersion(req.params.id, req.user!.id)
+
+      res.json({
+        success: true,
+        message: `Pricing rule restored as version ${rule.version}`,
+        data: rule,
+      })
+    } catch (error) {
+      logger.error("Restore pricing rule error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to restore pricing rule",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  deactivateRule = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const rule = await this.pricingRuleService.deactivateRule(req.params.id, req.user!.id)
+
+      res.json({
+        success: true,
+        message: "Pricing rule deactivated successfully",
+        data: rule,
+      })
+    } catch (error) {
+      logger.error("Deactivate pricing rule error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to deactivate pricing rule",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  /**
+   * Price a ride with draft rules without saving them
+   */
+  dryRun = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { rules, scheduledAt, ...params } = req.body
+
+      const result = await this.pricingService.simulatePricing({
+        ...params,
+        scheduledAt: scheduledAt ? new Date(scheduledAt) : undefined,
+        draftRules: rules,
+      })
+
+      res.json({
+        success: true,
+        message: "Pricing dry run completed",
+        data: result,
+      })
+    } catch (error) {
+      logger.error("Pricing dry run error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to run pricing dry run",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import type { Response } from "express"
+import type { AuthenticatedRequest } from "../types"
+import { PromotionService } from "../services/promotion.service"
+import logger from "../utils/logger"
+
+export class PromotionController {
+  private promotionService = new PromotionService()
+
+  validatePromoCode = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const quote = await this.promotionService.quotePromoCode({
+        ...req.body,
+        userId: req.user!.id,
+      })
+
+      res.json({
+        success: true,
+        message: "Promo code applied",
+        data: quote,
+      })
+    } catch (error) {
+      logger.error("Validate promo code error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Promo code could not be applied",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getCampaigns = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { page = 1, limit = 20, isActive, type } = req.query
+
+      const result = await this.promotionService.getCampaigns({
+        page: Number(page),
+        limit: Number(limit),
+        isActive: isActive === undefined ? undefined : isActive === "true",
+        type: type as string | undefined,
+      })
+
+      res.json({
+        success: true,
+        message: "Promo campaigns retrieved successfully",
+        data: result.campaigns,
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("Get promo campaigns error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve promo campaigns",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getCampaignById = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const campaign = await this.promotionService.getCampaignById(req.params.id)
+
+      res.json({
+        success: true,
+        message: "Promo campaign retrieved successfully",
+        data: campaign,
+      })
+    } catch (error) {
+      logger.error("Get promo campaign error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to retrieve promo campaign",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  createCampaign = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const campaign = await this.promotionService.createCampaign(req.body, req.user!.id)
+
+      res.status(201).json({
+        success: true,
+        message: "Promo campaign created successfully",
+        data: campaign,
+      })
+    } catch (error) {
+      logger.error("Create promo campaign error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to create promo campaign",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  updateCampaign = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const campaign = await this.promotionService.updateCampaign(req.params.id, req.body)
+
+      res.json({
+        success: true,
+        message: "Promo campaign updated successfully",
+        data: campaign,
+      })
+    } catch (error) {
+      logger.error("Update promo campaign error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to update promo campaign",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  deactivateCampaign = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const campaign = await this.promotionService.deactivateCampaign(req.params.id)
+
+      res.json({
+        success: true,
+        message: "Promo campaign deactivated successfully",
+        data: campaign,
+      })
+    } catch (error) {
+      logger.error("Deactivate promo campaign error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to deactivate promo campaign",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+}
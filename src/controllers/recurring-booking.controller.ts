@@ -0,0 +1,150 @@
+import type { Response } from "express"
+import type { RecurringSeriesStatus } from "@prisma/client"
+import type { AuthenticatedRequest } from "../types"
+import { RecurringBookingService } from "../services/recurring-booking.service"
+import logger from "../utils/logger"
+
+export class RecurringBookingController {
+  private recurringBookingService = new RecurringBookingService()
+
+  createSeries = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const series = await this.recurringBookingService.createSeries(req.user!.id, req.body)
+
+      res.status(201).json({
+        success: true,
+        message: "Recurring booking created successfully",
+        data: series,
+      })
+    } catch (error) {
+      logger.error("Create recurring booking error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to create recurring booking",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getMySeries = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const series = await this.recurringBookingService.getCustomerSeries(req.user!.id, {
+        status: req.query.status as RecurringSeriesStatus | undefined,
+      })
+
+      res.json({
+        success: true,
+        message: "Recurring bookings retrieved successfully",
+        data: series,
+      })
+    } catch (error) {
+      logger.error("Get recurring bookings error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve recurring bookings",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getSeries = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const series = await this.recurringBookingService.getSeries(req.params.id, req.user!.id)
+
+      res.json({
+        success: true,
+        message: "Recurring booking retrieved successfully",
+        data: series,
+      })
+    } catch (error) {
+      logger.error("Get recurring booking error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to retrieve recurring booking",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  pauseSeries = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { pausedUntil } = req.body
+      const result = await this.recurringBookingService.pauseSeries(
+        req.params.id,
+        req.user!.id,
+        pausedUntil ? new Date(pausedUntil) : undefined,
+      )
+
+      res.json({
+        success: true,
+        message: "Recurring booking paused successfully",
+        data: result,
+      })
+    } catch (error) {
+      logger.error("Pause recurring booking error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to pause recurring booking",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  resumeSeries = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const series = await this.recurringBookingService.resumeSeries(req.params.id, req.user!.id)
+
+      res.json({
+        success: true,
+        message: "Recurring booking resumed successfully",
+        data: series,
+      })
+    } catch (error) {
+      logger.error("Resume recurring booking error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to resume recurring booking",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  cancelSeries = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await this.recurringBookingService.cancelSeries(req.params.id, req.user!.id, req.body.reason)
+
+      res.json({
+        success: true,
+        message: "Recurring booking cancelled successfully",
+        data: result,
+      })
+    } catch (error) {
+      logger.error("Cancel recurring booking error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to cancel recurring booking",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  skipOccurrence = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { date, reason } = req.body
+      const result = await this.recurringBookingService.skipOccurrence(req.params.id, req.user!.id, date, reason)
+
+      res.json({
+        success: true,
+        message: "Occurrence skipped successfully",
+        data: result,
+      })
+    } catch (error) {
+      logger.error("Skip recurring occurrence error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to skip occurrence",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import type { Response } from "express"
+import type { AuthenticatedRequest } from "../types"
+import { ReferralService } from "../services/referral.service"
+import logger from "../utils/logger"
+
+export class ReferralController {
+  private referralService = new ReferralService()
+
+  getMyReferrals = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const summary = await this.referralService.getUserReferralSummary(req.user!.id)
+
+      res.json({
+        success: true,
+        message: "Referrals retrieved successfully",
+        data: summary,
+      })
+    } catch (error) {
+      logger.error("Get my referrals error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve referrals",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getLeaderboard = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { limit = 10, period = "all" } = req.query
+
+      const leaderboard = await this.referralService.getLeaderboard({
+        limit: Math.min(Number(limit), 50),
+        since: this.getPeriodStart(period as string),
+      })
+
+      res.json({
+        success: true,
+        message: "Referral leaderboard retrieved successfully",
+        data: leaderboard,
+      })
+    } catch (error) {
+      logger.error("Get referral leaderboard error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve referral leaderboard",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getReferralStats = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { from, to } = req.query
+
+      const stats = await this.referralService.getReferralStats(
+        from && to ? { from: new Date(from as string), to: new Date(to as string) } : undefined,
+      )
+
+      res.json({
+        success: true,
+        message: "Referral stats retrieved successfully",
+        data: stats,
+      })
+    } catch (error) {
+      logger.error("Get referral stats error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve referral stats",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getReferralsForReview = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { page = 1, limit = 20, status } = req.query
+
+      const result = await this.referralService.getReferralsForReview({
+        page: Number(page),
+        limit: Number(limit),
+        status: status as string | undefined,
+      })
+
+      res.json({
+        success: true,
+        message: "Referrals retrieved successfully",
+        data: result.referrals,
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("Get referrals for review error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve referrals",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  reviewReferral = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { decision } = req.body
+
+      if (!["APPROVE", "REJECT"].includes(decision)) {
+        return res.status(400).json({
+          success: false,
+          message: "Decision must be APPROVE or REJECT",
+        })
+      }
+
+      const referral = await this.referralService.reviewReferral(req.params.id, decision, req.user!.id)
+
+      res.json({
+        success: true,
+        message: decision === "APPROVE" ? "Referral approved and rewards released" : "Referral rejected",
+        data: referral,
+      })
+    } catch (error) {
+      logger.error("Review referral error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to review referral",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  private getPeriodStart(period: string): Date | undefined {
+    const now = new Date()
+    switch (period) {
+      case "week":
+        return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
+      case "month":
+        return new Date(now.getFullYear(), now.getMonth(), 1)
+      default:
+        return undefined
+    }
+  }
+}
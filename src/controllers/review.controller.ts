@@ -3,11 +3,13 @@ import type { AuthenticatedRequest } from "../types"
 import prisma from "../config/database"
 import { ReviewService } from "../services/review.service"
 import { NotificationService } from "../services/notification.service"
+import { SupportService } from "../services/support.service"
 import logger from "../utils/logger"
 
 export class ReviewController {
   private reviewService = new ReviewService()
   private notificationService = new NotificationService()
+  private supportService = new SupportService()
 
   submitReview = async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -672,15 +674,11 @@ export class ReviewController {
       const { reason, description } = req.body
 
       // Create a support ticket for the reported review
-      await prisma.supportTicket.create({
-        data: {
-          userId,
-          subject: `Review Report - ${reviewId}`,
-          description: `Review reported for: ${reason}\nDescription: ${description}`,
-          category: "OTHER",
-          priority: "MEDIUM",
-          status: "OPEN",
-        },
+      await this.supportService.createTicket(userId, {
+        subject: `Review Report - ${reviewId}`,
+        description: `Review reported for: ${reason}\nDescription: ${description}`,
+        category: "OTHER",
+        priority: "MEDIUM",
       })
 
       // Send notification to admins
@@ -1,6 +1,7 @@
 import type { Response } from "express"
 import type { AuthenticatedRequest } from "../types"
 import { PlaceService } from "../services/place.service"
+import { GEO_INDEXES, geoIndexService } from "../services/geo-index.service"
 import prisma from "../config/database"
 import logger from "../utils/logger"
 
@@ -341,6 +342,7 @@ export class ServiceController {
           heading,
         },
       })
+      await geoIndexService.updatePosition(GEO_INDEXES.DRIVERS, userId, latitude, longitude)
 
       res.json({
         success: true,
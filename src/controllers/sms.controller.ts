@@ -0,0 +1,69 @@
+import type { Request, Response } from "express"
+import type { SmsStatus } from "@prisma/client"
+import type { AuthenticatedRequest } from "../types"
+import { SmsService } from "../services/sms.service"
+import logger from "../utils/logger"
+
+export class SmsController {
+  private smsService = new SmsService()
+
+  /**
+   * Delivery report from the SMS provider (authenticated by the X-Twilio-Signature header)
+   */
+  handleStatusCallback = async (req: Request, res: Response) => {
+    try {
+      const signature = req.headers["x-twilio-signature"] as string | undefined
+
+      if (!this.smsService.verifyStatusCallback(signature, req.body || {})) {
+        logger.warn("Rejected SMS status callback with invalid signature", { ip: req.ip })
+        return res.status(401).json({
+          success: false,
+          message: "Invalid callback signature",
+        })
+      }
+
+      await this.smsService.handleStatusCallback(req.body)
+
+      res.json({
+        success: true,
+        message: "Status received",
+      })
+    } catch (error) {
+      logger.error("SMS status callback error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to process status callback",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getMessages = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { status, userId, to, template, page = 1, limit = 50 } = req.query
+
+      const result = await this.smsService.listMessages({
+        status: status as SmsStatus | undefined,
+        userId: userId as string | undefined,
+        to: to as string | undefined,
+        template: template as string | undefined,
+        page: Number(page),
+        limit: Number(limit),
+      })
+
+      res.json({
+        success: true,
+        message: "SMS messages retrieved successfully",
+        data: result.messages,
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("Get SMS messages error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve SMS messages",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+}
@@ -234,7 +234,7 @@ export class StoreController {
 
       // Handle image upload if present
       if (req.file) {
-        const imageUrl = await this.fileUploadService.uploadImage(req.file, "stores")
+        const imageUrl = await this.fileUploadService.uploadImage(req.file, `stores/${userId}`)
         storeData.image = imageUrl
       }
 
@@ -402,7 +402,7 @@ export class StoreController {
 
       // Handle image upload if present
       if (req.file) {
-        const imageUrl = await this.fileUploadService.uploadImage(req.file, "stores")
+        const imageUrl = await this.fileUploadService.uploadImage(req.file, `stores/${storeId}`)
         updateData.image = imageUrl
       }
 
@@ -799,7 +799,7 @@ export class StoreController {
       const images: string[] = []
       if (req.files && typeof req.files === 'object' && !Array.isArray(req.files) && req.files.images && Array.isArray(req.files.images)) {
         for (const file of req.files.images) {
-          const imageUrl = await this.fileUploadService.uploadImage(file, "products")
+          const imageUrl = await this.fileUploadService.uploadImage(file, `products/${storeId}`)
           images.push(imageUrl)
         }
       }
@@ -864,7 +864,7 @@ export class StoreController {
       if (req.files && typeof req.files === 'object' && !Array.isArray(req.files) && req.files.images && Array.isArray(req.files.images)) {
         const images: string[] = []
         for (const file of req.files.images) {
-          const imageUrl = await this.fileUploadService.uploadImage(file, "products")
+          const imageUrl = await this.fileUploadService.uploadImage(file, `products/${req.params.id}`)
           images.push(imageUrl)
         }
 
@@ -0,0 +1,199 @@
+import type { Response } from "express"
+import type { Priority, SupportCategory, TicketStatus } from "@prisma/client"
+import type { AuthenticatedRequest } from "../types"
+import { SupportService } from "../services/support.service"
+import logger from "../utils/logger"
+
+export class SupportController {
+  private supportService = new SupportService()
+
+  createTicket = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const ticket = await this.supportService.createTicket(req.user!.id, req.body)
+
+      res.status(201).json({
+        success: true,
+        message: "Support ticket created successfully",
+        data: ticket,
+      })
+    } catch (error) {
+      logger.error("Create support ticket error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to create support ticket",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getMyTickets = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { page = 1, limit = 20, status } = req.query
+
+      const result = await this.supportService.getUserTickets(req.user!.id, {
+        page: Number(page),
+        limit: Number(limit),
+        status: status as TicketStatus | undefined,
+      })
+
+      res.json({
+        success: true,
+        message: "Support tickets retrieved successfully",
+        data: result.tickets,
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("Get support tickets error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve support tickets",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getTicket = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const ticket = await this.supportService.getTicket(req.params.id, req.user!)
+
+      res.json({
+        success: true,
+        message: "Support ticket retrieved successfully",
+        data: ticket,
+      })
+    } catch (error) {
+      logger.error("Get support ticket error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to retrieve support ticket",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  addMessage = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const message = await this.supportService.addMessage(req.params.id, req.user!, req.body)
+
+      res.status(201).json({
+        success: true,
+        message: "Message added successfully",
+        data: message,
+      })
+    } catch (error) {
+      logger.error("Add support message error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to add message",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  updateStatus = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const ticket = await this.supportService.updateStatus(req.params.id, req.body.status, req.user!, req.body.note)
+
+      res.json({
+        success: true,
+        message: "Support ticket status updated successfully",
+        data: ticket,
+      })
+    } catch (error) {
+      logger.error("Update support ticket status error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to update support ticket status",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getQueue = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { page = 1, limit = 20, status, priority, category, assignedTo, breached } = req.query
+
+      const result = await this.supportService.getQueue({
+        page: Number(page),
+        limit: Number(limit),
+        status: status as TicketStatus | undefined,
+        priority: priority as Priority | undefined,
+        category: category as SupportCategory | undefined,
+        assignedTo: assignedTo === "me" ? req.user!.id : (assignedTo as string | undefined),
+        breached: breached === "true",
+      })
+
+      res.json({
+        success: true,
+        message: "Support queue retrieved successfully",
+        data: result.tickets,
+        pagination: result.pagination,
+      })
+    } catch (error) {
+      logger.error("Get support queue error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve support queue",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getQueueStats = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const stats = await this.supportService.getQueueStats()
+
+      res.json({
+        success: true,
+        message: "Support queue stats retrieved successfully",
+        data: stats,
+      })
+    } catch (error) {
+      logger.error("Get support queue stats error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve support queue stats",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  assignTicket = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const agentId = req.body.agentId || req.user!.id
+      const ticket = await this.supportService.assignTicket(req.params.id, agentId, req.user!)
+
+      res.json({
+        success: true,
+        message: "Support ticket assigned successfully",
+        data: ticket,
+      })
+    } catch (error) {
+      logger.error("Assign support ticket error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to assign support ticket",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  updatePriority = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const ticket = await this.supportService.updatePriority(req.params.id, req.body.priority, req.user!)
+
+      res.json({
+        success: true,
+        message: "Support ticket priority updated successfully",
+        data: ticket,
+      })
+    } catch (error) {
+      logger.error("Update support ticket priority error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to update support ticket priority",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+}
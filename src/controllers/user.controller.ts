@@ -3,6 +3,8 @@ import prisma from "../config/database"
 import { RBACService } from "../services/rbac.service"
 import { NotificationService } from "../services/notification.service"
 import { EmailService } from "../services/email.service"
+import { FcmService } from "../services/fcm.service"
+import { NotificationPreferenceService } from "../services/notification-preference.service"
 import logger from "../utils/logger"
 import bcrypt from "bcryptjs"
 import speakeasy from "speakeasy"
@@ -14,6 +16,8 @@ export class UserController {
   private rbacService = new RBACService()
   private notificationService = new NotificationService()
   private emailService = new EmailService()
+  private fcmService = new FcmService()
+  private notificationPreferenceService = new NotificationPreferenceService()
 
   // Get user profile by authenticated user ID
   getProfile = async (req: AuthenticatedRequest, res: Response) => {
@@ -423,4 +427,120 @@ export class UserController {
       })
     }
   }
+
+  // Push notification devices
+  registerDevice = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const device = await this.fcmService.registerDevice(req.user!.id, req.sessionId, req.body)
+
+      res.status(201).json({
+        success: true,
+        message: "Device registered for push notifications",
+        data: { id: device.id, platform: device.platform, appVersion: device.appVersion },
+      })
+    } catch (error) {
+      logger.error("Register device error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to register device",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  getDevices = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const devices = await this.fcmService.getUserDevices(req.user!.id)
+
+      res.json({
+        success: true,
+        message: "Devices retrieved successfully",
+        data: devices,
+      })
+    } catch (error) {
+      logger.error("Get devices error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve devices",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  unregisterDevice = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      await this.fcmService.unregisterDevice(req.user!.id, req.body.token)
+
+      res.json({
+        success: true,
+        message: "Device unregistered from push notifications",
+      })
+    } catch (error) {
+      logger.error("Unregister device error:", error)
+      res.status(404).json({
+        success: false,
+        message: "Failed to unregister device",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  // Notification preferences
+  getNotificationPreferences = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const preferences = await this.notificationPreferenceService.getPreferences(req.user!.id)
+
+      res.json({
+        success: true,
+        message: "Notification preferences retrieved successfully",
+        data: preferences,
+      })
+    } catch (error) {
+      logger.error("Get notification preferences error:", error)
+      res.status(500).json({
+        success: false,
+        message: "Failed to retrieve notification preferences",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  updateNotificationPreferences = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const preferences = await this.notificationPreferenceService.updatePreferences(req.user!.id, req.body)
+
+      res.json({
+        success: true,
+        message: "Notification preferences updated successfully",
+        data: preferences,
+      })
+    } catch (error) {
+      logger.error("Update notification preferences error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to update notification preferences",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  // Public: the token in the email link identifies the user and category
+  unsubscribe = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await this.notificationPreferenceService.unsubscribe(req.body.token)
+
+      res.json({
+        success: true,
+        message: "You have been unsubscribed from these emails",
+        data: result,
+      })
+    } catch (error) {
+      logger.error("Unsubscribe error:", error)
+      res.status(400).json({
+        success: false,
+        message: "Failed to unsubscribe",
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
 }
@@ -53,6 +53,7 @@ export const authenticateToken = async (req: AuthenticatedRequest, res: Response
     const session = await prisma.userSession.findUnique({
       where: { token: token },
       select: {
+        id: true,
         isActive: true,
         expiresAt: true,
         userId: true,
@@ -168,6 +169,7 @@ export const authenticateToken = async (req: AuthenticatedRequest, res: Response
     }
 
     req.user = userPayload
+    req.sessionId = session.id
 
     if (!req.user) {
       logger.error("CRITICAL: User failed to attach to request after assignment", {
@@ -13,6 +13,7 @@ type Permission =
   | "MANAGE_USER_ROLES"
   | "APPROVE_DRIVER"
   | "SUSPEND_DRIVER"
+  | "VERIFY_DOCUMENTS"
   | "VIEW_DRIVER_ANALYTICS"
   | "MANAGE_DRIVER_SHIFTS"
   | "CREATE_STORE"
@@ -4,6 +4,7 @@ import { authMiddleware } from "../middleware/auth.middleware"
 import { rbacMiddleware } from "../middleware/rbac.middleware"
 import { validateRequest } from "../middleware/validation.middleware"
 import { body, param } from "express-validator"
+import { DOCUMENT_KINDS } from "../services/document-access.service"
 
 const router = Router()
 const adminController = new AdminController()
@@ -34,6 +35,15 @@ router.put(
   adminController.suspendUser,
 )
 
+// Erase a user's personal data and KYC documents
+router.post(
+  "/users/:userId/erase",
+  rbacMiddleware(["SUPER_ADMIN"]),
+  [param("userId").isUUID().withMessage("Valid user ID is required")],
+  validateRequest,
+  adminController.eraseUser,
+)
+
 // Get system metrics
 router.get("/metrics", adminController.getSystemMetrics)
 
@@ -55,4 +65,21 @@ router.put(
   adminController.reviewDocument,
 )
 
+// Short-lived link to view a KYC document
+router.get(
+  "/documents/:kind/:documentId/url",
+  [
+    param("kind").isIn(DOCUMENT_KINDS).withMessage(`Kind must be one of ${DOCUMENT_KINDS.join(", ")}`),
+    param("documentId").isUUID().withMessage("Valid document ID is required"),
+  ],
+  validateRequest,
+  adminController.getDocumentUrl,
+)
+
+// Background jobs
+router.get("/jobs", adminController.getJobs)
+router.get("/jobs/stats", adminController.getJobStats)
+router.post("/jobs/:jobId/retry", adminController.retryJob)
+router.post("/jobs/:jobId/cancel", adminController.cancelJob)
+
 export default router
@@ -0,0 +1,66 @@
+import { Router } from "express"
+import { AnalyticsController } from "../controllers/analytics.controller"
+import { authMiddleware } from "../middleware/auth.middleware"
+import { rbacMiddleware } from "../middleware/rbac.middleware"
+import { validateQuery, validateRequest } from "../middleware/validation.middleware"
+import { analyticsValidation } from "../validations/analytics.validation"
+
+const router = Router()
+const analyticsController = new AnalyticsController()
+
+router.use(authMiddleware)
+
+// Apps
+router.post("/events", validateRequest(analyticsValidation.trackEvents), analyticsController.trackEvents)
+
+// Admin
+router.get(
+  "/admin/behavior",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateQuery(analyticsValidation.getUserBehavior),
+  analyticsController.getUserBehavior,
+)
+router.get(
+  "/admin/funnel",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateQuery(analyticsValidation.getFunnel),
+  analyticsController.getFunnel,
+)
+router.get(
+  "/admin/retention",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateQuery(analyticsValidation.getRetention),
+  analyticsController.getRetention,
+)
+router.get(
+  "/admin/group-by",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateQuery(analyticsValidation.groupByProperty),
+  analyticsController.groupByProperty,
+)
+router.post(
+  "/admin/reports",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateRequest(analyticsValidation.generateReport),
+  analyticsController.generateReport,
+)
+router.get(
+  "/admin/kpis",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateQuery(analyticsValidation.getKpiSeries),
+  analyticsController.getKpiSeries,
+)
+router.get(
+  "/admin/kpis/breakdown",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateQuery(analyticsValidation.getKpiBreakdown),
+  analyticsController.getKpiBreakdown,
+)
+router.post(
+  "/admin/kpis/backfill",
+  rbacMiddleware(["SUPER_ADMIN"]),
+  validateRequest(analyticsValidation.backfillRollups),
+  analyticsController.backfillRollups,
+)
+
+export default router
@@ -14,6 +14,10 @@ router.post("/login", validateRequest(authValidation.login), authController.logi
 // NEW: Driver-specific login route
 router.post("/driver-login", validateRequest(authValidation.login), authController.driverLogin)
 
+// Phone login with a code sent by SMS
+router.post("/otp/request", validateRequest(authValidation.requestPhoneOtp), authController.requestPhoneOtp)
+router.post("/otp/verify", validateRequest(authValidation.verifyPhoneOtp), authController.verifyPhoneOtp)
+
 router.post("/logout", authController.logout)
 
 // Profile management (requires authentication)
@@ -65,20 +65,26 @@ router.delete("/", cartController.clearCart)
 //   "paymentMethodId": "pm_1234567890",
 //   "specialInstructions": "Handle with care"
 // }
-// Response: 200 OK
+// Response: 200 OK - one order per store in the cart, each with its own delivery
 // {
 //   "success": true,
 //   "message": "Order created successfully from cart",
 //   "data": {
-//     "orderId": "ord_123",
-//     "orderNumber": "ORD-2024-001",
-//     "totalAmount": 59.98,
-//     "status": "PENDING",
-//     "delivery": {
-//       "id": "del_456",
-//       "trackingCode": "TRK123456789",
-//       "status": "PENDING"
-//     }
+//     "checkoutGroupId": "3f0c...",
+//     "orders": [
+//       {
+//         "id": "ord_123",
+//         "orderNumber": "ORD-2024-001",
+//         "storeId": "store_1",
+//         "totalAmount": 59.98,
+//         "deliveryFee": 12.5,
+//         "status": "PENDING",
+//         "delivery": { "id": "del_456", "status": "PENDING" }
+//       }
+//     ],
+//     "transactions": [{ "id": "txn_789", "status": "COMPLETED", "amount": 73.98 }],
+//     "reservedUntil": "2024-01-01T12:20:00.000Z",
+//     "totals": { "subtotal": 59.98, "deliveryFee": 12.5, "serviceFee": 1.5, "discount": 0, "total": 73.98 }
 //   }
 // }
 router.post(
@@ -0,0 +1,65 @@
+import { Router } from "express"
+import multer from "multer"
+import { ChatController } from "../controllers/chat.controller"
+import { authMiddleware } from "../middleware/auth.middleware"
+import { rbacMiddleware } from "../middleware/rbac.middleware"
+import { validateRequest } from "../middleware/validation.middleware"
+import { chatValidation } from "../validations/chat.validation"
+
+// Chat attachments: images and voice notes only
+const upload = multer({
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith("image/") || file.mimetype.startsWith("audio/")) {
+      cb(null, true)
+    } else {
+      cb(new Error("Only images and voice notes can be attached"))
+    }
+  },
+})
+
+const router = Router()
+const chatController = new ChatController()
+
+router.use(authMiddleware)
+
+// Booking chat (customer and assigned provider)
+router.get("/bookings/:bookingId/messages", chatController.getMessages)
+router.post("/bookings/:bookingId/messages", validateRequest(chatValidation.sendMessage), chatController.sendMessage)
+router.post(
+  "/bookings/:bookingId/attachments",
+  upload.single("file"),
+  validateRequest(chatValidation.sendAttachment),
+  chatController.sendAttachment,
+)
+router.post("/bookings/:bookingId/read", chatController.markRead)
+router.post("/bookings/:bookingId/report", validateRequest(chatValidation.reportChat), chatController.reportChat)
+
+// Delivery chat (customer and dispatch rider)
+router.get("/deliveries/:deliveryId/messages", chatController.getMessages)
+router.post("/deliveries/:deliveryId/messages", validateRequest(chatValidation.sendMessage), chatController.sendMessage)
+router.post(
+  "/deliveries/:deliveryId/attachments",
+  upload.single("file"),
+  validateRequest(chatValidation.sendAttachment),
+  chatController.sendAttachment,
+)
+router.post("/deliveries/:deliveryId/read", chatController.markRead)
+router.post("/deliveries/:deliveryId/report", validateRequest(chatValidation.reportChat), chatController.reportChat)
+
+// Moderation
+router.get(
+  "/admin/tickets/:ticketId",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN", "SUPPORT_AGENT"]),
+  chatController.getTicketChat,
+)
+router.patch(
+  "/admin/messages/:id/hide",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN", "SUPPORT_AGENT"]),
+  validateRequest(chatValidation.hideMessage),
+  chatController.hideMessage,
+)
+
+export default router
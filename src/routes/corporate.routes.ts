@@ -0,0 +1,73 @@
+import { Router } from "express"
+import { CorporateController } from "../controllers/corporate.controller"
+import { authMiddleware } from "../middleware/auth.middleware"
+import { rbacMiddleware } from "../middleware/rbac.middleware"
+import { validateRequest } from "../middleware/validation.middleware"
+import { corporateValidation } from "../validations/corporate.validation"
+
+const router = Router()
+const corporateController = new CorporateController()
+
+router.use(authMiddleware)
+
+// Employees
+router.get("/me", corporateController.getMyMemberships)
+
+// Company admins (checked against the account's membership in the service)
+router.get("/accounts/:accountId", corporateController.getAccount)
+router.get("/accounts/:accountId/members", corporateController.listMembers)
+router.post(
+  "/accounts/:accountId/members",
+  validateRequest(corporateValidation.addMember),
+  corporateController.addMember,
+)
+router.put(
+  "/accounts/:accountId/members/:memberId",
+  validateRequest(corporateValidation.updateMember),
+  corporateController.updateMember,
+)
+
+router.get("/accounts/:accountId/policies", corporateController.listPolicies)
+router.post(
+  "/accounts/:accountId/policies",
+  validateRequest(corporateValidation.createPolicy),
+  corporateController.createPolicy,
+)
+router.put(
+  "/accounts/:accountId/policies/:policyId",
+  validateRequest(corporateValidation.updatePolicy),
+  corporateController.updatePolicy,
+)
+
+router.get("/accounts/:accountId/cost-centers", corporateController.listCostCenters)
+router.post(
+  "/accounts/:accountId/cost-centers",
+  validateRequest(corporateValidation.createCostCenter),
+  corporateController.createCostCenter,
+)
+router.put(
+  "/accounts/:accountId/cost-centers/:costCenterId",
+  validateRequest(corporateValidation.updateCostCenter),
+  corporateController.updateCostCenter,
+)
+
+router.get("/accounts/:accountId/trips", corporateController.listTrips)
+router.get("/accounts/:accountId/invoices", corporateController.listInvoices)
+router.get("/accounts/:accountId/invoices/:invoiceId", corporateController.getInvoice)
+
+// Admin
+router.get("/admin/accounts", rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]), corporateController.listAccounts)
+router.post(
+  "/admin/accounts",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateRequest(corporateValidation.createAccount),
+  corporateController.createAccount,
+)
+router.put(
+  "/admin/invoices/:invoiceId/paid",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateRequest(corporateValidation.markInvoicePaid),
+  corporateController.markInvoicePaid,
+)
+
+export default router
@@ -81,6 +81,20 @@ router.get(
   dispatchRiderController.getDocuments,
 )
 
+router.get(
+  "/documents/:id/url",
+  authMiddleware,
+  rbacMiddleware(["DRIVER", "DISPATCHER"]),
+  dispatchRiderController.getDocumentUrl,
+)
+
+router.delete(
+  "/documents/:id",
+  authMiddleware,
+  rbacMiddleware(["DRIVER", "DISPATCHER"]),
+  dispatchRiderController.deleteDocument,
+)
+
 // Availability and Location
 router.put(
   "/availability",
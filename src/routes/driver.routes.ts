@@ -27,6 +27,8 @@ router.get("/vehicles", driverController.getVehicles)
 // Document management
 router.post("/documents", validateRequest(driverValidation.uploadDocument), driverController.uploadDocument)
 router.get("/documents", driverController.getDocuments)
+router.get("/documents/:id/url", driverController.getDocumentUrl)
+router.delete("/documents/:id", driverController.deleteDocument)
 
 // Availability and location (require driver role)
 router.put(
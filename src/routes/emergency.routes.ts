@@ -33,6 +33,8 @@ router.post(
   emergencyController.acceptEmergencyCall,
 )
 
+router.get("/bookings/:id/timeline", authMiddleware, emergencyController.getDispatchTimeline)
+
 router.post(
   "/bookings/:id/complete",
   authMiddleware,
@@ -137,4 +139,14 @@ router.post(
   emergencyController.trackUserLocation,
 )
 
+// In-ride SOS and the public live trip link it shares
+router.post(
+  "/rides/:bookingId/sos",
+  authMiddleware,
+  validateRequest(emergencyValidation.rideSos),
+  emergencyController.raiseRideSos,
+)
+
+router.get("/trip-share/:token", emergencyController.getSharedTrip)
+
 export default router
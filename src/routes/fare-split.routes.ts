@@ -0,0 +1,27 @@
+import { Router } from "express"
+import { FareSplitController } from "../controllers/fare-split.controller"
+import { authMiddleware } from "../middleware/auth.middleware"
+import { rbacMiddleware } from "../middleware/rbac.middleware"
+import { validateRequest } from "../middleware/validation.middleware"
+import { fareSplitValidation } from "../validations/fare-split.validation"
+
+const router = Router()
+const fareSplitController = new FareSplitController()
+
+router.use(authMiddleware)
+router.use(rbacMiddleware(["USER"]))
+
+// Co-riders
+router.get("/invitations", fareSplitController.getMyInvitations)
+router.post("/:splitId/respond", validateRequest(fareSplitValidation.respond), fareSplitController.respond)
+
+// Booking owners
+router.get("/bookings/:bookingId", fareSplitController.getBookingSplits)
+router.post(
+  "/bookings/:bookingId",
+  validateRequest(fareSplitValidation.inviteCoRider),
+  fareSplitController.inviteCoRider,
+)
+router.delete("/bookings/:bookingId/:splitId", fareSplitController.cancelInvitation)
+
+export default router
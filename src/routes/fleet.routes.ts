@@ -0,0 +1,62 @@
+import { Router } from "express"
+import { FleetController } from "../controllers/fleet.controller"
+import { authMiddleware } from "../middleware/auth.middleware"
+import { rbacMiddleware } from "../middleware/rbac.middleware"
+import { validateRequest } from "../middleware/validation.middleware"
+import { fleetValidation } from "../validations/fleet.validation"
+
+const router = Router()
+const fleetController = new FleetController()
+
+router.use(authMiddleware)
+
+const operatorOnly = rbacMiddleware(["FLEET_OPERATOR"])
+const driverOnly = rbacMiddleware(["DRIVER", "TAXI_DRIVER"])
+
+// Fleet operator
+router.post("/", validateRequest(fleetValidation.registerFleet), fleetController.registerFleet)
+router.get("/me", operatorOnly, fleetController.getMyFleet)
+router.put("/me", operatorOnly, validateRequest(fleetValidation.updateFleet), fleetController.updateFleet)
+router.get("/me/earnings", operatorOnly, fleetController.getEarnings)
+router.get("/me/analytics", operatorOnly, fleetController.getAnalytics)
+
+router.get("/me/drivers", operatorOnly, fleetController.getDrivers)
+router.post("/me/drivers", operatorOnly, validateRequest(fleetValidation.inviteDriver), fleetController.inviteDriver)
+router.put(
+  "/me/drivers/:driverId",
+  operatorOnly,
+  validateRequest(fleetValidation.updateDriver),
+  fleetController.updateDriver,
+)
+router.delete("/me/drivers/:driverId", operatorOnly, fleetController.removeDriver)
+
+router.get("/me/vehicles", operatorOnly, fleetController.getVehicles)
+router.post("/me/vehicles", operatorOnly, validateRequest(fleetValidation.addVehicle), fleetController.addVehicle)
+router.post("/me/vehicles/:vehicleId/deactivate", operatorOnly, fleetController.deactivateVehicle)
+
+router.get("/me/shifts", operatorOnly, fleetController.getShifts)
+router.post("/me/shifts", operatorOnly, validateRequest(fleetValidation.createShift), fleetController.createShift)
+router.post("/me/shifts/:shiftId/cancel", operatorOnly, fleetController.cancelShift)
+
+// Fleet drivers
+router.get("/driver", driverOnly, fleetController.getDriverFleet)
+router.post(
+  "/driver/invitations/:membershipId/respond",
+  driverOnly,
+  validateRequest(fleetValidation.respondToInvitation),
+  fleetController.respondToInvitation,
+)
+router.post("/driver/leave", driverOnly, fleetController.leaveFleet)
+router.post("/driver/shifts/:shiftId/start", driverOnly, fleetController.startShift)
+router.post("/driver/shifts/:shiftId/end", driverOnly, fleetController.endShift)
+
+// Admin
+router.get("/admin", rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]), fleetController.getAllFleets)
+router.put(
+  "/admin/:id/verify",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateRequest(fleetValidation.verifyFleet),
+  fleetController.verifyFleet,
+)
+
+export default router
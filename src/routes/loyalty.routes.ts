@@ -0,0 +1,44 @@
+import { Router } from "express"
+import { LoyaltyController } from "../controllers/loyalty.controller"
+import { authMiddleware } from "../middleware/auth.middleware"
+import { rbacMiddleware } from "../middleware/rbac.middleware"
+import { validateRequest } from "../middleware/validation.middleware"
+import { loyaltyValidation } from "../validations/loyalty.validation"
+
+const router = Router()
+const loyaltyController = new LoyaltyController()
+
+router.use(authMiddleware)
+
+// Customer balance, ledger and rewards
+router.get("/status", loyaltyController.getStatus)
+
+router.get("/history", loyaltyController.getHistory)
+
+router.get("/rewards", loyaltyController.getRewards)
+
+// Redeeming a discount reward returns a code that can be used as promoCode on bookings and cart checkout
+router.post("/rewards/:id/redeem", loyaltyController.redeemReward)
+
+router.get("/redemptions", loyaltyController.getRedemptions)
+
+// Reward catalog management
+router.get("/admin/rewards", rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]), loyaltyController.getAllRewards)
+
+router.post(
+  "/admin/rewards",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateRequest(loyaltyValidation.createReward),
+  loyaltyController.createReward,
+)
+
+router.put(
+  "/admin/rewards/:id",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateRequest(loyaltyValidation.updateReward),
+  loyaltyController.updateReward,
+)
+
+router.get("/admin/analytics", rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]), loyaltyController.getAnalytics)
+
+export default router
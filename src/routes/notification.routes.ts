@@ -0,0 +1,57 @@
+import { Router } from "express"
+import { NotificationController } from "../controllers/notification.controller"
+import { authMiddleware } from "../middleware/auth.middleware"
+import { rbacMiddleware } from "../middleware/rbac.middleware"
+import { validateRequest } from "../middleware/validation.middleware"
+import { notificationValidation } from "../validations/notification.validation"
+
+const router = Router()
+const notificationController = new NotificationController()
+
+router.use(authMiddleware)
+
+// Inbox
+router.get("/", notificationController.getNotifications)
+router.patch("/:id/read", notificationController.markAsRead)
+
+// Scheduled and campaign notifications
+router.get(
+  "/admin/scheduled",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  notificationController.getScheduledNotifications,
+)
+
+router.post(
+  "/admin/scheduled",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateRequest(notificationValidation.createScheduledNotification),
+  notificationController.createScheduledNotification,
+)
+
+router.post(
+  "/admin/scheduled/preview",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateRequest(notificationValidation.previewSegment),
+  notificationController.previewSegment,
+)
+
+router.get(
+  "/admin/scheduled/:id",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  notificationController.getScheduledNotification,
+)
+
+router.put(
+  "/admin/scheduled/:id",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateRequest(notificationValidation.updateScheduledNotification),
+  notificationController.updateScheduledNotification,
+)
+
+router.post(
+  "/admin/scheduled/:id/cancel",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  notificationController.cancelScheduledNotification,
+)
+
+export default router
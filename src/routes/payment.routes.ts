@@ -0,0 +1,35 @@
+import { Router } from "express"
+import { PaymentController } from "../controllers/payment.controller"
+import { authMiddleware } from "../middleware/auth.middleware"
+import { rbacMiddleware } from "../middleware/rbac.middleware"
+
+const router = Router()
+const paymentController = new PaymentController()
+
+// Paystack webhook (authenticated by x-paystack-signature, not by user token)
+// Events handled: charge.success, transfer.success, transfer.failed, transfer.reversed, refund.processed
+router.post("/webhooks/paystack", paymentController.handlePaystackWebhook)
+
+// Provider payouts
+router.get(
+  "/payouts",
+  authMiddleware,
+  rbacMiddleware(["DRIVER", "TAXI_DRIVER", "DISPATCHER", "HOUSE_MOVER"]),
+  paymentController.getMyPayouts,
+)
+
+router.post(
+  "/payouts/request",
+  authMiddleware,
+  rbacMiddleware(["DRIVER", "TAXI_DRIVER", "DISPATCHER", "HOUSE_MOVER"]),
+  paymentController.requestPayout,
+)
+
+// Admin payout management
+router.get("/admin/payouts", authMiddleware, rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]), paymentController.getAllPayouts)
+
+router.post("/admin/payouts/run", authMiddleware, rbacMiddleware(["SUPER_ADMIN"]), paymentController.runPayouts)
+
+router.post("/admin/payouts/:id/retry", authMiddleware, rbacMiddleware(["SUPER_ADMIN"]), paymentController.retryPayout)
+
+export default router
@@ -0,0 +1,45 @@
+import { Router } from "express"
+import { PricingController } from "../controllers/pricing.controller"
+import { authMiddleware } from "../middleware/auth.middleware"
+import { rbacMiddleware } from "../middleware/rbac.middleware"
+import { validateRequest } from "../middleware/validation.middleware"
+import { pricingValidation } from "../validations/pricing.validation"
+
+const router = Router()
+const pricingController = new PricingController()
+
+router.use(authMiddleware)
+
+// Pricing rule management
+router.get("/admin/rules", rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]), pricingController.getRules)
+
+router.post(
+  "/admin/rules",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateRequest(pricingValidation.createRule),
+  pricingController.createRule,
+)
+
+router.post(
+  "/admin/rules/dry-run",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateRequest(pricingValidation.dryRun),
+  pricingController.dryRun,
+)
+
+router.get("/admin/rules/:id", rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]), pricingController.getRule)
+
+router.get("/admin/rules/:id/versions", rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]), pricingController.getRuleVersions)
+
+router.put(
+  "/admin/rules/:id",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateRequest(pricingValidation.updateRule),
+  pricingController.updateRule,
+)
+
+router.post("/admin/rules/:id/restore", rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]), pricingController.restoreVersion)
+
+router.delete("/admin/rules/:id", rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]), pricingController.deactivateRule)
+
+export default router
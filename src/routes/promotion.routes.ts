@@ -0,0 +1,37 @@
+import { Router } from "express"
+import { PromotionController } from "../controllers/promotion.controller"
+import { authMiddleware } from "../middleware/auth.middleware"
+import { rbacMiddleware } from "../middleware/rbac.middleware"
+import { validateRequest } from "../middleware/validation.middleware"
+import { promotionValidation } from "../validations/promotion.validation"
+
+const router = Router()
+const promotionController = new PromotionController()
+
+router.use(authMiddleware)
+
+// Check a code before booking or checkout - returns the discount it would give
+router.post("/validate", validateRequest(promotionValidation.validatePromoCode), promotionController.validatePromoCode)
+
+// Campaign management
+router.get("/admin/campaigns", rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]), promotionController.getCampaigns)
+
+router.get("/admin/campaigns/:id", rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]), promotionController.getCampaignById)
+
+router.post(
+  "/admin/campaigns",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateRequest(promotionValidation.createCampaign),
+  promotionController.createCampaign,
+)
+
+router.put(
+  "/admin/campaigns/:id",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  validateRequest(promotionValidation.updateCampaign),
+  promotionController.updateCampaign,
+)
+
+router.delete("/admin/campaigns/:id", rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]), promotionController.deactivateCampaign)
+
+export default router
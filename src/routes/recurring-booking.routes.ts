@@ -0,0 +1,40 @@
+import { Router } from "express"
+import { RecurringBookingController } from "../controllers/recurring-booking.controller"
+import { authMiddleware } from "../middleware/auth.middleware"
+import { rbacMiddleware } from "../middleware/rbac.middleware"
+import { validateRequest } from "../middleware/validation.middleware"
+import { recurringBookingValidation } from "../validations/recurring-booking.validation"
+
+const router = Router()
+const recurringBookingController = new RecurringBookingController()
+
+router.use(authMiddleware)
+router.use(rbacMiddleware(["USER"]))
+
+router.post("/", validateRequest(recurringBookingValidation.createSeries), recurringBookingController.createSeries)
+
+router.get("/", recurringBookingController.getMySeries)
+
+router.get("/:id", recurringBookingController.getSeries)
+
+router.post(
+  "/:id/pause",
+  validateRequest(recurringBookingValidation.pauseSeries),
+  recurringBookingController.pauseSeries,
+)
+
+router.post("/:id/resume", recurringBookingController.resumeSeries)
+
+router.post(
+  "/:id/cancel",
+  validateRequest(recurringBookingValidation.cancelSeries),
+  recurringBookingController.cancelSeries,
+)
+
+router.post(
+  "/:id/skip",
+  validateRequest(recurringBookingValidation.skipOccurrence),
+  recurringBookingController.skipOccurrence,
+)
+
+export default router
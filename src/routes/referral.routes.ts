@@ -0,0 +1,24 @@
+import { Router } from "express"
+import { ReferralController } from "../controllers/referral.controller"
+import { authMiddleware } from "../middleware/auth.middleware"
+import { rbacMiddleware } from "../middleware/rbac.middleware"
+
+const router = Router()
+const referralController = new ReferralController()
+
+router.use(authMiddleware)
+
+// The signed-in user's code, reward terms and referral history
+router.get("/me", referralController.getMyReferrals)
+
+// Top referrers - ?period=week|month|all&limit=10
+router.get("/leaderboard", referralController.getLeaderboard)
+
+// Admin
+router.get("/admin/stats", rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]), referralController.getReferralStats)
+
+router.get("/admin/review", rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]), referralController.getReferralsForReview)
+
+router.post("/admin/:id/review", rbacMiddleware(["SUPER_ADMIN"]), referralController.reviewReferral)
+
+export default router
@@ -0,0 +1,19 @@
+import { Router } from "express"
+import { SmsController } from "../controllers/sms.controller"
+import { authMiddleware } from "../middleware/auth.middleware"
+import { rbacMiddleware } from "../middleware/rbac.middleware"
+
+const router = Router()
+const smsController = new SmsController()
+
+// Provider delivery reports (authenticated by signature, not by user token)
+router.post("/status-callback", smsController.handleStatusCallback)
+
+router.get(
+  "/admin/messages",
+  authMiddleware,
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN"]),
+  smsController.getMessages,
+)
+
+export default router
@@ -0,0 +1,47 @@
+import { Router } from "express"
+import { SupportController } from "../controllers/support.controller"
+import { authMiddleware } from "../middleware/auth.middleware"
+import { rbacMiddleware } from "../middleware/rbac.middleware"
+import { validateRequest } from "../middleware/validation.middleware"
+import { supportValidation } from "../validations/support.validation"
+
+const router = Router()
+const supportController = new SupportController()
+
+router.use(authMiddleware)
+
+// Customer and provider tickets
+router.post("/tickets", validateRequest(supportValidation.createTicket), supportController.createTicket)
+
+router.get("/tickets", supportController.getMyTickets)
+
+router.get("/tickets/:id", supportController.getTicket)
+
+router.post("/tickets/:id/messages", validateRequest(supportValidation.addMessage), supportController.addMessage)
+
+router.patch("/tickets/:id/status", validateRequest(supportValidation.updateStatus), supportController.updateStatus)
+
+// Agent desk
+router.get("/admin/queue", rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN", "SUPPORT_AGENT"]), supportController.getQueue)
+
+router.get(
+  "/admin/stats",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN", "SUPPORT_AGENT"]),
+  supportController.getQueueStats,
+)
+
+router.post(
+  "/admin/tickets/:id/assign",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN", "SUPPORT_AGENT"]),
+  validateRequest(supportValidation.assignTicket),
+  supportController.assignTicket,
+)
+
+router.patch(
+  "/admin/tickets/:id/priority",
+  rbacMiddleware(["SUPER_ADMIN", "CITY_ADMIN", "SUPPORT_AGENT"]),
+  validateRequest(supportValidation.updatePriority),
+  supportController.updatePriority,
+)
+
+export default router
@@ -3,6 +3,7 @@ import { TaxiDriverController } from "../controllers/taxi-driver.controller"
 import { validateRequest, validateQuery } from "../middleware/validation.middleware"
 import { taxiDriverValidation } from "../validations/taxi-driver.validation"
 import { rbacMiddleware } from "../middleware/rbac.middleware"
+import { authenticateToken } from "../middleware/auth.middleware"
 
 const router = Router()
 const taxiDriverController = new TaxiDriverController()
@@ -20,6 +21,8 @@ router.get("/vehicles", taxiDriverController.getVehicles)
 // Document management
 router.post("/documents", validateRequest(taxiDriverValidation.uploadDocument), taxiDriverController.uploadDocument)
 router.get("/documents", taxiDriverController.getDocuments)
+router.get("/documents/:id/url", authenticateToken, taxiDriverController.getDocumentUrl)
+router.delete("/documents/:id", authenticateToken, taxiDriverController.deleteDocument)
 
 // Availability and location
 router.put(
@@ -44,4 +44,28 @@ router.post(
   userController.disableTwoFactorAuth,
 )
 
+// Push notification devices
+router.get("/devices", authenticateToken, userController.getDevices)
+router.post("/devices", authenticateToken, validateRequest(userValidation.registerDevice), userController.registerDevice)
+router.delete(
+  "/devices",
+  authenticateToken,
+  validateRequest(userValidation.unregisterDevice),
+  userController.unregisterDevice,
+)
+
+// Notification preferences
+router.get("/notification-preferences", authenticateToken, userController.getNotificationPreferences)
+router.put(
+  "/notification-preferences",
+  authenticateToken,
+  validateRequest(userValidation.updateNotificationPreferences),
+  userController.updateNotificationPreferences,
+)
+router.post(
+  "/notification-preferences/unsubscribe",
+  validateRequest(userValidation.unsubscribe),
+  userController.unsubscribe,
+)
+
 export default router
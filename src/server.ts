@@ -4,6 +4,7 @@ import helmet from "helmet"
 import compression from "compression"
 import rateLimit from "express-rate-limit"
 import { createServer } from "http"
+import path from "path"
 import dotenv from "dotenv"
 import morgan from "morgan"
 
@@ -26,6 +27,20 @@ import subscriptionRoutes from "./routes/subscription.routes"
 import adminRoutes from "./routes/admin.routes"
 import dispatchRiderRoutes from "./routes/dispatch-rider.routes"
 import deliveryRoutes from "./routes/delivery.routes"
+import paymentRoutes from "./routes/payment.routes"
+import promotionRoutes from "./routes/promotion.routes"
+import referralRoutes from "./routes/referral.routes"
+import loyaltyRoutes from "./routes/loyalty.routes"
+import chatRoutes from "./routes/chat.routes"
+import supportRoutes from "./routes/support.routes"
+import recurringBookingRoutes from "./routes/recurring-booking.routes"
+import pricingRoutes from "./routes/pricing.routes"
+import smsRoutes from "./routes/sms.routes"
+import notificationRoutes from "./routes/notification.routes"
+import fleetRoutes from "./routes/fleet.routes"
+import corporateRoutes from "./routes/corporate.routes"
+import fareSplitRoutes from "./routes/fare-split.routes"
+import analyticsRoutes from "./routes/analytics.routes"
 
 // Import middleware
 import { errorHandler } from "./middleware/error.middleware"
@@ -33,7 +48,14 @@ import { healthCheck } from "./middleware/health.middleware"
 
 // Import services
 import { WebSocketService } from "./services/websocket.service"
+import { startCronJobs } from "./services/cron.service"
+import { geoIndexService } from "./services/geo-index.service"
+import { AnalyticsService } from "./services/analytics.service"
+import { startJobWorker } from "./services/job-worker.service"
+import { jobQueueService } from "./services/job-queue.service"
+import { LocalStorageAdapter } from "./services/storage.service"
 import logger from "./utils/logger"
+import type { RawBodyRequest } from "./types"
 
 // Load environment variables
 dotenv.config()
@@ -48,6 +70,12 @@ const webSocketService = new WebSocketService(server)
 // Make WebSocket service available globally for other services
 export const io = webSocketService
 
+// Behind a load balancer every request would come from its address unless its hops are trusted
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY
+  app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy)
+}
+
 // Security middleware
 app.use(helmet())
 app.use(compression())
@@ -79,8 +107,13 @@ app.use((req, res, next) => {
     // Skip JSON parsing for multipart requests - let multer handle them
     return next()
   }
-  // Apply JSON parsing for non-multipart requests
-  express.json({ limit: "10mb" })(req, res, next)
+  // Apply JSON parsing for non-multipart requests, keeping the raw body for webhook signature checks
+  express.json({
+    limit: "10mb",
+    verify: (request, _response, buffer) => {
+      (request as RawBodyRequest).rawBody = buffer
+    },
+  })(req, res, next)
 })
 
 app.use(express.urlencoded({ extended: true, limit: "10mb" }))
@@ -88,6 +121,16 @@ app.use(express.urlencoded({ extended: true, limit: "10mb" }))
 // Logging middleware
 app.use(morgan("combined"))
 
+// Files written by the local storage backend
+if (process.env.STORAGE_DRIVER === "local") {
+  const localStorage = new LocalStorageAdapter()
+  app.use(
+    "/uploads",
+    localStorage.requireSignature,
+    express.static(path.resolve(process.env.LOCAL_STORAGE_DIR || "uploads")),
+  )
+}
+
 // Health check endpoint
 app.get("/health", healthCheck)
 
@@ -110,6 +153,20 @@ app.use("/api/subscriptions", subscriptionRoutes)
 app.use("/api/admin", adminRoutes)
 app.use("/api/dispatch-riders", dispatchRiderRoutes)
 app.use("/api/delivery", deliveryRoutes)
+app.use("/api/payments", paymentRoutes)
+app.use("/api/promotions", promotionRoutes)
+app.use("/api/referrals", referralRoutes)
+app.use("/api/loyalty", loyaltyRoutes)
+app.use("/api/chat", chatRoutes)
+app.use("/api/support", supportRoutes)
+app.use("/api/recurring-bookings", recurringBookingRoutes)
+app.use("/api/pricing", pricingRoutes)
+app.use("/api/sms", smsRoutes)
+app.use("/api/notifications", notificationRoutes)
+app.use("/api/fleets", fleetRoutes)
+app.use("/api/corporate", corporateRoutes)
+app.use("/api/fare-splits", fareSplitRoutes)
+app.use("/api/analytics", analyticsRoutes)
 
 // Root endpoint
 app.get("/", (req, res) => {
@@ -138,11 +195,18 @@ server.listen(PORT, () => {
   logger.info(`🚀 Server running on port ${PORT}`)
   logger.info(`🌍 Environment: ${process.env.NODE_ENV || "development"}`)
   logger.info(`🔌 WebSocket service initialized and ready`)
+
+  startCronJobs()
+  startJobWorker()
+  void geoIndexService.rebuildAll()
+  // The service logs the failure; the nightly job tries again
+  void new AnalyticsService().ensureEventPartitions().catch(() => undefined)
 })
 
 // Graceful shutdown
 process.on("SIGTERM", () => {
   logger.info("SIGTERM received, shutting down gracefully")
+  jobQueueService.stop()
   server.close(() => {
     logger.info("Process terminated")
     process.exit(0)
@@ -151,6 +215,7 @@ process.on("SIGTERM", () => {
 
 process.on("SIGINT", () => {
   logger.info("SIGINT received, shutting down gracefully")
+  jobQueueService.stop()
   server.close(() => {
     logger.info("Process terminated")
     process.exit(0)
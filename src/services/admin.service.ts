@@ -1,6 +1,8 @@
 import prisma from "../config/database"
 import { NotificationService } from "./notification.service"
 import { AnalyticsService } from "./analytics.service"
+import { DocumentAccessService } from "./document-access.service"
+import { auditService } from "./audit.service"
 import logger from "../utils/logger"
 
 interface AdminDashboardData {
@@ -41,6 +43,7 @@ interface AdminDashboardData {
 export class AdminService {
   private notificationService = new NotificationService()
   private analyticsService = new AnalyticsService()
+  private documentAccessService = new DocumentAccessService()
 
   async getDashboardData(): Promise<AdminDashboardData> {
     try {
@@ -147,6 +150,63 @@ export class AdminService {
     }
   }
 
+  /**
+   * Erase a user on request. KYC files and records are deleted outright; the account itself
+   * is kept for bookings and payments but stripped of personal details and signed out.
+   */
+  async eraseUser(userId: string, adminId: string) {
+    try {
+      const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, role: true } })
+      if (!user) {
+        throw new Error("User not found")
+      }
+      if (user.id === adminId || user.role === "SUPER_ADMIN") {
+        throw new Error("This account cannot be erased")
+      }
+
+      const documentsRemoved = await this.documentAccessService.eraseUserDocuments(userId)
+
+      await prisma.$transaction([
+        prisma.deviceToken.deleteMany({ where: { userId } }),
+        prisma.userSession.deleteMany({ where: { userId } }),
+        prisma.user.update({
+          where: { id: userId },
+          data: {
+            email: `erased-${userId}@erased.tripsync.invalid`,
+            phone: `erased-${userId}`,
+            passwordHash: null,
+            username: null,
+            firstName: null,
+            lastName: null,
+            gender: null,
+            avatar: null,
+            dateOfBirth: null,
+            isActive: false,
+            twoFactorEnabled: false,
+            twoFactorSecret: null,
+            mobileMoneyProvider: null,
+            mobileMoneyNumber: null,
+            mobileMoneyAccountName: null,
+            mobileMoneyVerified: false,
+            bankName: null,
+            bankAccountNumber: null,
+            bankAccountName: null,
+            bankCode: null,
+            bankAccountVerified: false,
+          },
+        }),
+      ])
+
+      await auditService.logAdminAction(adminId, "USER_ERASED", "user", userId, { documentsRemoved })
+      logger.info(`User ${userId} erased by admin ${adminId}`)
+
+      return { userId, documentsRemoved }
+    } catch (error) {
+      logger.error("Erase user error:", error)
+      throw error
+    }
+  }
+
   async getSystemMetrics(dateRange?: { from: Date; to: Date }): Promise<any> {
     try {
       const where: any = {}
@@ -248,37 +308,29 @@ export class AdminService {
 
   private async getRevenueByServiceType(dateRange?: { from: Date; to: Date }): Promise<Array<{ service: string; revenue: number; bookings: number }>> {
     try {
-      const where: any = { status: 'COMPLETED' }
+      const where: any = { granularity: "DAY" }
       if (dateRange) {
-        where.createdAt = {
-          gte: dateRange.from,
+        where.periodStart = {
+          gte: new Date(Date.UTC(dateRange.from.getUTCFullYear(), dateRange.from.getUTCMonth(), dateRange.from.getUTCDate())),
           lte: dateRange.to,
         }
       }
 
-      const serviceRevenue = await prisma.booking.groupBy({
-        by: ['serviceTypeId'],
-        where,
-        _count: true,
-        _sum: { finalPrice: true },
-      })
-
-      const result = await Promise.all(
-        serviceRevenue.map(async (item) => {
-          const serviceType = await prisma.serviceType.findUnique({
-            where: { id: item.serviceTypeId },
-            select: { displayName: true },
-          })
-
-          return {
-            service: serviceType?.displayName || 'Unknown',
-            revenue: item._sum.finalPrice || 0,
-            bookings: item._count,
-          }
-        })
-      )
+      const [serviceRevenue, serviceTypes] = await Promise.all([
+        prisma.analyticsRollup.groupBy({
+          by: ['serviceTypeId'],
+          where,
+          _sum: { completedBookings: true, revenue: true },
+        }),
+        prisma.serviceType.findMany({ select: { id: true, displayName: true } }),
+      ])
 
-      return result
+      const names = new Map(serviceTypes.map((type) => [type.id, type.displayName]))
+      return serviceRevenue.map((item) => ({
+        service: names.get(item.serviceTypeId) || 'Unknown',
+        revenue: item._sum.revenue || 0,
+        bookings: item._sum.completedBookings || 0,
+      }))
     } catch (error) {
       logger.error("Get revenue by service type error:", error)
       return []
@@ -287,50 +339,33 @@ export class AdminService {
 
   private async getHourlyActivityPatterns(dateRange?: { from: Date; to: Date }): Promise<Array<{ hour: number; rides: number; deliveries: number }>> {
     try {
-      const hourlyData = []
+      // Today unless a range is given
+      const from = dateRange?.from || new Date(new Date().setUTCHours(0, 0, 0, 0))
+      const to = dateRange?.to || new Date()
 
-      for (let hour = 0; hour < 24; hour++) {
-        const where: any = {}
-        if (dateRange) {
-          where.createdAt = {
-            gte: dateRange.from,
-            lte: dateRange.to,
-          }
-        }
+      const [hourlyRollups, serviceTypes] = await Promise.all([
+        prisma.analyticsRollup.groupBy({
+          by: ['periodStart', 'serviceTypeId'],
+          where: {
+            granularity: "HOUR",
+            periodStart: { gte: new Date(new Date(from).setUTCMinutes(0, 0, 0)), lte: to },
+          },
+          _sum: { bookings: true },
+        }),
+        prisma.serviceType.findMany({ select: { id: true, name: true } }),
+      ])
 
-        // Add hour filter
-        const startHour = new Date()
-        startHour.setHours(hour, 0, 0, 0)
-        const endHour = new Date()
-        endHour.setHours(hour + 1, 0, 0, 0)
+      const serviceNames = new Map(serviceTypes.map((type) => [type.id, type.name]))
+      const hourlyData = Array.from({ length: 24 }, (_, hour) => ({ hour, rides: 0, deliveries: 0 }))
 
-        if (where.createdAt) {
-          where.createdAt.gte = new Date(Math.max(where.createdAt.gte.getTime(), startHour.getTime()))
-          where.createdAt.lte = new Date(Math.min(where.createdAt.lte?.getTime() || endHour.getTime(), endHour.getTime()))
-        } else {
-          where.createdAt = { gte: startHour, lte: endHour }
+      for (const rollup of hourlyRollups) {
+        const name = serviceNames.get(rollup.serviceTypeId) || ''
+        const hour = hourlyData[rollup.periodStart.getUTCHours()]
+        if (['RIDE', 'TAXI'].includes(name)) {
+          hour.rides += rollup._sum.bookings || 0
+        } else if (['STORE_DELIVERY', 'FOOD_DELIVERY', 'PACKAGE_DELIVERY'].includes(name)) {
+          hour.deliveries += rollup._sum.bookings || 0
         }
-
-        const [rides, deliveries] = await Promise.all([
-          prisma.booking.count({
-            where: {
-              ...where,
-              serviceType: { name: { in: ['RIDE', 'TAXI'] } },
-            },
-          }),
-          prisma.booking.count({
-            where: {
-              ...where,
-              serviceType: { name: { in: ['STORE_DELIVERY', 'FOOD_DELIVERY', 'PACKAGE_DELIVERY'] } },
-            },
-          }),
-        ])
-
-        hourlyData.push({
-          hour,
-          rides,
-          deliveries,
-        })
       }
 
       return hourlyData
@@ -592,33 +627,33 @@ export class AdminService {
 
   private async getBookingTrends(): Promise<Array<{ month: string; bookings: number; revenue: number }>> {
     try {
-      const months = []
-      for (let i = 5; i >= 0; i--) {
-        const date = new Date()
-        date.setMonth(date.getMonth() - i)
-        const startOfMonth = new Date(date.getFullYear(), date.getMonth(), 1)
-        const endOfMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0)
+      const now = new Date()
+      const firstMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 5, 1))
 
-        const [bookings, revenue] = await Promise.all([
-          prisma.booking.count({
-            where: {
-              createdAt: { gte: startOfMonth, lte: endOfMonth },
-            },
-          }),
-          prisma.booking.aggregate({
-            where: {
-              status: "COMPLETED",
-              createdAt: { gte: startOfMonth, lte: endOfMonth },
-            },
-            _sum: { finalPrice: true },
-          }),
-        ])
+      const dailyRollups = await prisma.analyticsRollup.groupBy({
+        by: ['periodStart'],
+        where: { granularity: "DAY", periodStart: { gte: firstMonth } },
+        _sum: { bookings: true, revenue: true },
+      })
 
-        months.push({
-          month: startOfMonth.toLocaleDateString('en-US', { month: 'short' }),
-          bookings,
-          revenue: revenue._sum.finalPrice || 0,
-        })
+      const months = Array.from({ length: 6 }, (_, i) => {
+        const startOfMonth = new Date(Date.UTC(firstMonth.getUTCFullYear(), firstMonth.getUTCMonth() + i, 1))
+        return {
+          month: startOfMonth.toLocaleDateString('en-US', { month: 'short', timeZone: 'UTC' }),
+          bookings: 0,
+          revenue: 0,
+        }
+      })
+
+      for (const rollup of dailyRollups) {
+        const index =
+          (rollup.periodStart.getUTCFullYear() - firstMonth.getUTCFullYear()) * 12 +
+          rollup.periodStart.getUTCMonth() -
+          firstMonth.getUTCMonth()
+        if (months[index]) {
+          months[index].bookings += rollup._sum.bookings || 0
+          months[index].revenue += rollup._sum.revenue || 0
+        }
       }
 
       return months
@@ -0,0 +1,440 @@
+import type { Prisma, RollupGranularity } from "@prisma/client"
+import prisma from "../config/database"
+import { JOB_TYPES, jobQueueService } from "./job-queue.service"
+import { auditService } from "./audit.service"
+import logger from "../utils/logger"
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+// Trips finish and get rated after the day they were booked, so recent days are rebuilt nightly
+const SETTLE_DAYS = 3
+export const MAX_BACKFILL_DAYS = 366
+const MAX_HOURLY_RANGE_DAYS = 31
+
+export type KpiInterval = "hour" | "day" | "week" | "month"
+export type KpiComparison = "previous_period" | "previous_year"
+
+const COUNTERS = [
+  "bookings",
+  "completedBookings",
+  "cancelledBookings",
+  "revenue",
+  "platformCommission",
+  "providerEarnings",
+  "tripMinutes",
+  "timedTrips",
+  "ratingTotal",
+  "ratingCount",
+] as const
+
+type RollupCounters = Record<(typeof COUNTERS)[number], number>
+
+interface KpiFilters {
+  serviceTypeId?: string
+  serviceZoneId?: string
+}
+
+export class AnalyticsRollupService {
+  /**
+   * Rebuild the hourly and daily rollups and the DailyAnalytics row for one day. The day is
+   * replaced as a whole under a per-day lock, so running it again (or backfilling over it, even
+   * at the same time) never double counts.
+   */
+  async rollupDay(date: Date) {
+    const start = this.startOfPeriod(date, "day")
+    const end = new Date(start.getTime() + DAY_MS)
+
+    try {
+      const hourly = await prisma.$queryRaw<Array<RollupCounters & { periodStart: Date; serviceTypeId: string; serviceZoneId: string | null }>>`
+        SELECT date_trunc('hour', b."createdAt") AS "periodStart", b."serviceTypeId", b."originZoneId" AS "serviceZoneId",
+          COUNT(*)::int AS "bookings",
+          COUNT(*) FILTER (WHERE b."status" = 'COMPLETED')::int AS "completedBookings",
+          COUNT(*) FILTER (WHERE b."status" = 'CANCELLED')::int AS "cancelledBookings",
+          COALESCE(SUM(b."finalPrice") FILTER (WHERE b."status" = 'COMPLETED'), 0)::float AS "revenue",
+          COALESCE(SUM(b."platformCommission") FILTER (WHERE b."status" = 'COMPLETED'), 0)::float AS "platformCommission",
+          COALESCE(SUM(b."providerEarning") FILTER (WHERE b."status" = 'COMPLETED'), 0)::float AS "providerEarnings",
+          COALESCE(SUM(b."actualDuration") FILTER (WHERE b."status" = 'COMPLETED'), 0)::int AS "tripMinutes",
+          COUNT(b."actualDuration") FILTER (WHERE b."status" = 'COMPLETED')::int AS "timedTrips",
+          COALESCE(SUM(r."total"), 0)::int AS "ratingTotal",
+          COALESCE(SUM(r."count"), 0)::int AS "ratingCount"
+        FROM "bookings" b
+        LEFT JOIN LATERAL (
+          SELECT SUM(rv."rating") AS "total", COUNT(*) AS "count"
+          FROM "reviews" rv
+          WHERE rv."bookingId" = b."id" AND rv."type" = 'SERVICE_PROVIDER'
+        ) r ON true
+        WHERE b."createdAt" >= ${start} AND b."createdAt" < ${end}
+        GROUP BY 1, 2, 3
+      `
+
+      const daily = new Map<string, Prisma.AnalyticsRollupCreateManyInput>()
+      for (const row of hourly) {
+        const key = `${row.serviceTypeId}:${row.serviceZoneId || ""}`
+        const day = daily.get(key) || {
+          granularity: "DAY" as RollupGranularity,
+          periodStart: start,
+          serviceTypeId: row.serviceTypeId,
+          serviceZoneId: row.serviceZoneId,
+          ...this.emptyCounters(),
+        }
+        for (const counter of COUNTERS) {
+          day[counter] = (day[counter] as number) + row[counter]
+        }
+        daily.set(key, day)
+      }
+
+      const totals = this.sumCounters(Array.from(daily.values()) as RollupCounters[])
+      const [activeUsers, newUsers] = await Promise.all([
+        this.countActiveUsers(start, end),
+        prisma.user.count({ where: { createdAt: { gte: start, lt: end } } }),
+      ])
+      const dailyAnalytics = {
+        totalBookings: totals.bookings,
+        totalRevenue: totals.revenue,
+        activeUsers,
+        newUsers,
+        averageRating: totals.ratingCount > 0 ? totals.ratingTotal / totals.ratingCount : 0,
+        completionRate: this.percentage(totals.completedBookings, totals.bookings),
+        cancellationRate: this.percentage(totals.cancelledBookings, totals.bookings),
+      }
+
+      await prisma.$transaction(async (tx) => {
+        // The nightly rebuild and backfill jobs can reach the same day at once; without the lock
+        // both deletes run before either insert and the day is counted twice
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`analytics-rollup:${start.toISOString().slice(0, 10)}`}))`
+
+        await tx.analyticsRollup.deleteMany({ where: { periodStart: { gte: start, lt: end } } })
+        await tx.analyticsRollup.createMany({
+          data: [
+            ...hourly.map((row) => ({ ...row, granularity: "HOUR" as RollupGranularity })),
+            ...daily.values(),
+          ],
+        })
+        await tx.dailyAnalytics.upsert({
+          where: { date: start },
+          create: { date: start, ...dailyAnalytics },
+          update: dailyAnalytics,
+        })
+      })
+
+      return { date: start, hourlyRows: hourly.length, dailyRows: daily.size }
+    } catch (error) {
+      logger.error(`Analytics rollup for ${start.toISOString().slice(0, 10)} error:`, error)
+      throw error
+    }
+  }
+
+  // Today so far plus the last few days, whose trips may have finished since
+  async rollupRecent(days = SETTLE_DAYS) {
+    const today = this.startOfPeriod(new Date(), "day")
+    for (let offset = days; offset >= 0; offset--) {
+      await this.rollupDay(new Date(today.getTime() - offset * DAY_MS))
+    }
+  }
+
+  /**
+   * Queue one rollup job per day in the range. Days already waiting in the queue are not
+   * queued twice.
+   */
+  async scheduleBackfill(adminId: string, from: Date, to: Date) {
+    try {
+      const first = this.startOfPeriod(from, "day")
+      const last = this.startOfPeriod(to, "day")
+      const today = this.startOfPeriod(new Date(), "day")
+      if (last > today) {
+        throw new Error("Rollups can't be built for future dates")
+      }
+
+      const days = Math.round((last.getTime() - first.getTime()) / DAY_MS) + 1
+      if (days > MAX_BACKFILL_DAYS) {
+        throw new Error(`A backfill can cover at most ${MAX_BACKFILL_DAYS} days`)
+      }
+
+      for (let offset = 0; offset < days; offset++) {
+        const date = new Date(first.getTime() + offset * DAY_MS).toISOString().slice(0, 10)
+        await jobQueueService.enqueue(JOB_TYPES.ANALYTICS_ROLLUP, { date }, { dedupeKey: `analytics-rollup:${date}` })
+      }
+
+      await auditService.logAdminAction(adminId, "ANALYTICS_BACKFILL_SCHEDULED", "analytics_rollup", undefined, {
+        from: first,
+        to: last,
+        days,
+      })
+
+      return { from: first, to: last, days }
+    } catch (error) {
+      logger.error("Schedule analytics backfill error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * KPIs per hour, day, week or month from the rollups, each point paired with the same
+   * point in the comparison period when one is asked for.
+   */
+  async getTimeSeries(options: {
+    dateRange: { from: Date; to: Date }
+    interval: KpiInterval
+    compare?: KpiComparison
+    filters?: KpiFilters
+  }) {
+    try {
+      const { dateRange, interval, compare, filters = {} } = options
+      if (interval === "hour" && dateRange.to.getTime() - dateRange.from.getTime() > MAX_HOURLY_RANGE_DAYS * DAY_MS) {
+        throw new Error(`Hourly series can cover at most ${MAX_HOURLY_RANGE_DAYS} days`)
+      }
+
+      const current = await this.loadSeries(dateRange, interval, filters)
+
+      const comparisonRange = compare ? this.comparisonRange(dateRange, compare) : null
+      const previous = comparisonRange ? await this.loadSeries(comparisonRange, interval, filters) : null
+
+      // Points are paired by how many periods they are from the start of their own range, so a
+      // range that spans a different number of buckets (a leap day, a month boundary) still lines up
+      const previousByOffset =
+        previous && comparisonRange
+          ? new Map(previous.map((point) => [this.periodOffset(comparisonRange.from, point.periodStart, interval), point]))
+          : null
+
+      const currentTotals = this.sumCounters(current.map((point) => point.counters))
+      const previousTotals = previous ? this.sumCounters(previous.map((point) => point.counters)) : null
+
+      return {
+        interval,
+        dateRange,
+        comparison: comparisonRange ? { type: compare, dateRange: comparisonRange } : null,
+        totals: this.withChanges(this.toKpis(currentTotals), previousTotals && this.toKpis(previousTotals)),
+        series: current.map((point) => {
+          const match = previousByOffset?.get(this.periodOffset(dateRange.from, point.periodStart, interval))
+          return {
+            periodStart: point.periodStart,
+            ...this.toKpis(point.counters),
+            previous: match ? { periodStart: match.periodStart, ...this.toKpis(match.counters) } : undefined,
+          }
+        }),
+      }
+    } catch (error) {
+      logger.error("Get KPI time series error:", error)
+      throw error
+    }
+  }
+
+  // KPIs for the range split by service type or pickup zone, with the change on the comparison period
+  async getBreakdown(options: {
+    dateRange: { from: Date; to: Date }
+    by: "serviceType" | "serviceZone"
+    compare?: KpiComparison
+  }) {
+    try {
+      const { dateRange, by, compare = "previous_period" } = options
+      const field = by === "serviceType" ? "serviceTypeId" : "serviceZoneId"
+      const comparisonRange = this.comparisonRange(dateRange, compare)
+
+      const [current, previous] = await Promise.all([
+        this.loadGroups(dateRange, field),
+        this.loadGroups(comparisonRange, field),
+      ])
+
+      const ids = Array.from(current.keys()).filter((id): id is string => id !== null)
+      const names = new Map<string, string>(
+        by === "serviceType"
+          ? (await prisma.serviceType.findMany({ where: { id: { in: ids } }, select: { id: true, displayName: true } })).map(
+              (type) => [type.id, type.displayName],
+            )
+          : (
+              await prisma.serviceZone.findMany({ where: { id: { in: ids } }, select: { id: true, name: true, displayName: true } })
+            ).map((zone) => [zone.id, zone.displayName || zone.name]),
+      )
+
+      const rows = Array.from(current.entries()).map(([id, counters]) => {
+        const previousCounters = previous.get(id)
+        return {
+          id,
+          name: id ? names.get(id) || "Unknown" : "Outside service zones",
+          ...this.withChanges(this.toKpis(counters), previousCounters ? this.toKpis(previousCounters) : null),
+        }
+      })
+
+      return {
+        by,
+        dateRange,
+        comparison: { type: compare, dateRange: comparisonRange },
+        rows: rows.sort((a, b) => b.revenue.value - a.revenue.value),
+      }
+    } catch (error) {
+      logger.error("Get KPI breakdown error:", error)
+      throw error
+    }
+  }
+
+  private async loadSeries(dateRange: { from: Date; to: Date }, interval: KpiInterval, filters: KpiFilters) {
+    const granularity: RollupGranularity = interval === "hour" ? "HOUR" : "DAY"
+    const rows = await prisma.analyticsRollup.groupBy({
+      by: ["periodStart"],
+      where: {
+        granularity,
+        periodStart: { gte: this.startOfPeriod(dateRange.from, interval === "hour" ? "hour" : "day"), lte: dateRange.to },
+        serviceTypeId: filters.serviceTypeId,
+        serviceZoneId: filters.serviceZoneId,
+      },
+      _sum: this.sumSelection(),
+    })
+
+    // Every bucket in the range is returned, including the empty ones
+    const buckets = new Map<number, { periodStart: Date; counters: RollupCounters }>()
+    for (
+      let bucket = this.startOfPeriod(dateRange.from, interval);
+      bucket <= dateRange.to;
+      bucket = this.nextPeriod(bucket, interval)
+    ) {
+      buckets.set(bucket.getTime(), { periodStart: bucket, counters: this.emptyCounters() })
+    }
+
+    for (const row of rows) {
+      const bucket = buckets.get(this.startOfPeriod(row.periodStart, interval).getTime())
+      if (!bucket) continue
+      for (const counter of COUNTERS) {
+        bucket.counters[counter] += row._sum[counter] || 0
+      }
+    }
+
+    return Array.from(buckets.values())
+  }
+
+  private async loadGroups(dateRange: { from: Date; to: Date }, field: "serviceTypeId" | "serviceZoneId") {
+    const rows = await prisma.analyticsRollup.groupBy({
+      by: [field],
+      where: {
+        granularity: "DAY",
+        periodStart: { gte: this.startOfPeriod(dateRange.from, "day"), lte: dateRange.to },
+      },
+      _sum: this.sumSelection(),
+    })
+
+    const groups = new Map<string | null, RollupCounters>()
+    for (const row of rows) {
+      const counters = this.emptyCounters()
+      for (const counter of COUNTERS) {
+        counters[counter] = row._sum[counter] || 0
+      }
+      groups.set(row[field], counters)
+    }
+    return groups
+  }
+
+  private toKpis(counters: RollupCounters) {
+    return {
+      bookings: counters.bookings,
+      completedBookings: counters.completedBookings,
+      cancelledBookings: counters.cancelledBookings,
+      revenue: this.roundAmount(counters.revenue),
+      platformCommission: this.roundAmount(counters.platformCommission),
+      providerEarnings: this.roundAmount(counters.providerEarnings),
+      completionRate: this.percentage(counters.completedBookings, counters.bookings),
+      cancellationRate: this.percentage(counters.cancelledBookings, counters.bookings),
+      averageTripMinutes: counters.timedTrips > 0 ? this.roundAmount(counters.tripMinutes / counters.timedTrips) : 0,
+      averageRating: counters.ratingCount > 0 ? this.roundAmount(counters.ratingTotal / counters.ratingCount) : 0,
+    }
+  }
+
+  // Each KPI as { value, previous, change } where change is the percentage difference
+  private withChanges<T extends Record<string, number>>(current: T, previous: T | null) {
+    const result = {} as Record<keyof T, { value: number; previous: number | null; change: number | null }>
+    for (const key of Object.keys(current) as Array<keyof T>) {
+      const before = previous ? previous[key] : null
+      result[key] = {
+        value: current[key],
+        previous: before,
+        change: before ? this.roundAmount(((current[key] - before) / before) * 100) : null,
+      }
+    }
+    return result
+  }
+
+  private comparisonRange(dateRange: { from: Date; to: Date }, compare: KpiComparison) {
+    if (compare === "previous_year") {
+      const from = new Date(dateRange.from)
+      const to = new Date(dateRange.to)
+      from.setUTCFullYear(from.getUTCFullYear() - 1)
+      to.setUTCFullYear(to.getUTCFullYear() - 1)
+      return { from, to }
+    }
+
+    // The same length of time immediately before
+    const length = dateRange.to.getTime() - dateRange.from.getTime()
+    return { from: new Date(dateRange.from.getTime() - length - 1), to: new Date(dateRange.from.getTime() - 1) }
+  }
+
+  private async countActiveUsers(start: Date, end: Date) {
+    const [result] = await prisma.$queryRaw<Array<{ count: number }>>`
+      SELECT COUNT(*)::int AS "count" FROM (
+        SELECT e."userId" FROM "analytics_events" e WHERE e."day" = ${start}::date
+        UNION
+        SELECT b."customerId" FROM "bookings" b WHERE b."createdAt" >= ${start} AND b."createdAt" < ${end}
+      ) active
+    `
+    return result?.count || 0
+  }
+
+  private sumSelection() {
+    return Object.fromEntries(COUNTERS.map((counter) => [counter, true])) as Record<(typeof COUNTERS)[number], true>
+  }
+
+  private sumCounters(rows: RollupCounters[]) {
+    const totals = this.emptyCounters()
+    for (const row of rows) {
+      for (const counter of COUNTERS) {
+        totals[counter] += row[counter]
+      }
+    }
+    return totals
+  }
+
+  private emptyCounters(): RollupCounters {
+    return Object.fromEntries(COUNTERS.map((counter) => [counter, 0])) as RollupCounters
+  }
+
+  // Periods are in UTC, which is also Accra time; weeks start on Monday
+  private startOfPeriod(date: Date, interval: KpiInterval) {
+    const start = new Date(date)
+    if (interval === "hour") {
+      start.setUTCMinutes(0, 0, 0)
+      return start
+    }
+
+    start.setUTCHours(0, 0, 0, 0)
+    if (interval === "week") {
+      start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7))
+    } else if (interval === "month") {
+      start.setUTCDate(1)
+    }
+    return start
+  }
+
+  // Whole periods between the period the range starts in and periodStart
+  private periodOffset(rangeStart: Date, periodStart: Date, interval: KpiInterval) {
+    const first = this.startOfPeriod(rangeStart, interval)
+    if (interval === "month") {
+      return (periodStart.getUTCFullYear() - first.getUTCFullYear()) * 12 + periodStart.getUTCMonth() - first.getUTCMonth()
+    }
+    const length = interval === "hour" ? HOUR_MS : interval === "week" ? 7 * DAY_MS : DAY_MS
+    return Math.round((periodStart.getTime() - first.getTime()) / length)
+  }
+
+  private nextPeriod(date: Date, interval: KpiInterval) {
+    const next = new Date(date)
+    if (interval === "hour") next.setUTCHours(next.getUTCHours() + 1)
+    else if (interval === "day") next.setUTCDate(next.getUTCDate() + 1)
+    else if (interval === "week") next.setUTCDate(next.getUTCDate() + 7)
+    else next.setUTCMonth(next.getUTCMonth() + 1)
+    return next
+  }
+
+  private percentage(value: number, total: number) {
+    return total > 0 ? this.roundAmount((value / total) * 100) : 0
+  }
+
+  private roundAmount(amount: number) {
+    return Math.round(amount * 100) / 100
+  }
+}
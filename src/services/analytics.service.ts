@@ -1,7 +1,21 @@
+import { Prisma } from "@prisma/client"
 import prisma from "../config/database"
 import logger from "../utils/logger"
 
-interface UserBehaviorEvent {
+// Booking funnel as recorded by the server: estimate → booking → accepted → completed
+const DEFAULT_FUNNEL_STEPS = ["ESTIMATE_REQUESTED", "BOOKING_CREATED", "BOOKING_ASSIGNED", "BOOKING_COMPLETED"]
+const DEFAULT_CONVERSION_WINDOW_HOURS = 7 * 24
+// Events the server records itself; apps can't send these or they'd skew the funnel
+const SERVER_EVENT_PREFIXES = ["BOOKING_", "PROVIDER_BOOKING_", "ESTIMATE_"]
+const MAX_CLIENT_EVENT_AGE_DAYS = 7
+// Keeps memory bounded if the database is unreachable for a while
+const MAX_BUFFERED_EVENTS = 10000
+const MAX_PROPERTY_GROUPS = 100
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type CohortPeriod = "day" | "week" | "month"
+
+export interface UserBehaviorEvent {
   userId: string
   eventType: string
   eventData: Record<string, any>
@@ -30,13 +44,34 @@ interface PerformanceMetrics {
   uptime: number
 }
 
+export interface EventFilters {
+  userId?: string
+  eventType?: string
+  dateRange?: { from: Date; to: Date }
+  // Matched against the event's properties; dotted keys reach into nested objects
+  properties?: Record<string, string | number | boolean>
+}
+
+export interface ClientEvent {
+  eventType: string
+  properties?: Record<string, any>
+  sessionId?: string
+  timestamp?: Date
+  deviceInfo?: { platform: string; version: string; deviceId: string }
+}
+
 export class AnalyticsService {
-  private eventBuffer: UserBehaviorEvent[] = []
+  // Shared by every instance so a single timer flushes all tracked events
+  private static eventBuffer: UserBehaviorEvent[] = []
+  private static processorStarted = false
   private readonly BUFFER_SIZE = 100
   private readonly FLUSH_INTERVAL = 30000 // 30 seconds
 
   constructor() {
-    this.startEventProcessor()
+    if (!AnalyticsService.processorStarted) {
+      AnalyticsService.processorStarted = true
+      this.startEventProcessor()
+    }
   }
 
   /**
@@ -45,10 +80,10 @@ export class AnalyticsService {
   async trackEvent(event: UserBehaviorEvent): Promise<void> {
     try {
       // Add to buffer for batch processing
-      this.eventBuffer.push(event)
+      AnalyticsService.eventBuffer.push(event)
 
       // Flush buffer if it's full
-      if (this.eventBuffer.length >= this.BUFFER_SIZE) {
+      if (AnalyticsService.eventBuffer.length >= this.BUFFER_SIZE) {
         await this.flushEventBuffer()
       }
     } catch (error) {
@@ -56,6 +91,41 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Track events sent by the apps. They are always attributed to the signed-in user, and
+   * events too old to land in a recent partition are dropped.
+   */
+  async trackClientEvents(userId: string, events: ClientEvent[]) {
+    const reserved = events.find((event) =>
+      SERVER_EVENT_PREFIXES.some((prefix) => event.eventType.toUpperCase().startsWith(prefix)),
+    )
+    if (reserved) {
+      throw new Error(`${reserved.eventType} is recorded by the server and can't be sent by the app`)
+    }
+
+    const now = new Date()
+    const oldest = new Date(now.getTime() - MAX_CLIENT_EVENT_AGE_DAYS * DAY_MS)
+    let accepted = 0
+
+    for (const event of events) {
+      const timestamp = event.timestamp ? new Date(event.timestamp) : now
+      if (timestamp < oldest) continue
+
+      await this.trackEvent({
+        userId,
+        eventType: event.eventType,
+        eventData: event.properties || {},
+        // Device clocks run fast; never store an event in the future
+        timestamp: timestamp > now ? now : timestamp,
+        sessionId: event.sessionId,
+        deviceInfo: event.deviceInfo,
+      })
+      accepted++
+    }
+
+    return { accepted, dropped: events.length - accepted }
+  }
+
   /**
    * Track booking events
    */
@@ -191,88 +261,236 @@ export class AnalyticsService {
     hourlyActivity: Array<{ hour: number; count: number }>
   }> {
     try {
-      const where: any = {}
-      if (userId) where.userId = userId
-      if (dateRange) {
-        where.timestamp = {
-          gte: dateRange.from,
-          lte: dateRange.to,
-        }
-      }
+      const conditions = this.eventConditions({ userId, dateRange })
+
+      const [eventCounts, platformCounts, sessions, hourlyCounts] = await Promise.all([
+        prisma.$queryRaw<Array<{ eventType: string; count: number }>>`
+          SELECT e."eventType", COUNT(*)::int AS "count"
+          FROM "analytics_events" e
+          ${this.whereClause(conditions)}
+          GROUP BY e."eventType"
+          ORDER BY "count" DESC
+        `,
+
+        prisma.$queryRaw<Array<{ platform: string; count: number }>>`
+          SELECT e."platform", COUNT(*)::int AS "count"
+          FROM "analytics_events" e
+          ${this.whereClause([...conditions, Prisma.sql`e."platform" IS NOT NULL`])}
+          GROUP BY e."platform"
+          ORDER BY "count" DESC
+        `,
+
+        // A session lasts from its first event to its last
+        prisma.$queryRaw<Array<{ averageSeconds: number | null }>>`
+          SELECT AVG(s."duration")::float AS "averageSeconds"
+          FROM (
+            SELECT EXTRACT(EPOCH FROM MAX(e."occurredAt") - MIN(e."occurredAt")) AS "duration"
+            FROM "analytics_events" e
+            ${this.whereClause([...conditions, Prisma.sql`e."sessionId" IS NOT NULL`])}
+            GROUP BY e."sessionId"
+          ) s
+        `,
+
+        prisma.$queryRaw<Array<{ hour: number; count: number }>>`
+          SELECT EXTRACT(HOUR FROM e."occurredAt")::int AS "hour", COUNT(*)::int AS "count"
+          FROM "analytics_events" e
+          ${this.whereClause(conditions)}
+          GROUP BY 1
+        `,
+      ])
 
-      // Note: These models need to be added to the schema
-      // For now, return empty data structure
-      const events: Array<{
-        eventType: string
-        timestamp: Date
-        deviceInfo?: { platform: string }
-        sessionId?: string
-      }> = []
-
-      const totalEvents = events.length
-
-      // Top events
-      const eventCounts = new Map<string, number>()
-      events.forEach((event) => {
-        const current = eventCounts.get(event.eventType) || 0
-        eventCounts.set(event.eventType, current + 1)
+      const totalEvents = eventCounts.reduce((sum, event) => sum + event.count, 0)
+      const topEvents = eventCounts.slice(0, 10)
+
+      const hourlyActivity = Array.from({ length: 24 }, (_, hour) => ({ hour, count: 0 }))
+      hourlyCounts.forEach((row) => {
+        hourlyActivity[row.hour].count = row.count
       })
 
-      const topEvents = Array.from(eventCounts.entries())
-        .map(([eventType, count]) => ({ eventType, count }))
-        .sort((a, b) => b.count - a.count)
-        .slice(0, 10)
-
-      // Session duration calculation
-      const sessions = new Map<string, { start: Date; end: Date }>()
-      events.forEach((event) => {
-        if (event.sessionId) {
-          const existing = sessions.get(event.sessionId)
-          if (existing) {
-            if (event.timestamp < existing.start) existing.start = event.timestamp
-            if (event.timestamp > existing.end) existing.end = event.timestamp
-          } else {
-            sessions.set(event.sessionId, { start: event.timestamp, end: event.timestamp })
-          }
+      return {
+        totalEvents,
+        topEvents,
+        sessionDuration: (sessions[0]?.averageSeconds || 0) / 60, // Convert to minutes
+        deviceBreakdown: platformCounts,
+        hourlyActivity,
+      }
+    } catch (error) {
+      logger.error("Get user behavior analytics error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * How many users move through each step of a funnel. Users enter on their first
+   * occurrence of the first step within the date range, and each later step only counts
+   * when it happens after the previous one and within the conversion window.
+   */
+  async getFunnel(options: {
+    dateRange: { from: Date; to: Date }
+    steps?: string[]
+    conversionWindowHours?: number
+    properties?: EventFilters["properties"]
+  }) {
+    try {
+      const steps = options.steps && options.steps.length > 0 ? options.steps : DEFAULT_FUNNEL_STEPS
+      const windowHours = options.conversionWindowHours || DEFAULT_CONVERSION_WINDOW_HOURS
+      const { from } = options.dateRange
+
+      const stepQueries = steps.map((eventType, index) => {
+        const step = Prisma.raw(`"step${index}"`)
+
+        if (index === 0) {
+          const conditions = this.eventConditions({
+            eventType,
+            dateRange: options.dateRange,
+            properties: options.properties,
+          })
+          return Prisma.sql`${step} AS (
+            SELECT e."userId", MIN(e."occurredAt") AS "reachedAt", MIN(e."occurredAt") AS "enteredAt"
+            FROM "analytics_events" e
+            ${this.whereClause(conditions)}
+            GROUP BY e."userId"
+          )`
         }
+
+        const previous = Prisma.raw(`"step${index - 1}"`)
+        const conditions = [
+          ...this.eventConditions({ eventType, properties: options.properties }),
+          Prisma.sql`e."day" >= ${this.startOfDay(from)}::date`,
+          Prisma.sql`e."occurredAt" >= p."reachedAt"`,
+          Prisma.sql`e."occurredAt" <= p."enteredAt" + ${windowHours}::int * INTERVAL '1 hour'`,
+        ]
+        return Prisma.sql`${step} AS (
+          SELECT e."userId", MIN(e."occurredAt") AS "reachedAt", p."enteredAt"
+          FROM "analytics_events" e
+          JOIN ${previous} p ON p."userId" = e."userId"
+          ${this.whereClause(conditions)}
+          GROUP BY e."userId", p."enteredAt"
+        )`
       })
 
-      const sessionDurations = Array.from(sessions.values()).map(
-        (session) => session.end.getTime() - session.start.getTime(),
+      const stepCounts = steps.map(
+        (_, index) => Prisma.sql`(SELECT COUNT(*)::int FROM ${Prisma.raw(`"step${index}"`)}) AS ${Prisma.raw(`"step${index}"`)}`,
       )
-      const averageSessionDuration =
-        sessionDurations.length > 0
-          ? sessionDurations.reduce((sum, duration) => sum + duration, 0) / sessionDurations.length
-          : 0
 
-      // Device breakdown
-      const deviceCounts = new Map<string, number>()
-      events.forEach((event) => {
-        if (event.deviceInfo) {
-          const platform = event.deviceInfo.platform || "unknown"
-          const current = deviceCounts.get(platform) || 0
-          deviceCounts.set(platform, current + 1)
-        }
-      })
+      const [counts] = await prisma.$queryRaw<Array<Record<string, number>>>`
+        WITH ${Prisma.join(stepQueries, ", ")}
+        SELECT ${Prisma.join(stepCounts, ", ")}
+      `
 
-      const deviceBreakdown = Array.from(deviceCounts.entries()).map(([platform, count]) => ({ platform, count }))
+      const entered = counts.step0 || 0
+      return {
+        dateRange: options.dateRange,
+        conversionWindowHours: windowHours,
+        steps: steps.map((eventType, index) => {
+          const users = counts[`step${index}`] || 0
+          const previousUsers = index === 0 ? users : counts[`step${index - 1}`] || 0
+          return {
+            step: index + 1,
+            eventType,
+            users,
+            conversionRate: this.percentage(users, previousUsers),
+            overallConversionRate: this.percentage(users, entered),
+          }
+        }),
+      }
+    } catch (error) {
+      logger.error("Get funnel error:", error)
+      throw error
+    }
+  }
 
-      // Hourly activity
-      const hourlyActivity = Array.from({ length: 24 }, (_, hour) => ({ hour, count: 0 }))
-      events.forEach((event) => {
-        const hour = event.timestamp.getHours()
-        hourlyActivity[hour].count++
-      })
+  /**
+   * Retention by signup cohort: of the users who joined in each period, how many were
+   * active (or sent `returnEvent`) in each period after that.
+   */
+  async getRetentionCohorts(options: {
+    dateRange: { from: Date; to: Date }
+    period?: CohortPeriod
+    periods?: number
+    returnEvent?: string
+  }) {
+    try {
+      const period = options.period || "week"
+      const periods = options.periods || 8
+      const { from, to } = options.dateRange
+
+      const activityConditions = [Prisma.sql`e."day" >= ${this.startOfDay(from)}::date`]
+      if (options.returnEvent) {
+        activityConditions.push(Prisma.sql`e."eventType" = ${options.returnEvent}`)
+      }
+
+      const rows = await prisma.$queryRaw<Array<{ cohort: Date; period: Date | null; users: number; size: number }>>`
+        WITH "cohort" AS (
+          SELECT u."id" AS "userId", date_trunc(${period}, u."createdAt") AS "cohort"
+          FROM "users" u
+          WHERE u."createdAt" BETWEEN ${from} AND ${to}
+        ), "activity" AS (
+          SELECT DISTINCT e."userId", date_trunc(${period}, e."occurredAt") AS "period"
+          FROM "analytics_events" e
+          JOIN "cohort" c ON c."userId" = e."userId"
+          WHERE ${Prisma.join(activityConditions, " AND ")}
+        )
+        SELECT c."cohort", a."period", COUNT(*)::int AS "users",
+          (SELECT COUNT(*)::int FROM "cohort" s WHERE s."cohort" = c."cohort") AS "size"
+        FROM "cohort" c
+        LEFT JOIN "activity" a ON a."userId" = c."userId"
+        GROUP BY c."cohort", a."period"
+        ORDER BY c."cohort"
+      `
+
+      const cohorts = new Map<number, { cohort: Date; size: number; active: number[] }>()
+      for (const row of rows) {
+        let cohort = cohorts.get(row.cohort.getTime())
+        if (!cohort) {
+          cohort = { cohort: row.cohort, size: row.size, active: new Array(periods).fill(0) }
+          cohorts.set(row.cohort.getTime(), cohort)
+        }
+
+        if (!row.period) continue
+        const offset = this.periodsBetween(row.cohort, row.period, period)
+        if (offset >= 0 && offset < periods) {
+          cohort.active[offset] = row.users
+        }
+      }
 
       return {
-        totalEvents,
-        topEvents,
-        sessionDuration: averageSessionDuration / 1000 / 60, // Convert to minutes
-        deviceBreakdown,
-        hourlyActivity,
+        period,
+        returnEvent: options.returnEvent || null,
+        cohorts: Array.from(cohorts.values()).map((cohort) => ({
+          cohort: cohort.cohort,
+          size: cohort.size,
+          retention: cohort.active.map((users, offset) => ({
+            period: offset,
+            users,
+            rate: this.percentage(users, cohort.size),
+          })),
+        })),
       }
     } catch (error) {
-      logger.error("Get user behavior analytics error:", error)
+      logger.error("Get retention cohorts error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Break events down by the value of any property, e.g. `serviceType` or `device.os`.
+   */
+  async groupByProperty(property: string, filters: EventFilters = {}, limit = MAX_PROPERTY_GROUPS) {
+    try {
+      const path = property.split(".")
+
+      return await prisma.$queryRaw<Array<{ value: string; events: number; users: number }>>`
+        SELECT COALESCE(e."properties" #>> ${path}::text[], '(not set)') AS "value",
+          COUNT(*)::int AS "events", COUNT(DISTINCT e."userId")::int AS "users"
+        FROM "analytics_events" e
+        ${this.whereClause(this.eventConditions(filters))}
+        GROUP BY 1
+        ORDER BY "events" DESC
+        LIMIT ${Math.min(limit, MAX_PROPERTY_GROUPS)}
+      `
+    } catch (error) {
+      logger.error("Group events by property error:", error)
       throw error
     }
   }
@@ -333,54 +551,97 @@ export class AnalyticsService {
   }> {
     try {
       const { name, metrics, filters, dateRange, groupBy } = reportConfig
+      // Event filters apply to the "events" metric; the rest filter bookings and users
+      const { eventType, properties, ...recordFilters } = filters
+      const eventFilters: EventFilters = { eventType, properties, dateRange }
+      const createdAt = { gte: dateRange.from, lte: dateRange.to }
 
-      // This is a simplified implementation
-      // In production, you'd have more sophisticated report generation
-      const data: Record<string, any>[] = []
       const summary: Record<string, number> = {}
+      const periods = new Map<number, Record<string, any>>()
+      const isTimeGrouping = groupBy === "day" || groupBy === "week" || groupBy === "month"
+      const addToPeriod = (date: Date, metric: string, value: number) => {
+        const start = this.startOfPeriod(date, groupBy as CohortPeriod)
+        const row = periods.get(start.getTime()) || { period: start }
+        row[metric] = (row[metric] || 0) + value
+        periods.set(start.getTime(), row)
+      }
 
       // Generate report based on requested metrics
       for (const metric of metrics) {
         switch (metric) {
           case "bookings":
-            const bookingCount = await prisma.booking.count({
-              where: {
-                createdAt: { gte: dateRange.from, lte: dateRange.to },
-                ...filters,
-              },
+            summary[metric] = await prisma.booking.count({
+              where: { createdAt, ...recordFilters },
             })
-            summary[metric] = bookingCount
+
+            if (isTimeGrouping) {
+              const bookings = await prisma.booking.findMany({
+                where: { createdAt, ...recordFilters },
+                select: { createdAt: true },
+              })
+              bookings.forEach((booking) => addToPeriod(booking.createdAt, metric, 1))
+            }
             break
 
           case "revenue":
             const revenueData = await prisma.booking.aggregate({
-              where: {
-                createdAt: { gte: dateRange.from, lte: dateRange.to },
-                status: "COMPLETED",
-                ...filters,
-              },
+              where: { createdAt, status: "COMPLETED", ...recordFilters },
               _sum: { finalPrice: true },
             })
             summary[metric] = revenueData._sum.finalPrice || 0
+
+            if (isTimeGrouping) {
+              const completed = await prisma.booking.findMany({
+                where: { createdAt, status: "COMPLETED", ...recordFilters },
+                select: { createdAt: true, finalPrice: true },
+              })
+              completed.forEach((booking) => addToPeriod(booking.createdAt, metric, booking.finalPrice || 0))
+            }
             break
 
           case "users":
-            const userCount = await prisma.user.count({
-              where: {
-                createdAt: { gte: dateRange.from, lte: dateRange.to },
-                ...filters,
-              },
+            summary[metric] = await prisma.user.count({
+              where: { createdAt, ...recordFilters },
             })
-            summary[metric] = userCount
+
+            if (isTimeGrouping) {
+              const users = await prisma.user.findMany({
+                where: { createdAt, ...recordFilters },
+                select: { createdAt: true },
+              })
+              users.forEach((user) => addToPeriod(user.createdAt, metric, 1))
+            }
+            break
+
+          case "events":
+            const eventDays = await prisma.$queryRaw<Array<{ day: Date; count: number }>>`
+              SELECT e."day", COUNT(*)::int AS "count"
+              FROM "analytics_events" e
+              ${this.whereClause(this.eventConditions(eventFilters))}
+              GROUP BY e."day"
+            `
+            summary[metric] = eventDays.reduce((sum, row) => sum + row.count, 0)
+
+            if (isTimeGrouping) {
+              eventDays.forEach((row) => addToPeriod(row.day, metric, row.count))
+            }
             break
         }
       }
 
-      const report = { createdAt: new Date() }
+      let data: Record<string, any>[] = []
+      if (isTimeGrouping) {
+        data = Array.from(periods.values())
+          .sort((a, b) => a.period.getTime() - b.period.getTime())
+          .map((row) => Object.fromEntries([["period", row.period], ...metrics.map((metric) => [metric, row[metric] || 0])]))
+      } else if (groupBy && metrics.includes("events")) {
+        // Any other groupBy is an event property
+        data = await this.groupByProperty(groupBy, eventFilters)
+      }
 
       return {
         reportName: name,
-        generatedAt: report.createdAt,
+        generatedAt: new Date(),
         data,
         summary,
       }
@@ -470,19 +731,170 @@ export class AnalyticsService {
     }
   }
 
-  private async flushEventBuffer(): Promise<void> {
+  /**
+   * Create the monthly analytics_events partitions from this month to `monthsAhead` months out,
+   * so events always have a partition to land in.
+   */
+  async ensureEventPartitions(monthsAhead = 2) {
     try {
-      const events = this.eventBuffer // Declare events variable
-      this.eventBuffer = []
+      const [{ partitioned }] = await prisma.$queryRaw<{ partitioned: boolean }[]>`
+        SELECT EXISTS (
+          SELECT 1 FROM pg_partitioned_table p
+          JOIN pg_class c ON c.oid = p.partrelid
+          WHERE c.relname = 'analytics_events'
+        ) AS partitioned
+      `
+      if (!partitioned) {
+        logger.warn("analytics_events is not partitioned yet, run `npm run db:partition-analytics`")
+        return
+      }
 
-      // Note: These models need to be added to the schema
-      // For now, just log the events
+      const month = this.startOfPeriod(new Date(), "month")
+      for (let i = 0; i <= monthsAhead; i++) {
+        const from = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + i, 1))
+        const to = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, 1))
+        await prisma.$executeRawUnsafe(
+          `CREATE TABLE IF NOT EXISTS "${this.eventPartitionName(from)}" PARTITION OF analytics_events ` +
+            `FOR VALUES FROM ('${this.isoDate(from)}') TO ('${this.isoDate(to)}')`,
+        )
+      }
+    } catch (error) {
+      logger.error("Ensure analytics event partitions error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Drop the monthly partitions that lie wholly before the retention cutoff, then delete the
+   * older days left in the partition the cutoff falls in. Returns the number of events removed.
+   */
+  async pruneEvents(retentionDays: number) {
+    try {
+      const cutoff = this.startOfDay(new Date(Date.now() - retentionDays * DAY_MS))
+      const partitions = await prisma.$queryRaw<{ name: string }[]>`
+        SELECT child.relname AS name
+        FROM pg_inherits
+        JOIN pg_class parent ON parent.oid = pg_inherits.inhparent
+        JOIN pg_class child ON child.oid = pg_inherits.inhrelid
+        WHERE parent.relname = 'analytics_events'
+      `
+
+      let dropped = 0
+      for (const { name } of partitions) {
+        const match = /^analytics_events_(\d{4})_(\d{2})$/.exec(name)
+        if (!match) continue
+        const end = new Date(Date.UTC(Number(match[1]), Number(match[2]), 1))
+        if (end > cutoff) continue
+
+        const [{ count }] = await prisma.$queryRawUnsafe<{ count: bigint }[]>(`SELECT COUNT(*) AS count FROM "${name}"`)
+        await prisma.$executeRawUnsafe(`DROP TABLE IF EXISTS "${name}"`)
+        logger.info(`Dropped analytics event partition ${name}`)
+        dropped += Number(count)
+      }
+
+      const result = await prisma.analyticsEvent.deleteMany({ where: { day: { lt: cutoff } } })
+      return dropped + result.count
+    } catch (error) {
+      logger.error("Prune analytics events error:", error)
+      throw error
+    }
+  }
+
+  private async flushEventBuffer(): Promise<void> {
+    const events = AnalyticsService.eventBuffer
+    AnalyticsService.eventBuffer = []
+    if (events.length === 0) return
+
+    try {
+      await prisma.analyticsEvent.createMany({
+        data: events.map((event) => {
+          const occurredAt = new Date(event.timestamp)
+          return {
+            day: this.startOfDay(occurredAt),
+            userId: event.userId,
+            eventType: event.eventType,
+            properties: (event.eventData || {}) as Prisma.InputJsonObject,
+            sessionId: event.sessionId,
+            platform: event.deviceInfo?.platform,
+            appVersion: event.deviceInfo?.version,
+            deviceId: event.deviceInfo?.deviceId,
+            occurredAt,
+          }
+        }),
+      })
       logger.debug(`Flushed ${events.length} events to database`)
     } catch (error) {
       logger.error("Flush event buffer error:", error)
-      // Re-add events to buffer if flush failed
-      this.eventBuffer.unshift(...this.eventBuffer)
+      // Re-add events to buffer if flush failed, dropping the oldest once it's full
+      const buffer = AnalyticsService.eventBuffer
+      buffer.unshift(...events)
+      if (buffer.length > MAX_BUFFERED_EVENTS) {
+        buffer.splice(0, buffer.length - MAX_BUFFERED_EVENTS)
+      }
+    }
+  }
+
+  private eventConditions(filters: EventFilters): Prisma.Sql[] {
+    const conditions: Prisma.Sql[] = []
+
+    if (filters.dateRange) {
+      const { from, to } = filters.dateRange
+      // The day bound keeps the scan to the partitions in range
+      conditions.push(Prisma.sql`e."day" BETWEEN ${this.startOfDay(from)}::date AND ${this.startOfDay(to)}::date`)
+      conditions.push(Prisma.sql`e."occurredAt" BETWEEN ${from} AND ${to}`)
+    }
+    if (filters.userId) {
+      conditions.push(Prisma.sql`e."userId" = ${filters.userId}`)
+    }
+    if (filters.eventType) {
+      conditions.push(Prisma.sql`e."eventType" = ${filters.eventType}`)
     }
+    // Compared as text so the same filter works whether the app sent "2" or 2
+    for (const [property, value] of Object.entries(filters.properties || {})) {
+      conditions.push(Prisma.sql`e."properties" #>> ${property.split(".")}::text[] = ${String(value)}`)
+    }
+
+    return conditions
+  }
+
+  private whereClause(conditions: Prisma.Sql[]) {
+    return conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}` : Prisma.empty
+  }
+
+  private startOfDay(date: Date) {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  }
+
+  private isoDate(date: Date) {
+    return date.toISOString().slice(0, 10)
+  }
+
+  // Matches the names given by prisma/sql/analytics_events_partitioning.sql
+  private eventPartitionName(month: Date) {
+    return `analytics_events_${month.getUTCFullYear()}_${String(month.getUTCMonth() + 1).padStart(2, "0")}`
+  }
+
+  // Matches Postgres date_trunc, where weeks start on Monday
+  private startOfPeriod(date: Date, period: CohortPeriod) {
+    const day = this.startOfDay(date)
+    if (period === "week") {
+      day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7))
+    } else if (period === "month") {
+      day.setUTCDate(1)
+    }
+    return day
+  }
+
+  private periodsBetween(start: Date, end: Date, period: CohortPeriod) {
+    if (period === "month") {
+      return (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth()
+    }
+    const length = period === "week" ? 7 * DAY_MS : DAY_MS
+    return Math.round((end.getTime() - start.getTime()) / length)
+  }
+
+  private percentage(value: number, total: number) {
+    return total > 0 ? Math.round((value / total) * 10000) / 100 : 0
   }
 
   private startEventProcessor(): void {
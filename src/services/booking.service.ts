@@ -1,30 +1,61 @@
 import prisma from "../config/database"
 import { PaymentService } from "./payment.service"
 import { NotificationService } from "./notification.service"
+import { CorporateService } from "./corporate.service"
+import { PricingService } from "./pricing.service"
 import logger from "../utils/logger"
 
 export class BookingService {
   private paymentService = new PaymentService()
   private notificationService = new NotificationService()
+  private corporateService = new CorporateService()
+  private pricingService = new PricingService()
 
   async createBooking(userId: string, bookingData: any) {
     try {
       // Validate user eligibility
       await this.validateUserEligibility(userId)
 
-      // Create booking based on service type
-      const booking = await prisma.booking.create({
-        data: {
-          ...bookingData,
-          customerId: userId,
-          bookingNumber: await this.generateBookingNumber(),
-          status: "PENDING",
-          requestedAt: new Date(),
-        },
-        include: {
-          serviceType: true,
-          customer: true,
-        },
+      // Company-billed bookings must pass the employee's travel policy. Spend limits are
+      // checked against our own price for the trip, never the one the client sent.
+      const { corporateAccountId, costCenterId, ...fields } = bookingData
+      if (corporateAccountId) {
+        fields.estimatedPrice = await this.estimatePrice(fields)
+      }
+      const bookingNumber = await this.generateBookingNumber()
+
+      // Authorised and created together, so the booking counts against the monthly limit
+      // before another booking for the same employee is checked
+      const booking = await prisma.$transaction(async (tx) => {
+        const corporate = corporateAccountId
+          ? await this.corporateService.authorizeBooking(
+              userId,
+              {
+                corporateAccountId,
+                costCenterId,
+                serviceTypeId: fields.serviceTypeId,
+                estimatedPrice: fields.estimatedPrice ?? undefined,
+                scheduledAt: fields.scheduledAt,
+              },
+              tx,
+            )
+          : {}
+
+        // Create booking based on service type
+        return tx.booking.create({
+          data: {
+            ...fields,
+            ...corporate,
+            customerId: userId,
+            bookingNumber,
+            status: "PENDING",
+            requestedAt: new Date(),
+          },
+          include: {
+            serviceType: true,
+            customer: true,
+          },
+        })
       })
 
       // Log booking creation
@@ -86,6 +117,58 @@ export class BookingService {
     }
   }
 
+  /**
+   * Price a booking from its service type and trip details. Returns null for bookings
+   * the pricing service can't quote, such as ones without a route.
+   */
+  private async estimatePrice(fields: any): Promise<number | null> {
+    const serviceType = await prisma.serviceType.findUnique({
+      where: { id: fields.serviceTypeId },
+      select: { name: true },
+    })
+    if (!serviceType) {
+      throw new Error("Service type not found")
+    }
+
+    const scheduledAt = fields.scheduledAt ? new Date(fields.scheduledAt) : undefined
+    const route = {
+      pickupLatitude: fields.pickupLatitude,
+      pickupLongitude: fields.pickupLongitude,
+      dropoffLatitude: fields.dropoffLatitude,
+      dropoffLongitude: fields.dropoffLongitude,
+    }
+    const hasRoute = Object.values(route).every((value) => typeof value === "number")
+
+    switch (serviceType.name) {
+      case "RIDE":
+      case "SHARED_RIDE":
+      case "TAXI":
+        if (!hasRoute) return null
+        return (
+          await this.pricingService.calculateRideEstimate({
+            ...route,
+            rideType: fields.serviceData?.rideType,
+            scheduledAt,
+          })
+        ).estimatedPrice
+      case "DELIVERY":
+        if (!hasRoute) return null
+        return (await this.pricingService.calculateDeliveryEstimate({ ...route, deliveryType: fields.serviceData?.deliveryType }))
+          .estimatedPrice
+      case "DAY_BOOKING":
+        if (!fields.serviceData?.duration) return null
+        return (
+          await this.pricingService.calculateDayBookingPrice({
+            duration: Number(fields.serviceData.duration),
+            scheduledAt: scheduledAt || new Date(),
+            driverId: fields.providerId,
+          })
+        ).totalPrice
+      default:
+        return null
+    }
+  }
+
   private async validateUserEligibility(userId: string) {
     const user = await prisma.user.findUnique({
       where: { id: userId },
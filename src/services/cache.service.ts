@@ -1,4 +1,5 @@
 import Redis from "ioredis"
+import { LocationService } from "./location.service"
 import logger from "../utils/logger"
 
 interface CacheOptions {
@@ -7,6 +8,18 @@ interface CacheOptions {
   serialize?: boolean
 }
 
+interface GeoSearchOptions {
+  latitude: number
+  longitude: number
+  radius: number // meters
+  count?: number
+}
+
+export interface GeoSearchResult {
+  member: string
+  distance: number // meters
+}
+
 interface RateLimitOptions {
   windowMs: number
   maxRequests: number
@@ -16,6 +29,8 @@ interface RateLimitOptions {
 export class CacheService {
   private redis: Redis | null = null
   private memoryCache = new Map<string, { data: any; expires: number }>()
+  private locationService = new LocationService()
+  private memoryGeo = new Map<string, Map<string, { latitude: number; longitude: number }>>()
   private readonly DEFAULT_TTL = 3600 // 1 hour
   private readonly MEMORY_CACHE_SIZE = 1000
   private keyCount = 0
@@ -371,6 +386,98 @@ export class CacheService {
     }
   }
 
+  /**
+   * Add or move a member of a geo set
+   */
+  async geoAdd(key: string, member: string, latitude: number, longitude: number): Promise<void> {
+    const redis = this.getGeoRedis()
+    if (redis) {
+      await redis.geoadd(key, longitude, latitude, member)
+    } else {
+      if (!this.memoryGeo.has(key)) {
+        this.memoryGeo.set(key, new Map())
+      }
+      this.memoryGeo.get(key)!.set(member, { latitude, longitude })
+    }
+  }
+
+  async geoRemove(key: string, member: string): Promise<void> {
+    const redis = this.getGeoRedis()
+    if (redis) {
+      await redis.zrem(key, member)
+    } else {
+      this.memoryGeo.get(key)?.delete(member)
+    }
+  }
+
+  /**
+   * Replace the whole geo set in one step, so searches never see a half-built set
+   */
+  async geoReplace(key: string, members: Array<{ member: string; latitude: number; longitude: number }>): Promise<void> {
+    const redis = this.getGeoRedis()
+    if (redis) {
+      const tempKey = `${key}:rebuild:${Date.now()}`
+      const pipeline = redis.pipeline()
+      for (let i = 0; i < members.length; i += 500) {
+        const args = members.slice(i, i + 500).flatMap((m) => [m.longitude, m.latitude, m.member])
+        pipeline.geoadd(tempKey, ...args)
+      }
+      if (members.length > 0) {
+        pipeline.rename(tempKey, key)
+      } else {
+        pipeline.del(key)
+      }
+      await pipeline.exec()
+    } else {
+      this.memoryGeo.set(
+        key,
+        new Map(members.map((m) => [m.member, { latitude: m.latitude, longitude: m.longitude }])),
+      )
+    }
+  }
+
+  /**
+   * Members within the radius, nearest first
+   */
+  async geoSearch(key: string, options: GeoSearchOptions): Promise<GeoSearchResult[]> {
+    const { latitude, longitude, radius, count } = options
+
+    const redis = this.getGeoRedis()
+    if (redis) {
+      const args: (string | number)[] = ["FROMLONLAT", longitude, latitude, "BYRADIUS", radius, "m", "ASC"]
+      if (count) {
+        args.push("COUNT", count)
+      }
+      const rows = (await redis.geosearch(key, ...args, "WITHDIST")) as [string, string][]
+      return rows.map(([member, distance]) => ({ member, distance: Number.parseFloat(distance) }))
+    }
+
+    const results: GeoSearchResult[] = []
+    for (const [member, position] of this.memoryGeo.get(key) || []) {
+      const distance = this.locationService.calculateDistance(latitude, longitude, position.latitude, position.longitude)
+      if (distance <= radius) {
+        results.push({ member, distance })
+      }
+    }
+    results.sort((a, b) => a.distance - b.distance)
+    return count ? results.slice(0, count) : results
+  }
+
+  /**
+   * Redis client for geo sets, or null to use the in-memory sets when Redis is not configured.
+   * Throws while a configured Redis is down: the geo sets live in Redis only, and this process's
+   * in-memory copy would be empty, so callers must fall back to the database instead.
+   */
+  private getGeoRedis(): Redis | null {
+    if (this.redis && this.isConnected) {
+      return this.redis
+    }
+    if (process.env.REDIS_URL) {
+      throw new Error("Redis is configured but not connected")
+    }
+    return null
+  }
+
   /**
    * Get cache statistics
    */
@@ -1,6 +1,16 @@
+import crypto from "crypto"
 import prisma from "../config/database"
+import { PromotionService } from "./promotion.service"
+import { PaymentService } from "./payment.service"
+import { StoreDeliveryService } from "./store-delivery.service"
+import { PurchaseConfirmationService } from "./purchase-confirmation.service"
+import { StockReservationService } from "./stock-reservation.service"
 import logger from "../utils/logger"
 
+// Held a little longer than the store's 15 minute confirmation window
+const RESERVATION_MINUTES = 20
+const SERVICE_FEE = 1.5
+
 export interface CartItemData {
   productId: string
   quantity: number
@@ -16,6 +26,12 @@ export interface UpdateCartItemData {
 }
 
 export class CartService {
+  private promotionService = new PromotionService()
+  private paymentService = new PaymentService()
+  private storeDeliveryService = new StoreDeliveryService()
+  private purchaseConfirmationService = new PurchaseConfirmationService()
+  private stockReservationService = new StockReservationService()
+
   async getOrCreateCart(userId: string) {
     try {
       let cart = await prisma.cart.findUnique({
@@ -304,6 +320,7 @@ export class CartService {
     deliveryAddress: any
     paymentMethodId: string
     specialInstructions?: string
+    promoCode?: string
   }) {
     try {
       // Get validated cart
@@ -313,106 +330,192 @@ export class CartService {
       }
 
       const { cart } = validation
-
-      // Calculate totals
-      const subtotal = cart.items.reduce((sum: number, item: any) => sum + (item.unitPrice * item.quantity), 0)
-      const deliveryFee = 2.99 // Fixed delivery fee, could be calculated based on distance
-      const serviceFee = 1.50 // Fixed service fee
-      const totalAmount = subtotal + deliveryFee + serviceFee
-
-      // Create order
-      const order = await prisma.order.create({
-        data: {
-          orderNumber: `ORD-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`,
-          customerId: userId,
-          totalAmount,
-          deliveryFee,
-          preparationNotes: orderData.specialInstructions,
-          status: "ORDER_PROCESSING"
-        }
+      const customer = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { firstName: true, lastName: true, phone: true }
       })
 
-      // Create delivery location
-      const deliveryLocation = await prisma.location.create({
-        data: {
-          latitude: orderData.deliveryAddress.latitude,
-          longitude: orderData.deliveryAddress.longitude,
-          address: orderData.deliveryAddress.address,
-          city: orderData.deliveryAddress.city || "Unknown",
-          state: orderData.deliveryAddress.state,
-          country: "Ghana"
-        }
-      })
+      // One order per store, each with a delivery priced on the distance from that store
+      const storeOrders = []
+      for (const group of this.groupItemsByStore(cart.items)) {
+        const estimate = await this.storeDeliveryService.calculateStorePurchaseDeliveryEstimate({
+          storeId: group.store.id,
+          customerLatitude: orderData.deliveryAddress.latitude,
+          customerLongitude: orderData.deliveryAddress.longitude,
+          items: group.items.map(item => ({ productId: item.productId, quantity: item.quantity }))
+        })
 
-      // Update order with delivery location
-      await prisma.order.update({
-        where: { id: order.id },
-        data: { deliveryLocationId: deliveryLocation.id }
+        storeOrders.push({
+          ...group,
+          subtotal: this.roundAmount(group.items.reduce((sum, item) => sum + (item.unitPrice * item.quantity), 0)),
+          deliveryFee: this.roundAmount(estimate.deliveryFee)
+        })
+      }
+
+      // Calculate totals
+      const subtotal = this.roundAmount(storeOrders.reduce((sum, order) => sum + order.subtotal, 0))
+      const deliveryFee = this.roundAmount(storeOrders.reduce((sum, order) => sum + order.deliveryFee, 0))
+      const serviceFee = SERVICE_FEE
+
+      // Promo codes discount the items and delivery, never the service fee
+      const promotion = orderData.promoCode
+        ? await this.promotionService.quotePromoCode({
+            code: orderData.promoCode,
+            userId,
+            serviceType: "STORE_DELIVERY",
+            amount: subtotal + deliveryFee,
+            deliveryFee,
+            latitude: orderData.deliveryAddress.latitude,
+            longitude: orderData.deliveryAddress.longitude
+          })
+        : undefined
+      const discountAmount = promotion?.discountAmount || 0
+      const totalAmount = this.roundAmount(subtotal + deliveryFee + serviceFee - discountAmount)
+
+      // The discount is shared by value across the orders and the service fee goes on the first one
+      let discountLeft = discountAmount
+      const pricedOrders = storeOrders.map((order, index) => {
+        const discount = index === storeOrders.length - 1
+          ? discountLeft
+          : this.roundAmount(discountAmount * (order.subtotal + order.deliveryFee) / (subtotal + deliveryFee))
+        discountLeft = this.roundAmount(discountLeft - discount)
+
+        const amountDue = order.subtotal + order.deliveryFee + (index === 0 ? serviceFee : 0) - discount
+        return { ...order, discount, amountDue: this.roundAmount(amountDue) }
       })
 
-      // Create order items from cart items
-      const orderItems = []
-      for (const cartItem of cart.items) {
-        // Create order item data - we'll handle the relation differently
-        const orderItemData = {
-          name: cartItem.product.name,
-          description: cartItem.product.description,
-          quantity: cartItem.quantity,
-          unitPrice: cartItem.unitPrice,
-          totalPrice: cartItem.unitPrice * cartItem.quantity,
-          instructions: orderData.specialInstructions
-        }
+      const checkoutGroupId = crypto.randomUUID()
+      const reservedUntil = new Date(Date.now() + RESERVATION_MINUTES * 60 * 1000)
 
-        // Create order item record
-        const orderItem = await prisma.orderItem.create({
+      // Orders, deliveries, stock holds, the promo redemption and emptying the cart succeed or fail together
+      const orders = await prisma.$transaction(async (tx) => {
+        const deliveryLocation = await tx.location.create({
           data: {
-            bookingId: order.id, // Using bookingId as orderId for now - this should be fixed in schema
-            ...orderItemData
+            latitude: orderData.deliveryAddress.latitude,
+            longitude: orderData.deliveryAddress.longitude,
+            address: orderData.deliveryAddress.address,
+            city: orderData.deliveryAddress.city || "Unknown",
+            state: orderData.deliveryAddress.state,
+            country: "Ghana"
           }
         })
-        orderItems.push(orderItem)
 
-        // Update product stock
-        await prisma.product.update({
-          where: { id: cartItem.productId },
-          data: {
-            stockQuantity: {
-              decrement: cartItem.quantity
+        const createdOrders = []
+        for (const order of pricedOrders) {
+          const items = order.items.map(item => ({
+            productId: item.productId,
+            name: item.product.name,
+            description: item.product.description,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            totalPrice: this.roundAmount(item.unitPrice * item.quantity)
+          }))
+
+          const createdOrder = await tx.order.create({
+            data: {
+              orderNumber: `ORD-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`,
+              customerId: userId,
+              storeId: order.store.id,
+              deliveryLocationId: deliveryLocation.id,
+              checkoutGroupId,
+              totalAmount: order.subtotal,
+              deliveryFee: order.deliveryFee,
+              promoCode: order.discount > 0 ? promotion?.code : undefined,
+              discountAmount: order.discount,
+              // Same shape as direct store purchases, which the delivery webhooks read
+              preparationNotes: JSON.stringify({ specialInstructions: orderData.specialInstructions, items }),
+              status: "PENDING",
+              orderItems: {
+                create: items.map(item => ({ ...item, instructions: orderData.specialInstructions }))
+              },
+              delivery: {
+                create: {
+                  pickupLocationId: order.store.locationId,
+                  deliveryLocationId: deliveryLocation.id,
+                  deliveryFee: order.deliveryFee,
+                  specialInstructions: orderData.deliveryAddress.instructions || orderData.specialInstructions,
+                  recipientName: customer ? `${customer.firstName} ${customer.lastName}` : undefined,
+                  recipientPhone: customer?.phone
+                }
+              }
+            },
+            include: {
+              orderItems: true,
+              delivery: true,
+              store: { select: { id: true, name: true } }
             }
-          }
+          })
+
+          await this.stockReservationService.reserve(tx, createdOrder.id, items, reservedUntil)
+          createdOrders.push({ ...createdOrder, deliveryLocation, amountDue: order.amountDue })
+        }
+
+        if (promotion) {
+          await this.promotionService.redeemPromoCode(promotion, { userId, orderId: createdOrders[0].id }, tx)
+        }
+
+        await tx.cartItem.deleteMany({
+          where: { cartId: cart.id }
         })
-      }
 
-      // Clear the cart
-      await prisma.cartItem.deleteMany({
-        where: { cartId: cart.id }
+        return createdOrders
       })
 
-      // Create transaction record
-      const transaction = await prisma.transaction.create({
-        data: {
-          userId,
-          bookingId: order.id,
-          paymentMethodId: orderData.paymentMethodId,
-          amount: totalAmount,
-          currency: "NGN",
-          type: "PAYMENT",
-          status: "PENDING",
-          description: `Store order payment - ${order.orderNumber}`
+      // Charge each order; one failed charge undoes the whole checkout
+      const transactions = []
+      for (const order of orders) {
+        let transaction
+        try {
+          transaction = await this.paymentService.processOrderPayment({
+            userId,
+            orderId: order.id,
+            amount: order.amountDue,
+            paymentMethodId: orderData.paymentMethodId,
+            description: `Store order payment - ${order.orderNumber}`,
+            promoCode: order.promoCode,
+            discountAmount: order.discountAmount
+          })
+        } catch (error) {
+          logger.error(`Payment for order ${order.orderNumber} failed:`, error)
         }
-      })
+
+        if (!transaction || transaction.status === "FAILED") {
+          const refunded = await this.abandonCheckout(cart.id, orders, "PAYMENT_FAILED")
+          throw new Error(
+            refunded
+              ? "Payment failed. Anything already charged has been refunded and your cart has been restored."
+              : "Payment failed and your cart has been restored. An earlier charge could not be refunded automatically, please contact support."
+          )
+        }
+        transactions.push(transaction)
+      }
+
+      if (promotion) {
+        await this.promotionService.attachTransaction({ orderId: orders[0].id }, transactions[0].id)
+      }
+
+      // Each store has a limited time to accept its order, or the stock and payment are released
+      const confirmations = []
+      for (const order of orders) {
+        try {
+          confirmations.push(await this.purchaseConfirmationService.createPurchaseConfirmation(order.id))
+        } catch (error) {
+          logger.error(`Failed to request store confirmation for order ${order.orderNumber}:`, error)
+          await this.abandonOrder(order.id, "CONFIRMATION_FAILED")
+        }
+      }
 
       return {
-        order: {
-          ...order,
-          deliveryLocation,
-          items: orderItems
-        },
-        transaction,
+        checkoutGroupId,
+        orders: orders.map(({ amountDue, ...order }) => order),
+        transactions,
+        confirmations,
+        reservedUntil,
         totals: {
           subtotal,
           deliveryFee,
           serviceFee,
+          discount: discountAmount,
           total: totalAmount
         }
       }
@@ -421,4 +524,64 @@ export class CartService {
       throw error
     }
   }
-}
\ No newline at end of file
+
+  private groupItemsByStore<T extends { product: { storeId: string; store: { id: string; locationId: string } } }>(items: T[]) {
+    const groups = new Map<string, { store: T["product"]["store"]; items: T[] }>()
+
+    for (const item of items) {
+      const group = groups.get(item.product.storeId) || { store: item.product.store, items: [] as T[] }
+      group.items.push(item)
+      groups.set(item.product.storeId, group)
+    }
+
+    return [...groups.values()]
+  }
+
+  // Undo a checkout whose payment failed: refund anything already charged and put the items back in the cart.
+  // Returns false when a charge could not be refunded.
+  private async abandonCheckout(
+    cartId: string,
+    orders: Array<{ id: string; orderItems: Array<{ productId: string | null; quantity: number; unitPrice: number }> }>,
+    reason: string
+  ) {
+    let refunded = true
+    for (const order of orders) {
+      refunded = (await this.abandonOrder(order.id, reason)) && refunded
+    }
+
+    const items = orders.flatMap(order => order.orderItems)
+    await prisma.cartItem.createMany({
+      data: items
+        .filter(item => item.productId)
+        .map(item => ({ cartId, productId: item.productId!, quantity: item.quantity, unitPrice: item.unitPrice }))
+    })
+
+    return refunded
+  }
+
+  // Returns false when the order's payment could not be refunded; the order is cancelled either way
+  private async abandonOrder(orderId: string, reason: string) {
+    let refunded = true
+    try {
+      await this.stockReservationService.release(orderId, reason)
+      try {
+        await this.paymentService.refundOrderPayment(orderId, `Refund for cancelled checkout - Order ${orderId}`)
+      } catch (error) {
+        refunded = false
+        logger.error(`Refund for cancelled order ${orderId} failed and must be issued manually:`, error)
+      }
+      await this.promotionService.releaseRedemptions({ orderId })
+      await prisma.order.update({
+        where: { id: orderId },
+        data: { status: "CANCELLED", delivery: { update: { status: "CANCELLED" } } }
+      })
+    } catch (error) {
+      logger.error(`Failed to cancel order ${orderId}:`, error)
+    }
+    return refunded
+  }
+
+  private roundAmount(amount: number) {
+    return Math.round(amount * 100) / 100
+  }
+}
@@ -0,0 +1,369 @@
+import type { ChatMessage, ChatMessageType, SupportCategory } from "@prisma/client"
+import type { Express } from "express"
+import prisma from "../config/database"
+import { FileUploadService } from "./file-upload.service"
+import { NotificationService } from "./notification.service"
+import { SupportService } from "./support.service"
+import { encryptionService } from "./encryption.service"
+import logger from "../utils/logger"
+
+// A chat belongs to exactly one booking or one delivery
+export interface ChatTarget {
+  bookingId?: string
+  deliveryId?: string
+}
+
+interface ChatConversation {
+  room: string
+  customerId: string
+  providerId: string | null
+}
+
+const REMOVED_MESSAGE = "This message was removed by a moderator"
+
+export class ChatService {
+  private fileUploadService = new FileUploadService()
+  private notificationService = new NotificationService()
+  private supportService = new SupportService()
+
+  /**
+   * Socket.IO room for a booking or delivery chat
+   */
+  getRoom(target: ChatTarget): string {
+    return target.deliveryId ? `chat:delivery:${target.deliveryId}` : `chat:${target.bookingId}`
+  }
+
+  /**
+   * Check the user is the customer or the assigned provider and return the chat participants
+   */
+  async getConversation(userId: string, target: ChatTarget): Promise<ChatConversation> {
+    const conversation = await this.findConversation(target)
+
+    if (userId !== conversation.customerId && userId !== conversation.providerId) {
+      throw new Error("You are not part of this conversation")
+    }
+
+    return conversation
+  }
+
+  async sendMessage(
+    senderId: string,
+    target: ChatTarget,
+    data: {
+      message?: string
+      messageType?: ChatMessageType
+      attachmentUrl?: string
+      attachmentMimeType?: string
+      attachmentDuration?: number
+    },
+  ): Promise<ChatMessage> {
+    try {
+      const conversation = await this.getConversation(senderId, target)
+      const receiverId = senderId === conversation.customerId ? conversation.providerId : conversation.customerId
+
+      if (!receiverId) {
+        throw new Error("Chat opens once a provider is assigned")
+      }
+
+      const messageType = data.messageType || "TEXT"
+      if (messageType === "TEXT" && !data.message?.trim()) {
+        throw new Error("Message cannot be empty")
+      }
+
+      return await prisma.chatMessage.create({
+        data: {
+          bookingId: target.bookingId,
+          deliveryId: target.deliveryId,
+          senderId,
+          receiverId,
+          message: encryptionService.maskPhoneNumbers(data.message?.trim() || ""),
+          messageType,
+          attachmentUrl: data.attachmentUrl,
+          attachmentMimeType: data.attachmentMimeType,
+          attachmentDuration: data.attachmentDuration,
+        },
+      })
+    } catch (error) {
+      logger.error("Send chat message error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Upload an image or voice note and send it as a chat message
+   */
+  async sendAttachment(
+    senderId: string,
+    target: ChatTarget,
+    file: Express.Multer.File,
+    options: { caption?: string; duration?: number } = {},
+  ): Promise<ChatMessage> {
+    try {
+      await this.getConversation(senderId, target)
+
+      const folder = target.deliveryId ? `chat/deliveries/${target.deliveryId}` : `chat/bookings/${target.bookingId}`
+      let messageType: ChatMessageType
+      let attachmentUrl: string
+
+      if (file.mimetype.startsWith("image/")) {
+        messageType = "IMAGE"
+        attachmentUrl = await this.fileUploadService.uploadImage(file, folder, { width: 1280 })
+      } else if (file.mimetype.startsWith("audio/")) {
+        messageType = "VOICE"
+        attachmentUrl = await this.fileUploadService.uploadAttachment(file, folder)
+      } else {
+        throw new Error("Only images and voice notes can be attached")
+      }
+
+      return await this.sendMessage(senderId, target, {
+        message: options.caption,
+        messageType,
+        attachmentUrl,
+        attachmentMimeType: file.mimetype,
+        attachmentDuration: messageType === "VOICE" ? options.duration : undefined,
+      })
+    } catch (error) {
+      logger.error("Send chat attachment error:", error)
+      throw error
+    }
+  }
+
+  async getHistory(userId: string, target: ChatTarget, options: { page?: number; limit?: number } = {}) {
+    try {
+      await this.getConversation(userId, target)
+
+      const { page = 1, limit = 50 } = options
+      const where = this.targetWhere(target)
+
+      const [messages, total, unreadCount] = await Promise.all([
+        prisma.chatMessage.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.chatMessage.count({ where }),
+        prisma.chatMessage.count({ where: { ...where, receiverId: userId, readAt: null } }),
+      ])
+
+      return {
+        messages: messages.map((message) => this.serializeMessage(message)),
+        unreadCount,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }
+    } catch (error) {
+      logger.error("Get chat history error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Mark everything the user has received in the conversation as read
+   */
+  async markConversationRead(userId: string, target: ChatTarget) {
+    try {
+      await this.getConversation(userId, target)
+
+      const unread = await prisma.chatMessage.findMany({
+        where: { ...this.targetWhere(target), receiverId: userId, readAt: null },
+        select: { id: true, senderId: true },
+      })
+
+      const readAt = new Date()
+      if (unread.length > 0) {
+        await prisma.chatMessage.updateMany({
+          where: { id: { in: unread.map((message) => message.id) } },
+          data: { readAt },
+        })
+      }
+
+      return {
+        messageIds: unread.map((message) => message.id),
+        senderIds: [...new Set(unread.map((message) => message.senderId))],
+        readAt,
+      }
+    } catch (error) {
+      logger.error("Mark chat read error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Mark a single received message as read. Returns null if it was not the user's to read.
+   */
+  async markMessageRead(userId: string, messageId: string): Promise<ChatMessage | null> {
+    try {
+      const readAt = new Date()
+      const updated = await prisma.chatMessage.updateMany({
+        where: { id: messageId, receiverId: userId, readAt: null },
+        data: { readAt },
+      })
+
+      if (updated.count === 0) {
+        return null
+      }
+
+      return await prisma.chatMessage.findUnique({ where: { id: messageId } })
+    } catch (error) {
+      logger.error("Mark chat message read error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Raise a support ticket linked to the chat so an admin can review it
+   */
+  async reportConversation(
+    userId: string,
+    target: ChatTarget,
+    data: { reason: string; description?: string; category?: SupportCategory },
+  ) {
+    try {
+      await this.getConversation(userId, target)
+
+      const reference = target.deliveryId ? `delivery ${target.deliveryId}` : `booking ${target.bookingId}`
+      const ticket = await this.supportService.createTicket(
+        userId,
+        {
+          subject: `Chat Report - ${reference}`,
+          description: `Chat reported for: ${data.reason}${data.description ? `\nDescription: ${data.description}` : ""}`,
+          category: data.category || "SAFETY_CONCERN",
+          priority: "HIGH",
+          bookingId: target.bookingId,
+          deliveryId: target.deliveryId,
+        },
+        { skipLinkCheck: true },
+      )
+
+      await this.notificationService.notifyAdmins({
+        type: "CHAT_REPORTED",
+        title: "Chat Reported",
+        body: `A chat on ${reference} has been reported for: ${data.reason}`,
+        data: {
+          ticketId: ticket.id,
+          reportedBy: userId,
+          ...target,
+        },
+      })
+
+      return ticket
+    } catch (error) {
+      logger.error("Report chat error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Full chat transcript for the booking or delivery linked to a support ticket, including removed messages
+   */
+  async getTicketChat(ticketId: string) {
+    try {
+      const ticket = await prisma.supportTicket.findUnique({
+        where: { id: ticketId },
+        include: {
+          user: { select: { id: true, firstName: true, lastName: true, role: true } },
+        },
+      })
+
+      if (!ticket) {
+        throw new Error("Support ticket not found")
+      }
+
+      if (!ticket.bookingId && !ticket.deliveryId) {
+        throw new Error("This ticket is not linked to a chat")
+      }
+
+      const messages = await prisma.chatMessage.findMany({
+        where: ticket.deliveryId ? { deliveryId: ticket.deliveryId } : { bookingId: ticket.bookingId },
+        include: {
+          sender: { select: { id: true, firstName: true, lastName: true, role: true } },
+        },
+        orderBy: { createdAt: "asc" },
+      })
+
+      return { ticket, messages }
+    } catch (error) {
+      logger.error("Get ticket chat error:", error)
+      throw error
+    }
+  }
+
+  async hideMessage(messageId: string, adminId: string, reason: string): Promise<ChatMessage> {
+    try {
+      const message = await prisma.chatMessage.findUnique({ where: { id: messageId } })
+      if (!message) {
+        throw new Error("Chat message not found")
+      }
+
+      return await prisma.chatMessage.update({
+        where: { id: messageId },
+        data: {
+          isHidden: true,
+          hiddenReason: reason,
+          moderatedBy: adminId,
+          moderatedAt: new Date(),
+        },
+      })
+    } catch (error) {
+      logger.error("Hide chat message error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Shape sent to chat participants over REST and Socket.IO
+   */
+  serializeMessage(message: ChatMessage) {
+    return {
+      id: message.id,
+      bookingId: message.bookingId,
+      deliveryId: message.deliveryId,
+      senderId: message.senderId,
+      receiverId: message.receiverId,
+      message: message.isHidden ? REMOVED_MESSAGE : message.message,
+      messageType: message.messageType,
+      attachmentUrl: message.isHidden ? null : message.attachmentUrl,
+      attachmentMimeType: message.isHidden ? null : message.attachmentMimeType,
+      attachmentDuration: message.isHidden ? null : message.attachmentDuration,
+      isHidden: message.isHidden,
+      timestamp: message.createdAt,
+      isRead: !!message.readAt,
+      readAt: message.readAt,
+    }
+  }
+
+  private async findConversation(target: ChatTarget): Promise<ChatConversation> {
+    if (!!target.bookingId === !!target.deliveryId) {
+      throw new Error("Specify either a booking or a delivery")
+    }
+
+    if (target.bookingId) {
+      const booking = await prisma.booking.findUnique({
+        where: { id: target.bookingId },
+        select: { customerId: true, providerId: true },
+      })
+      if (!booking) {
+        throw new Error("Booking not found")
+      }
+      return { room: this.getRoom(target), customerId: booking.customerId, providerId: booking.providerId }
+    }
+
+    const delivery = await prisma.delivery.findUnique({
+      where: { id: target.deliveryId },
+      select: { dispatchRiderId: true, order: { select: { customerId: true } } },
+    })
+    if (!delivery) {
+      throw new Error("Delivery not found")
+    }
+    return { room: this.getRoom(target), customerId: delivery.order.customerId, providerId: delivery.dispatchRiderId }
+  }
+
+  private targetWhere(target: ChatTarget) {
+    return target.deliveryId ? { deliveryId: target.deliveryId } : { bookingId: target.bookingId }
+  }
+}
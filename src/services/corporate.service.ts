@@ -0,0 +1,875 @@
+import type {
+  BookingStatus,
+  CorporateMember,
+  CorporateMemberRole,
+  CorporatePolicy,
+  Prisma,
+} from "@prisma/client"
+import prisma from "../config/database"
+import { NotificationService } from "./notification.service"
+import { auditService } from "./audit.service"
+import logger from "../utils/logger"
+
+const DEFAULT_TIMEZONE = "Africa/Accra"
+// Bookings that never count against an employee's monthly limit
+const UNBILLED_STATUSES: BookingStatus[] = ["CANCELLED"]
+
+export interface PolicyTimeWindow {
+  daysOfWeek: number[] // 0 = Sunday ... 6 = Saturday
+  start: string // HH:mm
+  end: string // HH:mm, may be earlier than start for overnight windows
+}
+
+export interface CorporatePolicyData {
+  name?: string
+  isDefault?: boolean
+  perTripLimit?: number | null
+  monthlySpendLimit?: number | null
+  allowedServiceTypes?: string[]
+  timeWindows?: PolicyTimeWindow[] | null
+  timezone?: string
+  requireCostCenter?: boolean
+  isActive?: boolean
+}
+
+export interface CorporateBookingRequest {
+  corporateAccountId: string
+  costCenterId?: string
+  serviceTypeId: string
+  estimatedPrice?: number
+  scheduledAt?: Date | string | null
+}
+
+export class CorporateService {
+  private notificationService = new NotificationService()
+
+  /**
+   * Check a company-billed booking against the employee's travel policy. Returns the
+   * account, member and cost centre to record on the booking. Create the booking in the
+   * same transaction: the member row stays locked so concurrent bookings cannot both fit
+   * under the monthly limit.
+   */
+  async authorizeBooking(
+    userId: string,
+    request: CorporateBookingRequest,
+    client: Prisma.TransactionClient = prisma,
+  ) {
+    const member = await prisma.corporateMember.findUnique({
+      where: { corporateAccountId_userId: { corporateAccountId: request.corporateAccountId, userId } },
+      include: { corporateAccount: true, policy: true },
+    })
+
+    if (!member || !member.isActive || !member.corporateAccount.isActive) {
+      throw new Error("You are not allowed to bill bookings to this company account")
+    }
+
+    const policy = await this.resolvePolicy(member)
+    const costCenterId = request.costCenterId || member.defaultCostCenterId
+
+    if (costCenterId) {
+      const costCenter = await prisma.corporateCostCenter.findFirst({
+        where: { id: costCenterId, corporateAccountId: member.corporateAccountId, isActive: true },
+      })
+      if (!costCenter) {
+        throw new Error("Cost centre not found")
+      }
+    } else if (policy?.requireCostCenter) {
+      throw new Error("Your company policy requires a cost centre for every booking")
+    }
+
+    if (policy) {
+      const serviceType = await prisma.serviceType.findUnique({
+        where: { id: request.serviceTypeId },
+        select: { name: true, displayName: true },
+      })
+      if (!serviceType) {
+        throw new Error("Service type not found")
+      }
+      if (policy.allowedServiceTypes.length > 0 && !policy.allowedServiceTypes.includes(serviceType.name)) {
+        throw new Error(`${serviceType.displayName} is not covered by your company policy`)
+      }
+
+      const when = request.scheduledAt ? new Date(request.scheduledAt) : new Date()
+      if (!this.isWithinTimeWindows(policy, when)) {
+        throw new Error("Your company policy does not allow bookings at this time")
+      }
+
+      if (policy.perTripLimit != null || policy.monthlySpendLimit != null) {
+        if (request.estimatedPrice == null) {
+          throw new Error("This booking can't be priced, so it can't be checked against your company's spend limits")
+        }
+
+        if (policy.perTripLimit != null && request.estimatedPrice > policy.perTripLimit) {
+          throw new Error(
+            `This booking exceeds your company's per-trip limit of ${member.corporateAccount.currency} ${policy.perTripLimit}`,
+          )
+        }
+
+        if (policy.monthlySpendLimit != null) {
+          await client.$queryRaw`SELECT id FROM corporate_members WHERE id = ${member.id} FOR UPDATE`
+          const spent = await this.getMonthToDateSpend(member.id, policy.timezone, client)
+          if (spent + request.estimatedPrice > policy.monthlySpendLimit) {
+            throw new Error(
+              `This booking would exceed your monthly company allowance of ${member.corporateAccount.currency} ${policy.monthlySpendLimit}`,
+            )
+          }
+        }
+      }
+    }
+
+    return {
+      corporateAccountId: member.corporateAccountId,
+      corporateMemberId: member.id,
+      corporateCostCenterId: costCenterId || null,
+    }
+  }
+
+  async createAccount(
+    adminId: string,
+    data: {
+      name: string
+      billingEmail: string
+      billingAddress?: string
+      taxId?: string
+      currency?: string
+      paymentTermsDays?: number
+      adminEmail: string
+    },
+  ) {
+    try {
+      const { adminEmail, ...accountData } = data
+      const companyAdmin = await prisma.user.findUnique({ where: { email: adminEmail } })
+      if (!companyAdmin) {
+        throw new Error("No user found for the company admin email")
+      }
+
+      const account = await prisma.corporateAccount.create({
+        data: {
+          ...accountData,
+          members: { create: { userId: companyAdmin.id, role: "ADMIN" } },
+          policies: { create: { name: "Standard", isDefault: true } },
+        },
+        include: { members: true, policies: true },
+      })
+
+      await auditService.logAdminAction(adminId, "CORPORATE_ACCOUNT_CREATED", "corporate_account", account.id, {
+        name: account.name,
+        companyAdminId: companyAdmin.id,
+      })
+
+      return account
+    } catch (error) {
+      logger.error("Create corporate account error:", error)
+      throw error
+    }
+  }
+
+  async listAccounts(options: { page?: number; limit?: number } = {}) {
+    try {
+      const { page = 1, limit = 20 } = options
+
+      const [accounts, total] = await Promise.all([
+        prisma.corporateAccount.findMany({
+          include: { _count: { select: { members: true, bookings: true } } },
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.corporateAccount.count(),
+      ])
+
+      return {
+        accounts,
+        pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+      }
+    } catch (error) {
+      logger.error("List corporate accounts error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * The company accounts the user can bill to, with the policy that applies and what
+   * they have spent this month
+   */
+  async getMyMemberships(userId: string) {
+    try {
+      const members = await prisma.corporateMember.findMany({
+        where: { userId, isActive: true, corporateAccount: { isActive: true } },
+        include: {
+          corporateAccount: { select: { id: true, name: true, currency: true } },
+          policy: true,
+          defaultCostCenter: { select: { id: true, code: true, name: true } },
+        },
+      })
+
+      return Promise.all(
+        members.map(async (member) => {
+          const policy = await this.resolvePolicy(member)
+          const [costCenters, monthToDateSpend] = await Promise.all([
+            prisma.corporateCostCenter.findMany({
+              where: { corporateAccountId: member.corporateAccountId, isActive: true },
+              select: { id: true, code: true, name: true },
+              orderBy: { code: "asc" },
+            }),
+            this.getMonthToDateSpend(member.id, policy?.timezone),
+          ])
+
+          return {
+            memberId: member.id,
+            role: member.role,
+            account: member.corporateAccount,
+            policy,
+            defaultCostCenter: member.defaultCostCenter,
+            costCenters,
+            monthToDateSpend,
+          }
+        }),
+      )
+    } catch (error) {
+      logger.error("Get corporate memberships error:", error)
+      throw error
+    }
+  }
+
+  // Company admin portal
+  async getAccount(userId: string, accountId: string) {
+    try {
+      await this.requireCompanyAdmin(userId, accountId)
+
+      const periodStart = this.getMonthStart(new Date())
+      const [account, monthToDate] = await Promise.all([
+        prisma.corporateAccount.findUnique({
+          where: { id: accountId },
+          include: { _count: { select: { members: { where: { isActive: true } } } } },
+        }),
+        prisma.booking.aggregate({
+          where: { corporateAccountId: accountId, requestedAt: { gte: periodStart }, status: "COMPLETED" },
+          _sum: { finalPrice: true },
+          _count: true,
+        }),
+      ])
+
+      return {
+        ...account,
+        monthToDate: { trips: monthToDate._count, spend: monthToDate._sum.finalPrice || 0 },
+      }
+    } catch (error) {
+      logger.error("Get corporate account error:", error)
+      throw error
+    }
+  }
+
+  async listMembers(userId: string, accountId: string) {
+    try {
+      await this.requireCompanyAdmin(userId, accountId)
+
+      return await prisma.corporateMember.findMany({
+        where: { corporateAccountId: accountId },
+        include: {
+          user: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+          policy: { select: { id: true, name: true } },
+          defaultCostCenter: { select: { id: true, code: true, name: true } },
+        },
+        orderBy: { createdAt: "asc" },
+      })
+    } catch (error) {
+      logger.error("List corporate members error:", error)
+      throw error
+    }
+  }
+
+  async addMember(
+    userId: string,
+    accountId: string,
+    data: {
+      email: string
+      role?: CorporateMemberRole
+      employeeNumber?: string
+      policyId?: string
+      defaultCostCenterId?: string
+    },
+  ) {
+    try {
+      await this.requireCompanyAdmin(userId, accountId)
+
+      const employee = await prisma.user.findUnique({ where: { email: data.email } })
+      if (!employee) {
+        throw new Error("No user found with this email")
+      }
+      await this.checkMemberReferences(accountId, data)
+
+      const fields = {
+        role: data.role || "EMPLOYEE",
+        employeeNumber: data.employeeNumber,
+        policyId: data.policyId,
+        defaultCostCenterId: data.defaultCostCenterId,
+        isActive: true,
+      }
+
+      return await prisma.corporateMember.upsert({
+        where: { corporateAccountId_userId: { corporateAccountId: accountId, userId: employee.id } },
+        create: { corporateAccountId: accountId, userId: employee.id, ...fields },
+        update: fields,
+      })
+    } catch (error) {
+      logger.error("Add corporate member error:", error)
+      throw error
+    }
+  }
+
+  async updateMember(
+    userId: string,
+    accountId: string,
+    memberId: string,
+    data: {
+      role?: CorporateMemberRole
+      employeeNumber?: string
+      policyId?: string | null
+      defaultCostCenterId?: string | null
+      isActive?: boolean
+    },
+  ) {
+    try {
+      await this.requireCompanyAdmin(userId, accountId)
+      await this.checkMemberReferences(accountId, data)
+
+      const member = await prisma.corporateMember.findFirst({ where: { id: memberId, corporateAccountId: accountId } })
+      if (!member) {
+        throw new Error("Member not found")
+      }
+      if (member.userId === userId && (data.role === "EMPLOYEE" || data.isActive === false)) {
+        throw new Error("You cannot remove your own admin access")
+      }
+
+      return await prisma.corporateMember.update({ where: { id: memberId }, data })
+    } catch (error) {
+      logger.error("Update corporate member error:", error)
+      throw error
+    }
+  }
+
+  async listPolicies(userId: string, accountId: string) {
+    try {
+      await this.requireCompanyAdmin(userId, accountId)
+
+      return await prisma.corporatePolicy.findMany({
+        where: { corporateAccountId: accountId },
+        include: { _count: { select: { members: true } } },
+        orderBy: { createdAt: "asc" },
+      })
+    } catch (error) {
+      logger.error("List corporate policies error:", error)
+      throw error
+    }
+  }
+
+  async createPolicy(userId: string, accountId: string, data: CorporatePolicyData & { name: string }) {
+    try {
+      await this.requireCompanyAdmin(userId, accountId)
+
+      return await prisma.$transaction(async (tx) => {
+        if (data.isDefault) {
+          await tx.corporatePolicy.updateMany({ where: { corporateAccountId: accountId }, data: { isDefault: false } })
+        }
+
+        return tx.corporatePolicy.create({
+          data: { ...this.toPolicyFields(data), name: data.name, corporateAccountId: accountId },
+        })
+      })
+    } catch (error) {
+      logger.error("Create corporate policy error:", error)
+      throw error
+    }
+  }
+
+  async updatePolicy(userId: string, accountId: string, policyId: string, data: CorporatePolicyData) {
+    try {
+      await this.requireCompanyAdmin(userId, accountId)
+
+      const policy = await prisma.corporatePolicy.findFirst({ where: { id: policyId, corporateAccountId: accountId } })
+      if (!policy) {
+        throw new Error("Policy not found")
+      }
+
+      return await prisma.$transaction(async (tx) => {
+        if (data.isDefault) {
+          await tx.corporatePolicy.updateMany({
+            where: { corporateAccountId: accountId, id: { not: policyId } },
+            data: { isDefault: false },
+          })
+        }
+
+        return tx.corporatePolicy.update({ where: { id: policyId }, data: this.toPolicyFields(data) })
+      })
+    } catch (error) {
+      logger.error("Update corporate policy error:", error)
+      throw error
+    }
+  }
+
+  async listCostCenters(userId: string, accountId: string) {
+    try {
+      await this.requireCompanyAdmin(userId, accountId)
+
+      return await prisma.corporateCostCenter.findMany({
+        where: { corporateAccountId: accountId },
+        orderBy: { code: "asc" },
+      })
+    } catch (error) {
+      logger.error("List cost centres error:", error)
+      throw error
+    }
+  }
+
+  async createCostCenter(userId: string, accountId: string, data: { code: string; name: string }) {
+    try {
+      await this.requireCompanyAdmin(userId, accountId)
+
+      const existing = await prisma.corporateCostCenter.findUnique({
+        where: { corporateAccountId_code: { corporateAccountId: accountId, code: data.code } },
+      })
+      if (existing) {
+        throw new Error("A cost centre with this code already exists")
+      }
+
+      return await prisma.corporateCostCenter.create({ data: { ...data, corporateAccountId: accountId } })
+    } catch (error) {
+      logger.error("Create cost centre error:", error)
+      throw error
+    }
+  }
+
+  async updateCostCenter(
+    userId: string,
+    accountId: string,
+    costCenterId: string,
+    data: { name?: string; isActive?: boolean },
+  ) {
+    try {
+      await this.requireCompanyAdmin(userId, accountId)
+
+      const updated = await prisma.corporateCostCenter.updateMany({
+        where: { id: costCenterId, corporateAccountId: accountId },
+        data,
+      })
+      if (updated.count === 0) {
+        throw new Error("Cost centre not found")
+      }
+
+      return await prisma.corporateCostCenter.findUnique({ where: { id: costCenterId } })
+    } catch (error) {
+      logger.error("Update cost centre error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Employee trips billed to the account, for the company admin portal
+   */
+  async listTrips(
+    userId: string,
+    accountId: string,
+    filters: {
+      memberId?: string
+      costCenterId?: string
+      status?: BookingStatus
+      from?: Date
+      to?: Date
+      page?: number
+      limit?: number
+    },
+  ) {
+    try {
+      await this.requireCompanyAdmin(userId, accountId)
+
+      const { page = 1, limit = 20 } = filters
+      const where: Prisma.BookingWhereInput = {
+        corporateAccountId: accountId,
+        corporateMemberId: filters.memberId,
+        corporateCostCenterId: filters.costCenterId,
+        status: filters.status,
+        ...((filters.from || filters.to) && { requestedAt: { gte: filters.from, lte: filters.to } }),
+      }
+
+      const [trips, total, totals] = await Promise.all([
+        prisma.booking.findMany({
+          where,
+          select: {
+            id: true,
+            bookingNumber: true,
+            status: true,
+            requestedAt: true,
+            completedAt: true,
+            pickupLatitude: true,
+            pickupLongitude: true,
+            dropoffLatitude: true,
+            dropoffLongitude: true,
+            estimatedPrice: true,
+            finalPrice: true,
+            currency: true,
+            corporateInvoiceId: true,
+            serviceType: { select: { name: true, displayName: true } },
+            customer: { select: { id: true, firstName: true, lastName: true, email: true } },
+            corporateCostCenter: { select: { id: true, code: true, name: true } },
+          },
+          orderBy: { requestedAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.booking.count({ where }),
+        prisma.booking.aggregate({ where: { ...where, status: "COMPLETED" }, _sum: { finalPrice: true } }),
+      ])
+
+      return {
+        trips,
+        totalSpend: totals._sum.finalPrice || 0,
+        pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+      }
+    } catch (error) {
+      logger.error("List corporate trips error:", error)
+      throw error
+    }
+  }
+
+  async listInvoices(userId: string, accountId: string) {
+    try {
+      await this.requireCompanyAdmin(userId, accountId)
+
+      return await prisma.corporateInvoice.findMany({
+        where: { corporateAccountId: accountId },
+        orderBy: { periodStart: "desc" },
+      })
+    } catch (error) {
+      logger.error("List corporate invoices error:", error)
+      throw error
+    }
+  }
+
+  async getInvoice(userId: string, accountId: string, invoiceId: string) {
+    try {
+      await this.requireCompanyAdmin(userId, accountId)
+
+      const invoice = await prisma.corporateInvoice.findFirst({
+        where: { id: invoiceId, corporateAccountId: accountId },
+        include: {
+          bookings: {
+            select: {
+              id: true,
+              bookingNumber: true,
+              completedAt: true,
+              finalPrice: true,
+              serviceType: { select: { displayName: true } },
+              customer: { select: { firstName: true, lastName: true, email: true } },
+              corporateCostCenter: { select: { code: true, name: true } },
+            },
+            orderBy: { completedAt: "asc" },
+          },
+        },
+      })
+      if (!invoice) {
+        throw new Error("Invoice not found")
+      }
+
+      return invoice
+    } catch (error) {
+      logger.error("Get corporate invoice error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Issue one consolidated invoice per account for the completed company-billed bookings
+   * up to the end of the month before `now`. Bookings missed by an earlier run are swept
+   * into this one.
+   */
+  async generateMonthlyStatements(now = new Date()) {
+    const periodEnd = this.getMonthStart(now)
+    const periodStart = this.getMonthStart(new Date(periodEnd.getTime() - 1))
+    let issued = 0
+
+    const accounts = await prisma.corporateAccount.findMany({
+      where: {
+        bookings: { some: { status: "COMPLETED", corporateInvoiceId: null, completedAt: { lt: periodEnd } } },
+      },
+    })
+
+    for (const account of accounts) {
+      try {
+        const invoice = await this.issueInvoice(account, periodStart, periodEnd)
+        if (invoice) issued++
+      } catch (error) {
+        logger.error(`Failed to issue statement for corporate account ${account.id}:`, error)
+      }
+    }
+
+    return { accounts: accounts.length, issued }
+  }
+
+  async markInvoicePaid(adminId: string, invoiceId: string, paymentReference?: string) {
+    try {
+      const invoice = await prisma.corporateInvoice.findUnique({ where: { id: invoiceId } })
+      if (!invoice) {
+        throw new Error("Invoice not found")
+      }
+      if (invoice.status !== "ISSUED") {
+        throw new Error(`Invoice is already ${invoice.status.toLowerCase()}`)
+      }
+
+      const [paid] = await prisma.$transaction([
+        prisma.corporateInvoice.update({
+          where: { id: invoiceId },
+          data: { status: "PAID", paidAt: new Date(), paymentReference },
+        }),
+        prisma.booking.updateMany({ where: { corporateInvoiceId: invoiceId }, data: { paymentStatus: "COMPLETED" } }),
+      ])
+
+      await auditService.logAdminAction(adminId, "CORPORATE_INVOICE_PAID", "corporate_invoice", invoiceId, {
+        paymentReference,
+        total: invoice.total,
+      })
+
+      return paid
+    } catch (error) {
+      logger.error("Mark corporate invoice paid error:", error)
+      throw error
+    }
+  }
+
+  private async issueInvoice(
+    account: { id: string; name: string; currency: string; paymentTermsDays: number },
+    periodStart: Date,
+    periodEnd: Date,
+  ) {
+    const bookings = await prisma.booking.findMany({
+      where: {
+        corporateAccountId: account.id,
+        status: "COMPLETED",
+        corporateInvoiceId: null,
+        completedAt: { lt: periodEnd },
+      },
+      select: {
+        id: true,
+        finalPrice: true,
+        estimatedPrice: true,
+        corporateCostCenter: { select: { id: true, code: true, name: true } },
+      },
+    })
+    if (bookings.length === 0) return null
+
+    const lines = new Map<string, { costCenterId: string | null; code: string | null; name: string; trips: number; amount: number }>()
+    for (const booking of bookings) {
+      const key = booking.corporateCostCenter?.id || "none"
+      const line = lines.get(key) || {
+        costCenterId: booking.corporateCostCenter?.id || null,
+        code: booking.corporateCostCenter?.code || null,
+        name: booking.corporateCostCenter?.name || "Unassigned",
+        trips: 0,
+        amount: 0,
+      }
+      line.trips++
+      line.amount = this.roundAmount(line.amount + (booking.finalPrice ?? booking.estimatedPrice ?? 0))
+      lines.set(key, line)
+    }
+    const total = this.roundAmount([...lines.values()].reduce((sum, line) => sum + line.amount, 0))
+
+    const invoice = await prisma.$transaction(async (tx) => {
+      const created = await tx.corporateInvoice.create({
+        data: {
+          corporateAccountId: account.id,
+          invoiceNumber: this.generateInvoiceNumber(periodStart),
+          periodStart,
+          periodEnd,
+          tripCount: bookings.length,
+          total,
+          currency: account.currency,
+          lines: [...lines.values()],
+          dueDate: new Date(periodEnd.getTime() + account.paymentTermsDays * 24 * 60 * 60 * 1000),
+        },
+      })
+
+      const claimed = await tx.booking.updateMany({
+        where: { id: { in: bookings.map((booking) => booking.id) }, corporateInvoiceId: null },
+        data: { corporateInvoiceId: created.id },
+      })
+      if (claimed.count !== bookings.length) {
+        throw new Error("Bookings were invoiced by another run")
+      }
+
+      return created
+    })
+
+    const admins = await prisma.corporateMember.findMany({
+      where: { corporateAccountId: account.id, role: "ADMIN", isActive: true },
+      select: { userId: true },
+    })
+    await Promise.allSettled(
+      admins.map((admin) =>
+        this.notificationService.notifyCustomer(admin.userId, {
+          type: "PAYMENT_UPDATE",
+          title: "Monthly Statement Ready",
+          body: `${account.name}'s statement for ${bookings.length} trips is ready: ${account.currency} ${total.toFixed(2)}`,
+          data: { corporateAccountId: account.id, invoiceId: invoice.id, total },
+        }),
+      ),
+    )
+
+    return invoice
+  }
+
+  private async resolvePolicy(member: CorporateMember & { policy?: CorporatePolicy | null }) {
+    if (member.policy?.isActive) return member.policy
+
+    return prisma.corporatePolicy.findFirst({
+      where: { corporateAccountId: member.corporateAccountId, isDefault: true, isActive: true },
+    })
+  }
+
+  private async requireCompanyAdmin(userId: string, accountId: string) {
+    const member = await prisma.corporateMember.findUnique({
+      where: { corporateAccountId_userId: { corporateAccountId: accountId, userId } },
+    })
+    if (!member || !member.isActive || member.role !== "ADMIN") {
+      throw new Error("Company account not found")
+    }
+    return member
+  }
+
+  private async checkMemberReferences(
+    accountId: string,
+    data: { policyId?: string | null; defaultCostCenterId?: string | null },
+  ) {
+    if (data.policyId) {
+      const policy = await prisma.corporatePolicy.findFirst({ where: { id: data.policyId, corporateAccountId: accountId } })
+      if (!policy) {
+        throw new Error("Policy not found")
+      }
+    }
+    if (data.defaultCostCenterId) {
+      const costCenter = await prisma.corporateCostCenter.findFirst({
+        where: { id: data.defaultCostCenterId, corporateAccountId: accountId },
+      })
+      if (!costCenter) {
+        throw new Error("Cost centre not found")
+      }
+    }
+  }
+
+  private async getMonthToDateSpend(
+    memberId: string,
+    timezone = DEFAULT_TIMEZONE,
+    client: Prisma.TransactionClient = prisma,
+  ) {
+    const bookings = await client.booking.findMany({
+      where: {
+        corporateMemberId: memberId,
+        requestedAt: { gte: this.getMonthStart(new Date(), timezone) },
+        status: { notIn: UNBILLED_STATUSES },
+      },
+      select: { finalPrice: true, estimatedPrice: true },
+    })
+
+    return this.roundAmount(bookings.reduce((sum, booking) => sum + (booking.finalPrice ?? booking.estimatedPrice ?? 0), 0))
+  }
+
+  private isWithinTimeWindows(policy: CorporatePolicy, when: Date): boolean {
+    const windows = (policy.timeWindows as PolicyTimeWindow[] | null) || []
+    if (windows.length === 0) return true
+
+    let parts: Intl.DateTimeFormatPart[]
+    try {
+      parts = new Intl.DateTimeFormat("en-GB", {
+        timeZone: policy.timezone,
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+      }).formatToParts(when)
+    } catch {
+      logger.warn(`Unknown timezone ${policy.timezone} on corporate policy ${policy.id}, using ${DEFAULT_TIMEZONE}`)
+      return this.isWithinTimeWindows({ ...policy, timezone: DEFAULT_TIMEZONE }, when)
+    }
+
+    const value = (type: string) => parts.find((part) => part.type === type)?.value || ""
+    const day = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(value("weekday"))
+    const minutes = Number(value("hour")) * 60 + Number(value("minute"))
+
+    return windows.some((window) => {
+      const start = this.toMinutes(window.start)
+      const end = this.toMinutes(window.end)
+      if (start <= end) {
+        return window.daysOfWeek.includes(day) && minutes >= start && minutes < end
+      }
+      // Overnight windows belong to the day they start on
+      return (
+        (window.daysOfWeek.includes(day) && minutes >= start) ||
+        (window.daysOfWeek.includes((day + 6) % 7) && minutes < end)
+      )
+    })
+  }
+
+  private toPolicyFields(data: CorporatePolicyData) {
+    const { timeWindows, ...fields } = data
+    return {
+      ...fields,
+      ...(timeWindows !== undefined && { timeWindows: (timeWindows || []) as unknown as Prisma.InputJsonValue }),
+    }
+  }
+
+  private toMinutes(time: string) {
+    const [hours, minutes] = time.split(":").map(Number)
+    return hours * 60 + minutes
+  }
+
+  // Midnight on the first of the month, as observed in the timezone
+  private getMonthStart(date: Date, timezone = DEFAULT_TIMEZONE): Date {
+    try {
+      const { year, month } = this.getZonedParts(date, timezone)
+      const midnight = Date.UTC(year, month - 1, 1)
+      // Use the offset in force at that midnight, which differs from today's if the clocks changed since
+      const offset = this.getZoneOffset(new Date(midnight - this.getZoneOffset(new Date(midnight), timezone)), timezone)
+      return new Date(midnight - offset)
+    } catch {
+      logger.warn(`Unknown timezone ${timezone}, using ${DEFAULT_TIMEZONE}`)
+      return this.getMonthStart(date, DEFAULT_TIMEZONE)
+    }
+  }
+
+  private getZonedParts(date: Date, timezone: string) {
+    const parts = new Intl.DateTimeFormat("en-GB", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(date)
+    const value = (type: string) => Number(parts.find((part) => part.type === type)?.value)
+
+    return {
+      year: value("year"),
+      month: value("month"),
+      day: value("day"),
+      hour: value("hour"),
+      minute: value("minute"),
+      second: value("second"),
+    }
+  }
+
+  // Milliseconds the timezone is ahead of UTC at the given moment
+  private getZoneOffset(date: Date, timezone: string) {
+    const { year, month, day, hour, minute, second } = this.getZonedParts(date, timezone)
+    return Date.UTC(year, month - 1, day, hour, minute, second) - (date.getTime() - date.getUTCMilliseconds())
+  }
+
+  private roundAmount(amount: number) {
+    return Math.round(amount * 100) / 100
+  }
+
+  private generateInvoiceNumber(periodStart: Date) {
+    const period = `${periodStart.getFullYear()}${String(periodStart.getMonth() + 1).padStart(2, "0")}`
+    return `CORP-${period}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`
+  }
+}
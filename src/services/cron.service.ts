@@ -1,14 +1,29 @@
 import cron from "node-cron"
 import prisma from "../config/database"
-import { PaymentService } from "./payment.service"
+import { PayoutService } from "./payout.service"
 import { NotificationService } from "./notification.service"
 import { RBACService } from "./rbac.service"
+import { LoyaltyService } from "./loyalty.service"
+import { SupportService } from "./support.service"
+import { RecurringBookingService } from "./recurring-booking.service"
+import { CorporateService } from "./corporate.service"
+import { StockReservationService } from "./stock-reservation.service"
+import { AnalyticsService } from "./analytics.service"
+import { AnalyticsRollupService } from "./analytics-rollup.service"
+import { geoIndexService } from "./geo-index.service"
 import logger from "../utils/logger"
 
 export function startCronJobs() {
-  const paymentService = new PaymentService()
+  const payoutService = new PayoutService()
   const notificationService = new NotificationService()
   const rbacService = new RBACService()
+  const loyaltyService = new LoyaltyService()
+  const supportService = new SupportService()
+  const recurringBookingService = new RecurringBookingService()
+  const corporateService = new CorporateService()
+  const stockReservationService = new StockReservationService()
+  const analyticsService = new AnalyticsService()
+  const analyticsRollupService = new AnalyticsRollupService()
 
   // Generate monthly commission bills (runs on 1st of every month at 00:00)
   cron.schedule("0 0 1 * *", async () => {
@@ -22,6 +37,18 @@ export function startCronJobs() {
     }
   })
 
+  // Issue corporate accounts' monthly statements (runs on 1st of every month at 00:30)
+  cron.schedule("30 0 1 * *", async () => {
+    logger.info("Generating corporate monthly statements...")
+
+    try {
+      const result = await corporateService.generateMonthlyStatements()
+      logger.info(`Issued ${result.issued} corporate statements`)
+    } catch (error) {
+      logger.error("Corporate statement generation failed:", error)
+    }
+  })
+
   // Send commission payment reminders (runs daily at 09:00)
   cron.schedule("0 9 * * *", async () => {
     logger.info("Sending commission payment reminders...")
@@ -34,12 +61,24 @@ export function startCronJobs() {
     }
   })
 
+  // Build provider payout batches from unpaid earnings (runs daily at 01:00)
+  cron.schedule("0 1 * * *", async () => {
+    logger.info("Building provider payout batches...")
+
+    try {
+      await payoutService.buildPayoutBatches()
+      logger.info("Provider payout batches built successfully")
+    } catch (error) {
+      logger.error("Provider payout batch build failed:", error)
+    }
+  })
+
   // Process pending payouts (runs every hour)
   cron.schedule("0 * * * *", async () => {
     logger.info("Processing pending payouts...")
 
     try {
-      await paymentService.processPendingPayouts()
+      await payoutService.processPendingPayouts()
       logger.info("Pending payouts processed successfully")
     } catch (error) {
       logger.error("Pending payouts processing failed:", error)
@@ -70,6 +109,115 @@ export function startCronJobs() {
     }
   })
 
+  // Rebuild KPI rollups for today and the last few days (runs daily at 00:15)
+  cron.schedule("15 0 * * *", async () => {
+    logger.info("Building analytics rollups...")
+
+    try {
+      await analyticsRollupService.rollupRecent()
+      logger.info("Analytics rollups built successfully")
+    } catch (error) {
+      logger.error("Analytics rollup failed:", error)
+    }
+  })
+
+  // Keep today's KPI rollups current (runs every hour)
+  cron.schedule("20 * * * *", async () => {
+    try {
+      await analyticsRollupService.rollupDay(new Date())
+    } catch (error) {
+      logger.error("Today's analytics rollup failed:", error)
+    }
+  })
+
+  // Create upcoming analytics event partitions and drop the ones past the retention period
+  // (runs daily at 03:30)
+  cron.schedule("30 3 * * *", async () => {
+    try {
+      await analyticsService.ensureEventPartitions()
+      const retentionDays = Number.parseInt(process.env.ANALYTICS_EVENT_RETENTION_DAYS || "400")
+      const pruned = await analyticsService.pruneEvents(retentionDays)
+      logger.info(`Pruned ${pruned} analytics events older than ${retentionDays} days`)
+    } catch (error) {
+      logger.error("Analytics event pruning failed:", error)
+    }
+  })
+
+  // Expire loyalty points and unused reward codes (runs daily at 00:30)
+  cron.schedule("30 0 * * *", async () => {
+    logger.info("Expiring loyalty points...")
+
+    try {
+      const result = await loyaltyService.expirePoints()
+      logger.info(
+        `Loyalty points expired: ${result.pointsExpired} points for ${result.usersAffected} users, ${result.redemptionsExpired} reward codes`,
+      )
+    } catch (error) {
+      logger.error("Loyalty points expiry failed:", error)
+    }
+  })
+
+  // Recalculate loyalty tiers (runs daily at 04:00)
+  cron.schedule("0 4 * * *", async () => {
+    logger.info("Recalculating loyalty tiers...")
+
+    try {
+      const result = await loyaltyService.recalculateTiers()
+      logger.info(`Loyalty tiers recalculated: ${result.upgraded} upgraded, ${result.downgraded} downgraded`)
+    } catch (error) {
+      logger.error("Loyalty tier recalculation failed:", error)
+    }
+  })
+
+  // Escalate support tickets that missed their SLA (runs every 15 minutes)
+  cron.schedule("*/15 * * * *", async () => {
+    try {
+      await supportService.escalateOverdueTickets()
+    } catch (error) {
+      logger.error("Support ticket escalation failed:", error)
+    }
+  })
+
+  // Book recurring series occurrences for the next two days (runs every hour)
+  cron.schedule("5 * * * *", async () => {
+    logger.info("Materializing recurring bookings...")
+    try {
+      await recurringBookingService.materializeUpcoming()
+    } catch (error) {
+      logger.error("Recurring booking materialization failed:", error)
+    }
+  })
+
+  // Start driver matching for recurring rides about to begin (runs every 5 minutes)
+  cron.schedule("*/5 * * * *", async () => {
+    try {
+      await recurringBookingService.dispatchDueRides()
+    } catch (error) {
+      logger.error("Recurring ride dispatch failed:", error)
+    }
+  })
+
+  // Put stock back on sale from checkouts that never reached the store (runs every 5 minutes)
+  cron.schedule("*/5 * * * *", async () => {
+    try {
+      const released = await stockReservationService.releaseExpired()
+      if (released > 0) {
+        logger.info(`Released expired stock reservations for ${released} orders`)
+      }
+    } catch (error) {
+      logger.error("Stock reservation release failed:", error)
+    }
+  })
+
+  // Reload the proximity indexes from the database to pick up missed location updates (runs every 10 minutes)
+  cron.schedule("*/10 * * * *", async () => {
+    try {
+      await geoIndexService.rebuildAll()
+    } catch (error) {
+      logger.error("Geo index rebuild failed:", error)
+    }
+  })
+
   // Clear RBAC cache (runs every 6 hours)
   cron.schedule("0 */6 * * *", async () => {
     logger.info("Clearing RBAC cache...")
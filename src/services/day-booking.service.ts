@@ -3,6 +3,7 @@ import { WebhookService } from "./webhook.service"
 import { NotificationService } from "./notification.service"
 import { PricingService } from "./pricing.service"
 import { WebSocketService } from "./websocket.service"
+import { JOB_TYPES, jobQueueService } from "./job-queue.service"
 import logger from "../utils/logger"
 
 interface DayBookingData {
@@ -15,6 +16,8 @@ interface DayBookingData {
   contactPhone?: string
   pickupLatitude?: number
   pickupLongitude?: number
+  recurringSeriesId?: string
+  occurrenceDate?: string
 }
 
 interface DriverAvailabilityCheck {
@@ -67,8 +70,10 @@ export class DayBookingService {
           providerId: bookingData.driverId,
           serviceTypeId: await this.getServiceTypeId("DAY_BOOKING"),
           status: "CONFIRMED",
-          type: "SCHEDULED",
+          type: bookingData.recurringSeriesId ? "RECURRING" : "SCHEDULED",
           scheduledAt: bookingData.scheduledAt,
+          recurringSeriesId: bookingData.recurringSeriesId,
+          occurrenceDate: bookingData.occurrenceDate,
           estimatedPrice: pricing.totalPrice,
           finalPrice: pricing.totalPrice,
           currency: "GHS",
@@ -271,38 +276,50 @@ export class DayBookingService {
   }
 
   /**
-   * Schedule automated booking monitoring
+   * Schedule automated booking monitoring on the job queue
    */
   private async scheduleBookingMonitoring(bookingId: string, scheduledAt: Date, duration: number) {
     try {
       // Schedule pre-booking reminder (1 hour before)
       const reminderTime = new Date(scheduledAt.getTime() - 60 * 60 * 1000)
       if (reminderTime > new Date()) {
-        setTimeout(async () => {
-          await this.sendBookingReminder(bookingId, "REMINDER_1H")
-        }, reminderTime.getTime() - Date.now())
+        await jobQueueService.enqueue(
+          JOB_TYPES.DAY_BOOKING_REMINDER,
+          { bookingId, reminderType: "REMINDER_1H" },
+          { runAt: reminderTime, dedupeKey: `booking:${bookingId}:day-reminder`, replace: true },
+        )
       }
 
       // Schedule booking start notification
-      setTimeout(async () => {
-        await this.handleBookingStart(bookingId)
-      }, scheduledAt.getTime() - Date.now())
+      await jobQueueService.enqueue(
+        JOB_TYPES.DAY_BOOKING_START,
+        { bookingId },
+        { runAt: scheduledAt, dedupeKey: `booking:${bookingId}:day-start`, replace: true },
+      )
 
       // Schedule periodic status updates during booking
       const updateInterval = 30 * 60 * 1000 // Every 30 minutes
       const totalUpdates = Math.floor(duration * 60 / 30) // Updates per booking
 
       for (let i = 1; i <= totalUpdates; i++) {
-        setTimeout(async () => {
-          await this.sendPeriodicStatusUpdate(bookingId, i, totalUpdates)
-        }, scheduledAt.getTime() + (i * updateInterval) - Date.now())
+        await jobQueueService.enqueue(
+          JOB_TYPES.DAY_BOOKING_STATUS_UPDATE,
+          { bookingId, updateNumber: i, totalUpdates },
+          {
+            runAt: new Date(scheduledAt.getTime() + i * updateInterval),
+            dedupeKey: `booking:${bookingId}:day-update:${i}`,
+            replace: true,
+          },
+        )
       }
 
       // Schedule booking completion
       const endTime = new Date(scheduledAt.getTime() + duration * 60 * 60 * 1000)
-      setTimeout(async () => {
-        await this.handleBookingCompletion(bookingId)
-      }, endTime.getTime() - Date.now())
+      await jobQueueService.enqueue(
+        JOB_TYPES.DAY_BOOKING_COMPLETION,
+        { bookingId },
+        { runAt: endTime, dedupeKey: `booking:${bookingId}:day-completion`, replace: true },
+      )
 
       logger.info(`📅 Scheduled monitoring for day booking ${bookingId}`)
 
@@ -361,8 +378,13 @@ export class DayBookingService {
   /**
    * Handle booking start with webhook
    */
-  private async handleBookingStart(bookingId: string) {
+  async handleBookingStart(bookingId: string) {
     try {
+      const current = await prisma.booking.findUnique({ where: { id: bookingId }, select: { status: true } })
+      if (current?.status !== "CONFIRMED") {
+        return // Cancelled or already started
+      }
+
       // Update booking status
       await prisma.booking.update({
         where: { id: bookingId },
@@ -408,8 +430,13 @@ export class DayBookingService {
   /**
    * Handle booking completion with webhook
    */
-  private async handleBookingCompletion(bookingId: string) {
+  async handleBookingCompletion(bookingId: string) {
     try {
+      const current = await prisma.booking.findUnique({ where: { id: bookingId }, select: { status: true } })
+      if (current?.status !== "IN_PROGRESS") {
+        return // Never started, cancelled or already completed
+      }
+
       // Update booking status
       await prisma.booking.update({
         where: { id: bookingId },
@@ -455,7 +482,7 @@ export class DayBookingService {
   /**
    * Send periodic status updates
    */
-  private async sendPeriodicStatusUpdate(bookingId: string, updateNumber: number, totalUpdates: number) {
+  async sendPeriodicStatusUpdate(bookingId: string, updateNumber: number, totalUpdates: number) {
     try {
       const booking = await prisma.booking.findUnique({
         where: { id: bookingId },
@@ -492,7 +519,7 @@ export class DayBookingService {
   /**
    * Send booking reminder
    */
-  private async sendBookingReminder(bookingId: string, reminderType: string) {
+  async sendBookingReminder(bookingId: string, reminderType: string) {
     try {
       const booking = await prisma.booking.findUnique({
         where: { id: bookingId },
@@ -679,6 +706,8 @@ export class DayBookingService {
         }
       )
 
+      await jobQueueService.cancelByPrefix(`booking:${bookingId}:`)
+
       logger.warn(`❌ Booking ${bookingId} cancelled - no alternative driver available`)
 
     } catch (error) {
@@ -2,9 +2,12 @@ import prisma from "../config/database"
 import { LocationService } from "./location.service"
 import { NotificationService } from "./notification.service"
 import { PaymentService } from "./payment.service"
+import { GEO_INDEXES, geoIndexService } from "./geo-index.service"
 import logger from "../utils/logger"
 import { NotificationType, PriorityLevel } from "@prisma/client"
 
+const DEFAULT_MAX_DELIVERY_DISTANCE = 50000 // meters
+
 export class DispatchRiderService {
   private locationService = new LocationService()
   private notificationService = new NotificationService()
@@ -313,6 +316,12 @@ export class DispatchRiderService {
           currentLongitude: availabilityData.currentLongitude,
         },
       })
+      await geoIndexService.updatePosition(
+        GEO_INDEXES.DISPATCH_RIDERS,
+        userId,
+        availabilityData.currentLatitude,
+        availabilityData.currentLongitude,
+      )
 
       return profile
     } catch (error) {
@@ -331,6 +340,12 @@ export class DispatchRiderService {
           heading: locationData.heading,
         },
       })
+      await geoIndexService.updatePosition(
+        GEO_INDEXES.DISPATCH_RIDERS,
+        userId,
+        locationData.latitude,
+        locationData.longitude,
+      )
 
       // Store location history
       await prisma.driverLocationHistory.create({
@@ -1617,6 +1632,12 @@ export class DispatchRiderService {
           heading: trackingData.heading,
         },
       })
+      await geoIndexService.updatePosition(
+        GEO_INDEXES.DISPATCH_RIDERS,
+        dispatchRiderId,
+        trackingData.latitude,
+        trackingData.longitude,
+      )
 
       try {
         const { io } = await import("../server")
@@ -1690,39 +1711,38 @@ export class DispatchRiderService {
 
   private async findAndNotifyDispatchRiders(delivery: any) {
     try {
-      // Find nearby available dispatch riders
-      const nearbyRiders = await prisma.deliveryProfile.findMany({
-        where: {
-          isAvailable: true,
-          isOnline: true,
-          isVerified: true,
-          currentLatitude: { not: null },
-          currentLongitude: { not: null },
-        },
-        include: {
-          user: true,
-        },
-      })
-
-      // Filter by distance and notify closest ones
       const pickupLocation = await prisma.location.findUnique({
         where: { id: delivery.pickupLocationId },
       })
 
       if (!pickupLocation) return
 
+      // Riders set their own range, so search out to the widest one and check each rider's range after
+      const { _max } = await prisma.deliveryProfile.aggregate({ _max: { maxDeliveryDistance: true } })
+      const searchRadius = Math.max(_max.maxDeliveryDistance || 0, DEFAULT_MAX_DELIVERY_DISTANCE)
+
+      const nearbyRiders = await geoIndexService.findNearest(
+        GEO_INDEXES.DISPATCH_RIDERS,
+        { latitude: pickupLocation.latitude, longitude: pickupLocation.longitude, radius: searchRadius },
+        (userIds) =>
+          prisma.deliveryProfile.findMany({
+            where: {
+              userId: { in: userIds },
+              isAvailable: true,
+              isOnline: true,
+              isVerified: true,
+              currentLatitude: { not: null },
+              currentLongitude: { not: null },
+            },
+            include: {
+              user: true,
+            },
+          }),
+        (rider) => rider.userId,
+      )
+
       const ridersWithDistance = nearbyRiders
-        .map((rider) => {
-          const distance = this.locationService.calculateDistance(
-            rider.currentLatitude!,
-            rider.currentLongitude!,
-            pickupLocation.latitude,
-            pickupLocation.longitude,
-          )
-          return { ...rider, distance }
-        })
-        .filter((rider) => rider.distance <= (rider.maxDeliveryDistance || 50000))
-        .sort((a, b) => a.distance - b.distance)
+        .filter((rider) => rider.distance <= (rider.maxDeliveryDistance || DEFAULT_MAX_DELIVERY_DISTANCE))
         .slice(0, 5) // Notify top 5 closest riders
 
       // Notify dispatch riders
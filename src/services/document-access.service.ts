@@ -0,0 +1,173 @@
+import type { UserRole } from "@prisma/client"
+import prisma from "../config/database"
+import { FileUploadService } from "./file-upload.service"
+import { RBACService } from "./rbac.service"
+import { auditService } from "./audit.service"
+import logger from "../utils/logger"
+
+export type DocumentKind = "driver" | "taxi-driver" | "dispatch-rider"
+
+export const DOCUMENT_KINDS: DocumentKind[] = ["driver", "taxi-driver", "dispatch-rider"]
+
+const AUDIT_RESOURCES: Record<DocumentKind, string> = {
+  driver: "driver_document",
+  "taxi-driver": "taxi_driver_document",
+  "dispatch-rider": "delivery_document",
+}
+
+interface DocumentViewer {
+  id: string
+  role: UserRole
+}
+
+interface StoredDocument {
+  id: string
+  type: string
+  status: string
+  documentUrl: string
+  ownerId: string
+}
+
+/**
+ * KYC documents sit in the private `documents` bucket. This is the only way to look at one:
+ * access is checked against the RBAC rules, every view is audited, and the link handed out
+ * expires after DOCUMENT_URL_TTL_SECONDS.
+ */
+export class DocumentAccessService {
+  private fileUploadService = new FileUploadService()
+  private rbacService = new RBACService()
+
+  async getDocumentUrl(viewer: DocumentViewer, kind: DocumentKind, documentId: string) {
+    try {
+      const document = await this.findDocument(kind, documentId)
+      // Someone else's document is reported as missing rather than forbidden
+      if (!document || !(await this.rbacService.canAccessDocument(viewer.id, viewer.role, document.ownerId))) {
+        throw new Error("Document not found")
+      }
+
+      const expiresIn = Number(process.env.DOCUMENT_URL_TTL_SECONDS) || 300
+      const url = await this.fileUploadService.createDocumentUrl(document.documentUrl, expiresIn)
+
+      await auditService.logDataAccess(viewer.id, AUDIT_RESOURCES[kind], document.id, "READ", {
+        ownerId: document.ownerId,
+        documentType: document.type,
+        viewerRole: viewer.role,
+        expiresIn,
+      })
+
+      return { url, expiresAt: new Date(Date.now() + expiresIn * 1000) }
+    } catch (error) {
+      logger.error("Get document URL error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Owners can withdraw a document that hasn't been approved. The stored file goes first, so
+   * a failed delete never leaves an unreferenced copy behind.
+   */
+  async deleteDocument(userId: string, kind: DocumentKind, documentId: string) {
+    try {
+      const document = await this.findDocument(kind, documentId)
+      if (!document || document.ownerId !== userId) {
+        throw new Error("Document not found")
+      }
+      if (document.status === "APPROVED") {
+        throw new Error("Approved documents cannot be deleted")
+      }
+
+      await this.fileUploadService.deleteDocuments([document.documentUrl])
+      await this.deleteRecords(kind, [document.id])
+
+      await auditService.logDataAccess(userId, AUDIT_RESOURCES[kind], document.id, "delete", {
+        documentType: document.type,
+      })
+    } catch (error) {
+      logger.error("Delete document error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Remove every KYC document a user has uploaded, files and records, as part of erasing
+   * their account. Returns how many documents were removed.
+   */
+  async eraseUserDocuments(userId: string) {
+    try {
+      const [driverDocuments, taxiDriverDocuments, deliveryDocuments] = await Promise.all([
+        prisma.driverDocument.findMany({
+          where: { driverProfile: { userId } },
+          select: { id: true, documentUrl: true },
+        }),
+        prisma.taxiDriverDocument.findMany({
+          where: { taxiDriverProfile: { userId } },
+          select: { id: true, documentUrl: true },
+        }),
+        prisma.deliveryDocument.findMany({
+          where: { deliveryProfile: { userId } },
+          select: { id: true, documentUrl: true },
+        }),
+      ])
+
+      const byKind: Array<[DocumentKind, { id: string; documentUrl: string }[]]> = [
+        ["driver", driverDocuments],
+        ["taxi-driver", taxiDriverDocuments],
+        ["dispatch-rider", deliveryDocuments],
+      ]
+
+      let removed = 0
+      for (const [kind, documents] of byKind) {
+        await this.fileUploadService.deleteDocuments(documents.map((document) => document.documentUrl))
+        await this.deleteRecords(kind, documents.map((document) => document.id))
+        removed += documents.length
+      }
+
+      return removed
+    } catch (error) {
+      logger.error(`Erase documents for user ${userId} error:`, error)
+      throw error
+    }
+  }
+
+  private async findDocument(kind: DocumentKind, documentId: string): Promise<StoredDocument | null> {
+    switch (kind) {
+      case "driver": {
+        const document = await prisma.driverDocument.findUnique({
+          where: { id: documentId },
+          include: { driverProfile: { select: { userId: true } } },
+        })
+        return document && { ...document, ownerId: document.driverProfile.userId }
+      }
+      case "taxi-driver": {
+        const document = await prisma.taxiDriverDocument.findUnique({
+          where: { id: documentId },
+          include: { taxiDriverProfile: { select: { userId: true } } },
+        })
+        return document && { ...document, ownerId: document.taxiDriverProfile.userId }
+      }
+      case "dispatch-rider": {
+        const document = await prisma.deliveryDocument.findUnique({
+          where: { id: documentId },
+          include: { deliveryProfile: { select: { userId: true } } },
+        })
+        return document && { ...document, ownerId: document.deliveryProfile.userId }
+      }
+    }
+  }
+
+  private async deleteRecords(kind: DocumentKind, ids: string[]) {
+    if (ids.length === 0) return
+
+    switch (kind) {
+      case "driver":
+        await prisma.driverDocument.deleteMany({ where: { id: { in: ids } } })
+        break
+      case "taxi-driver":
+        await prisma.taxiDriverDocument.deleteMany({ where: { id: { in: ids } } })
+        break
+      case "dispatch-rider":
+        await prisma.deliveryDocument.deleteMany({ where: { id: { in: ids } } })
+        break
+    }
+  }
+}
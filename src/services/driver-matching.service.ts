@@ -1,6 +1,8 @@
 import prisma from "../config/database"
 import { LocationService } from "./location.service"
 import { NotificationService } from "./notification.service"
+import { JOB_TYPES, jobQueueService } from "./job-queue.service"
+import { GEO_INDEXES, geoIndexService } from "./geo-index.service"
 import logger from "../utils/logger"
 
 export class DriverMatchingService {
@@ -29,83 +31,53 @@ export class DriverMatchingService {
       console.log(`🏷️ Service type: ${serviceType}`)
       console.log(`🎯 Ride type: ${rideType || "ANY"}`)
 
-      // Get available drivers
-      const availableDrivers = await prisma.driverProfile.findMany({
-        where: {
-          isAvailable: true,
-          isOnline: true,
-          isVerified: true,
-          driverType: "REGULAR",
-          currentLatitude: { not: null },
-          currentLongitude: { not: null },
-          user: {
-            isActive: true,
-            isCommissionCurrent: true,
-          },
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              phone: true,
-              avatar: true,
+      // Nearest drivers from the geo index that are available and can take the ride type
+      const nearbyDrivers = await geoIndexService.findNearest(
+        GEO_INDEXES.DRIVERS,
+        { latitude, longitude, radius, limit: maxDrivers },
+        async (userIds) => {
+          const drivers = await prisma.driverProfile.findMany({
+            where: {
+              userId: { in: userIds },
+              isAvailable: true,
+              isOnline: true,
+              isVerified: true,
+              driverType: "REGULAR",
+              currentLatitude: { not: null },
+              currentLongitude: { not: null },
+              user: {
+                isActive: true,
+                isCommissionCurrent: true,
+              },
             },
-          },
-          vehicle: true,
-          rideTypes: true,
-        },
-      })
-
-      console.log(`📊 Total drivers in database: ${availableDrivers.length}`)
-      console.log("🔍 Available drivers found:")
-      availableDrivers.forEach((driver, index) => {
-        console.log(`   ${index + 1}. ${driver.user.firstName} ${driver.user.lastName} (${driver.user.id})`)
-        console.log(`      📍 Location: ${driver.currentLatitude}, ${driver.currentLongitude}`)
-        console.log(`      ✅ Available: ${driver.isAvailable}, Online: ${driver.isOnline}`)
-        console.log(`      ✅ Verified: ${driver.isVerified}, Type: ${driver.driverType}`)
-        console.log(`      🚗 Ride types: ${driver.rideTypes.map((rt) => `${rt.rideType}(${rt.isActive})`).join(", ")}`)
-      })
-
-      // Filter by distance and service compatibility
-      const nearbyDrivers = availableDrivers
-        .map((driver) => {
-          const distance = this.locationService.calculateDistance(
-            latitude,
-            longitude,
-            driver.currentLatitude!,
-            driver.currentLongitude!,
-          )
-
-          console.log(`📏 Distance to ${driver.user.firstName}: ${distance}m (${(distance / 1000).toFixed(2)}km)`)
-
-          return {
-            ...driver,
-            distance,
-          }
-        })
-        .filter((driver) => {
-          // Check distance
-          if (driver.distance > radius) {
-            console.log(`❌ ${driver.user.firstName} filtered out: distance ${driver.distance}m > radius ${radius}m`)
-            return false
-          }
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  firstName: true,
+                  lastName: true,
+                  phone: true,
+                  avatar: true,
+                },
+              },
+              vehicle: true,
+              rideTypes: true,
+            },
+          })
 
-          // Check ride type compatibility
-          if (rideType && driver.rideTypes.length > 0) {
-            const hasCompatibleRideType = driver.rideTypes.some((rt) => rt.rideType === rideType && rt.isActive)
-            if (!hasCompatibleRideType) {
-              console.log(`❌ ${driver.user.firstName} filtered out: no compatible ride type for ${rideType}`)
-              return false
+          return drivers.filter((driver) => {
+            if (rideType && driver.rideTypes.length > 0) {
+              const hasCompatibleRideType = driver.rideTypes.some((rt) => rt.rideType === rideType && rt.isActive)
+              if (!hasCompatibleRideType) {
+                console.log(`❌ ${driver.user.firstName} filtered out: no compatible ride type for ${rideType}`)
+                return false
+              }
             }
-          }
-
-          console.log(`✅ ${driver.user.firstName} passed all filters`)
-          return true
-        })
-        .sort((a, b) => a.distance - b.distance)
-        .slice(0, maxDrivers)
+            return true
+          })
+        },
+        (driver) => driver.userId,
+      )
 
       console.log(`🎯 Final nearby drivers count: ${nearbyDrivers.length}`)
       console.log("📋 Final driver list:")
@@ -168,51 +140,39 @@ export class DriverMatchingService {
       // Increased default radius from 10km to 15km
       const { latitude, longitude, serviceType = "TAXI", radius = 15000, maxDrivers = 10 } = params
 
-      // Get available taxi drivers
-      const availableTaxiDrivers = await prisma.taxiDriverProfile.findMany({
-        where: {
-          isAvailable: true,
-          isOnline: true,
-          isVerified: true,
-          currentLatitude: { not: null },
-          currentLongitude: { not: null },
-          user: {
-            isActive: true,
-            isCommissionCurrent: true,
-          },
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              phone: true,
-              avatar: true,
+      // Nearest available taxi drivers from the geo index
+      const nearbyTaxiDrivers = await geoIndexService.findNearest(
+        GEO_INDEXES.TAXI_DRIVERS,
+        { latitude, longitude, radius, limit: maxDrivers },
+        (userIds) =>
+          prisma.taxiDriverProfile.findMany({
+            where: {
+              userId: { in: userIds },
+              isAvailable: true,
+              isOnline: true,
+              isVerified: true,
+              currentLatitude: { not: null },
+              currentLongitude: { not: null },
+              user: {
+                isActive: true,
+                isCommissionCurrent: true,
+              },
             },
-          },
-          vehicle: true,
-        },
-      })
-
-      // Filter by distance
-      const nearbyTaxiDrivers = availableTaxiDrivers
-        .map((driver) => {
-          const distance = this.locationService.calculateDistance(
-            latitude,
-            longitude,
-            driver.currentLatitude!,
-            driver.currentLongitude!,
-          )
-
-          return {
-            ...driver,
-            distance,
-          }
-        })
-        .filter((driver) => driver.distance <= radius)
-        .sort((a, b) => a.distance - b.distance)
-        .slice(0, maxDrivers)
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  firstName: true,
+                  lastName: true,
+                  phone: true,
+                  avatar: true,
+                },
+              },
+              vehicle: true,
+            },
+          }),
+        (driver) => driver.userId,
+      )
 
       // Calculate ETA for each taxi driver
       const taxiDriversWithETA = await Promise.all(
@@ -347,10 +307,11 @@ export class DriverMatchingService {
       console.log(`   - Success rate: ${((notificationsSent / driverIds.length) * 100).toFixed(1)}%`)
 
       // Set auto-reject timer
-      setTimeout(async () => {
-        console.log(`⏰ Auto-reject timer triggered for booking: ${bookingId}`)
-        await this.handleBookingTimeout(bookingId)
-      }, 30000) // 60 seconds
+      await jobQueueService.enqueue(
+        JOB_TYPES.BOOKING_DRIVER_TIMEOUT,
+        { bookingId },
+        { delayMs: 30000, dedupeKey: `booking:${bookingId}:driver-timeout`, replace: true },
+      )
 
       console.log(`📢 DRIVER NOTIFICATION COMPLETE\n`)
       return { notifiedDrivers: notificationsSent }
@@ -364,7 +325,7 @@ export class DriverMatchingService {
   /**
    * Handle booking timeout when no driver accepts
    */
-  private async handleBookingTimeout(bookingId: string) {
+  async handleBookingTimeout(bookingId: string) {
     try {
       const booking = await prisma.booking.findUnique({
         where: { id: bookingId },
@@ -526,55 +487,69 @@ export class DriverMatchingService {
         })
       }
 
-      // After sending notifications to drivers, add this timeout logic
-      setTimeout(async () => {
-        console.log(`⏰ Checking booking ${bookingId} acceptance status after 60 seconds`)
+      // Widen the search if nobody has accepted after 60 seconds
+      await jobQueueService.enqueue(
+        JOB_TYPES.BOOKING_SEARCH_EXPANSION,
+        { bookingId },
+        { delayMs: 60000, dedupeKey: `booking:${bookingId}:search-expansion`, replace: true },
+      )
 
-        const booking = await prisma.booking.findUnique({
-          where: { id: bookingId },
-        })
+      console.log(`🎯 Closest driver selected: ${availableDrivers[0].driverName}`)
+      return availableDrivers[0]
+    } catch (error) {
+      logger.error("Match driver to booking error:", error)
+      throw error
+    }
+  }
 
-        if (booking && booking.status === "PENDING") {
-          console.log(`📋 Booking ${bookingId} still pending, expanding search radius`)
+  /**
+   * Expand the search radius for a booking nobody has accepted yet
+   */
+  async expandBookingSearch(bookingId: string) {
+    try {
+      console.log(`⏰ Checking booking ${bookingId} acceptance status after 60 seconds`)
+
+      const booking = await prisma.booking.findUnique({
+        where: { id: bookingId },
+      })
+
+      if (booking && booking.status === "PENDING") {
+        console.log(`📋 Booking ${bookingId} still pending, expanding search radius`)
+
+        // Expand search radius and try again
+        const expandedDrivers = await this.findNearbyDrivers({
+          latitude: booking.pickupLatitude!,
+          longitude: booking.pickupLongitude!,
+          radius: 25000, // Expand to 25km
+          maxDrivers: 10,
+        })
 
-          // Expand search radius and try again
-          const expandedDrivers = await this.findNearbyDrivers({
-            latitude: booking.pickupLatitude!,
-            longitude: booking.pickupLongitude!,
-            radius: 25000, // Expand to 25km
-            maxDrivers: 10,
+        if (expandedDrivers.length > 0) {
+          const driverIds = expandedDrivers.map((d) => d.driverId)
+          await this.notifyDriversAboutBooking(bookingId, driverIds, booking)
+        } else {
+          // No drivers available, cancel booking
+          await prisma.booking.update({
+            where: { id: bookingId },
+            data: {
+              status: "NO_DRIVER_AVAILABLE",
+              cancelledAt: new Date(),
+              cancellationReason: "No drivers available in the area",
+            },
           })
 
-          if (expandedDrivers.length > 0) {
-            const driverIds = expandedDrivers.map((d) => d.driverId)
-            await this.notifyDriversAboutBooking(bookingId, driverIds, booking)
-          } else {
-            // No drivers available, cancel booking
-            await prisma.booking.update({
-              where: { id: bookingId },
-              data: {
-                status: "NO_DRIVER_AVAILABLE",
-                cancelledAt: new Date(),
-                cancellationReason: "No drivers available in the area",
-              },
-            })
-
-            // Notify customer
-            await this.notificationService.notifyCustomer(booking.customerId, {
-              type: "BOOKING_CANCELLED",
-              title: "No Drivers Available",
-              body: "Sorry, no drivers are available in your area at the moment. Please try again later.",
-              data: { bookingId },
-              priority: "URGENT",
-            })
-          }
+          // Notify customer
+          await this.notificationService.notifyCustomer(booking.customerId, {
+            type: "BOOKING_CANCELLED",
+            title: "No Drivers Available",
+            body: "Sorry, no drivers are available in your area at the moment. Please try again later.",
+            data: { bookingId },
+            priority: "URGENT",
+          })
         }
-      }, 60000) // 60 seconds timeout
-
-      console.log(`🎯 Closest driver selected: ${availableDrivers[0].driverName}`)
-      return availableDrivers[0]
+      }
     } catch (error) {
-      logger.error("Match driver to booking error:", error)
+      logger.error("Expand booking search error:", error)
       throw error
     }
   }
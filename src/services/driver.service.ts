@@ -2,12 +2,22 @@ import prisma from "../config/database"
 import { LocationService } from "./location.service"
 import { NotificationService } from "./notification.service"
 import { PaymentService } from "./payment.service"
+import { ReferralService } from "./referral.service"
+import { LoyaltyService } from "./loyalty.service"
+import { TripShareService } from "./trip-share.service"
+import { FleetService } from "./fleet.service"
+import { AnalyticsService } from "./analytics.service"
 import logger from "../utils/logger"
 
 export class DriverService {
   private locationService = new LocationService()
   private notificationService = new NotificationService()
   private paymentService = new PaymentService()
+  private referralService = new ReferralService()
+  private loyaltyService = new LoyaltyService()
+  private tripShareService = new TripShareService()
+  private fleetService = new FleetService()
+  private analyticsService = new AnalyticsService()
 
   async acceptBooking(driverId: string, bookingId: string) {
     try {
@@ -218,6 +228,9 @@ export class DriverService {
       await this.startBookingTracking(bookingId, driverId)
 
       console.log(`🎯 BOOKING ACCEPTANCE COMPLETE: ${bookingId}`)
+
+      await this.analyticsService.trackBookingEvent(bookingId, "ASSIGNED")
+
       return updatedBooking
     } catch (error) {
       logger.error("Accept booking error:", error)
@@ -434,6 +447,8 @@ export class DriverService {
         priority: "STANDARD",
       })
 
+      await this.analyticsService.trackBookingEvent(bookingId, "STARTED")
+
       return updatedBooking
     } catch (error) {
       logger.error("Start trip error:", error)
@@ -499,14 +514,25 @@ export class DriverService {
         },
       })
 
+      // Any live trip link shared from an SOS stops working now the ride is over
+      await this.tripShareService.expireForBooking(bookingId)
+
+      // Fleet drivers keep their share after the fleet operator's cut
+      const driverEarning = await this.fleetService.applyEarningsSplit(driverId, {
+        id: bookingId,
+        providerEarning,
+        platformCommission: commission,
+        currency: booking.currency,
+      })
+
       // Update driver availability
       const driverProfile = await prisma.driverProfile.updateMany({
         where: { userId: driverId },
         data: {
           isAvailable: true,
           totalRides: { increment: 1 },
-          totalEarnings: { increment: providerEarning },
-          monthlyEarnings: { increment: providerEarning },
+          totalEarnings: { increment: driverEarning },
+          monthlyEarnings: { increment: driverEarning },
           monthlyCommissionDue: { increment: commission },
         },
       })
@@ -535,7 +561,7 @@ export class DriverService {
         status: "TRIP_COMPLETED",
         message: `Trip completed! You earned GH₵${finalPrice}`,
         earnings: {
-          tripEarning: providerEarning,
+          tripEarning: driverEarning,
           totalEarnings: updatedDriverProfile?.totalEarnings,
           totalRides: updatedDriverProfile?.totalRides,
         },
@@ -566,7 +592,7 @@ export class DriverService {
             bookingId,
             amount: providerEarning,
             commission,
-            netEarning: providerEarning,
+            netEarning: driverEarning,
             date: new Date(),
             weekStarting: this.getWeekStart(new Date()),
             monthYear: new Date().toISOString().slice(0, 7),
@@ -595,6 +621,20 @@ export class DriverService {
         description: "Trip payment",
       })
 
+      // Release referral rewards if this was the customer's first completed booking
+      try {
+        await this.referralService.handleBookingCompleted(booking.customerId, bookingId)
+      } catch (referralError) {
+        logger.error("Referral reward processing failed:", referralError)
+      }
+
+      // Award loyalty points for the completed booking
+      try {
+        await this.loyaltyService.awardBookingPoints(bookingId)
+      } catch (loyaltyError) {
+        logger.error("Loyalty points award failed:", loyaltyError)
+      }
+
       // Notify customer
       await this.notificationService.notifyCustomer(booking.customerId, {
         type: "TRIP_COMPLETED",
@@ -623,6 +663,8 @@ export class DriverService {
         priority: "STANDARD",
       })
 
+      await this.analyticsService.trackBookingEvent(bookingId, "COMPLETED", { finalPrice: updatedBooking.finalPrice })
+
       return updatedBooking
     } catch (error) {
       logger.error("Complete trip error:", error)
@@ -705,30 +747,7 @@ export class DriverService {
         throw new Error("Driver profile not found")
       }
 
-      let startDate: Date
-      let endDate: Date = new Date()
-
-      // Calculate date range based on period
-      switch (filters.period) {
-        case "today":
-          startDate = new Date()
-          startDate.setHours(0, 0, 0, 0)
-          break
-        case "week":
-          startDate = this.getWeekStart(new Date())
-          break
-        case "month":
-          startDate = new Date()
-          startDate.setDate(1)
-          startDate.setHours(0, 0, 0, 0)
-          break
-        case "custom":
-          startDate = filters.startDate ? new Date(filters.startDate) : new Date()
-          endDate = filters.endDate ? new Date(filters.endDate) : new Date()
-          break
-        default:
-          startDate = this.getWeekStart(new Date())
-      }
+      const { startDate, endDate } = this.getEarningsPeriod(filters)
 
       // Get earnings data
       const earnings = await prisma.driverEarning.findMany({
@@ -767,6 +786,163 @@ export class DriverService {
     }
   }
 
+  /**
+   * Earnings across every trip the fleet's drivers completed for it, with the operator's
+   * and drivers' shares, broken down by driver and by vehicle
+   */
+  async getFleetEarnings(
+    fleetId: string,
+    filters: {
+      period: string
+      startDate?: string
+      endDate?: string
+    },
+  ) {
+    try {
+      const { startDate, endDate } = this.getEarningsPeriod(filters)
+
+      const earnings = await prisma.fleetEarning.findMany({
+        where: {
+          fleetId,
+          createdAt: {
+            gte: startDate,
+            lte: endDate,
+          },
+        },
+        include: {
+          driver: { select: { id: true, firstName: true, lastName: true } },
+          vehicle: { select: { id: true, make: true, model: true, licensePlate: true } },
+          booking: { select: { bookingNumber: true, finalPrice: true, completedAt: true } },
+        },
+        orderBy: { createdAt: "desc" },
+      })
+
+      const summarize = (rows: typeof earnings) => {
+        const totalEarnings = rows.reduce((sum, earning) => sum + earning.grossEarning, 0)
+        return {
+          totalEarnings,
+          totalCommission: rows.reduce((sum, earning) => sum + earning.platformCommission, 0),
+          operatorShare: rows.reduce((sum, earning) => sum + earning.operatorShare, 0),
+          driverShare: rows.reduce((sum, earning) => sum + earning.driverShare, 0),
+          totalTrips: rows.length,
+          averagePerTrip: rows.length > 0 ? totalEarnings / rows.length : 0,
+        }
+      }
+
+      const groupBy = (key: (earning: (typeof earnings)[number]) => string | null) => {
+        const groups = new Map<string, typeof earnings>()
+        for (const earning of earnings) {
+          const id = key(earning)
+          if (!id) continue
+          groups.set(id, [...(groups.get(id) || []), earning])
+        }
+        return [...groups.values()]
+      }
+
+      return {
+        period: filters.period,
+        startDate,
+        endDate,
+        summary: summarize(earnings),
+        byDriver: groupBy((earning) => earning.driverId).map((rows) => ({
+          driver: rows[0].driver,
+          ...summarize(rows),
+        })),
+        byVehicle: groupBy((earning) => earning.vehicleId).map((rows) => ({
+          vehicle: rows[0].vehicle,
+          ...summarize(rows),
+        })),
+        earnings,
+      }
+    } catch (error) {
+      logger.error("Get fleet earnings error:", error)
+      throw error
+    }
+  }
+
+  async getFleetAnalytics(fleetId: string) {
+    try {
+      const currentMonth = new Date()
+      currentMonth.setDate(1)
+      currentMonth.setHours(0, 0, 0, 0)
+
+      const today = new Date()
+      today.setHours(0, 0, 0, 0)
+      const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000)
+
+      const members = await prisma.fleetDriver.findMany({
+        where: { fleetId, status: "ACTIVE" },
+        select: { driverId: true },
+      })
+      const driverIds = members.map((member) => member.driverId)
+
+      const sumFields = { grossEarning: true, platformCommission: true, operatorShare: true, driverShare: true } as const
+      const [monthlyStats, weeklyStats, driversOnline, vehicles, shiftsToday, topDrivers] = await Promise.all([
+        prisma.fleetEarning.aggregate({
+          where: { fleetId, createdAt: { gte: currentMonth } },
+          _sum: sumFields,
+          _count: true,
+        }),
+        prisma.fleetEarning.aggregate({
+          where: { fleetId, createdAt: { gte: this.getWeekStart(new Date()) } },
+          _sum: sumFields,
+          _count: true,
+        }),
+        prisma.user.count({
+          where: {
+            id: { in: driverIds },
+            OR: [{ driverProfile: { isOnline: true } }, { taxiDriverProfile: { isOnline: true } }],
+          },
+        }),
+        prisma.vehicle.groupBy({
+          by: ["isActive"],
+          where: { fleetId },
+          _count: true,
+        }),
+        prisma.fleetShift.groupBy({
+          by: ["status"],
+          where: { fleetId, startsAt: { lt: tomorrow }, endsAt: { gte: today } },
+          _count: true,
+        }),
+        prisma.fleetEarning.groupBy({
+          by: ["driverId"],
+          where: { fleetId, createdAt: { gte: currentMonth } },
+          _sum: { grossEarning: true },
+          _count: true,
+          orderBy: { _sum: { grossEarning: "desc" } },
+          take: 5,
+        }),
+      ])
+
+      const toPeriod = (stats: typeof monthlyStats) => ({
+        earnings: stats._sum.grossEarning || 0,
+        commission: stats._sum.platformCommission || 0,
+        operatorShare: stats._sum.operatorShare || 0,
+        driverShare: stats._sum.driverShare || 0,
+        trips: stats._count,
+      })
+
+      return {
+        drivers: { active: driverIds.length, online: driversOnline },
+        vehicles: {
+          active: vehicles.find((group) => group.isActive)?._count || 0,
+          inactive: vehicles.find((group) => !group.isActive)?._count || 0,
+        },
+        shiftsToday: Object.fromEntries(shiftsToday.map((group) => [group.status, group._count])),
+        monthly: toPeriod(monthlyStats),
+        weekly: toPeriod(weeklyStats),
+        topDrivers: topDrivers.map((group) => ({
+          driverId: group.driverId,
+          earnings: group._sum.grossEarning || 0,
+          trips: group._count,
+        })),
+      }
+    } catch (error) {
+      logger.error("Get fleet analytics error:", error)
+      throw error
+    }
+  }
+
   async getDriverAnalytics(driverId: string) {
     try {
       const driverProfile = await prisma.driverProfile.findFirst({
@@ -942,6 +1118,35 @@ export class DriverService {
     }
   }
 
+  private getEarningsPeriod(filters: { period: string; startDate?: string; endDate?: string }) {
+    let startDate: Date
+    let endDate: Date = new Date()
+
+    // Calculate date range based on period
+    switch (filters.period) {
+      case "today":
+        startDate = new Date()
+        startDate.setHours(0, 0, 0, 0)
+        break
+      case "week":
+        startDate = this.getWeekStart(new Date())
+        break
+      case "month":
+        startDate = new Date()
+        startDate.setDate(1)
+        startDate.setHours(0, 0, 0, 0)
+        break
+      case "custom":
+        startDate = filters.startDate ? new Date(filters.startDate) : new Date()
+        endDate = filters.endDate ? new Date(filters.endDate) : new Date()
+        break
+      default:
+        startDate = this.getWeekStart(new Date())
+    }
+
+    return { startDate, endDate }
+  }
+
   private getWeekStart(date: Date): Date {
     const d = new Date(date)
     const day = d.getDay()
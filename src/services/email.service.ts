@@ -9,7 +9,7 @@ class EmailTemplateEngine {
     })
   }
 
-  private static baseTemplate(content: string, headerColor: string = '#007bff'): string {
+  private static baseTemplate(content: string, headerColor: string = '#007bff', unsubscribeUrl?: string | null): string {
     return `
 <!DOCTYPE html>
 <html>
@@ -71,6 +71,13 @@ class EmailTemplateEngine {
       border-top: 1px solid #eee;
       margin-top: 20px;
     }
+    .unsubscribe { 
+      font-size: 12px; 
+      color: #999; 
+    }
+    .unsubscribe a { 
+      color: #999; 
+    }
     .logo { 
       font-size: 24px; 
       font-weight: bold; 
@@ -160,6 +167,7 @@ class EmailTemplateEngine {
     <div class="footer">
       <p>Best regards,<br><strong>The TripSync Team</strong></p>
       <p>{{footerText}}</p>
+      ${unsubscribeUrl ? `<p class="unsubscribe">Don't want these emails? <a href="${unsubscribeUrl}">Unsubscribe</a> or change your notification settings in the app.</p>` : ''}
     </div>
   </div>
 </body>
@@ -248,6 +256,16 @@ class EmailTemplateEngine {
     })
   }
 
+  // Wraps notification emails that build their own body
+  static generateMessageTemplate(subject: string, content: string, unsubscribeUrl?: string | null): string {
+    const template = this.baseTemplate(content, '#007bff', unsubscribeUrl)
+    return this.replacePlaceholders(template, {
+      headerTitle: subject,
+      footerText: 'Questions? Contact us at support@tripsync.com',
+      title: subject
+    })
+  }
+
   static generateCommissionReminderTemplate(amount: number, dueDate: Date): string {
     const content = `
       <p>This is a reminder that your monthly commission payment is due soon.</p>
@@ -297,7 +315,7 @@ export class EmailService {
     })
   }
 
-  async sendEmail(to: string, subject: string, html: string) {
+  async sendEmail(to: string, subject: string, html: string, headers?: Record<string, string>) {
     try {
       if (!process.env.SMTP_USER || !process.env.SMTP_PASS) {
         logger.warn("SMTP credentials not configured, skipping email")
@@ -309,6 +327,7 @@ export class EmailService {
         to,
         subject,
         html,
+        headers,
       })
 
       logger.info(`Email sent successfully to ${to}: ${info.messageId}`)
@@ -334,6 +353,15 @@ export class EmailService {
     return this.sendEmail(to, title, html)
   }
 
+  /**
+   * Send a notification email. With an unsubscribe link the footer shows it and mail
+   * clients get a List-Unsubscribe header pointing at the same page.
+   */
+  async sendMessageEmail(to: string, subject: string, content: string, unsubscribeUrl?: string | null) {
+    const html = EmailTemplateEngine.generateMessageTemplate(subject, content, unsubscribeUrl)
+    return this.sendEmail(to, subject, html, unsubscribeUrl ? { "List-Unsubscribe": `<${unsubscribeUrl}>` } : undefined)
+  }
+
   async sendCommissionReminderEmail(to: string, amount: number, dueDate: Date) {
     const html = EmailTemplateEngine.generateCommissionReminderTemplate(amount, dueDate)
     return this.sendEmail(to, "Commission Payment Reminder - TripSync", html)
@@ -2,12 +2,55 @@ import prisma from "../config/database"
 import { LocationService } from "./location.service"
 import { NotificationService } from "./notification.service"
 import { EmailService } from "./email.service"
+import { SmsService } from "./sms.service"
+import { GEO_INDEXES, geoIndexService } from "./geo-index.service"
+import { JOB_TYPES, jobQueueService } from "./job-queue.service"
+import type { EmergencyDispatchAction, EmergencyType, Prisma } from "@prisma/client"
 import logger from "../utils/logger"
 
+interface EscalationStep {
+  delaySeconds: number // after the previous step, scaled by severity
+  radius: number // meters
+  responders: number // responders not yet notified to add
+  includeBackupTypes?: boolean
+  alertContacts?: boolean
+  pageAdmins?: boolean
+}
+
+// Each step runs only while nobody has accepted
+const URGENT_LADDER: EscalationStep[] = [
+  { delaySeconds: 0, radius: 20000, responders: 3 },
+  { delaySeconds: 60, radius: 30000, responders: 5 },
+  { delaySeconds: 60, radius: 50000, responders: 10, includeBackupTypes: true, alertContacts: true },
+  { delaySeconds: 120, radius: 100000, responders: 20, includeBackupTypes: true, pageAdmins: true },
+]
+
+const ESCALATION_LADDERS: Record<EmergencyType, EscalationStep[]> = {
+  POLICE: URGENT_LADDER,
+  AMBULANCE: URGENT_LADDER,
+  FIRE_DEPARTMENT: URGENT_LADDER,
+  RESCUE_SERVICE: URGENT_LADDER,
+  ROADSIDE_ASSISTANCE: [
+    { delaySeconds: 0, radius: 20000, responders: 3 },
+    { delaySeconds: 180, radius: 40000, responders: 5 },
+    { delaySeconds: 300, radius: 80000, responders: 10, pageAdmins: true },
+  ],
+}
+
+const SEVERITY_DELAY_FACTOR: Record<string, number> = { CRITICAL: 0.5, HIGH: 0.75, MEDIUM: 1, LOW: 1.5 }
+
+// Services that can stand in when no responder of the requested type accepts
+const BACKUP_RESPONDER_TYPES: Partial<Record<EmergencyType, EmergencyType[]>> = {
+  AMBULANCE: ["RESCUE_SERVICE"],
+  FIRE_DEPARTMENT: ["RESCUE_SERVICE"],
+  RESCUE_SERVICE: ["FIRE_DEPARTMENT", "AMBULANCE"],
+}
+
 export class EmergencyService {
   private locationService = new LocationService()
   private notificationService = new NotificationService()
   private emailService = new EmailService()
+  private smsService = new SmsService()
 
   async createEmergencyBooking(data: {
     customerId: string
@@ -60,6 +103,10 @@ export class EmergencyService {
     }
   }
 
+  /**
+   * Notify the nearest responders and start the escalation ladder, which widens the
+   * search until someone accepts
+   */
   async dispatchEmergencyResponders(
     bookingId: string,
     data: {
@@ -70,103 +117,294 @@ export class EmergencyService {
     },
   ) {
     try {
-      // Find nearby emergency responders
-      const responders = await this.findNearbyResponders({
+      const result = await this.runEscalationStep(bookingId, data, 0)
+      return { dispatchedCount: result.notified }
+    } catch (error) {
+      logger.error("Dispatch emergency responders error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Next ladder step for an emergency nobody has accepted yet. Run by the job worker.
+   */
+  async escalateDispatch(bookingId: string, step: number) {
+    try {
+      const booking = await prisma.booking.findUnique({
+        where: { id: bookingId },
+        select: { status: true, providerId: true, pickupLatitude: true, pickupLongitude: true, serviceData: true },
+      })
+
+      if (!booking || booking.status !== "PENDING" || booking.providerId) {
+        return
+      }
+
+      const serviceData = (booking.serviceData || {}) as Record<string, any>
+      await this.runEscalationStep(
+        bookingId,
+        {
+          emergencyType: serviceData.emergencyType,
+          severity: serviceData.severity,
+          latitude: booking.pickupLatitude!,
+          longitude: booking.pickupLongitude!,
+        },
+        step,
+      )
+    } catch (error) {
+      logger.error(`Escalate emergency ${bookingId} step ${step} error:`, error)
+      throw error
+    }
+  }
+
+  async getDispatchTimeline(bookingId: string, userId: string, role: string) {
+    try {
+      const booking = await prisma.booking.findUnique({
+        where: { id: bookingId },
+        select: { customerId: true, providerId: true, status: true, createdAt: true, acceptedAt: true },
+      })
+
+      const isOperator = ["SUPER_ADMIN", "CITY_ADMIN", "EMERGENCY_ADMIN", "DISPATCHER"].includes(role)
+      if (!booking || (!isOperator && booking.customerId !== userId && booking.providerId !== userId)) {
+        throw new Error("Emergency booking not found")
+      }
+
+      const events = await prisma.emergencyDispatchEvent.findMany({
+        where: { bookingId },
+        orderBy: { createdAt: "asc" },
+      })
+
+      // Customers see what happened, not who was contacted
+      return {
+        status: booking.status,
+        createdAt: booking.createdAt,
+        acceptedAt: booking.acceptedAt,
+        events: isOperator
+          ? events
+          : events.map(({ recipientIds, ...event }) => ({ ...event, recipientCount: recipientIds.length })),
+      }
+    } catch (error) {
+      logger.error("Get emergency dispatch timeline error:", error)
+      throw error
+    }
+  }
+
+  private async runEscalationStep(
+    bookingId: string,
+    data: { emergencyType: string; latitude: number; longitude: number; severity: string },
+    step: number,
+  ) {
+    const ladder = ESCALATION_LADDERS[data.emergencyType as EmergencyType] || URGENT_LADDER
+    const config = ladder[step]
+
+    const alreadyNotified = new Set(
+      (
+        await prisma.emergencyDispatchEvent.findMany({
+          where: { bookingId, action: "RESPONDERS_NOTIFIED" },
+          select: { recipientIds: true },
+        })
+      ).flatMap((event) => event.recipientIds),
+    )
+
+    const responders = (
+      await this.findNearbyResponders({
         emergencyType: data.emergencyType,
+        backupTypes: config.includeBackupTypes ? BACKUP_RESPONDER_TYPES[data.emergencyType as EmergencyType] : undefined,
         latitude: data.latitude,
         longitude: data.longitude,
-        radius: 20000, // 20km radius
+        radius: config.radius,
       })
+    )
+      .filter((responder) => !alreadyNotified.has(responder.userId))
+      .slice(0, config.responders)
+
+    await this.notifyResponders(bookingId, data, responders)
+    await this.recordDispatchEvent(
+      bookingId,
+      step,
+      responders.length > 0 ? "RESPONDERS_NOTIFIED" : "NO_RESPONDERS_FOUND",
+      responders.map((responder) => responder.userId),
+      { radius: config.radius, includeBackupTypes: !!config.includeBackupTypes },
+    )
+
+    if (config.alertContacts) {
+      await this.alertEmergencyContacts(bookingId, data, step)
+    }
+    if (config.pageAdmins) {
+      await this.pageEmergencyAdmins(bookingId, data, step)
+    }
 
-      // Dispatch to the closest available responders
-      const dispatchPromises = responders.slice(0, 3).map(async (responder) => {
-        await this.notificationService.notifyCustomer(responder.userId, {
-          type: "EMERGENCY_DISPATCH",
-          title: `${data.emergencyType} Emergency`,
-          body: `Emergency dispatch - ${data.severity} severity`,
-          data: {
-            bookingId,
+    const next = ladder[step + 1]
+    if (next) {
+      const delayMs = next.delaySeconds * 1000 * (SEVERITY_DELAY_FACTOR[data.severity] ?? 1)
+      await jobQueueService.enqueue(
+        JOB_TYPES.EMERGENCY_ESCALATION,
+        { bookingId, step: step + 1 },
+        { delayMs, dedupeKey: `emergency-escalation:${bookingId}`, replace: true },
+      )
+    } else {
+      await this.recordDispatchEvent(bookingId, step, "LADDER_EXHAUSTED", [])
+    }
+
+    return { notified: responders.length }
+  }
+
+  private async notifyResponders(
+    bookingId: string,
+    data: { emergencyType: string; latitude: number; longitude: number; severity: string },
+    responders: Array<{ userId: string; distance: number }>,
+  ) {
+    // Dispatch to the closest available responders
+    const dispatchPromises = responders.map(async (responder) => {
+      await this.notificationService.notifyCustomer(responder.userId, {
+        type: "EMERGENCY_DISPATCH",
+        title: `${data.emergencyType} Emergency`,
+        body: `Emergency dispatch - ${data.severity} severity`,
+        data: {
+          bookingId,
+          emergencyType: data.emergencyType,
+          severity: data.severity,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          distance: responder.distance,
+        },
+        priority: "CRITICAL",
+      })
+
+      // Log dispatch
+      await prisma.auditLog.create({
+        data: {
+          userId: responder.userId,
+          action: "EMERGENCY_DISPATCHED",
+          resource: "emergency_booking",
+          resourceId: bookingId,
+          newValues: JSON.stringify({
             emergencyType: data.emergencyType,
             severity: data.severity,
-            latitude: data.latitude,
-            longitude: data.longitude,
-            distance: responder.distance,
-          },
-          priority: "CRITICAL",
-        })
-
-        // Log dispatch
-        await prisma.auditLog.create({
-          data: {
-            userId: responder.userId,
-            action: "EMERGENCY_DISPATCHED",
-            resource: "emergency_booking",
-            resourceId: bookingId,
-            newValues: JSON.stringify({
-              emergencyType: data.emergencyType,
-              severity: data.severity,
-            }),
-          },
-        })
+          }),
+        },
       })
+    })
 
-      await Promise.all(dispatchPromises)
+    // One failed notification must not stop the rest of the ladder
+    const failures = (await Promise.allSettled(dispatchPromises)).filter((result) => result.status === "rejected")
+    if (failures.length > 0) {
+      logger.warn(`Emergency dispatch failed for ${failures.length} of ${responders.length} responders on ${bookingId}`)
+    }
+  }
 
-      return { dispatchedCount: Math.min(responders.length, 3) }
+  private async alertEmergencyContacts(
+    bookingId: string,
+    data: { latitude: number; longitude: number },
+    step: number,
+  ) {
+    try {
+      const booking = await prisma.booking.findUnique({ where: { id: bookingId }, select: { customerId: true } })
+      const contacts = await this.getEmergencyContacts(booking!.customerId)
+
+      await this.shareLocationWithEmergencyContacts(
+        booking!.customerId,
+        { latitude: data.latitude, longitude: data.longitude },
+        false,
+        bookingId,
+      )
+      await this.recordDispatchEvent(
+        bookingId,
+        step,
+        "CONTACTS_ALERTED",
+        contacts.map((contact) => contact.id),
+      )
     } catch (error) {
-      logger.error("Dispatch emergency responders error:", error)
-      throw error
+      // Never let a contact alert stop the ladder
+      logger.error(`Alert emergency contacts for ${bookingId} error:`, error)
+    }
+  }
+
+  private async pageEmergencyAdmins(
+    bookingId: string,
+    data: { emergencyType: string; severity: string; latitude: number; longitude: number },
+    step: number,
+  ) {
+    const admins = await prisma.user.findMany({
+      where: { role: { in: ["EMERGENCY_ADMIN", "SUPER_ADMIN", "CITY_ADMIN"] }, isActive: true },
+      select: { id: true },
+    })
+
+    await Promise.allSettled(
+      admins.map((admin) =>
+        this.notificationService.notifyCustomer(admin.id, {
+          type: "EMERGENCY_ALERT",
+          title: `Unanswered ${data.emergencyType} emergency`,
+          body: `No responder has accepted this ${data.severity} emergency. Manual dispatch needed.`,
+          data: { bookingId, ...data },
+          priority: "CRITICAL",
+        }),
+      ),
+    )
+    await this.recordDispatchEvent(
+      bookingId,
+      step,
+      "ADMINS_PAGED",
+      admins.map((admin) => admin.id),
+    )
+  }
+
+  private async recordDispatchEvent(
+    bookingId: string,
+    step: number,
+    action: EmergencyDispatchAction,
+    recipientIds: string[],
+    details?: { radius?: number } & Record<string, any>,
+  ) {
+    try {
+      await prisma.emergencyDispatchEvent.create({
+        data: {
+          bookingId,
+          step,
+          action,
+          radius: details?.radius,
+          recipientIds,
+          details: details as Prisma.InputJsonValue,
+        },
+      })
+    } catch (error) {
+      logger.error(`Record emergency dispatch event ${action} for ${bookingId} error:`, error)
     }
   }
 
   async findNearbyResponders(params: {
     emergencyType: string
+    backupTypes?: string[]
     latitude: number
     longitude: number
     radius: number
   }) {
     try {
-      const responders = await prisma.emergencyProfile.findMany({
-        where: {
-          serviceType: params.emergencyType as any,
-          isOnDuty: true,
-          isVerified: true,
-          currentLatitude: { not: null },
-          currentLongitude: { not: null },
-        },
-        include: {
-          user: {
-            select: {
-              firstName: true,
-              lastName: true,
-              phone: true,
+      // Every on-duty responder of the right type within the radius, nearest first
+      const respondersWithDistance = await geoIndexService.findNearest(
+        GEO_INDEXES.RESPONDERS,
+        { latitude: params.latitude, longitude: params.longitude, radius: params.radius },
+        (userIds) =>
+          prisma.emergencyProfile.findMany({
+            where: {
+              userId: { in: userIds },
+              serviceType: { in: [params.emergencyType, ...(params.backupTypes || [])] as EmergencyType[] },
+              isOnDuty: true,
+              isVerified: true,
+              currentLatitude: { not: null },
+              currentLongitude: { not: null },
             },
-          },
-        },
-      })
-
-      // Calculate distances and filter by radius
-      const respondersWithDistance = responders
-        .map((responder) => {
-          if (!responder.currentLatitude || !responder.currentLongitude) return null
-
-          const distance = this.locationService.calculateDistance(
-            params.latitude,
-            params.longitude,
-            responder.currentLatitude,
-            responder.currentLongitude,
-          )
-
-          return {
-            ...responder,
-            distance,
-          }
-        })
-        .filter(
-          (responder): responder is NonNullable<typeof responder> =>
-            responder !== null && responder.distance <= params.radius,
-        )
-        .sort((a, b) => a.distance - b.distance)
+            include: {
+              user: {
+                select: {
+                  firstName: true,
+                  lastName: true,
+                  phone: true,
+                },
+              },
+            },
+          }),
+        (responder) => responder.userId,
+      )
 
       return respondersWithDistance
     } catch (error) {
@@ -186,20 +424,37 @@ export class EmergencyService {
         throw new Error("Responder not eligible to accept emergency calls")
       }
 
-      // Update booking
-      const booking = await prisma.booking.update({
-        where: { id: bookingId },
+      // Escalation notifies several responders, so only the first to accept gets the call
+      const claimed = await prisma.booking.updateMany({
+        where: { id: bookingId, status: "PENDING", providerId: null },
         data: {
           providerId: responderId,
           status: "DRIVER_ASSIGNED",
           acceptedAt: new Date(),
         },
+      })
+
+      if (claimed.count === 0) {
+        throw new Error("Emergency is no longer waiting for a responder")
+      }
+
+      await jobQueueService.cancel(`emergency-escalation:${bookingId}`)
+
+      const booking = await prisma.booking.findUniqueOrThrow({
+        where: { id: bookingId },
         include: {
           customer: true,
           provider: true,
         },
       })
 
+      const lastEvent = await prisma.emergencyDispatchEvent.findFirst({
+        where: { bookingId },
+        orderBy: { createdAt: "desc" },
+        select: { step: true },
+      })
+      await this.recordDispatchEvent(bookingId, lastEvent?.step ?? 0, "RESPONDER_ACCEPTED", [responderId])
+
       // Notify customer
       await this.notificationService.notifyCustomer(booking.customerId, {
         type: "EMERGENCY_RESPONDER_ASSIGNED",
@@ -535,6 +790,7 @@ export class EmergencyService {
           isOnDuty: data.isOnDuty,
         },
       })
+      await geoIndexService.updatePosition(GEO_INDEXES.RESPONDERS, responderId, data.latitude, data.longitude)
 
       // Broadcast location update for active emergencies
       const activeEmergencies = await prisma.booking.findMany({
@@ -862,7 +1118,9 @@ async onboardEmergencyResponder(data: {
       address?: string
     },
     isRealTime: boolean = false,
-    bookingId?: string
+    bookingId?: string,
+    // Public live-tracking page, sent instead of a static map pin when the user is on a ride
+    trackingUrl?: string,
   ) {
     try {
       // Get user's emergency contacts
@@ -913,12 +1171,37 @@ async onboardEmergencyResponder(data: {
             contact.name,
             locationData,
             isRealTime,
-            bookingId
+            bookingId,
+            trackingUrl,
           )
         )
 
       await Promise.all(emailPromises)
 
+      // Text every contact - they may not have the app or a data connection
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { firstName: true, lastName: true, phone: true },
+      })
+      const name = [user?.firstName, user?.lastName].filter(Boolean).join(" ") || user?.phone || "A TripSync user"
+
+      const smsResults = await Promise.allSettled(
+        contacts.map((contact) =>
+          this.smsService.send(contact.phone, "EMERGENCY_LOCATION_SHARE", {
+            name,
+            latitude: locationData.latitude,
+            longitude: locationData.longitude,
+            address: locationData.address,
+            isRealTime,
+            trackingUrl,
+          }),
+        ),
+      )
+      const smsFailures = smsResults.filter((result) => result.status === "rejected").length
+      if (smsFailures > 0) {
+        logger.warn(`Emergency location SMS failed for ${smsFailures} of ${contacts.length} contacts of user ${userId}`)
+      }
+
       logger.info(`Location shared with ${contacts.length} emergency contacts for user ${userId}`)
       return {
         sharedCount: contacts.length,
@@ -940,10 +1223,11 @@ async onboardEmergencyResponder(data: {
       address?: string
     },
     isRealTime: boolean,
-    bookingId?: string
+    bookingId?: string,
+    trackingUrl?: string,
   ) {
     try {
-      const locationUrl = `https://maps.google.com/?q=${locationData.latitude},${locationData.longitude}`
+      const locationUrl = trackingUrl || `https://maps.google.com/?q=${locationData.latitude},${locationData.longitude}`
 
       const subject = isRealTime
         ? "Real-time Location Update - Emergency Contact"
@@ -994,7 +1278,7 @@ async onboardEmergencyResponder(data: {
               </div>
 
               <div style="text-align: center; margin: 30px 0;">
-                <a href="${locationUrl}" class="button" target="_blank">View on Google Maps</a>
+                <a href="${locationUrl}" class="button" target="_blank">${trackingUrl ? 'Follow the Trip Live' : 'View on Google Maps'}</a>
               </div>
 
               <p>If you believe this is an emergency situation, please contact emergency services immediately.</p>
@@ -265,6 +265,13 @@ export class EncryptionService {
     return masked
   }
 
+  /**
+   * Mask phone numbers written into free text, such as chat messages
+   */
+  maskPhoneNumbers(text: string): string {
+    return text.replace(/\+?\d[\d\s-]{7,}\d/g, (match) => this.maskString(match.replace(/[\s-]/g, "")))
+  }
+
   private maskString(str: string): string {
     if (str.length <= 4) {
       return "*".repeat(str.length)
@@ -0,0 +1,366 @@
+import type { FareSplitStatus } from "@prisma/client"
+import prisma from "../config/database"
+import { NotificationService } from "./notification.service"
+import logger from "../utils/logger"
+
+const MAX_CO_RIDERS = 5
+// Splits can change until the fare is collected
+const CLOSED_BOOKING_STATUSES = ["COMPLETED", "CANCELLED"]
+const OPEN_SPLIT_STATUSES: FareSplitStatus[] = ["INVITED", "ACCEPTED"]
+const CHARGEABLE_METHOD_TYPES = ["CREDIT_CARD", "DEBIT_CARD"]
+
+export interface FareSplitPortion {
+  id: string
+  userId: string
+  paymentMethodId: string
+  amount: number
+}
+
+export class FareSplitService {
+  private notificationService = new NotificationService()
+
+  async inviteCoRider(ownerId: string, bookingId: string, data: { email?: string; phone?: string; sharePercent?: number }) {
+    try {
+      const booking = await this.getOwnedOpenBooking(ownerId, bookingId)
+
+      const coRider = await prisma.user.findFirst({
+        where: data.email ? { email: data.email } : { phone: data.phone },
+        select: { id: true, isActive: true },
+      })
+      if (!coRider || !coRider.isActive) {
+        throw new Error("No TripSync user found with these details")
+      }
+      if (coRider.id === ownerId) {
+        throw new Error("You are already paying for this booking")
+      }
+
+      const openSplits = await prisma.fareSplit.findMany({
+        where: { bookingId, status: { in: OPEN_SPLIT_STATUSES }, userId: { not: coRider.id } },
+        select: { sharePercent: true },
+      })
+      if (openSplits.length >= MAX_CO_RIDERS) {
+        throw new Error(`A booking can be split with at most ${MAX_CO_RIDERS} co-riders`)
+      }
+
+      const customPercent = openSplits.reduce((sum, split) => sum + (split.sharePercent || 0), 0)
+      if (data.sharePercent != null && customPercent + data.sharePercent >= 100) {
+        throw new Error(`Custom shares can cover at most ${Math.max(0, 99 - customPercent)}% more of this fare`)
+      }
+
+      const split = await prisma.fareSplit.upsert({
+        where: { bookingId_userId: { bookingId, userId: coRider.id } },
+        create: { bookingId, inviterId: ownerId, userId: coRider.id, sharePercent: data.sharePercent },
+        update: {
+          status: "INVITED",
+          sharePercent: data.sharePercent ?? null,
+          paymentMethodId: null,
+          respondedAt: null,
+          failureReason: null,
+        },
+      })
+
+      const share = data.sharePercent != null ? `${data.sharePercent}% of` : "an equal share of"
+      await this.notificationService.notifyCustomer(coRider.id, {
+        type: "FARE_SPLIT_INVITATION",
+        title: "Split the Fare",
+        body: `${booking.customer.firstName || "A rider"} has asked you to pay ${share} booking ${booking.bookingNumber}`,
+        data: { bookingId, fareSplitId: split.id, sharePercent: data.sharePercent },
+      })
+
+      return split
+    } catch (error) {
+      logger.error("Invite co-rider error:", error)
+      throw error
+    }
+  }
+
+  async cancelInvitation(ownerId: string, bookingId: string, splitId: string) {
+    try {
+      await this.getOwnedOpenBooking(ownerId, bookingId)
+
+      const split = await prisma.fareSplit.findFirst({
+        where: { id: splitId, bookingId, status: { in: OPEN_SPLIT_STATUSES } },
+      })
+      if (!split) {
+        throw new Error("Fare split not found")
+      }
+
+      const cancelled = await prisma.fareSplit.update({
+        where: { id: splitId },
+        data: { status: "CANCELLED" },
+      })
+
+      await this.notificationService.notifyCustomer(split.userId, {
+        type: "FARE_SPLIT_UPDATE",
+        title: "Fare Split Cancelled",
+        body: "You no longer need to pay a share of this booking",
+        data: { bookingId, fareSplitId: splitId },
+      })
+
+      return cancelled
+    } catch (error) {
+      logger.error("Cancel fare split error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * The booking's splits with what each person would pay on the current fare. Visible to the
+   * booking owner and its co-riders.
+   */
+  async getBookingSplits(userId: string, bookingId: string) {
+    try {
+      const booking = await prisma.booking.findFirst({
+        where: { id: bookingId, OR: [{ customerId: userId }, { fareSplits: { some: { userId } } }] },
+        select: { id: true, customerId: true, estimatedPrice: true, finalPrice: true, currency: true },
+      })
+      if (!booking) {
+        throw new Error("Booking not found")
+      }
+
+      const splits = await prisma.fareSplit.findMany({
+        where: { bookingId },
+        include: { user: { select: { id: true, firstName: true, lastName: true } } },
+        orderBy: { createdAt: "asc" },
+      })
+
+      const fare = booking.finalPrice ?? booking.estimatedPrice ?? 0
+      const preview = this.calculatePortions(
+        fare,
+        splits.filter((split) => split.status === "ACCEPTED"),
+      )
+
+      return {
+        fare,
+        currency: booking.currency,
+        ownerAmount: preview.ownerAmount,
+        splits: splits.map((split) => ({
+          ...split,
+          estimatedAmount: split.amount ?? preview.amounts.get(split.id) ?? null,
+        })),
+      }
+    } catch (error) {
+      logger.error("Get fare splits error:", error)
+      throw error
+    }
+  }
+
+  async getMyInvitations(userId: string) {
+    try {
+      return await prisma.fareSplit.findMany({
+        where: { userId, status: { in: OPEN_SPLIT_STATUSES } },
+        include: {
+          inviter: { select: { firstName: true, lastName: true } },
+          booking: {
+            select: {
+              id: true,
+              bookingNumber: true,
+              status: true,
+              estimatedPrice: true,
+              currency: true,
+              scheduledAt: true,
+              serviceType: { select: { displayName: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      })
+    } catch (error) {
+      logger.error("Get fare split invitations error:", error)
+      throw error
+    }
+  }
+
+  async respond(userId: string, splitId: string, data: { accept: boolean; paymentMethodId?: string }) {
+    try {
+      const split = await prisma.fareSplit.findFirst({
+        where: { id: splitId, userId, status: { in: OPEN_SPLIT_STATUSES } },
+        include: { booking: { select: { id: true, bookingNumber: true, status: true, customerId: true } } },
+      })
+      if (!split) {
+        throw new Error("Fare split not found")
+      }
+      if (CLOSED_BOOKING_STATUSES.includes(split.booking.status)) {
+        throw new Error("This booking can no longer be split")
+      }
+
+      if (data.accept) {
+        // Shares are charged without the co-rider present, so only a saved card will do
+        const paymentMethod = await prisma.paymentMethod.findFirst({
+          where: { id: data.paymentMethodId, userId, isActive: true },
+        })
+        if (!paymentMethod || !CHARGEABLE_METHOD_TYPES.includes(paymentMethod.type) || !paymentMethod.paystackAuthCode) {
+          throw new Error("Choose a saved card to pay your share")
+        }
+      }
+
+      const updated = await prisma.fareSplit.update({
+        where: { id: splitId },
+        data: {
+          status: data.accept ? "ACCEPTED" : "DECLINED",
+          paymentMethodId: data.accept ? data.paymentMethodId : null,
+          respondedAt: new Date(),
+        },
+      })
+
+      await this.notificationService.notifyCustomer(split.booking.customerId, {
+        type: "FARE_SPLIT_UPDATE",
+        title: data.accept ? "Fare Split Accepted" : "Fare Split Declined",
+        body: data.accept
+          ? `A co-rider has agreed to pay their share of booking ${split.booking.bookingNumber}`
+          : `A co-rider declined to split booking ${split.booking.bookingNumber}. Their share stays with you.`,
+        data: { bookingId: split.bookingId, fareSplitId: splitId },
+      })
+
+      return updated
+    } catch (error) {
+      logger.error("Respond to fare split error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Work out who pays what when the fare is collected. Invitations nobody answered are
+   * closed, and their share stays with the booking owner.
+   */
+  /**
+   * Split the fare between the owner and the co-riders still to be charged. Shares already
+   * paid by an earlier collection are taken off the owner's portion rather than charged again.
+   */
+  async getPortions(bookingId: string, amount: number) {
+    await prisma.fareSplit.updateMany({
+      where: { bookingId, status: "INVITED" },
+      data: { status: "CANCELLED", failureReason: "Not accepted before the fare was collected" },
+    })
+
+    const [accepted, paid] = await Promise.all([
+      prisma.fareSplit.findMany({
+        where: { bookingId, status: "ACCEPTED", paymentMethodId: { not: null } },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.fareSplit.findMany({
+        where: { bookingId, status: "PAID" },
+        select: { id: true, sharePercent: true, amount: true },
+      }),
+    ])
+
+    const { amounts } = this.calculatePortions(amount, [...paid, ...accepted])
+    const coRiders: FareSplitPortion[] = accepted.map((split) => ({
+      id: split.id,
+      userId: split.userId,
+      paymentMethodId: split.paymentMethodId!,
+      amount: amounts.get(split.id)!,
+    }))
+
+    const settledAmount = this.roundAmount(paid.reduce((sum, split) => sum + (split.amount || 0), 0))
+    const coRiderTotal = coRiders.reduce((sum, coRider) => sum + coRider.amount, 0)
+    const ownerAmount = this.roundAmount(Math.max(0, amount - settledAmount - coRiderTotal))
+
+    return { ownerAmount, coRiders, settledAmount }
+  }
+
+  /**
+   * Record a collected share. Never throws - the card has already been charged.
+   */
+  async markPaid(splitId: string, transactionId: string, amount: number) {
+    try {
+      const split = await prisma.fareSplit.update({
+        where: { id: splitId },
+        data: { status: "PAID", transactionId, amount, settledAt: new Date() },
+      })
+
+      await this.notificationService.notifyCustomer(split.userId, {
+        type: "FARE_SPLIT_UPDATE",
+        title: "Fare Share Paid",
+        body: `GH₵${amount.toFixed(2)} was charged for your share of the trip`,
+        data: { bookingId: split.bookingId, fareSplitId: splitId, amount },
+      })
+    } catch (error) {
+      logger.error(`Mark fare split ${splitId} paid with transaction ${transactionId} error:`, error)
+    }
+  }
+
+  /**
+   * A co-rider's charge failed. The owner pays the share instead, so both are told.
+   */
+  async markFailed(splitId: string, transactionId: string, amount: number, reason: string) {
+    const split = await prisma.fareSplit.update({
+      where: { id: splitId },
+      data: { status: "FAILED", transactionId, amount, failureReason: reason, settledAt: new Date() },
+    })
+
+    await Promise.allSettled([
+      this.notificationService.notifyCustomer(split.userId, {
+        type: "FARE_SPLIT_UPDATE",
+        title: "Fare Share Payment Failed",
+        body: "We couldn't charge your card for your share of the trip",
+        data: { bookingId: split.bookingId, fareSplitId: splitId, reason },
+      }),
+      this.notificationService.notifyCustomer(split.inviterId, {
+        type: "FARE_SPLIT_UPDATE",
+        title: "Co-rider Payment Failed",
+        body: `A co-rider's payment failed, so their GH₵${amount.toFixed(2)} share was added to your fare`,
+        data: { bookingId: split.bookingId, fareSplitId: splitId, amount },
+      }),
+    ])
+  }
+
+  async cancelForBooking(bookingId: string) {
+    try {
+      await prisma.fareSplit.updateMany({
+        where: { bookingId, status: { in: OPEN_SPLIT_STATUSES } },
+        data: { status: "CANCELLED", failureReason: "Booking cancelled" },
+      })
+    } catch (error) {
+      logger.error(`Cancel fare splits for booking ${bookingId} error:`, error)
+    }
+  }
+
+  // Custom shares come off the top; the owner and the equal-share co-riders split the rest
+  private calculatePortions(amount: number, splits: { id: string; sharePercent: number | null }[]) {
+    const amounts = new Map<string, number>()
+
+    for (const split of splits) {
+      if (split.sharePercent != null) {
+        amounts.set(split.id, this.roundAmount((amount * split.sharePercent) / 100))
+      }
+    }
+
+    const customTotal = [...amounts.values()].reduce((sum, value) => sum + value, 0)
+    const equalSplits = splits.filter((split) => split.sharePercent == null)
+    const equalShare = this.roundAmount(Math.max(0, amount - customTotal) / (equalSplits.length + 1))
+    for (const split of equalSplits) {
+      amounts.set(split.id, equalShare)
+    }
+
+    const coRiderTotal = [...amounts.values()].reduce((sum, value) => sum + value, 0)
+    return { ownerAmount: this.roundAmount(amount - coRiderTotal), amounts }
+  }
+
+  private async getOwnedOpenBooking(ownerId: string, bookingId: string) {
+    const booking = await prisma.booking.findFirst({
+      where: { id: bookingId, customerId: ownerId },
+      select: {
+        id: true,
+        bookingNumber: true,
+        status: true,
+        corporateAccountId: true,
+        customer: { select: { firstName: true } },
+      },
+    })
+    if (!booking) {
+      throw new Error("Booking not found")
+    }
+    if (CLOSED_BOOKING_STATUSES.includes(booking.status)) {
+      throw new Error("This booking can no longer be split")
+    }
+    if (booking.corporateAccountId) {
+      throw new Error("Company-billed bookings cannot be split")
+    }
+    return booking
+  }
+
+  private roundAmount(amount: number) {
+    return Math.round(amount * 100) / 100
+  }
+}
@@ -0,0 +1,160 @@
+import type { DevicePlatform, DeviceToken, PriorityLevel } from "@prisma/client"
+import prisma from "../config/database"
+import { getFirebaseMessaging } from "../config/firebase"
+import logger from "../utils/logger"
+
+export interface PushMessage {
+  title: string
+  body: string
+  type: string
+  data?: Record<string, any>
+  priority?: PriorityLevel
+}
+
+export interface PushResult {
+  sent: number
+  failed: number
+  pruned: number
+}
+
+// FCM errors that mean the token will never work again
+const INVALID_TOKEN_ERRORS = ["messaging/registration-token-not-registered", "messaging/invalid-registration-token"]
+
+export class FcmService {
+  /**
+   * Register the app's FCM token for the current session. Re-registering a token moves it
+   * to the new user and session, since the device now belongs to whoever logged in last.
+   */
+  async registerDevice(
+    userId: string,
+    sessionId: string | undefined,
+    data: { token: string; platform: DevicePlatform; appVersion?: string },
+  ): Promise<DeviceToken> {
+    try {
+      const fields = {
+        userId,
+        sessionId: sessionId || null,
+        platform: data.platform,
+        appVersion: data.appVersion,
+        isActive: true,
+        lastSeenAt: new Date(),
+        invalidatedAt: null,
+        invalidReason: null,
+      }
+
+      return await prisma.deviceToken.upsert({
+        where: { token: data.token },
+        create: { token: data.token, ...fields },
+        update: fields,
+      })
+    } catch (error) {
+      logger.error("Register device error:", error)
+      throw error
+    }
+  }
+
+  async unregisterDevice(userId: string, token: string) {
+    try {
+      const result = await prisma.deviceToken.updateMany({
+        where: { userId, token, isActive: true },
+        data: { isActive: false, invalidatedAt: new Date(), invalidReason: "UNREGISTERED" },
+      })
+
+      if (result.count === 0) {
+        throw new Error("Device not found")
+      }
+
+      return { unregistered: true }
+    } catch (error) {
+      logger.error("Unregister device error:", error)
+      throw error
+    }
+  }
+
+  async getUserDevices(userId: string) {
+    try {
+      return await prisma.deviceToken.findMany({
+        where: { userId, isActive: true },
+        select: { id: true, platform: true, appVersion: true, lastSeenAt: true, createdAt: true },
+        orderBy: { lastSeenAt: "desc" },
+      })
+    } catch (error) {
+      logger.error("Get user devices error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Stop pushing to the devices registered under a session when the user logs out of it
+   */
+  async deactivateSessionDevices(sessionToken: string) {
+    try {
+      await prisma.deviceToken.updateMany({
+        where: { session: { token: sessionToken }, isActive: true },
+        data: { isActive: false, invalidatedAt: new Date(), invalidReason: "LOGOUT" },
+      })
+    } catch (error) {
+      logger.error("Deactivate session devices error:", error)
+    }
+  }
+
+  /**
+   * Push to every active device of the user. Tokens FCM reports as invalid are pruned.
+   */
+  async sendToUser(userId: string, message: PushMessage): Promise<PushResult> {
+    const result: PushResult = { sent: 0, failed: 0, pruned: 0 }
+    const messaging = getFirebaseMessaging()
+    if (!messaging) return result
+
+    try {
+      const devices = await prisma.deviceToken.findMany({
+        where: { userId, isActive: true },
+        select: { id: true, token: true },
+      })
+      if (devices.length === 0) return result
+
+      const urgent = message.priority === "URGENT" || message.priority === "CRITICAL"
+      const response = await messaging.sendEachForMulticast({
+        tokens: devices.map((device) => device.token),
+        notification: { title: message.title, body: message.body },
+        // FCM data values must be strings
+        data: Object.fromEntries(
+          Object.entries({ ...message.data, type: message.type })
+            .filter(([, value]) => value !== undefined && value !== null)
+            .map(([key, value]) => [key, typeof value === "string" ? value : JSON.stringify(value)]),
+        ),
+        android: { priority: urgent ? "high" : "normal" },
+        apns: { headers: { "apns-priority": urgent ? "10" : "5" } },
+      })
+
+      const invalid: { id: string; code: string }[] = []
+      response.responses.forEach((sendResponse, index) => {
+        if (sendResponse.success) {
+          result.sent++
+          return
+        }
+
+        result.failed++
+        const code = sendResponse.error?.code || "unknown"
+        if (INVALID_TOKEN_ERRORS.includes(code)) {
+          invalid.push({ id: devices[index].id, code })
+        } else {
+          logger.warn(`Push to device ${devices[index].id} failed: ${code}`)
+        }
+      })
+
+      for (const device of invalid) {
+        await prisma.deviceToken.update({
+          where: { id: device.id },
+          data: { isActive: false, invalidatedAt: new Date(), invalidReason: device.code },
+        })
+      }
+      result.pruned = invalid.length
+
+      return result
+    } catch (error) {
+      logger.error(`Push to user ${userId} error:`, error)
+      return result
+    }
+  }
+}
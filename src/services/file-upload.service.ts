@@ -1,68 +1,132 @@
-import { supabase } from "../config/supabase"
+import crypto from "crypto"
 import { v4 as uuidv4 } from "uuid"
 import logger from "../utils/logger"
 import type { Express } from "express"
+import type { StorageAdapter } from "./storage.service"
+import { getStorageAdapter } from "./storage.service"
+import type { RenditionName } from "./image-processing.service"
+import { ImageProcessingService, RENDITION_NAMES } from "./image-processing.service"
+
+export interface ImageUpload {
+  hash: string
+  contentType: string
+  // Only known when the image was processed by this upload
+  width?: number
+  height?: number
+  urls: Record<RenditionName, string>
+}
 
 export class FileUploadService {
+  private imageProcessingService = new ImageProcessingService()
+
+  // Tests can pass a LocalStorageAdapter; otherwise STORAGE_DRIVER decides
+  constructor(private storageOverride?: StorageAdapter) {}
+
+  private get storage() {
+    return this.storageOverride || getStorageAdapter()
+  }
+
   /**
-   * Upload document to Supabase storage
+   * Upload a KYC document to the private `documents` bucket. Returns the file's path in the
+   * bucket, not a URL: documents are only viewed through `createDocumentUrl`.
    */
   async uploadDocument(file: Express.Multer.File, folder: string): Promise<string> {
     try {
-      const fileExtension = file.originalname.split(".").pop()
-      const fileName = `${uuidv4()}.${fileExtension}`
-      const filePath = `${folder}/${fileName}`
+      return await this.uploadFile("documents", file, folder)
+    } catch (error) {
+      logger.error("Upload document error:", error)
+      throw error
+    }
+  }
 
-      const { data, error } = await supabase.storage.from("documents").upload(filePath, file.buffer, {
-        contentType: file.mimetype,
-        upsert: false,
-      })
+  /**
+   * Upload a chat attachment such as a voice note and return its public URL
+   */
+  async uploadAttachment(file: Express.Multer.File, folder: string): Promise<string> {
+    try {
+      const filePath = await this.uploadFile("attachments", file, folder)
+      return await this.storage.getPublicUrl("attachments", filePath)
+    } catch (error) {
+      logger.error("Upload attachment error:", error)
+      throw error
+    }
+  }
 
-      if (error) {
-        throw new Error(`Upload failed: ${error.message}`)
-      }
+  /**
+   * Short-lived link to a stored document. Callers check access first.
+   */
+  async createDocumentUrl(storedDocument: string, expiresInSeconds: number): Promise<string> {
+    return this.storage.createSignedUrl("documents", this.getDocumentPath(storedDocument), expiresInSeconds)
+  }
 
-      // Get public URL
-      const { data: urlData } = supabase.storage.from("documents").getPublicUrl(filePath)
+  async deleteDocuments(storedDocuments: string[]): Promise<void> {
+    if (storedDocuments.length === 0) return
 
-      return urlData.publicUrl
+    try {
+      await this.storage.remove("documents", storedDocuments.map((stored) => this.getDocumentPath(stored)))
     } catch (error) {
-      logger.error("Upload document error:", error)
+      logger.error("Delete documents error:", error)
       throw error
     }
   }
 
   /**
-   * Upload and optimize image
+   * Upload an image as thumb, medium and full renditions and return the full one's URL.
+   * `width`/`height` bound the full rendition.
    */
   async uploadImage(
     file: Express.Multer.File,
     folder: string,
     options?: { width?: number; height?: number },
   ): Promise<string> {
-    try {
-      const processedBuffer = file.buffer
-
-      // For now, just use the original buffer without sharp processing
-      // You can add sharp processing later when the package is available
-
-      const fileExtension = file.mimetype.startsWith("image/") ? "jpg" : file.originalname.split(".").pop()
-      const fileName = `${uuidv4()}.${fileExtension}`
-      const filePath = `${folder}/${fileName}`
-
-      const { data, error } = await supabase.storage.from("images").upload(filePath, processedBuffer, {
-        contentType: file.mimetype.startsWith("image/") ? "image/jpeg" : file.mimetype,
-        upsert: false,
-      })
+    const upload = await this.uploadImageRenditions(file, folder, options)
+    return upload.urls.full
+  }
 
-      if (error) {
-        throw new Error(`Upload failed: ${error.message}`)
+  /**
+   * Validate, clean and store an image. Files are stored by content hash inside the owner's
+   * folder (e.g. `avatars/<userId>/<hash>/medium.jpg`), so the same photo uploaded twice by
+   * one owner is only processed and stored once, and no two owners ever share a file.
+   */
+  async uploadImageRenditions(
+    file: Express.Multer.File,
+    folder: string,
+    options?: { width?: number; height?: number },
+  ): Promise<ImageUpload> {
+    try {
+      const hash = crypto
+        .createHash("sha256")
+        .update(file.buffer)
+        .update(`:${options?.width || ""}x${options?.height || ""}`)
+        .digest("hex")
+      const directory = `${folder}/${hash}`
+
+      const format = await this.imageProcessingService.getOutputFormat(file.buffer)
+      const fullPath = `${directory}/full.${format.extension}`
+      const urls = {} as Record<RenditionName, string>
+
+      if (await this.storage.exists("images", fullPath)) {
+        logger.debug(`Image ${hash} already stored, reusing it`)
+        for (const name of RENDITION_NAMES) {
+          urls[name] = await this.storage.getPublicUrl("images", `${directory}/${name}.${format.extension}`)
+        }
+        return { hash, contentType: format.contentType, urls }
       }
 
-      // Get public URL
-      const { data: urlData } = supabase.storage.from("images").getPublicUrl(filePath)
+      const renditions = await this.imageProcessingService.createRenditions(file.buffer, options)
+      // Full goes last, so its presence means the whole set was stored
+      for (const rendition of renditions) {
+        const filePath = `${directory}/${rendition.name}.${rendition.extension}`
+        await this.storage.upload("images", filePath, rendition.buffer, {
+          contentType: rendition.contentType,
+          // A retry after a partial upload rewrites the same bytes
+          upsert: true,
+        })
+        urls[rendition.name] = await this.storage.getPublicUrl("images", filePath)
+      }
 
-      return urlData.publicUrl
+      const full = renditions.find((rendition) => rendition.name === "full")!
+      return { hash, contentType: full.contentType, width: full.width, height: full.height, urls }
     } catch (error) {
       logger.error("Upload image error:", error)
       throw error
@@ -84,18 +148,42 @@ export class FileUploadService {
   }
 
   /**
-   * Delete file from storage
+   * Delete file from storage. Images are only shared within their owner's folder, so this
+   * never removes a file another owner uses.
    */
   async deleteFile(bucket: string, filePath: string): Promise<void> {
     try {
-      const { error } = await supabase.storage.from(bucket).remove([filePath])
-
-      if (error) {
-        throw new Error(`Delete failed: ${error.message}`)
-      }
+      await this.storage.remove(bucket, [filePath])
     } catch (error) {
       logger.error("Delete file error:", error)
       throw error
     }
   }
+
+  // Documents uploaded before the bucket went private were saved as public URLs
+  private getDocumentPath(storedDocument: string) {
+    const isUrl = /^https?:\/\//.test(storedDocument)
+    if (!isUrl && !storedDocument.startsWith("/")) {
+      return storedDocument
+    }
+
+    const pathname = isUrl ? new URL(storedDocument).pathname : storedDocument.split("?")[0]
+    const marker = "/documents/"
+    const index = pathname.indexOf(marker)
+    if (index === -1) {
+      throw new Error("Unrecognised document location")
+    }
+    return decodeURIComponent(pathname.slice(index + marker.length))
+  }
+
+  private async uploadFile(bucket: string, file: Express.Multer.File, folder: string) {
+    const fileExtension = file.originalname.split(".").pop()
+    const filePath = `${folder}/${uuidv4()}.${fileExtension}`
+
+    await this.storage.upload(bucket, filePath, file.buffer, {
+      contentType: file.mimetype,
+      upsert: false,
+    })
+    return filePath
+  }
 }
@@ -0,0 +1,701 @@
+import type {
+  Fleet,
+  FleetDriverStatus,
+  FleetShiftStatus,
+  Prisma,
+  VehicleCategory,
+  VehicleType,
+  VerificationStatus,
+} from "@prisma/client"
+import prisma from "../config/database"
+import { NotificationService } from "./notification.service"
+import { auditService } from "./audit.service"
+import logger from "../utils/logger"
+
+// A driver may start a shift this long before it is scheduled to begin
+const SHIFT_EARLY_START_MS = 15 * 60 * 1000
+const OPEN_SHIFT_STATUSES: FleetShiftStatus[] = ["SCHEDULED", "ACTIVE"]
+
+export interface FleetVehicleData {
+  make: string
+  model: string
+  year: number
+  color: string
+  licensePlate: string
+  type: VehicleType
+  category: VehicleCategory
+  capacity?: number
+  isTaxi?: boolean
+}
+
+export class FleetService {
+  private notificationService = new NotificationService()
+
+  /**
+   * Register the user as the operator of a new fleet. Fleets start unverified and
+   * cannot take on drivers until an admin approves them.
+   */
+  async registerFleet(
+    userId: string,
+    data: { name: string; registrationNumber?: string; phone?: string; email?: string; operatorSharePercent?: number },
+  ) {
+    try {
+      const user = await prisma.user.findUnique({ where: { id: userId }, include: { ownedFleet: true } })
+      if (!user) {
+        throw new Error("User not found")
+      }
+      if (user.ownedFleet) {
+        throw new Error("You already operate a fleet")
+      }
+      if (user.role !== "USER") {
+        throw new Error("Only customer accounts can register a fleet")
+      }
+
+      const [fleet] = await prisma.$transaction([
+        prisma.fleet.create({
+          data: {
+            ownerId: userId,
+            name: data.name,
+            registrationNumber: data.registrationNumber,
+            phone: data.phone || user.phone,
+            email: data.email || user.email,
+            operatorSharePercent: data.operatorSharePercent,
+          },
+        }),
+        prisma.user.update({ where: { id: userId }, data: { role: "FLEET_OPERATOR" } }),
+      ])
+
+      return fleet
+    } catch (error) {
+      logger.error("Register fleet error:", error)
+      throw error
+    }
+  }
+
+  async getFleetForOwner(ownerId: string): Promise<Fleet> {
+    const fleet = await prisma.fleet.findUnique({ where: { ownerId } })
+    if (!fleet) {
+      throw new Error("Fleet not found")
+    }
+    return fleet
+  }
+
+  async getFleet(ownerId: string) {
+    try {
+      const fleet = await this.getFleetForOwner(ownerId)
+      const [activeDrivers, invitedDrivers, vehicles, activeShifts] = await Promise.all([
+        prisma.fleetDriver.count({ where: { fleetId: fleet.id, status: "ACTIVE" } }),
+        prisma.fleetDriver.count({ where: { fleetId: fleet.id, status: "INVITED" } }),
+        prisma.vehicle.count({ where: { fleetId: fleet.id, isActive: true } }),
+        prisma.fleetShift.count({ where: { fleetId: fleet.id, status: "ACTIVE" } }),
+      ])
+
+      return { ...fleet, stats: { activeDrivers, invitedDrivers, vehicles, activeShifts } }
+    } catch (error) {
+      logger.error("Get fleet error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * A new split only applies to trips completed after the change; past trips keep theirs.
+   */
+  async updateFleet(
+    ownerId: string,
+    data: { name?: string; registrationNumber?: string; phone?: string; email?: string; operatorSharePercent?: number },
+  ) {
+    try {
+      const fleet = await this.getFleetForOwner(ownerId)
+      return await prisma.fleet.update({ where: { id: fleet.id }, data })
+    } catch (error) {
+      logger.error("Update fleet error:", error)
+      throw error
+    }
+  }
+
+  async getAllFleets(options: { page?: number; limit?: number; verificationStatus?: VerificationStatus } = {}) {
+    try {
+      const { page = 1, limit = 20, verificationStatus } = options
+      const where: Prisma.FleetWhereInput = verificationStatus ? { verificationStatus } : {}
+
+      const [fleets, total] = await Promise.all([
+        prisma.fleet.findMany({
+          where,
+          include: {
+            owner: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+            _count: { select: { drivers: { where: { status: "ACTIVE" } }, vehicles: true } },
+          },
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.fleet.count({ where }),
+      ])
+
+      return {
+        fleets,
+        pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+      }
+    } catch (error) {
+      logger.error("Get all fleets error:", error)
+      throw error
+    }
+  }
+
+  async verifyFleet(adminId: string, fleetId: string, status: VerificationStatus, reason?: string) {
+    try {
+      const fleet = await prisma.fleet.update({ where: { id: fleetId }, data: { verificationStatus: status } })
+
+      await auditService.logAdminAction(adminId, "FLEET_VERIFICATION_UPDATED", "fleet", fleetId, { status, reason })
+
+      await this.notificationService.notifyCustomer(fleet.ownerId, {
+        type: status === "APPROVED" ? "ACCOUNT_VERIFIED" : "ACCOUNT_UPDATE",
+        title: status === "APPROVED" ? "Fleet Approved" : "Fleet Verification Update",
+        body:
+          status === "APPROVED"
+            ? `${fleet.name} has been approved. You can now add drivers and vehicles.`
+            : `${fleet.name} verification status: ${status}${reason ? `. ${reason}` : ""}`,
+        data: { fleetId, status, reason },
+      })
+
+      return fleet
+    } catch (error) {
+      logger.error("Verify fleet error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Invite an onboarded driver or taxi driver to drive for the fleet. The driver has to
+   * accept before trips are split with the fleet.
+   */
+  async inviteDriver(ownerId: string, data: { email?: string; phone?: string; operatorSharePercent?: number }) {
+    try {
+      const fleet = await this.getApprovedFleet(ownerId)
+
+      const driver = await prisma.user.findFirst({
+        where: data.email ? { email: data.email } : { phone: data.phone },
+        include: { driverProfile: { select: { id: true } }, taxiDriverProfile: { select: { id: true } } },
+      })
+      if (!driver || (!driver.driverProfile && !driver.taxiDriverProfile)) {
+        throw new Error("No onboarded driver found with these details")
+      }
+
+      const activeMembership = await prisma.fleetDriver.findFirst({
+        where: { driverId: driver.id, status: "ACTIVE" },
+      })
+      if (activeMembership) {
+        throw new Error(
+          activeMembership.fleetId === fleet.id ? "Driver is already in your fleet" : "Driver already drives for another fleet",
+        )
+      }
+
+      const membership = await prisma.fleetDriver.upsert({
+        where: { fleetId_driverId: { fleetId: fleet.id, driverId: driver.id } },
+        create: { fleetId: fleet.id, driverId: driver.id, operatorSharePercent: data.operatorSharePercent },
+        update: {
+          status: "INVITED",
+          operatorSharePercent: data.operatorSharePercent ?? null,
+          invitedAt: new Date(),
+          joinedAt: null,
+          removedAt: null,
+        },
+      })
+
+      const sharePercent = membership.operatorSharePercent ?? fleet.operatorSharePercent
+      await this.notificationService.notifyDriver(driver.id, {
+        type: "FLEET_INVITATION",
+        title: "Fleet Invitation",
+        body: `${fleet.name} has invited you to drive for their fleet. The fleet keeps ${sharePercent}% of your trip earnings.`,
+        data: { fleetId: fleet.id, membershipId: membership.id, operatorSharePercent: sharePercent },
+      })
+
+      return membership
+    } catch (error) {
+      logger.error("Invite fleet driver error:", error)
+      throw error
+    }
+  }
+
+  async respondToInvitation(driverId: string, membershipId: string, accept: boolean) {
+    try {
+      const membership = await prisma.fleetDriver.findFirst({
+        where: { id: membershipId, driverId, status: "INVITED" },
+        include: { fleet: true },
+      })
+      if (!membership) {
+        throw new Error("Invitation not found")
+      }
+
+      if (!accept) {
+        return await prisma.fleetDriver.update({
+          where: { id: membershipId },
+          data: { status: "REMOVED", removedAt: new Date() },
+        })
+      }
+
+      const activeMembership = await prisma.fleetDriver.findFirst({ where: { driverId, status: "ACTIVE" } })
+      if (activeMembership) {
+        throw new Error("Leave your current fleet before joining another")
+      }
+
+      const joined = await prisma.fleetDriver.update({
+        where: { id: membershipId },
+        data: { status: "ACTIVE", joinedAt: new Date() },
+      })
+
+      await this.notificationService.notifyCustomer(membership.fleet.ownerId, {
+        type: "FLEET_INVITATION",
+        title: "Driver Joined",
+        body: "A driver accepted your fleet invitation",
+        data: { fleetId: membership.fleetId, driverId },
+      })
+
+      return joined
+    } catch (error) {
+      logger.error("Respond to fleet invitation error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * The driver's fleet, pending invitations and upcoming shifts
+   */
+  async getDriverFleet(driverId: string) {
+    try {
+      const [membership, invitations, shifts] = await Promise.all([
+        prisma.fleetDriver.findFirst({
+          where: { driverId, status: "ACTIVE" },
+          include: { fleet: { select: { id: true, name: true, phone: true, email: true, operatorSharePercent: true } } },
+        }),
+        prisma.fleetDriver.findMany({
+          where: { driverId, status: "INVITED" },
+          include: { fleet: { select: { id: true, name: true, operatorSharePercent: true } } },
+        }),
+        prisma.fleetShift.findMany({
+          where: { driverId, status: { in: OPEN_SHIFT_STATUSES }, endsAt: { gte: new Date() } },
+          include: { vehicle: { select: { id: true, make: true, model: true, color: true, licensePlate: true } } },
+          orderBy: { startsAt: "asc" },
+        }),
+      ])
+
+      return {
+        fleet: membership
+          ? {
+              ...membership.fleet,
+              operatorSharePercent: membership.operatorSharePercent ?? membership.fleet.operatorSharePercent,
+              joinedAt: membership.joinedAt,
+            }
+          : null,
+        invitations,
+        shifts,
+      }
+    } catch (error) {
+      logger.error("Get driver fleet error:", error)
+      throw error
+    }
+  }
+
+  async leaveFleet(driverId: string) {
+    try {
+      const membership = await prisma.fleetDriver.findFirst({ where: { driverId, status: "ACTIVE" } })
+      if (!membership) {
+        throw new Error("You are not in a fleet")
+      }
+
+      await this.endMembership(membership.id, membership.fleetId, driverId)
+      return { left: true }
+    } catch (error) {
+      logger.error("Leave fleet error:", error)
+      throw error
+    }
+  }
+
+  async getDrivers(ownerId: string, status?: FleetDriverStatus) {
+    try {
+      const fleet = await this.getFleetForOwner(ownerId)
+      return await prisma.fleetDriver.findMany({
+        where: { fleetId: fleet.id, ...(status ? { status } : { status: { not: "REMOVED" } }) },
+        include: {
+          driver: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              phone: true,
+              role: true,
+              driverProfile: { select: { rating: true, totalRides: true, isOnline: true, vehicleId: true } },
+              taxiDriverProfile: { select: { rating: true, totalRides: true, isOnline: true, vehicleId: true } },
+            },
+          },
+        },
+        orderBy: { invitedAt: "desc" },
+      })
+    } catch (error) {
+      logger.error("Get fleet drivers error:", error)
+      throw error
+    }
+  }
+
+  async updateDriver(ownerId: string, driverId: string, data: { operatorSharePercent: number | null }) {
+    try {
+      const fleet = await this.getFleetForOwner(ownerId)
+      const membership = await this.getMembership(fleet.id, driverId)
+
+      return await prisma.fleetDriver.update({
+        where: { id: membership.id },
+        data: { operatorSharePercent: data.operatorSharePercent },
+      })
+    } catch (error) {
+      logger.error("Update fleet driver error:", error)
+      throw error
+    }
+  }
+
+  async removeDriver(ownerId: string, driverId: string) {
+    try {
+      const fleet = await this.getFleetForOwner(ownerId)
+      const membership = await prisma.fleetDriver.findFirst({
+        where: { fleetId: fleet.id, driverId, status: { in: ["INVITED", "ACTIVE"] } },
+      })
+      if (!membership) {
+        throw new Error("Driver not found in fleet")
+      }
+
+      await this.endMembership(membership.id, fleet.id, driverId)
+      return { removed: true }
+    } catch (error) {
+      logger.error("Remove fleet driver error:", error)
+      throw error
+    }
+  }
+
+  async addVehicle(ownerId: string, data: FleetVehicleData) {
+    try {
+      const fleet = await this.getApprovedFleet(ownerId)
+
+      return await prisma.vehicle.create({
+        data: {
+          ...data,
+          fleetId: fleet.id,
+          isActive: true,
+          isVerified: false,
+        },
+      })
+    } catch (error) {
+      logger.error("Add fleet vehicle error:", error)
+      throw error
+    }
+  }
+
+  async getVehicles(ownerId: string) {
+    try {
+      const fleet = await this.getFleetForOwner(ownerId)
+      return await prisma.vehicle.findMany({
+        where: { fleetId: fleet.id },
+        include: {
+          fleetShifts: {
+            where: { status: "ACTIVE" },
+            select: { id: true, driverId: true, startsAt: true, endsAt: true },
+          },
+        },
+        orderBy: { licensePlate: "asc" },
+      })
+    } catch (error) {
+      logger.error("Get fleet vehicles error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Take the vehicle out of the fleet's rotation. Upcoming shifts on it are cancelled.
+   */
+  async deactivateVehicle(ownerId: string, vehicleId: string) {
+    try {
+      const fleet = await this.getFleetForOwner(ownerId)
+      const vehicle = await prisma.vehicle.findFirst({ where: { id: vehicleId, fleetId: fleet.id } })
+      if (!vehicle) {
+        throw new Error("Vehicle not found")
+      }
+
+      const activeShift = await prisma.fleetShift.findFirst({ where: { vehicleId, status: "ACTIVE" } })
+      if (activeShift) {
+        throw new Error("Vehicle is on an active shift")
+      }
+
+      await prisma.fleetShift.updateMany({
+        where: { vehicleId, status: "SCHEDULED" },
+        data: { status: "CANCELLED" },
+      })
+
+      return await prisma.vehicle.update({ where: { id: vehicleId }, data: { isActive: false } })
+    } catch (error) {
+      logger.error("Deactivate fleet vehicle error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Book a fleet vehicle for a driver. Neither the vehicle nor the driver can be on
+   * another open shift that overlaps.
+   */
+  async createShift(ownerId: string, data: { vehicleId: string; driverId: string; startsAt: Date; endsAt: Date }) {
+    try {
+      const fleet = await this.getApprovedFleet(ownerId)
+
+      if (data.endsAt <= data.startsAt) {
+        throw new Error("Shift must end after it starts")
+      }
+      if (data.endsAt <= new Date()) {
+        throw new Error("Shift has already ended")
+      }
+
+      const vehicle = await prisma.vehicle.findFirst({ where: { id: data.vehicleId, fleetId: fleet.id, isActive: true } })
+      if (!vehicle) {
+        throw new Error("Vehicle not found")
+      }
+
+      const membership = await prisma.fleetDriver.findFirst({
+        where: { fleetId: fleet.id, driverId: data.driverId, status: "ACTIVE" },
+      })
+      if (!membership) {
+        throw new Error("Driver is not an active member of your fleet")
+      }
+
+      const overlapping = await prisma.fleetShift.findFirst({
+        where: {
+          status: { in: OPEN_SHIFT_STATUSES },
+          startsAt: { lt: data.endsAt },
+          endsAt: { gt: data.startsAt },
+          OR: [{ vehicleId: data.vehicleId }, { driverId: data.driverId }],
+        },
+      })
+      if (overlapping) {
+        throw new Error(
+          overlapping.vehicleId === data.vehicleId
+            ? "Vehicle is already assigned for part of this time"
+            : "Driver already has a shift for part of this time",
+        )
+      }
+
+      const shift = await prisma.fleetShift.create({
+        data: { fleetId: fleet.id, ...data },
+        include: { vehicle: { select: { make: true, model: true, licensePlate: true } } },
+      })
+
+      await this.notificationService.notifyDriver(data.driverId, {
+        type: "FLEET_SHIFT_ASSIGNED",
+        title: "New Shift",
+        body: `You have been assigned ${shift.vehicle.make} ${shift.vehicle.model} (${shift.vehicle.licensePlate}) from ${data.startsAt.toISOString()}`,
+        data: { shiftId: shift.id, vehicleId: data.vehicleId, startsAt: data.startsAt, endsAt: data.endsAt },
+      })
+
+      return shift
+    } catch (error) {
+      logger.error("Create fleet shift error:", error)
+      throw error
+    }
+  }
+
+  async getShifts(
+    ownerId: string,
+    filters: { from?: Date; to?: Date; vehicleId?: string; driverId?: string; status?: FleetShiftStatus },
+  ) {
+    try {
+      const fleet = await this.getFleetForOwner(ownerId)
+      return await prisma.fleetShift.findMany({
+        where: {
+          fleetId: fleet.id,
+          vehicleId: filters.vehicleId,
+          driverId: filters.driverId,
+          status: filters.status,
+          ...(filters.from && { endsAt: { gte: filters.from } }),
+          ...(filters.to && { startsAt: { lte: filters.to } }),
+        },
+        include: {
+          vehicle: { select: { id: true, make: true, model: true, licensePlate: true } },
+          driver: { select: { id: true, firstName: true, lastName: true } },
+        },
+        orderBy: { startsAt: "asc" },
+      })
+    } catch (error) {
+      logger.error("Get fleet shifts error:", error)
+      throw error
+    }
+  }
+
+  async cancelShift(ownerId: string, shiftId: string) {
+    try {
+      const fleet = await this.getFleetForOwner(ownerId)
+      const cancelled = await prisma.fleetShift.updateMany({
+        where: { id: shiftId, fleetId: fleet.id, status: "SCHEDULED" },
+        data: { status: "CANCELLED" },
+      })
+      if (cancelled.count === 0) {
+        throw new Error("Only scheduled shifts can be cancelled")
+      }
+
+      return await prisma.fleetShift.findUnique({ where: { id: shiftId } })
+    } catch (error) {
+      logger.error("Cancel fleet shift error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * The driver picks up the shift's vehicle: it becomes the vehicle on their driver
+   * profile until the shift ends.
+   */
+  async startShift(driverId: string, shiftId: string) {
+    try {
+      const shift = await prisma.fleetShift.findFirst({ where: { id: shiftId, driverId } })
+      if (!shift) {
+        throw new Error("Shift not found")
+      }
+
+      const now = Date.now()
+      if (shift.status !== "SCHEDULED") {
+        throw new Error(`Shift is ${shift.status.toLowerCase()}`)
+      }
+      if (now < shift.startsAt.getTime() - SHIFT_EARLY_START_MS || now > shift.endsAt.getTime()) {
+        throw new Error("Shift can only be started during its scheduled time")
+      }
+
+      const claimed = await prisma.fleetShift.updateMany({
+        where: { id: shiftId, status: "SCHEDULED" },
+        data: { status: "ACTIVE", startedAt: new Date() },
+      })
+      if (claimed.count === 0) {
+        throw new Error("Shift has already been started")
+      }
+
+      await this.assignProfileVehicle(driverId, shift.vehicleId)
+      return await prisma.fleetShift.findUnique({ where: { id: shiftId }, include: { vehicle: true } })
+    } catch (error) {
+      logger.error("Start fleet shift error:", error)
+      throw error
+    }
+  }
+
+  async endShift(driverId: string, shiftId: string) {
+    try {
+      const ended = await prisma.fleetShift.updateMany({
+        where: { id: shiftId, driverId, status: "ACTIVE" },
+        data: { status: "COMPLETED", endedAt: new Date() },
+      })
+      if (ended.count === 0) {
+        throw new Error("No active shift found")
+      }
+
+      const shift = await prisma.fleetShift.findUnique({ where: { id: shiftId } })
+      await this.releaseProfileVehicle(driverId, shift!.vehicleId)
+      return shift
+    } catch (error) {
+      logger.error("End fleet shift error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Split a completed trip's provider earning between the driver and their fleet.
+   * Returns the driver's part, which is the whole earning for drivers outside a fleet.
+   */
+  async applyEarningsSplit(
+    driverId: string,
+    booking: { id: string; providerEarning: number; platformCommission: number; currency: string },
+  ): Promise<number> {
+    try {
+      const membership = await prisma.fleetDriver.findFirst({
+        where: { driverId, status: "ACTIVE", fleet: { isActive: true } },
+        include: { fleet: true },
+      })
+      if (!membership) return booking.providerEarning
+
+      const sharePercent = membership.operatorSharePercent ?? membership.fleet.operatorSharePercent
+      const operatorShare = Math.round(booking.providerEarning * sharePercent) / 100
+      const driverShare = Math.round((booking.providerEarning - operatorShare) * 100) / 100
+
+      const activeShift = await prisma.fleetShift.findFirst({
+        where: { driverId, fleetId: membership.fleetId, status: "ACTIVE" },
+        select: { vehicleId: true },
+      })
+
+      await prisma.fleetEarning.upsert({
+        where: { bookingId: booking.id },
+        create: {
+          fleetId: membership.fleetId,
+          driverId,
+          bookingId: booking.id,
+          vehicleId: activeShift?.vehicleId,
+          grossEarning: booking.providerEarning,
+          platformCommission: booking.platformCommission,
+          operatorSharePercent: sharePercent,
+          operatorShare,
+          driverShare,
+          currency: booking.currency,
+        },
+        update: {},
+      })
+
+      return driverShare
+    } catch (error) {
+      // Never block a trip from completing; the driver keeps the full earning
+      logger.error(`Fleet earnings split for booking ${booking.id} error:`, error)
+      return booking.providerEarning
+    }
+  }
+
+  private async getApprovedFleet(ownerId: string) {
+    const fleet = await this.getFleetForOwner(ownerId)
+    if (!fleet.isActive) {
+      throw new Error("Fleet is deactivated")
+    }
+    if (fleet.verificationStatus !== "APPROVED") {
+      throw new Error("Fleet is awaiting verification")
+    }
+    return fleet
+  }
+
+  private async getMembership(fleetId: string, driverId: string) {
+    const membership = await prisma.fleetDriver.findFirst({
+      where: { fleetId, driverId, status: { in: ["INVITED", "ACTIVE"] } },
+    })
+    if (!membership) {
+      throw new Error("Driver not found in fleet")
+    }
+    return membership
+  }
+
+  // Ends the membership along with the driver's shifts in the fleet
+  private async endMembership(membershipId: string, fleetId: string, driverId: string) {
+    const activeShift = await prisma.fleetShift.findFirst({ where: { fleetId, driverId, status: "ACTIVE" } })
+
+    await prisma.$transaction([
+      prisma.fleetDriver.update({ where: { id: membershipId }, data: { status: "REMOVED", removedAt: new Date() } }),
+      prisma.fleetShift.updateMany({ where: { fleetId, driverId, status: "SCHEDULED" }, data: { status: "CANCELLED" } }),
+      prisma.fleetShift.updateMany({
+        where: { fleetId, driverId, status: "ACTIVE" },
+        data: { status: "COMPLETED", endedAt: new Date() },
+      }),
+    ])
+
+    if (activeShift) {
+      await this.releaseProfileVehicle(driverId, activeShift.vehicleId)
+    }
+  }
+
+  private async assignProfileVehicle(driverId: string, vehicleId: string) {
+    await Promise.all([
+      prisma.driverProfile.updateMany({ where: { userId: driverId }, data: { vehicleId } }),
+      prisma.taxiDriverProfile.updateMany({ where: { userId: driverId }, data: { vehicleId } }),
+    ])
+  }
+
+  // Only unlinks the vehicle if the driver hasn't switched to another one since
+  private async releaseProfileVehicle(driverId: string, vehicleId: string) {
+    await Promise.all([
+      prisma.driverProfile.updateMany({ where: { userId: driverId, vehicleId }, data: { vehicleId: null } }),
+      prisma.taxiDriverProfile.updateMany({ where: { userId: driverId, vehicleId }, data: { vehicleId: null } }),
+    ])
+  }
+}
@@ -0,0 +1,224 @@
+import prisma from "../config/database"
+import { CacheService } from "./cache.service"
+import { LocationService } from "./location.service"
+import logger from "../utils/logger"
+
+export const GEO_INDEXES = {
+  DRIVERS: "drivers",
+  TAXI_DRIVERS: "taxi-drivers",
+  DISPATCH_RIDERS: "dispatch-riders",
+  RESPONDERS: "responders",
+  PLACES: "places",
+} as const
+
+export type GeoIndexName = (typeof GEO_INDEXES)[keyof typeof GEO_INDEXES]
+
+export interface GeoQuery {
+  latitude: number
+  longitude: number
+  radius: number // meters
+  limit?: number
+}
+
+interface IndexedPosition {
+  member: string
+  latitude: number
+  longitude: number
+}
+
+const KEY_PREFIX = "geo"
+// k-nearest searches fetch this many candidates per result they need, since some fail the filters
+const CANDIDATE_FACTOR = 3
+const MAX_CANDIDATES = 1000
+
+// Every row with a known position, keyed by user id (place id for places). Availability and
+// verification are checked against the database at query time, so the index only has to track positions.
+const sources: Record<GeoIndexName, () => Promise<IndexedPosition[]>> = {
+  [GEO_INDEXES.DRIVERS]: async () => {
+    const rows = await prisma.driverProfile.findMany({
+      where: { currentLatitude: { not: null }, currentLongitude: { not: null } },
+      select: { userId: true, currentLatitude: true, currentLongitude: true },
+    })
+    return rows.map((row) => ({ member: row.userId, latitude: row.currentLatitude!, longitude: row.currentLongitude! }))
+  },
+  [GEO_INDEXES.TAXI_DRIVERS]: async () => {
+    const rows = await prisma.taxiDriverProfile.findMany({
+      where: { currentLatitude: { not: null }, currentLongitude: { not: null } },
+      select: { userId: true, currentLatitude: true, currentLongitude: true },
+    })
+    return rows.map((row) => ({ member: row.userId, latitude: row.currentLatitude!, longitude: row.currentLongitude! }))
+  },
+  [GEO_INDEXES.DISPATCH_RIDERS]: async () => {
+    const rows = await prisma.deliveryProfile.findMany({
+      where: { currentLatitude: { not: null }, currentLongitude: { not: null } },
+      select: { userId: true, currentLatitude: true, currentLongitude: true },
+    })
+    return rows.map((row) => ({ member: row.userId, latitude: row.currentLatitude!, longitude: row.currentLongitude! }))
+  },
+  [GEO_INDEXES.RESPONDERS]: async () => {
+    const rows = await prisma.emergencyProfile.findMany({
+      where: { currentLatitude: { not: null }, currentLongitude: { not: null } },
+      select: { userId: true, currentLatitude: true, currentLongitude: true },
+    })
+    return rows.map((row) => ({ member: row.userId, latitude: row.currentLatitude!, longitude: row.currentLongitude! }))
+  },
+  [GEO_INDEXES.PLACES]: async () => {
+    const rows = await prisma.place.findMany({
+      where: { location: { isNot: null } },
+      select: { id: true, location: { select: { latitude: true, longitude: true } } },
+    })
+    return rows.map((row) => ({ member: row.id, latitude: row.location!.latitude, longitude: row.location!.longitude }))
+  },
+}
+
+/**
+ * Proximity index for drivers, riders, responders and places, stored as Redis GEO sets
+ * (in memory when Redis is not configured). Location update paths keep it current and
+ * rebuildAll() reloads it from the database on start-up and on a schedule. While Redis is
+ * down, searches scan the database instead.
+ */
+export class GeoIndexService {
+  private cacheService = new CacheService()
+  private locationService = new LocationService()
+  // Indexes that missed an update and must be reloaded before they are searched again
+  private staleIndexes = new Set<GeoIndexName>()
+
+  /**
+   * Record a new position. Never throws: a missed update marks the index for a rebuild.
+   */
+  async updatePosition(index: GeoIndexName, id: string, latitude?: number | null, longitude?: number | null) {
+    if (latitude == null || longitude == null) return
+
+    try {
+      await this.cacheService.geoAdd(this.key(index), id, latitude, longitude)
+    } catch (error) {
+      this.staleIndexes.add(index)
+      logger.warn(`Geo index ${index} update failed for ${id}:`, error)
+    }
+  }
+
+  async remove(index: GeoIndexName, id: string) {
+    try {
+      await this.cacheService.geoRemove(this.key(index), id)
+    } catch (error) {
+      this.staleIndexes.add(index)
+      logger.warn(`Geo index ${index} remove failed for ${id}:`, error)
+    }
+  }
+
+  /**
+   * Ids within the radius, nearest first, with their distance in meters
+   */
+  async search(index: GeoIndexName, query: GeoQuery): Promise<Map<string, number>> {
+    let results: { member: string; distance: number }[]
+
+    try {
+      if (this.staleIndexes.has(index)) {
+        await this.rebuild(index)
+      }
+
+      results = await this.cacheService.geoSearch(this.key(index), {
+        latitude: query.latitude,
+        longitude: query.longitude,
+        radius: query.radius,
+        count: query.limit,
+      })
+    } catch (error) {
+      // Answer from the database rather than fail the booking
+      logger.error(`Geo index ${index} search error, scanning database instead:`, error)
+      results = (await sources[index]())
+        .map((position) => ({
+          member: position.member,
+          distance: this.locationService.calculateDistance(
+            query.latitude,
+            query.longitude,
+            position.latitude,
+            position.longitude,
+          ),
+        }))
+        .filter((result) => result.distance <= query.radius)
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, query.limit)
+    }
+
+    return new Map(results.map((result) => [result.member, result.distance]))
+  }
+
+  /**
+   * k-nearest (or every match within the radius when no limit is given) among the rows the
+   * loader accepts. The loader applies the caller's filters to a batch of candidate ids;
+   * the batch grows until enough rows pass or the radius runs out of candidates.
+   */
+  async findNearest<T>(
+    index: GeoIndexName,
+    query: GeoQuery,
+    load: (ids: string[]) => Promise<T[]>,
+    getId: (row: T) => string,
+  ): Promise<Array<T & { distance: number }>> {
+    try {
+      let candidateCount = query.limit ? query.limit * CANDIDATE_FACTOR : undefined
+
+      while (true) {
+        const candidates = await this.search(index, { ...query, limit: candidateCount })
+        const rows = candidates.size > 0 ? await load([...candidates.keys()]) : []
+
+        const matches = rows
+          .map((row) => ({ ...row, distance: candidates.get(getId(row))! }))
+          .filter((row) => row.distance !== undefined)
+          .sort((a, b) => a.distance - b.distance)
+
+        const exhausted = !candidateCount || candidates.size < candidateCount || candidateCount >= MAX_CANDIDATES
+        if (exhausted || matches.length >= query.limit!) {
+          return query.limit ? matches.slice(0, query.limit) : matches
+        }
+
+        candidateCount = Math.min(candidateCount! * 2, MAX_CANDIDATES)
+      }
+    } catch (error) {
+      logger.error(`Geo index ${index} nearest search error:`, error)
+      throw error
+    }
+  }
+
+  /**
+   * Reload one index from the database. Drops entries for rows that were deleted or lost their position.
+   */
+  async rebuild(index: GeoIndexName): Promise<number> {
+    try {
+      // Cleared first so an update that fails during the reload marks the index again
+      this.staleIndexes.delete(index)
+      const positions = await sources[index]()
+      await this.cacheService.geoReplace(this.key(index), positions)
+      return positions.length
+    } catch (error) {
+      this.staleIndexes.add(index)
+      logger.error(`Rebuild geo index ${index} error:`, error)
+      throw error
+    }
+  }
+
+  async rebuildAll(): Promise<Record<GeoIndexName, number>> {
+    const counts = {} as Record<GeoIndexName, number>
+
+    for (const index of Object.values(GEO_INDEXES)) {
+      try {
+        counts[index] = await this.rebuild(index)
+      } catch {
+        counts[index] = -1
+      }
+    }
+
+    logger.info(
+      `Geo indexes rebuilt: ${Object.entries(counts)
+        .map(([index, count]) => `${index}=${count}`)
+        .join(", ")}`,
+    )
+    return counts
+  }
+
+  private key(index: GeoIndexName) {
+    return `${KEY_PREFIX}:${index}`
+  }
+}
+
+export const geoIndexService = new GeoIndexService()
@@ -0,0 +1,95 @@
+import sharp from "sharp"
+
+export type ImageType = "jpeg" | "png" | "webp" | "gif"
+export type RenditionName = "thumb" | "medium" | "full"
+export const RENDITION_NAMES: RenditionName[] = ["thumb", "medium", "full"]
+
+export interface ImageRendition {
+  name: RenditionName
+  buffer: Buffer
+  contentType: string
+  extension: string
+  width: number
+  height: number
+}
+
+// Each rendition is resized to fit inside these bounds, never enlarged
+export const RENDITION_BOUNDS: Record<Exclude<RenditionName, "full">, { width: number; height: number }> = {
+  thumb: { width: 200, height: 200 },
+  medium: { width: 800, height: 800 },
+}
+const DEFAULT_FULL_BOUNDS = { width: 2048, height: 2048 }
+// Rejects decompression bombs: a small file that decodes to an enormous bitmap
+const MAX_INPUT_PIXELS = 40_000_000
+
+export class ImageProcessingService {
+  /**
+   * Work out the real image type from the file's first bytes. The client's Content-Type
+   * and file name are not trusted.
+   */
+  detectType(buffer: Buffer): ImageType | null {
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+      return "jpeg"
+    }
+    if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+      return "png"
+    }
+    if (buffer.length >= 12 && buffer.toString("ascii", 0, 4) === "RIFF" && buffer.toString("ascii", 8, 12) === "WEBP") {
+      return "webp"
+    }
+    if (buffer.length >= 6 && ["GIF87a", "GIF89a"].includes(buffer.toString("ascii", 0, 6))) {
+      return "gif"
+    }
+    return null
+  }
+
+  /**
+   * Check the file is an image we can decode and pick the format its renditions are saved
+   * in: transparent images stay PNG, everything else becomes JPEG.
+   */
+  async getOutputFormat(buffer: Buffer): Promise<{ contentType: string; extension: string }> {
+    if (!this.detectType(buffer)) {
+      throw new Error("Unsupported image type. Upload a JPEG, PNG, WebP or GIF image.")
+    }
+
+    let metadata: sharp.Metadata
+    try {
+      metadata = await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).metadata()
+    } catch {
+      throw new Error("The image is corrupt or too large to process")
+    }
+
+    return metadata.hasAlpha ? { contentType: "image/png", extension: "png" } : { contentType: "image/jpeg", extension: "jpg" }
+  }
+
+  /**
+   * Encode the thumb, medium and full renditions. Images are turned upright from their EXIF
+   * orientation and then written without any metadata, which drops GPS coordinates, camera
+   * details and embedded thumbnails.
+   */
+  async createRenditions(buffer: Buffer, fullBounds?: { width?: number; height?: number }): Promise<ImageRendition[]> {
+    const format = await this.getOutputFormat(buffer)
+    const bounds = {
+      full: {
+        width: fullBounds?.width || DEFAULT_FULL_BOUNDS.width,
+        height: fullBounds?.height || fullBounds?.width || DEFAULT_FULL_BOUNDS.height,
+      },
+      ...RENDITION_BOUNDS,
+    }
+
+    return Promise.all(
+      RENDITION_NAMES.map(async (name) => {
+        const pipeline = sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS })
+          .rotate()
+          .resize({ ...bounds[name], fit: "inside", withoutEnlargement: true })
+
+        const { data, info } = await (format.extension === "png"
+          ? pipeline.png({ compressionLevel: 9 })
+          : pipeline.flatten({ background: "#ffffff" }).jpeg({ quality: name === "thumb" ? 70 : 82, mozjpeg: true })
+        ).toBuffer({ resolveWithObject: true })
+
+        return { name, buffer: data, ...format, width: info.width, height: info.height }
+      }),
+    )
+  }
+}
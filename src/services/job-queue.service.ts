@@ -0,0 +1,334 @@
+import os from "os"
+import { Prisma } from "@prisma/client"
+import type { Job, JobStatus } from "@prisma/client"
+import prisma from "../config/database"
+import logger from "../utils/logger"
+
+export type JobHandler = (payload: any, job: Job) => Promise<void>
+
+export interface EnqueueOptions {
+  runAt?: Date
+  delayMs?: number
+  maxAttempts?: number
+  // Only one waiting job can hold a key. Enqueueing with a key that is already waiting keeps the existing job.
+  dedupeKey?: string
+  // Move the waiting job with the same key to the new time and payload instead of keeping it
+  replace?: boolean
+}
+
+export const JOB_TYPES = {
+  BOOKING_DRIVER_TIMEOUT: "booking.driver-timeout",
+  BOOKING_SEARCH_EXPANSION: "booking.search-expansion",
+  PURCHASE_CONFIRMATION_EXPIRY: "purchase-confirmation.expiry",
+  DAY_BOOKING_REMINDER: "day-booking.reminder",
+  DAY_BOOKING_START: "day-booking.start",
+  DAY_BOOKING_STATUS_UPDATE: "day-booking.status-update",
+  DAY_BOOKING_COMPLETION: "day-booking.completion",
+  SCHEDULED_NOTIFICATION_DISPATCH: "scheduled-notification.dispatch",
+  NOTIFICATION_QUIET_HOURS_DELIVERY: "notification.quiet-hours-delivery",
+  EMERGENCY_ESCALATION: "emergency.escalation",
+  ANALYTICS_ROLLUP: "analytics.rollup",
+} as const
+
+const POLL_INTERVAL_MS = 5000
+const BATCH_SIZE = 10
+// Jobs locked longer than this belong to a worker that died mid-run
+const STALE_LOCK_MS = 10 * 60 * 1000
+const RETRY_BASE_DELAY_MS = 30 * 1000
+
+const handlers = new Map<string, JobHandler>()
+
+/**
+ * Postgres-backed delayed jobs. Jobs survive restarts and are claimed with
+ * FOR UPDATE SKIP LOCKED, so any number of instances can run the worker.
+ */
+export class JobQueueService {
+  private workerId = `${os.hostname()}:${process.pid}`
+  private timer: NodeJS.Timeout | null = null
+  private processing = false
+
+  registerHandler(type: string, handler: JobHandler) {
+    handlers.set(type, handler)
+  }
+
+  async enqueue(type: string, payload: Record<string, any> = {}, options: EnqueueOptions = {}): Promise<Job> {
+    try {
+      const data = {
+        type,
+        payload: payload as Prisma.InputJsonValue,
+        runAt: options.runAt || new Date(Date.now() + (options.delayMs || 0)),
+        maxAttempts: options.maxAttempts ?? 3,
+      }
+
+      if (!options.dedupeKey) {
+        return await prisma.job.create({ data })
+      }
+
+      try {
+        return await prisma.job.upsert({
+          where: { dedupeKey: options.dedupeKey },
+          create: { ...data, dedupeKey: options.dedupeKey },
+          update: options.replace ? { payload: data.payload, runAt: data.runAt, maxAttempts: data.maxAttempts } : {},
+        })
+      } catch (error) {
+        // Another instance enqueued the same key between the lookup and the insert
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          return (await prisma.job.findUnique({ where: { dedupeKey: options.dedupeKey } }))!
+        }
+        throw error
+      }
+    } catch (error) {
+      logger.error(`Enqueue ${type} job error:`, error)
+      throw error
+    }
+  }
+
+  /**
+   * Cancel the waiting job holding the key. Returns the number of jobs cancelled.
+   */
+  async cancel(dedupeKey: string): Promise<number> {
+    return this.cancelWhere({ dedupeKey })
+  }
+
+  /**
+   * Cancel every waiting job whose key starts with the prefix, e.g. all jobs for one booking
+   */
+  async cancelByPrefix(prefix: string): Promise<number> {
+    return this.cancelWhere({ dedupeKey: { startsWith: prefix } })
+  }
+
+  start() {
+    if (this.timer) return
+
+    this.timer = setInterval(() => {
+      void this.processDueJobs()
+    }, POLL_INTERVAL_MS)
+
+    logger.info(`Job worker ${this.workerId} started with ${handlers.size} handler(s)`)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async processDueJobs() {
+    if (this.processing) return
+    this.processing = true
+
+    try {
+      await this.recoverStaleJobs()
+
+      const jobs = await this.claimDueJobs()
+      for (const job of jobs) {
+        await this.runJob(job)
+      }
+    } catch (error) {
+      logger.error("Process due jobs error:", error)
+    } finally {
+      this.processing = false
+    }
+  }
+
+  async listJobs(filters: { status?: JobStatus; type?: string; page?: number; limit?: number } = {}) {
+    try {
+      const { status, type, page = 1, limit = 50 } = filters
+      const where: Prisma.JobWhereInput = {
+        ...(status && { status }),
+        ...(type && { type }),
+      }
+
+      const [jobs, total] = await Promise.all([
+        prisma.job.findMany({
+          where,
+          // Waiting jobs in the order they will run, finished jobs newest first
+          orderBy: status === "PENDING" ? { runAt: "asc" } : { updatedAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.job.count({ where }),
+      ])
+
+      return {
+        jobs,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }
+    } catch (error) {
+      logger.error("List jobs error:", error)
+      throw error
+    }
+  }
+
+  async getStats() {
+    try {
+      const [byTypeAndStatus, overdue] = await Promise.all([
+        prisma.job.groupBy({
+          by: ["type", "status"],
+          _count: { _all: true },
+        }),
+        // Waiting jobs well past their run time mean no worker is picking them up
+        prisma.job.count({
+          where: { status: "PENDING", runAt: { lt: new Date(Date.now() - 5 * 60 * 1000) } },
+        }),
+      ])
+
+      const byStatus: Record<string, number> = {}
+      const byType: Record<string, Record<string, number>> = {}
+
+      for (const row of byTypeAndStatus) {
+        byStatus[row.status] = (byStatus[row.status] || 0) + row._count._all
+        byType[row.type] = { ...byType[row.type], [row.status]: row._count._all }
+      }
+
+      return { byStatus, byType, overdue, registeredHandlers: [...handlers.keys()] }
+    } catch (error) {
+      logger.error("Get job stats error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Run a failed or cancelled job again with a fresh set of attempts
+   */
+  async retryJob(jobId: string): Promise<Job> {
+    try {
+      const job = await prisma.job.findUnique({ where: { id: jobId } })
+      if (!job) {
+        throw new Error("Job not found")
+      }
+
+      if (job.status !== "FAILED" && job.status !== "CANCELLED") {
+        throw new Error(`Only failed or cancelled jobs can be retried (current status: ${job.status})`)
+      }
+
+      return await prisma.job.update({
+        where: { id: jobId },
+        data: { status: "PENDING", runAt: new Date(), attempts: 0, cancelledAt: null, lockedAt: null, lockedBy: null },
+      })
+    } catch (error) {
+      logger.error("Retry job error:", error)
+      throw error
+    }
+  }
+
+  async cancelJob(jobId: string): Promise<Job> {
+    try {
+      const job = await prisma.job.findUnique({ where: { id: jobId } })
+      if (!job) {
+        throw new Error("Job not found")
+      }
+
+      if (job.status !== "PENDING") {
+        throw new Error(`Only pending jobs can be cancelled (current status: ${job.status})`)
+      }
+
+      await this.cancelWhere({ id: jobId })
+      return (await prisma.job.findUnique({ where: { id: jobId } }))!
+    } catch (error) {
+      logger.error("Cancel job error:", error)
+      throw error
+    }
+  }
+
+  private async cancelWhere(where: Prisma.JobWhereInput): Promise<number> {
+    try {
+      const result = await prisma.job.updateMany({
+        where: { ...where, status: "PENDING" },
+        data: { status: "CANCELLED", cancelledAt: new Date(), dedupeKey: null },
+      })
+      return result.count
+    } catch (error) {
+      logger.error("Cancel jobs error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Lock a batch of due jobs for this worker. The dedupe key is released on claim
+   * so a running job can schedule its own follow-up under the same key.
+   */
+  private async claimDueJobs(): Promise<Job[]> {
+    return prisma.$queryRaw<Job[]>`
+      UPDATE "jobs"
+      SET "status" = 'RUNNING', "lockedAt" = NOW(), "lockedBy" = ${this.workerId},
+          "dedupeKey" = NULL, "attempts" = "attempts" + 1, "updatedAt" = NOW()
+      WHERE "id" IN (
+        SELECT "id" FROM "jobs"
+        WHERE "status" = 'PENDING' AND "runAt" <= NOW()
+        ORDER BY "runAt"
+        LIMIT ${BATCH_SIZE}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `
+  }
+
+  private async runJob(job: Job) {
+    const handler = handlers.get(job.type)
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type ${job.type}`)
+      }
+
+      await handler(job.payload, job)
+
+      await prisma.job.updateMany({
+        where: { id: job.id, status: "RUNNING" },
+        data: { status: "COMPLETED", completedAt: new Date(), lockedAt: null, lockedBy: null },
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const willRetry = !!handler && job.attempts < job.maxAttempts
+
+      logger.error(`Job ${job.type} (${job.id}) attempt ${job.attempts}/${job.maxAttempts} failed:`, error)
+
+      await prisma.job.updateMany({
+        where: { id: job.id, status: "RUNNING" },
+        data: willRetry
+          ? {
+              status: "PENDING",
+              runAt: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)),
+              lastError: message,
+              lockedAt: null,
+              lockedBy: null,
+            }
+          : { status: "FAILED", lastError: message, lockedAt: null, lockedBy: null },
+      })
+    }
+  }
+
+  private async recoverStaleJobs() {
+    const staleBefore = new Date(Date.now() - STALE_LOCK_MS)
+    const stale = await prisma.job.findMany({
+      where: { status: "RUNNING", lockedAt: { lt: staleBefore } },
+      select: { id: true, attempts: true, maxAttempts: true },
+    })
+
+    for (const job of stale) {
+      const exhausted = job.attempts >= job.maxAttempts
+      await prisma.job.updateMany({
+        where: { id: job.id, status: "RUNNING" },
+        data: {
+          status: exhausted ? "FAILED" : "PENDING",
+          lastError: "Worker stopped while the job was running",
+          lockedAt: null,
+          lockedBy: null,
+        },
+      })
+    }
+
+    if (stale.length > 0) {
+      logger.warn(`Recovered ${stale.length} job(s) left running by a stopped worker`)
+    }
+  }
+}
+
+export const jobQueueService = new JobQueueService()
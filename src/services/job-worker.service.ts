@@ -0,0 +1,80 @@
+import { DayBookingService } from "./day-booking.service"
+import { DriverMatchingService } from "./driver-matching.service"
+import { EmergencyService } from "./emergency.service"
+import { PurchaseConfirmationService } from "./purchase-confirmation.service"
+import { ScheduledNotificationService } from "./scheduled-notification.service"
+import { NotificationService } from "./notification.service"
+import { AnalyticsRollupService } from "./analytics-rollup.service"
+import { JOB_TYPES, jobQueueService } from "./job-queue.service"
+
+/**
+ * Register the handlers for every queued job type and start polling for due jobs
+ */
+export function startJobWorker() {
+  const driverMatchingService = new DriverMatchingService()
+  const dayBookingService = new DayBookingService()
+  const purchaseConfirmationService = new PurchaseConfirmationService()
+  const scheduledNotificationService = new ScheduledNotificationService()
+  const notificationService = new NotificationService()
+  const emergencyService = new EmergencyService()
+  const analyticsRollupService = new AnalyticsRollupService()
+
+  // Re-notify or give up on a booking no driver has accepted
+  jobQueueService.registerHandler(JOB_TYPES.BOOKING_DRIVER_TIMEOUT, async ({ bookingId }) => {
+    await driverMatchingService.handleBookingTimeout(bookingId)
+  })
+
+  jobQueueService.registerHandler(JOB_TYPES.BOOKING_SEARCH_EXPANSION, async ({ bookingId }) => {
+    await driverMatchingService.expandBookingSearch(bookingId)
+  })
+
+  // Cancel and refund orders the store did not confirm in time
+  jobQueueService.registerHandler(JOB_TYPES.PURCHASE_CONFIRMATION_EXPIRY, async ({ confirmationId }) => {
+    await purchaseConfirmationService.expireConfirmation(confirmationId)
+  })
+
+  // Day booking lifecycle
+  jobQueueService.registerHandler(JOB_TYPES.DAY_BOOKING_REMINDER, async ({ bookingId, reminderType }) => {
+    await dayBookingService.sendBookingReminder(bookingId, reminderType)
+  })
+
+  jobQueueService.registerHandler(JOB_TYPES.DAY_BOOKING_START, async ({ bookingId }) => {
+    await dayBookingService.handleBookingStart(bookingId)
+  })
+
+  jobQueueService.registerHandler(
+    JOB_TYPES.DAY_BOOKING_STATUS_UPDATE,
+    async ({ bookingId, updateNumber, totalUpdates }) => {
+      await dayBookingService.sendPeriodicStatusUpdate(bookingId, updateNumber, totalUpdates)
+    },
+  )
+
+  jobQueueService.registerHandler(JOB_TYPES.DAY_BOOKING_COMPLETION, async ({ bookingId }) => {
+    await dayBookingService.handleBookingCompletion(bookingId)
+  })
+
+  // Widen the search for an emergency nobody has accepted
+  jobQueueService.registerHandler(JOB_TYPES.EMERGENCY_ESCALATION, async ({ bookingId, step }) => {
+    await emergencyService.escalateDispatch(bookingId, step)
+  })
+
+  // Send the next throttled batch of a scheduled broadcast
+  jobQueueService.registerHandler(JOB_TYPES.SCHEDULED_NOTIFICATION_DISPATCH, async ({ scheduledNotificationId }) => {
+    await scheduledNotificationService.dispatchBatch(scheduledNotificationId)
+  })
+
+  // Push and SMS that quiet hours held back
+  jobQueueService.registerHandler(
+    JOB_TYPES.NOTIFICATION_QUIET_HOURS_DELIVERY,
+    async ({ userId, notificationId, notification }) => {
+      await notificationService.deliverAfterQuietHours(userId, notificationId, notification)
+    },
+  )
+
+  // Rebuild one day of KPI rollups, queued by an admin backfill
+  jobQueueService.registerHandler(JOB_TYPES.ANALYTICS_ROLLUP, async ({ date }) => {
+    await analyticsRollupService.rollupDay(new Date(date))
+  })
+
+  jobQueueService.start()
+}
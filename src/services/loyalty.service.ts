@@ -1,6 +1,8 @@
+import type { LoyaltyRewardCategory, LoyaltyTransactionType, Prisma, PromoType } from "@prisma/client"
 import prisma from "../config/database"
 import { NotificationService } from "./notification.service"
 import { AnalyticsService } from "./analytics.service"
+import { PromotionService } from "./promotion.service"
 import logger from "../utils/logger"
 
 interface LoyaltyPoints {
@@ -25,60 +27,22 @@ interface RewardItem {
   tierRequirement?: string
 }
 
-interface LoyaltyTransaction {
-  id: string
-  userId: string
-  type: "EARNED" | "SPENT" | "EXPIRED" | "BONUS" | "PENALTY"
-  points: number
-  description: string
-  bookingId?: string
-  rewardId?: string
-  expiresAt?: Date
-  createdAt: Date
-}
-
-interface MockLoyaltyTransaction {
-  userId: string
-  type: "EARNED" | "SPENT" | "EXPIRED" | "BONUS" | "PENALTY"
-  points: number
-  description: string
-  bookingId?: string
-  rewardId?: string
-  expiresAt?: Date
-  createdAt: Date
-}
-
-interface MockLoyaltyReward {
-  id: string
+export interface LoyaltyRewardData {
   name: string
   description: string
   pointsCost: number
-  category: string
+  category: LoyaltyRewardCategory
   value: number
-  isActive: boolean
-  expiryDays?: number | null
-  usageLimit?: number | null
-  tierRequirement?: string | null
-}
-
-interface MockRewardRedemption {
-  userId: string
-  rewardId: string
-  rewardCode: string
-  pointsSpent: number
-  status: string
-  expiresAt?: Date | null
-  reward: MockLoyaltyReward
+  isActive?: boolean
+  expiryDays?: number
+  usageLimit?: number
+  tierRequirement?: string
 }
 
 export class LoyaltyService {
   private notificationService = new NotificationService()
   private analyticsService = new AnalyticsService()
-
-  // Memory storage for missing models
-  private loyaltyTransactions: MockLoyaltyTransaction[] = []
-  private loyaltyRewards: MockLoyaltyReward[] = []
-  private rewardRedemptions: MockRewardRedemption[] = []
+  private promotionService = new PromotionService()
 
   private readonly TIER_THRESHOLDS = {
     BRONZE: 0,
@@ -97,39 +61,7 @@ export class LoyaltyService {
   }
 
   private readonly POINTS_EXPIRY_DAYS = 365 // Points expire after 1 year
-
-  constructor() {
-    this.initializeDefaultRewards()
-  }
-
-  private initializeDefaultRewards() {
-    this.loyaltyRewards = [
-      {
-        id: "1",
-        name: "10% Discount",
-        description: "Get 10% off your next ride",
-        pointsCost: 500,
-        category: "DISCOUNT",
-        value: 10,
-        isActive: true,
-        expiryDays: 30,
-        usageLimit: 1,
-        tierRequirement: null,
-      },
-      {
-        id: "2",
-        name: "Free Ride",
-        description: "Get a free ride up to ₦2000",
-        pointsCost: 2000,
-        category: "FREE_RIDE",
-        value: 2000,
-        isActive: true,
-        expiryDays: 60,
-        usageLimit: 1,
-        tierRequirement: "SILVER",
-      },
-    ]
-  }
+  private readonly TIER_WINDOW_DAYS = 365 // Tier is based on points earned over a rolling year
 
   /**
    * Calculate and award points for a completed booking
@@ -157,9 +89,23 @@ export class LoyaltyService {
       }
 
       const userId = booking.customerId
+
+      // Completion hooks can fire more than once for the same booking
+      const alreadyAwarded = await prisma.loyaltyTransaction.findFirst({
+        where: { userId, bookingId, type: "EARNED" },
+      })
+      if (alreadyAwarded) {
+        return {
+          pointsEarned: 0,
+          bonusPoints: 0,
+          newBalance: booking.customer.customerProfile?.loyaltyPoints || 0,
+          tierUpdated: false,
+        }
+      }
+
       const finalPrice = booking.finalPrice || booking.estimatedPrice || 0
 
-      // Calculate base points (1 point per ₦10 spent)
+      // Calculate base points (1 point per GH₵10 spent)
       const basePoints = Math.floor(finalPrice / 10)
 
       // Get current tier and multiplier
@@ -181,30 +127,41 @@ export class LoyaltyService {
       const totalBonusPoints = tierBonusPoints + serviceBonusPoints + streakBonusPoints + timeBonusPoints
       const totalPointsEarned = basePoints + totalBonusPoints
 
-      // Award points
-      await this.addLoyaltyTransaction({
-        userId,
-        type: "EARNED",
-        points: totalPointsEarned,
-        description: `Points earned from ${booking.serviceType.displayName} booking`,
-        bookingId,
-        expiresAt: new Date(Date.now() + this.POINTS_EXPIRY_DAYS * 24 * 60 * 60 * 1000),
-        createdAt: new Date(),
-      })
+      if (totalPointsEarned <= 0) {
+        return {
+          pointsEarned: 0,
+          bonusPoints: 0,
+          newBalance: booking.customer.customerProfile?.loyaltyPoints || 0,
+          tierUpdated: false,
+        }
+      }
 
-      // Update customer profile
-      const updatedProfile = await prisma.customerProfile.update({
-        where: { userId },
-        data: {
-          loyaltyPoints: {
-            increment: totalPointsEarned,
+      // Award points and update customer profile together
+      const [, updatedProfile] = await prisma.$transaction([
+        prisma.loyaltyTransaction.create({
+          data: {
+            userId,
+            type: "EARNED",
+            points: totalPointsEarned,
+            remainingPoints: totalPointsEarned,
+            description: `Points earned from ${booking.serviceType.displayName} booking`,
+            bookingId,
+            expiresAt: this.pointsExpiryDate(),
           },
-        },
-      })
+        }),
+        prisma.customerProfile.update({
+          where: { userId },
+          data: {
+            loyaltyPoints: {
+              increment: totalPointsEarned,
+            },
+          },
+        }),
+      ])
 
-      // Check for tier upgrade
-      const newTier = this.calculateTier(updatedProfile.loyaltyPoints)
-      const tierUpdated = newTier !== currentTier
+      // Upgrades apply straight away, downgrades wait for the nightly recalculation
+      const newTier = this.calculateTier(await this.getQualifyingPoints(userId))
+      const tierUpdated = this.tierRank(newTier) > this.tierRank(currentTier)
 
       if (tierUpdated) {
         await this.processTierUpgrade(userId, currentTier, newTier)
@@ -218,7 +175,7 @@ export class LoyaltyService {
         data: {
           pointsEarned: totalPointsEarned,
           newBalance: updatedProfile.loyaltyPoints,
-          tier: newTier,
+          tier: tierUpdated ? newTier : currentTier,
         },
         priority: "STANDARD",
       })
@@ -232,7 +189,7 @@ export class LoyaltyService {
           basePoints,
           bonusPoints: totalBonusPoints,
           totalPoints: totalPointsEarned,
-          tier: newTier,
+          tier: tierUpdated ? newTier : currentTier,
           tierUpdated,
         },
         timestamp: new Date(),
@@ -265,22 +222,26 @@ export class LoyaltyService {
       }
 
       const balance = customerProfile.loyaltyPoints
-      const tier = this.calculateTier(balance)
+      const tier = this.toTier(customerProfile.loyaltyTier)
       const nextTier = this.getNextTier(tier)
-      const nextTierPoints = nextTier ? this.TIER_THRESHOLDS[nextTier] - balance : 0
-
-      // Get points breakdown from memory storage
-      const transactions = this.loyaltyTransactions.filter((t) => t.userId === userId)
 
-      const earned = transactions
-        .filter((t: MockLoyaltyTransaction) => t.type === "EARNED" || t.type === "BONUS")
-        .reduce((sum: number, t: MockLoyaltyTransaction) => sum + t.points, 0)
+      const [earnedTotals, spentTotals, qualifyingPoints] = await Promise.all([
+        prisma.loyaltyTransaction.aggregate({
+          where: { userId, type: { in: ["EARNED", "BONUS"] } },
+          _sum: { points: true },
+        }),
+        prisma.loyaltyTransaction.aggregate({
+          where: { userId, type: "SPENT" },
+          _sum: { points: true },
+        }),
+        this.getQualifyingPoints(userId),
+      ])
 
-      const spent = transactions.filter((t) => t.type === "SPENT").reduce((sum, t) => sum + Math.abs(t.points), 0)
+      const nextTierPoints = nextTier ? this.TIER_THRESHOLDS[nextTier] - qualifyingPoints : 0
 
       return {
-        earned,
-        spent,
+        earned: earnedTotals._sum.points || 0,
+        spent: Math.abs(spentTotals._sum.points || 0),
         balance,
         tier,
         nextTierPoints: Math.max(0, nextTierPoints),
@@ -293,25 +254,78 @@ export class LoyaltyService {
   }
 
   /**
-   * Get available rewards
+   * Get the user's points ledger, newest first
+   */
+  async getPointsHistory(
+    userId: string,
+    options: { page?: number; limit?: number; type?: LoyaltyTransactionType } = {},
+  ) {
+    try {
+      const { page = 1, limit = 20, type } = options
+      const where: Prisma.LoyaltyTransactionWhereInput = { userId }
+      if (type) where.type = type
+
+      const [transactions, total] = await Promise.all([
+        prisma.loyaltyTransaction.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.loyaltyTransaction.count({ where }),
+      ])
+
+      return {
+        transactions,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }
+    } catch (error) {
+      logger.error("Get points history error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the reward catalog. Customers only see active rewards.
+   */
+  async getRewardCatalog(options: { includeInactive?: boolean } = {}) {
+    try {
+      return await prisma.loyaltyReward.findMany({
+        where: options.includeInactive ? {} : { isActive: true },
+        orderBy: { pointsCost: "asc" },
+      })
+    } catch (error) {
+      logger.error("Get reward catalog error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Get rewards the user can redeem right now
    */
   async getAvailableRewards(userId: string): Promise<RewardItem[]> {
     try {
       const loyaltyStatus = await this.getLoyaltyStatus(userId)
+      const catalog = await this.getRewardCatalog()
 
-      const rewards = this.loyaltyRewards.filter(
+      const rewards = catalog.filter(
         (reward) =>
-          reward.isActive &&
           reward.pointsCost <= loyaltyStatus.balance &&
-          (!reward.tierRequirement || reward.tierRequirement === loyaltyStatus.tier),
+          (!reward.tierRequirement ||
+            this.tierRank(loyaltyStatus.tier) >= this.tierRank(this.toTier(reward.tierRequirement))),
       )
 
-      return rewards.map((reward: MockLoyaltyReward) => ({
+      return rewards.map((reward) => ({
         id: reward.id,
         name: reward.name,
         description: reward.description,
         pointsCost: reward.pointsCost,
-        category: reward.category as any,
+        category: reward.category,
         value: reward.value,
         isActive: reward.isActive,
         expiryDays: reward.expiryDays || undefined,
@@ -324,8 +338,47 @@ export class LoyaltyService {
     }
   }
 
+  async createReward(data: LoyaltyRewardData) {
+    try {
+      this.validateReward(data)
+
+      const existing = await prisma.loyaltyReward.findUnique({ where: { name: data.name } })
+      if (existing) {
+        throw new Error("A reward with this name already exists")
+      }
+
+      const reward = await prisma.loyaltyReward.create({ data })
+      logger.info(`Loyalty reward created: ${reward.name} (${reward.category})`)
+      return reward
+    } catch (error) {
+      logger.error("Create loyalty reward error:", error)
+      throw error
+    }
+  }
+
+  async updateReward(rewardId: string, data: Partial<LoyaltyRewardData>) {
+    try {
+      const reward = await prisma.loyaltyReward.findUnique({ where: { id: rewardId } })
+      if (!reward) {
+        throw new Error("Reward not found")
+      }
+
+      this.validateReward({ ...reward, ...data } as LoyaltyRewardData)
+
+      // Codes already issued keep the terms they were redeemed under
+      return await prisma.loyaltyReward.update({
+        where: { id: rewardId },
+        data,
+      })
+    } catch (error) {
+      logger.error("Update loyalty reward error:", error)
+      throw error
+    }
+  }
+
   /**
-   * Redeem a reward
+   * Redeem a reward. Discount-type rewards are issued as a single-use promo code
+   * restricted to the user, so the code can be applied to a booking or order.
    */
   async redeemReward(
     userId: string,
@@ -337,7 +390,7 @@ export class LoyaltyService {
     newBalance: number
   }> {
     try {
-      const reward = this.loyaltyRewards.find((r) => r.id === rewardId)
+      const reward = await prisma.loyaltyReward.findUnique({ where: { id: rewardId } })
       const loyaltyStatus = await this.getLoyaltyStatus(userId)
 
       if (!reward || !reward.isActive) {
@@ -348,20 +401,18 @@ export class LoyaltyService {
         throw new Error("Insufficient points")
       }
 
-      if (reward.tierRequirement && reward.tierRequirement !== loyaltyStatus.tier) {
-        const tierIndex = Object.keys(this.TIER_THRESHOLDS).indexOf(loyaltyStatus.tier)
-        const requiredTierIndex = Object.keys(this.TIER_THRESHOLDS).indexOf(reward.tierRequirement)
-
-        if (tierIndex < requiredTierIndex) {
-          throw new Error("Tier requirement not met")
-        }
+      if (
+        reward.tierRequirement &&
+        this.tierRank(loyaltyStatus.tier) < this.tierRank(this.toTier(reward.tierRequirement))
+      ) {
+        throw new Error("Tier requirement not met")
       }
 
       // Check usage limit
       if (reward.usageLimit) {
-        const usageCount = this.loyaltyTransactions.filter(
-          (t) => t.userId === userId && t.rewardId === rewardId && t.type === "SPENT",
-        ).length
+        const usageCount = await prisma.rewardRedemption.count({
+          where: { userId, rewardId, status: { not: "CANCELLED" } },
+        })
 
         if (usageCount >= reward.usageLimit) {
           throw new Error("Usage limit exceeded")
@@ -369,51 +420,79 @@ export class LoyaltyService {
       }
 
       // Generate reward code
-      const rewardCode = this.generateRewardCode(reward.category as any)
+      const rewardCode = this.generateRewardCode(reward.category)
       const expiresAt = reward.expiryDays ? new Date(Date.now() + reward.expiryDays * 24 * 60 * 60 * 1000) : undefined
+      const promo = this.getRewardPromotion(reward)
 
-      // Deduct points
-      await this.addLoyaltyTransaction({
-        userId,
-        type: "SPENT",
-        points: -reward.pointsCost,
-        description: `Redeemed: ${reward.name}`,
-        rewardId,
-        expiresAt,
-        createdAt: new Date(),
-      })
+      const { newBalance } = await prisma.$transaction(async (tx) => {
+        // Conditional decrement so two concurrent redemptions cannot overdraw the balance
+        const debited = await tx.customerProfile.updateMany({
+          where: { userId, loyaltyPoints: { gte: reward.pointsCost } },
+          data: { loyaltyPoints: { decrement: reward.pointsCost } },
+        })
+        if (debited.count === 0) {
+          throw new Error("Insufficient points")
+        }
 
-      // Update customer profile
-      const updatedProfile = await prisma.customerProfile.update({
-        where: { userId },
-        data: {
-          loyaltyPoints: {
-            decrement: reward.pointsCost,
+        await this.consumePoints(tx, userId, reward.pointsCost)
+
+        const campaign = promo
+          ? await this.promotionService.createCampaign(
+              {
+                name: `Loyalty reward: ${reward.name}`,
+                description: reward.description,
+                code: rewardCode,
+                type: promo.type,
+                value: reward.value,
+                serviceTypes: promo.serviceTypes,
+                usageLimit: 1,
+                perUserLimit: 1,
+                validUntil: expiresAt,
+                userId,
+              },
+              undefined,
+              tx,
+            )
+          : null
+
+        const redemption = await tx.rewardRedemption.create({
+          data: {
+            userId,
+            rewardId,
+            rewardCode,
+            pointsSpent: reward.pointsCost,
+            expiresAt,
+            promoCampaignId: campaign?.id,
           },
-        },
-      })
+        })
 
-      // Store redemption
-      this.rewardRedemptions.push({
-        userId,
-        rewardId,
-        rewardCode,
-        pointsSpent: reward.pointsCost,
-        status: "ACTIVE",
-        expiresAt,
-        reward,
+        await tx.loyaltyTransaction.create({
+          data: {
+            userId,
+            type: "SPENT",
+            points: -reward.pointsCost,
+            description: `Redeemed: ${reward.name}`,
+            rewardId,
+            redemptionId: redemption.id,
+          },
+        })
+
+        const profile = await tx.customerProfile.findUniqueOrThrow({ where: { userId } })
+        return { newBalance: profile.loyaltyPoints }
       })
 
       // Send notification
       await this.notificationService.notifyCustomer(userId, {
         type: "REWARD_REDEEMED",
         title: "Reward Redeemed! 🎁",
-        body: `You've successfully redeemed ${reward.name}`,
+        body: promo
+          ? `You've successfully redeemed ${reward.name}. Use code ${rewardCode} at checkout.`
+          : `You've successfully redeemed ${reward.name}`,
         data: {
           rewardName: reward.name,
           rewardCode,
           pointsSpent: reward.pointsCost,
-          newBalance: updatedProfile.loyaltyPoints,
+          newBalance,
         },
         priority: "STANDARD",
       })
@@ -436,7 +515,7 @@ export class LoyaltyService {
         success: true,
         rewardCode,
         expiresAt,
-        newBalance: updatedProfile.loyaltyPoints,
+        newBalance,
       }
     } catch (error) {
       logger.error("Redeem reward error:", error)
@@ -444,6 +523,188 @@ export class LoyaltyService {
     }
   }
 
+  /**
+   * Get the user's redeemed rewards
+   */
+  async getRedemptions(userId: string, options: { page?: number; limit?: number; status?: string } = {}) {
+    try {
+      const { page = 1, limit = 20, status } = options
+      const where: any = { userId }
+      if (status) where.status = status
+
+      const [redemptions, total] = await Promise.all([
+        prisma.rewardRedemption.findMany({
+          where,
+          include: { reward: true },
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.rewardRedemption.count({ where }),
+      ])
+
+      return {
+        redemptions,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }
+    } catch (error) {
+      logger.error("Get reward redemptions error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Expire point lots past their expiry date and reward codes that were never used.
+   * Runs as a scheduled job.
+   */
+  async expirePoints(): Promise<{ pointsExpired: number; usersAffected: number; redemptionsExpired: number }> {
+    try {
+      const now = new Date()
+      const lots = await prisma.loyaltyTransaction.findMany({
+        where: { remainingPoints: { gt: 0 }, expiresAt: { lte: now } },
+        orderBy: { expiresAt: "asc" },
+      })
+
+      const expiredByUser = new Map<string, number>()
+
+      for (const lot of lots) {
+        const expired = await prisma.$transaction(async (tx) => {
+          // Skip lots a concurrent redemption has consumed since we read them
+          const claimed = await tx.loyaltyTransaction.updateMany({
+            where: { id: lot.id, remainingPoints: lot.remainingPoints },
+            data: { remainingPoints: 0 },
+          })
+          if (claimed.count === 0) {
+            return 0
+          }
+
+          const profile = await tx.customerProfile.findUnique({ where: { userId: lot.userId } })
+          const points = Math.min(lot.remainingPoints, profile?.loyaltyPoints || 0)
+
+          await tx.loyaltyTransaction.create({
+            data: {
+              userId: lot.userId,
+              type: "EXPIRED",
+              points: -lot.remainingPoints,
+              description: `Points expired from ${lot.createdAt.toISOString().split("T")[0]}`,
+              bookingId: lot.bookingId,
+            },
+          })
+
+          if (points > 0) {
+            await tx.customerProfile.update({
+              where: { userId: lot.userId },
+              data: { loyaltyPoints: { decrement: points } },
+            })
+          }
+
+          return lot.remainingPoints
+        })
+
+        if (expired > 0) {
+          expiredByUser.set(lot.userId, (expiredByUser.get(lot.userId) || 0) + expired)
+        }
+      }
+
+      for (const [userId, points] of expiredByUser) {
+        await this.notificationService.notifyCustomer(userId, {
+          type: "LOYALTY_POINTS",
+          title: "Loyalty points expired",
+          body: `${points} loyalty points expired after ${this.POINTS_EXPIRY_DAYS} days.`,
+          data: { pointsExpired: points },
+          priority: "STANDARD",
+        })
+      }
+
+      // Unused reward codes past their expiry
+      const staleRedemptions = await prisma.rewardRedemption.findMany({
+        where: { status: "ACTIVE", expiresAt: { lte: now } },
+        select: { id: true, promoCampaignId: true },
+      })
+
+      if (staleRedemptions.length > 0) {
+        const campaignIds = staleRedemptions
+          .map((redemption) => redemption.promoCampaignId)
+          .filter((id): id is string => !!id)
+
+        await prisma.$transaction([
+          prisma.rewardRedemption.updateMany({
+            where: { id: { in: staleRedemptions.map((redemption) => redemption.id) }, status: "ACTIVE" },
+            data: { status: "EXPIRED" },
+          }),
+          prisma.promoCampaign.updateMany({
+            where: { id: { in: campaignIds } },
+            data: { isActive: false },
+          }),
+        ])
+      }
+
+      const pointsExpired = Array.from(expiredByUser.values()).reduce((sum, points) => sum + points, 0)
+
+      return {
+        pointsExpired,
+        usersAffected: expiredByUser.size,
+        redemptionsExpired: staleRedemptions.length,
+      }
+    } catch (error) {
+      logger.error("Expire loyalty points error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Recalculate every customer's tier from points earned over the rolling window.
+   * Runs as a scheduled job; upgrades get the usual bonus, downgrades are silent.
+   */
+  async recalculateTiers(): Promise<{ upgraded: number; downgraded: number }> {
+    try {
+      const since = new Date(Date.now() - this.TIER_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+      const [earnedByUser, profiles] = await Promise.all([
+        prisma.loyaltyTransaction.groupBy({
+          by: ["userId"],
+          where: { type: "EARNED", createdAt: { gte: since } },
+          _sum: { points: true },
+        }),
+        prisma.customerProfile.findMany({
+          select: { userId: true, loyaltyTier: true },
+        }),
+      ])
+
+      const earned = new Map(earnedByUser.map((row) => [row.userId, row._sum.points || 0]))
+      let upgraded = 0
+      let downgraded = 0
+
+      for (const profile of profiles) {
+        const currentTier = this.toTier(profile.loyaltyTier)
+        const newTier = this.calculateTier(earned.get(profile.userId) || 0)
+
+        if (newTier === currentTier) continue
+
+        if (this.tierRank(newTier) > this.tierRank(currentTier)) {
+          await this.processTierUpgrade(profile.userId, currentTier, newTier)
+          upgraded++
+        } else {
+          await prisma.customerProfile.update({
+            where: { userId: profile.userId },
+            data: { loyaltyTier: newTier, loyaltyTierUpdatedAt: new Date() },
+          })
+          downgraded++
+        }
+      }
+
+      return { upgraded, downgraded }
+    } catch (error) {
+      logger.error("Recalculate loyalty tiers error:", error)
+      throw error
+    }
+  }
+
   /**
    * Get loyalty analytics
    */
@@ -465,31 +726,35 @@ export class LoyaltyService {
         }
       }
 
-      const [profiles] = await Promise.all([
+      const [profiles, earnedTotals, spentTotals, expiredTotals, redemptionCounts] = await Promise.all([
         prisma.customerProfile.findMany({
           where: { loyaltyPoints: { gt: 0 } },
+          select: { loyaltyPoints: true, loyaltyTier: true },
+        }),
+        prisma.loyaltyTransaction.aggregate({
+          where: { ...where, type: { in: ["EARNED", "BONUS"] } },
+          _sum: { points: true },
+        }),
+        prisma.loyaltyTransaction.aggregate({
+          where: { ...where, type: "SPENT" },
+          _sum: { points: true },
+        }),
+        prisma.loyaltyTransaction.aggregate({
+          where: { ...where, type: "EXPIRED" },
+          _sum: { points: true },
+        }),
+        prisma.rewardRedemption.groupBy({
+          by: ["rewardId"],
+          where,
+          _count: { _all: true },
+          orderBy: { _count: { rewardId: "desc" } },
+          take: 10,
         }),
       ])
 
-      // Filter transactions by date range
-      const transactions = this.loyaltyTransactions.filter((t) => {
-        if (!dateRange) return true
-        return t.createdAt >= dateRange.from && t.createdAt <= dateRange.to
-      })
-
-      const redemptions = this.rewardRedemptions.filter((r) => {
-        if (!dateRange) return true
-        // Assuming createdAt exists on redemptions
-        return true // Simplified for now
-      })
-
-      const totalPointsEarned = transactions
-        .filter((t: MockLoyaltyTransaction) => t.type === "EARNED" || t.type === "BONUS")
-        .reduce((sum: number, t: MockLoyaltyTransaction) => sum + t.points, 0)
-
-      const totalPointsSpent = transactions
-        .filter((t) => t.type === "SPENT")
-        .reduce((sum, t) => sum + Math.abs(t.points), 0)
+      const totalPointsEarned = earnedTotals._sum.points || 0
+      const totalPointsSpent = Math.abs(spentTotals._sum.points || 0)
+      const totalPointsExpired = Math.abs(expiredTotals._sum.points || 0)
 
       const activeUsers = profiles.length
 
@@ -502,38 +767,27 @@ export class LoyaltyService {
         DIAMOND: 0,
       }
 
-      profiles.forEach((profile: any) => {
-        const tier = this.calculateTier(profile.loyaltyPoints)
-        tierDistribution[tier]++
+      profiles.forEach((profile) => {
+        tierDistribution[this.toTier(profile.loyaltyTier)]++
       })
 
       // Top rewards
-      const rewardCounts = new Map<string, { name: string; count: number }>()
-      redemptions.forEach((redemption: MockRewardRedemption) => {
-        const existing = rewardCounts.get(redemption.rewardId)
-        if (existing) {
-          existing.count++
-        } else {
-          rewardCounts.set(redemption.rewardId, {
-            name: redemption.reward.name,
-            count: 1,
-          })
-        }
+      const rewards = await prisma.loyaltyReward.findMany({
+        where: { id: { in: redemptionCounts.map((row) => row.rewardId) } },
+        select: { id: true, name: true },
       })
+      const rewardNames = new Map(rewards.map((reward) => [reward.id, reward.name]))
 
-      const topRewards = Array.from(rewardCounts.values())
-        .sort((a, b) => b.count - a.count)
-        .slice(0, 10)
-        .map((item) => ({ name: item.name, redemptions: item.count }))
+      const topRewards = redemptionCounts.map((row) => ({
+        name: rewardNames.get(row.rewardId) || "Unknown reward",
+        redemptions: row._count._all,
+      }))
 
-      const averagePointsPer = profiles.reduce((sum: number, p: any) => sum + p.loyaltyPoints, 0)
+      const averagePointsPer = profiles.reduce((sum, p) => sum + p.loyaltyPoints, 0)
       const averagePointsPerUser = activeUsers > 0 ? averagePointsPer / activeUsers : 0
 
-      // Calculate expiry rate (simplified)
-      const expiredTransactions = transactions.filter(
-        (t) => t.expiresAt && t.expiresAt < new Date() && t.type === "EARNED",
-      )
-      const pointsExpiryRate = totalPointsEarned > 0 ? (expiredTransactions.length / transactions.length) * 100 : 0
+      // Share of earned points that expired unspent
+      const pointsExpiryRate = totalPointsEarned > 0 ? (totalPointsExpired / totalPointsEarned) * 100 : 0
 
       return {
         totalPointsEarned,
@@ -558,25 +812,30 @@ export class LoyaltyService {
       // Award tier upgrade bonus
       const bonusPoints = this.getTierUpgradeBonus(newTier as keyof typeof this.TIER_THRESHOLDS)
 
-      if (bonusPoints > 0) {
-        await this.addLoyaltyTransaction({
-          userId,
-          type: "BONUS",
-          points: bonusPoints,
-          description: `Tier upgrade bonus: ${oldTier} → ${newTier}`,
-          expiresAt: new Date(Date.now() + this.POINTS_EXPIRY_DAYS * 24 * 60 * 60 * 1000),
-          createdAt: new Date(),
-        })
-
-        await prisma.customerProfile.update({
+      await prisma.$transaction([
+        prisma.customerProfile.update({
           where: { userId },
           data: {
-            loyaltyPoints: {
-              increment: bonusPoints,
-            },
+            loyaltyTier: newTier,
+            loyaltyTierUpdatedAt: new Date(),
+            ...(bonusPoints > 0 ? { loyaltyPoints: { increment: bonusPoints } } : {}),
           },
-        })
-      }
+        }),
+        ...(bonusPoints > 0
+          ? [
+              prisma.loyaltyTransaction.create({
+                data: {
+                  userId,
+                  type: "BONUS",
+                  points: bonusPoints,
+                  remainingPoints: bonusPoints,
+                  description: `Tier upgrade bonus: ${oldTier} → ${newTier}`,
+                  expiresAt: this.pointsExpiryDate(),
+                },
+              }),
+            ]
+          : []),
+      ])
 
       // Send congratulations notification
       await this.notificationService.notifyCustomer(userId, {
@@ -608,6 +867,63 @@ export class LoyaltyService {
     }
   }
 
+  /**
+   * Spend points from the oldest-expiring lots first
+   */
+  private async consumePoints(tx: Prisma.TransactionClient, userId: string, points: number): Promise<void> {
+    const lots = await tx.loyaltyTransaction.findMany({
+      where: {
+        userId,
+        remainingPoints: { gt: 0 },
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+      orderBy: [{ expiresAt: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+    })
+
+    let outstanding = points
+    for (const lot of lots) {
+      if (outstanding <= 0) break
+
+      const used = Math.min(lot.remainingPoints, outstanding)
+      await tx.loyaltyTransaction.update({
+        where: { id: lot.id },
+        data: { remainingPoints: { decrement: used } },
+      })
+      outstanding -= used
+    }
+  }
+
+  private getRewardPromotion(reward: {
+    category: LoyaltyRewardCategory
+  }): { type: PromoType; serviceTypes?: string[] } | null {
+    switch (reward.category) {
+      case "DISCOUNT":
+        return { type: "PERCENTAGE" }
+      case "FREE_RIDE":
+        return { type: "FIXED_AMOUNT", serviceTypes: ["RIDE", "TAXI"] }
+      case "CASHBACK":
+        return { type: "FIXED_AMOUNT" }
+      default:
+        // Upgrades and merchandise are fulfilled by support using the reward code
+        return null
+    }
+  }
+
+  private validateReward(data: LoyaltyRewardData): void {
+    if (data.pointsCost <= 0) {
+      throw new Error("Points cost must be greater than zero")
+    }
+    if (data.value < 0) {
+      throw new Error("Reward value cannot be negative")
+    }
+    if (data.category === "DISCOUNT" && data.value > 100) {
+      throw new Error("Discount rewards cannot exceed 100%")
+    }
+    if (data.tierRequirement && !(data.tierRequirement in this.TIER_THRESHOLDS)) {
+      throw new Error("Invalid tier requirement")
+    }
+  }
+
   private calculateTier(points: number): keyof typeof this.TIER_THRESHOLDS {
     if (points >= this.TIER_THRESHOLDS.DIAMOND) return "DIAMOND"
     if (points >= this.TIER_THRESHOLDS.PLATINUM) return "PLATINUM"
@@ -616,6 +932,14 @@ export class LoyaltyService {
     return "BRONZE"
   }
 
+  private toTier(tier: string | null | undefined): keyof typeof this.TIER_THRESHOLDS {
+    return tier && tier in this.TIER_THRESHOLDS ? (tier as keyof typeof this.TIER_THRESHOLDS) : "BRONZE"
+  }
+
+  private tierRank(tier: keyof typeof this.TIER_THRESHOLDS): number {
+    return Object.keys(this.TIER_THRESHOLDS).indexOf(tier)
+  }
+
   private getNextTier(currentTier: keyof typeof this.TIER_THRESHOLDS): keyof typeof this.TIER_THRESHOLDS | null {
     const tiers = Object.keys(this.TIER_THRESHOLDS) as Array<keyof typeof this.TIER_THRESHOLDS>
     const currentIndex = tiers.indexOf(currentTier)
@@ -739,14 +1063,26 @@ export class LoyaltyService {
 
       if (!profile) return "BRONZE"
 
-      return this.calculateTier(profile.loyaltyPoints)
+      return this.toTier(profile.loyaltyTier)
     } catch (error) {
       logger.error("Get user tier error:", error)
       return "BRONZE"
     }
   }
 
-  private async addLoyaltyTransaction(transaction: MockLoyaltyTransaction): Promise<void> {
-    this.loyaltyTransactions.push(transaction)
+  private async getQualifyingPoints(userId: string): Promise<number> {
+    const totals = await prisma.loyaltyTransaction.aggregate({
+      where: {
+        userId,
+        type: "EARNED",
+        createdAt: { gte: new Date(Date.now() - this.TIER_WINDOW_DAYS * 24 * 60 * 60 * 1000) },
+      },
+      _sum: { points: true },
+    })
+    return totals._sum.points || 0
+  }
+
+  private pointsExpiryDate(): Date {
+    return new Date(Date.now() + this.POINTS_EXPIRY_DAYS * 24 * 60 * 60 * 1000)
   }
 }
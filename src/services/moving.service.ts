@@ -1,11 +1,17 @@
 import prisma from "../config/database"
 import { LocationService } from "./location.service"
 import { NotificationService } from "./notification.service"
+import { ReferralService } from "./referral.service"
+import { LoyaltyService } from "./loyalty.service"
+import { PricingService } from "./pricing.service"
 import logger from "../utils/logger"
 
 export class MovingService {
   private locationService = new LocationService()
   private notificationService = new NotificationService()
+  private referralService = new ReferralService()
+  private loyaltyService = new LoyaltyService()
+  private pricingService = new PricingService()
 
   async calculateMovingQuote(data: {
     pickupAddress: any
@@ -28,14 +34,25 @@ export class MovingService {
         data.dropoffAddress.longitude,
       )
 
-      // Base pricing structure
+      // Default pricing structure in GH₵, used when no HOUSE_MOVING pricing rule covers the tier
       const basePrices = {
-        BASIC: 15000, // ₦150 per hour
-        STANDARD: 25000, // ₦250 per hour
-        PREMIUM: 40000, // ₦400 per hour
+        BASIC: 150, // GH₵150 per hour
+        STANDARD: 250, // GH₵250 per hour
+        PREMIUM: 400, // GH₵400 per hour
       }
 
-      const basePrice = basePrices[data.serviceTier as keyof typeof basePrices] || basePrices.STANDARD
+      // Tier rates come from the rule whose ride type is the service tier
+      const pricingRules = await this.pricingService.resolvePricingRules({
+        serviceType: "HOUSE_MOVING",
+        latitude: data.pickupAddress.latitude,
+        longitude: data.pickupAddress.longitude,
+        rideType: data.serviceTier,
+        at: data.movingDate,
+      })
+      const rateCard = pricingRules.rateCard
+
+      const basePrice =
+        rateCard?.pricePerHour ?? (basePrices[data.serviceTier as keyof typeof basePrices] || basePrices.STANDARD)
 
       // Calculate estimated duration based on inventory and distance
       const estimatedDuration = this.calculateMovingDuration({
@@ -48,16 +65,24 @@ export class MovingService {
 
       // Calculate pricing breakdown
       const laborCost = basePrice * estimatedDuration
-      const transportCost = Math.max(5000, distance * 0.5) // ₦0.5 per meter, minimum ₦50
-      const packingCost = data.requiresPacking ? data.inventoryItems.length * 500 : 0
+      const transportCost = Math.max(
+        rateCard?.minimumFare ?? 50, // minimum GH₵50
+        (rateCard?.basePrice ?? 0) + (distance / 1000) * (rateCard?.pricePerKm ?? 5), // GH₵5 per km
+      )
+      const packingCost = data.requiresPacking ? data.inventoryItems.length * 5 : 0
       const disassemblyCost = data.requiresDisassembly
-        ? data.inventoryItems.filter((item) => item.requiresDisassembly).length * 2000
+        ? data.inventoryItems.filter((item) => item.requiresDisassembly).length * 20
         : 0
-      const storageCost = data.requiresStorage ? 10000 : 0
+      const storageCost = data.requiresStorage ? 100 : 0
 
-      // Weekend/holiday surcharge
+      // Weekend/holiday surcharge - surge rules replace the built-in weekend rate once configured
       const isWeekend = data.movingDate.getDay() === 0 || data.movingDate.getDay() === 6
-      const weekendSurcharge = isWeekend ? laborCost * 0.2 : 0
+      const weekendSurcharge =
+        pricingRules.surgeMultiplier !== null
+          ? laborCost * (pricingRules.surgeMultiplier - 1)
+          : isWeekend
+            ? laborCost * 0.2
+            : 0
 
       const subtotal = laborCost + transportCost + packingCost + disassemblyCost + storageCost + weekendSurcharge
       const tax = subtotal * 0.075 // 7.5% VAT
@@ -68,7 +93,7 @@ export class MovingService {
       const truckSize = this.determineTruckSize(data.estimatedVolume, data.inventoryItems.length)
 
       return {
-        totalPrice: Math.round(totalPrice),
+        totalPrice: Math.round(totalPrice * 100) / 100,
         estimatedDuration,
         crewSize,
         truckSize,
@@ -82,6 +107,7 @@ export class MovingService {
           tax,
           subtotal,
         },
+        appliedPricingRules: pricingRules.appliedRules,
       }
     } catch (error) {
       logger.error("Calculate moving quote error:", error)
@@ -393,6 +419,20 @@ export class MovingService {
         },
       })
 
+      // Release referral rewards if this was the customer's first completed booking
+      try {
+        await this.referralService.handleBookingCompleted(booking.customerId, bookingId)
+      } catch (referralError) {
+        logger.error("Referral reward processing failed:", referralError)
+      }
+
+      // Award loyalty points for the completed booking
+      try {
+        await this.loyaltyService.awardBookingPoints(bookingId)
+      } catch (loyaltyError) {
+        logger.error("Loyalty points award failed:", loyaltyError)
+      }
+
       // Notify customer
       await this.notificationService.notifyCustomer(booking.customerId, {
         type: "MOVING_JOB_COMPLETED",
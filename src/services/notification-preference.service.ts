@@ -0,0 +1,428 @@
+import crypto from "crypto"
+import {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationType,
+  PriorityLevel,
+  type NotificationSettings,
+} from "@prisma/client"
+import prisma from "../config/database"
+import logger from "../utils/logger"
+
+const DEFAULT_TIMEZONE = "Africa/Accra"
+
+interface CategoryRule {
+  // Can't be turned off on any channel and ignore quiet hours
+  locked?: boolean
+  // Off until the user turns it on
+  optIn?: boolean
+  // Push and SMS wait out quiet hours and go out when they end
+  quietHours: boolean
+}
+
+export interface NotificationChannelPlan {
+  // Channels that may be used now
+  channels: NotificationChannel[]
+  // Channels held back by quiet hours, to be used once they end at `quietUntil`
+  held: NotificationChannel[]
+  quietUntil: Date | null
+}
+
+export const NOTIFICATION_CATEGORY_RULES: Record<NotificationCategory, CategoryRule> = {
+  SAFETY: { locked: true, quietHours: false },
+  // Trips are started by the user, who is waiting on these updates whatever the time
+  TRIPS: { quietHours: false },
+  PAYMENTS: { quietHours: true },
+  ACCOUNT: { quietHours: true },
+  REWARDS: { quietHours: true },
+  PROMOTIONS: { optIn: true, quietHours: true },
+  RECOMMENDATIONS: { optIn: true, quietHours: true },
+}
+
+// Types not listed here are trip, booking and order updates. Anything with EMERGENCY in the name is SAFETY.
+const CATEGORY_TYPES: Partial<Record<NotificationCategory, NotificationType[]>> = {
+  SAFETY: [NotificationType.SECURITY_ALERT, NotificationType.SAFETY_ALERT],
+  PAYMENTS: [
+    NotificationType.PAYMENT_UPDATE,
+    NotificationType.COMMISSION_DUE,
+    NotificationType.COMMISSION_PAID,
+    NotificationType.COMMISSION_BILL_GENERATED,
+    NotificationType.COMMISSION_OVERDUE,
+    NotificationType.PAYOUT_PROCESSED,
+    NotificationType.SUBSCRIPTION_ACTIVATED,
+    NotificationType.SUBSCRIPTION_RENEWED,
+    NotificationType.FARE_SPLIT_UPDATE,
+  ],
+  ACCOUNT: [
+    NotificationType.ACCOUNT_UPDATE,
+    NotificationType.ACCOUNT_SUSPENDED,
+    NotificationType.ACCOUNT_VERIFIED,
+    NotificationType.WELCOME,
+    NotificationType.SYSTEM_ALERT,
+    NotificationType.MAINTENANCE,
+    NotificationType.DRIVER_ONBOARDING,
+    NotificationType.DRIVER_VERIFIED,
+    NotificationType.DRIVER_APPROVED,
+    NotificationType.DRIVER_SUSPENDED,
+    NotificationType.MOVER_ONBOARDING,
+    NotificationType.MOVER_VERIFIED,
+    NotificationType.MOVER_SUSPENDED,
+    NotificationType.STORE_OWNER_ONBOARDING,
+    NotificationType.STORE_OWNER_VERIFIED,
+    NotificationType.STORE_OWNER_REJECTED,
+    NotificationType.VERIFICATION_APPROVED,
+    NotificationType.DOCUMENT_SUBMITTED,
+    NotificationType.DOCUMENT_APPROVED,
+    NotificationType.DOCUMENT_REJECTED,
+    NotificationType.PLACE_APPROVAL_REQUIRED,
+    NotificationType.PLACE_APPROVED,
+    NotificationType.PLACE_REJECTED,
+    NotificationType.REVIEW_REPORTED,
+    NotificationType.REVIEW_MODERATED,
+    NotificationType.CHAT_REPORTED,
+    NotificationType.SUPPORT_TICKET_CREATED,
+    NotificationType.SUPPORT_TICKET_ASSIGNED,
+    NotificationType.SUPPORT_TICKET_UPDATED,
+    NotificationType.SUPPORT_TICKET_REPLY,
+    NotificationType.SUPPORT_TICKET_ESCALATED,
+    NotificationType.ZONE_TRANSFER_INITIATED,
+    NotificationType.ZONE_TRANSFER_COMPLETED,
+    NotificationType.FLEET_INVITATION,
+  ],
+  REWARDS: [
+    NotificationType.REFERRAL_BONUS,
+    NotificationType.LOYALTY_POINTS,
+    NotificationType.REWARD_REDEEMED,
+    NotificationType.TIER_UPGRADE,
+    NotificationType.REVIEW_REQUEST,
+    NotificationType.NEW_REVIEW,
+  ],
+  PROMOTIONS: [NotificationType.PROMOTION],
+  RECOMMENDATIONS: [NotificationType.PLACE_RECOMMENDATION],
+}
+
+const ALL_CHANNELS = Object.values(NotificationChannel)
+// Channels that interrupt the user and so are held back during quiet hours
+const INTERRUPTING_CHANNELS: NotificationChannel[] = [NotificationChannel.PUSH, NotificationChannel.SMS]
+
+export function getNotificationCategory(type: NotificationType): NotificationCategory {
+  if (type.includes("EMERGENCY")) {
+    return NotificationCategory.SAFETY
+  }
+
+  for (const [category, types] of Object.entries(CATEGORY_TYPES)) {
+    if (types!.includes(type)) {
+      return category as NotificationCategory
+    }
+  }
+  return NotificationCategory.TRIPS
+}
+
+export class NotificationPreferenceService {
+  private secret = process.env.UNSUBSCRIBE_SECRET || process.env.JWT_SECRET || "your_super_secret_jwt_key"
+
+  /**
+   * Channels a notification may use for this user, after opt-outs and quiet hours.
+   * SAFETY notifications always get every channel.
+   */
+  async getAllowedChannels(
+    userId: string,
+    type: NotificationType,
+    priority: PriorityLevel = PriorityLevel.STANDARD,
+  ): Promise<NotificationChannel[]> {
+    return (await this.getChannelPlan(userId, type, priority)).channels
+  }
+
+  /**
+   * Like getAllowedChannels, but also says which channels quiet hours are holding back
+   * and when they end, so the sender can deliver on them then.
+   */
+  async getChannelPlan(
+    userId: string,
+    type: NotificationType,
+    priority: PriorityLevel = PriorityLevel.STANDARD,
+  ): Promise<NotificationChannelPlan> {
+    const category = getNotificationCategory(type)
+    const rule = NOTIFICATION_CATEGORY_RULES[category]
+    if (rule.locked) {
+      return { channels: ALL_CHANNELS, held: [], quietUntil: null }
+    }
+
+    try {
+      const [rows, settings] = await Promise.all([
+        prisma.notificationPreference.findMany({ where: { userId, category }, select: { channel: true, enabled: true } }),
+        prisma.notificationSettings.findUnique({ where: { userId } }),
+      ])
+
+      const channels = ALL_CHANNELS.filter((channel) => {
+        const row = rows.find((preference) => preference.channel === channel)
+        return row ? row.enabled : !rule.optIn
+      })
+
+      if (rule.quietHours && priority !== PriorityLevel.CRITICAL && settings?.quietHoursEnabled) {
+        const timezone = await this.getTimezone(userId, settings)
+        if (this.isQuietHours(settings, timezone)) {
+          return {
+            channels: channels.filter((channel) => !INTERRUPTING_CHANNELS.includes(channel)),
+            held: channels.filter((channel) => INTERRUPTING_CHANNELS.includes(channel)),
+            quietUntil: this.getQuietHoursEnd(settings, timezone),
+          }
+        }
+      }
+
+      return { channels, held: [], quietUntil: null }
+    } catch (error) {
+      // Fail closed for opt-in categories and open for the rest, which users expect by default
+      logger.error(`Resolve notification channels for user ${userId} error:`, error)
+      return { channels: rule.optIn ? [] : ALL_CHANNELS, held: [], quietUntil: null }
+    }
+  }
+
+  async isAllowed(userId: string, type: NotificationType, channel: NotificationChannel, priority?: PriorityLevel) {
+    return (await this.getAllowedChannels(userId, type, priority)).includes(channel)
+  }
+
+  /**
+   * The users who accept this type on the channel, ignoring quiet hours. For bulk sends and campaigns.
+   */
+  async filterRecipients(userIds: string[], type: NotificationType, channel: NotificationChannel): Promise<string[]> {
+    const category = getNotificationCategory(type)
+    const rule = NOTIFICATION_CATEGORY_RULES[category]
+    if (rule.locked || userIds.length === 0) {
+      return userIds
+    }
+
+    const rows = await prisma.notificationPreference.findMany({
+      where: { userId: { in: userIds }, category, channel },
+      select: { userId: true, enabled: true },
+    })
+    const chosen = new Map(rows.map((row) => [row.userId, row.enabled]))
+
+    return userIds.filter((userId) => chosen.get(userId) ?? !rule.optIn)
+  }
+
+  async getPreferences(userId: string) {
+    try {
+      const [rows, settings] = await Promise.all([
+        prisma.notificationPreference.findMany({ where: { userId } }),
+        prisma.notificationSettings.findUnique({
+          where: { userId },
+          include: { serviceZone: { select: { id: true, name: true, timezone: true } } },
+        }),
+      ])
+
+      const categories = Object.values(NotificationCategory).map((category) => {
+        const rule = NOTIFICATION_CATEGORY_RULES[category]
+        return {
+          category,
+          locked: !!rule.locked,
+          optIn: !!rule.optIn,
+          channels: Object.fromEntries(
+            ALL_CHANNELS.map((channel) => {
+              const row = rows.find((preference) => preference.category === category && preference.channel === channel)
+              return [channel, rule.locked ? true : row ? row.enabled : !rule.optIn]
+            }),
+          ) as Record<NotificationChannel, boolean>,
+        }
+      })
+
+      return {
+        categories,
+        quietHours: {
+          enabled: settings?.quietHoursEnabled ?? false,
+          start: settings?.quietHoursStart ?? "22:00",
+          end: settings?.quietHoursEnd ?? "07:00",
+          serviceZone: settings?.serviceZone ?? null,
+          timezone: await this.getTimezone(userId, settings),
+        },
+      }
+    } catch (error) {
+      logger.error("Get notification preferences error:", error)
+      throw error
+    }
+  }
+
+  async updatePreferences(
+    userId: string,
+    data: {
+      preferences?: Array<{ category: NotificationCategory; channel: NotificationChannel; enabled: boolean }>
+      quietHours?: { enabled?: boolean; start?: string; end?: string; serviceZoneId?: string | null }
+    },
+  ) {
+    try {
+      const locked = data.preferences?.find(
+        (preference) => NOTIFICATION_CATEGORY_RULES[preference.category].locked && !preference.enabled,
+      )
+      if (locked) {
+        throw new Error(`${locked.category} notifications can't be turned off`)
+      }
+
+      if (data.quietHours?.serviceZoneId) {
+        const zone = await prisma.serviceZone.findUnique({ where: { id: data.quietHours.serviceZoneId } })
+        if (!zone) {
+          throw new Error("Service zone not found")
+        }
+      }
+
+      await prisma.$transaction(async (tx) => {
+        for (const preference of data.preferences || []) {
+          if (NOTIFICATION_CATEGORY_RULES[preference.category].locked) continue
+
+          await tx.notificationPreference.upsert({
+            where: {
+              userId_category_channel: { userId, category: preference.category, channel: preference.channel },
+            },
+            create: { userId, ...preference, source: "APP" },
+            update: { enabled: preference.enabled, source: "APP" },
+          })
+        }
+
+        if (data.quietHours) {
+          const fields = {
+            ...(data.quietHours.enabled !== undefined && { quietHoursEnabled: data.quietHours.enabled }),
+            ...(data.quietHours.start && { quietHoursStart: data.quietHours.start }),
+            ...(data.quietHours.end && { quietHoursEnd: data.quietHours.end }),
+            ...(data.quietHours.serviceZoneId !== undefined && { serviceZoneId: data.quietHours.serviceZoneId }),
+          }
+          await tx.notificationSettings.upsert({
+            where: { userId },
+            create: { userId, ...fields },
+            update: fields,
+          })
+        }
+      })
+
+      return this.getPreferences(userId)
+    } catch (error) {
+      logger.error("Update notification preferences error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Link for the footer of emails in this type's category. Safety emails have none.
+   */
+  getUnsubscribeUrl(userId: string, type: NotificationType): string | null {
+    const category = getNotificationCategory(type)
+    if (NOTIFICATION_CATEGORY_RULES[category].locked) {
+      return null
+    }
+
+    const baseUrl = process.env.FRONTEND_URL || "https://tripsync.com"
+    return `${baseUrl}/notifications/unsubscribe?token=${encodeURIComponent(this.createUnsubscribeToken(userId, category))}`
+  }
+
+  /**
+   * Turn off email for the category in a signed unsubscribe token. Tokens don't expire,
+   * since links in old emails must keep working.
+   */
+  async unsubscribe(token: string) {
+    try {
+      const [payload, signature] = token.split(".")
+      const expected = payload ? this.sign(payload) : ""
+      if (
+        !payload ||
+        !signature ||
+        signature.length !== expected.length ||
+        !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+      ) {
+        throw new Error("Invalid unsubscribe link")
+      }
+
+      const [userId, category] = Buffer.from(payload, "base64url").toString().split(":") as [
+        string,
+        NotificationCategory,
+      ]
+      const rule = NOTIFICATION_CATEGORY_RULES[category]
+      if (!rule || rule.locked) {
+        throw new Error("Invalid unsubscribe link")
+      }
+
+      await prisma.notificationPreference.upsert({
+        where: { userId_category_channel: { userId, category, channel: NotificationChannel.EMAIL } },
+        create: { userId, category, channel: NotificationChannel.EMAIL, enabled: false, source: "EMAIL_UNSUBSCRIBE" },
+        update: { enabled: false, source: "EMAIL_UNSUBSCRIBE" },
+      })
+
+      return { category, channel: NotificationChannel.EMAIL, enabled: false }
+    } catch (error) {
+      logger.error("Unsubscribe error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * The user's chosen zone, else the zone of their latest booking, else Africa/Accra
+   */
+  async getTimezone(userId: string, settings?: Pick<NotificationSettings, "serviceZoneId"> | null): Promise<string> {
+    const zoneId =
+      settings?.serviceZoneId ||
+      (
+        await prisma.booking.findFirst({
+          where: { customerId: userId, originZoneId: { not: null } },
+          orderBy: { createdAt: "desc" },
+          select: { originZoneId: true },
+        })
+      )?.originZoneId
+
+    if (!zoneId) {
+      return DEFAULT_TIMEZONE
+    }
+
+    const zone = await prisma.serviceZone.findUnique({ where: { id: zoneId }, select: { timezone: true } })
+    return zone?.timezone || DEFAULT_TIMEZONE
+  }
+
+  /**
+   * Whether the local time in the timezone falls inside the quiet hours. Windows that
+   * cross midnight (22:00-07:00) are handled.
+   */
+  isQuietHours(
+    settings: Pick<NotificationSettings, "quietHoursStart" | "quietHoursEnd">,
+    timezone: string,
+    now = new Date(),
+  ): boolean {
+    const start = this.toMinutes(settings.quietHoursStart)
+    const end = this.toMinutes(settings.quietHoursEnd)
+    if (start === end) {
+      return false
+    }
+
+    const minutes = this.getLocalMinutes(timezone, now)
+    return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+  }
+
+  /**
+   * The next time the quiet hours end, to the minute
+   */
+  getQuietHoursEnd(settings: Pick<NotificationSettings, "quietHoursEnd">, timezone: string, now = new Date()): Date {
+    const untilEnd = (this.toMinutes(settings.quietHoursEnd) - this.getLocalMinutes(timezone, now) + 24 * 60) % (24 * 60)
+    return new Date(Math.floor(now.getTime() / 60000) * 60000 + (untilEnd || 24 * 60) * 60000)
+  }
+
+  private getLocalMinutes(timezone: string, now: Date): number {
+    let local: string
+    try {
+      local = new Intl.DateTimeFormat("en-GB", { timeZone: timezone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" })
+        .format(now)
+    } catch {
+      logger.warn(`Unknown timezone ${timezone}, reading quiet hours in ${DEFAULT_TIMEZONE}`)
+      return this.getLocalMinutes(DEFAULT_TIMEZONE, now)
+    }
+    return this.toMinutes(local)
+  }
+
+  private createUnsubscribeToken(userId: string, category: NotificationCategory) {
+    const payload = Buffer.from(`${userId}:${category}`).toString("base64url")
+    return `${payload}.${this.sign(payload)}`
+  }
+
+  private sign(payload: string) {
+    return crypto.createHmac("sha256", this.secret).update(`unsubscribe:${payload}`).digest("base64url")
+  }
+
+  private toMinutes(time: string) {
+    const [hours, minutes] = time.split(":").map(Number)
+    return hours * 60 + minutes
+  }
+}
@@ -1,10 +1,29 @@
 import prisma from "../config/database"
 import logger from "../utils/logger"
 import { EmailService } from "./email.service"
-import { NotificationType, PriorityLevel } from "@prisma/client"
+import { SmsService } from "./sms.service"
+import { FcmService } from "./fcm.service"
+import { NotificationPreferenceService } from "./notification-preference.service"
+import type { NotificationChannelPlan } from "./notification-preference.service"
+import { JOB_TYPES, jobQueueService } from "./job-queue.service"
+import { NotificationChannel, NotificationType, PriorityLevel } from "@prisma/client"
+
+// Texted when socket and push both miss, for riders and drivers who have no data connection at the moment it matters
+const SMS_NOTIFICATION_TYPES: NotificationType[] = [
+  NotificationType.BOOKING_ACCEPTED,
+  NotificationType.DRIVER_ARRIVED,
+  NotificationType.BOOKING_CANCELLED,
+  NotificationType.NO_DRIVER_AVAILABLE,
+  NotificationType.DAY_BOOKING_REMINDER_1H,
+  NotificationType.DAY_BOOKING_REASSIGNED,
+  NotificationType.RECURRING_BOOKING_FAILED,
+]
 
 export class NotificationService {
   private emailService: EmailService
+  private smsService = new SmsService()
+  private fcmService = new FcmService()
+  private preferenceService = new NotificationPreferenceService()
 
   constructor() {
     this.emailService = new EmailService()
@@ -20,6 +39,11 @@ export class NotificationService {
    */
   public async sendEmailNotification(userId: string, type: NotificationType, data: Record<string, any>): Promise<void> {
     try {
+      if (!(await this.preferenceService.isAllowed(userId, type, NotificationChannel.EMAIL))) {
+        logger.info(`Email notification ${type} skipped: user ${userId} has opted out.`)
+        return
+      }
+
       const user = await prisma.user.findUnique({
         where: { id: userId },
         select: { email: true, firstName: true, lastName: true },
@@ -183,7 +207,12 @@ export class NotificationService {
           break
       }
 
-      await this.emailService.sendEmail(user.email, subject, htmlContent)
+      await this.emailService.sendMessageEmail(
+        user.email,
+        subject,
+        htmlContent,
+        this.preferenceService.getUnsubscribeUrl(userId, type),
+      )
       logger.info(`Email notification sent to ${user.email} for type ${type}.`)
     } catch (error) {
       logger.error(`Error sending email notification to user ${userId} for type ${type}:`, error)
@@ -199,6 +228,11 @@ export class NotificationService {
    * @param data The notification payload.
    */
   public async sendInAppNotification(userId: string, type: NotificationType, data: Record<string, any>): Promise<void> {
+    if (!(await this.preferenceService.isAllowed(userId, type, NotificationChannel.IN_APP, data.priority))) {
+      logger.info(`In-app notification ${type} skipped: user ${userId} has opted out.`)
+      return
+    }
+
     // This method is now primarily handled by IntegrationService which decides between WebSocket and Email.
     // If direct in-app notification logic is needed here (e.g., saving to DB for later retrieval), it would go here.
     logger.info(`In-app notification for user ${userId}, type ${type} would be handled by WebSocket.`)
@@ -230,31 +264,29 @@ export class NotificationService {
       body: string
       data?: any
       priority?: PriorityLevel // Now explicitly PriorityLevel enum
+      scheduledNotificationId?: string // Campaign the notification was sent for
     },
   ) {
     try {
-      // Create notification record
-      const notificationRecord = await prisma.notification.create({
-        data: {
-          userId,
-          title: notification.title,
-          body: notification.body,
-          type: notification.type, // No more 'as any'
-          data: JSON.stringify(notification.data || {}),
-          priority: notification.priority || PriorityLevel.STANDARD, // No more 'as any'
-        },
-      })
+      const plan = await this.preferenceService.getChannelPlan(userId, notification.type, notification.priority)
+      const allowed = plan.channels
+
+      // Create notification record, unless the user has opted out of this category in the app
+      const notificationRecord = allowed.includes(NotificationChannel.IN_APP)
+        ? await prisma.notification.create({
+            data: {
+              userId,
+              title: notification.title,
+              body: notification.body,
+              type: notification.type, // No more 'as any'
+              data: JSON.stringify(notification.data || {}),
+              priority: notification.priority || PriorityLevel.STANDARD, // No more 'as any'
+              scheduledNotificationId: notification.scheduledNotificationId,
+            },
+          })
+        : null
 
-      // Send email for critical notifications or emergency types
-      if (notification.priority === PriorityLevel.CRITICAL || notification.type.includes("EMERGENCY")) {
-        // The includes check might need refinement if NotificationType is strictly enum
-        // For now, it works because enum values are strings.
-        await this.sendEmailNotification(userId, notification.type, {
-          title: notification.title,
-          body: notification.body,
-          ...notification.data,
-        })
-      }
+      await this.deliver(userId, notificationRecord?.id ?? null, notification, plan)
 
       return notificationRecord
     } catch (error) {
@@ -280,40 +312,37 @@ export class NotificationService {
       console.log(`💬 Body: ${notification.body}`)
       console.log(`📊 Data:`, JSON.stringify(notification.data, null, 2))
 
+      const plan = await this.preferenceService.getChannelPlan(userId, notification.type, notification.priority)
+      const allowed = plan.channels
+
       // Create notification record in database
-      const notificationRecord = await prisma.notification.create({
-        data: {
-          userId,
-          title: notification.title,
-          body: notification.body,
-          type: notification.type,
-          data: JSON.stringify(notification.data || {}),
-          priority: notification.priority || PriorityLevel.STANDARD,
-        },
-      })
+      const notificationRecord = allowed.includes(NotificationChannel.IN_APP)
+        ? await prisma.notification.create({
+            data: {
+              userId,
+              title: notification.title,
+              body: notification.body,
+              type: notification.type,
+              data: JSON.stringify(notification.data || {}),
+              priority: notification.priority || PriorityLevel.STANDARD,
+            },
+          })
+        : null
 
-      console.log(`✅ Database notification created: ${notificationRecord.id}`)
+      console.log(`✅ Database notification created: ${notificationRecord?.id ?? "skipped (opted out)"}`)
 
-      // Send real-time notification via WebSocket
-      try {
-        // Import the WebSocket service from server
-        const { io } = await import("../server")
-        
-        // Use the WebSocket service's notifyUser method
-        const notificationSent = await io.notifyUser(userId, "notification", {
-          id: notificationRecord.id,
-          type: notification.type,
-          title: notification.title,
-          body: notification.body,
-          data: notification.data,
-          priority: notification.priority || PriorityLevel.STANDARD,
-          timestamp: new Date(),
-        })
+      const channels = await this.deliver(userId, notificationRecord?.id ?? null, notification, plan)
+      console.log(`📡 Driver notification delivered via: ${channels.join(", ") || "none"}`)
 
-        console.log(`📡 WebSocket notification sent to user_${userId}: ${notificationSent}`)
-
-        // Also emit specific event for booking requests
-        if (notification.type === "NEW_BOOKING_REQUEST" && notification.data?.bookingId) {
+      // Also emit specific event for booking requests
+      if (
+        notificationRecord &&
+        channels.includes("socket") &&
+        notification.type === "NEW_BOOKING_REQUEST" &&
+        notification.data?.bookingId
+      ) {
+        try {
+          const { io } = await import("../server")
           await io.notifyUser(userId, "new_booking_request", {
             notificationId: notificationRecord.id,
             bookingId: notification.data.bookingId,
@@ -321,22 +350,8 @@ export class NotificationService {
             timestamp: new Date(),
           })
           console.log(`🚗 Booking request event sent to user_${userId}`)
-        }
-      } catch (socketError) {
-        console.error(`❌ WebSocket notification failed for user ${userId}:`, socketError)
-      }
-
-      // Send email for critical notifications or emergency types
-      if (notification.priority === PriorityLevel.CRITICAL || notification.type.includes("EMERGENCY")) {
-        try {
-          await this.sendEmailNotification(userId, notification.type, {
-            title: notification.title,
-            body: notification.body,
-            ...notification.data,
-          })
-          console.log(`📧 Email notification sent to user ${userId}`)
-        } catch (emailError) {
-          console.error(`❌ Email notification failed for user ${userId}:`, emailError)
+        } catch (socketError) {
+          console.error(`❌ Booking request event failed for user ${userId}:`, socketError)
         }
       }
 
@@ -372,7 +387,13 @@ export class NotificationService {
     },
   ) {
     try {
-      const notifications = userIds.map((userId) => ({
+      const recipients = await this.preferenceService.filterRecipients(
+        userIds,
+        notification.type,
+        NotificationChannel.IN_APP,
+      )
+
+      const notifications = recipients.map((userId) => ({
         userId,
         title: notification.title,
         body: notification.body,
@@ -483,4 +504,136 @@ export class NotificationService {
       throw error
     }
   }
+
+  /**
+   * Retry push and SMS for a notification that quiet hours held back, unless the user
+   * has read it in the app since. Run by the job queue when the quiet hours end.
+   */
+  async deliverAfterQuietHours(
+    userId: string,
+    notificationId: string | null,
+    notification: { type: NotificationType; title: string; body: string; data?: any; priority?: PriorityLevel },
+  ) {
+    if (notificationId) {
+      const record = await prisma.notification.findUnique({ where: { id: notificationId }, select: { isRead: true } })
+      if (!record || record.isRead) return
+    }
+
+    // Preferences are checked again - the user may have opted out or moved their quiet hours
+    const plan = await this.preferenceService.getChannelPlan(userId, notification.type, notification.priority)
+    await this.deliver(userId, notificationId, notification, plan)
+  }
+
+  /**
+   * Route a notification by priority: socket first, then push, then SMS and email as
+   * fallbacks. CRITICAL and emergency notifications go out on every channel. Only the
+   * channels the user's preferences allow are used; push and SMS held back by quiet hours
+   * are queued for when they end. Returns the channels that accepted it and never
+   * throws - the notification is already saved.
+   */
+  private async deliver(
+    userId: string,
+    notificationId: string | null,
+    notification: { type: NotificationType; title: string; body: string; data?: any; priority?: PriorityLevel },
+    plan: NotificationChannelPlan,
+  ): Promise<string[]> {
+    const allowed = plan.channels
+    const channels: string[] = []
+    const priority = notification.priority || PriorityLevel.STANDARD
+    const everyChannel = priority === PriorityLevel.CRITICAL || notification.type.includes("EMERGENCY")
+
+    try {
+      const { io } = await import("../server")
+      // notifyUser falls back to email for offline users, so only use it for connected ones
+      if (
+        notificationId &&
+        io.isUserOnline(userId) &&
+        (await io.notifyUser(userId, "notification", {
+          id: notificationId,
+          type: notification.type,
+          title: notification.title,
+          body: notification.body,
+          data: notification.data,
+          priority,
+          timestamp: new Date(),
+        }))
+      ) {
+        channels.push("socket")
+      }
+    } catch (error) {
+      logger.warn(`Socket notification ${notification.type} failed for user ${userId}:`, error)
+    }
+
+    if ((everyChannel || channels.length === 0) && allowed.includes(NotificationChannel.PUSH)) {
+      const push = await this.fcmService.sendToUser(userId, {
+        type: notification.type,
+        title: notification.title,
+        body: notification.body,
+        data: { ...notification.data, notificationId },
+        priority,
+      })
+      if (push.sent > 0) {
+        channels.push("push")
+      }
+    }
+
+    if (everyChannel || channels.length === 0) {
+      if (
+        (everyChannel || SMS_NOTIFICATION_TYPES.includes(notification.type)) &&
+        allowed.includes(NotificationChannel.SMS)
+      ) {
+        try {
+          const sms = await this.smsService.sendToUser(userId, "NOTIFICATION", {
+            title: notification.title,
+            body: notification.body,
+          })
+          if (sms) channels.push("sms")
+        } catch (error) {
+          logger.warn(`SMS notification ${notification.type} failed for user ${userId}:`, error)
+        }
+      }
+
+      if ((everyChannel || priority === PriorityLevel.URGENT) && allowed.includes(NotificationChannel.EMAIL)) {
+        try {
+          await this.sendEmailNotification(userId, notification.type, {
+            title: notification.title,
+            body: notification.body,
+            ...notification.data,
+          })
+          channels.push("email")
+        } catch (error) {
+          logger.warn(`Email notification ${notification.type} failed for user ${userId}:`, error)
+        }
+      }
+    }
+
+    // Nothing reached the user and push or SMS would have been tried, so try them again after quiet hours
+    if (channels.length === 0 && plan.quietUntil && plan.held.length > 0) {
+      try {
+        await jobQueueService.enqueue(
+          JOB_TYPES.NOTIFICATION_QUIET_HOURS_DELIVERY,
+          { userId, notificationId, notification },
+          { runAt: plan.quietUntil },
+        )
+        return channels
+      } catch (error) {
+        logger.warn(`Failed to hold notification ${notification.type} for user ${userId} until quiet hours end:`, error)
+      }
+    }
+
+    if (!notificationId) {
+      return channels
+    }
+
+    try {
+      await prisma.notification.update({
+        where: { id: notificationId },
+        data: { status: channels.length > 0 ? "SENT" : "UNDELIVERED" },
+      })
+    } catch (error) {
+      logger.warn(`Failed to record delivery of notification ${notificationId}:`, error)
+    }
+
+    return channels
+  }
 }
@@ -0,0 +1,129 @@
+import crypto from "crypto"
+import type { User } from "@prisma/client"
+import prisma from "../config/database"
+import { SmsService } from "./sms.service"
+import logger from "../utils/logger"
+
+const OTP_TTL_MINUTES = 5
+const MAX_VERIFY_ATTEMPTS = 5
+const RESEND_COOLDOWN_MS = 60 * 1000
+const MAX_REQUESTS_PER_HOUR = 5
+
+export class OtpService {
+  private smsService = new SmsService()
+  private secret = process.env.OTP_SECRET || process.env.JWT_SECRET || "your_super_secret_jwt_key"
+
+  /**
+   * Text a login code to the phone. Numbers without an account get the same response
+   * but no SMS, so the endpoint can't be used to find out who is registered.
+   */
+  async requestLoginCode(rawPhone: string): Promise<{ phone: string; expiresInMinutes: number }> {
+    try {
+      const phone = this.smsService.normalizePhone(rawPhone)
+      if (!phone) {
+        throw new Error("Enter a valid phone number")
+      }
+
+      const recent = await prisma.phoneOtp.findMany({
+        where: { phone, purpose: "LOGIN", createdAt: { gte: new Date(Date.now() - 60 * 60 * 1000) } },
+        orderBy: { createdAt: "desc" },
+        select: { createdAt: true },
+      })
+
+      if (recent[0] && Date.now() - recent[0].createdAt.getTime() < RESEND_COOLDOWN_MS) {
+        throw new Error("Please wait a minute before requesting another code")
+      }
+      if (recent.length >= MAX_REQUESTS_PER_HOUR) {
+        throw new Error("Too many codes requested. Try again later")
+      }
+
+      const user = await this.findUserByPhone(rawPhone, phone)
+      const code = crypto.randomInt(0, 1000000).toString().padStart(6, "0")
+
+      // Recorded even without an account so the rate limits apply to every number
+      await prisma.phoneOtp.create({
+        data: {
+          phone,
+          purpose: "LOGIN",
+          codeHash: this.hash(phone, code),
+          expiresAt: new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000),
+          ...(!user && { consumedAt: new Date() }),
+        },
+      })
+
+      if (user && user.isActive) {
+        await this.smsService.send(
+          phone,
+          "OTP",
+          { code, minutes: OTP_TTL_MINUTES },
+          { userId: user.id, redact: [code] },
+        )
+      }
+
+      return { phone, expiresInMinutes: OTP_TTL_MINUTES }
+    } catch (error) {
+      logger.error("Request login code error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Check the latest code sent to the phone and return the account it logs in to
+   */
+  async verifyLoginCode(rawPhone: string, code: string): Promise<User> {
+    try {
+      const phone = this.smsService.normalizePhone(rawPhone)
+      if (!phone) {
+        throw new Error("Enter a valid phone number")
+      }
+
+      const otp = await prisma.phoneOtp.findFirst({
+        where: { phone, purpose: "LOGIN", consumedAt: null, expiresAt: { gt: new Date() } },
+        orderBy: { createdAt: "desc" },
+      })
+
+      if (!otp) {
+        throw new Error("Code expired or not found. Request a new code")
+      }
+
+      if (otp.attempts >= MAX_VERIFY_ATTEMPTS) {
+        throw new Error("Too many incorrect attempts. Request a new code")
+      }
+
+      const expected = Buffer.from(otp.codeHash, "hex")
+      const actual = Buffer.from(this.hash(phone, code), "hex")
+      if (!crypto.timingSafeEqual(expected, actual)) {
+        await prisma.phoneOtp.update({ where: { id: otp.id }, data: { attempts: { increment: 1 } } })
+        throw new Error("Invalid code")
+      }
+
+      // Only one verification can consume the code
+      const consumed = await prisma.phoneOtp.updateMany({
+        where: { id: otp.id, consumedAt: null },
+        data: { consumedAt: new Date() },
+      })
+      if (consumed.count === 0) {
+        throw new Error("Code expired or not found. Request a new code")
+      }
+
+      const user = await this.findUserByPhone(rawPhone, phone)
+      if (!user || !user.isActive) {
+        throw new Error("Invalid credentials or account deactivated")
+      }
+
+      return user
+    } catch (error) {
+      logger.error("Verify login code error:", error)
+      throw error
+    }
+  }
+
+  // Phone numbers are stored as users typed them, so match the raw and the E.164 form
+  private findUserByPhone(rawPhone: string, phone: string) {
+    return prisma.user.findFirst({ where: { phone: { in: [...new Set([rawPhone.trim(), phone])] } } })
+  }
+
+  private hash(phone: string, code: string) {
+    return crypto.createHmac("sha256", this.secret).update(`${phone}:${code}`).digest("hex")
+  }
+}
@@ -1,11 +1,16 @@
 import axios from "axios"
 import prisma from "../config/database"
+import { PromotionService } from "./promotion.service"
+import { FareSplitService, type FareSplitPortion } from "./fare-split.service"
 import type { PaystackResponse } from "../types"
 import logger from "../utils/logger"
 
 export class PaymentService {
   private paystackSecretKey = process.env.PAYSTACK_SECRET_KEY!
-  private paystackBaseUrl = "https://api.paystack.co"
+  // Overridable so payouts and charges can run against a local Paystack stand-in (see paystack_standin.js)
+  private paystackBaseUrl = process.env.PAYSTACK_BASE_URL || "https://api.paystack.co"
+  private promotionService = new PromotionService()
+  private fareSplitService = new FareSplitService()
 
   async processPayment(paymentData: {
     userId: string
@@ -27,10 +32,53 @@ export class PaymentService {
       // Get booking to check payment method
       const booking = await prisma.booking.findUnique({
         where: { id: paymentData.bookingId },
-        select: { paymentMethodId: true },
+        select: { paymentMethodId: true, promoCode: true, discountAmount: true, corporateAccountId: true },
       })
 
       const paymentMethod = paymentData.paymentMethod || (booking?.paymentMethodId ? "CARD" : "CASH")
+      const discountAmount = booking?.discountAmount || 0
+
+      // Company-billed bookings are settled through the account's monthly statement
+      if (booking?.corporateAccountId) {
+        const transaction = await prisma.transaction.create({
+          data: {
+            userId: paymentData.userId,
+            bookingId: paymentData.bookingId,
+            amount: paymentData.amount,
+            currency: "GHS",
+            type: "PAYMENT",
+            status: "COMPLETED",
+            description: paymentData.description,
+            platformCommission: paymentData.amount * 0.18,
+            serviceFee: 0,
+            paystackReference: null,
+            // The platform collects from the company, so the provider is paid out as for card payments
+            providerEarning: paymentData.amount * 0.82,
+            providerPaid: false,
+            promoCode: booking.promoCode,
+            discountAmount,
+            metadata: { billing: "CORPORATE", corporateAccountId: booking.corporateAccountId },
+          },
+        })
+
+        if (booking.promoCode) {
+          await this.promotionService.attachTransaction({ bookingId: paymentData.bookingId }, transaction.id)
+        }
+
+        return transaction
+      }
+
+      // Co-riders pay their accepted shares; the booking owner pays the rest
+      if (booking) {
+        const { ownerAmount, coRiders, settledAmount } = await this.fareSplitService.getPortions(
+          paymentData.bookingId,
+          paymentData.amount,
+        )
+        if (coRiders.length > 0 || settledAmount > 0) {
+          const uncollected = await this.collectFareSplits(paymentData.bookingId, paymentData.description, coRiders)
+          paymentData = { ...paymentData, amount: Math.round((ownerAmount + uncollected) * 100) / 100 }
+        }
+      }
 
       // Handle cash payments
       if (paymentMethod === "CASH") {
@@ -49,9 +97,19 @@ export class PaymentService {
             platformCommission: paymentData.amount * 0.18,
             serviceFee: 0, // No service fee for cash
             paystackReference: null,
+            // The provider collected the cash, so nothing is owed to them in a payout
+            providerEarning: paymentData.amount * 0.82,
+            providerPaid: true,
+            providerPaidAt: new Date(),
+            promoCode: booking?.promoCode,
+            discountAmount,
           },
         })
 
+        if (booking?.promoCode) {
+          await this.promotionService.attachTransaction({ bookingId: paymentData.bookingId }, transaction.id)
+        }
+
         console.log(`✅ Cash payment processed successfully:`, transaction.id)
         return transaction
       }
@@ -82,12 +140,20 @@ export class PaymentService {
           type: "PAYMENT",
           status: "PENDING",
           description: paymentData.description,
-          platformCommission: paymentData.amount * 0.18,
+          // Promotions are platform funded, so the provider earns on the undiscounted amount
+          platformCommission: paymentData.amount - (paymentData.amount + discountAmount) * 0.82,
           serviceFee: paymentData.amount * 0.025,
+          providerEarning: (paymentData.amount + discountAmount) * 0.82,
           paystackReference: this.generateReference(),
+          promoCode: booking?.promoCode,
+          discountAmount,
         },
       })
 
+      if (booking?.promoCode) {
+        await this.promotionService.attachTransaction({ bookingId: paymentData.bookingId }, transaction.id)
+      }
+
       // Process with Paystack for card payments
       if (paymentMethod === "CARD") {
         const paystackResponse = await this.chargeCard({
@@ -116,6 +182,156 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Charge a store order placed from the cart. Cards are charged straight away; mobile money
+   * stays pending until the customer approves it.
+   */
+  async processOrderPayment(paymentData: {
+    userId: string
+    orderId: string
+    amount: number
+    paymentMethodId: string
+    description: string
+    promoCode?: string | null
+    discountAmount?: number
+  }) {
+    try {
+      const savedPaymentMethod = await prisma.paymentMethod.findFirst({
+        where: { id: paymentData.paymentMethodId, userId: paymentData.userId, isActive: true },
+        include: { user: true },
+      })
+
+      if (!savedPaymentMethod) {
+        throw new Error("Payment method not found")
+      }
+
+      const transaction = await prisma.transaction.create({
+        data: {
+          userId: paymentData.userId,
+          orderId: paymentData.orderId,
+          paymentMethodId: paymentData.paymentMethodId,
+          amount: paymentData.amount,
+          currency: "GHS",
+          type: "PAYMENT",
+          status: "PENDING",
+          description: paymentData.description,
+          platformCommission: paymentData.amount * 0.18,
+          serviceFee: paymentData.amount * 0.025,
+          providerEarning: paymentData.amount * 0.82,
+          paystackReference: this.generateReference(),
+          promoCode: paymentData.promoCode,
+          discountAmount: paymentData.discountAmount || 0,
+        },
+      })
+
+      if (savedPaymentMethod.type === "MOBILE_MONEY") {
+        return transaction
+      }
+
+      let paystackResponse: PaystackResponse
+      try {
+        if (!savedPaymentMethod.paystackAuthCode) {
+          throw new Error("This payment method cannot be charged")
+        }
+
+        paystackResponse = await this.chargeCard({
+          email: savedPaymentMethod.user.email || savedPaymentMethod.user.phone + "@tripsync.com",
+          amount: paymentData.amount * 100,
+          authorization_code: savedPaymentMethod.paystackAuthCode,
+          reference: transaction.paystackReference!,
+        })
+      } catch (error) {
+        return prisma.transaction.update({
+          where: { id: transaction.id },
+          data: { status: "FAILED", paystackStatus: error instanceof Error ? error.message : "failed" },
+        })
+      }
+
+      return prisma.transaction.update({
+        where: { id: transaction.id },
+        data: {
+          status: paystackResponse.status ? "COMPLETED" : "FAILED",
+          paystackResponse: paystackResponse,
+          paystackTransactionId: paystackResponse.data?.id,
+          paystackStatus: paystackResponse.data?.status,
+        },
+      })
+    } catch (error) {
+      logger.error("Process order payment error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Refund a store order's completed payment through Paystack. The refund is only recorded once
+   * Paystack has accepted it. Older orders recorded the order id as the booking id.
+   */
+  async refundOrderPayment(orderId: string, description: string) {
+    try {
+      const transaction = await prisma.transaction.findFirst({
+        where: {
+          OR: [{ orderId }, { bookingId: orderId }],
+          type: "PAYMENT",
+          status: "COMPLETED",
+        },
+      })
+
+      if (!transaction) {
+        logger.warn(`No payment transaction found for order ${orderId}`)
+        return null
+      }
+
+      let paystackRefund: PaystackResponse | null = null
+      if (transaction.paystackReference) {
+        paystackRefund = await this.createRefund({
+          transaction: transaction.paystackReference,
+          amount: Math.round(transaction.amount * 100),
+          merchant_note: description,
+        })
+        if (!paystackRefund.status) {
+          throw new Error(paystackRefund.message || "Refund was not accepted")
+        }
+      }
+      // The refund.processed webhook that follows finds the payment already REFUNDED and leaves it alone
+      const refundReference = paystackRefund?.data?.id?.toString()
+
+      const [refund] = await prisma.$transaction([
+        prisma.transaction.create({
+          data: {
+            userId: transaction.userId,
+            bookingId: transaction.bookingId,
+            orderId: transaction.orderId,
+            paymentMethodId: transaction.paymentMethodId,
+            amount: transaction.amount,
+            currency: transaction.currency,
+            type: "REFUND",
+            status: "COMPLETED",
+            description,
+            parentTransactionId: transaction.id,
+            refundAmount: transaction.amount,
+            refundedAt: new Date(),
+            refundReference,
+            paystackResponse: paystackRefund?.data,
+          },
+        }),
+        prisma.transaction.update({
+          where: { id: transaction.id },
+          data: {
+            status: "REFUNDED",
+            refundAmount: transaction.amount,
+            refundedAt: new Date(),
+            refundReference,
+          },
+        }),
+      ])
+
+      return refund
+    } catch (error) {
+      logger.error("Refund order payment error:", error)
+      throw error
+    }
+  }
+
   async initializePayment(data: {
     email: string
     amount: number
@@ -158,6 +374,25 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Return a charge to the customer. The amount is in minor units; without one the whole charge is refunded.
+   */
+  async createRefund(data: { transaction: string; amount?: number; merchant_note?: string }): Promise<PaystackResponse> {
+    try {
+      const response = await axios.post(`${this.paystackBaseUrl}/refund`, data, {
+        headers: {
+          Authorization: `Bearer ${this.paystackSecretKey}`,
+          "Content-Type": "application/json",
+        },
+      })
+
+      return response.data
+    } catch (error: any) {
+      logger.error("Create refund error:", error.response?.data || error.message)
+      throw new Error("Refund failed")
+    }
+  }
+
   async verifyTransaction(reference: string): Promise<PaystackResponse> {
     try {
       const response = await axios.get(`${this.paystackBaseUrl}/transaction/verify/${reference}`, {
@@ -173,56 +408,143 @@ export class PaymentService {
     }
   }
 
-  async processPendingPayouts() {
+  async createTransferRecipient(data: {
+    type: "nuban" | "ghipss" | "mobile_money" | "basa" | "kepss"
+    name: string
+    account_number: string
+    bank_code: string
+    currency: string
+  }): Promise<PaystackResponse> {
     try {
-      const pendingPayouts = await prisma.providerPayout.findMany({
-        where: {
-          status: "PENDING",
-          scheduledFor: {
-            lte: new Date(),
+      const response = await axios.post(`${this.paystackBaseUrl}/transferrecipient`, data, {
+        headers: {
+          Authorization: `Bearer ${this.paystackSecretKey}`,
+          "Content-Type": "application/json",
+        },
+      })
+
+      return response.data
+    } catch (error: any) {
+      logger.error("Create transfer recipient error:", error.response?.data || error.message)
+      throw new Error("Transfer recipient creation failed")
+    }
+  }
+
+  async initiateTransfer(data: {
+    amount: number
+    recipient: string
+    reference: string
+    reason: string
+    currency: string
+  }): Promise<PaystackResponse> {
+    try {
+      const response = await axios.post(
+        `${this.paystackBaseUrl}/transfer`,
+        { source: "balance", ...data },
+        {
+          headers: {
+            Authorization: `Bearer ${this.paystackSecretKey}`,
+            "Content-Type": "application/json",
           },
         },
-        include: {
-          provider: true,
+      )
+
+      return response.data
+    } catch (error: any) {
+      logger.error("Initiate transfer error:", error.response?.data || error.message)
+      throw new Error(error.response?.data?.message || "Transfer initiation failed")
+    }
+  }
+
+  async verifyTransfer(reference: string): Promise<PaystackResponse> {
+    try {
+      const response = await axios.get(`${this.paystackBaseUrl}/transfer/verify/${reference}`, {
+        headers: {
+          Authorization: `Bearer ${this.paystackSecretKey}`,
+        },
+      })
+
+      return response.data
+    } catch (error: any) {
+      logger.error("Verify transfer error:", error.response?.data || error.message)
+      throw new Error("Transfer verification failed")
+    }
+  }
+
+  // Charges each co-rider's share to the card they accepted with and returns the total that could not be collected
+  private async collectFareSplits(bookingId: string, description: string, coRiders: FareSplitPortion[]) {
+    let uncollected = 0
+
+    for (const coRider of coRiders) {
+      const savedPaymentMethod = await prisma.paymentMethod.findUnique({
+        where: { id: coRider.paymentMethodId },
+        include: { user: true },
+      })
+
+      const transaction = await prisma.transaction.create({
+        data: {
+          userId: coRider.userId,
+          bookingId,
+          paymentMethodId: coRider.paymentMethodId,
+          amount: coRider.amount,
+          currency: "GHS",
+          type: "PAYMENT",
+          status: "PENDING",
+          description: `${description} (shared fare)`,
+          platformCommission: coRider.amount * 0.18,
+          serviceFee: coRider.amount * 0.025,
+          providerEarning: coRider.amount * 0.82,
+          paystackReference: this.generateReference(),
+          metadata: { fareSplitId: coRider.id },
         },
       })
 
-      for (const payout of pendingPayouts) {
-        try {
-          await this.processSinglePayout(payout)
-        } catch (error) {
-          logger.error(`Failed to process payout ${payout.id}:`, error)
-
-          // Update retry count
-          await prisma.providerPayout.update({
-            where: { id: payout.id },
-            data: {
-              retryCount: { increment: 1 },
-              failureReason: error instanceof Error ? error.message : "Unknown error",
-              status: payout.retryCount >= payout.maxRetries ? "FAILED" : "PENDING",
-            },
-          })
+      try {
+        if (!savedPaymentMethod?.isActive || !savedPaymentMethod.paystackAuthCode) {
+          throw new Error("The card for this share is no longer available")
         }
+
+        const paystackResponse = await this.chargeCard({
+          email: savedPaymentMethod.user.email || savedPaymentMethod.user.phone + "@tripsync.com",
+          amount: coRider.amount * 100,
+          authorization_code: savedPaymentMethod.paystackAuthCode,
+          reference: transaction.paystackReference!,
+        })
+
+        await prisma.transaction.update({
+          where: { id: transaction.id },
+          data: {
+            status: paystackResponse.status ? "COMPLETED" : "FAILED",
+            paystackResponse: paystackResponse,
+            paystackTransactionId: paystackResponse.data?.id,
+            paystackStatus: paystackResponse.data?.status,
+          },
+        })
+
+        if (!paystackResponse.status) {
+          throw new Error(paystackResponse.message || "Card charge declined")
+        }
+      } catch (error) {
+        logger.warn(`Fare split ${coRider.id} could not be collected:`, error)
+        await prisma.transaction.updateMany({
+          where: { id: transaction.id, status: "PENDING" },
+          data: { status: "FAILED" },
+        })
+        await this.fareSplitService.markFailed(
+          coRider.id,
+          transaction.id,
+          coRider.amount,
+          error instanceof Error ? error.message : "Payment failed",
+        )
+        uncollected += coRider.amount
+        continue
       }
-    } catch (error) {
-      logger.error("Process pending payouts error:", error)
-      throw error
+
+      // Outside the try - once the card is charged, a failure here must not put the share back on the owner
+      await this.fareSplitService.markPaid(coRider.id, transaction.id, coRider.amount)
     }
-  }
 
-  private async processSinglePayout(payout: any) {
-    // Implementation for processing individual payouts
-    // This would integrate with Paystack transfers or mobile money APIs
-    logger.info(`Processing payout ${payout.id} for provider ${payout.providerId}`)
-
-    // Update payout status
-    await prisma.providerPayout.update({
-      where: { id: payout.id },
-      data: {
-        status: "COMPLETED",
-        processedAt: new Date(),
-      },
-    })
+    return uncollected
   }
 
   private generateReference(): string {
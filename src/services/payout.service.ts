@@ -0,0 +1,895 @@
+import prisma from "../config/database"
+import type { PayoutSchedule, ProviderPayout } from "@prisma/client"
+import { PaymentService } from "./payment.service"
+import { NotificationService } from "./notification.service"
+import logger from "../utils/logger"
+
+// Days that must pass since the provider's last payout before a new batch is built
+const PAYOUT_INTERVAL_DAYS: Record<PayoutSchedule, number | null> = {
+  DAILY: 1,
+  WEEKLY: 7,
+  BIWEEKLY: 14,
+  MONTHLY: 30,
+  ON_DEMAND: null,
+}
+
+// Paystack mobile money "bank" codes
+const MOBILE_MONEY_BANK_CODES: Partial<Record<string, string>> = {
+  MTN_MOMO: "MTN",
+  VODAFONE_CASH: "VOD",
+  AIRTEL_MONEY: "ATL",
+  TIGO_CASH: "ATL",
+  MPESA: "MPESA",
+}
+
+// Paystack bank recipient type per currency
+const BANK_RECIPIENT_TYPES: Record<string, "nuban" | "ghipss" | "basa" | "kepss"> = {
+  NGN: "nuban",
+  GHS: "ghipss",
+  ZAR: "basa",
+  KES: "kepss",
+}
+
+const OUTSTANDING_BILL_STATUSES = ["PENDING", "SENT", "OVERDUE"] as const
+// Monthly commission bills are raised in cedis, so only cedi payouts can settle them
+const COMMISSION_BILL_CURRENCY = "GHS"
+
+interface ProviderPayoutSettings {
+  schedule: PayoutSchedule
+  preferredMethod: "MOBILE_MONEY" | "BANK_TRANSFER"
+  minimumPayoutAmount: number // minor units (kobo/pesewas), as stored on the driver profiles
+}
+
+export interface PayoutBatchResult {
+  providersEvaluated: number
+  payoutsCreated: number
+  totalAmount: number
+  payoutIds: string[]
+}
+
+export class PayoutService {
+  private paymentService = new PaymentService()
+  private notificationService = new NotificationService()
+
+  /**
+   * Builds ProviderPayout rows from completed, unpaid Transaction.providerEarning
+   * for every provider whose PayoutSchedule is due. Outstanding commission bills
+   * are deducted from the gross amount.
+   */
+  async buildPayoutBatches(options: { providerId?: string; onDemand?: boolean } = {}): Promise<PayoutBatchResult> {
+    try {
+      const unpaidTransactions = await prisma.transaction.findMany({
+        where: {
+          type: "PAYMENT",
+          status: "COMPLETED",
+          providerPaid: false,
+          providerEarning: { gt: 0 },
+          booking: {
+            providerId: options.providerId ? options.providerId : { not: null },
+          },
+        },
+        select: {
+          id: true,
+          providerEarning: true,
+          currency: true,
+          booking: { select: { providerId: true, fleetEarning: { select: { operatorShare: true } } } },
+        },
+      })
+
+      const transactionsByProvider = new Map<string, typeof unpaidTransactions>()
+      for (const transaction of unpaidTransactions) {
+        const providerId = transaction.booking?.providerId
+        if (!providerId) continue
+        const list = transactionsByProvider.get(providerId) || []
+        list.push(transaction)
+        transactionsByProvider.set(providerId, list)
+      }
+
+      // Fleet operators are paid their share of trips whose payment has settled
+      const fleets = await prisma.fleet.findMany({
+        where: {
+          ...(options.providerId && { ownerId: options.providerId }),
+          earnings: {
+            some: {
+              payoutId: null,
+              booking: { transactions: { some: { type: "PAYMENT", status: "COMPLETED" } } },
+            },
+          },
+        },
+        select: {
+          id: true,
+          ownerId: true,
+          earnings: {
+            where: {
+              payoutId: null,
+              booking: { transactions: { some: { type: "PAYMENT", status: "COMPLETED" } } },
+            },
+            select: { currency: true },
+            distinct: ["currency"],
+          },
+        },
+      })
+
+      const result: PayoutBatchResult = {
+        providersEvaluated: transactionsByProvider.size + fleets.length,
+        payoutsCreated: 0,
+        totalAmount: 0,
+        payoutIds: [],
+      }
+
+      for (const [providerId, transactions] of transactionsByProvider) {
+        // Earnings in different currencies are never added together: one payout per currency
+        const byCurrency = new Map<string, typeof transactions>()
+        for (const transaction of transactions) {
+          byCurrency.set(transaction.currency, [...(byCurrency.get(transaction.currency) || []), transaction])
+        }
+
+        for (const [currency, currencyTransactions] of byCurrency) {
+          try {
+            const payout = await this.buildProviderPayout(providerId, currencyTransactions, options.onDemand === true)
+            if (payout) {
+              result.payoutsCreated++
+              result.totalAmount += payout.amount
+              result.payoutIds.push(payout.id)
+            }
+          } catch (error) {
+            logger.error(`Failed to build ${currency} payout for provider ${providerId}:`, error)
+          }
+        }
+      }
+
+      for (const fleet of fleets) {
+        for (const { currency } of fleet.earnings) {
+          try {
+            const payout = await this.buildFleetPayout(fleet.id, fleet.ownerId, currency, options.onDemand === true)
+            if (payout) {
+              result.payoutsCreated++
+              result.totalAmount += payout.amount
+              result.payoutIds.push(payout.id)
+            }
+          } catch (error) {
+            logger.error(`Failed to build ${currency} payout for fleet ${fleet.id}:`, error)
+          }
+        }
+      }
+
+      logger.info(`Built ${result.payoutsCreated} payouts for ${result.providersEvaluated} providers`)
+      return result
+    } catch (error) {
+      logger.error("Build payout batches error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Lets an ON_DEMAND (or any) provider cash out their unpaid earnings now.
+   */
+  async requestPayout(providerId: string) {
+    try {
+      const result = await this.buildPayoutBatches({ providerId, onDemand: true })
+      if (result.payoutsCreated === 0) {
+        throw new Error("No unpaid earnings above your minimum payout amount")
+      }
+
+      const payout = await prisma.providerPayout.findUnique({ where: { id: result.payoutIds[0] } })
+      if (payout && payout.status === "PENDING") {
+        await this.processSinglePayout(payout)
+      }
+
+      return prisma.providerPayout.findUnique({ where: { id: result.payoutIds[0] } })
+    } catch (error) {
+      logger.error("Request payout error:", error)
+      throw error
+    }
+  }
+
+  async processPendingPayouts() {
+    try {
+      const pendingPayouts = await prisma.providerPayout.findMany({
+        where: {
+          status: "PENDING",
+          OR: [{ scheduledFor: null }, { scheduledFor: { lte: new Date() } }],
+        },
+      })
+
+      for (const payout of pendingPayouts) {
+        try {
+          await this.processSinglePayout(payout)
+        } catch (error) {
+          logger.error(`Failed to process payout ${payout.id}:`, error)
+
+          const retryCount = payout.retryCount + 1
+          const exhausted = retryCount >= payout.maxRetries
+          await prisma.providerPayout.update({
+            where: { id: payout.id },
+            data: {
+              retryCount,
+              failureReason: error instanceof Error ? error.message : "Unknown error",
+              status: exhausted ? "FAILED" : "PENDING",
+            },
+          })
+
+          if (exhausted) {
+            await this.releaseCommissionDeductions(payout, "Payout failed after maximum retries")
+            await this.releaseFleetEarnings(payout.id)
+          }
+        }
+      }
+
+      return { processed: pendingPayouts.length }
+    } catch (error) {
+      logger.error("Process pending payouts error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Marks a payout as settled: flags its transactions as paid to the provider and
+   * applies the commission deducted from it. Safe to call more than once.
+   */
+  async completePayout(payoutId: string, transferData?: any) {
+    try {
+      const payout = await prisma.providerPayout.findUnique({ where: { id: payoutId } })
+      if (!payout) {
+        throw new Error("Payout not found")
+      }
+
+      if (payout.status === "COMPLETED") {
+        return payout
+      }
+
+      const now = new Date()
+      const updatedPayout = await prisma.$transaction(async (tx) => {
+        const updated = await tx.providerPayout.update({
+          where: { id: payout.id },
+          data: {
+            status: "COMPLETED",
+            paystackTransferCode: transferData?.transfer_code || payout.paystackTransferCode,
+            paystackTransferStatus: transferData?.status || payout.paystackTransferStatus,
+            paystackResponse: transferData || payout.paystackResponse || undefined,
+            processedAt: now,
+            payoutDate: now,
+            failureReason: null,
+          },
+        })
+
+        if (payout.transactionIds.length > 0) {
+          await tx.transaction.updateMany({
+            where: { id: { in: payout.transactionIds } },
+            data: { providerPaid: true, providerPaidAt: now },
+          })
+        }
+
+        await tx.fleetEarning.updateMany({ where: { payoutId: payout.id }, data: { paidAt: now } })
+
+        if (payout.paystackReference) {
+          const deductions = await tx.commissionPayment.findMany({
+            where: { payoutReference: payout.paystackReference, status: "PENDING" },
+          })
+
+          for (const deduction of deductions) {
+            await tx.commissionPayment.update({
+              where: { id: deduction.id },
+              data: { status: "COMPLETED", paidAt: now, payoutStatus: "COMPLETED", payoutProcessedAt: now },
+            })
+
+            if (deduction.billId) {
+              const bill = await tx.monthlyCommissionBill.findUnique({ where: { id: deduction.billId } })
+              const paid = await tx.commissionPayment.aggregate({
+                where: { billId: deduction.billId, status: "COMPLETED" },
+                _sum: { amount: true },
+              })
+
+              if (bill && (paid._sum.amount || 0) >= bill.finalCommissionDue) {
+                await tx.monthlyCommissionBill.update({
+                  where: { id: bill.id },
+                  data: { status: "PAID", paidAt: now, paymentMethod: "PAYOUT_DEDUCTION" },
+                })
+              }
+            }
+          }
+        }
+
+        return updated
+      })
+
+      if (updatedPayout.amount > 0) {
+        await this.notificationService.notifyProvider(payout.providerId, {
+          type: "PAYOUT_PROCESSED",
+          title: "Payout Sent",
+          body: `Your payout of ${payout.currency} ${payout.amount.toFixed(2)} has been sent`,
+          data: {
+            payoutId: payout.id,
+            amount: payout.amount,
+            commissionDeducted: payout.commissionDeducted,
+            reference: payout.paystackReference,
+          },
+        })
+      }
+
+      return updatedPayout
+    } catch (error) {
+      logger.error("Complete payout error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Marks a payout as failed or reversed and releases its commission deductions so the
+   * transactions are picked up again by the next batch. Bills a reversed payout had settled
+   * are reopened.
+   */
+  async failPayout(payoutId: string, reason: string, options: { reversed?: boolean; transferData?: any } = {}) {
+    try {
+      const payout = await prisma.providerPayout.findUnique({ where: { id: payoutId } })
+      if (!payout) {
+        throw new Error("Payout not found")
+      }
+
+      if (payout.status === "FAILED" || payout.status === "REVERSED") {
+        return payout
+      }
+
+      const updatedPayout = await prisma.providerPayout.update({
+        where: { id: payout.id },
+        data: {
+          status: options.reversed ? "REVERSED" : "FAILED",
+          paystackTransferStatus: options.transferData?.status || payout.paystackTransferStatus,
+          paystackResponse: options.transferData || payout.paystackResponse || undefined,
+          failureReason: reason,
+        },
+      })
+
+      // A reversed transfer was previously reported as successful
+      if (payout.status === "COMPLETED" && payout.transactionIds.length > 0) {
+        await prisma.transaction.updateMany({
+          where: { id: { in: payout.transactionIds } },
+          data: { providerPaid: false, providerPaidAt: null },
+        })
+      }
+
+      await this.releaseCommissionDeductions(payout, reason)
+
+      await this.releaseFleetEarnings(payout.id)
+
+      return updatedPayout
+    } catch (error) {
+      logger.error("Fail payout error:", error)
+      throw error
+    }
+  }
+
+  async getProviderPayouts(providerId: string, options: { page?: number; limit?: number; status?: string } = {}) {
+    try {
+      const { page = 1, limit = 20, status } = options
+      const where: any = { providerId }
+      if (status) where.status = status
+
+      const [payouts, total, unpaid] = await Promise.all([
+        prisma.providerPayout.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.providerPayout.count({ where }),
+        prisma.transaction.aggregate({
+          where: {
+            type: "PAYMENT",
+            status: "COMPLETED",
+            providerPaid: false,
+            booking: { providerId },
+          },
+          _sum: { providerEarning: true },
+        }),
+      ])
+
+      return {
+        payouts,
+        unpaidEarnings: unpaid._sum.providerEarning || 0,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }
+    } catch (error) {
+      logger.error("Get provider payouts error:", error)
+      throw error
+    }
+  }
+
+  async getAllPayouts(options: { page?: number; limit?: number; status?: string } = {}) {
+    try {
+      const { page = 1, limit = 20, status } = options
+      const where: any = {}
+      if (status) where.status = status
+
+      const [payouts, total] = await Promise.all([
+        prisma.providerPayout.findMany({
+          where,
+          include: {
+            provider: { select: { id: true, firstName: true, lastName: true, phone: true, role: true } },
+          },
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.providerPayout.count({ where }),
+      ])
+
+      return {
+        payouts,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }
+    } catch (error) {
+      logger.error("Get all payouts error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Puts a FAILED payout back in the queue with a fresh retry budget.
+   */
+  async retryPayout(payoutId: string) {
+    try {
+      const payout = await prisma.providerPayout.findUnique({ where: { id: payoutId } })
+      if (!payout) {
+        throw new Error("Payout not found")
+      }
+
+      if (payout.status !== "FAILED") {
+        throw new Error("Only failed payouts can be retried")
+      }
+
+      const openPayouts = await prisma.providerPayout.count({
+        where: {
+          id: { not: payout.id },
+          status: { in: ["PENDING", "PROCESSING", "COMPLETED"] },
+          transactionIds: { hasSome: payout.transactionIds },
+        },
+      })
+
+      if (openPayouts > 0) {
+        throw new Error("These earnings have already been included in a newer payout")
+      }
+
+      return prisma.providerPayout.update({
+        where: { id: payout.id },
+        data: {
+          status: "PENDING",
+          retryCount: 0,
+          failureReason: null,
+          paystackTransferCode: null,
+          paystackReference: this.generatePayoutReference(),
+          commissionDeducted: 0,
+          amount: payout.amount + (payout.commissionDeducted || 0),
+        },
+      })
+    } catch (error) {
+      logger.error("Retry payout error:", error)
+      throw error
+    }
+  }
+
+  private async buildProviderPayout(
+    providerId: string,
+    transactions: {
+      id: string
+      providerEarning: number | null
+      currency: string
+      booking: { fleetEarning: { operatorShare: number } | null } | null
+    }[],
+    onDemand: boolean,
+  ): Promise<ProviderPayout | null> {
+    const settings = await this.getProviderPayoutSettings(providerId)
+
+    if (!onDemand && !(await this.isPayoutDue(providerId, transactions[0].currency, settings.schedule))) {
+      return null
+    }
+
+    // Skip earnings already sitting in an open payout
+    const openPayouts = await prisma.providerPayout.findMany({
+      where: { providerId, status: { in: ["PENDING", "PROCESSING"] } },
+      select: { transactionIds: true },
+    })
+    const queuedIds = new Set(openPayouts.flatMap((payout) => payout.transactionIds))
+    const payable = transactions.filter((transaction) => !queuedIds.has(transaction.id))
+
+    // Fleet drivers are paid what is left after the fleet operator's share
+    const grossAmount = this.roundAmount(
+      payable.reduce((sum, transaction) => {
+        const earning = transaction.providerEarning || 0
+        return sum + earning - Math.min(transaction.booking?.fleetEarning?.operatorShare || 0, earning)
+      }, 0),
+    )
+
+    if (payable.length === 0 || grossAmount * 100 < settings.minimumPayoutAmount) {
+      return null
+    }
+
+    const provider = await prisma.user.findUnique({ where: { id: providerId } })
+    if (!provider) {
+      throw new Error("Provider not found")
+    }
+
+    const currency = payable[0].currency
+    const useMobileMoney =
+      (settings.preferredMethod === "MOBILE_MONEY" && !!provider.mobileMoneyNumber) || !provider.bankAccountNumber
+    const reference = this.generatePayoutReference()
+
+    return prisma.$transaction(async (tx) => {
+      // Deduct outstanding commission bills, oldest first
+      const bills =
+        currency === COMMISSION_BILL_CURRENCY
+          ? await tx.monthlyCommissionBill.findMany({
+              where: { userId: providerId, status: { in: [...OUTSTANDING_BILL_STATUSES] } },
+              orderBy: { dueDate: "asc" },
+            })
+          : []
+
+      let remaining = grossAmount
+      let commissionDeducted = 0
+      const deductions: { billId: string; amount: number }[] = []
+
+      for (const bill of bills) {
+        if (remaining <= 0) break
+
+        const covered = await tx.commissionPayment.aggregate({
+          where: { billId: bill.id, status: { in: ["PENDING", "PROCESSING", "COMPLETED"] } },
+          _sum: { amount: true },
+        })
+        const outstanding = this.roundAmount(bill.finalCommissionDue - (covered._sum.amount || 0))
+        if (outstanding <= 0) continue
+
+        const amount = Math.min(outstanding, remaining)
+        deductions.push({ billId: bill.id, amount })
+        commissionDeducted = this.roundAmount(commissionDeducted + amount)
+        remaining = this.roundAmount(remaining - amount)
+      }
+
+      const payout = await tx.providerPayout.create({
+        data: {
+          providerId,
+          amount: remaining,
+          currency,
+          status: "PENDING",
+          payoutMethod: useMobileMoney ? "MOBILE_MONEY" : "BANK_TRANSFER",
+          paystackReference: reference,
+          paystackRecipientCode: provider.paystackRecipientCode,
+          mobileMoneyProvider: useMobileMoney ? provider.mobileMoneyProvider : null,
+          mobileMoneyNumber: useMobileMoney ? provider.mobileMoneyNumber : null,
+          bankName: useMobileMoney ? null : provider.bankName,
+          bankAccountNumber: useMobileMoney ? null : provider.bankAccountNumber,
+          bankAccountName: useMobileMoney ? null : provider.bankAccountName,
+          bankCode: useMobileMoney ? null : provider.bankCode,
+          transactionIds: payable.map((transaction) => transaction.id),
+          commissionDeducted,
+          isScheduled: !onDemand,
+          scheduledFor: new Date(),
+        },
+      })
+
+      for (const deduction of deductions) {
+        await tx.commissionPayment.create({
+          data: {
+            userId: providerId,
+            billId: deduction.billId,
+            amount: deduction.amount,
+            currency,
+            paymentType: "MONTHLY_COMMISSION",
+            status: "PENDING",
+            payoutReference: reference,
+            payoutMethod: payout.payoutMethod,
+          },
+        })
+      }
+
+      return payout
+    })
+  }
+
+  /**
+   * Pays the fleet owner the operator share, in one currency, of trips whose payment has
+   * completed. The shares are claimed by the payout so a concurrent batch cannot pay them twice.
+   */
+  private async buildFleetPayout(
+    fleetId: string,
+    ownerId: string,
+    currency: string,
+    onDemand: boolean,
+  ): Promise<ProviderPayout | null> {
+    const settings = await this.getProviderPayoutSettings(ownerId)
+
+    if (!onDemand && !(await this.isPayoutDue(ownerId, currency, settings.schedule))) {
+      return null
+    }
+
+    const earnings = await prisma.fleetEarning.findMany({
+      where: {
+        fleetId,
+        currency,
+        payoutId: null,
+        booking: { transactions: { some: { type: "PAYMENT", status: "COMPLETED" } } },
+      },
+      select: { id: true, operatorShare: true, currency: true },
+    })
+
+    const amount = this.roundAmount(earnings.reduce((sum, earning) => sum + earning.operatorShare, 0))
+    if (earnings.length === 0 || amount <= 0 || amount * 100 < settings.minimumPayoutAmount) {
+      return null
+    }
+
+    const owner = await prisma.user.findUnique({ where: { id: ownerId } })
+    if (!owner) {
+      throw new Error("Fleet owner not found")
+    }
+
+    const useMobileMoney =
+      (settings.preferredMethod === "MOBILE_MONEY" && !!owner.mobileMoneyNumber) || !owner.bankAccountNumber
+
+    return prisma.$transaction(async (tx) => {
+      const payout = await tx.providerPayout.create({
+        data: {
+          providerId: ownerId,
+          amount,
+          currency,
+          status: "PENDING",
+          payoutMethod: useMobileMoney ? "MOBILE_MONEY" : "BANK_TRANSFER",
+          paystackReference: this.generatePayoutReference(),
+          paystackRecipientCode: owner.paystackRecipientCode,
+          mobileMoneyProvider: useMobileMoney ? owner.mobileMoneyProvider : null,
+          mobileMoneyNumber: useMobileMoney ? owner.mobileMoneyNumber : null,
+          bankName: useMobileMoney ? null : owner.bankName,
+          bankAccountNumber: useMobileMoney ? null : owner.bankAccountNumber,
+          bankAccountName: useMobileMoney ? null : owner.bankAccountName,
+          bankCode: useMobileMoney ? null : owner.bankCode,
+          transactionIds: [],
+          isScheduled: !onDemand,
+          scheduledFor: new Date(),
+        },
+      })
+
+      const claimed = await tx.fleetEarning.updateMany({
+        where: { id: { in: earnings.map((earning) => earning.id) }, payoutId: null },
+        data: { payoutId: payout.id },
+      })
+      if (claimed.count !== earnings.length) {
+        throw new Error("Fleet earnings were claimed by another payout")
+      }
+
+      return payout
+    })
+  }
+
+  // Each currency keeps its own cadence, so paying out one does not hold back the others
+  private async isPayoutDue(providerId: string, currency: string, schedule: PayoutSchedule): Promise<boolean> {
+    const intervalDays = PAYOUT_INTERVAL_DAYS[schedule]
+    if (intervalDays === null) return false
+
+    const lastPayout = await prisma.providerPayout.findFirst({
+      where: { providerId, currency, status: { notIn: ["FAILED", "CANCELLED"] } },
+      orderBy: { createdAt: "desc" },
+    })
+
+    return !lastPayout || Date.now() - lastPayout.createdAt.getTime() >= intervalDays * 24 * 60 * 60 * 1000
+  }
+
+  private async processSinglePayout(payout: ProviderPayout) {
+    // Claim the payout so a concurrent run does not transfer it twice
+    const claimed = await prisma.providerPayout.updateMany({
+      where: { id: payout.id, status: "PENDING" },
+      data: { status: "PROCESSING" },
+    })
+
+    if (claimed.count === 0) {
+      return
+    }
+
+    logger.info(`Processing payout ${payout.id} for provider ${payout.providerId}`)
+
+    try {
+      // Earnings fully consumed by commission: nothing to transfer
+      if (payout.amount <= 0) {
+        await this.completePayout(payout.id)
+        return
+      }
+
+      // A previous attempt may have reached Paystack before failing locally
+      if ((payout.retryCount > 0 || payout.paystackTransferCode) && payout.paystackReference) {
+        const existing = await this.paymentService.verifyTransfer(payout.paystackReference).catch(() => null)
+        if (existing?.status && existing.data) {
+          await this.applyTransferStatus(payout.id, existing.data)
+          return
+        }
+      }
+
+      const recipientCode = await this.ensureRecipient(payout)
+
+      const transfer = await this.paymentService.initiateTransfer({
+        amount: Math.round(payout.amount * 100), // Convert to minor units
+        recipient: recipientCode,
+        reference: payout.paystackReference!,
+        reason: `TripSync earnings payout`,
+        currency: payout.currency,
+      })
+
+      if (!transfer.status || !transfer.data) {
+        throw new Error(transfer.message || "Transfer was not accepted")
+      }
+
+      await prisma.providerPayout.update({
+        where: { id: payout.id },
+        data: {
+          paystackTransferCode: transfer.data.transfer_code,
+          paystackTransferStatus: transfer.data.status,
+          paystackRecipientCode: recipientCode,
+          paystackResponse: transfer.data,
+        },
+      })
+
+      await this.applyTransferStatus(payout.id, transfer.data)
+    } catch (error) {
+      // Hand the payout back to the retry logic in processPendingPayouts
+      await prisma.providerPayout.update({
+        where: { id: payout.id },
+        data: { status: "PENDING" },
+      })
+      throw error
+    }
+  }
+
+  /**
+   * "success" settles immediately; "pending"/"otp"/"received" stay PROCESSING until the
+   * transfer.success or transfer.failed webhook arrives.
+   */
+  private async applyTransferStatus(payoutId: string, transferData: any) {
+    switch (transferData.status) {
+      case "success":
+        await this.completePayout(payoutId, transferData)
+        break
+      case "failed":
+      case "reversed":
+        await this.failPayout(payoutId, transferData.reason || `Transfer ${transferData.status}`, {
+          reversed: transferData.status === "reversed",
+          transferData,
+        })
+        break
+      default:
+        logger.info(`Payout ${payoutId} transfer is ${transferData.status}, waiting for webhook`)
+    }
+  }
+
+  private async ensureRecipient(payout: ProviderPayout): Promise<string> {
+    if (payout.paystackRecipientCode) {
+      return payout.paystackRecipientCode
+    }
+
+    const provider = await prisma.user.findUnique({ where: { id: payout.providerId } })
+    if (!provider) {
+      throw new Error("Provider not found")
+    }
+
+    const name =
+      (payout.payoutMethod === "MOBILE_MONEY" ? provider.mobileMoneyAccountName : payout.bankAccountName) ||
+      `${provider.firstName || ""} ${provider.lastName || ""}`.trim() ||
+      provider.phone
+
+    let recipientData: Parameters<PaymentService["createTransferRecipient"]>[0]
+    if (payout.payoutMethod === "MOBILE_MONEY") {
+      const bankCode = payout.mobileMoneyProvider ? MOBILE_MONEY_BANK_CODES[payout.mobileMoneyProvider] : undefined
+      if (!bankCode || !payout.mobileMoneyNumber) {
+        throw new Error("Provider has no supported mobile money account for payouts")
+      }
+      recipientData = {
+        type: "mobile_money",
+        name,
+        account_number: payout.mobileMoneyNumber,
+        bank_code: bankCode,
+        currency: payout.currency,
+      }
+    } else {
+      const type = BANK_RECIPIENT_TYPES[payout.currency]
+      if (!type || !payout.bankAccountNumber || !payout.bankCode) {
+        throw new Error("Provider has no supported bank account for payouts")
+      }
+      recipientData = {
+        type,
+        name,
+        account_number: payout.bankAccountNumber,
+        bank_code: payout.bankCode,
+        currency: payout.currency,
+      }
+    }
+
+    const response = await this.paymentService.createTransferRecipient(recipientData)
+    const recipientCode = response.data?.recipient_code
+    if (!response.status || !recipientCode) {
+      throw new Error(response.message || "Transfer recipient was not created")
+    }
+
+    await prisma.user.update({
+      where: { id: provider.id },
+      data: { paystackRecipientCode: recipientCode },
+    })
+
+    return recipientCode
+  }
+
+  private async getProviderPayoutSettings(providerId: string): Promise<ProviderPayoutSettings> {
+    const [driverProfile, taxiDriverProfile] = await Promise.all([
+      prisma.driverProfile.findUnique({ where: { userId: providerId } }),
+      prisma.taxiDriverProfile.findUnique({ where: { userId: providerId } }),
+    ])
+    const profile = driverProfile || taxiDriverProfile
+
+    // Dispatch riders and movers have no payout preferences yet: weekly, mobile money, no minimum
+    return {
+      schedule: profile?.payoutSchedule || "WEEKLY",
+      preferredMethod: profile?.preferredPayoutMethod === "BANK_TRANSFER" ? "BANK_TRANSFER" : "MOBILE_MONEY",
+      minimumPayoutAmount: profile?.minimumPayoutAmount || 0,
+    }
+  }
+
+  private async releaseCommissionDeductions(payout: ProviderPayout, reason: string) {
+    if (!payout.paystackReference) return
+
+    // Completed deductions only exist when a settled payout is reversed
+    const deductions = await prisma.commissionPayment.findMany({
+      where: { payoutReference: payout.paystackReference, status: { in: ["PENDING", "COMPLETED"] } },
+      select: { id: true, billId: true, status: true },
+    })
+    if (deductions.length === 0) return
+
+    await prisma.$transaction(async (tx) => {
+      await tx.commissionPayment.updateMany({
+        where: { id: { in: deductions.map((deduction) => deduction.id) } },
+        data: { status: "FAILED", paidAt: null, payoutStatus: "FAILED", payoutFailureReason: reason },
+      })
+
+      const settledBillIds = new Set(
+        deductions
+          .filter((deduction) => deduction.status === "COMPLETED" && deduction.billId)
+          .map((deduction) => deduction.billId!),
+      )
+
+      for (const billId of settledBillIds) {
+        const bill = await tx.monthlyCommissionBill.findUnique({ where: { id: billId } })
+        if (!bill || bill.status !== "PAID") continue
+
+        const paid = await tx.commissionPayment.aggregate({
+          where: { billId, status: "COMPLETED" },
+          _sum: { amount: true },
+        })
+        if ((paid._sum.amount || 0) >= bill.finalCommissionDue) continue
+
+        await tx.monthlyCommissionBill.update({
+          where: { id: billId },
+          data: { status: bill.dueDate < new Date() ? "OVERDUE" : "PENDING", paidAt: null, paymentMethod: null },
+        })
+      }
+    })
+  }
+
+  // Hands a fleet payout's operator shares back to the next batch
+  private async releaseFleetEarnings(payoutId: string) {
+    await prisma.fleetEarning.updateMany({
+      where: { payoutId },
+      data: { payoutId: null, paidAt: null },
+    })
+  }
+
+  private roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100
+  }
+
+  private generatePayoutReference(): string {
+    return `pyt_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`
+  }
+}
@@ -0,0 +1,278 @@
+import crypto from "crypto"
+import { Prisma } from "@prisma/client"
+import prisma from "../config/database"
+import { PayoutService } from "./payout.service"
+import logger from "../utils/logger"
+
+export interface PaystackWebhookEventPayload {
+  event: string
+  data: any
+}
+
+export interface PaystackWebhookResult {
+  eventId: string
+  event: string
+  status: "PROCESSED" | "IGNORED" | "DUPLICATE"
+}
+
+// A delivery still PROCESSING after this long is assumed to have died
+const STALE_PROCESSING_MS = 10 * 60 * 1000
+
+export class PaystackWebhookService {
+  private paystackSecretKey = process.env.PAYSTACK_SECRET_KEY!
+  private payoutService = new PayoutService()
+
+  /**
+   * Paystack signs the raw request body with HMAC-SHA512 using the secret key
+   * and sends the hex digest in the x-paystack-signature header.
+   */
+  verifySignature(rawBody: Buffer | string, signature?: string): boolean {
+    if (!signature || !this.paystackSecretKey) {
+      return false
+    }
+
+    const expectedSignature = crypto.createHmac("sha512", this.paystackSecretKey).update(rawBody).digest("hex")
+
+    try {
+      return crypto.timingSafeEqual(Buffer.from(signature, "hex"), Buffer.from(expectedSignature, "hex"))
+    } catch (error) {
+      // Different lengths - signatures don't match
+      return false
+    }
+  }
+
+  /**
+   * Stores the event once and applies it to the matching Transaction, Booking and
+   * ProviderPayout rows. Replaying an event that was already handled is a no-op.
+   */
+  async handleEvent(payload: PaystackWebhookEventPayload, rawBody?: Buffer | string): Promise<PaystackWebhookResult> {
+    const eventId = this.getEventId(payload, rawBody)
+    const reference = payload.data?.reference || payload.data?.transaction_reference || null
+
+    try {
+      if (!(await this.claimEvent(eventId, payload, reference))) {
+        logger.info(`Paystack webhook ${eventId} already handled or being handled, skipping`)
+        return { eventId, event: payload.event, status: "DUPLICATE" }
+      }
+
+      let handled: boolean
+      try {
+        handled = await this.applyEvent(payload)
+      } catch (error) {
+        await prisma.paystackWebhookEvent.update({
+          where: { eventId },
+          data: {
+            status: "FAILED",
+            failureReason: error instanceof Error ? error.message : "Unknown error",
+          },
+        })
+        throw error
+      }
+
+      const status = handled ? "PROCESSED" : "IGNORED"
+      await prisma.paystackWebhookEvent.update({
+        where: { eventId },
+        data: {
+          status,
+          failureReason: null,
+          processedAt: new Date(),
+        },
+      })
+
+      logger.info(`Paystack webhook ${eventId} ${status.toLowerCase()}`)
+      return { eventId, event: payload.event, status }
+    } catch (error) {
+      logger.error("Handle Paystack webhook error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Only one delivery of an event may apply it. The first inserts it as PROCESSING; a retry can
+   * take it over once it has FAILED, or when the delivery handling it stopped part-way.
+   */
+  private async claimEvent(eventId: string, payload: PaystackWebhookEventPayload, reference: string | null) {
+    try {
+      await prisma.paystackWebhookEvent.create({
+        data: {
+          eventId,
+          event: payload.event,
+          reference,
+          payload: payload as any,
+          status: "PROCESSING",
+        },
+      })
+      return true
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002")) {
+        throw error
+      }
+    }
+
+    const claimed = await prisma.paystackWebhookEvent.updateMany({
+      where: {
+        eventId,
+        OR: [
+          { status: { in: ["RECEIVED", "FAILED"] } },
+          { status: "PROCESSING", updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) } },
+        ],
+      },
+      data: { status: "PROCESSING" },
+    })
+    return claimed.count > 0
+  }
+
+  private async applyEvent(payload: PaystackWebhookEventPayload): Promise<boolean> {
+    switch (payload.event) {
+      case "charge.success":
+        return this.handleChargeSuccess(payload.data)
+      case "transfer.success":
+        return this.handleTransferSuccess(payload.data)
+      case "transfer.failed":
+      case "transfer.reversed":
+        return this.handleTransferFailed(payload.event, payload.data)
+      case "refund.processed":
+        return this.handleRefundProcessed(payload.data)
+      default:
+        logger.info(`Unhandled Paystack webhook event: ${payload.event}`)
+        return false
+    }
+  }
+
+  private async handleChargeSuccess(data: any): Promise<boolean> {
+    const transaction = await prisma.transaction.findUnique({
+      where: { paystackReference: data.reference },
+    })
+
+    if (!transaction) {
+      logger.warn(`charge.success received for unknown reference ${data.reference}`)
+      return false
+    }
+
+    await prisma.$transaction(async (tx) => {
+      if (transaction.status !== "COMPLETED") {
+        await tx.transaction.update({
+          where: { id: transaction.id },
+          data: {
+            status: "COMPLETED",
+            paystackStatus: data.status,
+            paystackTransactionId: data.id?.toString(),
+            paystackFees: typeof data.fees === "number" ? data.fees / 100 : transaction.paystackFees,
+            paystackResponse: data,
+          },
+        })
+      }
+
+      if (transaction.bookingId) {
+        await tx.booking.updateMany({
+          where: { id: transaction.bookingId, paymentStatus: { not: "COMPLETED" } },
+          data: { paymentStatus: "COMPLETED" },
+        })
+      }
+    })
+
+    return true
+  }
+
+  private async handleTransferSuccess(data: any): Promise<boolean> {
+    const payout = await this.findPayoutForTransfer(data)
+
+    if (!payout) {
+      logger.warn(`transfer.success received for unknown transfer ${data.transfer_code}`)
+      return false
+    }
+
+    await this.payoutService.completePayout(payout.id, data)
+    return true
+  }
+
+  private async handleTransferFailed(event: string, data: any): Promise<boolean> {
+    const payout = await this.findPayoutForTransfer(data)
+
+    if (!payout) {
+      logger.warn(`${event} received for unknown transfer ${data.transfer_code}`)
+      return false
+    }
+
+    await this.payoutService.failPayout(payout.id, data.reason || data.gateway_response || `Paystack ${event}`, {
+      reversed: event === "transfer.reversed",
+      transferData: data,
+    })
+    return true
+  }
+
+  private async handleRefundProcessed(data: any): Promise<boolean> {
+    const reference = data.transaction_reference || data.transaction?.reference
+    const transaction = reference
+      ? await prisma.transaction.findUnique({ where: { paystackReference: reference } })
+      : null
+
+    if (!transaction) {
+      logger.warn(`refund.processed received for unknown reference ${reference}`)
+      return false
+    }
+
+    if (transaction.status === "REFUNDED") {
+      return true
+    }
+
+    const refundAmount = typeof data.amount === "number" ? data.amount / 100 : transaction.amount
+
+    await prisma.$transaction(async (tx) => {
+      // Partial refunds add up; the row lock taken here keeps concurrent refunds from racing
+      await tx.transaction.updateMany({
+        where: { id: transaction.id, refundAmount: null },
+        data: { refundAmount: 0 },
+      })
+      const refunded = await tx.transaction.update({
+        where: { id: transaction.id },
+        data: {
+          refundAmount: { increment: refundAmount },
+          refundedAt: new Date(),
+          refundReference: data.id?.toString(),
+          refundReason: data.merchant_note || data.customer_note || transaction.refundReason,
+        },
+      })
+
+      const isFullRefund = (refunded.refundAmount ?? 0) >= transaction.amount
+      if (isFullRefund) {
+        await tx.transaction.update({
+          where: { id: transaction.id },
+          data: { status: "REFUNDED" },
+        })
+      }
+
+      if (transaction.bookingId) {
+        await tx.booking.update({
+          where: { id: transaction.bookingId },
+          data: { paymentStatus: isFullRefund ? "REFUNDED" : "PARTIALLY_REFUNDED" },
+        })
+      }
+    })
+
+    return true
+  }
+
+  private async findPayoutForTransfer(data: any) {
+    const conditions: any[] = []
+    if (data.transfer_code) conditions.push({ paystackTransferCode: data.transfer_code })
+    if (data.reference) conditions.push({ paystackReference: data.reference })
+
+    if (conditions.length === 0) {
+      return null
+    }
+
+    return prisma.providerPayout.findFirst({ where: { OR: conditions } })
+  }
+
+  private getEventId(payload: PaystackWebhookEventPayload, rawBody?: Buffer | string): string {
+    const dataId = payload.data?.id ?? payload.data?.transfer_code ?? payload.data?.reference
+    if (dataId != null) {
+      return `${payload.event}:${dataId}`
+    }
+
+    // Nothing identifies the event, so identical bodies are treated as the same delivery
+    const body = rawBody ?? JSON.stringify(payload)
+    return `${payload.event}:sha256:${crypto.createHash("sha256").update(body).digest("hex")}`
+  }
+}
@@ -1,5 +1,6 @@
 import prisma from "../config/database"
 import { LocationService } from "./location.service"
+import { GEO_INDEXES, geoIndexService } from "./geo-index.service"
 import logger from "../utils/logger"
 
 export class PlaceService {
@@ -145,72 +146,56 @@ export class PlaceService {
     try {
       const { latitude, longitude, radius = 5000, limit = 20, categoryId } = params
 
-      const where: any = {
-        isActive: true,
-        isApproved: true,
-        location: {
-          isNot: null,
-        },
-      }
-
-      if (categoryId) {
-        where.categoryId = categoryId
-      }
-
-      // Get places with location data
-      const places = await prisma.place.findMany({
-        where,
-        include: {
-          location: true,
-          category: true,
-          placePhotos: {
-            take: 3,
-            where: { isApproved: true },
-          },
-          placeVotes: {
-            select: {
-              isLiked: true,
+      const nearbyPlaces = await geoIndexService.findNearest(
+        GEO_INDEXES.PLACES,
+        { latitude, longitude, radius, limit },
+        (placeIds) =>
+          prisma.place.findMany({
+            where: {
+              id: { in: placeIds },
+              isActive: true,
+              isApproved: true,
+              location: {
+                isNot: null,
+              },
+              ...(categoryId && { categoryId }),
             },
-          },
-          _count: {
-            select: {
-              placeVotes: true,
+            include: {
+              location: true,
+              category: true,
+              placePhotos: {
+                take: 3,
+                where: { isApproved: true },
+              },
+              placeVotes: {
+                select: {
+                  isLiked: true,
+                },
+              },
+              _count: {
+                select: {
+                  placeVotes: true,
+                },
+              },
             },
-          },
-        },
-        take: limit * 2, // Get more to filter by distance
+          }),
+        (place) => place.id,
+      )
+
+      const placesWithDistance = nearbyPlaces.map((place) => {
+        // Calculate like percentage
+        const totalVotes = place._count.placeVotes
+        const likes = place.placeVotes.filter((vote) => vote.isLiked).length
+        const likePercentage = totalVotes > 0 ? (likes / totalVotes) * 100 : 0
+
+        return {
+          ...place,
+          distance: Math.round(place.distance),
+          likePercentage: Math.round(likePercentage),
+          totalVotes,
+        }
       })
 
-      // Calculate distances and filter
-      const placesWithDistance = places
-        .map((place) => {
-          if (!place.location) return null
-
-          const distance = this.locationService.calculateDistance(
-            latitude,
-            longitude,
-            place.location.latitude,
-            place.location.longitude,
-          )
-
-          if (distance > radius) return null
-
-          // Calculate like percentage
-          const totalVotes = place._count.placeVotes
-          const likes = place.placeVotes.filter((vote) => vote.isLiked).length
-          const likePercentage = totalVotes > 0 ? (likes / totalVotes) * 100 : 0
-
-          return {
-            ...place,
-            distance: Math.round(distance),
-            likePercentage: Math.round(likePercentage),
-            totalVotes,
-          }
-        })
-        .filter((place): place is NonNullable<typeof place> => place !== null)
-        .sort((a, b) => a.distance - b.distance)
-        .slice(0, limit)
-
       return placesWithDistance
     } catch (error) {
       logger.error("Get nearby places error:", error)
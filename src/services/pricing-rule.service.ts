@@ -0,0 +1,534 @@
+import { VehicleType } from "@prisma/client"
+import type { PricingRule, PricingType, Prisma } from "@prisma/client"
+import prisma from "../config/database"
+import { ServiceZoneService } from "./service-zone.service"
+import { auditService } from "./audit.service"
+import logger from "../utils/logger"
+import type { AppliedPricingRule } from "../types"
+
+/**
+ * Conditions a rule needs to apply. Every listed condition must match; times are Africa/Accra (GMT).
+ */
+export interface PricingRuleConditions {
+  timeWindows?: Array<{ start: string; end: string }> // HH:mm, end exclusive, may wrap past midnight
+  daysOfWeek?: number[] // 0 = Sunday ... 6 = Saturday
+  vehicleTypes?: VehicleType[]
+}
+
+export interface PricingContext {
+  serviceType: string
+  zoneId?: string | null
+  // Used to look up the zone when zoneId is not given
+  latitude?: number
+  longitude?: number
+  rideType?: string
+  vehicleType?: string
+  at?: Date
+}
+
+export interface PricingRuleData {
+  serviceType: string
+  serviceZoneId?: string | null
+  rideType?: string | null
+  name: string
+  type: PricingType
+  basePrice?: number
+  pricePerKm?: number | null
+  pricePerMinute?: number | null
+  pricePerHour?: number | null
+  minimumFare?: number | null
+  maximumFare?: number | null
+  surgeMultiplier?: number | null
+  conditions?: PricingRuleConditions | null
+  priority?: number
+  isActive?: boolean
+  validFrom?: Date | null
+  validTo?: Date | null
+}
+
+export interface ResolvedPricing {
+  // Most specific matching rate card, or null to use the service type defaults
+  rateCard: PricingRule | null
+  // null when the service has no surge rules at all, so callers keep their built-in time surge
+  surgeMultiplier: number | null
+  appliedRules: AppliedPricingRule[]
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+const DEFAULT_TIMEZONE = "Africa/Accra"
+
+export class PricingRuleService {
+  private serviceZoneService = new ServiceZoneService()
+
+  /**
+   * Pick the rate card and surge multiplier that apply to a booking
+   */
+  async resolveRules(context: PricingContext, candidates?: PricingRule[]): Promise<ResolvedPricing> {
+    try {
+      const at = context.at || new Date()
+      let zoneId = context.zoneId
+      let timezone: string | null | undefined
+      if (zoneId === undefined && context.latitude !== undefined && context.longitude !== undefined) {
+        const zone = await this.serviceZoneService.findZoneByCoordinates(context.latitude, context.longitude)
+        zoneId = zone?.id ?? null
+        timezone = zone?.timezone
+      } else if (zoneId) {
+        const zone = await prisma.serviceZone.findUnique({ where: { id: zoneId }, select: { timezone: true } })
+        timezone = zone?.timezone
+      }
+
+      // Day and time conditions are read off the zone's local clock
+      const localTime = this.getLocalTime(at, timezone || DEFAULT_TIMEZONE)
+
+      const rules = candidates ?? (await this.getLiveRules(context.serviceType))
+      const matching = rules.filter((rule) => this.matches(rule, { ...context, zoneId, at }, localTime))
+
+      const rateCard =
+        matching
+          .filter((rule) => rule.type !== "SURGE")
+          .sort(
+            (a, b) =>
+              this.specificity(b) - this.specificity(a) ||
+              b.priority - a.priority ||
+              b.updatedAt.getTime() - a.updatedAt.getTime(),
+          )[0] || null
+
+      // Overlapping surge windows don't stack - the strongest one wins
+      const surgeRule =
+        matching
+          .filter((rule) => rule.type === "SURGE")
+          .sort((a, b) => (b.surgeMultiplier ?? 1) - (a.surgeMultiplier ?? 1))[0] || null
+      const hasSurgeRules = rules.some((rule) => rule.type === "SURGE")
+
+      return {
+        rateCard,
+        surgeMultiplier: hasSurgeRules ? Math.max(surgeRule?.surgeMultiplier ?? 1, 1) : null,
+        appliedRules: [rateCard, surgeRule]
+          .filter((rule): rule is PricingRule => !!rule)
+          .map((rule) => ({ id: rule.id, name: rule.name, type: rule.type, version: rule.version })),
+      }
+    } catch (error) {
+      logger.error("Resolve pricing rules error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Current, active rules for a service type
+   */
+  async getLiveRules(serviceType: string): Promise<PricingRule[]> {
+    return prisma.pricingRule.findMany({
+      where: { isActive: true, supersededAt: null, serviceType: { name: serviceType } },
+    })
+  }
+
+  /**
+   * Unsaved rule used by dry runs. It is never written to the database.
+   */
+  async buildDraftRule(data: PricingRuleData, index = 0): Promise<PricingRule> {
+    this.validateRuleData(data)
+    const now = new Date()
+
+    return {
+      id: `draft-${index + 1}`,
+      serviceTypeId: await this.getServiceTypeId(data.serviceType),
+      serviceZoneId: data.serviceZoneId ?? null,
+      rideType: data.rideType ?? null,
+      name: data.name,
+      type: data.type,
+      basePrice: data.basePrice ?? 0,
+      pricePerKm: data.pricePerKm ?? null,
+      pricePerMinute: data.pricePerMinute ?? null,
+      pricePerHour: data.pricePerHour ?? null,
+      minimumFare: data.minimumFare ?? null,
+      maximumFare: data.maximumFare ?? null,
+      surgeMultiplier: data.surgeMultiplier ?? 1,
+      conditions: (data.conditions ?? null) as Prisma.JsonValue,
+      priority: data.priority ?? 0,
+      isActive: true,
+      validFrom: data.validFrom ?? null,
+      validTo: data.validTo ?? null,
+      ruleGroupId: `draft-${index + 1}`,
+      version: 0,
+      supersededAt: null,
+      createdBy: null,
+      createdAt: now,
+      updatedAt: now,
+    }
+  }
+
+  async listRules(filters: { serviceType?: string; zoneId?: string; includeInactive?: boolean } = {}) {
+    try {
+      return await prisma.pricingRule.findMany({
+        where: {
+          supersededAt: null,
+          ...(!filters.includeInactive && { isActive: true }),
+          ...(filters.serviceType && { serviceType: { name: filters.serviceType } }),
+          ...(filters.zoneId && { serviceZoneId: filters.zoneId }),
+        },
+        include: {
+          serviceType: { select: { id: true, name: true, displayName: true } },
+          serviceZone: { select: { id: true, name: true } },
+        },
+        orderBy: [{ serviceTypeId: "asc" }, { priority: "desc" }, { createdAt: "asc" }],
+      })
+    } catch (error) {
+      logger.error("List pricing rules error:", error)
+      throw error
+    }
+  }
+
+  async getRule(ruleId: string) {
+    try {
+      const rule = await prisma.pricingRule.findUnique({
+        where: { id: ruleId },
+        include: {
+          serviceType: { select: { id: true, name: true, displayName: true } },
+          serviceZone: { select: { id: true, name: true } },
+        },
+      })
+
+      if (!rule) {
+        throw new Error("Pricing rule not found")
+      }
+
+      return rule
+    } catch (error) {
+      logger.error("Get pricing rule error:", error)
+      throw error
+    }
+  }
+
+  async getRuleVersions(ruleId: string) {
+    try {
+      const rule = await this.getRule(ruleId)
+
+      return await prisma.pricingRule.findMany({
+        where: { ruleGroupId: rule.ruleGroupId },
+        orderBy: { version: "desc" },
+      })
+    } catch (error) {
+      logger.error("Get pricing rule versions error:", error)
+      throw error
+    }
+  }
+
+  async createRule(data: PricingRuleData, adminId: string) {
+    try {
+      this.validateRuleData(data)
+
+      const rule = await prisma.pricingRule.create({
+        data: {
+          ...this.toRuleFields(data),
+          serviceTypeId: await this.getServiceTypeId(data.serviceType),
+          createdBy: adminId,
+        },
+      })
+
+      await auditService.logAdminAction(adminId, "PRICING_RULE_CREATED", "pricing_rule", rule.id, {
+        name: rule.name,
+        serviceType: data.serviceType,
+        type: rule.type,
+      })
+
+      return rule
+    } catch (error) {
+      logger.error("Create pricing rule error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Edit a rule by publishing a new version. The previous version is kept for history.
+   */
+  async updateRule(ruleId: string, data: Partial<PricingRuleData>, adminId: string) {
+    try {
+      const current = await prisma.pricingRule.findUnique({
+        where: { id: ruleId },
+        include: { serviceType: { select: { name: true } } },
+      })
+
+      if (!current) {
+        throw new Error("Pricing rule not found")
+      }
+
+      if (current.supersededAt) {
+        throw new Error("Only the current version of a rule can be edited")
+      }
+
+      const merged: PricingRuleData = {
+        serviceType: data.serviceType ?? current.serviceType.name,
+        serviceZoneId: data.serviceZoneId !== undefined ? data.serviceZoneId : current.serviceZoneId,
+        rideType: data.rideType !== undefined ? data.rideType : current.rideType,
+        name: data.name ?? current.name,
+        type: data.type ?? current.type,
+        basePrice: data.basePrice ?? current.basePrice,
+        pricePerKm: data.pricePerKm !== undefined ? data.pricePerKm : current.pricePerKm,
+        pricePerMinute: data.pricePerMinute !== undefined ? data.pricePerMinute : current.pricePerMinute,
+        pricePerHour: data.pricePerHour !== undefined ? data.pricePerHour : current.pricePerHour,
+        minimumFare: data.minimumFare !== undefined ? data.minimumFare : current.minimumFare,
+        maximumFare: data.maximumFare !== undefined ? data.maximumFare : current.maximumFare,
+        surgeMultiplier: data.surgeMultiplier !== undefined ? data.surgeMultiplier : current.surgeMultiplier,
+        conditions:
+          data.conditions !== undefined ? data.conditions : (current.conditions as PricingRuleConditions | null),
+        priority: data.priority ?? current.priority,
+        isActive: data.isActive ?? current.isActive,
+        validFrom: data.validFrom !== undefined ? data.validFrom : current.validFrom,
+        validTo: data.validTo !== undefined ? data.validTo : current.validTo,
+      }
+      this.validateRuleData(merged)
+
+      const serviceTypeId = await this.getServiceTypeId(merged.serviceType)
+      const rule = await prisma.$transaction(async (tx) => {
+        await tx.pricingRule.update({
+          where: { id: current.id },
+          data: { supersededAt: new Date(), isActive: false },
+        })
+
+        return tx.pricingRule.create({
+          data: {
+            ...this.toRuleFields(merged),
+            serviceTypeId,
+            ruleGroupId: current.ruleGroupId,
+            version: current.version + 1,
+            createdBy: adminId,
+          },
+        })
+      })
+
+      await auditService.logAdminAction(adminId, "PRICING_RULE_UPDATED", "pricing_rule", rule.id, {
+        ruleGroupId: rule.ruleGroupId,
+        fromVersion: current.version,
+        toVersion: rule.version,
+        changes: data,
+      })
+
+      return rule
+    } catch (error) {
+      logger.error("Update pricing rule error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Publish an older version again as the newest version of its rule
+   */
+  async restoreVersion(ruleId: string, adminId: string) {
+    try {
+      const version = await prisma.pricingRule.findUnique({
+        where: { id: ruleId },
+        include: { serviceType: { select: { name: true } } },
+      })
+
+      if (!version) {
+        throw new Error("Pricing rule not found")
+      }
+
+      const current = await prisma.pricingRule.findFirst({
+        where: { ruleGroupId: version.ruleGroupId, supersededAt: null },
+      })
+
+      if (!current || current.id === version.id) {
+        throw new Error("This version is already the current version")
+      }
+
+      return await this.updateRule(
+        current.id,
+        {
+          serviceType: version.serviceType.name,
+          serviceZoneId: version.serviceZoneId,
+          rideType: version.rideType,
+          name: version.name,
+          type: version.type,
+          basePrice: version.basePrice,
+          pricePerKm: version.pricePerKm,
+          pricePerMinute: version.pricePerMinute,
+          pricePerHour: version.pricePerHour,
+          minimumFare: version.minimumFare,
+          maximumFare: version.maximumFare,
+          surgeMultiplier: version.surgeMultiplier,
+          conditions: version.conditions as PricingRuleConditions | null,
+          priority: version.priority,
+          isActive: true,
+          validFrom: version.validFrom,
+          validTo: version.validTo,
+        },
+        adminId,
+      )
+    } catch (error) {
+      logger.error("Restore pricing rule version error:", error)
+      throw error
+    }
+  }
+
+  async deactivateRule(ruleId: string, adminId: string) {
+    try {
+      const rule = await prisma.pricingRule.findUnique({ where: { id: ruleId } })
+
+      if (!rule) {
+        throw new Error("Pricing rule not found")
+      }
+
+      if (rule.supersededAt) {
+        throw new Error("Only the current version of a rule can be deactivated")
+      }
+
+      const updated = await prisma.pricingRule.update({
+        where: { id: ruleId },
+        data: { isActive: false },
+      })
+
+      await auditService.logAdminAction(adminId, "PRICING_RULE_DEACTIVATED", "pricing_rule", ruleId, {
+        name: rule.name,
+      })
+
+      return updated
+    } catch (error) {
+      logger.error("Deactivate pricing rule error:", error)
+      throw error
+    }
+  }
+
+  private matches(
+    rule: PricingRule,
+    context: PricingContext & { at: Date },
+    localTime: { day: number; minutes: number },
+  ): boolean {
+    if (rule.validFrom && context.at < rule.validFrom) return false
+    if (rule.validTo && context.at > rule.validTo) return false
+    if (rule.serviceZoneId && rule.serviceZoneId !== context.zoneId) return false
+    if (rule.rideType && rule.rideType !== context.rideType) return false
+
+    const conditions = (rule.conditions || {}) as PricingRuleConditions
+
+    if (conditions.daysOfWeek?.length && !conditions.daysOfWeek.includes(localTime.day)) {
+      return false
+    }
+
+    if (conditions.timeWindows?.length) {
+      const minutes = localTime.minutes
+      const inWindow = conditions.timeWindows.some((window) => {
+        const start = this.toMinutes(window.start)
+        const end = this.toMinutes(window.end)
+        return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+      })
+      if (!inWindow) return false
+    }
+
+    if (conditions.vehicleTypes?.length) {
+      if (!context.vehicleType || !conditions.vehicleTypes.includes(context.vehicleType as VehicleType)) {
+        return false
+      }
+    }
+
+    return true
+  }
+
+  /**
+   * Zone-specific beats ride-type-specific beats conditional beats catch-all
+   */
+  private specificity(rule: PricingRule): number {
+    const conditions = (rule.conditions || {}) as PricingRuleConditions
+    const hasConditions = !!(
+      conditions.timeWindows?.length ||
+      conditions.daysOfWeek?.length ||
+      conditions.vehicleTypes?.length
+    )
+
+    return (rule.serviceZoneId ? 4 : 0) + (rule.rideType ? 2 : 0) + (hasConditions ? 1 : 0)
+  }
+
+  private validateRuleData(data: PricingRuleData) {
+    if (data.type === "SURGE") {
+      if (!data.surgeMultiplier || data.surgeMultiplier < 1) {
+        throw new Error("Surge rules need a surge multiplier of at least 1")
+      }
+    }
+
+    if (data.minimumFare != null && data.maximumFare != null && data.maximumFare < data.minimumFare) {
+      throw new Error("Maximum fare must not be below the minimum fare")
+    }
+
+    if (data.validFrom && data.validTo && data.validTo <= data.validFrom) {
+      throw new Error("validTo must be after validFrom")
+    }
+
+    const conditions = data.conditions
+    if (!conditions) return
+
+    for (const window of conditions.timeWindows || []) {
+      if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+        throw new Error("Time windows must use HH:mm")
+      }
+    }
+
+    if (conditions.daysOfWeek?.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new Error("Days of week must be between 0 (Sunday) and 6 (Saturday)")
+    }
+
+    const vehicleTypes = Object.values(VehicleType) as string[]
+    const unknown = conditions.vehicleTypes?.filter((type) => !vehicleTypes.includes(type))
+    if (unknown?.length) {
+      throw new Error(`Unknown vehicle type(s): ${unknown.join(", ")}`)
+    }
+  }
+
+  private toRuleFields(data: PricingRuleData) {
+    return {
+      serviceZoneId: data.serviceZoneId ?? null,
+      rideType: data.rideType ?? null,
+      name: data.name,
+      type: data.type,
+      basePrice: data.basePrice ?? 0,
+      pricePerKm: data.pricePerKm ?? null,
+      pricePerMinute: data.pricePerMinute ?? null,
+      pricePerHour: data.pricePerHour ?? null,
+      minimumFare: data.minimumFare ?? null,
+      maximumFare: data.maximumFare ?? null,
+      surgeMultiplier: data.surgeMultiplier ?? 1,
+      conditions: (data.conditions ?? undefined) as Prisma.InputJsonValue | undefined,
+      priority: data.priority ?? 0,
+      isActive: data.isActive ?? true,
+      validFrom: data.validFrom ?? null,
+      validTo: data.validTo ?? null,
+    }
+  }
+
+  private getLocalTime(at: Date, timezone: string): { day: number; minutes: number } {
+    const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+    let parts: Intl.DateTimeFormatPart[]
+    try {
+      parts = new Intl.DateTimeFormat("en-GB", {
+        timeZone: timezone,
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+      }).formatToParts(at)
+    } catch {
+      logger.warn(`Unknown zone timezone ${timezone}, using ${DEFAULT_TIMEZONE}`)
+      return this.getLocalTime(at, DEFAULT_TIMEZONE)
+    }
+
+    const value = (type: string) => parts.find((part) => part.type === type)?.value || ""
+    return {
+      day: weekdays.indexOf(value("weekday")),
+      minutes: Number(value("hour")) * 60 + Number(value("minute")),
+    }
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(":").map(Number)
+    return hours * 60 + minutes
+  }
+
+  private async getServiceTypeId(serviceName: string): Promise<string> {
+    const serviceType = await prisma.serviceType.findUnique({
+      where: { name: serviceName },
+    })
+    if (!serviceType) {
+      throw new Error(`Service type ${serviceName} not found`)
+    }
+    return serviceType.id
+  }
+}
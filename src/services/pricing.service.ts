@@ -1,7 +1,11 @@
 import prisma from "../config/database"
 import { LocationService } from "./location.service"
+import { PromotionService } from "./promotion.service"
+import { PricingRuleService } from "./pricing-rule.service"
+import type { PricingContext, PricingRuleData, ResolvedPricing } from "./pricing-rule.service"
+import type { PricingRule } from "@prisma/client"
 import logger from "../utils/logger"
-import type { ServiceEstimate, RideServiceEstimate } from "../types" // Import new interface
+import type { ServiceEstimate, RideServiceEstimate, PromoQuote } from "../types" // Import new interface
 
 interface PricingConfig {
   rideTypeMultipliers: Record<string, number>
@@ -49,6 +53,8 @@ interface PricingConfig {
 
 export class PricingService {
   private locationService = new LocationService()
+  private promotionService = new PromotionService()
+  private pricingRuleService = new PricingRuleService()
 
   private config: PricingConfig = {
     rideTypeMultipliers: {
@@ -110,7 +116,12 @@ export class PricingService {
   /**
    * Enhanced surge pricing with stability logic
    */
-  private async calculateSurgePricing(latitude: number, longitude: number, scheduledAt?: Date): Promise<number> {
+  private async calculateSurgePricing(
+    latitude: number,
+    longitude: number,
+    scheduledAt?: Date,
+    ruleSurge: number | null = null,
+  ): Promise<number> {
     try {
       const currentTime = scheduledAt || new Date()
 
@@ -139,7 +150,8 @@ export class PricingService {
       // NEW: Only apply time-based surge if we have minimum drivers
       let surgeMultiplier = 1.0
       if (supplyCount >= this.config.surgeFactors.minDriversForSurge) {
-        surgeMultiplier = this.calculateTimeBasedSurge(currentTime)
+        // Surge pricing rules replace the built-in rush hour and late night factors once configured
+        surgeMultiplier = ruleSurge ?? this.calculateTimeBasedSurge(currentTime)
         console.log(`🕐 Time-based Surge (${supplyCount} drivers available): ${surgeMultiplier.toFixed(2)}x`)
       } else {
         console.log(
@@ -357,6 +369,10 @@ export class PricingService {
       totalGroupPrice: number
       currentGroupPassengers: number
     }
+    userId?: string
+    promoCode?: string
+    // Rules to price with instead of the live ones, used by simulations
+    pricingRules?: PricingRule[]
   }): Promise<RideServiceEstimate> {
     try {
       const {
@@ -368,6 +384,9 @@ export class PricingService {
         scheduledAt,
         isSharedRide = false,
         sharedRideGroupDetails,
+        userId,
+        promoCode,
+        pricingRules: candidateRules,
       } = params
 
       // Validate inputs
@@ -392,10 +411,23 @@ export class PricingService {
         dropoffLongitude,
       )
 
+      // Rates come from the matching pricing rule, falling back to the service type rates
+      const pricingRules = await this.resolvePricingRules(
+        {
+          serviceType: "RIDE",
+          latitude: pickupLatitude,
+          longitude: pickupLongitude,
+          rideType,
+          at: scheduledAt,
+        },
+        candidateRules,
+      )
+      const rateCard = pricingRules.rateCard
+
       // UPDATED: New Ghana-friendly rates
-      const basePrice = serviceType.basePrice || 3
-      const pricePerKm = serviceType.pricePerKm || 0.5
-      const pricePerMinute = serviceType.pricePerMinute || 0.4
+      const basePrice = rateCard ? rateCard.basePrice : serviceType.basePrice || 3
+      const pricePerKm = rateCard?.pricePerKm ?? (serviceType.pricePerKm || 0.5)
+      const pricePerMinute = rateCard?.pricePerMinute ?? (serviceType.pricePerMinute || 0.4)
 
       console.log(`🚗 RIDE CALCULATION START`)
       console.log(`📍 Distance: ${(distance / 1000).toFixed(2)}km`)
@@ -406,13 +438,19 @@ export class PricingService {
       console.log(`   - Price per KM: GH₵${pricePerKm}`)
       console.log(`   - Price per Minute: GH₵${pricePerMinute}`)
       console.log(`🤝 Is Shared Ride: ${isSharedRide}`)
+      console.log(`📐 Pricing Rule: ${rateCard ? `${rateCard.name} (v${rateCard.version})` : "service type defaults"}`)
 
-      // Apply ride type multiplier
-      const multiplier = this.config.rideTypeMultipliers[rideType]
+      // Apply ride type multiplier - a rule written for this ride type is already priced for it
+      const multiplier = rateCard?.rideType ? 1 : this.config.rideTypeMultipliers[rideType]
       console.log(`🔢 Ride Type Multiplier (${rideType}): ${multiplier}x`)
 
       // Calculate enhanced surge pricing
-      const surgePricing = await this.calculateSurgePricing(pickupLatitude, pickupLongitude, scheduledAt)
+      const surgePricing = await this.calculateSurgePricing(
+        pickupLatitude,
+        pickupLongitude,
+        scheduledAt,
+        pricingRules.surgeMultiplier,
+      )
 
       // Calculate subtotal before surge
       const distancePrice = (distance / 1000) * pricePerKm
@@ -429,7 +467,7 @@ export class PricingService {
       console.log(`   - After Ride Type (${multiplier}x): GH₵${subtotal.toFixed(2)}`)
       console.log(`   - Surge Multiplier: ${surgePricing.toFixed(2)}x`)
 
-      let estimatedPrice = this.applyMinimumFare(Math.round(subtotal * surgePricing))
+      let estimatedPrice = this.applyMinimumFare(Math.round(subtotal * surgePricing), rateCard)
       let totalSharedRidePriceForGroup: number | undefined = undefined
       let isFirstSharedRideBooking = false
 
@@ -467,6 +505,21 @@ export class PricingService {
         `🎯 Price Stability: ${isStable ? "✅ STABLE" : "⚠️  UNSTABLE"} (${expectedRange.min}-${expectedRange.max} range)`,
       )
 
+      // Promo discount comes off the rider's price; a new shared ride group total stays undiscounted
+      let promotion: PromoQuote | undefined
+      if (promoCode) {
+        promotion = await this.applyPromoCode({
+          promoCode,
+          userId,
+          serviceType: rideType === "TAXI" ? "TAXI" : "RIDE",
+          amount: estimatedPrice,
+          latitude: pickupLatitude,
+          longitude: pickupLongitude,
+        })
+        estimatedPrice = promotion.finalAmount
+        console.log(`🏷️  Promo ${promotion.code}: -GH₵${promotion.discountAmount} → GH₵${estimatedPrice}`)
+      }
+
       console.log(`🚗 RIDE CALCULATION END\n`)
 
       // Get available providers count
@@ -499,6 +552,8 @@ export class PricingService {
         // NEW: Shared ride specific return values
         isFirstSharedRideBooking,
         totalSharedRidePriceForGroup,
+        promotion,
+        appliedPricingRules: pricingRules.appliedRules,
       }
     } catch (error) {
       logger.error("Calculate ride estimate error:", error)
@@ -597,10 +652,24 @@ export class PricingService {
   }
 
   /**
-   * Apply minimum fare
+   * Apply minimum fare, and the maximum fare when the pricing rule sets one
    */
-  private applyMinimumFare(price: number): number {
-    return Math.max(price, this.config.minimumFare)
+  private applyMinimumFare(price: number, rateCard?: PricingRule | null): number {
+    const minimumFare = rateCard?.minimumFare ?? this.config.minimumFare
+    const fare = Math.max(price, minimumFare)
+    return rateCard?.maximumFare ? Math.min(fare, rateCard.maximumFare) : fare
+  }
+
+  /**
+   * Rate card and surge from the pricing rules. Falls back to the built-in rates if the rules can't be loaded.
+   */
+  async resolvePricingRules(context: PricingContext, candidates?: PricingRule[]): Promise<ResolvedPricing> {
+    try {
+      return await this.pricingRuleService.resolveRules(context, candidates)
+    } catch (error) {
+      logger.error("Resolve pricing rules failed, using built-in rates:", error)
+      return { rateCard: null, surgeMultiplier: null, appliedRules: [] }
+    }
   }
 
   /**
@@ -623,7 +692,8 @@ export class PricingService {
         throw new Error("Duration cannot exceed 24 hours")
       }
 
-      let hourlyRate = 12 // REDUCED: GH₵12/hour for stability
+      const pricingRules = await this.resolvePricingRules({ serviceType: "DAY_BOOKING", at: scheduledAt })
+      let hourlyRate = pricingRules.rateCard?.pricePerHour ?? 12 // REDUCED: GH₵12/hour for stability
 
       console.log(`🚐 DAY BOOKING CALCULATION START`)
       console.log(`⏳ Duration: ${duration} hours`)
@@ -646,15 +716,15 @@ export class PricingService {
         console.log(`🏷️  Default Rate: GH₵${hourlyRate}/hour`)
       }
 
-      // Calculate time-based multiplier using enhanced approach
-      const timeMultiplier = this.calculateTimeBasedMultiplier(scheduledAt)
+      // Calculate time-based multiplier using enhanced approach, unless surge rules are configured
+      const timeMultiplier = pricingRules.surgeMultiplier ?? this.calculateTimeBasedMultiplier(scheduledAt)
 
       const baseAmount = hourlyRate * duration
       console.log(`💰 Base Amount: ${duration}h × GH₵${hourlyRate} = GH₵${baseAmount}`)
       console.log(`🔢 Time Multiplier: ${timeMultiplier.toFixed(2)}x`)
 
       const beforeMinimum = baseAmount * timeMultiplier
-      const totalPrice = this.applyMinimumFare(Math.round(beforeMinimum))
+      const totalPrice = this.applyMinimumFare(Math.round(beforeMinimum), pricingRules.rateCard)
 
       console.log(`💵 After Time Multiplier: GH₵${beforeMinimum.toFixed(2)}`)
       console.log(`💵 Final Price (min GH₵${this.config.minimumFare}): GH₵${totalPrice}`)
@@ -693,6 +763,7 @@ export class PricingService {
           actualHourlyRate: Math.round(actualHourlyRate),
           expectedRange: expectedHourlyRange,
         },
+        appliedPricingRules: pricingRules.appliedRules,
       }
     } catch (error) {
       logger.error("Calculate day booking price error:", error)
@@ -735,9 +806,21 @@ export class PricingService {
     dropoffLatitude: number
     dropoffLongitude: number
     deliveryType?: string
+    serviceType?: string
+    userId?: string
+    promoCode?: string
   }): Promise<ServiceEstimate> {
     try {
-      const { pickupLatitude, pickupLongitude, dropoffLatitude, dropoffLongitude, deliveryType = "PACKAGE" } = params
+      const {
+        pickupLatitude,
+        pickupLongitude,
+        dropoffLatitude,
+        dropoffLongitude,
+        deliveryType = "PACKAGE",
+        serviceType: promoServiceType = "DELIVERY",
+        userId,
+        promoCode,
+      } = params
 
       // Validate inputs
       this.validateCoordinates(pickupLatitude, pickupLongitude)
@@ -769,7 +852,7 @@ export class PricingService {
       // Use lower per-km rate for store delivery (more reasonable than general delivery)
       const distancePrice = (distance / 1000) * 0.5 // GH₵0.50 per km for store delivery
       const subtotal = basePrice + distancePrice
-      const estimatedPrice = this.applyMinimumFare(Math.round(subtotal))
+      let estimatedPrice = this.applyMinimumFare(Math.round(subtotal))
 
       console.log(`📦 DELIVERY CALCULATION START`)
       console.log(`📍 Distance: ${(distance / 1000).toFixed(2)}km`)
@@ -790,6 +873,21 @@ export class PricingService {
         `🎯 Delivery Stability: ${isStable ? "✅ STABLE" : "⚠️  UNSTABLE"} (${expectedDeliveryRange.min}-${expectedDeliveryRange.max} range)`,
       )
 
+      let promotion: PromoQuote | undefined
+      if (promoCode) {
+        promotion = await this.applyPromoCode({
+          promoCode,
+          userId,
+          serviceType: promoServiceType,
+          amount: estimatedPrice,
+          deliveryFee: estimatedPrice,
+          latitude: pickupLatitude,
+          longitude: pickupLongitude,
+        })
+        estimatedPrice = promotion.finalAmount
+        console.log(`🏷️  Promo ${promotion.code}: -GH₵${promotion.discountAmount} → GH₵${estimatedPrice}`)
+      }
+
       console.log(`📦 DELIVERY CALCULATION END\n`)
 
       // Get available providers count
@@ -813,6 +911,7 @@ export class PricingService {
           expectedRange: expectedDeliveryRange,
           providerCount: availableProviders,
         },
+        promotion,
       }
     } catch (error) {
       logger.error("Calculate delivery estimate error:", error)
@@ -820,6 +919,26 @@ export class PricingService {
     }
   }
 
+  /**
+   * Promo codes are tied to the customer's usage history, so an estimate with a code needs a signed-in user
+   */
+  private async applyPromoCode(params: {
+    promoCode: string
+    userId?: string
+    serviceType: string
+    amount: number
+    deliveryFee?: number
+    latitude: number
+    longitude: number
+  }): Promise<PromoQuote> {
+    const { promoCode, userId, ...quoteParams } = params
+    if (!userId) {
+      throw new Error("Sign in to apply a promo code")
+    }
+
+    return this.promotionService.quotePromoCode({ code: promoCode, userId, ...quoteParams })
+  }
+
   /**
    * Get available providers count with enhanced filtering
    */
@@ -1067,8 +1186,12 @@ export class PricingService {
     dropoffLatitude: number
     dropoffLongitude: number
     rideType?: string
+    scheduledAt?: Date
     simulatedSupply?: number
     simulatedDemand?: number
+    // Unsaved rules to price with, alongside the live rules unless replaceLiveRules is set
+    draftRules?: PricingRuleData[]
+    replaceLiveRules?: boolean
   }) {
     const originalGetAreaSupply = this.getAreaSupply
     const originalGetAreaDemand = this.getAreaDemand
@@ -1082,9 +1205,20 @@ export class PricingService {
         this.getAreaDemand = async () => params.simulatedDemand!
       }
 
+      let pricingRules: PricingRule[] | undefined
+      if (params.draftRules?.length || params.replaceLiveRules) {
+        const draftRules = params.draftRules || []
+        const drafts = await Promise.all(
+          draftRules.map((rule, index) => this.pricingRuleService.buildDraftRule(rule, index)),
+        )
+        const live = params.replaceLiveRules ? [] : await this.pricingRuleService.getLiveRules("RIDE")
+        pricingRules = [...live, ...drafts.filter((_, index) => draftRules[index].serviceType === "RIDE")]
+      }
+
       console.log(`🧪 SIMULATION MODE:`)
       console.log(`   - Simulated Supply: ${params.simulatedSupply ?? "actual"}`)
       console.log(`   - Simulated Demand: ${params.simulatedDemand ?? "actual"}`)
+      console.log(`   - Draft Rules: ${params.draftRules?.length ?? 0}${params.replaceLiveRules ? " (live rules ignored)" : ""}`)
 
       // Calculate estimate with simulated values
       const result = await this.calculateRideEstimate({
@@ -1093,6 +1227,8 @@ export class PricingService {
         dropoffLatitude: params.dropoffLatitude,
         dropoffLongitude: params.dropoffLongitude,
         rideType: params.rideType,
+        scheduledAt: params.scheduledAt,
+        pricingRules,
       })
 
       return {
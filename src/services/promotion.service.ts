@@ -0,0 +1,502 @@
+import type { Prisma, PromoType } from "@prisma/client"
+import prisma from "../config/database"
+import { ServiceZoneService } from "./service-zone.service"
+import logger from "../utils/logger"
+import type { PromoQuote } from "../types"
+
+// Service types a campaign can target (matches ServiceType.name)
+export const PROMO_SERVICE_TYPES = [
+  "RIDE",
+  "TAXI",
+  "DELIVERY",
+  "STORE_DELIVERY",
+  "FOOD_DELIVERY",
+  "PACKAGE_DELIVERY",
+  "HOUSE_MOVING",
+]
+
+const RIDE_SERVICE_TYPES = ["RIDE", "TAXI"]
+
+export interface PromoQuoteParams {
+  code: string
+  userId: string
+  serviceType: string
+  amount: number // Discountable price (fare, or order subtotal plus delivery fee)
+  deliveryFee?: number // Part of the amount that FREE_DELIVERY waives
+  latitude?: number
+  longitude?: number
+  serviceZoneId?: string
+}
+
+export interface PromoCampaignData {
+  name: string
+  description?: string
+  code: string
+  type: PromoType
+  value: number
+  maxDiscountAmount?: number
+  minOrderAmount?: number
+  usageLimit?: number
+  perUserLimit?: number
+  serviceTypes?: string[]
+  serviceZoneIds?: string[]
+  validFrom?: Date | string
+  validUntil?: Date | string
+  isActive?: boolean
+  userId?: string
+}
+
+export class PromotionService {
+  private serviceZoneService = new ServiceZoneService()
+
+  async createCampaign(data: PromoCampaignData, createdBy?: string, client: Prisma.TransactionClient = prisma) {
+    try {
+      this.validateCampaignValue(data.type, data.value)
+
+      const code = this.normalizeCode(data.code)
+      const existing = await client.promoCampaign.findUnique({ where: { code } })
+      if (existing) {
+        throw new Error("A campaign with this promo code already exists")
+      }
+
+      const campaign = await client.promoCampaign.create({
+        data: {
+          ...data,
+          code,
+          serviceTypes: data.serviceTypes || [],
+          serviceZoneIds: data.serviceZoneIds || [],
+          validFrom: data.validFrom ? new Date(data.validFrom) : new Date(),
+          validUntil: data.validUntil ? new Date(data.validUntil) : null,
+          createdBy,
+        },
+      })
+
+      logger.info(`Promo campaign created: ${campaign.code} (${campaign.type})`)
+      return campaign
+    } catch (error) {
+      logger.error("Create promo campaign error:", error)
+      throw error
+    }
+  }
+
+  async updateCampaign(campaignId: string, data: Partial<PromoCampaignData>) {
+    try {
+      const campaign = await prisma.promoCampaign.findUnique({ where: { id: campaignId } })
+      if (!campaign) {
+        throw new Error("Promo campaign not found")
+      }
+
+      if (data.type !== undefined || data.value !== undefined) {
+        this.validateCampaignValue(data.type || campaign.type, data.value ?? campaign.value)
+      }
+
+      // Codes are handed out to customers, so they stay fixed once a campaign has been used
+      if (data.code && this.normalizeCode(data.code) !== campaign.code && campaign.usageCount > 0) {
+        throw new Error("Cannot change the code of a campaign that has already been redeemed")
+      }
+
+      return await prisma.promoCampaign.update({
+        where: { id: campaignId },
+        data: {
+          ...data,
+          code: data.code ? this.normalizeCode(data.code) : undefined,
+          validFrom: data.validFrom ? new Date(data.validFrom) : undefined,
+          validUntil: data.validUntil ? new Date(data.validUntil) : undefined,
+        },
+      })
+    } catch (error) {
+      logger.error("Update promo campaign error:", error)
+      throw error
+    }
+  }
+
+  async deactivateCampaign(campaignId: string) {
+    try {
+      return await prisma.promoCampaign.update({
+        where: { id: campaignId },
+        data: { isActive: false },
+      })
+    } catch (error) {
+      logger.error("Deactivate promo campaign error:", error)
+      throw error
+    }
+  }
+
+  async getCampaigns(options: { page?: number; limit?: number; isActive?: boolean; type?: string } = {}) {
+    try {
+      const { page = 1, limit = 20, isActive, type } = options
+      const where: any = {}
+      if (isActive !== undefined) where.isActive = isActive
+      if (type) where.type = type
+
+      const [campaigns, total] = await Promise.all([
+        prisma.promoCampaign.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.promoCampaign.count({ where }),
+      ])
+
+      return {
+        campaigns,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }
+    } catch (error) {
+      logger.error("Get promo campaigns error:", error)
+      throw error
+    }
+  }
+
+  async getCampaignById(campaignId: string) {
+    try {
+      const campaign = await prisma.promoCampaign.findUnique({
+        where: { id: campaignId },
+        include: {
+          redemptions: {
+            orderBy: { createdAt: "desc" },
+            take: 50,
+            include: { user: { select: { id: true, firstName: true, lastName: true, phone: true } } },
+          },
+        },
+      })
+
+      if (!campaign) {
+        throw new Error("Promo campaign not found")
+      }
+
+      const totals = await prisma.promoRedemption.aggregate({
+        where: { campaignId, status: "APPLIED" },
+        _sum: { discountAmount: true },
+        _count: true,
+      })
+
+      return {
+        ...campaign,
+        stats: {
+          activeRedemptions: totals._count,
+          totalDiscountGiven: totals._sum.discountAmount || 0,
+        },
+      }
+    } catch (error) {
+      logger.error("Get promo campaign error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Checks a code against the campaign rules and works out the discount.
+   * Nothing is reserved here - call redeemPromoCode once the booking or order exists.
+   */
+  async quotePromoCode(params: PromoQuoteParams): Promise<PromoQuote> {
+    try {
+      const code = this.normalizeCode(params.code)
+      const campaign = await prisma.promoCampaign.findUnique({ where: { code } })
+
+      if (!campaign || !campaign.isActive || (campaign.userId && campaign.userId !== params.userId)) {
+        throw new Error("Invalid promo code")
+      }
+
+      const now = new Date()
+      if (campaign.validFrom > now) {
+        throw new Error("This promo code is not active yet")
+      }
+      if (campaign.validUntil && campaign.validUntil < now) {
+        throw new Error("This promo code has expired")
+      }
+
+      if (campaign.usageLimit !== null && campaign.usageCount >= campaign.usageLimit) {
+        throw new Error("This promo code has reached its usage limit")
+      }
+
+      if (campaign.serviceTypes.length > 0 && !campaign.serviceTypes.includes(params.serviceType)) {
+        throw new Error("This promo code is not valid for this service")
+      }
+
+      if (campaign.serviceZoneIds.length > 0) {
+        const zoneId = await this.resolveServiceZoneId(params)
+        if (!zoneId || !campaign.serviceZoneIds.includes(zoneId)) {
+          throw new Error("This promo code is not valid in your area")
+        }
+      }
+
+      if (campaign.minOrderAmount && params.amount < campaign.minOrderAmount) {
+        throw new Error(`This promo code requires a minimum amount of GH₵${campaign.minOrderAmount}`)
+      }
+
+      const userRedemptions = await prisma.promoRedemption.count({
+        where: { campaignId: campaign.id, userId: params.userId, status: "APPLIED" },
+      })
+      if (userRedemptions >= campaign.perUserLimit) {
+        throw new Error("You have already used this promo code")
+      }
+
+      if (campaign.type === "FIRST_RIDE") {
+        await this.assertFirstRide(params.userId, params.serviceType)
+      }
+
+      const discountAmount = this.calculateDiscount(campaign, params)
+
+      return {
+        campaignId: campaign.id,
+        code: campaign.code,
+        type: campaign.type,
+        originalAmount: params.amount,
+        discountAmount,
+        finalAmount: this.roundAmount(params.amount - discountAmount),
+      }
+    } catch (error) {
+      logger.error("Quote promo code error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Records the redemption against a booking or order and takes one usage slot.
+   * Pass the surrounding transaction client so the redemption is rolled back with the booking.
+   */
+  async redeemPromoCode(
+    quote: PromoQuote,
+    params: { userId: string; bookingId?: string; orderId?: string; transactionId?: string },
+    client: Prisma.TransactionClient = prisma,
+  ) {
+    try {
+      const campaign = await client.promoCampaign.findUnique({ where: { id: quote.campaignId } })
+      if (!campaign || !campaign.isActive) {
+        throw new Error("Invalid promo code")
+      }
+
+      // The quote may be older than the campaign's end date
+      if (campaign.validUntil && campaign.validUntil < new Date()) {
+        throw new Error("This promo code has expired")
+      }
+
+      if (campaign.type === "FIRST_RIDE") {
+        const booking = params.bookingId
+          ? await client.booking.findUnique({
+              where: { id: params.bookingId },
+              select: { serviceType: { select: { name: true } } },
+            })
+          : null
+        await this.assertFirstRide(params.userId, booking?.serviceType.name || "STORE_DELIVERY", {
+          client,
+          excludeBookingId: params.bookingId,
+        })
+      }
+
+      // The counter starts from the redemptions already held, then is claimed like the overall cap.
+      // A concurrent checkout may seed the row first: the insert then does nothing and both claim it.
+      await client.promoUserUsage.createMany({
+        data: {
+          campaignId: campaign.id,
+          userId: params.userId,
+          usageCount: await client.promoRedemption.count({
+            where: { campaignId: campaign.id, userId: params.userId, status: "APPLIED" },
+          }),
+        },
+        skipDuplicates: true,
+      })
+      const userClaimed = await client.promoUserUsage.updateMany({
+        where: { campaignId: campaign.id, userId: params.userId, usageCount: { lt: campaign.perUserLimit } },
+        data: { usageCount: { increment: 1 } },
+      })
+      if (userClaimed.count === 0) {
+        throw new Error("You have already used this promo code")
+      }
+
+      // Conditional increment so concurrent checkouts cannot go past the overall cap
+      const claimed = await client.promoCampaign.updateMany({
+        where: {
+          id: campaign.id,
+          isActive: true,
+          ...(campaign.usageLimit !== null ? { usageCount: { lt: campaign.usageLimit } } : {}),
+        },
+        data: { usageCount: { increment: 1 } },
+      })
+      if (claimed.count === 0) {
+        throw new Error("This promo code has reached its usage limit")
+      }
+
+      const redemption = await client.promoRedemption.create({
+        data: {
+          campaignId: campaign.id,
+          userId: params.userId,
+          bookingId: params.bookingId,
+          orderId: params.orderId,
+          transactionId: params.transactionId,
+          code: campaign.code,
+          discountAmount: quote.discountAmount,
+        },
+      })
+
+      // Loyalty reward codes are backed by a campaign - mark the reward as used
+      await client.rewardRedemption.updateMany({
+        where: { promoCampaignId: campaign.id, status: "ACTIVE" },
+        data: { status: "USED", usedAt: new Date() },
+      })
+
+      return redemption
+    } catch (error) {
+      logger.error("Redeem promo code error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Gives the usage slot back when the booking or order it was spent on is cancelled.
+   */
+  async releaseRedemptions(target: { bookingId?: string; orderId?: string }) {
+    try {
+      if (!target.bookingId && !target.orderId) {
+        return 0
+      }
+
+      const redemptions = await prisma.promoRedemption.findMany({
+        where: { ...target, status: "APPLIED" },
+      })
+
+      for (const redemption of redemptions) {
+        await prisma.$transaction([
+          prisma.promoRedemption.update({
+            where: { id: redemption.id },
+            data: { status: "RELEASED", releasedAt: new Date() },
+          }),
+          prisma.promoCampaign.updateMany({
+            where: { id: redemption.campaignId, usageCount: { gt: 0 } },
+            data: { usageCount: { decrement: 1 } },
+          }),
+          prisma.promoUserUsage.updateMany({
+            where: { campaignId: redemption.campaignId, userId: redemption.userId, usageCount: { gt: 0 } },
+            data: { usageCount: { decrement: 1 } },
+          }),
+          prisma.rewardRedemption.updateMany({
+            where: { promoCampaignId: redemption.campaignId, status: "USED" },
+            data: { status: "ACTIVE", usedAt: null },
+          }),
+        ])
+      }
+
+      if (redemptions.length > 0) {
+        logger.info(`Released ${redemptions.length} promo redemption(s)`, target)
+      }
+      return redemptions.length
+    } catch (error) {
+      logger.error("Release promo redemptions error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Links the booking or order redemption to the payment transaction once it is created.
+   */
+  async attachTransaction(target: { bookingId?: string; orderId?: string }, transactionId: string) {
+    try {
+      if (!target.bookingId && !target.orderId) {
+        return
+      }
+
+      await prisma.promoRedemption.updateMany({
+        where: { ...target, status: "APPLIED", transactionId: null },
+        data: { transactionId },
+      })
+    } catch (error) {
+      logger.error("Attach promo transaction error:", error)
+      throw error
+    }
+  }
+
+  private calculateDiscount(
+    campaign: { type: PromoType; value: number; maxDiscountAmount: number | null },
+    params: PromoQuoteParams,
+  ): number {
+    let discount = 0
+
+    switch (campaign.type) {
+      case "PERCENTAGE":
+      case "FIRST_RIDE":
+        discount = params.amount * (campaign.value / 100)
+        break
+      case "FIXED_AMOUNT":
+        discount = campaign.value
+        break
+      case "FREE_DELIVERY":
+        if (params.deliveryFee === undefined) {
+          throw new Error("This promo code is only valid on deliveries")
+        }
+        discount = params.deliveryFee
+        break
+    }
+
+    if (campaign.maxDiscountAmount !== null && campaign.type !== "FREE_DELIVERY") {
+      discount = Math.min(discount, campaign.maxDiscountAmount)
+    }
+
+    return this.roundAmount(Math.max(0, Math.min(discount, params.amount)))
+  }
+
+  private async assertFirstRide(
+    userId: string,
+    serviceType: string,
+    options: { client?: Prisma.TransactionClient; excludeBookingId?: string } = {},
+  ) {
+    if (!RIDE_SERVICE_TYPES.includes(serviceType)) {
+      throw new Error("This promo code is only valid on rides")
+    }
+
+    const previousRides = await (options.client || prisma).booking.count({
+      where: {
+        customerId: userId,
+        // The booking being redeemed against is not a previous ride
+        ...(options.excludeBookingId && { id: { not: options.excludeBookingId } }),
+        // Rides that never happened don't count
+        status: { notIn: ["CANCELLED", "FAILED", "NO_DRIVER_AVAILABLE"] },
+        serviceType: { name: { in: RIDE_SERVICE_TYPES } },
+      },
+    })
+
+    if (previousRides > 0) {
+      throw new Error("This promo code is only valid on your first ride")
+    }
+  }
+
+  private async resolveServiceZoneId(params: PromoQuoteParams): Promise<string | null> {
+    if (params.serviceZoneId) {
+      return params.serviceZoneId
+    }
+
+    if (params.latitude === undefined || params.longitude === undefined) {
+      return null
+    }
+
+    const zone = await this.serviceZoneService.findZoneByCoordinates(params.latitude, params.longitude)
+    return zone?.id || null
+  }
+
+  private validateCampaignValue(type: PromoType, value: number) {
+    if (type === "FREE_DELIVERY") {
+      return
+    }
+
+    if (value <= 0) {
+      throw new Error("Promo value must be greater than zero")
+    }
+
+    if ((type === "PERCENTAGE" || type === "FIRST_RIDE") && value > 100) {
+      throw new Error("Percentage discounts cannot exceed 100")
+    }
+  }
+
+  private normalizeCode(code: string): string {
+    return code.trim().toUpperCase()
+  }
+
+  private roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100
+  }
+}
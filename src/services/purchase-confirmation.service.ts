@@ -2,6 +2,8 @@ import prisma from "../config/database"
 import { EmailService } from "./email.service"
 import { PaymentService } from "./payment.service"
 import { NotificationService } from "./notification.service"
+import { StockReservationService } from "./stock-reservation.service"
+import { JOB_TYPES, jobQueueService } from "./job-queue.service"
 import { PurchaseConfirmationStatus } from "@prisma/client"
 import logger from "../utils/logger"
 import crypto from "crypto"
@@ -10,6 +12,7 @@ export class PurchaseConfirmationService {
   private emailService = new EmailService()
   private paymentService = new PaymentService()
   private notificationService = new NotificationService()
+  private stockReservationService = new StockReservationService()
 
   /**
    * Create a purchase confirmation request
@@ -56,7 +59,7 @@ export class PurchaseConfirmationService {
       await this.sendPurchaseConfirmationEmail(confirmation)
 
       // Schedule automatic expiration check
-      this.scheduleExpirationCheck(confirmation.id)
+      await this.scheduleExpirationCheck(confirmation.id, expiresAt)
 
       return confirmation
     } catch (error) {
@@ -121,6 +124,10 @@ export class PurchaseConfirmationService {
         data: { status: "ORDER_CONFIRMED" }
       })
 
+      await this.stockReservationService.commit(confirmation.orderId)
+
+      await jobQueueService.cancel(`purchase-confirmation:${confirmation.id}:expiry`)
+
       // Send confirmation email to customer
       await this.sendPurchaseConfirmedEmail(confirmation)
 
@@ -178,6 +185,9 @@ export class PurchaseConfirmationService {
         data: { status: "CANCELLED" }
       })
 
+      // Put the held stock back on sale
+      await this.stockReservationService.release(confirmation.orderId, "CONFIRMATION_EXPIRED")
+
       // Process refund
       await this.processRefund(confirmation.orderId)
 
@@ -207,52 +217,13 @@ export class PurchaseConfirmationService {
    * Process refund for expired purchase
    */
   private async processRefund(orderId: string) {
-    try {
-      // Find the original payment transaction
-      const transaction = await prisma.transaction.findFirst({
-        where: {
-          bookingId: orderId,
-          type: "PAYMENT",
-          status: "COMPLETED"
-        }
-      })
-
-      if (!transaction) {
-        logger.warn(`No payment transaction found for order ${orderId}`)
-        return
-      }
-
-      // Create refund transaction
-      await prisma.transaction.create({
-        data: {
-          userId: transaction.userId,
-          bookingId: orderId,
-          paymentMethodId: transaction.paymentMethodId,
-          amount: transaction.amount,
-          currency: transaction.currency,
-          type: "REFUND",
-          status: "COMPLETED",
-          description: `Refund for expired purchase confirmation - Order ${orderId}`,
-          parentTransactionId: transaction.id,
-          refundAmount: transaction.amount,
-          refundedAt: new Date()
-        }
-      })
-
-      // Update original transaction status
-      await prisma.transaction.update({
-        where: { id: transaction.id },
-        data: {
-          status: "REFUNDED",
-          refundAmount: transaction.amount,
-          refundedAt: new Date()
-        }
-      })
+    const refund = await this.paymentService.refundOrderPayment(
+      orderId,
+      `Refund for expired purchase confirmation - Order ${orderId}`
+    )
 
+    if (refund) {
       logger.info(`Refund processed for order ${orderId}`)
-    } catch (error) {
-      logger.error("Process refund error:", error)
-      throw error
     }
   }
 
@@ -488,15 +459,12 @@ export class PurchaseConfirmationService {
   /**
    * Schedule automatic expiration check
    */
-  private scheduleExpirationCheck(confirmationId: string) {
-    // Schedule the expiration check for 15 minutes from now
-    setTimeout(async () => {
-      try {
-        await this.expireConfirmation(confirmationId)
-      } catch (error) {
-        logger.error(`Failed to expire confirmation ${confirmationId}:`, error)
-      }
-    }, 15 * 60 * 1000) // 15 minutes
+  private async scheduleExpirationCheck(confirmationId: string, expiresAt: Date) {
+    await jobQueueService.enqueue(
+      JOB_TYPES.PURCHASE_CONFIRMATION_EXPIRY,
+      { confirmationId },
+      { runAt: expiresAt, dedupeKey: `purchase-confirmation:${confirmationId}:expiry` },
+    )
   }
 
   /**
@@ -3,6 +3,7 @@ import type { Server as HTTPServer } from "http"
 import jwt from "jsonwebtoken"
 import prisma from "../config/database"
 import { EmailService } from "./email.service" // Import EmailService
+import { GEO_INDEXES, geoIndexService } from "./geo-index.service"
 import logger from "../utils/logger"
 import type { BookingStatus } from "@prisma/client"
 
@@ -300,6 +301,7 @@ export class WebSocketService {
             currentLongitude: data.longitude,
           },
         })
+        await geoIndexService.updatePosition(GEO_INDEXES.DRIVERS, socket.userId!, data.latitude, data.longitude)
       }
 
       if (user.moverProfile) {
@@ -321,6 +323,7 @@ export class WebSocketService {
             currentLongitude: data.longitude,
           },
         })
+        await geoIndexService.updatePosition(GEO_INDEXES.RESPONDERS, socket.userId!, data.latitude, data.longitude)
       }
 
       // Broadcast location to relevant parties (active bookings)
@@ -11,6 +11,7 @@ type Permission =
   | "MANAGE_USER_ROLES"
   | "APPROVE_DRIVER"
   | "SUSPEND_DRIVER"
+  | "VERIFY_DOCUMENTS"
   | "VIEW_DRIVER_ANALYTICS"
   | "MANAGE_DRIVER_SHIFTS"
   | "APPROVE_TAXI_DRIVER"
@@ -78,6 +79,7 @@ export class RBACService {
           "MANAGE_USER_ROLES",
           "APPROVE_DRIVER",
           "SUSPEND_DRIVER",
+          "VERIFY_DOCUMENTS",
           "VIEW_DRIVER_ANALYTICS",
           "MANAGE_DRIVER_SHIFTS",
           "APPROVE_TAXI_DRIVER",
@@ -114,6 +116,7 @@ export class RBACService {
           "MANAGE_USER_ROLES",
           "APPROVE_DRIVER",
           "SUSPEND_DRIVER",
+          "VERIFY_DOCUMENTS",
           "VIEW_DRIVER_ANALYTICS",
           "MANAGE_DRIVER_SHIFTS",
           "APPROVE_TAXI_DRIVER",
@@ -154,6 +157,9 @@ export class RBACService {
       case "STORE_OWNER":
         return ["CREATE_STORE", "UPDATE_STORE", "MANAGE_STORE_PRODUCTS", "READ_USER"]
 
+      case "FLEET_OPERATOR":
+        return ["VIEW_DRIVER_ANALYTICS", "MANAGE_DRIVER_SHIFTS", "ASSIGN_DRIVER", "READ_USER"]
+
       case "DRIVER":
         return ["CREATE_SERVICE", "UPDATE_SERVICE", "READ_USER"]
 
@@ -295,6 +301,14 @@ export class RBACService {
     }
   }
 
+  // KYC documents are visible to their owner and to the admins who verify them
+  async canAccessDocument(userId: string, userRole: UserRole, ownerId: string): Promise<boolean> {
+    if (userId === ownerId) {
+      return true
+    }
+    return this.hasPermission(userRole, "VERIFY_DOCUMENTS")
+  }
+
   async canManageUser(managerRole: UserRole, targetRole: UserRole): Promise<boolean> {
     const roleHierarchy: Record<UserRole, number> = {
       HOUSE_MOVER: 9, // New role added with a specific level
@@ -305,6 +319,7 @@ export class RBACService {
       SUPPORT_AGENT: 5,
       PLACE_OWNER: 4,
       STORE_OWNER: 4,
+      FLEET_OPERATOR: 4,
       DRIVER: 3,
       TAXI_DRIVER: 3,
       EMERGENCY_RESPONDER: 3,
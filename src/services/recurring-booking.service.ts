@@ -0,0 +1,730 @@
+import { Prisma } from "@prisma/client"
+import type { RecurringBookingSeries, RecurringSeriesStatus, RecurringServiceType } from "@prisma/client"
+import prisma from "../config/database"
+import { DayBookingService } from "./day-booking.service"
+import { DriverMatchingService } from "./driver-matching.service"
+import { jobQueueService } from "./job-queue.service"
+import { NotificationService } from "./notification.service"
+import { PricingService } from "./pricing.service"
+import { ServiceZoneService } from "./service-zone.service"
+import logger from "../utils/logger"
+
+export interface RideTemplate {
+  pickupLatitude: number
+  pickupLongitude: number
+  dropoffLatitude: number
+  dropoffLongitude: number
+  rideType?: string
+  pickupInstructions?: string
+}
+
+export interface DayBookingTemplate {
+  driverId: string
+  duration: number
+  serviceArea: string
+  specialRequirements?: string
+  contactPhone?: string
+  pickupLatitude?: number
+  pickupLongitude?: number
+}
+
+export interface CreateSeriesData {
+  serviceType: RecurringServiceType
+  daysOfWeek: number[]
+  timeOfDay: string
+  startDate: string | Date
+  endDate?: string | Date
+  skipDates?: string[]
+  template: RideTemplate | DayBookingTemplate
+  notes?: string
+}
+
+interface Occurrence {
+  date: string
+  scheduledAt: Date
+}
+
+// Occurrences are booked this far ahead so customers and day booking drivers can see them
+const MATERIALIZE_AHEAD_HOURS = 48
+// Driver matching for recurring rides starts this long before pickup
+const DISPATCH_LEAD_MINUTES = 15
+// Occurrences that have not started yet and can still be called off
+const OPEN_OCCURRENCE_STATUSES = ["PENDING", "CONFIRMED", "DRIVER_ASSIGNED", "NO_DRIVER_AVAILABLE"] as const
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_TIMEZONE = "Africa/Accra"
+
+export class RecurringBookingService {
+  private dayBookingService = new DayBookingService()
+  private driverMatchingService = new DriverMatchingService()
+  private notificationService = new NotificationService()
+  private pricingService = new PricingService()
+  private serviceZoneService = new ServiceZoneService()
+
+  async createSeries(customerId: string, data: CreateSeriesData) {
+    try {
+      const startDate = new Date(data.startDate)
+      const endDate = data.endDate ? new Date(data.endDate) : null
+
+      this.validateRule(data.daysOfWeek, data.timeOfDay, startDate, endDate)
+
+      if (data.serviceType === "DAY_BOOKING") {
+        const template = data.template as DayBookingTemplate
+        const driver = await prisma.driverProfile.findFirst({
+          where: { userId: template.driverId, isVerified: true },
+          include: { dayBookingConfig: true },
+        })
+
+        if (!driver?.dayBookingConfig?.isActive) {
+          throw new Error("Selected driver does not offer day bookings")
+        }
+      }
+
+      const series = await prisma.recurringBookingSeries.create({
+        data: {
+          customerId,
+          serviceType: data.serviceType,
+          daysOfWeek: [...new Set(data.daysOfWeek)].sort((a, b) => a - b),
+          timeOfDay: data.timeOfDay,
+          timezone: await this.resolveTimezone(data.template),
+          startDate,
+          endDate,
+          skipDates: data.skipDates || [],
+          template: data.template as unknown as Prisma.InputJsonValue,
+          notes: data.notes,
+        },
+      })
+
+      // Book anything that already falls inside the booking window
+      try {
+        const now = new Date()
+        await this.materializeSeries(series, now, new Date(now.getTime() + MATERIALIZE_AHEAD_HOURS * 60 * 60 * 1000))
+      } catch (materializeError) {
+        logger.error("Initial recurring booking materialization failed:", materializeError)
+      }
+
+      logger.info(`Recurring ${series.serviceType} series ${series.id} created for customer ${customerId}`)
+      return await this.getSeries(series.id, customerId)
+    } catch (error) {
+      logger.error("Create recurring series error:", error)
+      throw error
+    }
+  }
+
+  async getCustomerSeries(customerId: string, options: { status?: RecurringSeriesStatus } = {}) {
+    try {
+      const series = await prisma.recurringBookingSeries.findMany({
+        where: {
+          customerId,
+          ...(options.status && { status: options.status }),
+        },
+        include: {
+          bookings: {
+            where: { scheduledAt: { gte: new Date() } },
+            orderBy: { scheduledAt: "asc" },
+            take: 5,
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      })
+
+      return series.map((item) => ({
+        ...item,
+        nextOccurrences: this.previewOccurrences(item, 5),
+      }))
+    } catch (error) {
+      logger.error("Get recurring series error:", error)
+      throw error
+    }
+  }
+
+  async getSeries(seriesId: string, customerId: string) {
+    try {
+      const series = await prisma.recurringBookingSeries.findFirst({
+        where: { id: seriesId, customerId },
+        include: {
+          bookings: {
+            orderBy: { scheduledAt: "desc" },
+            take: 20,
+            include: {
+              provider: {
+                select: { id: true, firstName: true, lastName: true, phone: true, avatar: true },
+              },
+            },
+          },
+        },
+      })
+
+      if (!series) {
+        throw new Error("Recurring booking series not found")
+      }
+
+      return {
+        ...series,
+        nextOccurrences: this.previewOccurrences(series, 10),
+      }
+    } catch (error) {
+      logger.error("Get recurring series details error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Stop booking new occurrences until resumed (or until the given date) and call off the ones already booked
+   */
+  async pauseSeries(seriesId: string, customerId: string, pausedUntil?: Date) {
+    try {
+      const series = await this.getOwnedSeries(seriesId, customerId)
+
+      if (series.status !== "ACTIVE") {
+        throw new Error(`Only active series can be paused (current status: ${series.status})`)
+      }
+
+      if (pausedUntil && pausedUntil <= new Date()) {
+        throw new Error("Pause end date must be in the future")
+      }
+
+      const updated = await prisma.recurringBookingSeries.update({
+        where: { id: seriesId },
+        data: { status: "PAUSED", pausedUntil: pausedUntil || null },
+      })
+
+      // Paused occurrences give up their date so they are booked again once the series resumes
+      const cancelled = await this.cancelOpenOccurrences(
+        { recurringSeriesId: seriesId, ...(pausedUntil && { scheduledAt: { lt: pausedUntil } }) },
+        customerId,
+        "Recurring series paused",
+        { releaseDates: true },
+      )
+
+      return { series: updated, cancelledOccurrences: cancelled }
+    } catch (error) {
+      logger.error("Pause recurring series error:", error)
+      throw error
+    }
+  }
+
+  async resumeSeries(seriesId: string, customerId: string) {
+    try {
+      const series = await this.getOwnedSeries(seriesId, customerId)
+
+      if (series.status !== "PAUSED") {
+        throw new Error(`Only paused series can be resumed (current status: ${series.status})`)
+      }
+
+      const updated = await prisma.recurringBookingSeries.update({
+        where: { id: seriesId },
+        data: { status: "ACTIVE", pausedUntil: null },
+      })
+
+      const now = new Date()
+      await this.materializeSeries(updated, now, new Date(now.getTime() + MATERIALIZE_AHEAD_HOURS * 60 * 60 * 1000))
+
+      return await this.getSeries(seriesId, customerId)
+    } catch (error) {
+      logger.error("Resume recurring series error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * End the whole series and cancel every occurrence that has not started
+   */
+  async cancelSeries(seriesId: string, customerId: string, reason?: string) {
+    try {
+      const series = await this.getOwnedSeries(seriesId, customerId)
+
+      if (series.status === "CANCELLED" || series.status === "ENDED") {
+        throw new Error("Recurring series has already ended")
+      }
+
+      const updated = await prisma.recurringBookingSeries.update({
+        where: { id: seriesId },
+        data: { status: "CANCELLED", cancelledAt: new Date(), pausedUntil: null },
+      })
+
+      const cancelled = await this.cancelOpenOccurrences(
+        { recurringSeriesId: seriesId },
+        customerId,
+        reason || "Recurring series cancelled",
+      )
+
+      return { series: updated, cancelledOccurrences: cancelled }
+    } catch (error) {
+      logger.error("Cancel recurring series error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Skip a single occurrence. If it has already been booked, that booking is cancelled.
+   */
+  async skipOccurrence(seriesId: string, customerId: string, date: string, reason?: string) {
+    try {
+      const series = await this.getOwnedSeries(seriesId, customerId)
+
+      if (series.status === "CANCELLED" || series.status === "ENDED") {
+        throw new Error("Recurring series has already ended")
+      }
+
+      const occurrence = this.getOccurrenceOn(series, date)
+      if (!occurrence) {
+        throw new Error(`The series has no occurrence on ${date}`)
+      }
+
+      if (occurrence.scheduledAt <= new Date()) {
+        throw new Error("Past occurrences cannot be skipped")
+      }
+
+      const updated = series.skipDates.includes(date)
+        ? series
+        : await prisma.recurringBookingSeries.update({
+            where: { id: seriesId },
+            data: { skipDates: { push: date } },
+          })
+
+      const cancelled = await this.cancelOpenOccurrences(
+        { recurringSeriesId: seriesId, occurrenceDate: date },
+        customerId,
+        reason || "Occurrence skipped",
+      )
+
+      return { series: updated, cancelledOccurrences: cancelled }
+    } catch (error) {
+      logger.error("Skip recurring occurrence error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Create bookings for every active series occurrence inside the booking window.
+   * Safe to run repeatedly - each occurrence is booked at most once.
+   */
+  async materializeUpcoming() {
+    try {
+      const now = new Date()
+      const horizon = new Date(now.getTime() + MATERIALIZE_AHEAD_HOURS * 60 * 60 * 1000)
+
+      // Wake series whose pause has run out and close those past their end date
+      await prisma.recurringBookingSeries.updateMany({
+        where: { status: "PAUSED", pausedUntil: { lte: now } },
+        data: { status: "ACTIVE", pausedUntil: null },
+      })
+      await prisma.recurringBookingSeries.updateMany({
+        where: { status: "ACTIVE", endDate: { lt: new Date(now.getTime() - DAY_MS) } },
+        data: { status: "ENDED" },
+      })
+
+      const seriesList = await prisma.recurringBookingSeries.findMany({
+        where: { status: "ACTIVE", startDate: { lte: horizon } },
+      })
+
+      let created = 0
+      for (const series of seriesList) {
+        try {
+          created += await this.materializeSeries(series, now, horizon)
+        } catch (error) {
+          logger.error(`Failed to materialize recurring series ${series.id}:`, error)
+        }
+      }
+
+      logger.info(`Materialized ${created} recurring booking(s) across ${seriesList.length} series`)
+      return { series: seriesList.length, created }
+    } catch (error) {
+      logger.error("Materialize recurring bookings error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Start driver matching for recurring rides that are about to begin
+   */
+  async dispatchDueRides() {
+    try {
+      const now = new Date()
+      const leadMs = DISPATCH_LEAD_MINUTES * 60 * 1000
+
+      const dueBookings = await prisma.booking.findMany({
+        where: {
+          type: "RECURRING",
+          status: "PENDING",
+          providerId: null,
+          serviceType: { name: "RIDE" },
+          scheduledAt: { gte: new Date(now.getTime() - leadMs), lte: new Date(now.getTime() + leadMs) },
+        },
+      })
+
+      let dispatched = 0
+      for (const booking of dueBookings) {
+        const serviceData = (booking.serviceData as Record<string, any>) || {}
+        if (serviceData.matchingStartedAt) continue
+
+        try {
+          await prisma.booking.update({
+            where: { id: booking.id },
+            data: { serviceData: { ...serviceData, matchingStartedAt: now.toISOString() } },
+          })
+
+          await this.driverMatchingService.matchDriverToBooking(booking.id)
+          dispatched++
+        } catch (error) {
+          logger.error(`Driver matching failed for recurring booking ${booking.id}:`, error)
+        }
+      }
+
+      return { due: dueBookings.length, dispatched }
+    } catch (error) {
+      logger.error("Dispatch recurring rides error:", error)
+      throw error
+    }
+  }
+
+  private async materializeSeries(series: RecurringBookingSeries, from: Date, to: Date): Promise<number> {
+    const occurrences = this.getOccurrences(series, from, to)
+    if (occurrences.length === 0) {
+      return 0
+    }
+
+    const existing = await prisma.booking.findMany({
+      where: { recurringSeriesId: series.id, occurrenceDate: { in: occurrences.map((item) => item.date) } },
+      select: { occurrenceDate: true },
+    })
+    const booked = new Set(existing.map((booking) => booking.occurrenceDate))
+
+    let created = 0
+    for (const occurrence of occurrences) {
+      if (booked.has(occurrence.date)) continue
+      if (await this.createOccurrence(series, occurrence)) {
+        created++
+      }
+    }
+
+    await prisma.recurringBookingSeries.update({
+      where: { id: series.id },
+      data: { lastMaterializedAt: new Date() },
+    })
+
+    return created
+  }
+
+  /**
+   * Book a single occurrence. Failures are recorded as a FAILED booking so the occurrence is not retried every run.
+   */
+  private async createOccurrence(series: RecurringBookingSeries, occurrence: Occurrence): Promise<boolean> {
+    try {
+      const booking =
+        series.serviceType === "DAY_BOOKING"
+          ? await this.dayBookingService.createDayBooking({
+              ...(series.template as unknown as DayBookingTemplate),
+              customerId: series.customerId,
+              scheduledAt: occurrence.scheduledAt,
+              recurringSeriesId: series.id,
+              occurrenceDate: occurrence.date,
+            })
+          : await this.createRideOccurrence(series, occurrence)
+
+      await this.notificationService.notifyCustomer(series.customerId, {
+        type: "RECURRING_BOOKING_SCHEDULED",
+        title: "Upcoming Booking Scheduled",
+        body: `Your recurring ${series.serviceType === "RIDE" ? "ride" : "day booking"} for ${this.formatOccurrence(series, occurrence)} is booked`,
+        data: { seriesId: series.id, bookingId: booking.id, occurrenceDate: occurrence.date },
+      })
+
+      return true
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        // Another run booked this occurrence first
+        return false
+      }
+
+      logger.error(`Failed to book occurrence ${occurrence.date} of recurring series ${series.id}:`, error)
+      const reason = error instanceof Error ? error.message : "Unknown error"
+
+      await prisma.booking.create({
+        data: {
+          bookingNumber: this.generateBookingNumber(),
+          customerId: series.customerId,
+          serviceTypeId: await this.getServiceTypeId(series.serviceType),
+          status: "FAILED",
+          type: "RECURRING",
+          scheduledAt: occurrence.scheduledAt,
+          currency: "GHS",
+          recurringSeriesId: series.id,
+          occurrenceDate: occurrence.date,
+          cancellationReason: reason,
+        },
+      })
+
+      await this.notificationService.notifyCustomer(series.customerId, {
+        type: "RECURRING_BOOKING_FAILED",
+        title: "Recurring Booking Not Scheduled",
+        body: `We couldn't book your ${this.formatOccurrence(series, occurrence)} occurrence: ${reason}`,
+        data: { seriesId: series.id, occurrenceDate: occurrence.date },
+        priority: "URGENT",
+      })
+
+      return false
+    }
+  }
+
+  private async createRideOccurrence(series: RecurringBookingSeries, occurrence: Occurrence) {
+    const template = series.template as unknown as RideTemplate
+    const rideType = template.rideType || "ECONOMY"
+
+    const estimate = await this.pricingService.calculateRideEstimate({
+      pickupLatitude: template.pickupLatitude,
+      pickupLongitude: template.pickupLongitude,
+      dropoffLatitude: template.dropoffLatitude,
+      dropoffLongitude: template.dropoffLongitude,
+      rideType,
+      scheduledAt: occurrence.scheduledAt,
+      userId: series.customerId,
+    })
+
+    return prisma.booking.create({
+      data: {
+        bookingNumber: this.generateBookingNumber(),
+        customerId: series.customerId,
+        serviceTypeId: await this.getServiceTypeId("RIDE"),
+        status: "PENDING",
+        type: "RECURRING",
+        scheduledAt: occurrence.scheduledAt,
+        pickupLatitude: template.pickupLatitude,
+        pickupLongitude: template.pickupLongitude,
+        dropoffLatitude: template.dropoffLatitude,
+        dropoffLongitude: template.dropoffLongitude,
+        pickupInstructions: template.pickupInstructions,
+        estimatedDistance: estimate.estimatedDistance,
+        estimatedDuration: estimate.estimatedDuration,
+        estimatedPrice: estimate.estimatedPrice,
+        surgePricing: estimate.surgePricing,
+        currency: "GHS",
+        serviceData: {
+          rideType,
+          surgePricing: estimate.surgePricing,
+        },
+        notes: series.notes,
+        platformCommission: estimate.estimatedPrice * 0.18,
+        providerEarning: estimate.estimatedPrice * 0.82,
+        recurringSeriesId: series.id,
+        occurrenceDate: occurrence.date,
+      },
+    })
+  }
+
+  private async cancelOpenOccurrences(
+    where: Prisma.BookingWhereInput,
+    customerId: string,
+    reason: string,
+    options: { releaseDates?: boolean } = {},
+  ) {
+    const bookings = await prisma.booking.findMany({
+      where: {
+        ...where,
+        status: { in: [...OPEN_OCCURRENCE_STATUSES] },
+        scheduledAt: { gt: new Date(), ...(where.scheduledAt as Prisma.DateTimeNullableFilter) },
+      },
+      select: { id: true, providerId: true },
+    })
+
+    if (bookings.length === 0) {
+      return 0
+    }
+
+    await prisma.booking.updateMany({
+      where: { id: { in: bookings.map((booking) => booking.id) } },
+      data: {
+        status: "CANCELLED",
+        cancelledAt: new Date(),
+        cancellationReason: reason,
+        cancelledBy: customerId,
+        ...(options.releaseDates && { occurrenceDate: null }),
+      },
+    })
+
+    for (const booking of bookings) {
+      await jobQueueService.cancelByPrefix(`booking:${booking.id}:`)
+    }
+
+    for (const booking of bookings.filter((item) => item.providerId)) {
+      await this.notificationService.notifyProvider(booking.providerId!, {
+        type: "BOOKING_CANCELLED",
+        title: "Booking Cancelled",
+        body: "A scheduled booking has been cancelled by the customer",
+        data: { bookingId: booking.id, reason },
+      })
+    }
+
+    return bookings.length
+  }
+
+  /**
+   * Occurrences of the series falling after `from` and up to `to`
+   */
+  private getOccurrences(series: RecurringBookingSeries, from: Date, to: Date): Occurrence[] {
+    const occurrences: Occurrence[] = []
+    const start = series.startDate > from ? series.startDate : from
+    const lastDate = series.endDate ? this.toDateString(series.endDate, series.timezone) : null
+    const lastScanDate = this.toDateString(to, series.timezone)
+
+    for (let date = this.toDateString(start, series.timezone); date <= lastScanDate; date = this.nextDate(date)) {
+      if (lastDate && date > lastDate) break
+
+      const occurrence = this.getOccurrenceOn(series, date)
+      if (!occurrence || series.skipDates.includes(date)) continue
+      if (occurrence.scheduledAt <= from || occurrence.scheduledAt > to || occurrence.scheduledAt < series.startDate) continue
+
+      occurrences.push(occurrence)
+    }
+
+    return occurrences
+  }
+
+  /**
+   * Upcoming occurrence dates, including ones not booked yet and flagging skipped ones
+   */
+  private previewOccurrences(series: RecurringBookingSeries, count: number) {
+    if (series.status === "CANCELLED" || series.status === "ENDED") {
+      return []
+    }
+
+    const preview: Array<Occurrence & { skipped: boolean }> = []
+    const lastDate = series.endDate ? this.toDateString(series.endDate, series.timezone) : null
+    const now = new Date()
+    let date = this.toDateString(series.startDate > now ? series.startDate : now, series.timezone)
+
+    // A series with at least one weekday always has an occurrence within a week, so cap the scan
+    for (let scanned = 0; preview.length < count && scanned < count * 7; scanned++) {
+      if (lastDate && date > lastDate) break
+
+      const occurrence = this.getOccurrenceOn(series, date)
+      if (occurrence && occurrence.scheduledAt > now) {
+        preview.push({ ...occurrence, skipped: series.skipDates.includes(date) })
+      }
+      date = this.nextDate(date)
+    }
+
+    return preview
+  }
+
+  private getOccurrenceOn(series: RecurringBookingSeries, date: string): Occurrence | null {
+    // The weekday of a calendar date is the same in every timezone
+    const day = new Date(`${date}T00:00:00.000Z`)
+    if (Number.isNaN(day.getTime()) || !series.daysOfWeek.includes(day.getUTCDay())) {
+      return null
+    }
+
+    if (date < this.toDateString(series.startDate, series.timezone)) return null
+    if (series.endDate && date > this.toDateString(series.endDate, series.timezone)) return null
+
+    return { date, scheduledAt: this.toZonedTime(date, series.timeOfDay, series.timezone) }
+  }
+
+  private validateRule(daysOfWeek: number[], timeOfDay: string, startDate: Date, endDate: Date | null) {
+    if (!daysOfWeek.length || daysOfWeek.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new Error("Days of week must be between 0 (Sunday) and 6 (Saturday)")
+    }
+
+    if (!TIME_OF_DAY_PATTERN.test(timeOfDay)) {
+      throw new Error("Time of day must be in HH:mm format")
+    }
+
+    if (Number.isNaN(startDate.getTime())) {
+      throw new Error("Invalid start date")
+    }
+
+    if (endDate && (Number.isNaN(endDate.getTime()) || endDate < startDate)) {
+      throw new Error("End date must be after the start date")
+    }
+  }
+
+  private async getOwnedSeries(seriesId: string, customerId: string) {
+    const series = await prisma.recurringBookingSeries.findFirst({
+      where: { id: seriesId, customerId },
+    })
+
+    if (!series) {
+      throw new Error("Recurring booking series not found")
+    }
+
+    return series
+  }
+
+  // Series follow the timezone of the zone they pick up in
+  private async resolveTimezone(template: RideTemplate | DayBookingTemplate): Promise<string> {
+    if (template.pickupLatitude === undefined || template.pickupLongitude === undefined) {
+      return DEFAULT_TIMEZONE
+    }
+
+    const zone = await this.serviceZoneService.findZoneByCoordinates(template.pickupLatitude, template.pickupLongitude)
+    if (!zone?.timezone) {
+      return DEFAULT_TIMEZONE
+    }
+
+    try {
+      new Intl.DateTimeFormat("en-GB", { timeZone: zone.timezone })
+      return zone.timezone
+    } catch {
+      logger.warn(`Unknown timezone ${zone.timezone} on service zone ${zone.id}, using ${DEFAULT_TIMEZONE}`)
+      return DEFAULT_TIMEZONE
+    }
+  }
+
+  // Calendar date of the instant in the timezone
+  private toDateString(date: Date, timezone: string): string {
+    return new Intl.DateTimeFormat("en-CA", { timeZone: timezone, year: "numeric", month: "2-digit", day: "2-digit" }).format(
+      date,
+    )
+  }
+
+  private nextDate(date: string): string {
+    return new Date(new Date(`${date}T00:00:00.000Z`).getTime() + DAY_MS).toISOString().slice(0, 10)
+  }
+
+  // The instant the wall clock in the timezone shows `timeOfDay` on `date`
+  private toZonedTime(date: string, timeOfDay: string, timezone: string): Date {
+    const [hours, minutes] = timeOfDay.split(":").map(Number)
+    const wallClock = new Date(`${date}T00:00:00.000Z`).getTime() + (hours * 60 + minutes) * 60 * 1000
+
+    // Checked twice in case the first guess lands on the other side of a daylight saving change
+    const guess = wallClock - this.getOffsetMs(new Date(wallClock), timezone)
+    return new Date(wallClock - this.getOffsetMs(new Date(guess), timezone))
+  }
+
+  private getOffsetMs(instant: Date, timezone: string): number {
+    const parts = new Intl.DateTimeFormat("en-GB", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(instant)
+    const value = (type: string) => Number(parts.find((part) => part.type === type)?.value)
+
+    const localAsUtc = Date.UTC(value("year"), value("month") - 1, value("day"), value("hour"), value("minute"), value("second"))
+    return localAsUtc - Math.floor(instant.getTime() / 1000) * 1000
+  }
+
+  private formatOccurrence(series: RecurringBookingSeries, occurrence: Occurrence): string {
+    return `${occurrence.date} at ${series.timeOfDay}`
+  }
+
+  private generateBookingNumber(): string {
+    const timestamp = Date.now().toString().slice(-6)
+    const random = Math.random().toString(36).substring(2, 5).toUpperCase()
+    return `REC${timestamp}${random}`
+  }
+
+  private async getServiceTypeId(serviceName: string): Promise<string> {
+    const serviceType = await prisma.serviceType.findUnique({
+      where: { name: serviceName },
+    })
+    if (!serviceType) {
+      throw new Error(`Service type ${serviceName} not found`)
+    }
+    return serviceType.id
+  }
+}
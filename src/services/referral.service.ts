@@ -1,6 +1,9 @@
+import crypto from "crypto"
+import prisma from "../config/database"
 import { NotificationService } from "./notification.service"
 import { AnalyticsService } from "./analytics.service"
-import { PaymentService } from "./payment.service"
+import { PromotionService } from "./promotion.service"
+import logger from "../utils/logger"
 
 interface ReferralStats {
   totalReferrals: number
@@ -34,15 +37,578 @@ interface FraudDetectionResult {
 export class ReferralService {
   private notificationService = new NotificationService()
   private analyticsService = new AnalyticsService()
-  private paymentService = new PaymentService()
+  private promotionService = new PromotionService()
 
-  private readonly REFERRAL_REWARDS = {
+  private readonly REFERRAL_REWARDS: Record<string, ReferralReward> = {
     FIRST_RIDE: {
-      referrerReward: 500, // ₦5
-      refereeReward: 1000, // ₦10
-      type: "CASH" as const,
+      referrerReward: 500, // GH₵5 (pesewas)
+      refereeReward: 1000, // GH₵10 (pesewas)
+      type: "DISCOUNT",
+      description: "Ride credit for both users once the new user completes their first booking",
+      conditions: [
+        "Referred user signs up with the referral code",
+        "Referred user completes their first booking",
+        "Accounts pass the referral fraud check",
+      ],
     },
   }
 
-  // Additional methods and logic can be added here
+  // Risk score weights (0-100) and the thresholds that decide the action
+  private readonly FRAUD_WEIGHTS = {
+    selfReferral: 100,
+    sharedDevice: 45,
+    sharedPaymentMethod: 50,
+    sharedIp: 35,
+    referrerVelocity: 20,
+    ipVelocity: 20,
+  }
+  private readonly REVIEW_THRESHOLD = 40
+  private readonly BLOCK_THRESHOLD = 70
+  private readonly REWARD_CODE_VALIDITY_DAYS = 90
+
+  /**
+   * Generates a unique, shareable referral code, e.g. KOFI7G2X
+   */
+  async generateReferralCode(firstName?: string | null): Promise<string> {
+    const prefix = (firstName || "")
+      .toUpperCase()
+      .replace(/[^A-Z]/g, "")
+      .slice(0, 4)
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const suffix = crypto
+        .randomBytes(4)
+        .toString("hex")
+        .toUpperCase()
+        .slice(0, prefix ? 4 : 8)
+      const code = `${prefix}${suffix}`
+
+      const existing = await prisma.user.findUnique({ where: { referralCode: code } })
+      if (!existing) {
+        return code
+      }
+    }
+
+    throw new Error("Could not generate a unique referral code")
+  }
+
+  /**
+   * Links a newly registered user to the owner of the referral code they signed up with.
+   * Returns null when the code does not belong to anyone.
+   */
+  async attributeReferral(params: { refereeId: string; referralCode: string; ipAddress?: string; deviceId?: string }) {
+    try {
+      const code = params.referralCode.trim().toUpperCase()
+      const referrer = await prisma.user.findUnique({ where: { referralCode: code } })
+
+      if (!referrer) {
+        logger.info(`Unknown referral code used at sign-up: ${code}`)
+        return null
+      }
+
+      const fraudCheck = await this.checkReferralFraud(referrer.id, params.refereeId, {
+        ipAddress: params.ipAddress,
+        deviceId: params.deviceId,
+      })
+
+      const referral = await prisma.referral.create({
+        data: {
+          referrerId: referrer.id,
+          refereeId: params.refereeId,
+          code,
+          status: fraudCheck.action === "BLOCK" ? "REJECTED" : "PENDING",
+          signupIp: params.ipAddress,
+          signupDeviceId: params.deviceId,
+          riskScore: fraudCheck.riskScore,
+          fraudReasons: fraudCheck.reasons,
+          fraudAction: fraudCheck.action,
+        },
+      })
+
+      if (referral.status === "REJECTED") {
+        logger.warn(`Referral blocked at sign-up: ${referrer.id} -> ${params.refereeId}`, fraudCheck)
+        return referral
+      }
+
+      await prisma.user.update({
+        where: { id: params.refereeId },
+        data: { referredBy: referrer.id },
+      })
+
+      await this.notificationService.notifyCustomer(referrer.id, {
+        type: "REFERRAL_BONUS",
+        title: "A friend joined with your code",
+        body: "You'll get your referral reward once they complete their first booking.",
+        data: { referralId: referral.id },
+      })
+
+      await this.analyticsService.trackEvent({
+        userId: params.refereeId,
+        eventType: "referral_signup",
+        eventData: { referralId: referral.id, referrerId: referrer.id, riskScore: fraudCheck.riskScore },
+        timestamp: new Date(),
+      })
+
+      return referral
+    } catch (error) {
+      logger.error("Attribute referral error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Called when a booking completes. The referee's first completed booking releases the rewards,
+   * after a second fraud check that also covers payment methods added since sign-up.
+   */
+  async handleBookingCompleted(customerId: string, bookingId: string) {
+    try {
+      const referral = await prisma.referral.findUnique({ where: { refereeId: customerId } })
+      if (!referral || referral.status !== "PENDING") {
+        return null
+      }
+
+      const fraudCheck = await this.checkReferralFraud(referral.referrerId, customerId, {
+        ipAddress: referral.signupIp || undefined,
+        deviceId: referral.signupDeviceId || undefined,
+      })
+
+      if (fraudCheck.action !== "ALLOW") {
+        const updated = await prisma.referral.update({
+          where: { id: referral.id },
+          data: {
+            status: fraudCheck.action === "BLOCK" ? "REJECTED" : "UNDER_REVIEW",
+            qualifyingBookingId: bookingId,
+            riskScore: fraudCheck.riskScore,
+            fraudReasons: fraudCheck.reasons,
+            fraudAction: fraudCheck.action,
+          },
+        })
+
+        logger.warn(`Referral ${referral.id} held back (${fraudCheck.action})`, fraudCheck)
+        return updated
+      }
+
+      await prisma.referral.update({
+        where: { id: referral.id },
+        data: { qualifyingBookingId: bookingId, riskScore: fraudCheck.riskScore, fraudReasons: fraudCheck.reasons },
+      })
+
+      return await this.releaseRewards(referral.id)
+    } catch (error) {
+      logger.error("Handle referral booking completion error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Admin decision on a referral the fraud check sent to review.
+   */
+  async reviewReferral(referralId: string, decision: "APPROVE" | "REJECT", adminId: string) {
+    try {
+      const referral = await prisma.referral.findUnique({ where: { id: referralId } })
+      if (!referral) {
+        throw new Error("Referral not found")
+      }
+
+      if (referral.status !== "UNDER_REVIEW") {
+        throw new Error("Only referrals under review can be approved or rejected")
+      }
+
+      await prisma.referral.update({
+        where: { id: referralId },
+        data: { reviewedBy: adminId, reviewedAt: new Date() },
+      })
+
+      if (decision === "REJECT") {
+        return await prisma.referral.update({
+          where: { id: referralId },
+          data: { status: "REJECTED" },
+        })
+      }
+
+      return await this.releaseRewards(referralId)
+    } catch (error) {
+      logger.error("Review referral error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Scores how likely the referee is the referrer (or controlled by them).
+   */
+  async checkReferralFraud(
+    referrerId: string,
+    refereeId: string,
+    context: { ipAddress?: string; deviceId?: string } = {},
+  ): Promise<FraudDetectionResult> {
+    try {
+      const reasons: string[] = []
+      let riskScore = 0
+
+      const [referrer, referee] = await Promise.all([
+        prisma.user.findUnique({
+          where: { id: referrerId },
+          include: { sessions: true, paymentMethods: { where: { isActive: true } } },
+        }),
+        prisma.user.findUnique({
+          where: { id: refereeId },
+          include: { sessions: true, paymentMethods: { where: { isActive: true } } },
+        }),
+      ])
+
+      if (!referrer || !referee) {
+        throw new Error("Referral users not found")
+      }
+
+      // Self-referral - same account, or the same email/phone behind a second account
+      if (
+        referrer.id === referee.id ||
+        this.normalizeEmail(referrer.email) === this.normalizeEmail(referee.email) ||
+        (referrer.phone && referee.phone && this.normalizePhone(referrer.phone) === this.normalizePhone(referee.phone))
+      ) {
+        riskScore += this.FRAUD_WEIGHTS.selfReferral
+        reasons.push("Self-referral")
+      }
+
+      // Shared devices
+      const referrerDevices = new Set(referrer.sessions.map((session) => session.deviceInfo).filter(Boolean))
+      const refereeDevices = [context.deviceId, ...referee.sessions.map((session) => session.deviceInfo)].filter(Boolean)
+      if (refereeDevices.some((device) => referrerDevices.has(device!))) {
+        riskScore += this.FRAUD_WEIGHTS.sharedDevice
+        reasons.push("Referee uses the referrer's device")
+      }
+
+      // Shared IP addresses
+      const referrerIps = new Set(referrer.sessions.map((session) => session.ipAddress).filter(Boolean))
+      const refereeIps = [context.ipAddress, ...referee.sessions.map((session) => session.ipAddress)].filter(Boolean)
+      if (refereeIps.some((ip) => referrerIps.has(ip!))) {
+        riskScore += this.FRAUD_WEIGHTS.sharedIp
+        reasons.push("Referee shares an IP address with the referrer")
+      }
+
+      // Shared payment cards, mobile money wallets or bank accounts
+      const referrerPaymentKeys = new Set(referrer.paymentMethods.flatMap((method) => this.paymentMethodKeys(method)))
+      const sharesPaymentMethod = referee.paymentMethods.some((method) =>
+        this.paymentMethodKeys(method).some((key) => referrerPaymentKeys.has(key)),
+      )
+      if (sharesPaymentMethod) {
+        riskScore += this.FRAUD_WEIGHTS.sharedPaymentMethod
+        reasons.push("Referee uses a payment method registered to the referrer")
+      }
+
+      // Bursts of sign-ups on one code or from one IP
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000)
+      const [recentReferrals, recentFromIp] = await Promise.all([
+        prisma.referral.count({ where: { referrerId, createdAt: { gte: since }, refereeId: { not: refereeId } } }),
+        context.ipAddress
+          ? prisma.referral.count({
+              where: { signupIp: context.ipAddress, createdAt: { gte: since }, refereeId: { not: refereeId } },
+            })
+          : Promise.resolve(0),
+      ])
+
+      if (recentReferrals >= 5) {
+        riskScore += this.FRAUD_WEIGHTS.referrerVelocity
+        reasons.push(`Referrer has ${recentReferrals} other referrals in the last 24 hours`)
+      }
+      if (recentFromIp >= 3) {
+        riskScore += this.FRAUD_WEIGHTS.ipVelocity
+        reasons.push(`${recentFromIp} other referred sign-ups from the same IP in the last 24 hours`)
+      }
+
+      riskScore = Math.min(riskScore, 100)
+      const action = riskScore >= this.BLOCK_THRESHOLD ? "BLOCK" : riskScore >= this.REVIEW_THRESHOLD ? "REVIEW" : "ALLOW"
+
+      return {
+        isSuspicious: action !== "ALLOW",
+        riskScore,
+        reasons,
+        action,
+      }
+    } catch (error) {
+      logger.error("Check referral fraud error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * The signed-in user's own referral code, counts and history.
+   */
+  async getUserReferralSummary(userId: string) {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { referralCode: true },
+      })
+
+      if (!user) {
+        throw new Error("User not found")
+      }
+
+      const referrals = await prisma.referral.findMany({
+        where: { referrerId: userId },
+        include: { referee: { select: { id: true, firstName: true, lastName: true, createdAt: true } } },
+        orderBy: { createdAt: "desc" },
+      })
+
+      const successful = referrals.filter((referral) => referral.status === "REWARDED")
+
+      return {
+        referralCode: user.referralCode,
+        reward: this.REFERRAL_REWARDS.FIRST_RIDE,
+        totalReferrals: referrals.length,
+        successfulReferrals: successful.length,
+        pendingReferrals: referrals.filter((referral) => ["PENDING", "UNDER_REVIEW"].includes(referral.status)).length,
+        totalEarnings: successful.reduce((sum, referral) => sum + referral.referrerReward, 0),
+        referrals: referrals.map((referral) => ({
+          id: referral.id,
+          status: referral.status,
+          reward: referral.referrerReward,
+          rewardCode: referral.referrerRewardCode,
+          rewardedAt: referral.rewardedAt,
+          createdAt: referral.createdAt,
+          // Only the first name, the referee's contact details stay private
+          referee: { firstName: referral.referee.firstName },
+        })),
+      }
+    } catch (error) {
+      logger.error("Get user referral summary error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Programme-wide referral stats (admin).
+   */
+  async getReferralStats(dateRange?: { from: Date; to: Date }): Promise<ReferralStats> {
+    try {
+      const where: any = {}
+      if (dateRange) {
+        where.createdAt = { gte: dateRange.from, lte: dateRange.to }
+      }
+
+      const [totalReferrals, successfulReferrals, pendingReferrals, earnings, topReferrers] = await Promise.all([
+        prisma.referral.count({ where }),
+        prisma.referral.count({ where: { ...where, status: "REWARDED" } }),
+        prisma.referral.count({ where: { ...where, status: { in: ["PENDING", "UNDER_REVIEW"] } } }),
+        prisma.referral.aggregate({
+          where: { ...where, status: "REWARDED" },
+          _sum: { referrerReward: true, refereeReward: true },
+        }),
+        this.getLeaderboard({ limit: 10, since: dateRange?.from }),
+      ])
+
+      return {
+        totalReferrals,
+        successfulReferrals,
+        pendingReferrals,
+        totalEarnings: (earnings._sum.referrerReward || 0) + (earnings._sum.refereeReward || 0),
+        conversionRate: totalReferrals > 0 ? Math.round((successfulReferrals / totalReferrals) * 10000) / 100 : 0,
+        topReferrers,
+      }
+    } catch (error) {
+      logger.error("Get referral stats error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Top referrers by successful (rewarded) referrals.
+   */
+  async getLeaderboard(options: { limit?: number; since?: Date } = {}): Promise<ReferralStats["topReferrers"]> {
+    try {
+      const { limit = 10, since } = options
+
+      const grouped = await prisma.referral.groupBy({
+        by: ["referrerId"],
+        where: { status: "REWARDED", ...(since ? { rewardedAt: { gte: since } } : {}) },
+        _count: { _all: true },
+        _sum: { referrerReward: true },
+        orderBy: { _count: { referrerId: "desc" } },
+        take: limit,
+      })
+
+      const users = await prisma.user.findMany({
+        where: { id: { in: grouped.map((entry) => entry.referrerId) } },
+        select: { id: true, firstName: true, lastName: true },
+      })
+      const usersById = new Map(users.map((user) => [user.id, user]))
+
+      return grouped.map((entry) => {
+        const user = usersById.get(entry.referrerId)
+        return {
+          userId: entry.referrerId,
+          // Public leaderboard - show the last name as an initial
+          name: user ? `${user.firstName || ""} ${user.lastName ? `${user.lastName[0]}.` : ""}`.trim() : "Unknown",
+          referralCount: entry._count._all,
+          earnings: entry._sum.referrerReward || 0,
+        }
+      })
+    } catch (error) {
+      logger.error("Get referral leaderboard error:", error)
+      throw error
+    }
+  }
+
+  async getReferralsForReview(options: { page?: number; limit?: number; status?: string } = {}) {
+    try {
+      const { page = 1, limit = 20, status = "UNDER_REVIEW" } = options
+      const where: any = { status }
+
+      const [referrals, total] = await Promise.all([
+        prisma.referral.findMany({
+          where,
+          include: {
+            referrer: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+            referee: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+          },
+          orderBy: { riskScore: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.referral.count({ where }),
+      ])
+
+      return {
+        referrals,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }
+    } catch (error) {
+      logger.error("Get referrals for review error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Issues both rewards as single-use ride credits only the recipient can redeem.
+   */
+  private async releaseRewards(referralId: string) {
+    const reward = this.REFERRAL_REWARDS.FIRST_RIDE
+    const referrerAmount = reward.referrerReward / 100
+    const refereeAmount = reward.refereeReward / 100
+
+    const validUntil = new Date(Date.now() + this.REWARD_CODE_VALIDITY_DAYS * 24 * 60 * 60 * 1000)
+
+    // The claim and both credits commit together, so a failed credit leaves the referral payable
+    const rewarded = await prisma.$transaction(async (tx) => {
+      // Claim the referral first so a duplicate completion event cannot pay twice
+      const claimed = await tx.referral.updateMany({
+        where: { id: referralId, status: { in: ["PENDING", "UNDER_REVIEW"] } },
+        data: { status: "REWARDED", rewardedAt: new Date(), referrerReward: referrerAmount, refereeReward: refereeAmount },
+      })
+      if (claimed.count === 0) {
+        return null
+      }
+
+      const referral = await tx.referral.findUniqueOrThrow({ where: { id: referralId } })
+
+      const referrerCredit = await this.promotionService.createCampaign(
+        {
+          name: "Referral reward",
+          description: `Referral reward for inviting a friend (${referral.id})`,
+          code: this.generateRewardCode(),
+          type: "FIXED_AMOUNT",
+          value: referrerAmount,
+          usageLimit: 1,
+          perUserLimit: 1,
+          validUntil,
+          userId: referral.referrerId,
+        },
+        undefined,
+        tx,
+      )
+      const refereeCredit = await this.promotionService.createCampaign(
+        {
+          name: "Referral welcome reward",
+          description: `Welcome reward for joining with a referral code (${referral.id})`,
+          code: this.generateRewardCode(),
+          type: "FIXED_AMOUNT",
+          value: refereeAmount,
+          usageLimit: 1,
+          perUserLimit: 1,
+          validUntil,
+          userId: referral.refereeId,
+        },
+        undefined,
+        tx,
+      )
+
+      const updated = await tx.referral.update({
+        where: { id: referralId },
+        data: { referrerRewardCode: referrerCredit.code, refereeRewardCode: refereeCredit.code },
+      })
+      return { referral, updated, referrerCredit, refereeCredit }
+    })
+
+    if (!rewarded) {
+      return prisma.referral.findUnique({ where: { id: referralId } })
+    }
+    const { referral, updated, referrerCredit, refereeCredit } = rewarded
+
+    await this.notificationService.notifyCustomer(referral.referrerId, {
+      type: "REFERRAL_BONUS",
+      title: "Referral reward unlocked!",
+      body: `Your friend completed their first booking. Use code ${referrerCredit.code} for GH₵${referrerAmount} off your next booking.`,
+      data: { referralId, promoCode: referrerCredit.code, amount: referrerAmount },
+    })
+
+    await this.notificationService.notifyCustomer(referral.refereeId, {
+      type: "REFERRAL_BONUS",
+      title: "Welcome reward unlocked!",
+      body: `Thanks for your first booking. Use code ${refereeCredit.code} for GH₵${refereeAmount} off your next booking.`,
+      data: { referralId, promoCode: refereeCredit.code, amount: refereeAmount },
+    })
+
+    await this.analyticsService.trackEvent({
+      userId: referral.referrerId,
+      eventType: "referral_rewarded",
+      eventData: { referralId, refereeId: referral.refereeId, referrerAmount, refereeAmount },
+      timestamp: new Date(),
+    })
+
+    logger.info(`Referral rewards released for ${referralId}`)
+    return updated
+  }
+
+  private paymentMethodKeys(method: {
+    cardBin: string | null
+    cardLast4: string | null
+    expiryMonth: number | null
+    expiryYear: number | null
+    mobileMoneyNumber: string | null
+    accountNumber: string | null
+    bankCode: string | null
+  }): string[] {
+    const keys: string[] = []
+    if (method.cardBin && method.cardLast4) {
+      keys.push(`card:${method.cardBin}:${method.cardLast4}:${method.expiryMonth}:${method.expiryYear}`)
+    }
+    if (method.mobileMoneyNumber) {
+      keys.push(`momo:${this.normalizePhone(method.mobileMoneyNumber)}`)
+    }
+    if (method.accountNumber) {
+      keys.push(`bank:${method.bankCode}:${method.accountNumber}`)
+    }
+    return keys
+  }
+
+  private normalizeEmail(email: string): string {
+    // Treat plus-addressed variants (name+1@gmail.com) as the same inbox
+    const [local, domain] = email.trim().toLowerCase().split("@")
+    return `${local.split("+")[0]}@${domain}`
+  }
+
+  private normalizePhone(phone: string): string {
+    // Compare the last nine digits so +233 24..., 233 24... and 024... match
+    return phone.replace(/\D/g, "").slice(-9)
+  }
+
+  private generateRewardCode(): string {
+    return `REF-${crypto.randomBytes(4).toString("hex").toUpperCase()}`
+  }
 }
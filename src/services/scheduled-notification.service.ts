@@ -0,0 +1,406 @@
+import { Prisma } from "@prisma/client"
+import type {
+  NotificationType,
+  PriorityLevel,
+  ScheduledNotification,
+  ScheduledNotificationStatus,
+  SubscriptionTier,
+  UserRole,
+} from "@prisma/client"
+import prisma from "../config/database"
+import { NotificationService } from "./notification.service"
+import { JOB_TYPES, jobQueueService } from "./job-queue.service"
+import { auditService } from "./audit.service"
+import logger from "../utils/logger"
+
+/**
+ * Who a broadcast goes to. Every listed condition must match; only active users are included.
+ */
+export interface NotificationSegment {
+  roles?: UserRole[]
+  // Users who booked from the zone, drive in it, or chose it in their notification settings
+  serviceZoneIds?: string[]
+  subscriptionTiers?: SubscriptionTier[]
+  // Last login, ISO dates
+  lastActiveAfter?: string
+  lastActiveBefore?: string
+}
+
+export interface ScheduledNotificationData {
+  name?: string
+  userId?: string
+  segment?: NotificationSegment
+  type: NotificationType
+  priority?: PriorityLevel
+  title: string
+  body: string
+  data?: Record<string, any>
+  scheduledFor?: Date
+  throttlePerMinute?: number
+}
+
+// Batches go out once a minute, throttlePerMinute recipients at a time
+const BATCH_INTERVAL_MS = 60 * 1000
+
+export class ScheduledNotificationService {
+  private notificationService = new NotificationService()
+
+  async createScheduledNotification(data: ScheduledNotificationData, adminId: string) {
+    try {
+      if (!data.userId && !data.segment) {
+        throw new Error("Either a userId or a segment is required")
+      }
+
+      if (data.userId) {
+        const user = await prisma.user.findUnique({ where: { id: data.userId }, select: { id: true } })
+        if (!user) {
+          throw new Error("User not found")
+        }
+      }
+
+      const scheduledFor = data.scheduledFor || new Date()
+      const recipientCount = await prisma.user.count({ where: this.recipientWhere(data) })
+
+      const scheduled = await prisma.scheduledNotification.create({
+        data: {
+          name: data.name,
+          userId: data.userId,
+          segment: data.segment ? (JSON.parse(JSON.stringify(data.segment)) as Prisma.InputJsonValue) : undefined,
+          type: data.type,
+          priority: data.priority,
+          title: data.title,
+          body: data.body,
+          data: data.data as Prisma.InputJsonValue,
+          scheduledFor,
+          throttlePerMinute: data.throttlePerMinute,
+          recipientCount,
+          createdById: adminId,
+        },
+      })
+
+      await this.queueDispatch(scheduled.id, scheduledFor)
+
+      await auditService.logAdminAction(adminId, "SCHEDULED_NOTIFICATION_CREATED", "scheduled_notification", scheduled.id, {
+        type: data.type,
+        scheduledFor,
+        recipientCount,
+      })
+
+      return scheduled
+    } catch (error) {
+      logger.error("Create scheduled notification error:", error)
+      throw error
+    }
+  }
+
+  async listScheduledNotifications(
+    filters: { status?: ScheduledNotificationStatus; page?: number; limit?: number } = {},
+  ) {
+    try {
+      const { status, page = 1, limit = 20 } = filters
+      const where: Prisma.ScheduledNotificationWhereInput = { ...(status && { status }) }
+
+      const [scheduledNotifications, total] = await Promise.all([
+        prisma.scheduledNotification.findMany({
+          where,
+          orderBy: { scheduledFor: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.scheduledNotification.count({ where }),
+      ])
+
+      return {
+        scheduledNotifications,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }
+    } catch (error) {
+      logger.error("List scheduled notifications error:", error)
+      throw error
+    }
+  }
+
+  async getScheduledNotification(id: string) {
+    try {
+      const scheduled = await prisma.scheduledNotification.findUnique({ where: { id } })
+      if (!scheduled) {
+        throw new Error("Scheduled notification not found")
+      }
+
+      return { ...scheduled, stats: await this.getStats(scheduled) }
+    } catch (error) {
+      logger.error("Get scheduled notification error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Change a broadcast that hasn't started sending yet
+   */
+  async updateScheduledNotification(id: string, data: Partial<ScheduledNotificationData>, adminId: string) {
+    try {
+      const current = await prisma.scheduledNotification.findUnique({ where: { id } })
+      if (!current) {
+        throw new Error("Scheduled notification not found")
+      }
+
+      if (current.status !== "SCHEDULED") {
+        throw new Error(`Only scheduled notifications can be edited (current status: ${current.status})`)
+      }
+
+      if (data.userId && !(await prisma.user.findUnique({ where: { id: data.userId }, select: { id: true } }))) {
+        throw new Error("User not found")
+      }
+
+      // A new recipient replaces the segment and the other way round
+      const target = data.userId ? { userId: data.userId } : data.segment ? { segment: data.segment } : this.target(current)
+
+      const updated = await prisma.scheduledNotification.update({
+        where: { id },
+        data: {
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.userId && { userId: data.userId, segment: Prisma.DbNull }),
+          ...(data.segment && {
+            userId: null,
+            segment: JSON.parse(JSON.stringify(data.segment)) as Prisma.InputJsonValue,
+          }),
+          ...(data.type && { type: data.type }),
+          ...(data.priority && { priority: data.priority }),
+          ...(data.title && { title: data.title }),
+          ...(data.body && { body: data.body }),
+          ...(data.data !== undefined && { data: data.data as Prisma.InputJsonValue }),
+          ...(data.scheduledFor && { scheduledFor: data.scheduledFor }),
+          ...(data.throttlePerMinute && { throttlePerMinute: data.throttlePerMinute }),
+          recipientCount: await prisma.user.count({ where: this.recipientWhere(target) }),
+        },
+      })
+
+      if (data.scheduledFor) {
+        await this.queueDispatch(id, data.scheduledFor)
+      }
+
+      await auditService.logAdminAction(adminId, "SCHEDULED_NOTIFICATION_UPDATED", "scheduled_notification", id, {
+        changes: Object.keys(data),
+      })
+
+      return updated
+    } catch (error) {
+      logger.error("Update scheduled notification error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Stop a broadcast. Batches already sent stay sent.
+   */
+  async cancelScheduledNotification(id: string, adminId: string) {
+    try {
+      const result = await prisma.scheduledNotification.updateMany({
+        where: { id, status: { in: ["SCHEDULED", "SENDING"] } },
+        data: { status: "CANCELLED", cancelledAt: new Date() },
+      })
+
+      if (result.count === 0) {
+        const existing = await prisma.scheduledNotification.findUnique({ where: { id }, select: { status: true } })
+        throw new Error(
+          existing
+            ? `Only scheduled or sending notifications can be cancelled (current status: ${existing.status})`
+            : "Scheduled notification not found",
+        )
+      }
+
+      await jobQueueService.cancel(this.jobKey(id))
+      await auditService.logAdminAction(adminId, "SCHEDULED_NOTIFICATION_CANCELLED", "scheduled_notification", id)
+
+      return (await prisma.scheduledNotification.findUnique({ where: { id } }))!
+    } catch (error) {
+      logger.error("Cancel scheduled notification error:", error)
+      throw error
+    }
+  }
+
+  async previewSegment(segment: NotificationSegment) {
+    try {
+      return { recipientCount: await prisma.user.count({ where: this.recipientWhere({ segment }) }) }
+    } catch (error) {
+      logger.error("Preview notification segment error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Send the next batch of a due broadcast and queue the one after it. Run by the job worker.
+   * The cursor is advanced before the batch is sent, so a retried job never sends a batch twice.
+   */
+  async dispatchBatch(id: string) {
+    try {
+      const scheduled = await prisma.scheduledNotification.findUnique({ where: { id } })
+      if (!scheduled || (scheduled.status !== "SCHEDULED" && scheduled.status !== "SENDING")) {
+        return
+      }
+
+      if (scheduled.scheduledFor > new Date()) {
+        await this.queueDispatch(id, scheduled.scheduledFor)
+        return
+      }
+
+      if (scheduled.status === "SCHEDULED") {
+        await prisma.scheduledNotification.updateMany({
+          where: { id, status: "SCHEDULED" },
+          data: {
+            status: "SENDING",
+            startedAt: new Date(),
+            recipientCount: await prisma.user.count({ where: this.recipientWhere(this.target(scheduled)) }),
+          },
+        })
+      }
+
+      const batch = await prisma.user.findMany({
+        where: {
+          ...this.recipientWhere(this.target(scheduled)),
+          ...(scheduled.cursor && { id: { gt: scheduled.cursor } }),
+        },
+        orderBy: { id: "asc" },
+        take: scheduled.throttlePerMinute,
+        select: { id: true },
+      })
+
+      if (batch.length > 0) {
+        const claimed = await prisma.scheduledNotification.updateMany({
+          where: { id, status: "SENDING", cursor: scheduled.cursor },
+          data: { cursor: batch[batch.length - 1].id },
+        })
+        if (claimed.count === 0) {
+          // Cancelled, or another worker took this batch
+          return
+        }
+
+        let sent = 0
+        let skipped = 0
+        let failed = 0
+
+        for (const user of batch) {
+          try {
+            const notification = await this.notificationService.notifyCustomer(user.id, {
+              type: scheduled.type,
+              title: scheduled.title,
+              body: scheduled.body,
+              data: { ...(scheduled.data as Record<string, any> | null), scheduledNotificationId: id },
+              priority: scheduled.priority,
+              scheduledNotificationId: id,
+            })
+            if (notification) sent++
+            else skipped++
+          } catch (error) {
+            failed++
+            logger.warn(`Scheduled notification ${id} failed for user ${user.id}:`, error)
+          }
+        }
+
+        await prisma.scheduledNotification.update({
+          where: { id },
+          data: {
+            sentCount: { increment: sent },
+            skippedCount: { increment: skipped },
+            failedCount: { increment: failed },
+          },
+        })
+      }
+
+      if (batch.length < scheduled.throttlePerMinute) {
+        await prisma.scheduledNotification.updateMany({
+          where: { id, status: "SENDING" },
+          data: { status: "SENT", completedAt: new Date() },
+        })
+        logger.info(`Scheduled notification ${id} sent`)
+        return
+      }
+
+      await this.queueDispatch(id, new Date(Date.now() + BATCH_INTERVAL_MS))
+    } catch (error) {
+      logger.error(`Dispatch scheduled notification ${id} error:`, error)
+      throw error
+    }
+  }
+
+  private async getStats(scheduled: ScheduledNotification) {
+    const [byStatus, opened] = await Promise.all([
+      prisma.notification.groupBy({
+        by: ["status"],
+        where: { scheduledNotificationId: scheduled.id },
+        _count: { _all: true },
+      }),
+      prisma.notification.count({ where: { scheduledNotificationId: scheduled.id, isRead: true } }),
+    ])
+
+    const count = (status: string) => byStatus.find((row) => row.status === status)?._count._all || 0
+
+    return {
+      recipients: scheduled.recipientCount,
+      sent: scheduled.sentCount,
+      skipped: scheduled.skippedCount,
+      failed: scheduled.failedCount,
+      delivered: count("SENT"),
+      undelivered: count("UNDELIVERED"),
+      opened,
+      openRate: scheduled.sentCount > 0 ? Math.round((opened / scheduled.sentCount) * 10000) / 100 : 0,
+    }
+  }
+
+  private target(scheduled: ScheduledNotification) {
+    return {
+      userId: scheduled.userId || undefined,
+      segment: (scheduled.segment as NotificationSegment | null) ?? undefined,
+    }
+  }
+
+  private recipientWhere(target: { userId?: string | null; segment?: NotificationSegment }): Prisma.UserWhereInput {
+    if (target.userId) {
+      return { id: target.userId, isActive: true }
+    }
+
+    const segment = target.segment || {}
+    const where: Prisma.UserWhereInput = { isActive: true }
+
+    if (segment.roles?.length) {
+      where.role = { in: segment.roles }
+    }
+    if (segment.subscriptionTiers?.length) {
+      where.subscriptionTier = { in: segment.subscriptionTiers }
+    }
+    if (segment.lastActiveAfter || segment.lastActiveBefore) {
+      where.lastLoginAt = {
+        ...(segment.lastActiveAfter && { gte: new Date(segment.lastActiveAfter) }),
+        ...(segment.lastActiveBefore && { lte: new Date(segment.lastActiveBefore) }),
+      }
+    }
+    if (segment.serviceZoneIds?.length) {
+      const zoneIds = { in: segment.serviceZoneIds }
+      where.OR = [
+        { bookingsAsCustomer: { some: { originZoneId: zoneIds } } },
+        { driverProfile: { serviceZones: { some: { serviceZoneId: zoneIds, isActive: true } } } },
+        { taxiDriverProfile: { serviceZones: { some: { serviceZoneId: zoneIds, isActive: true } } } },
+        { notificationSettings: { serviceZoneId: zoneIds } },
+      ]
+    }
+
+    return where
+  }
+
+  private queueDispatch(id: string, runAt: Date) {
+    return jobQueueService.enqueue(
+      JOB_TYPES.SCHEDULED_NOTIFICATION_DISPATCH,
+      { scheduledNotificationId: id },
+      { runAt, dedupeKey: this.jobKey(id), replace: true },
+    )
+  }
+
+  private jobKey(id: string) {
+    return `scheduled-notification:${id}`
+  }
+}
@@ -0,0 +1,366 @@
+import twilio from "twilio"
+import type { Prisma, SmsMessage, SmsStatus } from "@prisma/client"
+import prisma from "../config/database"
+import logger from "../utils/logger"
+
+export interface SmsSendRequest {
+  to: string
+  from: string
+  body: string
+  statusCallback?: string
+}
+
+export interface SmsSendResult {
+  providerMessageId: string
+  status: SmsStatus
+}
+
+export interface SmsProvider {
+  readonly name: string
+  send(request: SmsSendRequest): Promise<SmsSendResult>
+  // Check a delivery-status callback really came from the provider
+  verifyCallback(signature: string | undefined, url: string, params: Record<string, any>): boolean
+}
+
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = "twilio"
+  private client = twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN)
+
+  async send(request: SmsSendRequest): Promise<SmsSendResult> {
+    const message = await this.client.messages.create({
+      to: request.to,
+      from: request.from,
+      body: request.body,
+      statusCallback: request.statusCallback,
+    })
+
+    return { providerMessageId: message.sid, status: mapProviderStatus(message.status) || "QUEUED" }
+  }
+
+  verifyCallback(signature: string | undefined, url: string, params: Record<string, any>): boolean {
+    if (!signature || !process.env.TWILIO_AUTH_TOKEN) {
+      return false
+    }
+    return twilio.validateRequest(process.env.TWILIO_AUTH_TOKEN, signature, url, params)
+  }
+}
+
+/**
+ * Keeps messages in memory instead of sending them. Only used in development and tests
+ * (or with SMS_PROVIDER=fake), where the sent bodies can be read back from `sent`.
+ * Bodies are never logged, since they carry OTP codes.
+ */
+export class FakeSmsProvider implements SmsProvider {
+  readonly name = "fake"
+  readonly sent: Array<SmsSendRequest & { providerMessageId: string }> = []
+  private counter = 0
+
+  // Delivery callbacks must carry this as their signature
+  constructor(private callbackSignature = process.env.FAKE_SMS_CALLBACK_SIGNATURE || "fake-signature") {}
+
+  async send(request: SmsSendRequest): Promise<SmsSendResult> {
+    const providerMessageId = `FAKE${Date.now()}${++this.counter}`
+    this.sent.push({ ...request, providerMessageId })
+    logger.debug(`[fake sms] ${request.from} -> ${request.to}: ${request.body.length} characters (${providerMessageId})`)
+    return { providerMessageId, status: "SENT" }
+  }
+
+  verifyCallback(signature: string | undefined): boolean {
+    return signature === this.callbackSignature
+  }
+
+  lastMessageTo(to: string) {
+    return [...this.sent].reverse().find((message) => message.to === to) || null
+  }
+
+  clear() {
+    this.sent.length = 0
+  }
+}
+
+export const SMS_TEMPLATES = {
+  OTP: (data: { code: string; minutes: number }) =>
+    `Your TripSync code is ${data.code}. It expires in ${data.minutes} minutes. Never share this code with anyone.`,
+  NOTIFICATION: (data: { title: string; body: string }) => `TripSync: ${data.title}. ${data.body}`,
+  EMERGENCY_LOCATION_SHARE: (data: {
+    name: string
+    latitude: number
+    longitude: number
+    address?: string
+    isRealTime?: boolean
+    trackingUrl?: string
+  }) =>
+    `EMERGENCY: ${data.name} has shared ${data.isRealTime ? "their live" : "their"} location with you via TripSync` +
+    `${data.address ? ` near ${data.address}` : ""}: ` +
+    `${data.trackingUrl || `https://maps.google.com/?q=${data.latitude},${data.longitude}`} ` +
+    `Please check on them or contact emergency services.`,
+}
+
+export type SmsTemplate = keyof typeof SMS_TEMPLATES
+type SmsTemplateData<T extends SmsTemplate> = Parameters<(typeof SMS_TEMPLATES)[T]>[0]
+
+// Dialling code -> country, longest codes first so +233 is not read as +23
+const DIALLING_CODES: Array<[string, string]> = [
+  ["233", "GH"],
+  ["234", "NG"],
+  ["225", "CI"],
+  ["228", "TG"],
+  ["229", "BJ"],
+  ["226", "BF"],
+  ["254", "KE"],
+  ["27", "ZA"],
+  ["44", "GB"],
+  ["1", "US"],
+]
+
+const STATUS_ORDER: SmsStatus[] = ["QUEUED", "SENT", "DELIVERED"]
+
+let activeProvider: SmsProvider | null = null
+
+/**
+ * Twilio unless SMS_PROVIDER=fake, or NODE_ENV is development or test with no Twilio
+ * credentials. Anywhere else, missing credentials are an error rather than a silent fake.
+ */
+export function getSmsProvider(): SmsProvider {
+  if (!activeProvider) {
+    const environment = process.env.NODE_ENV || "development"
+    const configured = process.env.SMS_PROVIDER
+
+    if (configured && configured !== "twilio" && configured !== "fake") {
+      throw new Error(`Unknown SMS_PROVIDER "${configured}"`)
+    }
+
+    const useFake =
+      configured === "fake" ||
+      (!configured && !process.env.TWILIO_ACCOUNT_SID && ["development", "test"].includes(environment))
+
+    if (!useFake && (!process.env.TWILIO_ACCOUNT_SID || !process.env.TWILIO_AUTH_TOKEN)) {
+      throw new Error("SMS is not configured: set TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN, or SMS_PROVIDER=fake")
+    }
+
+    activeProvider = useFake ? new FakeSmsProvider() : new TwilioSmsProvider()
+    logger.info(`SMS provider: ${activeProvider.name}`)
+  }
+  return activeProvider
+}
+
+export function setSmsProvider(provider: SmsProvider) {
+  activeProvider = provider
+}
+
+function mapProviderStatus(status: string): SmsStatus | null {
+  switch (status) {
+    case "accepted":
+    case "scheduled":
+    case "queued":
+    case "sending":
+      return "QUEUED"
+    case "sent":
+      return "SENT"
+    case "delivered":
+    case "read":
+      return "DELIVERED"
+    case "undelivered":
+      return "UNDELIVERED"
+    case "failed":
+    case "canceled":
+      return "FAILED"
+    default:
+      return null
+  }
+}
+
+export class SmsService {
+  /**
+   * Convert a stored phone number to E.164. Local numbers ("024 123 4567") are read as
+   * SMS_DEFAULT_COUNTRY (Ghana unless configured). Returns null if the number can't be used.
+   */
+  normalizePhone(phone: string, defaultCountry = process.env.SMS_DEFAULT_COUNTRY || "GH"): string | null {
+    let digits = phone.replace(/[\s().-]/g, "")
+
+    if (digits.startsWith("00")) {
+      digits = `+${digits.slice(2)}`
+    } else if (digits.startsWith("0")) {
+      const dial = DIALLING_CODES.find(([, country]) => country === defaultCountry)?.[0]
+      if (!dial) return null
+      digits = `+${dial}${digits.slice(1)}`
+    } else if (!digits.startsWith("+")) {
+      digits = `+${digits}`
+    }
+
+    return /^\+[1-9]\d{7,14}$/.test(digits) ? digits : null
+  }
+
+  getCountry(e164: string): string | null {
+    return DIALLING_CODES.find(([dial]) => e164.startsWith(`+${dial}`))?.[1] || null
+  }
+
+  /**
+   * Sender for the destination country. SMS_SENDER_IDS maps countries to alphanumeric
+   * sender IDs ("GH:TripSync,NG:TripSyncNG"); countries without one use TWILIO_PHONE_NUMBER.
+   */
+  getSenderId(country: string | null): string {
+    const senderIds = Object.fromEntries(
+      (process.env.SMS_SENDER_IDS || "")
+        .split(",")
+        .map((entry) => entry.split(":").map((part) => part.trim()))
+        .filter((parts) => parts.length === 2 && parts[0] && parts[1]),
+    )
+
+    return (country && senderIds[country.toUpperCase()]) || process.env.TWILIO_PHONE_NUMBER || "TripSync"
+  }
+
+  /**
+   * Render a template and send it. The message is recorded before sending, so failed
+   * sends are visible to admins with the provider's error.
+   */
+  async send<T extends SmsTemplate>(
+    to: string,
+    template: T,
+    data: SmsTemplateData<T>,
+    // Values to mask in the stored copy of the body, e.g. OTP codes
+    options: { userId?: string; redact?: string[] } = {},
+  ): Promise<SmsMessage> {
+    const phone = this.normalizePhone(to)
+    if (!phone) {
+      throw new Error(`Invalid phone number: ${to}`)
+    }
+
+    const provider = getSmsProvider()
+    const countryCode = this.getCountry(phone)
+    const senderId = this.getSenderId(countryCode)
+    const body = (SMS_TEMPLATES[template] as (data: SmsTemplateData<T>) => string)(data)
+
+    const message = await prisma.smsMessage.create({
+      data: {
+        userId: options.userId,
+        to: phone,
+        countryCode,
+        senderId,
+        template,
+        body: (options.redact || []).reduce((text, value) => text.split(value).join("******"), body),
+        provider: provider.name,
+      },
+    })
+
+    try {
+      const result = await provider.send({
+        to: phone,
+        from: senderId,
+        body,
+        statusCallback: process.env.SMS_STATUS_CALLBACK_URL,
+      })
+
+      return await prisma.smsMessage.update({
+        where: { id: message.id },
+        data: { providerMessageId: result.providerMessageId, status: result.status, sentAt: new Date() },
+      })
+    } catch (error: any) {
+      logger.error(`Send ${template} SMS to ${phone} error:`, error)
+      await prisma.smsMessage.update({
+        where: { id: message.id },
+        data: {
+          status: "FAILED",
+          errorCode: error?.code ? String(error.code) : null,
+          errorMessage: error instanceof Error ? error.message : String(error),
+        },
+      })
+      throw error
+    }
+  }
+
+  /**
+   * Send to a user's phone on file. Returns null if the user has no usable number.
+   */
+  async sendToUser<T extends SmsTemplate>(userId: string, template: T, data: SmsTemplateData<T>) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { phone: true } })
+    if (!user?.phone || !this.normalizePhone(user.phone)) {
+      logger.warn(`User ${userId} has no phone number for ${template} SMS`)
+      return null
+    }
+
+    return this.send(user.phone, template, data, { userId })
+  }
+
+  verifyStatusCallback(signature: string | undefined, params: Record<string, any>): boolean {
+    const url = process.env.SMS_STATUS_CALLBACK_URL
+    if (!url) {
+      return false
+    }
+    return getSmsProvider().verifyCallback(signature, url, params)
+  }
+
+  /**
+   * Apply a delivery report. Late "sent" reports never move a delivered message backwards.
+   */
+  async handleStatusCallback(params: { MessageSid?: string; MessageStatus?: string; ErrorCode?: string }) {
+    try {
+      if (!params.MessageSid || !params.MessageStatus) {
+        throw new Error("MessageSid and MessageStatus are required")
+      }
+
+      const status = mapProviderStatus(params.MessageStatus)
+      const message = await prisma.smsMessage.findUnique({ where: { providerMessageId: params.MessageSid } })
+
+      if (!message || !status) {
+        logger.warn(`Ignoring SMS status ${params.MessageStatus} for unknown message ${params.MessageSid}`)
+        return null
+      }
+
+      const current = STATUS_ORDER.indexOf(message.status)
+      const next = STATUS_ORDER.indexOf(status)
+      if (current >= 0 && next >= 0 && next <= current) {
+        return message
+      }
+
+      return await prisma.smsMessage.update({
+        where: { id: message.id },
+        data: {
+          status,
+          errorCode: params.ErrorCode || message.errorCode,
+          ...(status === "DELIVERED" && { deliveredAt: new Date() }),
+        },
+      })
+    } catch (error) {
+      logger.error("Handle SMS status callback error:", error)
+      throw error
+    }
+  }
+
+  async listMessages(
+    filters: { status?: SmsStatus; userId?: string; to?: string; template?: string; page?: number; limit?: number } = {},
+  ) {
+    try {
+      const { status, userId, to, template, page = 1, limit = 50 } = filters
+      const where: Prisma.SmsMessageWhereInput = {
+        ...(status && { status }),
+        ...(userId && { userId }),
+        ...(to && { to: this.normalizePhone(to) || to }),
+        ...(template && { template }),
+      }
+
+      const [messages, total] = await Promise.all([
+        prisma.smsMessage.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.smsMessage.count({ where }),
+      ])
+
+      return {
+        messages,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }
+    } catch (error) {
+      logger.error("List SMS messages error:", error)
+      throw error
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import type { Server } from "socket.io"
 import prisma from "../config/database"
+import { GEO_INDEXES, geoIndexService } from "./geo-index.service"
 import logger from "../utils/logger"
 import jwt, { type Secret } from "jsonwebtoken"
 
@@ -85,6 +86,7 @@ export function initializeSocketHandlers(io: Server) {
               heading,
             },
           })
+          await geoIndexService.updatePosition(GEO_INDEXES.DRIVERS, userId, latitude, longitude)
         }
 
         // Broadcast location to customers with active bookings
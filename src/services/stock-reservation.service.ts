@@ -0,0 +1,111 @@
+import type { Prisma } from "@prisma/client"
+import prisma from "../config/database"
+import logger from "../utils/logger"
+
+export class StockReservationService {
+  /**
+   * Take the units off sale for an order. Runs inside the checkout transaction, and the
+   * conditional decrement means two checkouts can never both get the last unit.
+   */
+  async reserve(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    items: Array<{ productId: string; name: string; quantity: number }>,
+    expiresAt: Date,
+  ) {
+    for (const item of items) {
+      const reserved = await tx.product.updateMany({
+        where: { id: item.productId, inStock: true, stockQuantity: { gte: item.quantity } },
+        data: { stockQuantity: { decrement: item.quantity } },
+      })
+      if (reserved.count === 0) {
+        throw new Error(`${item.name} no longer has enough stock`)
+      }
+
+      await tx.stockReservation.create({
+        data: { orderId, productId: item.productId, quantity: item.quantity, expiresAt },
+      })
+    }
+  }
+
+  // The store has accepted the order, so the units are sold
+  async commit(orderId: string) {
+    try {
+      await prisma.stockReservation.updateMany({
+        where: { orderId, status: "HELD" },
+        data: { status: "COMMITTED" },
+      })
+    } catch (error) {
+      logger.error(`Commit stock reservations for order ${orderId} error:`, error)
+      throw error
+    }
+  }
+
+  /**
+   * Put the order's held units back on sale. Each reservation is claimed before its stock is
+   * returned, so releasing twice never restocks twice.
+   */
+  async release(orderId: string, reason: string) {
+    try {
+      const reservations = await prisma.stockReservation.findMany({ where: { orderId, status: "HELD" } })
+
+      for (const reservation of reservations) {
+        await prisma.$transaction(async (tx) => {
+          const claimed = await tx.stockReservation.updateMany({
+            where: { id: reservation.id, status: "HELD" },
+            data: { status: "RELEASED", releasedAt: new Date(), releaseReason: reason },
+          })
+          if (claimed.count === 0) return
+
+          await tx.product.update({
+            where: { id: reservation.productId },
+            data: { stockQuantity: { increment: reservation.quantity } },
+          })
+        })
+      }
+
+      return reservations.length
+    } catch (error) {
+      logger.error(`Release stock reservations for order ${orderId} error:`, error)
+      throw error
+    }
+  }
+
+  /**
+   * Safety net for holds whose order never reached the store, e.g. the server stopped
+   * between checkout and payment. Orders still awaiting or past store confirmation are
+   * handled by the confirmation itself.
+   */
+  async releaseExpired() {
+    const orders = await prisma.stockReservation.findMany({
+      where: {
+        status: "HELD",
+        expiresAt: { lt: new Date() },
+        order: {
+          OR: [
+            { purchaseConfirmation: null },
+            { purchaseConfirmation: { status: { notIn: ["PENDING", "CONFIRMED"] } } },
+          ],
+        },
+      },
+      distinct: ["orderId"],
+      select: { orderId: true },
+    })
+
+    let released = 0
+    for (const { orderId } of orders) {
+      try {
+        await this.release(orderId, "EXPIRED")
+        await prisma.order.updateMany({
+          where: { id: orderId, status: "PENDING" },
+          data: { status: "CANCELLED" },
+        })
+        released++
+      } catch (error) {
+        logger.error(`Failed to release expired stock for order ${orderId}:`, error)
+      }
+    }
+
+    return released
+  }
+}
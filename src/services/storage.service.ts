@@ -0,0 +1,183 @@
+import crypto from "crypto"
+import fs from "fs/promises"
+import path from "path"
+import type { RequestHandler } from "express"
+import logger from "../utils/logger"
+
+/**
+ * Where uploaded files live. Services only talk to this interface, so the backend can be
+ * swapped with STORAGE_DRIVER (`supabase` by default, or `local`).
+ */
+export interface StorageAdapter {
+  upload(bucket: string, filePath: string, body: Buffer, options: { contentType: string; upsert?: boolean }): Promise<void>
+  exists(bucket: string, filePath: string): Promise<boolean>
+  remove(bucket: string, filePaths: string[]): Promise<void>
+  getPublicUrl(bucket: string, filePath: string): Promise<string>
+  createSignedUrl(bucket: string, filePath: string, expiresInSeconds: number): Promise<string>
+}
+
+// Buckets whose files are only reachable through signed URLs
+export const PRIVATE_BUCKETS = ["documents"]
+
+export class SupabaseStorageAdapter implements StorageAdapter {
+  async upload(bucket: string, filePath: string, body: Buffer, options: { contentType: string; upsert?: boolean }) {
+    const supabase = await this.client()
+    const { error } = await supabase.storage.from(bucket).upload(filePath, body, {
+      contentType: options.contentType,
+      upsert: options.upsert ?? false,
+    })
+
+    if (error) {
+      throw new Error(`Upload failed: ${error.message}`)
+    }
+  }
+
+  async exists(bucket: string, filePath: string) {
+    const supabase = await this.client()
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(path.posix.dirname(filePath), { search: path.posix.basename(filePath), limit: 1 })
+
+    if (error) {
+      throw new Error(`Lookup failed: ${error.message}`)
+    }
+    return (data || []).some((file) => file.name === path.posix.basename(filePath))
+  }
+
+  async remove(bucket: string, filePaths: string[]) {
+    const supabase = await this.client()
+    const { error } = await supabase.storage.from(bucket).remove(filePaths)
+
+    if (error) {
+      throw new Error(`Delete failed: ${error.message}`)
+    }
+  }
+
+  async getPublicUrl(bucket: string, filePath: string) {
+    const supabase = await this.client()
+    const { data } = supabase.storage.from(bucket).getPublicUrl(filePath)
+    return data.publicUrl
+  }
+
+  async createSignedUrl(bucket: string, filePath: string, expiresInSeconds: number) {
+    const supabase = await this.client()
+    const { data, error } = await supabase.storage.from(bucket).createSignedUrl(filePath, expiresInSeconds)
+
+    if (error || !data) {
+      throw new Error(`Signing failed: ${error?.message || "No URL returned"}`)
+    }
+    return data.signedUrl
+  }
+
+  // Loaded on first use: the Supabase config exits the process when its keys are missing
+  private async client() {
+    const { supabase } = await import("../config/supabase")
+    return supabase
+  }
+}
+
+/**
+ * Keeps files on disk under LOCAL_STORAGE_DIR, one folder per bucket. Meant for tests and
+ * local development; the server serves the folder at LOCAL_STORAGE_URL. Signed URLs carry an
+ * HMAC of the path and expiry, which `requireSignature` checks for private buckets.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  constructor(
+    private rootDir = path.resolve(process.env.LOCAL_STORAGE_DIR || "uploads"),
+    private publicBaseUrl = process.env.LOCAL_STORAGE_URL || "/uploads",
+    private signingSecret = process.env.LOCAL_STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || "",
+  ) {}
+
+  async upload(bucket: string, filePath: string, body: Buffer, options: { contentType: string; upsert?: boolean }) {
+    const target = this.resolve(bucket, filePath)
+    if (!options.upsert && (await this.exists(bucket, filePath))) {
+      throw new Error("Upload failed: The resource already exists")
+    }
+
+    await fs.mkdir(path.dirname(target), { recursive: true })
+    await fs.writeFile(target, body)
+  }
+
+  async exists(bucket: string, filePath: string) {
+    try {
+      await fs.access(this.resolve(bucket, filePath))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async remove(bucket: string, filePaths: string[]) {
+    await Promise.all(filePaths.map((filePath) => fs.rm(this.resolve(bucket, filePath), { force: true })))
+  }
+
+  async getPublicUrl(bucket: string, filePath: string) {
+    return `${this.publicBaseUrl.replace(/\/$/, "")}/${bucket}/${filePath}`
+  }
+
+  async createSignedUrl(bucket: string, filePath: string, expiresInSeconds: number) {
+    this.resolve(bucket, filePath)
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds
+    const signature = this.sign(`${bucket}/${filePath}`, expires)
+    return `${await this.getPublicUrl(bucket, filePath)}?expires=${expires}&signature=${signature}`
+  }
+
+  // Mounted in front of the static folder so private buckets need a valid, unexpired signature
+  requireSignature: RequestHandler = (req, res, next) => {
+    const objectPath = decodeURIComponent(req.path).replace(/^\//, "")
+    if (!PRIVATE_BUCKETS.includes(objectPath.split("/")[0])) {
+      return next()
+    }
+
+    const expires = Number(req.query.expires)
+    const signature = typeof req.query.signature === "string" ? req.query.signature : ""
+    const expected = this.sign(objectPath, expires)
+    const valid =
+      Number.isFinite(expires) &&
+      expires > Date.now() / 1000 &&
+      signature.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+
+    if (!valid) {
+      return res.status(403).json({ success: false, message: "Invalid or expired file link" })
+    }
+    next()
+  }
+
+  private sign(objectPath: string, expires: number) {
+    if (!this.signingSecret) {
+      throw new Error("LOCAL_STORAGE_SIGNING_SECRET is not configured")
+    }
+    return crypto.createHmac("sha256", this.signingSecret).update(`${objectPath}:${expires}`).digest("hex")
+  }
+
+  private resolve(bucket: string, filePath: string) {
+    const target = path.resolve(this.rootDir, bucket, filePath)
+    if (!target.startsWith(path.resolve(this.rootDir, bucket) + path.sep)) {
+      throw new Error("Invalid file path")
+    }
+    return target
+  }
+}
+
+export function createStorageAdapter(driver = process.env.STORAGE_DRIVER || "supabase"): StorageAdapter {
+  switch (driver) {
+    case "local":
+      return new LocalStorageAdapter()
+    case "supabase":
+      return new SupabaseStorageAdapter()
+    default:
+      logger.warn(`Unknown STORAGE_DRIVER "${driver}", using Supabase`)
+      return new SupabaseStorageAdapter()
+  }
+}
+
+let defaultAdapter: StorageAdapter | null = null
+
+// Created on first use so STORAGE_DRIVER is read after the environment has been loaded
+export function getStorageAdapter() {
+  if (!defaultAdapter) {
+    defaultAdapter = createStorageAdapter()
+  }
+  return defaultAdapter
+}
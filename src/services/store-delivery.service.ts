@@ -333,7 +333,9 @@ export class StoreDeliveryService {
           customer: true,
           store: {
             include: { location: true, owner: { include: { user: true } } }
-          }
+          },
+          deliveryLocation: true,
+          delivery: true
         }
       })
 
@@ -345,41 +347,53 @@ export class StoreDeliveryService {
       const estimate = await this.pricingService.calculateDeliveryEstimate({
         pickupLatitude: order.store.location.latitude,
         pickupLongitude: order.store.location.longitude,
-        dropoffLatitude: 0, // Will be updated with actual delivery address
-        dropoffLongitude: 0,
+        dropoffLatitude: order.deliveryLocation?.latitude ?? 0,
+        dropoffLongitude: order.deliveryLocation?.longitude ?? 0,
         deliveryType: "PACKAGE"
       })
 
-      // Create delivery location (placeholder - should be updated with actual address)
-      const deliveryLocation = await prisma.location.create({
-        data: {
-          latitude: 0, // Placeholder
-          longitude: 0, // Placeholder
-          address: "To be updated", // Placeholder
-          city: "Unknown",
-          state: "Unknown",
-          country: "Ghana"
-        }
-      })
-
       // Generate tracking code
       const trackingCode = this.generateTrackingCode()
+      const deliveryTimes = {
+        estimatedPickupTime: new Date(Date.now() + 30 * 60 * 1000), // 30 minutes
+        estimatedDeliveryTime: new Date(Date.now() + (estimate.estimatedDuration + 30) * 60 * 1000)
+      }
 
-      // Create delivery record
-      const delivery = await prisma.delivery.create({
-        data: {
-          orderId: order.id,
-          pickupLocationId: order.store.locationId,
-          deliveryLocationId: deliveryLocation.id,
-          deliveryFee: order.deliveryFee,
-          estimatedPickupTime: new Date(Date.now() + 30 * 60 * 1000), // 30 minutes
-          estimatedDeliveryTime: new Date(Date.now() + (estimate.estimatedDuration + 30) * 60 * 1000),
-          specialInstructions: JSON.parse(order.preparationNotes || '{}').specialInstructions,
-          status: "PENDING",
-          trackingCode,
-          recipientName: order.customer.firstName + " " + order.customer.lastName
-        }
-      })
+      let delivery
+      if (order.delivery) {
+        // Cart checkouts create the delivery up front with the customer's address
+        delivery = await prisma.delivery.update({
+          where: { id: order.delivery.id },
+          data: { ...deliveryTimes, trackingCode }
+        })
+      } else {
+        // Create delivery location (placeholder - should be updated with actual address)
+        const deliveryLocation = await prisma.location.create({
+          data: {
+            latitude: 0, // Placeholder
+            longitude: 0, // Placeholder
+            address: "To be updated", // Placeholder
+            city: "Unknown",
+            state: "Unknown",
+            country: "Ghana"
+          }
+        })
+
+        // Create delivery record
+        delivery = await prisma.delivery.create({
+          data: {
+            orderId: order.id,
+            pickupLocationId: order.store.locationId,
+            deliveryLocationId: deliveryLocation.id,
+            deliveryFee: order.deliveryFee,
+            ...deliveryTimes,
+            specialInstructions: JSON.parse(order.preparationNotes || '{}').specialInstructions,
+            status: "PENDING",
+            trackingCode,
+            recipientName: order.customer.firstName + " " + order.customer.lastName
+          }
+        })
+      }
 
       // Find and notify dispatch riders
       await this.dispatchRiderService.notifyNearbyDispatchRiders(delivery)
@@ -0,0 +1,582 @@
+import type { Priority, Prisma, SupportCategory, TicketStatus } from "@prisma/client"
+import prisma from "../config/database"
+import { NotificationService } from "./notification.service"
+import { auditService } from "./audit.service"
+import logger from "../utils/logger"
+
+export const SUPPORT_STAFF_ROLES = ["SUPER_ADMIN", "CITY_ADMIN", "SUPPORT_AGENT"]
+
+// Hours allowed for the first staff reply and for resolution
+const SLA_HOURS: Record<Priority, { firstResponse: number; resolution: number }> = {
+  URGENT: { firstResponse: 1, resolution: 4 },
+  HIGH: { firstResponse: 4, resolution: 24 },
+  MEDIUM: { firstResponse: 8, resolution: 48 },
+  LOW: { firstResponse: 24, resolution: 72 },
+}
+
+const PRIORITY_ORDER: Priority[] = ["LOW", "MEDIUM", "HIGH", "URGENT"]
+
+const MAX_ESCALATION_LEVEL = 3
+
+const STATUS_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  OPEN: ["IN_PROGRESS", "RESOLVED", "CLOSED"],
+  IN_PROGRESS: ["OPEN", "RESOLVED", "CLOSED"],
+  RESOLVED: ["REOPENED", "CLOSED"],
+  REOPENED: ["IN_PROGRESS", "RESOLVED", "CLOSED"],
+  CLOSED: [],
+}
+
+const ACTIVE_STATUSES: TicketStatus[] = ["OPEN", "IN_PROGRESS", "REOPENED"]
+
+export interface CreateTicketData {
+  subject: string
+  description: string
+  category: SupportCategory
+  priority?: Priority
+  bookingId?: string
+  orderId?: string
+  deliveryId?: string
+}
+
+interface TicketActor {
+  id: string
+  role: string
+}
+
+export class SupportService {
+  private notificationService = new NotificationService()
+
+  /**
+   * Open a ticket. Links to a booking, order or delivery must belong to the user
+   * unless the caller has already checked access (e.g. chat reports).
+   */
+  async createTicket(userId: string, data: CreateTicketData, options: { skipLinkCheck?: boolean } = {}) {
+    try {
+      if (!options.skipLinkCheck) {
+        await this.assertLinkedRecordAccess(userId, data)
+      }
+
+      // Safety reports always go to the front of the queue
+      const priority = data.category === "SAFETY_CONCERN" ? "URGENT" : data.priority || "MEDIUM"
+
+      const ticket = await prisma.supportTicket.create({
+        data: {
+          userId,
+          subject: data.subject,
+          description: data.description,
+          category: data.category,
+          priority,
+          status: "OPEN",
+          bookingId: data.bookingId,
+          orderId: data.orderId,
+          deliveryId: data.deliveryId,
+          ...this.slaDueDates(priority, new Date()),
+        },
+      })
+
+      await auditService.logUserAction(userId, "SUPPORT_TICKET_CREATED", "support_ticket", ticket.id, {
+        category: ticket.category,
+        priority: ticket.priority,
+      })
+
+      await this.notificationService.notifyCustomer(userId, {
+        type: "SUPPORT_TICKET_CREATED",
+        title: "Support ticket received",
+        body: `We've received "${ticket.subject}" and will respond within ${SLA_HOURS[priority].firstResponse} hour(s).`,
+        data: { ticketId: ticket.id },
+      })
+
+      if (priority === "URGENT" || priority === "HIGH") {
+        await this.notificationService.notifyAdmins({
+          type: "SUPPORT_TICKET_CREATED",
+          title: `${priority} support ticket`,
+          body: ticket.subject,
+          data: { ticketId: ticket.id, category: ticket.category },
+          priority: priority === "URGENT" ? "URGENT" : "STANDARD",
+        })
+      }
+
+      return ticket
+    } catch (error) {
+      logger.error("Create support ticket error:", error)
+      throw error
+    }
+  }
+
+  async getUserTickets(userId: string, options: { page?: number; limit?: number; status?: TicketStatus } = {}) {
+    try {
+      const { page = 1, limit = 20, status } = options
+      const where: Prisma.SupportTicketWhereInput = { userId }
+      if (status) where.status = status
+
+      const [tickets, total] = await Promise.all([
+        prisma.supportTicket.findMany({
+          where,
+          orderBy: { updatedAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.supportTicket.count({ where }),
+      ])
+
+      return {
+        tickets,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }
+    } catch (error) {
+      logger.error("Get user support tickets error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Ticket with its thread. Customers only see their own tickets and never see internal notes.
+   */
+  async getTicket(ticketId: string, actor: TicketActor) {
+    try {
+      const isStaff = SUPPORT_STAFF_ROLES.includes(actor.role)
+
+      const ticket = await prisma.supportTicket.findUnique({
+        where: { id: ticketId },
+        include: {
+          user: { select: { id: true, firstName: true, lastName: true, role: true } },
+          assignee: { select: { id: true, firstName: true, lastName: true } },
+          messages: {
+            where: isStaff ? {} : { isInternal: false },
+            include: { user: { select: { id: true, firstName: true, lastName: true } } },
+            orderBy: { createdAt: "asc" },
+          },
+        },
+      })
+
+      if (!ticket || (!isStaff && ticket.userId !== actor.id)) {
+        throw new Error("Support ticket not found")
+      }
+
+      return ticket
+    } catch (error) {
+      logger.error("Get support ticket error:", error)
+      throw error
+    }
+  }
+
+  async addMessage(ticketId: string, actor: TicketActor, data: { message: string; isInternal?: boolean }) {
+    try {
+      const isStaff = SUPPORT_STAFF_ROLES.includes(actor.role)
+      const ticket = await prisma.supportTicket.findUnique({ where: { id: ticketId } })
+
+      if (!ticket || (!isStaff && ticket.userId !== actor.id)) {
+        throw new Error("Support ticket not found")
+      }
+
+      if (ticket.status === "CLOSED") {
+        throw new Error("This ticket is closed. Please open a new ticket.")
+      }
+
+      const isInternal = isStaff && !!data.isInternal
+      const now = new Date()
+      const ticketUpdate: Prisma.SupportTicketUpdateInput = {}
+
+      if (isStaff && !isInternal && !ticket.firstResponseAt) {
+        ticketUpdate.firstResponseAt = now
+      }
+
+      // A customer reply on a resolved ticket reopens it
+      if (!isStaff && ticket.status === "RESOLVED") {
+        Object.assign(ticketUpdate, { status: "REOPENED", resolvedAt: null }, this.slaDueDates(ticket.priority, now))
+      }
+
+      const [message] = await prisma.$transaction([
+        prisma.supportMessage.create({
+          data: {
+            ticketId,
+            userId: actor.id,
+            message: data.message,
+            isStaff,
+            isInternal,
+          },
+        }),
+        prisma.supportTicket.update({
+          where: { id: ticketId },
+          data: ticketUpdate,
+        }),
+      ])
+
+      if (isStaff && !isInternal) {
+        await this.notificationService.notifyCustomer(ticket.userId, {
+          type: "SUPPORT_TICKET_REPLY",
+          title: "New reply from support",
+          body: `Support replied to "${ticket.subject}"`,
+          data: { ticketId },
+        })
+      } else if (!isStaff && ticket.assignedTo) {
+        await this.notificationService.notifyCustomer(ticket.assignedTo, {
+          type: "SUPPORT_TICKET_REPLY",
+          title: "Customer replied",
+          body: `New reply on "${ticket.subject}"`,
+          data: { ticketId },
+        })
+      }
+
+      return message
+    } catch (error) {
+      logger.error("Add support message error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Agent queue, most urgent first and then by the nearest SLA deadline
+   */
+  async getQueue(
+    filters: {
+      status?: TicketStatus
+      priority?: Priority
+      category?: SupportCategory
+      assignedTo?: string // An agent id, or "unassigned"
+      breached?: boolean
+      page?: number
+      limit?: number
+    } = {},
+  ) {
+    try {
+      const { page = 1, limit = 20 } = filters
+      const now = new Date()
+      const where: Prisma.SupportTicketWhereInput = {
+        status: filters.status || { in: ACTIVE_STATUSES },
+      }
+
+      if (filters.priority) where.priority = filters.priority
+      if (filters.category) where.category = filters.category
+      if (filters.assignedTo) where.assignedTo = filters.assignedTo === "unassigned" ? null : filters.assignedTo
+      if (filters.breached) {
+        where.OR = [{ firstResponseAt: null, firstResponseDueAt: { lt: now } }, { resolutionDueAt: { lt: now } }]
+      }
+
+      const [tickets, total] = await Promise.all([
+        prisma.supportTicket.findMany({
+          where,
+          include: {
+            user: { select: { id: true, firstName: true, lastName: true, role: true } },
+            assignee: { select: { id: true, firstName: true, lastName: true } },
+            _count: { select: { messages: true } },
+          },
+          orderBy: [{ priority: "desc" }, { resolutionDueAt: "asc" }, { createdAt: "asc" }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.supportTicket.count({ where }),
+      ])
+
+      return {
+        tickets: tickets.map((ticket) => ({ ...ticket, sla: this.slaState(ticket, now) })),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }
+    } catch (error) {
+      logger.error("Get support queue error:", error)
+      throw error
+    }
+  }
+
+  async getQueueStats() {
+    try {
+      const now = new Date()
+      const [byStatus, byPriority, unassigned, breached] = await Promise.all([
+        prisma.supportTicket.groupBy({ by: ["status"], _count: { _all: true } }),
+        prisma.supportTicket.groupBy({
+          by: ["priority"],
+          where: { status: { in: ACTIVE_STATUSES } },
+          _count: { _all: true },
+        }),
+        prisma.supportTicket.count({ where: { status: { in: ACTIVE_STATUSES }, assignedTo: null } }),
+        prisma.supportTicket.count({
+          where: {
+            status: { in: ACTIVE_STATUSES },
+            OR: [{ firstResponseAt: null, firstResponseDueAt: { lt: now } }, { resolutionDueAt: { lt: now } }],
+          },
+        }),
+      ])
+
+      return {
+        byStatus: Object.fromEntries(byStatus.map((row) => [row.status, row._count._all])),
+        openByPriority: Object.fromEntries(byPriority.map((row) => [row.priority, row._count._all])),
+        unassigned,
+        breached,
+      }
+    } catch (error) {
+      logger.error("Get support queue stats error:", error)
+      throw error
+    }
+  }
+
+  async assignTicket(ticketId: string, agentId: string, actor: TicketActor) {
+    try {
+      const [ticket, agent] = await Promise.all([
+        prisma.supportTicket.findUnique({ where: { id: ticketId } }),
+        prisma.user.findUnique({ where: { id: agentId }, select: { id: true, role: true, isActive: true } }),
+      ])
+
+      if (!ticket) {
+        throw new Error("Support ticket not found")
+      }
+      if (ticket.status === "CLOSED") {
+        throw new Error("Closed tickets cannot be reassigned")
+      }
+      if (!agent || !agent.isActive || !SUPPORT_STAFF_ROLES.includes(agent.role)) {
+        throw new Error("Tickets can only be assigned to active support staff")
+      }
+
+      const updated = await prisma.supportTicket.update({
+        where: { id: ticketId },
+        data: {
+          assignedTo: agentId,
+          assignedAt: new Date(),
+          status: ticket.status === "OPEN" || ticket.status === "REOPENED" ? "IN_PROGRESS" : ticket.status,
+        },
+      })
+
+      await auditService.logAdminAction(actor.id, "SUPPORT_TICKET_ASSIGNED", "support_ticket", ticketId, {
+        from: ticket.assignedTo,
+        to: agentId,
+      })
+
+      if (agentId !== actor.id) {
+        await this.notificationService.notifyCustomer(agentId, {
+          type: "SUPPORT_TICKET_ASSIGNED",
+          title: "Ticket assigned to you",
+          body: `${ticket.priority} ticket: ${ticket.subject}`,
+          data: { ticketId },
+        })
+      }
+
+      return updated
+    } catch (error) {
+      logger.error("Assign support ticket error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Move a ticket along TicketStatus. Customers may only close their ticket or reopen a resolved one.
+   */
+  async updateStatus(ticketId: string, status: TicketStatus, actor: TicketActor, note?: string) {
+    try {
+      const isStaff = SUPPORT_STAFF_ROLES.includes(actor.role)
+      const ticket = await prisma.supportTicket.findUnique({ where: { id: ticketId } })
+
+      if (!ticket || (!isStaff && ticket.userId !== actor.id)) {
+        throw new Error("Support ticket not found")
+      }
+
+      if (!STATUS_TRANSITIONS[ticket.status].includes(status)) {
+        throw new Error(`Cannot move a ${ticket.status} ticket to ${status}`)
+      }
+
+      if (!isStaff && status !== "CLOSED" && status !== "REOPENED") {
+        throw new Error("Only support staff can make this change")
+      }
+
+      const now = new Date()
+      const data: Prisma.SupportTicketUpdateInput = { status }
+
+      if (status === "RESOLVED") data.resolvedAt = now
+      if (status === "CLOSED") data.closedAt = now
+      if (status === "REOPENED") Object.assign(data, { resolvedAt: null }, this.slaDueDates(ticket.priority, now))
+      if (status === "OPEN") Object.assign(data, { assignee: { disconnect: true }, assignedAt: null })
+
+      const [updated] = await prisma.$transaction([
+        prisma.supportTicket.update({ where: { id: ticketId }, data }),
+        ...(note
+          ? [
+              prisma.supportMessage.create({
+                data: { ticketId, userId: actor.id, message: note, isStaff },
+              }),
+            ]
+          : []),
+      ])
+
+      if (isStaff) {
+        await auditService.logAdminAction(actor.id, "SUPPORT_TICKET_STATUS_CHANGED", "support_ticket", ticketId, {
+          from: ticket.status,
+          to: status,
+        })
+      } else {
+        await auditService.logUserAction(actor.id, "SUPPORT_TICKET_STATUS_CHANGED", "support_ticket", ticketId, {
+          from: ticket.status,
+          to: status,
+        })
+      }
+
+      if (isStaff) {
+        await this.notificationService.notifyCustomer(ticket.userId, {
+          type: "SUPPORT_TICKET_UPDATED",
+          title: "Support ticket updated",
+          body: `Your ticket "${ticket.subject}" is now ${status.replace("_", " ").toLowerCase()}`,
+          data: { ticketId, status },
+        })
+      } else if (ticket.assignedTo) {
+        await this.notificationService.notifyCustomer(ticket.assignedTo, {
+          type: "SUPPORT_TICKET_UPDATED",
+          title: "Ticket updated by customer",
+          body: `"${ticket.subject}" was ${status.toLowerCase()} by the customer`,
+          data: { ticketId, status },
+        })
+      }
+
+      return updated
+    } catch (error) {
+      logger.error("Update support ticket status error:", error)
+      throw error
+    }
+  }
+
+  async updatePriority(ticketId: string, priority: Priority, actor: TicketActor) {
+    try {
+      const ticket = await prisma.supportTicket.findUnique({ where: { id: ticketId } })
+      if (!ticket) {
+        throw new Error("Support ticket not found")
+      }
+
+      // SLA deadlines are measured from when the ticket was opened
+      const updated = await prisma.supportTicket.update({
+        where: { id: ticketId },
+        data: { priority, ...this.slaDueDates(priority, ticket.createdAt) },
+      })
+
+      await auditService.logAdminAction(actor.id, "SUPPORT_TICKET_PRIORITY_CHANGED", "support_ticket", ticketId, {
+        from: ticket.priority,
+        to: priority,
+      })
+
+      return updated
+    } catch (error) {
+      logger.error("Update support ticket priority error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Escalate active tickets that have missed their first-response or resolution deadline.
+   * Each escalation raises the priority one step and restarts the SLA clock. Runs as a scheduled job.
+   */
+  async escalateOverdueTickets(): Promise<number> {
+    try {
+      const now = new Date()
+      const overdue = await prisma.supportTicket.findMany({
+        where: {
+          status: { in: ACTIVE_STATUSES },
+          escalationLevel: { lt: MAX_ESCALATION_LEVEL },
+          OR: [{ firstResponseAt: null, firstResponseDueAt: { lt: now } }, { resolutionDueAt: { lt: now } }],
+        },
+      })
+
+      for (const ticket of overdue) {
+        const nextIndex = Math.min(PRIORITY_ORDER.indexOf(ticket.priority) + 1, PRIORITY_ORDER.length - 1)
+        const priority = PRIORITY_ORDER[nextIndex]
+        const state = this.slaState(ticket, now)
+        const breach = state.firstResponseBreached ? "first response" : "resolution"
+
+        await prisma.supportTicket.update({
+          where: { id: ticket.id },
+          data: {
+            priority,
+            escalationLevel: { increment: 1 },
+            escalatedAt: now,
+            ...this.slaDueDates(priority, now),
+          },
+        })
+
+        await auditService.logEvent({
+          action: "SUPPORT_TICKET_ESCALATED",
+          resource: "support_ticket",
+          resourceId: ticket.id,
+          details: { breach, from: ticket.priority, to: priority, level: ticket.escalationLevel + 1 },
+          severity: priority === "URGENT" ? "HIGH" : "MEDIUM",
+        })
+
+        const notification = {
+          type: "SUPPORT_TICKET_ESCALATED" as const,
+          title: `Ticket escalated to ${priority}`,
+          body: `"${ticket.subject}" missed its ${breach} SLA`,
+          data: { ticketId: ticket.id, level: ticket.escalationLevel + 1 },
+          priority: priority === "URGENT" ? ("URGENT" as const) : ("STANDARD" as const),
+        }
+
+        if (ticket.assignedTo) {
+          await this.notificationService.notifyCustomer(ticket.assignedTo, notification)
+        }
+        await this.notificationService.notifyAdmins(notification)
+      }
+
+      if (overdue.length > 0) {
+        logger.info(`Escalated ${overdue.length} overdue support ticket(s)`)
+      }
+      return overdue.length
+    } catch (error) {
+      logger.error("Escalate support tickets error:", error)
+      throw error
+    }
+  }
+
+  private slaDueDates(priority: Priority, from: Date) {
+    const sla = SLA_HOURS[priority]
+    return {
+      firstResponseDueAt: new Date(from.getTime() + sla.firstResponse * 60 * 60 * 1000),
+      resolutionDueAt: new Date(from.getTime() + sla.resolution * 60 * 60 * 1000),
+    }
+  }
+
+  private slaState(
+    ticket: { firstResponseAt: Date | null; firstResponseDueAt: Date | null; resolutionDueAt: Date | null },
+    now: Date,
+  ) {
+    const firstResponseBreached =
+      !ticket.firstResponseAt && !!ticket.firstResponseDueAt && ticket.firstResponseDueAt < now
+    const resolutionBreached = !!ticket.resolutionDueAt && ticket.resolutionDueAt < now
+    const nextDueAt = ticket.firstResponseAt ? ticket.resolutionDueAt : ticket.firstResponseDueAt
+
+    return {
+      firstResponseBreached,
+      resolutionBreached,
+      minutesRemaining: nextDueAt ? Math.round((nextDueAt.getTime() - now.getTime()) / 60000) : null,
+    }
+  }
+
+  private async assertLinkedRecordAccess(userId: string, data: CreateTicketData) {
+    const links = [data.bookingId, data.orderId, data.deliveryId].filter(Boolean)
+    if (links.length > 1) {
+      throw new Error("A ticket can be linked to one booking, order or delivery")
+    }
+
+    if (data.bookingId) {
+      const booking = await prisma.booking.findFirst({
+        where: { id: data.bookingId, OR: [{ customerId: userId }, { providerId: userId }] },
+      })
+      if (!booking) throw new Error("Booking not found")
+    }
+
+    if (data.orderId) {
+      const order = await prisma.order.findFirst({
+        where: { id: data.orderId, OR: [{ customerId: userId }, { store: { ownerId: userId } }] },
+      })
+      if (!order) throw new Error("Order not found")
+    }
+
+    if (data.deliveryId) {
+      const delivery = await prisma.delivery.findFirst({
+        where: { id: data.deliveryId, OR: [{ dispatchRiderId: userId }, { order: { customerId: userId } }] },
+      })
+      if (!delivery) throw new Error("Delivery not found")
+    }
+  }
+}
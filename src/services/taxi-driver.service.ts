@@ -2,12 +2,23 @@ import prisma from "../config/database"
 import { LocationService } from "./location.service"
 import { NotificationService } from "./notification.service"
 import { PaymentService } from "./payment.service"
+import { ReferralService } from "./referral.service"
+import { LoyaltyService } from "./loyalty.service"
+import { TripShareService } from "./trip-share.service"
+import { FleetService } from "./fleet.service"
+import { AnalyticsService } from "./analytics.service"
+import { GEO_INDEXES, geoIndexService } from "./geo-index.service"
 import logger from "../utils/logger"
 
 export class TaxiDriverService {
   private locationService = new LocationService()
   private notificationService = new NotificationService()
   private paymentService = new PaymentService()
+  private referralService = new ReferralService()
+  private loyaltyService = new LoyaltyService()
+  private tripShareService = new TripShareService()
+  private fleetService = new FleetService()
+  private analyticsService = new AnalyticsService()
 
   async onboardTaxiDriver(userId: string, onboardingData: any) {
     try {
@@ -293,6 +304,12 @@ export class TaxiDriverService {
           currentLongitude: availabilityData.currentLongitude,
         },
       })
+      await geoIndexService.updatePosition(
+        GEO_INDEXES.TAXI_DRIVERS,
+        userId,
+        availabilityData.currentLatitude,
+        availabilityData.currentLongitude,
+      )
 
       // Broadcast availability update via WebSocket
       try {
@@ -328,6 +345,7 @@ export class TaxiDriverService {
           heading: locationData.heading,
         },
       })
+      await geoIndexService.updatePosition(GEO_INDEXES.TAXI_DRIVERS, userId, locationData.latitude, locationData.longitude)
 
       // Store location history
       await prisma.driverLocationHistory.create({
@@ -494,6 +512,8 @@ export class TaxiDriverService {
       // Start tracking
       await this.startBookingTracking(bookingId, taxiDriverId)
 
+      await this.analyticsService.trackBookingEvent(bookingId, "ASSIGNED")
+
       return updatedBooking
     } catch (error) {
       logger.error("Accept taxi booking error:", error)
@@ -686,6 +706,8 @@ export class TaxiDriverService {
         logger.warn("Failed to send WebSocket notification for taxi trip start:", error)
       }
 
+      await this.analyticsService.trackBookingEvent(bookingId, "STARTED")
+
       return updatedBooking
     } catch (error) {
       logger.error("Start taxi trip error:", error)
@@ -753,14 +775,25 @@ export class TaxiDriverService {
         },
       })
 
+      // Any live trip link shared from an SOS stops working now the ride is over
+      await this.tripShareService.expireForBooking(bookingId)
+
+      // Fleet drivers keep their share after the fleet operator's cut
+      const driverEarning = await this.fleetService.applyEarningsSplit(taxiDriverId, {
+        id: bookingId,
+        providerEarning,
+        platformCommission: commission,
+        currency: booking.currency,
+      })
+
       // Update taxi driver availability and stats
       await prisma.taxiDriverProfile.updateMany({
         where: { userId: taxiDriverId },
         data: {
           isAvailable: true,
           totalRides: { increment: 1 },
-          totalEarnings: { increment: providerEarning },
-          monthlyEarnings: { increment: providerEarning },
+          totalEarnings: { increment: driverEarning },
+          monthlyEarnings: { increment: driverEarning },
           monthlyCommissionDue: { increment: commission },
         },
       })
@@ -777,7 +810,7 @@ export class TaxiDriverService {
             bookingId,
             amount: providerEarning,
             commission,
-            netEarning: providerEarning,
+            netEarning: driverEarning,
             date: new Date(),
             weekStarting: this.getWeekStart(new Date()),
             monthYear: new Date().toISOString().slice(0, 7),
@@ -806,6 +839,20 @@ export class TaxiDriverService {
         description: "Taxi trip payment",
       })
 
+      // Release referral rewards if this was the customer's first completed booking
+      try {
+        await this.referralService.handleBookingCompleted(booking.customerId, bookingId)
+      } catch (referralError) {
+        logger.error("Referral reward processing failed:", referralError)
+      }
+
+      // Award loyalty points for the completed booking
+      try {
+        await this.loyaltyService.awardBookingPoints(bookingId)
+      } catch (loyaltyError) {
+        logger.error("Loyalty points award failed:", loyaltyError)
+      }
+
       // Notify customer
       await this.notificationService.notifyCustomer(booking.customerId, {
         type: "TRIP_COMPLETED",
@@ -838,6 +885,8 @@ export class TaxiDriverService {
         logger.warn("Failed to send WebSocket notification for taxi trip completion:", error)
       }
 
+      await this.analyticsService.trackBookingEvent(bookingId, "COMPLETED", { finalPrice: updatedBooking.finalPrice })
+
       return updatedBooking
     } catch (error) {
       logger.error("Complete taxi trip error:", error)
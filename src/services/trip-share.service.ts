@@ -0,0 +1,318 @@
+import crypto from "crypto"
+import type { EmergencyType, Prisma } from "@prisma/client"
+import prisma from "../config/database"
+import { EmergencyService } from "./emergency.service"
+import logger from "../utils/logger"
+
+// Links outlive any realistic ride, but the ride ending revokes them sooner
+const SHARE_MAX_HOURS = 12
+const ENDED_STATUSES = ["COMPLETED", "CANCELLED"]
+
+export interface RideSosData {
+  latitude: number
+  longitude: number
+  accuracy?: number
+  address?: string
+  openEmergencyCase?: boolean
+  emergencyType?: EmergencyType
+  severity?: string
+  description?: string
+}
+
+export class TripShareService {
+  private emergencyService = new EmergencyService()
+
+  /**
+   * SOS from a ride in progress: snapshot the trip, driver and vehicle, optionally open and
+   * dispatch an emergency case, then text and email the user's emergency contacts a
+   * live-tracking link.
+   */
+  async raiseRideSos(userId: string, bookingId: string, data: RideSosData) {
+    try {
+      const booking = await prisma.booking.findFirst({
+        where: { id: bookingId, customerId: userId },
+        include: {
+          customer: { select: { firstName: true, lastName: true, phone: true } },
+          provider: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              phone: true,
+              driverProfile: { select: { licenseNumber: true, vehicle: true } },
+              taxiDriverProfile: { select: { licenseNumber: true, vehicle: true } },
+            },
+          },
+          serviceType: { select: { name: true, displayName: true } },
+          pickupAddress: { select: { street: true, city: true } },
+          dropoffAddress: { select: { street: true, city: true } },
+        },
+      })
+
+      if (!booking) {
+        throw new Error("Booking not found")
+      }
+
+      if (booking.status !== "IN_PROGRESS") {
+        throw new Error("SOS is only available during a ride in progress")
+      }
+
+      const tripTracking = await this.captureTripTracking(booking)
+      const vehicle = booking.provider?.driverProfile?.vehicle || booking.provider?.taxiDriverProfile?.vehicle
+      const snapshot = {
+        bookingNumber: booking.bookingNumber,
+        serviceType: booking.serviceType.displayName || booking.serviceType.name,
+        pickup: {
+          latitude: booking.pickupLatitude,
+          longitude: booking.pickupLongitude,
+          address: booking.pickupAddress && `${booking.pickupAddress.street}, ${booking.pickupAddress.city}`,
+        },
+        dropoff: {
+          latitude: booking.dropoffLatitude,
+          longitude: booking.dropoffLongitude,
+          address: booking.dropoffAddress && `${booking.dropoffAddress.street}, ${booking.dropoffAddress.city}`,
+        },
+        startedAt: booking.startedAt,
+        tripTracking,
+        driver: booking.provider
+          ? {
+              id: booking.provider.id,
+              name: [booking.provider.firstName, booking.provider.lastName].filter(Boolean).join(" "),
+              phone: booking.provider.phone,
+              licenseNumber:
+                booking.provider.driverProfile?.licenseNumber || booking.provider.taxiDriverProfile?.licenseNumber,
+            }
+          : null,
+        vehicle: vehicle
+          ? {
+              make: vehicle.make,
+              model: vehicle.model,
+              color: vehicle.color,
+              licensePlate: vehicle.licensePlate,
+            }
+          : null,
+      }
+
+      const token = crypto.randomBytes(32).toString("base64url")
+      const trackingUrl = `${process.env.FRONTEND_URL || "https://tripsync.com"}/trip-share/${token}`
+
+      const tripShare = await prisma.tripShare.create({
+        data: {
+          bookingId,
+          userId,
+          tokenHash: this.hashToken(token),
+          snapshot: JSON.parse(JSON.stringify(snapshot)) as Prisma.InputJsonValue,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          expiresAt: new Date(Date.now() + SHARE_MAX_HOURS * 60 * 60 * 1000),
+        },
+      })
+
+      let emergencyBooking: { id: string; bookingNumber: string } | null = null
+      if (data.openEmergencyCase) {
+        const emergencyType = data.emergencyType || "POLICE"
+        const severity = data.severity || "HIGH"
+
+        emergencyBooking = await this.emergencyService.createEmergencyBooking({
+          customerId: userId,
+          emergencyType,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          description: data.description || `SOS raised during ride ${booking.bookingNumber}`,
+          severity,
+          contactPhone: booking.customer.phone,
+          additionalInfo: { rideBookingId: bookingId, trackingUrl, ...snapshot },
+        })
+
+        await this.emergencyService.dispatchEmergencyResponders(emergencyBooking.id, {
+          emergencyType,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          severity,
+        })
+      }
+
+      // Responders come first - a failure to reach the contacts must not stop the SOS
+      let shared: { locationShareId?: string; sharedCount: number } | null = null
+      try {
+        shared = await this.emergencyService.shareLocationWithEmergencyContacts(
+          userId,
+          { latitude: data.latitude, longitude: data.longitude, accuracy: data.accuracy, address: data.address },
+          true,
+          bookingId,
+          trackingUrl,
+        )
+      } catch (error) {
+        logger.error(`Share SOS location with emergency contacts for booking ${bookingId} error:`, error)
+      }
+
+      await prisma.tripShare.update({
+        where: { id: tripShare.id },
+        data: { locationShareId: shared?.locationShareId, emergencyBookingId: emergencyBooking?.id },
+      })
+
+      await prisma.auditLog.create({
+        data: {
+          userId,
+          action: "RIDE_SOS_RAISED",
+          resource: "booking",
+          resourceId: bookingId,
+          newValues: JSON.stringify({
+            tripShareId: tripShare.id,
+            emergencyBookingId: emergencyBooking?.id,
+            contactsNotified: shared?.sharedCount ?? 0,
+          }),
+        },
+      })
+
+      // Let operators watching the ride know straight away
+      try {
+        const { io } = await import("../server")
+        await io.emitToRoom(`booking:${bookingId}`, "ride_sos", {
+          bookingId,
+          emergencyBookingId: emergencyBooking?.id,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          timestamp: new Date(),
+        })
+      } catch (error) {
+        logger.warn("Failed to broadcast ride SOS:", error)
+      }
+
+      return {
+        tripShareId: tripShare.id,
+        trackingUrl,
+        expiresAt: tripShare.expiresAt,
+        contactsNotified: shared?.sharedCount ?? 0,
+        emergencyBooking,
+      }
+    } catch (error) {
+      logger.error("Raise ride SOS error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * What the public tracking page shows. Fails once the ride has ended or the link was revoked.
+   */
+  async getSharedTrip(token: string) {
+    try {
+      const tripShare = await prisma.tripShare.findUnique({
+        where: { tokenHash: this.hashToken(token) },
+        include: {
+          booking: { select: { status: true, providerId: true, completedAt: true } },
+          user: { select: { firstName: true } },
+        },
+      })
+
+      if (!tripShare) {
+        throw new Error("Trip link not found")
+      }
+
+      if (tripShare.revokedAt || tripShare.expiresAt < new Date() || ENDED_STATUSES.includes(tripShare.booking.status)) {
+        throw new Error("This trip link has expired")
+      }
+
+      return {
+        sharedBy: tripShare.user.firstName,
+        status: tripShare.booking.status,
+        trip: tripShare.snapshot,
+        sosLocation: { latitude: tripShare.latitude, longitude: tripShare.longitude, at: tripShare.createdAt },
+        currentLocation: await this.getCurrentLocation(tripShare.bookingId, tripShare.booking.providerId),
+        emergencyCaseOpened: !!tripShare.emergencyBookingId,
+        expiresAt: tripShare.expiresAt,
+      }
+    } catch (error) {
+      logger.error("Get shared trip error:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Revoke the ride's share links and stop the location shares behind them. Called when the ride ends.
+   */
+  async expireForBooking(bookingId: string) {
+    try {
+      const shares = await prisma.tripShare.findMany({
+        where: { bookingId, revokedAt: null },
+        select: { id: true, locationShareId: true },
+      })
+      if (shares.length === 0) return
+
+      await prisma.tripShare.updateMany({
+        where: { id: { in: shares.map((share) => share.id) } },
+        data: { revokedAt: new Date() },
+      })
+
+      const locationShareIds = shares.map((share) => share.locationShareId).filter((id): id is string => !!id)
+      if (locationShareIds.length > 0) {
+        await prisma.emergencyLocationShare.updateMany({
+          where: { id: { in: locationShareIds }, stoppedAt: null },
+          data: { stoppedAt: new Date() },
+        })
+      }
+
+      await prisma.tripTracking.updateMany({
+        where: { bookingId, completedAt: null },
+        data: { completedAt: new Date() },
+      })
+    } catch (error) {
+      // The ride has ended either way; the status check still blocks the link
+      logger.error(`Expire trip shares for booking ${bookingId} error:`, error)
+    }
+  }
+
+  // Trip tracking is opened here if nothing recorded it when the trip started
+  private async captureTripTracking(booking: {
+    id: string
+    providerId: string | null
+    pickupLatitude: number | null
+    pickupLongitude: number | null
+    startedAt: Date | null
+  }) {
+    if (!booking.providerId) return null
+
+    return prisma.tripTracking.upsert({
+      where: { bookingId: booking.id },
+      create: {
+        bookingId: booking.id,
+        driverId: booking.providerId,
+        startLatitude: booking.pickupLatitude ?? 0,
+        startLongitude: booking.pickupLongitude ?? 0,
+        startedAt: booking.startedAt || new Date(),
+      },
+      update: {},
+    })
+  }
+
+  // The driver's live position, falling back to the latest one the rider's phone sent
+  private async getCurrentLocation(bookingId: string, driverId: string | null) {
+    if (driverId) {
+      const select = { currentLatitude: true, currentLongitude: true, heading: true }
+      const driver =
+        (await prisma.driverProfile.findUnique({ where: { userId: driverId }, select })) ||
+        (await prisma.taxiDriverProfile.findUnique({ where: { userId: driverId }, select }))
+
+      if (driver?.currentLatitude != null && driver.currentLongitude != null) {
+        return {
+          source: "DRIVER",
+          latitude: driver.currentLatitude,
+          longitude: driver.currentLongitude,
+          heading: driver.heading,
+        }
+      }
+    }
+
+    const riderUpdate = await prisma.emergencyLocationUpdate.findFirst({
+      where: { bookingId },
+      orderBy: { timestamp: "desc" },
+      select: { latitude: true, longitude: true, heading: true, timestamp: true },
+    })
+
+    return riderUpdate ? { source: "RIDER", ...riderUpdate } : null
+  }
+
+  private hashToken(token: string) {
+    return crypto.createHash("sha256").update(token).digest("hex")
+  }
+}
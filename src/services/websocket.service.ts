@@ -3,8 +3,10 @@ import type { Server as HTTPServer } from "http"
 import jwt, { type Secret } from "jsonwebtoken"
 import prisma from "../config/database"
 import { EmailService } from "./email.service"
+import { ChatService, type ChatTarget } from "./chat.service"
+import { GEO_INDEXES, geoIndexService, type GeoIndexName } from "./geo-index.service"
 import logger from "../utils/logger"
-import type { BookingStatus } from "@prisma/client"
+import type { BookingStatus, ChatMessage } from "@prisma/client"
 import type { UserPayload, Permission } from "../types"
 
 interface AuthenticatedSocket extends Socket {
@@ -28,15 +30,10 @@ interface LocationUpdate {
   timestamp: Date
 }
 
-interface ChatMessage {
-  id: string
-  bookingId: string
-  senderId: string
-  receiverId: string
+// Images and voice notes are sent through the REST chat endpoints, which upload the file first
+interface ChatMessageInput extends ChatTarget {
   message: string
-  messageType: "TEXT" | "IMAGE" | "LOCATION" | "SYSTEM"
-  timestamp: Date
-  isRead: boolean
+  messageType?: "TEXT" | "LOCATION"
 }
 
 interface BookingUpdate {
@@ -73,6 +70,7 @@ interface ProviderStatusUpdate {
 export class WebSocketService {
   private io: SocketIOServer
   private emailService = new EmailService()
+  private chatService = new ChatService()
   private connectedUsers = new Map<string, string>() // userId -> socketId
   private userSockets = new Map<string, AuthenticatedSocket>() // socketId -> socket
   
@@ -92,10 +90,6 @@ export class WebSocketService {
     licensePlate?: string
   }>()
 
-  // In a real application, chat messages would be stored in a database.
-  // This is a simple in-memory store for demonstration.
-  private chatMessages: ChatMessage[] = []
-
   constructor(server: HTTPServer) {
     this.io = new SocketIOServer(server, {
       cors: {
@@ -287,25 +281,26 @@ export class WebSocketService {
         this.handleBookingUpdate(socket, data)
       })
 
-      // Chat events
-      socket.on("chat:join", (bookingId: string) => {
-        logger.info(`💬 Received chat:join from ${socket.userId} for booking ${bookingId}`)
-        this.handleChatJoin(socket, bookingId)
+      // Chat events - a plain string is a booking id, or pass { bookingId } / { deliveryId }
+      socket.on("chat:join", (target: string | ChatTarget) => {
+        logger.info(`💬 Received chat:join from ${socket.userId}:`, target)
+        this.handleChatJoin(socket, this.toChatTarget(target))
       })
 
-      socket.on("chat:message", (data: Omit<ChatMessage, "id" | "timestamp" | "isRead">) => {
-        logger.info(`💬 Received chat:message from ${socket.userId} for booking ${data.bookingId}:`, data)
+      socket.on("chat:message", (data: ChatMessageInput) => {
+        logger.info(`💬 Received chat:message from ${socket.userId} for ${this.chatService.getRoom(data)}`)
         this.handleChatMessage(socket, data)
       })
 
-      socket.on("chat:typing", (data: { bookingId: string; isTyping: boolean }) => {
-        logger.info(`💬 Received chat:typing from ${socket.userId} for booking ${data.bookingId}:`, data)
+      socket.on("chat:typing", (data: ChatTarget & { isTyping: boolean }) => {
+        logger.info(`💬 Received chat:typing from ${socket.userId} for ${this.chatService.getRoom(data)}`)
         this.handleTypingIndicator(socket, data)
       })
 
-      socket.on("chat:read", (messageId: string) => {
-        logger.info(`💬 Received chat:read from ${socket.userId} for message ${messageId}`)
-        this.handleMessageRead(socket, messageId)
+      // A message id marks one message read, a chat target marks the whole conversation read
+      socket.on("chat:read", (target: string | ChatTarget) => {
+        logger.info(`💬 Received chat:read from ${socket.userId}:`, target)
+        this.handleMessageRead(socket, target)
       })
 
       // Emergency events
@@ -332,6 +327,18 @@ export class WebSocketService {
         this.handleEmergencyLocationShare(socket, data)
       })
 
+      socket.on("emergency:ride_sos", (data: {
+        bookingId: string
+        latitude: number
+        longitude: number
+        accuracy?: number
+        address?: string
+        openEmergencyCase?: boolean
+      }) => {
+        logger.info(`🚨 Received emergency:ride_sos from ${socket.userId}:`, data)
+        this.handleRideSos(socket, data)
+      })
+
       socket.on("emergency:stop_location_sharing", (data: { bookingId?: string }) => {
         logger.info(`📍 Received emergency:stop_location_sharing from ${socket.userId}:`, data)
         this.handleStopEmergencyLocationSharing(socket, data)
@@ -472,6 +479,18 @@ export class WebSocketService {
         logger.info(`📍 Database location updated for user ${socket.userId}`)
       }
 
+      const geoIndexes: GeoIndexName[] = [
+        ...(user.driverProfile ? [GEO_INDEXES.DRIVERS] : []),
+        ...(user.taxiDriverProfile ? [GEO_INDEXES.TAXI_DRIVERS] : []),
+        ...(user.deliveryProfile ? [GEO_INDEXES.DISPATCH_RIDERS] : []),
+        ...(user.emergencyProfile ? [GEO_INDEXES.RESPONDERS] : []),
+      ]
+      await Promise.all(
+        geoIndexes.map((index) =>
+          geoIndexService.updatePosition(index, socket.userId!, data.latitude, data.longitude),
+        ),
+      )
+
       // Store location history
       try {
         await prisma.driverLocationHistory.create({
@@ -1098,68 +1117,82 @@ export class WebSocketService {
   /**
    * Handle chat join
    */
-  private handleChatJoin(socket: AuthenticatedSocket, bookingId: string): void {
-    socket.join(`chat:${bookingId}`)
-    logger.info(`💬 User ${socket.userId} joined chat room: ${bookingId}`)
+  private async handleChatJoin(socket: AuthenticatedSocket, target: ChatTarget): Promise<void> {
+    try {
+      if (!socket.userId) return
+
+      await this.chatService.getConversation(socket.userId, target)
+      const room = this.chatService.getRoom(target)
+      socket.join(room)
+      logger.info(`💬 User ${socket.userId} joined chat room: ${room}`)
+    } catch (error) {
+      logger.warn(`💬 Chat join rejected for ${socket.userId}:`, error)
+      socket.emit("chat:error", { message: error instanceof Error ? error.message : "Unable to join chat" })
+    }
   }
 
   /**
    * Handle chat message
    */
-  private async handleChatMessage(
-    socket: AuthenticatedSocket,
-    data: Omit<ChatMessage, "id" | "timestamp" | "isRead">,
-  ): Promise<void> {
+  private async handleChatMessage(socket: AuthenticatedSocket, data: ChatMessageInput): Promise<void> {
     try {
       if (!socket.userId) return
 
-      const booking = await prisma.booking.findFirst({
-        where: {
-          id: data.bookingId,
-          OR: [{ customerId: socket.userId }, { providerId: socket.userId }],
-        },
-      })
-
-      if (!booking) {
-        logger.warn(`💬 Unauthorized chat message from ${socket.userId}`)
-        return
-      }
+      const message = await this.chatService.sendMessage(
+        socket.userId,
+        { bookingId: data.bookingId, deliveryId: data.deliveryId },
+        { message: data.message, messageType: data.messageType === "LOCATION" ? "LOCATION" : "TEXT" },
+      )
 
-      const message: ChatMessage = {
-        id: `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-        ...data,
-        senderId: socket.userId!,
-        timestamp: new Date(),
-        isRead: false,
-      }
+      await this.broadcastChatMessage(message)
+    } catch (error) {
+      logger.error(`❌ Error handling chat message:`, error)
+      socket.emit("chat:error", { message: error instanceof Error ? error.message : "Message could not be sent" })
+    }
+  }
 
-      this.chatMessages.push(message)
-      this.io.to(`chat:${data.bookingId}`).emit("chat:message", message)
+  /**
+   * Deliver a stored chat message to the room, emailing the receiver if they are offline
+   */
+  async broadcastChatMessage(message: ChatMessage): Promise<void> {
+    try {
+      const target = { bookingId: message.bookingId || undefined, deliveryId: message.deliveryId || undefined }
+      this.io.to(this.chatService.getRoom(target)).emit("chat:message", this.chatService.serializeMessage(message))
 
       // Send email if receiver is offline
-      if (!this.isUserOnline(data.receiverId)) {
-        const receiver = await prisma.user.findUnique({ where: { id: data.receiverId } })
+      if (!this.isUserOnline(message.receiverId)) {
+        const receiver = await prisma.user.findUnique({ where: { id: message.receiverId } })
         if (receiver?.email) {
           await this.emailService.sendNotificationEmail(
             receiver.email,
             "New Message",
-            data.messageType === "TEXT" ? data.message : "You received a new message",
+            message.messageType === "TEXT" ? message.message : "You received a new message",
           )
         }
       }
 
-      logger.info(`💬 Chat message sent in booking ${data.bookingId}`)
+      logger.info(`💬 Chat message sent in ${this.chatService.getRoom(target)}`)
     } catch (error) {
-      logger.error(`❌ Error handling chat message:`, error)
+      logger.error(`❌ Error broadcasting chat message:`, error)
     }
   }
 
+  /**
+   * Tell the chat room which messages have been read
+   */
+  broadcastChatRead(target: ChatTarget, data: { readerId: string; messageIds: string[]; readAt: Date }): void {
+    if (data.messageIds.length === 0) return
+    this.io.to(this.chatService.getRoom(target)).emit("chat:read", data)
+  }
+
   /**
    * Handle typing indicator
    */
-  private handleTypingIndicator(socket: AuthenticatedSocket, data: { bookingId: string; isTyping: boolean }): void {
-    socket.to(`chat:${data.bookingId}`).emit("chat:typing", {
+  private handleTypingIndicator(socket: AuthenticatedSocket, data: ChatTarget & { isTyping: boolean }): void {
+    socket.to(this.chatService.getRoom(data)).emit("chat:typing", {
       userId: socket.userId,
+      bookingId: data.bookingId,
+      deliveryId: data.deliveryId,
       isTyping: data.isTyping,
     })
   }
@@ -1167,13 +1200,33 @@ export class WebSocketService {
   /**
    * Handle message read
    */
-  private handleMessageRead(socket: AuthenticatedSocket, messageId: string): void {
-    const messageIndex = this.chatMessages.findIndex((msg) => msg.id === messageId)
-    if (messageIndex >= 0) {
-      this.chatMessages[messageIndex].isRead = true
-      const message = this.chatMessages[messageIndex]
-      this.notifyUser(message.senderId, "chat:read", { messageId })
+  private async handleMessageRead(socket: AuthenticatedSocket, target: string | ChatTarget): Promise<void> {
+    try {
+      if (!socket.userId) return
+
+      if (typeof target === "string") {
+        const message = await this.chatService.markMessageRead(socket.userId, target)
+        if (message && message.readAt) {
+          this.broadcastChatRead(
+            { bookingId: message.bookingId || undefined, deliveryId: message.deliveryId || undefined },
+            { readerId: socket.userId, messageIds: [message.id], readAt: message.readAt },
+          )
+        }
+        return
+      }
+
+      const result = await this.chatService.markConversationRead(socket.userId, target)
+      this.broadcastChatRead(target, { readerId: socket.userId, messageIds: result.messageIds, readAt: result.readAt })
+    } catch (error) {
+      logger.error(`❌ Error handling chat read:`, error)
+    }
+  }
+
+  private toChatTarget(target: string | ChatTarget): ChatTarget {
+    if (typeof target === "string") {
+      return { bookingId: target }
     }
+    return { bookingId: target.bookingId, deliveryId: target.deliveryId }
   }
 
   /**
@@ -1283,6 +1336,49 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Handle an SOS raised from a ride in progress
+   */
+  private async handleRideSos(
+    socket: AuthenticatedSocket,
+    data: {
+      bookingId: string
+      latitude: number
+      longitude: number
+      accuracy?: number
+      address?: string
+      openEmergencyCase?: boolean
+    },
+  ): Promise<void> {
+    try {
+      if (!socket.userId) return
+
+      // Import trip share service dynamically to avoid circular dependency
+      const { TripShareService } = await import("./trip-share.service")
+      const tripShareService = new TripShareService()
+
+      const { bookingId, ...sos } = data
+      const result = await tripShareService.raiseRideSos(socket.userId, bookingId, sos)
+
+      socket.emit("ride_sos_confirmed", {
+        bookingId,
+        trackingUrl: result.trackingUrl,
+        contactsNotified: result.contactsNotified,
+        emergencyBookingId: result.emergencyBooking?.id,
+        timestamp: new Date(),
+      })
+
+      logger.info(`🚨 Ride SOS raised by ${socket.userId} for booking ${bookingId}`)
+    } catch (error) {
+      logger.error(`❌ Error handling ride SOS:`, error)
+      socket.emit("ride_sos_error", {
+        bookingId: data.bookingId,
+        error: error instanceof Error ? error.message : "Failed to raise SOS",
+        timestamp: new Date(),
+      })
+    }
+  }
+
   /**
    * Handle stop emergency location sharing
    */
@@ -1,5 +1,5 @@
 import type { Request } from "express"
-import type { UserRole } from "@prisma/client"
+import type { UserRole, PromoType } from "@prisma/client"
 
 /**
  * Represents a user's role in the system.
@@ -21,6 +21,13 @@ export interface AuthenticatedRequest extends Request {
     isVerified: boolean
     isActive: boolean
   }
+  // UserSession the bearer token belongs to
+  sessionId?: string
+}
+
+// Requests whose raw JSON body is kept for signature checks (see express.json verify in server.ts)
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer
 }
 
 export interface ApiResponse<T = any> {
@@ -71,6 +78,17 @@ export interface ServiceEstimate {
     providerCount?: number
     actualHourlyRate?: number
   }
+  // Present when a promo code was applied; estimatedPrice is already discounted
+  promotion?: PromoQuote
+  // Pricing rules that set the rates and surge for this estimate
+  appliedPricingRules?: AppliedPricingRule[]
+}
+
+export interface AppliedPricingRule {
+  id: string
+  name: string
+  type: string
+  version: number
 }
 
 // NEW: Extended interface for ride estimates
@@ -79,6 +97,15 @@ export interface RideServiceEstimate extends ServiceEstimate {
   totalSharedRidePriceForGroup?: number
 }
 
+export interface PromoQuote {
+  campaignId: string
+  code: string
+  type: PromoType
+  originalAmount: number
+  discountAmount: number
+  finalAmount: number
+}
+
 export interface PaystackResponse {
   status: boolean
   message: string
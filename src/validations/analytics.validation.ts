@@ -0,0 +1,82 @@
+import Joi from "joi"
+
+const eventType = Joi.string().trim().pattern(/^[A-Za-z0-9_.:-]+$/).max(64)
+const propertyFilters = Joi.object().pattern(Joi.string().max(100), Joi.string().max(200))
+const dateRange = {
+  from: Joi.date().iso().required(),
+  to: Joi.date().iso().min(Joi.ref("from")).required(),
+}
+
+export const analyticsValidation = {
+  trackEvents: Joi.object({
+    events: Joi.array()
+      .items(
+        Joi.object({
+          eventType: eventType.required(),
+          properties: Joi.object().unknown(true).optional(),
+          sessionId: Joi.string().max(100).optional(),
+          timestamp: Joi.date().iso().optional(),
+          deviceInfo: Joi.object({
+            platform: Joi.string().max(20).required(),
+            version: Joi.string().max(30).required(),
+            deviceId: Joi.string().max(100).required(),
+          }).optional(),
+        }),
+      )
+      .min(1)
+      .max(50)
+      .required(),
+  }),
+
+  getUserBehavior: Joi.object({
+    userId: Joi.string().uuid().optional(),
+    from: Joi.date().iso().optional(),
+    to: Joi.date().iso().min(Joi.ref("from")).optional(),
+  }).and("from", "to"),
+
+  getFunnel: Joi.object({
+    ...dateRange,
+    steps: Joi.string().pattern(/^[A-Za-z0-9_.:-]+(,[A-Za-z0-9_.:-]+){1,9}$/).optional(),
+    conversionWindowHours: Joi.number().integer().min(1).max(90 * 24).optional(),
+    properties: propertyFilters.optional(),
+  }),
+
+  getRetention: Joi.object({
+    ...dateRange,
+    period: Joi.string().valid("day", "week", "month").optional(),
+    periods: Joi.number().integer().min(1).max(52).optional(),
+    returnEvent: eventType.optional(),
+  }),
+
+  groupByProperty: Joi.object({
+    ...dateRange,
+    property: Joi.string().pattern(/^[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*$/).max(100).required(),
+    eventType: eventType.optional(),
+    properties: propertyFilters.optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+  }),
+
+  getKpiSeries: Joi.object({
+    ...dateRange,
+    interval: Joi.string().valid("hour", "day", "week", "month").default("day"),
+    compare: Joi.string().valid("previous_period", "previous_year").optional(),
+    serviceTypeId: Joi.string().uuid().optional(),
+    serviceZoneId: Joi.string().uuid().optional(),
+  }),
+
+  getKpiBreakdown: Joi.object({
+    ...dateRange,
+    by: Joi.string().valid("serviceType", "serviceZone").required(),
+    compare: Joi.string().valid("previous_period", "previous_year").optional(),
+  }),
+
+  backfillRollups: Joi.object(dateRange),
+
+  generateReport: Joi.object({
+    name: Joi.string().trim().max(100).required(),
+    metrics: Joi.array().items(Joi.string().valid("bookings", "revenue", "users", "events")).min(1).unique().required(),
+    filters: Joi.object().unknown(true).default({}),
+    dateRange: Joi.object(dateRange).required(),
+    groupBy: Joi.string().max(100).optional(),
+  }),
+}
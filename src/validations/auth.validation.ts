@@ -19,6 +19,18 @@ export const authValidation = {
     password: Joi.string().required(),
   }),
 
+  requestPhoneOtp: Joi.object({
+    phone: Joi.string().trim().min(8).max(20).required(),
+  }),
+
+  verifyPhoneOtp: Joi.object({
+    phone: Joi.string().trim().min(8).max(20).required(),
+    code: Joi.string()
+      .pattern(/^\d{6}$/)
+      .required()
+      .messages({ "string.pattern.base": "Code must be 6 digits" }),
+  }),
+
   completeProfile: Joi.object({
     firstName: Joi.string().min(2).max(50).optional(),
     lastName: Joi.string().min(2).max(50).optional(),
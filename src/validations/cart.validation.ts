@@ -34,7 +34,8 @@ export const cartValidation = {
         instructions: Joi.string().optional()
       }).required(),
       paymentMethodId: Joi.string().required(),
-      specialInstructions: Joi.string().optional()
+      specialInstructions: Joi.string().optional(),
+      promoCode: Joi.string().trim().max(32).optional()
     })
   })
 }
\ No newline at end of file
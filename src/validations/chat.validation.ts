@@ -0,0 +1,25 @@
+import Joi from "joi"
+
+export const chatValidation = {
+  sendMessage: Joi.object({
+    message: Joi.string().trim().max(2000).required(),
+    messageType: Joi.string().valid("TEXT", "LOCATION").default("TEXT"),
+  }),
+
+  sendAttachment: Joi.object({
+    caption: Joi.string().trim().max(500).optional(),
+    duration: Joi.number().integer().min(1).max(300).optional(), // Voice note length in seconds
+  }),
+
+  reportChat: Joi.object({
+    reason: Joi.string().trim().max(200).required(),
+    description: Joi.string().max(1000).optional(),
+    category: Joi.string()
+      .valid("SAFETY_CONCERN", "DRIVER_COMPLAINT", "BOOKING_ISSUE", "OTHER")
+      .optional(),
+  }),
+
+  hideMessage: Joi.object({
+    reason: Joi.string().trim().max(500).required(),
+  }),
+}
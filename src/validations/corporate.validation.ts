@@ -0,0 +1,73 @@
+import Joi from "joi"
+
+const time = Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/)
+const memberRole = Joi.string().valid("ADMIN", "EMPLOYEE")
+
+const timeWindow = Joi.object({
+  daysOfWeek: Joi.array().items(Joi.number().integer().min(0).max(6)).min(1).unique().required(),
+  start: time.required(),
+  end: time.required(),
+})
+
+const policyFields = {
+  isDefault: Joi.boolean(),
+  perTripLimit: Joi.number().positive().allow(null),
+  monthlySpendLimit: Joi.number().positive().allow(null),
+  allowedServiceTypes: Joi.array().items(Joi.string().trim()).unique(),
+  timeWindows: Joi.array().items(timeWindow).allow(null),
+  timezone: Joi.string(),
+  requireCostCenter: Joi.boolean(),
+  isActive: Joi.boolean(),
+}
+
+export const corporateValidation = {
+  createAccount: Joi.object({
+    name: Joi.string().trim().min(2).max(150).required(),
+    billingEmail: Joi.string().email().required(),
+    billingAddress: Joi.string().max(500).optional(),
+    taxId: Joi.string().trim().max(50).optional(),
+    currency: Joi.string().length(3).uppercase().optional(),
+    paymentTermsDays: Joi.number().integer().min(0).max(120).optional(),
+    adminEmail: Joi.string().email().required(),
+  }),
+
+  addMember: Joi.object({
+    email: Joi.string().email().required(),
+    role: memberRole.optional(),
+    employeeNumber: Joi.string().trim().max(50).optional(),
+    policyId: Joi.string().uuid().optional(),
+    defaultCostCenterId: Joi.string().uuid().optional(),
+  }),
+
+  updateMember: Joi.object({
+    role: memberRole,
+    employeeNumber: Joi.string().trim().max(50),
+    policyId: Joi.string().uuid().allow(null),
+    defaultCostCenterId: Joi.string().uuid().allow(null),
+    isActive: Joi.boolean(),
+  }).min(1),
+
+  createPolicy: Joi.object({
+    name: Joi.string().trim().min(2).max(100).required(),
+    ...policyFields,
+  }),
+
+  updatePolicy: Joi.object({
+    name: Joi.string().trim().min(2).max(100),
+    ...policyFields,
+  }).min(1),
+
+  createCostCenter: Joi.object({
+    code: Joi.string().trim().uppercase().max(30).required(),
+    name: Joi.string().trim().max(100).required(),
+  }),
+
+  updateCostCenter: Joi.object({
+    name: Joi.string().trim().max(100),
+    isActive: Joi.boolean(),
+  }).min(1),
+
+  markInvoicePaid: Joi.object({
+    paymentReference: Joi.string().trim().max(100).optional(),
+  }),
+}
@@ -1,4 +1,5 @@
 import Joi from "joi"
+import { EmergencyType } from "@prisma/client"
 
 export const emergencyValidation = {
   createEmergencyBooking: Joi.object({
@@ -115,4 +116,17 @@ export const emergencyValidation = {
       bookingId: Joi.string().optional(),
     }),
   }),
+
+  rideSos: Joi.object({
+    latitude: Joi.number().min(-90).max(90).required(),
+    longitude: Joi.number().min(-180).max(180).required(),
+    accuracy: Joi.number().min(0).optional(),
+    address: Joi.string().max(500).optional(),
+    openEmergencyCase: Joi.boolean().default(false),
+    emergencyType: Joi.string()
+      .valid(...Object.values(EmergencyType))
+      .optional(),
+    severity: Joi.string().valid("LOW", "MEDIUM", "HIGH", "CRITICAL").optional(),
+    description: Joi.string().max(1000).optional(),
+  }),
 }
@@ -0,0 +1,15 @@
+import Joi from "joi"
+
+export const fareSplitValidation = {
+  inviteCoRider: Joi.object({
+    email: Joi.string().email(),
+    phone: Joi.string(),
+    // Leave out for an equal share
+    sharePercent: Joi.number().greater(0).less(100).optional(),
+  }).xor("email", "phone"),
+
+  respond: Joi.object({
+    accept: Joi.boolean().required(),
+    paymentMethodId: Joi.string().when("accept", { is: true, then: Joi.required(), otherwise: Joi.forbidden() }),
+  }),
+}
@@ -0,0 +1,69 @@
+import Joi from "joi"
+import { VehicleCategory, VehicleType } from "@prisma/client"
+
+const operatorSharePercent = Joi.number().min(0).max(100)
+
+export const fleetValidation = {
+  registerFleet: Joi.object({
+    name: Joi.string().trim().min(2).max(100).required(),
+    registrationNumber: Joi.string().trim().max(50).optional(),
+    phone: Joi.string().optional(),
+    email: Joi.string().email().optional(),
+    operatorSharePercent: operatorSharePercent.optional(),
+  }),
+
+  updateFleet: Joi.object({
+    name: Joi.string().trim().min(2).max(100),
+    registrationNumber: Joi.string().trim().max(50),
+    phone: Joi.string(),
+    email: Joi.string().email(),
+    operatorSharePercent,
+  }).min(1),
+
+  verifyFleet: Joi.object({
+    status: Joi.string().valid("IN_REVIEW", "APPROVED", "REJECTED").required(),
+    reason: Joi.string().max(500).optional(),
+  }),
+
+  inviteDriver: Joi.object({
+    email: Joi.string().email(),
+    phone: Joi.string(),
+    operatorSharePercent: operatorSharePercent.optional(),
+  }).xor("email", "phone"),
+
+  updateDriver: Joi.object({
+    // null falls back to the fleet's split
+    operatorSharePercent: operatorSharePercent.allow(null).required(),
+  }),
+
+  respondToInvitation: Joi.object({
+    accept: Joi.boolean().required(),
+  }),
+
+  addVehicle: Joi.object({
+    make: Joi.string().trim().required(),
+    model: Joi.string().trim().required(),
+    year: Joi.number()
+      .integer()
+      .min(1990)
+      .max(new Date().getFullYear() + 1)
+      .required(),
+    color: Joi.string().trim().required(),
+    licensePlate: Joi.string().trim().uppercase().required(),
+    type: Joi.string()
+      .valid(...Object.values(VehicleType))
+      .required(),
+    category: Joi.string()
+      .valid(...Object.values(VehicleCategory))
+      .required(),
+    capacity: Joi.number().integer().min(1).max(60).optional(),
+    isTaxi: Joi.boolean().optional(),
+  }),
+
+  createShift: Joi.object({
+    vehicleId: Joi.string().uuid().required(),
+    driverId: Joi.string().uuid().required(),
+    startsAt: Joi.date().iso().required(),
+    endsAt: Joi.date().iso().greater(Joi.ref("startsAt")).required(),
+  }),
+}
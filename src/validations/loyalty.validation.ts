@@ -0,0 +1,43 @@
+import Joi from "joi"
+
+const rewardCategories = ["DISCOUNT", "FREE_RIDE", "UPGRADE", "MERCHANDISE", "CASHBACK"]
+const tiers = ["BRONZE", "SILVER", "GOLD", "PLATINUM", "DIAMOND"]
+
+export const loyaltyValidation = {
+  createReward: Joi.object({
+    name: Joi.string().trim().max(100).required(),
+    description: Joi.string().max(500).required(),
+    pointsCost: Joi.number().integer().min(1).required(),
+    category: Joi.string()
+      .valid(...rewardCategories)
+      .required(),
+    value: Joi.when("category", {
+      is: "DISCOUNT",
+      then: Joi.number().positive().max(100).required(),
+      otherwise: Joi.number().min(0).required(),
+    }),
+    isActive: Joi.boolean().default(true),
+    expiryDays: Joi.number().integer().min(1).optional(),
+    usageLimit: Joi.number().integer().min(1).optional(),
+    tierRequirement: Joi.string()
+      .valid(...tiers)
+      .optional(),
+  }),
+
+  updateReward: Joi.object({
+    name: Joi.string().trim().max(100).optional(),
+    description: Joi.string().max(500).optional(),
+    pointsCost: Joi.number().integer().min(1).optional(),
+    category: Joi.string()
+      .valid(...rewardCategories)
+      .optional(),
+    value: Joi.number().min(0).optional(),
+    isActive: Joi.boolean().optional(),
+    expiryDays: Joi.number().integer().min(1).allow(null).optional(),
+    usageLimit: Joi.number().integer().min(1).allow(null).optional(),
+    tierRequirement: Joi.string()
+      .valid(...tiers)
+      .allow(null)
+      .optional(),
+  }).min(1),
+}
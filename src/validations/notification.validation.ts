@@ -0,0 +1,57 @@
+import Joi from "joi"
+import { NotificationType } from "@prisma/client"
+
+const segment = Joi.object({
+  roles: Joi.array()
+    .items(
+      Joi.string().valid(
+        "SUPER_ADMIN",
+        "CITY_ADMIN",
+        "HOUSE_MOVER",
+        "EMERGENCY_ADMIN",
+        "PLACE_OWNER",
+        "STORE_OWNER",
+        "DRIVER",
+        "TAXI_DRIVER",
+        "USER",
+        "EMERGENCY_RESPONDER",
+        "DISPATCHER",
+        "SUPPORT_AGENT",
+        "FLEET_OPERATOR",
+      ),
+    )
+    .unique()
+    .optional(),
+  serviceZoneIds: Joi.array().items(Joi.string().uuid()).unique().optional(),
+  subscriptionTiers: Joi.array().items(Joi.string().valid("BASIC", "PREMIUM", "ENTERPRISE")).unique().optional(),
+  lastActiveAfter: Joi.date().iso().optional(),
+  lastActiveBefore: Joi.date().iso().optional(),
+})
+
+const scheduledNotificationFields = {
+  name: Joi.string().trim().max(100),
+  userId: Joi.string().uuid(),
+  segment,
+  type: Joi.string().valid(...Object.values(NotificationType)),
+  priority: Joi.string().valid("STANDARD", "URGENT", "CRITICAL"),
+  title: Joi.string().trim().max(100),
+  body: Joi.string().trim().max(1000),
+  data: Joi.object(),
+  scheduledFor: Joi.date().iso(),
+  throttlePerMinute: Joi.number().integer().min(1).max(10000),
+}
+
+export const notificationValidation = {
+  createScheduledNotification: Joi.object({
+    ...scheduledNotificationFields,
+    type: scheduledNotificationFields.type.required(),
+    title: scheduledNotificationFields.title.required(),
+    body: scheduledNotificationFields.body.required(),
+  }).xor("userId", "segment"),
+
+  updateScheduledNotification: Joi.object(scheduledNotificationFields).oxor("userId", "segment").min(1),
+
+  previewSegment: Joi.object({
+    segment: segment.required(),
+  }),
+}
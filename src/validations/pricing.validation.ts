@@ -0,0 +1,77 @@
+import Joi from "joi"
+
+const pricingTypes = ["FIXED", "DISTANCE_BASED", "TIME_BASED", "DYNAMIC", "HYBRID", "SURGE"]
+const vehicleTypes = [
+  "CAR",
+  "MOTORCYCLE",
+  "BICYCLE",
+  "VAN",
+  "TRUCK",
+  "BUS",
+  "AMBULANCE",
+  "FIRE_TRUCK",
+  "POLICE_CAR",
+  "AUTO_RICKSHAW",
+  "SCOOTER",
+  "TAXI",
+]
+const time = Joi.string()
+  .pattern(/^([01]\d|2[0-3]):([0-5]\d)$/)
+  .messages({ "string.pattern.base": "Times must be in HH:mm format" })
+
+const conditions = Joi.object({
+  timeWindows: Joi.array()
+    .items(Joi.object({ start: time.required(), end: time.required() }))
+    .optional(),
+  daysOfWeek: Joi.array().items(Joi.number().integer().min(0).max(6)).unique().optional(),
+  vehicleTypes: Joi.array()
+    .items(Joi.string().valid(...vehicleTypes))
+    .unique()
+    .optional(),
+})
+
+const ruleFields = {
+  serviceType: Joi.string().trim().uppercase(),
+  serviceZoneId: Joi.string().allow(null),
+  rideType: Joi.string().trim().uppercase().allow(null),
+  name: Joi.string().trim().max(100),
+  type: Joi.string().valid(...pricingTypes),
+  basePrice: Joi.number().min(0),
+  pricePerKm: Joi.number().min(0).allow(null),
+  pricePerMinute: Joi.number().min(0).allow(null),
+  pricePerHour: Joi.number().min(0).allow(null),
+  minimumFare: Joi.number().min(0).allow(null),
+  maximumFare: Joi.number().min(0).allow(null),
+  surgeMultiplier: Joi.number().min(1).max(3).allow(null),
+  conditions: conditions.allow(null),
+  priority: Joi.number().integer(),
+  isActive: Joi.boolean(),
+  validFrom: Joi.date().iso().allow(null),
+  validTo: Joi.date().iso().allow(null),
+}
+
+const createRule = Joi.object({
+  ...ruleFields,
+  serviceType: ruleFields.serviceType.required(),
+  name: ruleFields.name.required(),
+  type: ruleFields.type.required(),
+})
+
+export const pricingValidation = {
+  createRule,
+
+  updateRule: Joi.object(ruleFields).min(1),
+
+  dryRun: Joi.object({
+    pickupLatitude: Joi.number().min(-90).max(90).required(),
+    pickupLongitude: Joi.number().min(-180).max(180).required(),
+    dropoffLatitude: Joi.number().min(-90).max(90).required(),
+    dropoffLongitude: Joi.number().min(-180).max(180).required(),
+    rideType: Joi.string().trim().uppercase().default("ECONOMY"),
+    scheduledAt: Joi.date().iso().optional(),
+    simulatedSupply: Joi.number().integer().min(0).optional(),
+    simulatedDemand: Joi.number().integer().min(0).optional(),
+    rules: Joi.array().items(createRule).default([]),
+    replaceLiveRules: Joi.boolean().default(false),
+  }),
+}
@@ -0,0 +1,71 @@
+import Joi from "joi"
+import { PROMO_SERVICE_TYPES } from "../services/promotion.service"
+
+const promoTypes = ["PERCENTAGE", "FIXED_AMOUNT", "FREE_DELIVERY", "FIRST_RIDE"]
+
+export const promotionValidation = {
+  createCampaign: Joi.object({
+    name: Joi.string().trim().max(100).required(),
+    description: Joi.string().max(500).optional(),
+    code: Joi.string()
+      .trim()
+      .pattern(/^[A-Za-z0-9_-]{3,32}$/)
+      .required()
+      .messages({ "string.pattern.base": "Code must be 3-32 letters, numbers, dashes or underscores" }),
+    type: Joi.string()
+      .valid(...promoTypes)
+      .required(),
+    value: Joi.when("type", {
+      is: "FREE_DELIVERY",
+      then: Joi.number().min(0).default(0),
+      otherwise: Joi.number().positive().required(),
+    }),
+    maxDiscountAmount: Joi.number().positive().optional(),
+    minOrderAmount: Joi.number().min(0).optional(),
+    usageLimit: Joi.number().integer().min(1).optional(),
+    perUserLimit: Joi.number().integer().min(1).default(1),
+    serviceTypes: Joi.array()
+      .items(Joi.string().valid(...PROMO_SERVICE_TYPES))
+      .default([]),
+    serviceZoneIds: Joi.array().items(Joi.string()).default([]),
+    validFrom: Joi.date().iso().optional(),
+    validUntil: Joi.date().iso().greater(Joi.ref("validFrom")).optional(),
+    isActive: Joi.boolean().default(true),
+  }),
+
+  updateCampaign: Joi.object({
+    name: Joi.string().trim().max(100).optional(),
+    description: Joi.string().max(500).optional(),
+    code: Joi.string()
+      .trim()
+      .pattern(/^[A-Za-z0-9_-]{3,32}$/)
+      .optional(),
+    type: Joi.string()
+      .valid(...promoTypes)
+      .optional(),
+    value: Joi.number().min(0).optional(),
+    maxDiscountAmount: Joi.number().positive().optional(),
+    minOrderAmount: Joi.number().min(0).optional(),
+    usageLimit: Joi.number().integer().min(1).optional(),
+    perUserLimit: Joi.number().integer().min(1).optional(),
+    serviceTypes: Joi.array()
+      .items(Joi.string().valid(...PROMO_SERVICE_TYPES))
+      .optional(),
+    serviceZoneIds: Joi.array().items(Joi.string()).optional(),
+    validFrom: Joi.date().iso().optional(),
+    validUntil: Joi.date().iso().optional(),
+    isActive: Joi.boolean().optional(),
+  }).min(1),
+
+  validatePromoCode: Joi.object({
+    code: Joi.string().trim().max(32).required(),
+    serviceType: Joi.string()
+      .valid(...PROMO_SERVICE_TYPES)
+      .required(),
+    amount: Joi.number().min(0).required(),
+    deliveryFee: Joi.number().min(0).optional(),
+    latitude: Joi.number().min(-90).max(90).optional(),
+    longitude: Joi.number().min(-180).max(180).optional(),
+    serviceZoneId: Joi.string().optional(),
+  }),
+}
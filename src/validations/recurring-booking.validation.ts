@@ -0,0 +1,58 @@
+import Joi from "joi"
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/
+
+const rideTemplate = Joi.object({
+  pickupLatitude: Joi.number().min(-90).max(90).required(),
+  pickupLongitude: Joi.number().min(-180).max(180).required(),
+  dropoffLatitude: Joi.number().min(-90).max(90).required(),
+  dropoffLongitude: Joi.number().min(-180).max(180).required(),
+  rideType: Joi.string().valid("ECONOMY", "COMFORT", "PREMIUM", "SUV").default("ECONOMY"),
+  pickupInstructions: Joi.string().trim().max(500).optional(),
+})
+
+const dayBookingTemplate = Joi.object({
+  driverId: Joi.string().required(),
+  duration: Joi.number().integer().min(1).max(12).required(),
+  serviceArea: Joi.string().trim().required(),
+  specialRequirements: Joi.string().trim().max(1000).optional(),
+  contactPhone: Joi.string().optional(),
+  pickupLatitude: Joi.number().min(-90).max(90).optional(),
+  pickupLongitude: Joi.number().min(-180).max(180).optional(),
+})
+
+export const recurringBookingValidation = {
+  createSeries: Joi.object({
+    serviceType: Joi.string().valid("RIDE", "DAY_BOOKING").required(),
+    daysOfWeek: Joi.array().items(Joi.number().integer().min(0).max(6)).min(1).unique().required(),
+    timeOfDay: Joi.string()
+      .pattern(/^([01]\d|2[0-3]):([0-5]\d)$/)
+      .required()
+      .messages({ "string.pattern.base": "timeOfDay must be in HH:mm format" }),
+    startDate: Joi.date().iso().required(),
+    endDate: Joi.date().iso().min(Joi.ref("startDate")).optional(),
+    skipDates: Joi.array().items(Joi.string().pattern(datePattern)).unique().default([]),
+    template: Joi.when("serviceType", {
+      is: "RIDE",
+      then: rideTemplate.required(),
+      otherwise: dayBookingTemplate.required(),
+    }),
+    notes: Joi.string().trim().max(500).optional(),
+  }),
+
+  pauseSeries: Joi.object({
+    pausedUntil: Joi.date().iso().greater("now").optional(),
+  }),
+
+  cancelSeries: Joi.object({
+    reason: Joi.string().trim().max(500).optional(),
+  }),
+
+  skipOccurrence: Joi.object({
+    date: Joi.string()
+      .pattern(datePattern)
+      .required()
+      .messages({ "string.pattern.base": "date must be in YYYY-MM-DD format" }),
+    reason: Joi.string().trim().max(500).optional(),
+  }),
+}
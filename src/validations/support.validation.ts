@@ -0,0 +1,54 @@
+import Joi from "joi"
+
+const categories = [
+  "TECHNICAL_ISSUE",
+  "PAYMENT_ISSUE",
+  "BOOKING_ISSUE",
+  "DRIVER_COMPLAINT",
+  "SAFETY_CONCERN",
+  "ACCOUNT_ISSUE",
+  "FEATURE_REQUEST",
+  "COMMISSION_INQUIRY",
+  "PAYOUT_ISSUE",
+  "INTER_REGIONAL_ISSUE",
+  "OTHER",
+]
+const priorities = ["LOW", "MEDIUM", "HIGH", "URGENT"]
+const statuses = ["OPEN", "IN_PROGRESS", "RESOLVED", "CLOSED", "REOPENED"]
+
+export const supportValidation = {
+  createTicket: Joi.object({
+    subject: Joi.string().trim().max(200).required(),
+    description: Joi.string().trim().max(5000).required(),
+    category: Joi.string()
+      .valid(...categories)
+      .required(),
+    // Customers cannot flag their own tickets URGENT - safety reports are raised automatically
+    priority: Joi.string().valid("LOW", "MEDIUM", "HIGH").optional(),
+    bookingId: Joi.string().optional(),
+    orderId: Joi.string().optional(),
+    deliveryId: Joi.string().optional(),
+  }).oxor("bookingId", "orderId", "deliveryId"),
+
+  addMessage: Joi.object({
+    message: Joi.string().trim().max(5000).required(),
+    isInternal: Joi.boolean().default(false),
+  }),
+
+  updateStatus: Joi.object({
+    status: Joi.string()
+      .valid(...statuses)
+      .required(),
+    note: Joi.string().trim().max(2000).optional(),
+  }),
+
+  assignTicket: Joi.object({
+    agentId: Joi.string().optional(), // Defaults to the signed-in agent
+  }),
+
+  updatePriority: Joi.object({
+    priority: Joi.string()
+      .valid(...priorities)
+      .required(),
+  }),
+}
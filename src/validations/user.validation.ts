@@ -38,4 +38,42 @@ export const userValidation = {
       .pattern(/^[0-9]+$/)
       .required(),
   }),
+
+  registerDevice: Joi.object({
+    token: Joi.string().trim().max(4096).required(),
+    platform: Joi.string().valid("ANDROID", "IOS", "WEB").required(),
+    appVersion: Joi.string().trim().max(50).optional(),
+  }),
+
+  unregisterDevice: Joi.object({
+    token: Joi.string().trim().required(),
+  }),
+
+  updateNotificationPreferences: Joi.object({
+    preferences: Joi.array()
+      .items(
+        Joi.object({
+          category: Joi.string()
+            .valid("SAFETY", "TRIPS", "PAYMENTS", "ACCOUNT", "REWARDS", "PROMOTIONS", "RECOMMENDATIONS")
+            .required(),
+          channel: Joi.string().valid("IN_APP", "PUSH", "SMS", "EMAIL").required(),
+          enabled: Joi.boolean().required(),
+        }),
+      )
+      .optional(),
+    quietHours: Joi.object({
+      enabled: Joi.boolean().optional(),
+      start: Joi.string()
+        .pattern(/^([01]\d|2[0-3]):[0-5]\d$/)
+        .optional(),
+      end: Joi.string()
+        .pattern(/^([01]\d|2[0-3]):[0-5]\d$/)
+        .optional(),
+      serviceZoneId: Joi.string().uuid().allow(null).optional(),
+    }).optional(),
+  }).or("preferences", "quietHours"),
+
+  unsubscribe: Joi.object({
+    token: Joi.string().trim().required(),
+  }),
 }